@@ -0,0 +1,131 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('ASSET', 'LIABILITY', 'EQUITY', 'REVENUE', 'EXPENSE');
+
+-- CreateEnum
+CREATE TYPE "JournalEntryStatus" AS ENUM ('POSTED', 'REVERSED');
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "entityId" TEXT;
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "entityId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ledger_accounts" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "code" VARCHAR(20) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "type" "LedgerAccountType" NOT NULL,
+    "subtype" VARCHAR(50),
+    "systemKey" VARCHAR(50),
+    "parentId" TEXT,
+    "currency" VARCHAR(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "journal_entries" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "description" TEXT NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+    "status" "JournalEntryStatus" NOT NULL DEFAULT 'POSTED',
+    "sourceType" VARCHAR(50) NOT NULL,
+    "sourceId" TEXT,
+    "reversalOfId" TEXT,
+    "createdBy" TEXT,
+    "metadata" JSONB,
+    "postedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "journal_lines" (
+    "id" TEXT NOT NULL,
+    "journalEntryId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "debitCents" INTEGER NOT NULL DEFAULT 0,
+    "creditCents" INTEGER NOT NULL DEFAULT 0,
+    "description" TEXT,
+    "lineOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "journal_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoices_entityId_idx" ON "invoices"("entityId");
+
+-- CreateIndex
+CREATE INDEX "expenses_entityId_idx" ON "expenses"("entityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_entityId_code_key" ON "ledger_accounts"("entityId", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_entityId_systemKey_key" ON "ledger_accounts"("entityId", "systemKey");
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_tenantId_entityId_idx" ON "ledger_accounts"("tenantId", "entityId");
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_entityId_type_idx" ON "ledger_accounts"("entityId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "journal_entries_reversalOfId_key" ON "journal_entries"("reversalOfId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_tenantId_entityId_date_idx" ON "journal_entries"("tenantId", "entityId", "date");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_tenantId_sourceType_sourceId_idx" ON "journal_entries"("tenantId", "sourceType", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_entityId_status_idx" ON "journal_entries"("entityId", "status");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_journalEntryId_idx" ON "journal_lines"("journalEntryId");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_accountId_idx" ON "journal_lines"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "ledger_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "journal_entries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "journal_lines" ADD CONSTRAINT "journal_lines_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "journal_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "journal_lines" ADD CONSTRAINT "journal_lines_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "AccountingPeriodStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- AlterEnum
+ALTER TYPE "ApprovalItemType" ADD VALUE 'ACCOUNTING_PERIOD' BEFORE 'OTHER';
+
+-- CreateTable
+CREATE TABLE "accounting_periods" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "status" "AccountingPeriodStatus" NOT NULL DEFAULT 'OPEN',
+    "closedAt" TIMESTAMP(3),
+    "closedBy" TEXT,
+    "checklist" JSONB,
+    "reopenedAt" TIMESTAMP(3),
+    "reopenedBy" TEXT,
+    "reopenApprovalId" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "accounting_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accounting_periods_reopenApprovalId_key" ON "accounting_periods"("reopenApprovalId");
+
+-- CreateIndex
+CREATE INDEX "accounting_periods_tenantId_idx" ON "accounting_periods"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "accounting_periods_entityId_status_idx" ON "accounting_periods"("entityId", "status");
+
+-- CreateIndex
+CREATE INDEX "accounting_periods_entityId_startDate_endDate_idx" ON "accounting_periods"("entityId", "startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,82 @@
+-- CreateEnum
+CREATE TYPE "RecurringInvoiceCadence" AS ENUM ('WEEKLY', 'MONTHLY', 'QUARTERLY', 'ANNUAL', 'CUSTOM');
+
+-- CreateEnum
+CREATE TYPE "RecurringInvoiceStatus" AS ENUM ('ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "recurringInvoiceId" TEXT,
+ADD COLUMN "recurringRunDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "recurring_invoices" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT,
+    "clientId" TEXT,
+    "name" VARCHAR(120) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+    "cadence" "RecurringInvoiceCadence" NOT NULL,
+    "rrule" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "anchorDate" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "maxOccurrences" INTEGER,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 0,
+    "prorate" BOOLEAN NOT NULL DEFAULT false,
+    "autoSend" BOOLEAN NOT NULL DEFAULT false,
+    "autoCharge" BOOLEAN NOT NULL DEFAULT false,
+    "paymentMethodId" TEXT,
+    "status" "RecurringInvoiceStatus" NOT NULL DEFAULT 'ACTIVE',
+    "lastError" TEXT,
+    "metadata" JSONB,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recurring_invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "recurring_invoice_items" (
+    "id" TEXT NOT NULL,
+    "recurringInvoiceId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "unitPriceCents" INTEGER NOT NULL DEFAULT 0,
+    "lineOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "recurring_invoice_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_recurringInvoiceId_recurringRunDate_key" ON "invoices"("recurringInvoiceId", "recurringRunDate");
+
+-- CreateIndex
+CREATE INDEX "recurring_invoices_tenantId_status_idx" ON "recurring_invoices"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "recurring_invoices_status_nextRunAt_idx" ON "recurring_invoices"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "recurring_invoices_clientId_idx" ON "recurring_invoices"("clientId");
+
+-- CreateIndex
+CREATE INDEX "recurring_invoice_items_recurringInvoiceId_idx" ON "recurring_invoice_items"("recurringInvoiceId");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "recurring_invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoice_items" ADD CONSTRAINT "recurring_invoice_items_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "recurring_invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "taxCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "notes" TEXT,
+ADD COLUMN "ocrStatus" TEXT,
+ADD COLUMN "ocrData" JSONB,
+ADD COLUMN "ocrConfidence" DOUBLE PRECISION,
+ADD COLUMN "reviewStatus" TEXT NOT NULL DEFAULT 'NONE',
+ADD COLUMN "reviewFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "policyFlags" JSONB,
+ADD COLUMN "duplicateOfId" TEXT,
+ADD COLUMN "reviewedAt" TIMESTAMP(3),
+ADD COLUMN "reviewedBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "expense_policies" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "receiptRequiredAboveCents" INTEGER NOT NULL DEFAULT 7500,
+    "categoryLimits" JSONB NOT NULL DEFAULT '{}',
+    "flagWeekendSpend" BOOLEAN NOT NULL DEFAULT true,
+    "reviewConfidence" DOUBLE PRECISION NOT NULL DEFAULT 0.8,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "expense_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_tenantId_reviewStatus_idx" ON "expenses"("tenantId", "reviewStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expense_policies_tenantId_key" ON "expense_policies"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "expense_policies" ADD CONSTRAINT "expense_policies_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Delivery retries for scheduled exports
+ALTER TABLE "export_schedule_executions" ADD COLUMN "attempt" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "export_schedule_executions" ADD COLUMN "nextRetryAt" TIMESTAMP(3);
+ALTER TABLE "export_schedule_executions" ADD COLUMN "fileName" TEXT;
+ALTER TABLE "export_schedule_executions" ADD COLUMN "completedAt" TIMESTAMP(3);
+
+CREATE INDEX "export_schedule_executions_status_nextRetryAt_idx" ON "export_schedule_executions"("status", "nextRetryAt");
@@ -0,0 +1,112 @@
+-- AlterTable
+ALTER TABLE "banking_connections" ADD COLUMN "reconciledThrough" TIMESTAMP(3),
+ADD COLUMN "reconciledBalance" DECIMAL(19,4);
+
+-- AlterTable
+ALTER TABLE "banking_transactions" ADD COLUMN "category" TEXT,
+ADD COLUMN "reconciliationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "bank_rules" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "connectionId" TEXT,
+    "name" VARCHAR(120) NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "direction" TEXT,
+    "conditions" JSONB NOT NULL,
+    "minAmount" DECIMAL(19,4),
+    "maxAmount" DECIMAL(19,4),
+    "category" TEXT,
+    "accountId" TEXT,
+    "autoConfirm" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_transaction_matches" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "description" TEXT,
+    "ruleId" TEXT,
+    "journalEntryId" TEXT,
+    "previousStatus" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'CONFIRMED',
+    "createdBy" TEXT,
+    "undoneAt" TIMESTAMP(3),
+    "undoneBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_transaction_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_reconciliations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "statementDate" TIMESTAMP(3) NOT NULL,
+    "statementBalance" DECIMAL(19,4) NOT NULL,
+    "openingBalance" DECIMAL(19,4) NOT NULL,
+    "clearedBalance" DECIMAL(19,4) NOT NULL,
+    "transactionCount" INTEGER NOT NULL DEFAULT 0,
+    "previousThrough" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'COMPLETED',
+    "reconciledBy" TEXT,
+    "undoneAt" TIMESTAMP(3),
+    "undoneBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_reconciliations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "banking_transactions_reconciliationId_idx" ON "banking_transactions"("reconciliationId");
+
+-- CreateIndex
+CREATE INDEX "bank_rules_tenantId_isActive_priority_idx" ON "bank_rules"("tenantId", "isActive", "priority");
+
+-- CreateIndex
+CREATE INDEX "bank_rules_connectionId_idx" ON "bank_rules"("connectionId");
+
+-- CreateIndex
+CREATE INDEX "bank_transaction_matches_transactionId_status_idx" ON "bank_transaction_matches"("transactionId", "status");
+
+-- CreateIndex
+CREATE INDEX "bank_transaction_matches_tenantId_targetType_targetId_status_idx" ON "bank_transaction_matches"("tenantId", "targetType", "targetId", "status");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliations_connectionId_status_statementDate_idx" ON "bank_reconciliations"("connectionId", "status", "statementDate");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliations_tenantId_idx" ON "bank_reconciliations"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "banking_transactions" ADD CONSTRAINT "banking_transactions_reconciliationId_fkey" FOREIGN KEY ("reconciliationId") REFERENCES "bank_reconciliations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_rules" ADD CONSTRAINT "bank_rules_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_rules" ADD CONSTRAINT "bank_rules_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "banking_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_transaction_matches" ADD CONSTRAINT "bank_transaction_matches_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_transaction_matches" ADD CONSTRAINT "bank_transaction_matches_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "banking_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_reconciliations" ADD CONSTRAINT "bank_reconciliations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_reconciliations" ADD CONSTRAINT "bank_reconciliations_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "banking_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,180 @@
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT,
+    "clientId" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "amountCents" INTEGER NOT NULL,
+    "method" TEXT NOT NULL,
+    "reference" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'COMPLETED',
+    "stripePaymentIntentId" TEXT,
+    "bankTransactionMatchId" TEXT,
+    "journalEntryId" TEXT,
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "voidedAt" TIMESTAMP(3),
+    "voidedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_allocations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_notes" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT,
+    "clientId" TEXT,
+    "invoiceId" TEXT,
+    "number" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "totalCents" INTEGER NOT NULL,
+    "reason" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'ISSUED',
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "journalEntryId" TEXT,
+    "createdBy" TEXT,
+    "voidedAt" TIMESTAMP(3),
+    "voidedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_note_allocations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "creditNoteId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_note_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "creditNoteId" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "amountCents" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "stripeRefundId" TEXT,
+    "reason" TEXT,
+    "failureReason" TEXT,
+    "journalEntryId" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_stripePaymentIntentId_key" ON "payments"("stripePaymentIntentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_bankTransactionMatchId_key" ON "payments"("bankTransactionMatchId");
+
+-- CreateIndex
+CREATE INDEX "payments_tenantId_clientId_idx" ON "payments"("tenantId", "clientId");
+
+-- CreateIndex
+CREATE INDEX "payments_tenantId_status_idx" ON "payments"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_paymentId_idx" ON "payment_allocations"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_invoiceId_idx" ON "payment_allocations"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_tenantId_idx" ON "payment_allocations"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_notes_tenantId_number_key" ON "credit_notes"("tenantId", "number");
+
+-- CreateIndex
+CREATE INDEX "credit_notes_tenantId_clientId_idx" ON "credit_notes"("tenantId", "clientId");
+
+-- CreateIndex
+CREATE INDEX "credit_notes_invoiceId_idx" ON "credit_notes"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "credit_note_allocations_creditNoteId_idx" ON "credit_note_allocations"("creditNoteId");
+
+-- CreateIndex
+CREATE INDEX "credit_note_allocations_invoiceId_idx" ON "credit_note_allocations"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "credit_note_allocations_tenantId_idx" ON "credit_note_allocations"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_stripeRefundId_key" ON "refunds"("stripeRefundId");
+
+-- CreateIndex
+CREATE INDEX "refunds_paymentId_idx" ON "refunds"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "refunds_creditNoteId_idx" ON "refunds"("creditNoteId");
+
+-- CreateIndex
+CREATE INDEX "refunds_tenantId_status_idx" ON "refunds"("tenantId", "status");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_note_allocations" ADD CONSTRAINT "credit_note_allocations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_note_allocations" ADD CONSTRAINT "credit_note_allocations_creditNoteId_fkey" FOREIGN KEY ("creditNoteId") REFERENCES "credit_notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_note_allocations" ADD CONSTRAINT "credit_note_allocations_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_creditNoteId_fkey" FOREIGN KEY ("creditNoteId") REFERENCES "credit_notes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
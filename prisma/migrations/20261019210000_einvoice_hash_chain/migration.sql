@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "einvoice_devices" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT,
+    "standard" TEXT NOT NULL DEFAULT 'ZATCA',
+    "name" TEXT NOT NULL,
+    "serialNumber" TEXT NOT NULL,
+    "vatNumber" TEXT NOT NULL,
+    "sellerName" TEXT NOT NULL,
+    "crNumber" TEXT,
+    "address" JSONB,
+    "icv" INTEGER NOT NULL DEFAULT 0,
+    "lastInvoiceHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "einvoice_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "einvoice_documents" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "invoiceId" TEXT,
+    "invoiceNumber" TEXT NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "invoiceType" TEXT NOT NULL,
+    "icv" INTEGER NOT NULL,
+    "previousHash" TEXT NOT NULL,
+    "invoiceHash" TEXT NOT NULL,
+    "signatureValue" TEXT NOT NULL,
+    "qrCode" TEXT NOT NULL,
+    "xml" TEXT NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "einvoice_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "einvoice_devices_tenantId_serialNumber_key" ON "einvoice_devices"("tenantId", "serialNumber");
+
+-- CreateIndex
+CREATE INDEX "einvoice_devices_tenantId_status_idx" ON "einvoice_devices"("tenantId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "einvoice_documents_deviceId_icv_key" ON "einvoice_documents"("deviceId", "icv");
+
+-- CreateIndex
+CREATE INDEX "einvoice_documents_tenantId_invoiceId_idx" ON "einvoice_documents"("tenantId", "invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "einvoice_devices" ADD CONSTRAINT "einvoice_devices_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "einvoice_documents" ADD CONSTRAINT "einvoice_documents_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "einvoice_documents" ADD CONSTRAINT "einvoice_documents_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "einvoice_devices"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "einvoice_documents" ADD CONSTRAINT "einvoice_documents_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "einvoice_devices" ALTER COLUMN "status" SET DEFAULT 'ONBOARDING',
+ADD COLUMN "environment" TEXT NOT NULL DEFAULT 'sandbox',
+ADD COLUMN "invoiceTypes" TEXT NOT NULL DEFAULT '1100',
+ADD COLUMN "onboardingStep" TEXT NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "csr" TEXT,
+ADD COLUMN "privateKeyEncrypted" TEXT,
+ADD COLUMN "complianceCsid" TEXT,
+ADD COLUMN "complianceSecretEncrypted" TEXT,
+ADD COLUMN "complianceRequestId" TEXT,
+ADD COLUMN "complianceResults" JSONB,
+ADD COLUMN "productionCsid" TEXT,
+ADD COLUMN "productionSecretEncrypted" TEXT,
+ADD COLUMN "productionRequestId" TEXT,
+ADD COLUMN "certificateExpiresAt" TIMESTAMP(3),
+ADD COLUMN "expiryNotifiedAt" TIMESTAMP(3),
+ADD COLUMN "onboardedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "einvoice_devices_status_certificateExpiresAt_idx" ON "einvoice_devices"("status", "certificateExpiresAt");
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "einvoice_submissions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "invoiceId" TEXT,
+    "documentId" TEXT,
+    "standard" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "invoiceNumber" TEXT NOT NULL,
+    "xml" TEXT,
+    "payload" JSONB,
+    "invoiceHash" TEXT,
+    "qrCode" TEXT,
+    "clearedXml" TEXT,
+    "authorityUuid" TEXT,
+    "authorityReference" TEXT,
+    "warnings" JSONB,
+    "errors" JSONB,
+    "lastError" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deadlineAt" TIMESTAMP(3),
+    "claimedAt" TIMESTAMP(3),
+    "submittedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "supersededById" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "einvoice_submissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "einvoice_submissions_documentId_key" ON "einvoice_submissions"("documentId");
+
+-- CreateIndex
+CREATE INDEX "einvoice_submissions_tenantId_status_idx" ON "einvoice_submissions"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "einvoice_submissions_status_nextAttemptAt_idx" ON "einvoice_submissions"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "einvoice_submissions_invoiceId_idx" ON "einvoice_submissions"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "einvoice_submissions" ADD CONSTRAINT "einvoice_submissions_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "einvoice_submissions" ADD CONSTRAINT "einvoice_submissions_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "einvoice_submissions" ADD CONSTRAINT "einvoice_submissions_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "einvoice_documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,88 @@
+-- CreateTable
+CREATE TABLE "e_receipts" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "posSerial" VARCHAR(100) NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "receiptNumber" VARCHAR(100) NOT NULL,
+    "receiptType" VARCHAR(1) NOT NULL DEFAULT 'S',
+    "uuid" VARCHAR(64) NOT NULL,
+    "previousUuid" VARCHAR(64) NOT NULL,
+    "referenceUuid" VARCHAR(64),
+    "dateTimeIssued" TIMESTAMP(3) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'EGP',
+    "totalAmount" DECIMAL(19,5) NOT NULL,
+    "taxAmount" DECIMAL(19,5) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "batchId" TEXT,
+    "errors" JSONB,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "e_receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "e_receipt_batches" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "posSerial" VARCHAR(100) NOT NULL,
+    "submissionUuid" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'SUBMITTING',
+    "receiptCount" INTEGER NOT NULL,
+    "acceptedCount" INTEGER NOT NULL DEFAULT 0,
+    "rejectedCount" INTEGER NOT NULL DEFAULT 0,
+    "validCount" INTEGER NOT NULL DEFAULT 0,
+    "invalidCount" INTEGER NOT NULL DEFAULT 0,
+    "checks" INTEGER NOT NULL DEFAULT 0,
+    "nextCheckAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "e_receipt_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "e_receipts_uuid_key" ON "e_receipts"("uuid");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "e_receipts_tenantId_posSerial_sequence_key" ON "e_receipts"("tenantId", "posSerial", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "e_receipts_tenantId_posSerial_receiptNumber_key" ON "e_receipts"("tenantId", "posSerial", "receiptNumber");
+
+-- CreateIndex
+CREATE INDEX "e_receipts_tenantId_status_idx" ON "e_receipts"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "e_receipts_tenantId_entityId_dateTimeIssued_idx" ON "e_receipts"("tenantId", "entityId", "dateTimeIssued");
+
+-- CreateIndex
+CREATE INDEX "e_receipts_batchId_idx" ON "e_receipts"("batchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "e_receipt_batches_submissionUuid_key" ON "e_receipt_batches"("submissionUuid");
+
+-- CreateIndex
+CREATE INDEX "e_receipt_batches_tenantId_status_idx" ON "e_receipt_batches"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "e_receipt_batches_status_nextCheckAt_idx" ON "e_receipt_batches"("status", "nextCheckAt");
+
+-- AddForeignKey
+ALTER TABLE "e_receipts" ADD CONSTRAINT "e_receipts_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "e_receipts" ADD CONSTRAINT "e_receipts_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "e_receipts" ADD CONSTRAINT "e_receipts_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "e_receipt_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "e_receipt_batches" ADD CONSTRAINT "e_receipt_batches_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
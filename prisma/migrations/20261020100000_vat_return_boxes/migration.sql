@@ -0,0 +1,57 @@
+-- AlterTable
+ALTER TABLE "tax_codes" ADD COLUMN "vatTreatment" VARCHAR(20);
+
+-- AlterTable
+ALTER TABLE "invoice_items" ADD COLUMN "taxCodeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "taxCodeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "taxCodeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "vat_return_adjustments" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "filingPeriodId" TEXT NOT NULL,
+    "kind" VARCHAR(20) NOT NULL DEFAULT 'ADJUSTMENT',
+    "box" VARCHAR(5),
+    "description" VARCHAR(255) NOT NULL,
+    "reference" VARCHAR(100),
+    "date" TIMESTAMP(3) NOT NULL,
+    "netAmount" DECIMAL(19,4) NOT NULL,
+    "taxAmount" DECIMAL(19,4) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vat_return_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoice_items_taxCodeId_idx" ON "invoice_items"("taxCodeId");
+
+-- CreateIndex
+CREATE INDEX "bills_taxCodeId_idx" ON "bills"("taxCodeId");
+
+-- CreateIndex
+CREATE INDEX "expenses_taxCodeId_idx" ON "expenses"("taxCodeId");
+
+-- CreateIndex
+CREATE INDEX "vat_return_adjustments_tenantId_filingPeriodId_idx" ON "vat_return_adjustments"("tenantId", "filingPeriodId");
+
+-- AddForeignKey
+ALTER TABLE "invoice_items" ADD CONSTRAINT "invoice_items_taxCodeId_fkey" FOREIGN KEY ("taxCodeId") REFERENCES "tax_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bills" ADD CONSTRAINT "bills_taxCodeId_fkey" FOREIGN KEY ("taxCodeId") REFERENCES "tax_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_taxCodeId_fkey" FOREIGN KEY ("taxCodeId") REFERENCES "tax_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vat_return_adjustments" ADD CONSTRAINT "vat_return_adjustments_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vat_return_adjustments" ADD CONSTRAINT "vat_return_adjustments_filingPeriodId_fkey" FOREIGN KEY ("filingPeriodId") REFERENCES "filing_periods"("id") ON DELETE CASCADE ON UPDATE CASCADE;
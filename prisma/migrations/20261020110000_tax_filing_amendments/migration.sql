@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "tax_filings" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "originalFilingId" TEXT,
+ADD COLUMN "amendsFilingId" TEXT,
+ADD COLUMN "amendmentReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tax_filings_originalFilingId_idx" ON "tax_filings"("originalFilingId");
+
+-- CreateIndex
+CREATE INDEX "tax_filings_amendsFilingId_idx" ON "tax_filings"("amendsFilingId");
+
+-- AddForeignKey
+ALTER TABLE "tax_filings" ADD CONSTRAINT "tax_filings_amendsFilingId_fkey" FOREIGN KEY ("amendsFilingId") REFERENCES "tax_filings"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "partyId" TEXT,
+ADD COLUMN "whtAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "paidAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "bill_lines" (
+    "id" TEXT NOT NULL,
+    "billId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "whtPaymentType" VARCHAR(50),
+    "whtRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "whtAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "whtTreatyRateId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bill_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "party_wht_treaty_rates" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "partyId" TEXT NOT NULL,
+    "country" VARCHAR(2) NOT NULL,
+    "paymentType" VARCHAR(50) NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "treatyCountry" VARCHAR(2) NOT NULL,
+    "residencyCertificate" VARCHAR(255),
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "party_wht_treaty_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bills_partyId_idx" ON "bills"("partyId");
+
+-- CreateIndex
+CREATE INDEX "bills_tenantId_paidAt_idx" ON "bills"("tenantId", "paidAt");
+
+-- CreateIndex
+CREATE INDEX "bill_lines_billId_idx" ON "bill_lines"("billId");
+
+-- CreateIndex
+CREATE INDEX "bill_lines_whtTreatyRateId_idx" ON "bill_lines"("whtTreatyRateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "party_wht_treaty_rates_partyId_country_paymentType_validFrom_key" ON "party_wht_treaty_rates"("partyId", "country", "paymentType", "validFrom");
+
+-- CreateIndex
+CREATE INDEX "party_wht_treaty_rates_tenantId_partyId_idx" ON "party_wht_treaty_rates"("tenantId", "partyId");
+
+-- AddForeignKey
+ALTER TABLE "bills" ADD CONSTRAINT "bills_partyId_fkey" FOREIGN KEY ("partyId") REFERENCES "parties"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_lines" ADD CONSTRAINT "bill_lines_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_lines" ADD CONSTRAINT "bill_lines_whtTreatyRateId_fkey" FOREIGN KEY ("whtTreatyRateId") REFERENCES "party_wht_treaty_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "party_wht_treaty_rates" ADD CONSTRAINT "party_wht_treaty_rates_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "party_wht_treaty_rates" ADD CONSTRAINT "party_wht_treaty_rates_partyId_fkey" FOREIGN KEY ("partyId") REFERENCES "parties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
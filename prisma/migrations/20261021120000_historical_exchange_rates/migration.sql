@@ -0,0 +1,28 @@
+-- AlterTable: keep one rate per pair, day and source instead of overwriting
+UPDATE "ExchangeRate" SET "source" = 'manual' WHERE "source" IS NULL;
+ALTER TABLE "ExchangeRate" ALTER COLUMN "source" SET NOT NULL,
+ALTER COLUMN "source" SET DEFAULT 'manual',
+ADD COLUMN "rateDate" DATE NOT NULL DEFAULT CURRENT_DATE;
+
+UPDATE "ExchangeRate" SET "rateDate" = "fetchedAt"::date;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "baseCurrency" VARCHAR(3),
+ADD COLUMN "exchangeRate" DOUBLE PRECISION,
+ADD COLUMN "baseTotalCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "baseCurrency" VARCHAR(3),
+ADD COLUMN "exchangeRate" DOUBLE PRECISION,
+ADD COLUMN "baseAmountCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "baseCurrency" VARCHAR(3),
+ADD COLUMN "exchangeRate" DOUBLE PRECISION,
+ADD COLUMN "baseAmount" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_base_target_rateDate_source_key" ON "ExchangeRate"("base", "target", "rateDate", "source");
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_base_target_rateDate_idx" ON "ExchangeRate"("base", "target", "rateDate");
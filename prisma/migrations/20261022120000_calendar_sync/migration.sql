@@ -0,0 +1,91 @@
+-- AlterTable
+ALTER TABLE "team_members" ADD COLUMN "calendarFeedVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "calendar_connections" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "teamMemberId" TEXT NOT NULL,
+    "type" VARCHAR(10) NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "username" TEXT,
+    "passwordSecret" TEXT,
+    "pushBookings" BOOLEAN NOT NULL DEFAULT false,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "lastSyncedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "calendar_busy_intervals" (
+    "id" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "teamMemberId" TEXT NOT NULL,
+    "uid" TEXT NOT NULL,
+    "start" TIMESTAMP(3) NOT NULL,
+    "end" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calendar_busy_intervals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "calendar_event_links" (
+    "id" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "uid" TEXT NOT NULL,
+    "href" TEXT NOT NULL,
+    "etag" TEXT,
+    "sequence" INTEGER NOT NULL DEFAULT 0,
+    "lastPushedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_event_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "calendar_connections_tenantId_idx" ON "calendar_connections"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "calendar_connections_teamMemberId_idx" ON "calendar_connections"("teamMemberId");
+
+-- CreateIndex
+CREATE INDEX "calendar_connections_status_lastSyncedAt_idx" ON "calendar_connections"("status", "lastSyncedAt");
+
+-- CreateIndex
+CREATE INDEX "calendar_busy_intervals_connectionId_idx" ON "calendar_busy_intervals"("connectionId");
+
+-- CreateIndex
+CREATE INDEX "calendar_busy_intervals_teamMemberId_start_end_idx" ON "calendar_busy_intervals"("teamMemberId", "start", "end");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_event_links_connectionId_bookingId_key" ON "calendar_event_links"("connectionId", "bookingId");
+
+-- CreateIndex
+CREATE INDEX "calendar_event_links_bookingId_idx" ON "calendar_event_links"("bookingId");
+
+-- AddForeignKey
+ALTER TABLE "calendar_connections" ADD CONSTRAINT "calendar_connections_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_connections" ADD CONSTRAINT "calendar_connections_teamMemberId_fkey" FOREIGN KEY ("teamMemberId") REFERENCES "team_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_busy_intervals" ADD CONSTRAINT "calendar_busy_intervals_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "calendar_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_busy_intervals" ADD CONSTRAINT "calendar_busy_intervals_teamMemberId_fkey" FOREIGN KEY ("teamMemberId") REFERENCES "team_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_event_links" ADD CONSTRAINT "calendar_event_links_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "calendar_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_event_links" ADD CONSTRAINT "calendar_event_links_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ServiceRequest" ADD COLUMN "occurrenceStart" TIMESTAMP(3);
+
+-- Existing occurrences were never moved, so their slot is their scheduled time
+UPDATE "ServiceRequest" SET "occurrenceStart" = "scheduledAt" WHERE "parentBookingId" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ServiceRequest_parentBookingId_idx" ON "ServiceRequest"("parentBookingId");
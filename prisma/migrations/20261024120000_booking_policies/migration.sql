@@ -0,0 +1,106 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "rescheduleCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "cancelledAt" TIMESTAMP(3),
+ADD COLUMN "noShowAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "booking_policies" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "rescheduleNoticeHours" INTEGER,
+    "maxReschedules" INTEGER,
+    "cancellationNoticeHours" INTEGER,
+    "lateCancelFees" JSONB,
+    "noShowFeePercent" INTEGER,
+    "noShowFeeCents" INTEGER,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+    "chargeSavedMethod" BOOLEAN NOT NULL DEFAULT true,
+    "policyText" TEXT,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "booking_fees" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "type" VARCHAR(20) NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "invoiceId" TEXT,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'INVOICED',
+    "chargeError" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_fees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "booking_waitlist_entries" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "earliestAt" TIMESTAMP(3) NOT NULL,
+    "latestAt" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'WAITING',
+    "offeredStart" TIMESTAMP(3),
+    "offeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_policies_serviceId_key" ON "booking_policies"("serviceId");
+
+-- CreateIndex
+CREATE INDEX "booking_policies_tenantId_idx" ON "booking_policies"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_fees_bookingId_type_key" ON "booking_fees"("bookingId", "type");
+
+-- CreateIndex
+CREATE INDEX "booking_fees_tenantId_idx" ON "booking_fees"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "booking_waitlist_entries_tenantId_idx" ON "booking_waitlist_entries"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "booking_waitlist_entries_serviceId_status_earliestAt_idx" ON "booking_waitlist_entries"("serviceId", "status", "earliestAt");
+
+-- CreateIndex
+CREATE INDEX "booking_waitlist_entries_clientId_idx" ON "booking_waitlist_entries"("clientId");
+
+-- AddForeignKey
+ALTER TABLE "booking_policies" ADD CONSTRAINT "booking_policies_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_policies" ADD CONSTRAINT "booking_policies_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_fees" ADD CONSTRAINT "booking_fees_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_fees" ADD CONSTRAINT "booking_fees_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_fees" ADD CONSTRAINT "booking_fees_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_waitlist_entries" ADD CONSTRAINT "booking_waitlist_entries_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_waitlist_entries" ADD CONSTRAINT "booking_waitlist_entries_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_waitlist_entries" ADD CONSTRAINT "booking_waitlist_entries_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
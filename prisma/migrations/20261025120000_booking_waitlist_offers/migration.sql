@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "booking_settings" ADD COLUMN "waitlistHoldMinutes" INTEGER NOT NULL DEFAULT 120;
+
+-- AlterTable
+ALTER TABLE "booking_waitlist_entries" ADD COLUMN "bookingId" TEXT;
+
+-- CreateTable
+CREATE TABLE "booking_waitlist_offers" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "start" TIMESTAMP(3) NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "teamMemberId" TEXT,
+    "source" VARCHAR(20) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'OFFERED',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "bookingId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_waitlist_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_waitlist_offers_tenantId_idx" ON "booking_waitlist_offers"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "booking_waitlist_offers_serviceId_status_start_idx" ON "booking_waitlist_offers"("serviceId", "status", "start");
+
+-- CreateIndex
+CREATE INDEX "booking_waitlist_offers_status_expiresAt_idx" ON "booking_waitlist_offers"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "booking_waitlist_offers_entryId_idx" ON "booking_waitlist_offers"("entryId");
+
+-- AddForeignKey
+ALTER TABLE "booking_waitlist_entries" ADD CONSTRAINT "booking_waitlist_entries_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_waitlist_offers" ADD CONSTRAINT "booking_waitlist_offers_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_waitlist_offers" ADD CONSTRAINT "booking_waitlist_offers_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "booking_waitlist_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_waitlist_offers" ADD CONSTRAINT "booking_waitlist_offers_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Entries offered a slot before offers were tracked keep waiting for the next one
+UPDATE "booking_waitlist_entries" SET "status" = 'WAITING' WHERE "status" = 'OFFERED';
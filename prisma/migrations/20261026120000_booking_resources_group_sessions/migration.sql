@@ -0,0 +1,137 @@
+-- AlterTable
+ALTER TABLE "services" ADD COLUMN "groupCapacity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "capacity" INTEGER,
+ADD COLUMN "seatsTaken" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "booking_resources" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" VARCHAR(20) NOT NULL,
+    "capacity" INTEGER NOT NULL DEFAULT 1,
+    "location" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "booking_resources_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "service_resource_requirements" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "kind" VARCHAR(20) NOT NULL,
+    "resourceId" TEXT,
+    "resourceType" VARCHAR(20),
+    "skills" TEXT[],
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "service_resource_requirements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "booking_resource_allocations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "resourceId" TEXT,
+    "teamMemberId" TEXT,
+    "units" INTEGER NOT NULL DEFAULT 1,
+    "start" TIMESTAMP(3) NOT NULL,
+    "end" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_resource_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "booking_attendees" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "seats" INTEGER NOT NULL DEFAULT 1,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'REGISTERED',
+    "amountCents" INTEGER NOT NULL DEFAULT 0,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+    "invoiceId" TEXT,
+    "registeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cancelledAt" TIMESTAMP(3),
+
+    CONSTRAINT "booking_attendees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_resources_tenantId_name_key" ON "booking_resources"("tenantId", "name");
+
+-- CreateIndex
+CREATE INDEX "booking_resources_tenantId_type_active_idx" ON "booking_resources"("tenantId", "type", "active");
+
+-- CreateIndex
+CREATE INDEX "service_resource_requirements_tenantId_idx" ON "service_resource_requirements"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "service_resource_requirements_serviceId_idx" ON "service_resource_requirements"("serviceId");
+
+-- CreateIndex
+CREATE INDEX "booking_resource_allocations_bookingId_idx" ON "booking_resource_allocations"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "booking_resource_allocations_resourceId_start_end_idx" ON "booking_resource_allocations"("resourceId", "start", "end");
+
+-- CreateIndex
+CREATE INDEX "booking_resource_allocations_teamMemberId_start_end_idx" ON "booking_resource_allocations"("teamMemberId", "start", "end");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_attendees_bookingId_userId_key" ON "booking_attendees"("bookingId", "userId");
+
+-- CreateIndex
+CREATE INDEX "booking_attendees_tenantId_idx" ON "booking_attendees"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "booking_attendees_userId_idx" ON "booking_attendees"("userId");
+
+-- AddForeignKey
+ALTER TABLE "booking_resources" ADD CONSTRAINT "booking_resources_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "service_resource_requirements" ADD CONSTRAINT "service_resource_requirements_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "service_resource_requirements" ADD CONSTRAINT "service_resource_requirements_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "service_resource_requirements" ADD CONSTRAINT "service_resource_requirements_resourceId_fkey" FOREIGN KEY ("resourceId") REFERENCES "booking_resources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_resource_allocations" ADD CONSTRAINT "booking_resource_allocations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_resource_allocations" ADD CONSTRAINT "booking_resource_allocations_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_resource_allocations" ADD CONSTRAINT "booking_resource_allocations_resourceId_fkey" FOREIGN KEY ("resourceId") REFERENCES "booking_resources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_resource_allocations" ADD CONSTRAINT "booking_resource_allocations_teamMemberId_fkey" FOREIGN KEY ("teamMemberId") REFERENCES "team_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_attendees" ADD CONSTRAINT "booking_attendees_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_attendees" ADD CONSTRAINT "booking_attendees_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_attendees" ADD CONSTRAINT "booking_attendees_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_attendees" ADD CONSTRAINT "booking_attendees_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
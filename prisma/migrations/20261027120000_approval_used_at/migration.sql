@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "approvals" ADD COLUMN "usedAt" TIMESTAMP(3);
+
+-- Approvals that already re-opened a period are spent
+UPDATE "approvals" a SET "usedAt" = p."reopenedAt"
+FROM "accounting_periods" p
+WHERE p."reopenApprovalId" = a."id" AND a."usedAt" IS NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_payment_methods" ADD COLUMN "stripeCustomerId" TEXT;
@@ -0,0 +1,13 @@
+-- Keep only the most recently refreshed draft per entity, tax type and period
+DELETE FROM "tax_filings" f
+USING "tax_filings" newer
+WHERE f."status" = 'DRAFT'
+  AND newer."status" = 'DRAFT'
+  AND newer."tenantId" = f."tenantId"
+  AND newer."entityId" = f."entityId"
+  AND newer."taxType" = f."taxType"
+  AND newer."periodStartDate" = f."periodStartDate"
+  AND (newer."updatedAt", newer."id") > (f."updatedAt", f."id");
+
+-- CreateIndex: Prisma cannot express a partial unique index, so it lives here only
+CREATE UNIQUE INDEX "tax_filings_single_draft_key" ON "tax_filings"("tenantId", "entityId", "taxType", "periodStartDate") WHERE "status" = 'DRAFT';
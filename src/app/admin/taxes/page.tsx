@@ -1,2 +1,2 @@
 import { redirect } from 'next/navigation'
-export default function Page() { redirect('/admin/analytics') }
+export default function Page() { redirect('/admin/taxes/filings') }
@@ -6,6 +6,28 @@ export type ReportFormat = 'table' | 'grid' | 'pivot' | 'chart'
 export type ChartType = 'bar' | 'line' | 'pie' | 'area' | 'scatter'
 export type AggregationType = 'sum' | 'count' | 'average' | 'min' | 'max' | 'distinct'
 export type SortDirection = 'asc' | 'desc'
+export type ReportDataSourceKey =
+  | 'users'
+  | 'invoices'
+  | 'bills'
+  | 'expenses'
+  | 'bankTransactions'
+  | 'bookings'
+  | 'serviceRequests'
+  | 'taxFilings'
+  | 'tasks'
+
+export const REPORT_DATA_SOURCE_KEYS: ReportDataSourceKey[] = [
+  'users',
+  'invoices',
+  'bills',
+  'expenses',
+  'bankTransactions',
+  'bookings',
+  'serviceRequests',
+  'taxFilings',
+  'tasks'
+]
 
 export interface ReportColumn {
   name: string
@@ -15,6 +37,7 @@ export interface ReportColumn {
   width?: number
   sortable?: boolean
   aggregatable?: boolean
+  format?: 'number' | 'percentage' | 'currency'
 }
 
 export interface ReportGrouping {
@@ -42,6 +65,8 @@ export interface ReportCalculation {
   column: string
   label?: string
   formatAs?: 'number' | 'percentage' | 'currency'
+  /** Aggregate per distinct value of this column instead of over all rows */
+  groupBy?: string
 }
 
 export interface ReportSection {
@@ -49,6 +74,8 @@ export interface ReportSection {
   title: string
   type: 'summary' | 'details' | 'chart' | 'table'
   order: number
+  /** Rows come from this data source; defaults to users */
+  dataSource?: ReportDataSourceKey
   columns?: ReportColumn[]
   grouping?: ReportGrouping[]
   sorting?: ReportSorting[]
@@ -121,6 +148,16 @@ export interface ReportData {
   summary?: Record<string, any>
   pageCount?: number
   rowCount: number
+  /** Per-section data when sections draw on different data sources */
+  sections?: Record<string, ReportData>
+}
+
+export interface ReportDataSourceInfo {
+  key: ReportDataSourceKey
+  label: string
+  description: string
+  columns: ReportColumn[]
+  dateColumn?: string
 }
 
 export interface GenerateReportRequest {
@@ -268,6 +305,128 @@ export const DEFAULT_REPORT_TEMPLATES: Record<string, ReportTemplate> = {
       }
     ],
     isPublic: true
+  },
+  receivables_aging: {
+    id: 'receivables-aging',
+    name: 'Receivables Aging',
+    description: 'Unpaid invoices bucketed by days outstanding',
+    category: 'Finance',
+    icon: 'Clock',
+    sections: [
+      {
+        id: 'aging-summary',
+        title: 'Outstanding by Age',
+        type: 'summary',
+        order: 1,
+        dataSource: 'invoices',
+        filters: [{ column: 'status', operator: 'in', value: ['UNPAID', 'SENT'] }],
+        calculations: [
+          { name: 'outstanding_total', type: 'sum', column: 'total', label: 'Total Outstanding', formatAs: 'currency' },
+          { name: 'outstanding_by_bucket', type: 'sum', column: 'total', label: 'By Age', groupBy: 'agingBucket', formatAs: 'currency' }
+        ]
+      },
+      {
+        id: 'aging-details',
+        title: 'Open Invoices',
+        type: 'table',
+        order: 2,
+        dataSource: 'invoices',
+        columns: [
+          { name: 'number', label: 'Invoice', type: 'string', visible: true },
+          { name: 'clientName', label: 'Client', type: 'string', visible: true },
+          { name: 'createdAt', label: 'Issued', type: 'date', visible: true },
+          { name: 'daysOutstanding', label: 'Days', type: 'number', visible: true },
+          { name: 'total', label: 'Amount', type: 'number', visible: true, format: 'currency' }
+        ],
+        filters: [{ column: 'status', operator: 'in', value: ['UNPAID', 'SENT'] }],
+        grouping: [{ column: 'agingBucket', order: 1, showSubtotals: true, subtotalFields: ['total'] }],
+        sorting: [{ column: 'daysOutstanding', direction: 'desc', order: 1 }]
+      }
+    ],
+    isPublic: true
+  },
+  revenue_by_service: {
+    id: 'revenue-by-service',
+    name: 'Revenue by Service',
+    description: 'Paid invoice revenue grouped by the booked service',
+    category: 'Finance',
+    icon: 'TrendingUp',
+    sections: [
+      {
+        id: 'revenue-summary',
+        title: 'Revenue',
+        type: 'summary',
+        order: 1,
+        dataSource: 'invoices',
+        filters: [{ column: 'status', operator: 'equals', value: 'PAID' }],
+        calculations: [
+          { name: 'revenue_total', type: 'sum', column: 'total', label: 'Total Revenue', formatAs: 'currency' },
+          { name: 'revenue_by_service', type: 'sum', column: 'total', label: 'By Service', groupBy: 'serviceName', formatAs: 'currency' }
+        ]
+      },
+      {
+        id: 'revenue-details',
+        title: 'Paid Invoices',
+        type: 'table',
+        order: 2,
+        dataSource: 'invoices',
+        columns: [
+          { name: 'number', label: 'Invoice', type: 'string', visible: true },
+          { name: 'clientName', label: 'Client', type: 'string', visible: true },
+          { name: 'paidAt', label: 'Paid', type: 'date', visible: true },
+          { name: 'total', label: 'Amount', type: 'number', visible: true, format: 'currency' }
+        ],
+        filters: [{ column: 'status', operator: 'equals', value: 'PAID' }],
+        grouping: [{ column: 'serviceName', order: 1, showSubtotals: true, subtotalFields: ['total'] }]
+      }
+    ],
+    isPublic: true
+  },
+  vat_summary: {
+    id: 'vat-summary',
+    name: 'VAT Summary',
+    description: 'Tax filings by type and status with the amounts due',
+    category: 'Tax',
+    icon: 'Receipt',
+    sections: [
+      {
+        id: 'vat-totals',
+        title: 'Tax Due',
+        type: 'summary',
+        order: 1,
+        dataSource: 'taxFilings',
+        calculations: [
+          { name: 'tax_total', type: 'sum', column: 'taxAmount', label: 'Total Tax', formatAs: 'currency' },
+          { name: 'tax_by_type', type: 'sum', column: 'taxAmount', label: 'By Tax Type', groupBy: 'taxType', formatAs: 'currency' }
+        ]
+      },
+      {
+        id: 'vat-input',
+        title: 'Input Tax on Expenses',
+        type: 'summary',
+        order: 2,
+        dataSource: 'expenses',
+        calculations: [
+          { name: 'input_tax_by_category', type: 'sum', column: 'tax', label: 'By Category', groupBy: 'category', formatAs: 'currency' }
+        ]
+      },
+      {
+        id: 'vat-filings',
+        title: 'Filings',
+        type: 'table',
+        order: 3,
+        dataSource: 'taxFilings',
+        columns: [
+          { name: 'taxType', label: 'Type', type: 'string', visible: true },
+          { name: 'periodStartDate', label: 'From', type: 'date', visible: true },
+          { name: 'periodEndDate', label: 'To', type: 'date', visible: true },
+          { name: 'status', label: 'Status', type: 'string', visible: true },
+          { name: 'taxAmount', label: 'Tax', type: 'number', visible: true, format: 'currency' }
+        ],
+        sorting: [{ column: 'periodEndDate', direction: 'desc', order: 1 }]
+      }
+    ],
+    isPublic: true
   }
 }
 
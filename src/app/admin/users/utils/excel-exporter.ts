@@ -144,7 +144,7 @@ export function generateExcelXML(
   // This is a simplified XML structure for Excel
   // For production use, consider using a proper library like xlsx or exceljs
   let xmlContent = '<?xml version="1.0" encoding="UTF-8"?>\n'
-  xmlContent += '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel">\n'
+  xmlContent += '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet" xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel">\n'
   xmlContent += '<DocumentProperties><Created>' + new Date().toISOString() + '</Created></DocumentProperties>\n'
   xmlContent += '<Styles>\n'
 
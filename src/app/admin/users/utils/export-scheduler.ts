@@ -32,12 +32,15 @@ export interface ExportExecution {
   id: string
   scheduleId: string
   executedAt: string
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'completed' | 'retrying' | 'failed'
   recipientCount: number
   recordCount: number
   fileSizeBytes?: number
   errorMessage?: string
   deliveryStatus?: Record<string, 'sent' | 'bounced' | 'failed'>
+  attempt?: number
+  nextRetryAt?: string // Set while a failed delivery is waiting to be retried
+  fileName?: string
 }
 
 export interface ScheduledExportResult {
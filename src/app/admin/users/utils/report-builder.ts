@@ -7,8 +7,11 @@ import {
   ReportGrouping,
   ReportSorting,
   ReportCalculation,
+  ReportColumn,
+  ReportDataSourceKey,
   AggregationType,
-  AVAILABLE_COLUMNS
+  AVAILABLE_COLUMNS,
+  REPORT_DATA_SOURCE_KEYS
 } from '../types/report-builder'
 
 /**
@@ -290,7 +293,8 @@ function generateReportFooter(report: Report): string {
 /**
  * Generate HTML for a report section
  */
-function generateSectionHTML(section: ReportSection, data: ReportData, index: number): string {
+function generateSectionHTML(section: ReportSection, reportData: ReportData, index: number): string {
+  const data = reportData.sections?.[section.id] ?? reportData
   let html = `<div class="report-section ${section.showPageBreak ? 'page-break' : ''}">`
   html += `<h2 class="section-title">${escapeHTMLChars(section.title)}</h2>`
 
@@ -362,8 +366,8 @@ function generateTableSectionHTML(section: ReportSection, data: ReportData): str
     data.rows.forEach(row => {
       html += '<tr>'
       visibleColumns.forEach(col => {
-        const value = row[col.name] || ''
-        html += `<td>${escapeHTMLChars(formatTableValue(value, col.type))}</td>`
+        const value = row[col.name]
+        html += `<td>${escapeHTMLChars(formatTableValue(value, col.type, col.format))}</td>`
       })
       html += '</tr>'
     })
@@ -403,14 +407,22 @@ function generateGroupedTableRows(
     groupRows.forEach(row => {
       html += '<tr>'
       columns.forEach(col => {
-        const value = row[col.name] || ''
-        html += `<td>${escapeHTMLChars(formatTableValue(value, col.type))}</td>`
+        const value = row[col.name]
+        html += `<td>${escapeHTMLChars(formatTableValue(value, col.type, col.format))}</td>`
       })
       html += '</tr>'
     })
 
     if (grouping[0].showSubtotals) {
-      html += `<tr class="group-subtotal"><td colspan="${columns.length}">Subtotal: ${groupRows.length} records</td></tr>`
+      const sums = (grouping[0].subtotalFields || [])
+        .map(field => {
+          const column = columns.find(c => c.name === field)
+          const total = groupRows.reduce((sum, row) => sum + (Number(row[field]) || 0), 0)
+          return `${column?.label || field}: ${formatTableValue(total, 'number', column?.format)}`
+        })
+        .join(', ')
+      const label = `Subtotal: ${groupRows.length} records${sums ? `, ${sums}` : ''}`
+      html += `<tr class="group-subtotal"><td colspan="${columns.length}">${escapeHTMLChars(label)}</td></tr>`
     }
   })
 
@@ -443,15 +455,24 @@ function generateChartSectionHTML(section: ReportSection, data: ReportData): str
 function formatSummaryValue(value: any): string {
   if (value === null || value === undefined) return '0'
   if (typeof value === 'number') return value.toLocaleString()
+  if (typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, v]) => `<div>${escapeHTMLChars(key)}: ${formatSummaryValue(v)}</div>`)
+      .join('')
+  }
   return escapeHTMLChars(String(value || ''))
 }
 
 /**
  * Format value for table display
  */
-function formatTableValue(value: any, type: string): string {
+function formatTableValue(value: any, type: string, format?: ReportColumn['format']): string {
   if (value === null || value === undefined) return '-'
 
+  if (format === 'currency' && typeof value === 'number') {
+    return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  }
+
   switch (type) {
     case 'date':
       return new Date(value).toLocaleDateString()
@@ -474,7 +495,14 @@ export function calculateSummaryStats(
   const summary: Record<string, any> = {}
 
   calculations.forEach(calc => {
-    summary[calc.name] = aggregateData(data, calc)
+    if (calc.groupBy) {
+      const groups = applyGrouping(data, [{ column: calc.groupBy, order: 1 }])
+      summary[calc.name] = Object.fromEntries(
+        Object.entries(groups).map(([key, rows]) => [key || '(none)', aggregateData(rows, calc)])
+      )
+    } else {
+      summary[calc.name] = aggregateData(data, calc)
+    }
   })
 
   return summary
@@ -588,6 +616,49 @@ export function applyGrouping(data: any[], grouping?: ReportGrouping[]): Record<
   return grouped
 }
 
+/**
+ * Build report data for every section from rows keyed by data source.
+ * Section filters apply first, then request-level filters on columns the
+ * source has. The top-level data mirrors the first table section for exports.
+ */
+export function buildReportData(
+  report: Report,
+  rowsBySource: Partial<Record<ReportDataSourceKey, any[]>>,
+  columnsBySource: Partial<Record<ReportDataSourceKey, ReportColumn[]>>,
+  filters?: ReportFilter[]
+): ReportData {
+  const sections: Record<string, ReportData> = {}
+  const summary: Record<string, any> = {}
+
+  for (const section of report.sections) {
+    const source = section.dataSource || 'users'
+    const sourceColumns = columnsBySource[source] || []
+    const known = new Set(sourceColumns.map(c => c.name))
+    const requestFilters = (filters || []).filter(f => known.has(f.column))
+
+    let rows = rowsBySource[source] || []
+    rows = applyFilters(rows, section.filters)
+    rows = applyFilters(rows, requestFilters)
+    rows = applySorting(rows, section.sorting)
+
+    const sectionSummary = calculateSummaryStats(rows, section.calculations || [])
+    Object.assign(summary, sectionSummary)
+
+    sections[section.id] = {
+      columns: section.columns?.length ? section.columns : sourceColumns,
+      rows,
+      rowCount: rows.length,
+      summary: sectionSummary
+    }
+  }
+
+  const primary =
+    report.sections.find(s => s.type === 'table' || s.type === 'details') || report.sections[0]
+  const base = primary ? sections[primary.id] : { columns: [], rows: [], rowCount: 0 }
+
+  return { ...base, summary, sections }
+}
+
 /**
  * Validate report configuration
  */
@@ -617,6 +688,10 @@ export function validateReportConfig(report: Partial<Report>): {
     if (section.type === 'chart' && !section.chartConfig) {
       errors.push(`Section "${section.title}": Chart configuration is required for chart sections`)
     }
+
+    if (section.dataSource && !REPORT_DATA_SOURCE_KEYS.includes(section.dataSource)) {
+      errors.push(`Section "${section.title}": Unknown data source "${section.dataSource}"`)
+    }
   })
 
   return {
@@ -649,3 +724,56 @@ export function importReportFromJSON(jsonString: string): { report?: Report; err
     return { error: `Failed to parse JSON: ${(error as Error).message}` }
   }
 }
+
+/**
+ * Generate a tab-separated export (opened by spreadsheet apps as XLSX)
+ */
+export function generateExcelReport(report: Report, reportData: ReportData): string {
+  let tsv = `${report.name}\n`
+  if (report.description) tsv += `${report.description}\n`
+  tsv += `Generated: ${new Date().toLocaleDateString()}\n\n`
+
+  if (reportData.summary && Object.keys(reportData.summary).length > 0) {
+    tsv += 'SUMMARY\n'
+    Object.entries(reportData.summary).forEach(([key, value]) => {
+      tsv += `${key.replace(/_/g, ' ')}\t${value}\n`
+    })
+    tsv += '\n\n'
+  }
+
+  if (reportData.rows && reportData.rows.length > 0) {
+    const columns = reportData.columns || [
+      { name: 'name', label: 'Name' },
+      { name: 'email', label: 'Email' },
+      { name: 'role', label: 'Role' },
+      { name: 'availabilityStatus', label: 'Status' }
+    ]
+    tsv += columns.map((c: any) => c.label).join('\t') + '\n'
+    reportData.rows.forEach((row: any) => {
+      tsv += columns.map((c: any) => row[c.name] || '').join('\t') + '\n'
+    })
+  }
+  return tsv
+}
+
+/**
+ * Generate a CSV export of the report rows
+ */
+export function generateCSVReport(report: Report, reportData: ReportData): string {
+  let csv = ''
+  if (reportData.columns && reportData.columns.length > 0) {
+    csv += reportData.columns.map((c: any) => `"${c.label}"`).join(',') + '\n'
+  }
+
+  if (reportData.rows && reportData.rows.length > 0) {
+    const columns = reportData.columns || []
+    reportData.rows.forEach((row: any) => {
+      const values = columns.map((c: any) => {
+        const value = row[c.name] || ''
+        return `"${String(value).replace(/"/g, '""')}"`
+      })
+      csv += values.join(',') + '\n'
+    })
+  }
+  return csv
+}
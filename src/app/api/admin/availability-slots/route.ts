@@ -8,6 +8,7 @@ import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { respond } from '@/lib/api-response'
 import { publishSlotCreated, publishSlotUpdated, publishSlotDeleted } from '@/lib/realtime/availability-events'
 import { format } from 'date-fns'
+import { bookingWaitlistService } from '@/lib/booking/waitlist'
 
 export const runtime = 'nodejs'
 
@@ -95,6 +96,9 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       parsed.data.teamMemberId || undefined
     )
 
+    // New availability goes to waitlisted clients first
+    if (tenantId) await bookingWaitlistService.offerNewAvailabilitySafe(tenantId, { ...data, date: slotDate })
+
     return NextResponse.json({ availabilitySlot: created }, { status: 201 })
   } catch (e: any) {
     console.error('admin/availability-slots POST error', e)
@@ -139,6 +143,8 @@ export const PUT = withTenantContext(async (request: NextRequest) => {
       parsed.data.teamMemberId || undefined
     )
 
+    if (tenantId) await bookingWaitlistService.offerNewAvailabilitySafe(tenantId, { ...updateData, date: slotDate })
+
     return NextResponse.json({ availabilitySlot: updated })
   } catch (e: any) {
     console.error('admin/availability-slots PUT error', e)
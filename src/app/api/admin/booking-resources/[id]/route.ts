@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond, zodDetails } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { BookingResourceUpdateSchema } from '@/schemas/shared/booking'
+import { bookingResourceErrorStatus, bookingResourceService } from '@/lib/booking/resources'
+
+function errorResponse(e: any, fallback: string) {
+  const status = bookingResourceErrorStatus(e)
+  if (status === 404) return respond.notFound(e.message)
+  if (status === 409) return respond.conflict(e.message)
+  if (status) return respond.badRequest(e.message)
+  return respond.serverError(fallback, { message: String(e?.message || '') })
+}
+
+export const PUT = withTenantContext(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.BOOKING_SETTINGS_EDIT)) {
+    return respond.unauthorized()
+  }
+
+  const body = await req.json().catch(() => null)
+  const parsed = BookingResourceUpdateSchema.safeParse(body)
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+
+  try {
+    return respond.ok(await bookingResourceService.updateResource(String(ctx.tenantId), id, parsed.data, ctx.userId))
+  } catch (e: any) {
+    return errorResponse(e, 'Failed to update resource')
+  }
+}, { requireAuth: true })
+
+export const DELETE = withTenantContext(async (_req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.BOOKING_SETTINGS_EDIT)) {
+    return respond.unauthorized()
+  }
+
+  try {
+    await bookingResourceService.deleteResource(String(ctx.tenantId), id, ctx.userId)
+    return respond.ok({ deleted: true })
+  } catch (e: any) {
+    return errorResponse(e, 'Failed to delete resource')
+  }
+}, { requireAuth: true })
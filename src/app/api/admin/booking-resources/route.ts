@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond, zodDetails } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { BookingResourceSchema } from '@/schemas/shared/booking'
+import { bookingResourceErrorStatus, bookingResourceService } from '@/lib/booking/resources'
+
+// GET /api/admin/booking-resources?includeInactive=1 - rooms, equipment and other bookable resources
+export const GET = withTenantContext(async (req: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.BOOKING_SETTINGS_VIEW)) {
+    return respond.unauthorized()
+  }
+
+  const includeInactive = ['1', 'true'].includes(new URL(req.url).searchParams.get('includeInactive') || '')
+  return respond.ok(await bookingResourceService.listResources(String(ctx.tenantId), { includeInactive }))
+}, { requireAuth: true })
+
+export const POST = withTenantContext(async (req: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.BOOKING_SETTINGS_EDIT)) {
+    return respond.unauthorized()
+  }
+
+  const body = await req.json().catch(() => null)
+  const parsed = BookingResourceSchema.safeParse(body)
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+
+  try {
+    const { name, type, capacity, location, active } = parsed.data
+    return respond.created(await bookingResourceService.createResource(String(ctx.tenantId), { name, type, capacity, location, active }, ctx.userId))
+  } catch (e: any) {
+    if (bookingResourceErrorStatus(e) === 409) return respond.conflict(e.message)
+    return respond.serverError('Failed to create resource', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { bookingWaitlistService, waitlistErrorStatus } from '@/lib/booking/waitlist'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/admin/booking-waitlist?from=&to= - waitlist demand per service (defaults to the next 30 days)
+export const GET = withTenantContext(async (req: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.BOOKINGS_VIEW)) {
+    return respond.unauthorized()
+  }
+
+  const url = new URL(req.url)
+  const from = url.searchParams.get('from') ? new Date(url.searchParams.get('from') as string) : new Date()
+  const to = url.searchParams.get('to') ? new Date(url.searchParams.get('to') as string) : new Date(from.getTime() + 30 * DAY_MS)
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) return respond.badRequest('Invalid date range')
+
+  try {
+    const services = await bookingWaitlistService.demand(String(ctx.tenantId), { from, to })
+    return respond.ok({ from: from.toISOString(), to: to.toISOString(), services })
+  } catch (e: any) {
+    if (waitlistErrorStatus(e) === 400) return respond.badRequest(e.message)
+    return respond.serverError('Failed to load waitlist demand', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
@@ -15,7 +15,7 @@ export const GET = withTenantContext(async (_request: NextRequest) => {
     const base = process.env.EXCHANGE_BASE_CURRENCY || 'USD'
     const currencies = await prisma.currency.findMany({ orderBy: { code: 'asc' } })
     const rows = await Promise.all(currencies.map(async (c) => {
-      const rate = await prisma.exchangeRate.findFirst({ where: { base, target: c.code }, orderBy: { fetchedAt: 'desc' } })
+      const rate = await prisma.exchangeRate.findFirst({ where: { base, target: c.code }, orderBy: [{ rateDate: 'desc' }, { fetchedAt: 'desc' }] })
       return [c.code, c.name, c.symbol ?? '', String(c.decimals), String(c.active), String(c.isDefault), String(rate?.rate ?? '')].join(',')
     }))
 
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond } from '@/lib/api-response'
+import { OFFICIAL_RATE_SOURCES, type OfficialRateSource } from '@/lib/accounting/fx'
+import { fxErrorStatus, fxService } from '@/lib/accounting/fx-service'
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024
+
+// POST /api/admin/currencies/rates/import - import a CBUAE, SAMA or CBE rate file
+// Accepts multipart form data (source, file) or JSON { source, content }
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    const role = ctx.role ?? undefined
+    if (!hasPermission(role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    let source: unknown
+    let content: unknown
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const form = await request.formData()
+      const file = form.get('file')
+      source = form.get('source')
+      if (file && typeof file !== 'string') {
+        if (file.size > MAX_FILE_BYTES) return NextResponse.json({ error: 'Rate file is too large' }, { status: 413 })
+        content = await file.text()
+      }
+    } else {
+      const body = await request.json().catch(() => ({}))
+      source = body.source
+      content = body.content
+    }
+
+    if (typeof source !== 'string' || !(source in OFFICIAL_RATE_SOURCES)) {
+      return NextResponse.json({ error: `source must be one of ${Object.keys(OFFICIAL_RATE_SOURCES).join(', ')}` }, { status: 400 })
+    }
+    if (typeof content !== 'string' || content.length === 0) return NextResponse.json({ error: 'Rate file is empty' }, { status: 400 })
+    if (content.length > MAX_FILE_BYTES) return NextResponse.json({ error: 'Rate file is too large' }, { status: 413 })
+
+    const result = await fxService.importOfficialRates(source as OfficialRateSource, content, ctx.userId)
+    return NextResponse.json(result, { status: 201 })
+  } catch (e) {
+    const status = fxErrorStatus(e)
+    if (status) return NextResponse.json({ error: (e as Error).message }, { status })
+    console.error('POST /api/admin/currencies/rates/import error', e)
+    return NextResponse.json({ error: 'Failed to import rates' }, { status: 500 })
+  }
+})
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond } from '@/lib/api-response'
+import { fxService } from '@/lib/accounting/fx-service'
+
+const parseDay = (value: string | null) => {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isFinite(date.getTime()) ? date : null
+}
+
+// GET /api/admin/currencies/rates?base=USD&target=AED&from=2025-01-01&to=2025-03-31&source=CBUAE - rate history for a pair
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    const role = ctx.role ?? undefined
+    if (!hasPermission(role, PERMISSIONS.ANALYTICS_VIEW)) return respond.forbidden('Forbidden')
+
+    const { searchParams } = new URL(request.url)
+    const base = searchParams.get('base')
+    const target = searchParams.get('target')
+    const from = parseDay(searchParams.get('from'))
+    const to = parseDay(searchParams.get('to'))
+    if (!base || !target || from === null || to === null) return NextResponse.json({ error: 'Invalid params' }, { status: 400 })
+
+    const rates = await fxService.history(base, target, {
+      from,
+      to,
+      source: searchParams.get('source') || undefined,
+      limit: searchParams.get('limit') ? Number(searchParams.get('limit')) : undefined,
+    })
+    return NextResponse.json(rates.map((r) => ({ ...r, rateDate: r.rateDate.toISOString().slice(0, 10) })))
+  } catch (e) {
+    console.error('GET /api/admin/currencies/rates error', e)
+    return NextResponse.json({ error: 'Failed to fetch rates' }, { status: 500 })
+  }
+})
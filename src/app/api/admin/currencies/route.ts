@@ -16,7 +16,7 @@ export const GET = withTenantContext(async (_request: NextRequest) => {
     const currencies = await prisma.currency.findMany({ orderBy: { isDefault: 'desc' } })
 
     const result = await Promise.all(currencies.map(async (c) => {
-      const rate = await prisma.exchangeRate.findFirst({ where: { base, target: c.code }, orderBy: { fetchedAt: 'desc' } })
+      const rate = await prisma.exchangeRate.findFirst({ where: { base, target: c.code }, orderBy: [{ rateDate: 'desc' }, { fetchedAt: 'desc' }] })
       return { ...c, lastRate: rate?.rate ?? null }
     }))
 
@@ -8,6 +8,8 @@ import { tenantFilter, isMultiTenancyEnabled } from '@/lib/tenant'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext, getTenantFilter } from '@/lib/tenant-utils'
 import { respond } from '@/lib/api-response'
+import { ledgerPostingService, postToLedgerSafe } from '@/lib/accounting/posting-service'
+import { periodCloseService } from '@/lib/accounting/period-close'
 
 const EXPENSE_STATUSES = ['PENDING', 'APPROVED', 'REIMBURSED', 'REJECTED'] as const
 
@@ -30,6 +32,7 @@ const expenseCreateSchema = z.object({
     .optional(),
   date: z.union([z.string(), z.date()]),
   attachmentId: z.string().trim().min(1).optional().nullable(),
+  entityId: z.string().trim().min(1).optional().nullable(),
 })
 
 const expenseDeleteSchema = z.object({
@@ -143,13 +146,20 @@ export const POST = withTenantContext(async (request: NextRequest) => {
     if (!tenantId) {
       return NextResponse.json({ error: 'Tenant context missing' }, { status: 400 })
     }
-    const { vendor, category, status, amountCents, currency, date, attachmentId } = parsed.data
+    const { vendor, category, status, amountCents, currency, date, attachmentId, entityId } = parsed.data
 
     const expenseDate = date instanceof Date ? date : new Date(date)
     if (!Number.isFinite(expenseDate.getTime())) {
       return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
     }
 
+    if (entityId) {
+      const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId }, select: { id: true } })
+      if (!entity) return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    await periodCloseService.assertDateOpen(tenantId, entityId || null, expenseDate)
+
     const expense = await prisma.expense.create({
       data: {
         vendor,
@@ -159,6 +169,7 @@ export const POST = withTenantContext(async (request: NextRequest) => {
         currency: (currency || 'USD').toUpperCase(),
         date: expenseDate,
         ...(attachmentId ? { attachment: { connect: { id: attachmentId } } } : {}),
+        ...(entityId ? { entity: { connect: { id: entityId } } } : {}),
         ...(requireTenantContext().userId ? { user: { connect: { id: requireTenantContext().userId! } } } : {}),
         tenant: { connect: { id: tenantId } },
       },
@@ -168,8 +179,15 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       },
     })
 
+    if (expense.status !== 'REJECTED') {
+      await postToLedgerSafe('expense.recorded', () => ledgerPostingService.postExpenseRecorded(expense, { userId: ctx.userId }))
+    }
+
     return NextResponse.json({ message: 'Expense created', expense }, { status: 201 })
   } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Period closed')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
     console.error('Error creating expense:', error)
     return NextResponse.json({ error: 'Failed to create expense' }, { status: 500 })
   }
@@ -200,9 +218,17 @@ export const DELETE = withTenantContext(async (request: NextRequest) => {
       Object.assign(where, getTenantFilter())
     }
 
+    const toDelete = await prisma.expense.findMany({ where, select: { tenantId: true, entityId: true, date: true } })
+    for (const expense of toDelete) {
+      await periodCloseService.assertDateOpen(expense.tenantId, expense.entityId, expense.date)
+    }
+
     const result = await prisma.expense.deleteMany({ where })
     return NextResponse.json({ message: `Deleted ${result.count} expenses`, deleted: result.count })
   } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Period closed')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
     console.error('Error deleting expenses:', error)
     return NextResponse.json({ error: 'Failed to delete expenses' }, { status: 500 })
   }
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { groupSessionErrorStatus, groupSessionService } from '@/lib/booking/group-sessions'
+
+// GET /api/admin/group-sessions/[id]/attendees - registrations with their payment status
+export const GET = withTenantContext(async (_req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.BOOKINGS_VIEW)) {
+    return respond.unauthorized()
+  }
+
+  try {
+    return respond.ok(await groupSessionService.attendees(String(ctx.tenantId), id))
+  } catch (e: any) {
+    if (groupSessionErrorStatus(e) === 404) return respond.notFound(e.message)
+    return respond.serverError('Failed to load attendees', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
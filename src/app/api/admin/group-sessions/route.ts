@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond, zodDetails } from '@/lib/api-response'
+import { logAudit } from '@/lib/audit'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { publishBookingCreated } from '@/lib/realtime/booking-events'
+import { GroupSessionCreateSchema } from '@/schemas/shared/booking'
+import { groupSessionErrorStatus, groupSessionService } from '@/lib/booking/group-sessions'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/admin/group-sessions?serviceId=&from=&to= - scheduled sessions with seats taken (defaults to the next 30 days)
+export const GET = withTenantContext(async (req: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.BOOKINGS_VIEW)) {
+    return respond.unauthorized()
+  }
+
+  const url = new URL(req.url)
+  const from = url.searchParams.get('from') ? new Date(url.searchParams.get('from') as string) : new Date()
+  const to = url.searchParams.get('to') ? new Date(url.searchParams.get('to') as string) : new Date(from.getTime() + 30 * DAY_MS)
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) return respond.badRequest('Invalid date range')
+
+  try {
+    const sessions = await groupSessionService.list(String(ctx.tenantId), { serviceId: url.searchParams.get('serviceId') || undefined, from, to })
+    return respond.ok({ from: from.toISOString(), to: to.toISOString(), sessions })
+  } catch (e: any) {
+    if (groupSessionErrorStatus(e) === 400) return respond.badRequest(e.message)
+    return respond.serverError('Failed to load group sessions', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
+
+export const POST = withTenantContext(async (req: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.BOOKINGS_CREATE)) {
+    return respond.unauthorized()
+  }
+
+  const body = await req.json().catch(() => null)
+  const parsed = GroupSessionCreateSchema.safeParse(body)
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+
+  try {
+    const session = await groupSessionService.schedule(String(ctx.tenantId), ctx.userId, {
+      serviceId: parsed.data.serviceId,
+      scheduledAt: new Date(parsed.data.scheduledAt),
+      durationMinutes: parsed.data.durationMinutes,
+      capacity: parsed.data.capacity,
+      teamMemberId: parsed.data.teamMemberId,
+      notes: parsed.data.notes,
+    })
+    try { publishBookingCreated({ id: session.id, serviceId: session.serviceId, action: 'created' }) } catch {}
+    try { await logAudit({ action: 'group-session:create', actorId: ctx.userId, targetId: session.id, details: { serviceId: session.serviceId, capacity: session.capacity } }) } catch {}
+    return respond.created(session)
+  } catch (e: any) {
+    const status = groupSessionErrorStatus(e)
+    if (status === 404) return respond.notFound(e.message)
+    if (status === 409) return respond.conflict(e.message)
+    if (status === 400) return respond.badRequest(e.message)
+    return respond.serverError('Failed to schedule group session', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
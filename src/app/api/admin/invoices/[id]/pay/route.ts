@@ -5,6 +5,7 @@ import prisma from '@/lib/prisma'
 import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { logAudit } from '@/lib/audit'
 import { tenantFilter } from '@/lib/tenant'
+import { paymentService } from '@/lib/payments/payment-service'
 
 export const POST = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
   try {
@@ -24,11 +25,27 @@ export const POST = withTenantContext(async (_request: NextRequest, context: { p
       return NextResponse.json({ message: 'Already paid', invoice: existing })
     }
 
-    const updated = await prisma.invoice.update({ where: { id }, data: { status: 'PAID' as any, paidAt: new Date() } })
+    // Settle whatever is still outstanding after earlier partial payments and credit notes
+    const { outstandingCents } = await paymentService.getInvoiceBalance(existing.tenantId, id)
+    if (outstandingCents <= 0) {
+      return NextResponse.json({ error: 'Invoice has no outstanding balance' }, { status: 409 })
+    }
+    await paymentService.recordPayment(existing.tenantId, ctx.userId ?? null, {
+      clientId: existing.clientId,
+      entityId: existing.entityId,
+      currency: existing.currency,
+      amountCents: outstandingCents,
+      method: 'other',
+      allocations: [{ invoiceId: id, amountCents: outstandingCents }],
+    })
+    const updated = await prisma.invoice.findUniqueOrThrow({ where: { id } })
     await logAudit({ action: 'invoice.pay', actorId: ctx.userId ?? null, targetId: id })
 
     return NextResponse.json({ message: 'Invoice marked as paid', invoice: updated })
   } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Period closed')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
     console.error('Error marking invoice paid:', error)
     return NextResponse.json({ error: 'Failed to mark invoice as paid' }, { status: 500 })
   }
@@ -7,6 +7,8 @@ import { respond } from '@/lib/api-response'
 import { logAudit } from '@/lib/audit'
 import { parseListQuery } from '@/schemas/list-query'
 import { tenantFilter } from '@/lib/tenant'
+import { ledgerPostingService, postToLedgerSafe } from '@/lib/accounting/posting-service'
+import { periodCloseService } from '@/lib/accounting/period-close'
 
 function parseDate(value: string | null): Date | undefined {
   if (!value) return undefined
@@ -81,11 +83,18 @@ export const POST = withTenantContext(async (request: NextRequest) => {
     if (!hasDb) return NextResponse.json({ error: 'Database not configured' }, { status: 501 })
 
     const body = await request.json().catch(() => null)
-    const { bookingId, items, currency } = body || {}
+    const { bookingId, items, currency, entityId } = body || {}
     if (!bookingId && !Array.isArray(items)) {
       return NextResponse.json({ error: 'bookingId or items are required' }, { status: 400 })
     }
 
+    if (entityId) {
+      const entity = await prisma.entity.findFirst({ where: { id: entityId, ...tenantFilter(ctx.tenantId) }, select: { id: true } })
+      if (!entity) return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    await periodCloseService.assertDateOpen(ctx.tenantId as string, entityId || null, new Date())
+
     let clientId: string | undefined
     let totalCents = 0
     const resolvedCurrency: string = currency || 'USD'
@@ -98,21 +107,34 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       if (svcPrice > 0) totalCents = Math.round(svcPrice * 100)
     }
 
-    const itemRows: { description: string; quantity: number; unitPriceCents: number; totalCents: number }[] = []
+    const itemRows: { description: string; quantity: number; unitPriceCents: number; totalCents: number; taxCodeId: string | null }[] = []
     if (Array.isArray(items)) {
       for (const it of items) {
         const qty = Math.max(1, Number(it.quantity || 1))
         const unit = Math.max(0, Math.round(Number(it.unitPriceCents || 0)))
         const rowTotal = qty * unit
-        itemRows.push({ description: String(it.description || 'Item'), quantity: qty, unitPriceCents: unit, totalCents: rowTotal })
+        itemRows.push({
+          description: String(it.description || 'Item'),
+          quantity: qty,
+          unitPriceCents: unit,
+          totalCents: rowTotal,
+          taxCodeId: it.taxCodeId ? String(it.taxCodeId) : null,
+        })
         totalCents += rowTotal
       }
     }
 
+    const taxCodeIds = [...new Set(itemRows.map((row) => row.taxCodeId).filter((id): id is string => Boolean(id)))]
+    if (taxCodeIds.length) {
+      const known = await prisma.taxCode.count({ where: { id: { in: taxCodeIds }, ...tenantFilter(ctx.tenantId) } })
+      if (known !== taxCodeIds.length) return NextResponse.json({ error: 'Tax code not found' }, { status: 404 })
+    }
+
     const invoice = await prisma.invoice.create({
       data: {
         bookingId: bookingId || null,
         clientId: clientId || null,
+        entityId: entityId || null,
         currency: resolvedCurrency,
         totalCents,
         status: 'UNPAID' as any,
@@ -123,9 +145,13 @@ export const POST = withTenantContext(async (request: NextRequest) => {
     })
 
     await logAudit({ action: 'invoice.create', actorId: ctx.userId ?? null, targetId: invoice.id, details: { bookingId, totalCents } })
+    await postToLedgerSafe('invoice.issued', () => ledgerPostingService.postInvoiceIssued(invoice, { userId: ctx.userId }))
 
     return NextResponse.json({ message: 'Invoice created', invoice }, { status: 201 })
   } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Period closed')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
     console.error('Error creating invoice:', error)
     return NextResponse.json({ error: 'Failed to create invoice' }, { status: 500 })
   }
@@ -148,10 +174,21 @@ export const DELETE = withTenantContext(async (request: NextRequest) => {
       return NextResponse.json({ error: 'invoiceIds array required' }, { status: 400 })
     }
 
+    const toDelete = await prisma.invoice.findMany({
+      where: { id: { in: invoiceIds }, ...tenantFilter(ctx.tenantId) },
+      select: { entityId: true, createdAt: true },
+    })
+    for (const invoice of toDelete) {
+      await periodCloseService.assertDateOpen(ctx.tenantId as string, invoice.entityId, invoice.createdAt)
+    }
+
     const result = await prisma.invoice.deleteMany({ where: { id: { in: invoiceIds }, ...tenantFilter(ctx.tenantId) } })
     await logAudit({ action: 'invoice.bulk.delete', actorId: ctx.userId ?? null, details: { count: result.count } })
     return NextResponse.json({ message: `Deleted ${result.count} invoices`, deleted: result.count })
   } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Period closed')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
     console.error('Error deleting invoices:', error)
     return NextResponse.json({ error: 'Failed to delete invoices' }, { status: 500 })
   }
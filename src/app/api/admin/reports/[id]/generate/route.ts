@@ -2,10 +2,22 @@ import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { tenantContext } from '@/lib/tenant-context'
-import { hasPermission } from '@/lib/permissions'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { rateLimitAsync } from '@/lib/rate-limit'
-import { generateReportHTML, applyFilters, calculateSummaryStats } from '@/app/admin/users/utils/report-builder'
-import { Report, ReportSection } from '@/app/admin/users/types/report-builder'
+import { getReportDataSource } from '@/lib/registries/report-data-sources'
+import {
+  generateReportHTML,
+  generateExcelReport,
+  generateCSVReport,
+  buildReportData
+} from '@/app/admin/users/utils/report-builder'
+import { Report, ReportColumn, ReportDataSourceKey, ReportSection } from '@/app/admin/users/types/report-builder'
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || !value) return undefined
+  const d = new Date(value)
+  return Number.isFinite(d.getTime()) ? d : undefined
+}
 
 export const POST = withTenantContext(async (request: NextRequest, { params }: { params: { id: string } }) => {
   try {
@@ -16,18 +28,19 @@ export const POST = withTenantContext(async (request: NextRequest, { params }: {
     }
 
     const context = tenantContext.getContext()
-    const hasAccess = await hasPermission(context.userId, 'reports.generate')
-    if (!hasAccess) {
+    if (!hasPermission(context.role, PERMISSIONS.REPORTS_GENERATE)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const report = await prisma.report.findUnique({ where: { id: params.id } })
+    const report = await prisma.report.findFirst({ where: { id: params.id, tenantId: context.tenantId } })
     if (!report) {
       return NextResponse.json({ error: 'Report not found' }, { status: 404 })
     }
 
     const body = await request.json()
     const { format = 'pdf', filters } = body
+    const from = parseDate(body.from)
+    const to = parseDate(body.to)
 
     if (!['pdf', 'xlsx', 'csv', 'json'].includes(format)) {
       return NextResponse.json({ error: 'Invalid export format. Supported: pdf, xlsx, csv, json' }, { status: 400 })
@@ -35,6 +48,18 @@ export const POST = withTenantContext(async (request: NextRequest, { params }: {
 
     // Cast sections to properly handle Prisma JSON types
     const sections = Array.isArray(report.sections) ? (report.sections as unknown as ReportSection[]) : []
+
+    // Every data source the report reads must be known and readable by the caller
+    const sourceKeys = Array.from(new Set(sections.map(s => s.dataSource || 'users'))) as ReportDataSourceKey[]
+    for (const key of sourceKeys) {
+      const source = getReportDataSource(key)
+      if (!source) {
+        return NextResponse.json({ error: `Unknown data source: ${key}` }, { status: 400 })
+      }
+      if (!hasPermission(context.role, source.permission)) {
+        return NextResponse.json({ error: `Forbidden: missing ${source.permission} for ${source.label}` }, { status: 403 })
+      }
+    }
     const typedReport: Report = {
       id: report.id,
       tenantId: report.tenantId,
@@ -56,32 +81,15 @@ export const POST = withTenantContext(async (request: NextRequest, { params }: {
     })
 
     try {
-      const users = await prisma.user.findMany({
-        where: { tenantId: report.tenantId },
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          role: true,
-          availabilityStatus: true,
-          department: true,
-          position: true,
-          createdAt: true
-        }
-      })
-
-      let data = users
-      if (filters) {
-        data = applyFilters(data, filters)
+      const rowsBySource: Partial<Record<ReportDataSourceKey, any[]>> = {}
+      const columnsBySource: Partial<Record<ReportDataSourceKey, ReportColumn[]>> = {}
+      for (const key of sourceKeys) {
+        const source = getReportDataSource(key)!
+        rowsBySource[key] = await source.load(report.tenantId, { from, to })
+        columnsBySource[key] = source.columns
       }
 
-      // Sections already properly typed above
-      const reportData = {
-        columns: sections[0]?.columns || [],
-        rows: data,
-        rowCount: data.length,
-        summary: calculateSummaryStats(data, sections[0]?.calculations || [])
-      }
+      const reportData = buildReportData(typedReport, rowsBySource, columnsBySource, Array.isArray(filters) ? filters : undefined)
 
       let generatedContent = ''
       let contentType = 'text/html'
@@ -150,50 +158,3 @@ export const POST = withTenantContext(async (request: NextRequest, { params }: {
     return NextResponse.json({ error: 'Failed to generate report' }, { status: 500 })
   }
 })
-
-function generateExcelReport(report: any, reportData: any): string {
-  let tsv = `${report.name}\n`
-  if (report.description) tsv += `${report.description}\n`
-  tsv += `Generated: ${new Date().toLocaleDateString()}\n\n`
-
-  if (reportData.summary && Object.keys(reportData.summary).length > 0) {
-    tsv += 'SUMMARY\n'
-    Object.entries(reportData.summary).forEach(([key, value]) => {
-      tsv += `${key.replace(/_/g, ' ')}\t${value}\n`
-    })
-    tsv += '\n\n'
-  }
-
-  if (reportData.rows && reportData.rows.length > 0) {
-    const columns = reportData.columns || [
-      { name: 'name', label: 'Name' },
-      { name: 'email', label: 'Email' },
-      { name: 'role', label: 'Role' },
-      { name: 'availabilityStatus', label: 'Status' }
-    ]
-    tsv += columns.map((c: any) => c.label).join('\t') + '\n'
-    reportData.rows.forEach((row: any) => {
-      tsv += columns.map((c: any) => row[c.name] || '').join('\t') + '\n'
-    })
-  }
-  return tsv
-}
-
-function generateCSVReport(report: any, reportData: any): string {
-  let csv = ''
-  if (reportData.columns && reportData.columns.length > 0) {
-    csv += reportData.columns.map((c: any) => `"${c.label}"`).join(',') + '\n'
-  }
-
-  if (reportData.rows && reportData.rows.length > 0) {
-    const columns = reportData.columns || []
-    reportData.rows.forEach((row: any) => {
-      const values = columns.map((c: any) => {
-        const value = row[c.name] || ''
-        return `"${String(value).replace(/"/g, '""')}"`
-      })
-      csv += values.join(',') + '\n'
-    })
-  }
-  return csv
-}
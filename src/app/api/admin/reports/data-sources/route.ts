@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { tenantContext } from '@/lib/tenant-context'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { listReportDataSources } from '@/lib/registries/report-data-sources'
+
+/**
+ * GET /api/admin/reports/data-sources
+ * Data sources and column metadata the current role can build reports from
+ */
+export const GET = withTenantContext(async () => {
+  const context = tenantContext.getContext()
+  if (!hasPermission(context.role, PERMISSIONS.REPORTS_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  return NextResponse.json({ success: true, dataSources: listReportDataSources(context.role) })
+})
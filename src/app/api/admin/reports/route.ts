@@ -4,6 +4,7 @@ import { withTenantContext } from '@/lib/api-wrapper'
 import { tenantContext } from '@/lib/tenant-context'
 import { hasPermission } from '@/lib/permissions'
 import { rateLimitAsync } from '@/lib/rate-limit'
+import { getReportDataSource } from '@/lib/registries/report-data-sources'
 
 /**
  * GET /api/admin/reports
@@ -104,6 +105,17 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       return NextResponse.json({ error: 'Report sections are required' }, { status: 400 })
     }
 
+    for (const section of sections) {
+      const key = section?.dataSource || 'users'
+      const source = getReportDataSource(key)
+      if (!source) {
+        return NextResponse.json({ error: `Unknown data source: ${key}` }, { status: 400 })
+      }
+      if (!hasPermission(context.role, source.permission)) {
+        return NextResponse.json({ error: `Forbidden: missing ${source.permission} for ${source.label}` }, { status: 403 })
+      }
+    }
+
     const reportData: any = {
       id: crypto.randomUUID(),
       name,
@@ -4,7 +4,9 @@ import { respond } from '@/lib/api-response'
 import { logAudit } from '@/lib/audit'
 import { realtimeService } from '@/lib/realtime-enhanced'
 import { sendBookingConfirmation } from '@/lib/email'
+import { bookingPolicyService } from '@/lib/booking/booking-policy-service'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
 import { requireTenantContext, getTenantFilter } from '@/lib/tenant-utils'
 
 export const POST = withTenantContext(async (_req: Request, context: { params: Promise<{ id: string }> }) => {
@@ -24,6 +26,8 @@ export const POST = withTenantContext(async (_req: Request, context: { params: P
 
     const updated = await prisma.booking.update({ where: { id: booking.id }, data: { status: 'CONFIRMED', confirmed: true } as any, include: { client: { select: { name: true, email: true } }, service: { select: { name: true, price: true } } } })
 
+    await calendarSyncService.syncBookingSafe(updated.id)
+
     try { realtimeService.emitServiceRequestUpdate(String(id), { action: 'confirmed' }) } catch {}
     try { await logAudit({ action: 'service-request:confirm', actorId: ctx.userId ?? null, targetId: String(id), details: { bookingId: booking.id } }) } catch {}
 
@@ -35,7 +39,7 @@ export const POST = withTenantContext(async (_req: Request, context: { params: P
         clientName: updated.client?.name || '',
         clientEmail: updated.client?.email || '',
         service: { name: updated.service?.name || 'Consultation', price: (updated.service as any)?.price as any }
-      })
+      }, { policyText: await bookingPolicyService.policyTextSafe(ctx.tenantId, booking.serviceId) })
     } catch {}
 
     return respond.ok({ booking: updated })
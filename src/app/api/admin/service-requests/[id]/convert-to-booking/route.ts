@@ -4,6 +4,7 @@ import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import servicesSettingsService, { DEFAULT_SERVICES_SETTINGS } from '@/services/services-settings.service'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext, getTenantFilter } from '@/lib/tenant-utils'
+import { bookingResourceService } from '@/lib/booking/resources'
 
 /**
  * Convert a service request to a booking
@@ -102,6 +103,7 @@ export const POST = withTenantContext(async (request: NextRequest, context: { pa
         assignedTeamMember: { select: { id: true, name: true, email: true } },
       },
     })
+    await bookingResourceService.allocateSafe(booking.id)
 
     await prisma.serviceRequest.update({
       where: { id },
@@ -6,7 +6,10 @@ import { z } from 'zod'
 import { logAudit } from '@/lib/audit'
 import { realtimeService } from '@/lib/realtime-enhanced'
 import { sendBookingConfirmation } from '@/lib/email'
+import { bookingPolicyService } from '@/lib/booking/booking-policy-service'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { bookingResourceService } from '@/lib/booking/resources'
 import { requireTenantContext, getTenantFilter } from '@/lib/tenant-utils'
 
 const BodySchema = z.object({ scheduledAt: z.string().datetime() })
@@ -42,6 +45,7 @@ export const POST = withTenantContext(async (req: NextRequest, context: { params
         excludeBookingId: booking.id,
         teamMemberId: booking.assignedTeamMemberId || null,
         tenantId: ctx.tenantId,
+        clientId: booking.clientId,
       })
       if (check.conflict) return respond.conflict('Scheduling conflict detected', { reason: check.details?.reason, conflictingBookingId: check.details?.conflictingBookingId })
     } catch {}
@@ -57,6 +61,9 @@ export const POST = withTenantContext(async (req: NextRequest, context: { params
 
     const updated = await prisma.booking.update({ where: { id: booking.id }, data: { scheduledAt: newStart }, include: { client: { select: { name: true, email: true } }, service: { select: { name: true, price: true } } } })
 
+    await bookingResourceService.allocateSafe(updated.id)
+    await calendarSyncService.syncBookingSafe(updated.id)
+
     try { realtimeService.emitServiceRequestUpdate(String(id), { action: 'rescheduled' }) } catch {}
     try {
       const oldDateStr = new Date(booking.scheduledAt as any).toISOString().slice(0,10)
@@ -74,7 +81,7 @@ export const POST = withTenantContext(async (req: NextRequest, context: { params
         clientName: updated.client?.name || '',
         clientEmail: updated.client?.email || '',
         service: { name: updated.service?.name || 'Consultation', price: (updated.service as any)?.price as any }
-      })
+      }, { policyText: await bookingPolicyService.policyTextSafe(ctx.tenantId, booking.serviceId) })
     } catch {}
 
     return respond.ok({ booking: updated })
@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond, zodDetails } from '@/lib/api-response'
+import { logAudit } from '@/lib/audit'
+import { realtimeService } from '@/lib/realtime-enhanced'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { BookingSeriesEditSchema } from '@/schemas/shared/booking'
+import { normalizeRecurringPattern } from '@/lib/booking/recurring'
+import { recurringSeriesErrorStatus, recurringSeriesService } from '@/lib/booking/recurring-series'
+
+export const GET = withTenantContext(async (_req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  const role = ctx.role as string | undefined
+  if (!ctx.userId || !hasPermission(role, PERMISSIONS.SERVICE_REQUESTS_READ_ALL)) {
+    return respond.unauthorized()
+  }
+
+  try {
+    return respond.ok(await recurringSeriesService.series(String(ctx.tenantId), id))
+  } catch (e: any) {
+    const status = recurringSeriesErrorStatus(e)
+    if (status === 404) return respond.notFound(e.message)
+    if (status === 400) return respond.badRequest(e.message)
+    return respond.serverError('Failed to load recurring series', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
+
+export const PATCH = withTenantContext(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  const role = ctx.role as string | undefined
+  if (!ctx.userId || !hasPermission(role, PERMISSIONS.SERVICE_REQUESTS_UPDATE)) {
+    return respond.unauthorized()
+  }
+
+  const body = await req.json().catch(() => null)
+  const parsed = BookingSeriesEditSchema.safeParse(body)
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+  const { scope, scheduledAt, duration, assignedTeamMemberId, recurringPattern, cancel, skipConflicts, dryRun } = parsed.data
+
+  try {
+    const result = await recurringSeriesService.editSeries(
+      String(ctx.tenantId),
+      id,
+      scope,
+      {
+        scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
+        duration,
+        assignedTeamMemberId,
+        recurringPattern: recurringPattern ? normalizeRecurringPattern(recurringPattern) : undefined,
+        cancel,
+      },
+      { skipConflicts, dryRun }
+    )
+    if (!result.applied && !dryRun) {
+      return respond.conflict('Scheduling conflict detected', { plan: result.plan, conflicts: result.conflicts })
+    }
+    if (result.applied) {
+      try { realtimeService.emitServiceRequestUpdate(result.seriesId, { action: 'series-updated' }) } catch {}
+      try {
+        const dates = new Set(result.plan.filter((i) => i.action !== 'KEEP').map((i) => i.start.toISOString().slice(0, 10)))
+        for (const d of Array.from(dates)) {
+          try { realtimeService.emitAvailabilityUpdate(result.serviceId, { date: d }) } catch {}
+        }
+      } catch {}
+      try {
+        await logAudit({
+          action: 'service-request:series:update',
+          actorId: ctx.userId ?? null,
+          targetId: String(id),
+          details: {
+            scope,
+            seriesId: result.seriesId,
+            newSeriesId: result.newSeriesId ?? null,
+            cancel: !!cancel,
+            changed: result.plan.filter((i) => i.action !== 'KEEP' && !i.conflict).length,
+            skipped: result.conflicts.length,
+          },
+        })
+      } catch {}
+    }
+    return respond.ok(result)
+  } catch (e: any) {
+    const status = recurringSeriesErrorStatus(e)
+    if (status === 404) return respond.notFound(e.message)
+    if (status === 400) return respond.badRequest(e.message)
+    return respond.serverError('Failed to update recurring series', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
@@ -3,22 +3,17 @@ export const runtime = 'nodejs'
 import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { respond, zodDetails } from '@/lib/api-response'
 import { z } from 'zod'
+import { RecurringPatternSchema } from '@/schemas/shared/booking'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
-import { planRecurringBookings, generateOccurrences } from '@/lib/booking/recurring'
+import { planRecurringBookings, generateOccurrences, normalizeRecurringPattern, patternToRule } from '@/lib/booking/recurring'
 
 const PreviewSchema = z.object({
   serviceId: z.string().min(1),
   start: z.string().datetime(),
   duration: z.number().int().positive().optional(),
   teamMemberId: z.string().optional(),
-  recurringPattern: z.object({
-    frequency: z.enum(['DAILY','WEEKLY','MONTHLY']),
-    interval: z.number().int().positive().optional(),
-    count: z.number().int().positive().optional(),
-    until: z.string().datetime().optional(),
-    byWeekday: z.array(z.number().int().min(0).max(6)).optional(),
-  })
+  recurringPattern: RecurringPatternSchema
 })
 
 export const POST = withTenantContext(async (request: Request) => {
@@ -33,6 +28,12 @@ export const POST = withTenantContext(async (request: Request) => {
   if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
 
   const { serviceId, start, duration, teamMemberId, recurringPattern } = parsed.data
+  const pattern = normalizeRecurringPattern(recurringPattern)
+  try {
+    patternToRule(pattern)
+  } catch (e: any) {
+    return respond.badRequest(String(e?.message || 'Invalid recurrence'))
+  }
 
   try {
     const plan = await planRecurringBookings({
@@ -40,13 +41,7 @@ export const POST = withTenantContext(async (request: Request) => {
       clientId: ctx.userId!,
       durationMinutes: Number(duration ?? 60),
       start: new Date(start),
-      pattern: {
-        frequency: recurringPattern.frequency,
-        interval: recurringPattern.interval,
-        count: recurringPattern.count,
-        until: recurringPattern.until ? new Date(recurringPattern.until) : undefined,
-        byWeekday: recurringPattern.byWeekday,
-      },
+      pattern,
       tenantId: ctx.tenantId,
       teamMemberId: teamMemberId || null,
     })
@@ -55,13 +50,7 @@ export const POST = withTenantContext(async (request: Request) => {
     return respond.ok({ plan: plan.plan, summary: { total: plan.plan.length, created, skipped } })
   } catch (e: any) {
     try {
-      const starts = generateOccurrences(new Date(start), Number(duration ?? 60), {
-        frequency: recurringPattern.frequency,
-        interval: recurringPattern.interval,
-        count: recurringPattern.count,
-        until: recurringPattern.until ? new Date(recurringPattern.until) : undefined,
-        byWeekday: recurringPattern.byWeekday,
-      })
+      const starts = generateOccurrences(new Date(start), Number(duration ?? 60), pattern)
       const plan = starts.map((s) => ({ start: s, end: new Date(s.getTime() + Number(duration ?? 60) * 60000), conflict: false }))
       return respond.ok({ plan, summary: { total: plan.length, created: plan.length, skipped: 0 }, fallback: true })
     } catch {
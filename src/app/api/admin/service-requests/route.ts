@@ -2,13 +2,14 @@ import { NextResponse } from 'next/server'
 export const runtime = 'nodejs'
 import prisma from '@/lib/prisma'
 import { z } from 'zod'
+import { RecurringPatternSchema } from '@/schemas/shared/booking'
 import { getClientIp, applyRateLimit } from '@/lib/rate-limit'
 import { logAudit } from '@/lib/audit'
 import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { realtimeService } from '@/lib/realtime-enhanced'
 import { respond, zodDetails } from '@/lib/api-response'
 import { isMultiTenancyEnabled } from '@/lib/tenant'
-import { planRecurringBookings } from '@/lib/booking/recurring'
+import { planRecurringBookings, normalizeRecurringPattern, patternToRule } from '@/lib/booking/recurring'
 import { parseListQuery } from '@/schemas/list-query'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext, getTenantFilter } from '@/lib/tenant-utils'
@@ -50,13 +51,7 @@ const CreateBookingSchema = CreateBase.extend({
   clientEmail: z.string().email().optional(),
   clientPhone: z.string().optional(),
   bookingType: z.enum(['STANDARD','RECURRING','EMERGENCY','CONSULTATION']).optional(),
-  recurringPattern: z.object({
-    frequency: z.enum(['DAILY','WEEKLY','MONTHLY']),
-    interval: z.number().int().positive().optional(),
-    count: z.number().int().positive().optional(),
-    until: z.string().datetime().optional(),
-    byWeekday: z.array(z.number().int().min(0).max(6)).optional(),
-  }).optional(),
+  recurringPattern: RecurringPatternSchema.optional(),
 })
 
 const CreateSchema = z.union([CreateRequestSchema, CreateBookingSchema])
@@ -330,6 +325,7 @@ export const POST = withTenantContext(async (request: Request) => {
           excludeBookingId: undefined,
           teamMemberId: (data as any).assignedTeamMemberId || null,
           tenantId: (isMultiTenancyEnabled() && tenantId) ? String(tenantId) : null,
+          clientId: (data as any).clientId || null,
         })
         if (conflict.conflict) {
           return respond.conflict('Scheduling conflict detected', { reason: conflict.details?.reason, conflictingBookingId: conflict.details?.conflictingBookingId })
@@ -344,12 +340,11 @@ export const POST = withTenantContext(async (request: Request) => {
       const durationMinutes = Number((data as any).duration ?? svcDuration)
 
       const rp: any = (data as any).recurringPattern
-      const normalized = {
-        frequency: String(rp.frequency) as 'DAILY'|'WEEKLY'|'MONTHLY',
-        interval: rp.interval ? Number(rp.interval) : undefined,
-        count: rp.count ? Number(rp.count) : undefined,
-        until: rp.until ? new Date(rp.until) : undefined,
-        byWeekday: Array.isArray(rp.byWeekday) ? rp.byWeekday.map((n: any) => Number(n)) : undefined,
+      const normalized = normalizeRecurringPattern(rp)
+      try {
+        patternToRule(normalized)
+      } catch (e: any) {
+        return respond.badRequest(String(e?.message || 'Invalid recurrence'))
       }
 
       const plan = await planRecurringBookings({
@@ -410,6 +405,7 @@ export const POST = withTenantContext(async (request: Request) => {
             attachments: ((data as any).attachments as any) ?? undefined,
             isBooking: true,
             scheduledAt: item.start,
+            occurrenceStart: item.start,
             duration: durationMinutes,
             clientName: (data as any).clientName ?? null,
             clientEmail: (data as any).clientEmail ?? null,
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond, zodDetails } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { BookingPolicySchema } from '@/schemas/shared/booking'
+import { bookingPolicyErrorStatus, bookingPolicyService } from '@/lib/booking/booking-policy-service'
+
+function errorResponse(e: any, fallback: string) {
+  const status = bookingPolicyErrorStatus(e)
+  if (status === 404) return respond.notFound(e.message)
+  if (status) return respond.badRequest(e.message)
+  return respond.serverError(fallback, { message: String(e?.message || '') })
+}
+
+export const GET = withTenantContext(async (_req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.SERVICES_VIEW)) {
+    return respond.unauthorized()
+  }
+
+  try {
+    return respond.ok(await bookingPolicyService.getPolicy(String(ctx.tenantId), id))
+  } catch (e: any) {
+    return errorResponse(e, 'Failed to load booking policy')
+  }
+}, { requireAuth: true })
+
+export const PUT = withTenantContext(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.SERVICES_EDIT)) {
+    return respond.unauthorized()
+  }
+
+  const body = await req.json().catch(() => null)
+  const parsed = BookingPolicySchema.safeParse(body)
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+
+  try {
+    await bookingPolicyService.upsertPolicy(String(ctx.tenantId), id, parsed.data, ctx.userId)
+    return respond.ok(await bookingPolicyService.getPolicy(String(ctx.tenantId), id))
+  } catch (e: any) {
+    return errorResponse(e, 'Failed to save booking policy')
+  }
+}, { requireAuth: true })
+
+export const DELETE = withTenantContext(async (_req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.SERVICES_EDIT)) {
+    return respond.unauthorized()
+  }
+
+  try {
+    await bookingPolicyService.deletePolicy(String(ctx.tenantId), id, ctx.userId)
+    return respond.ok({ deleted: true })
+  } catch (e: any) {
+    return errorResponse(e, 'Failed to delete booking policy')
+  }
+}, { requireAuth: true })
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond, zodDetails } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ServiceResourceRequirementsSchema } from '@/schemas/shared/booking'
+import { bookingResourceErrorStatus, bookingResourceService } from '@/lib/booking/resources'
+
+function errorResponse(e: any, fallback: string) {
+  const status = bookingResourceErrorStatus(e)
+  if (status === 404) return respond.notFound(e.message)
+  if (status) return respond.badRequest(e.message)
+  return respond.serverError(fallback, { message: String(e?.message || '') })
+}
+
+export const GET = withTenantContext(async (_req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.SERVICES_VIEW)) {
+    return respond.unauthorized()
+  }
+
+  try {
+    return respond.ok(await bookingResourceService.getRequirements(String(ctx.tenantId), id))
+  } catch (e: any) {
+    return errorResponse(e, 'Failed to load resource requirements')
+  }
+}, { requireAuth: true })
+
+// PUT /api/admin/services/[id]/resource-requirements - replace what each booking of the service needs
+export const PUT = withTenantContext(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.SERVICES_EDIT)) {
+    return respond.unauthorized()
+  }
+
+  const body = await req.json().catch(() => null)
+  const parsed = ServiceResourceRequirementsSchema.safeParse(body)
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+
+  try {
+    const requirements = parsed.data.requirements.map((r) => ({ ...r, kind: r.kind }))
+    return respond.ok(await bookingResourceService.setRequirements(String(ctx.tenantId), id, requirements, ctx.userId))
+  } catch (e: any) {
+    return errorResponse(e, 'Failed to save resource requirements')
+  }
+}, { requireAuth: true })
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { calendarErrorStatus, calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { logger } from '@/lib/logger'
+
+/**
+ * DELETE /api/admin/team-members/[id]/calendar-connections/[connectionId]
+ * Disconnect a calendar; bookings sent to it are removed from it
+ */
+export const DELETE = withTenantContext(async (_request: NextRequest, context: { params: { id: string; connectionId: string } }) => {
+  const ctx = requireTenantContext()
+  const { id, connectionId } = context.params
+  try {
+    await calendarSyncService.assertAccess(ctx.tenantId!, id, ctx)
+    await calendarSyncService.deleteConnection(ctx.tenantId!, id, connectionId, ctx.userId)
+    return NextResponse.json({ ok: true })
+  } catch (err) {
+    const status = calendarErrorStatus(err)
+    if (status) return NextResponse.json({ error: (err as Error).message }, { status })
+    logger.error('DELETE /api/admin/team-members/[id]/calendar-connections/[connectionId] error', { error: err })
+    return NextResponse.json({ error: 'Failed to disconnect calendar' }, { status: 500 })
+  }
+})
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { calendarErrorStatus, calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { logger } from '@/lib/logger'
+
+/**
+ * POST /api/admin/team-members/[id]/calendar-connections/[connectionId]/sync
+ * Import the calendar's busy time now instead of waiting for the next cron run
+ */
+export const POST = withTenantContext(async (_request: NextRequest, context: { params: { id: string; connectionId: string } }) => {
+  const ctx = requireTenantContext()
+  const { id, connectionId } = context.params
+  try {
+    await calendarSyncService.assertAccess(ctx.tenantId!, id, ctx)
+    const connection = await prisma.calendarConnection.findFirst({ where: { id: connectionId, tenantId: ctx.tenantId!, teamMemberId: id }, select: { id: true } })
+    if (!connection) return NextResponse.json({ error: 'Calendar connection not found' }, { status: 404 })
+    const result = await calendarSyncService.syncConnection(connection.id)
+    return NextResponse.json(result, { status: result.status === 'ERROR' ? 502 : 200 })
+  } catch (err) {
+    const status = calendarErrorStatus(err)
+    if (status) return NextResponse.json({ error: (err as Error).message }, { status })
+    logger.error('POST /api/admin/team-members/[id]/calendar-connections/[connectionId]/sync error', { error: err })
+    return NextResponse.json({ error: 'Failed to sync calendar' }, { status: 500 })
+  }
+})
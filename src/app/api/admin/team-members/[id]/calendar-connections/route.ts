@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { calendarErrorStatus, calendarSyncService, type CalendarConnectionInput } from '@/lib/calendar/calendar-sync-service'
+import { logger } from '@/lib/logger'
+
+const connectionSchema = z.object({
+  type: z.enum(['CALDAV', 'ICS']),
+  name: z.string().trim().min(1).max(100),
+  url: z.string().trim().min(1).max(2000),
+  username: z.string().max(255).optional().nullable(),
+  password: z.string().max(1000).optional().nullable(),
+  pushBookings: z.boolean().optional(),
+})
+
+/**
+ * GET /api/admin/team-members/[id]/calendar-connections
+ * The team member's connected calendars (credentials are never returned)
+ */
+export const GET = withTenantContext(async (_request: NextRequest, context: { params: { id: string } }) => {
+  const ctx = requireTenantContext()
+  try {
+    await calendarSyncService.assertAccess(ctx.tenantId!, context.params.id, ctx)
+    const connections = await calendarSyncService.listConnections(ctx.tenantId!, context.params.id)
+    return NextResponse.json({ connections })
+  } catch (err) {
+    const status = calendarErrorStatus(err)
+    if (status) return NextResponse.json({ error: (err as Error).message }, { status })
+    logger.error('GET /api/admin/team-members/[id]/calendar-connections error', { error: err })
+    return NextResponse.json({ error: 'Failed to load calendar connections' }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/admin/team-members/[id]/calendar-connections
+ * Connect a CalDAV calendar or ICS subscription and import its busy time
+ */
+export const POST = withTenantContext(async (request: NextRequest, context: { params: { id: string } }) => {
+  const ctx = requireTenantContext()
+  try {
+    await calendarSyncService.assertAccess(ctx.tenantId!, context.params.id, ctx)
+    const input = connectionSchema.parse(await request.json().catch(() => ({}))) as CalendarConnectionInput
+    const result = await calendarSyncService.createConnection(ctx.tenantId!, context.params.id, input, ctx.userId)
+    return NextResponse.json(result, { status: 201 })
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: err.issues }, { status: 400 })
+    }
+    const status = calendarErrorStatus(err)
+    if (status) return NextResponse.json({ error: (err as Error).message }, { status })
+    logger.error('POST /api/admin/team-members/[id]/calendar-connections error', { error: err })
+    return NextResponse.json({ error: 'Failed to connect calendar' }, { status: 500 })
+  }
+})
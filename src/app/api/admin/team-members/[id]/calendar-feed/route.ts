@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { calendarErrorStatus, calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { logger } from '@/lib/logger'
+
+/**
+ * GET /api/admin/team-members/[id]/calendar-feed
+ * The signed ICS feed URL of the team member's bookings
+ */
+export const GET = withTenantContext(async (request: NextRequest, context: { params: { id: string } }) => {
+  const ctx = requireTenantContext()
+  try {
+    await calendarSyncService.assertAccess(ctx.tenantId!, context.params.id, ctx)
+    const url = await calendarSyncService.feedUrl(ctx.tenantId!, context.params.id, request.nextUrl.origin)
+    return NextResponse.json({ url })
+  } catch (err) {
+    const status = calendarErrorStatus(err)
+    if (status) return NextResponse.json({ error: (err as Error).message }, { status })
+    logger.error('GET /api/admin/team-members/[id]/calendar-feed error', { error: err })
+    return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/admin/team-members/[id]/calendar-feed
+ * Issue a new feed URL, revoking the old one
+ */
+export const POST = withTenantContext(async (request: NextRequest, context: { params: { id: string } }) => {
+  const ctx = requireTenantContext()
+  try {
+    await calendarSyncService.assertAccess(ctx.tenantId!, context.params.id, ctx)
+    const url = await calendarSyncService.rotateFeed(ctx.tenantId!, context.params.id, request.nextUrl.origin, ctx.userId)
+    return NextResponse.json({ url })
+  } catch (err) {
+    const status = calendarErrorStatus(err)
+    if (status) return NextResponse.json({ error: (err as Error).message }, { status })
+    logger.error('POST /api/admin/team-members/[id]/calendar-feed error', { error: err })
+    return NextResponse.json({ error: 'Failed to rotate calendar feed' }, { status: 500 })
+  }
+})
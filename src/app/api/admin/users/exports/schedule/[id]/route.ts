@@ -4,6 +4,7 @@ import { withTenantContext } from '@/lib/api-wrapper'
 import { tenantContext } from '@/lib/tenant-context'
 import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { rateLimitAsync } from '@/lib/rate-limit'
+import { exportScheduleRunner } from '@/lib/services/exports/export-schedule-runner'
 
 export const GET = withTenantContext(async (request: NextRequest, { params }: { params: { id: string } }) => {
   try {
@@ -68,6 +69,18 @@ export const PATCH = withTenantContext(async (request: NextRequest, { params }:
       }
     }
 
+    // Re-plan the next run when the timing changes
+    const retimed = Boolean(frequency || time) || dayOfWeek !== undefined || dayOfMonth !== undefined
+    const nextExecutedAt = retimed
+      ? await exportScheduleRunner.planNextRun(existingSchedule.tenantId, {
+          frequency: frequency || existingSchedule.frequency,
+          dayOfWeek: dayOfWeek !== undefined ? dayOfWeek : existingSchedule.dayOfWeek,
+          dayOfMonth: dayOfMonth !== undefined ? dayOfMonth : existingSchedule.dayOfMonth,
+          time: time || existingSchedule.time,
+          lastExecutedAt: existingSchedule.lastExecutedAt
+        })
+      : undefined
+
     const updatedSchedule = await prisma.exportSchedule.update({
       where: { id: params.id },
       data: {
@@ -83,6 +96,7 @@ export const PATCH = withTenantContext(async (request: NextRequest, { params }:
         ...(emailBody && { emailBody }),
         ...(filterPresetId !== undefined && { filterPresetId }),
         ...(isActive !== undefined && { isActive }),
+        ...(nextExecutedAt && { nextExecutedAt }),
         updatedAt: new Date()
       }
     })
@@ -4,6 +4,7 @@ import { withTenantContext } from '@/lib/api-wrapper'
 import { tenantContext } from '@/lib/tenant-context'
 import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { rateLimitAsync } from '@/lib/rate-limit'
+import { exportScheduleRunner } from '@/lib/services/exports/export-schedule-runner'
 
 export const GET = withTenantContext(async (request: NextRequest) => {
   try {
@@ -87,6 +88,8 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       return NextResponse.json({ error: 'Maximum number of export schedules (20) reached for this tenant' }, { status: 400 })
     }
 
+    const nextExecutedAt = await exportScheduleRunner.planNextRun(context.tenantId, { frequency, dayOfWeek, dayOfMonth, time: time || '09:00' })
+
     const schedule = await prisma.exportSchedule.create({
       data: {
         id: crypto.randomUUID(),
@@ -102,6 +105,7 @@ export const POST = withTenantContext(async (request: NextRequest) => {
         emailBody,
         filterPresetId: filterPresetId || null,
         isActive,
+        nextExecutedAt,
         tenantId: context.tenantId,
         userId: context.userId,
         createdAt: new Date(),
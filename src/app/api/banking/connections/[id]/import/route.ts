@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { bankStatementImportService, type StatementImportInput } from '@/lib/banking/statement-import-service'
+import { STATEMENT_FORMATS, type StatementFormat } from '@/lib/banking/statement-parsers'
+
+export const runtime = 'nodejs'
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+const JsonPayload = z.object({
+  content: z.string().min(1).max(MAX_FILE_SIZE),
+  fileName: z.string().max(255).optional(),
+  format: z.enum(STATEMENT_FORMATS as [StatementFormat, ...StatementFormat[]]).optional(),
+})
+
+/**
+ * POST /api/banking/connections/[id]/import
+ * Upload an MT940, CAMT.053, OFX/QFX or CSV statement into a manual
+ * connection, as multipart "file" (+ optional "format") or JSON { content, fileName, format }
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let input: StatementImportInput
+  const contentType = request.headers.get('content-type') || ''
+  if (contentType.toLowerCase().includes('multipart/form-data')) {
+    const form = await request.formData()
+    const upload = form.get('file')
+    if (!(upload instanceof Blob)) {
+      return NextResponse.json({ error: 'Missing file' }, { status: 400 })
+    }
+    if (upload.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File too large (max 5MB)' }, { status: 413 })
+    }
+    const format = form.get('format')
+    if (format && !STATEMENT_FORMATS.includes(format as StatementFormat)) {
+      return NextResponse.json({ error: 'Unsupported statement format' }, { status: 400 })
+    }
+    input = {
+      content: Buffer.from(await upload.arrayBuffer()).toString('utf8'),
+      fileName: typeof (upload as any).name === 'string' ? (upload as any).name : undefined,
+      format: (format as StatementFormat) || undefined,
+    }
+  } else {
+    const parsed = JsonPayload.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid input', details: parsed.error.issues }, { status: 400 })
+    }
+    input = parsed.data as StatementImportInput
+  }
+
+  try {
+    const result = await bankStatementImportService.importStatement(ctx.tenantId, ctx.userId, params.id, input)
+    return NextResponse.json({ success: true, data: result }, { status: result.imported > 0 ? 201 : 200 })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (message === 'Connection not found') {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+    if (
+      message === 'Statement upload is only available for manual connections' ||
+      message === 'Statement account does not match the connection'
+    ) {
+      return NextResponse.json({ error: message }, { status: 409 })
+    }
+    if (
+      message === 'Unrecognized statement format' ||
+      message === 'No transactions found in statement' ||
+      message.startsWith('Invalid')
+    ) {
+      return NextResponse.json({ error: message }, { status: 422 })
+    }
+    console.error('Bank statement import error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { bankReconciliationService } from '@/lib/banking/reconciliation-service'
+
+/**
+ * POST /api/banking/connections/[id]/reconciliation/auto-match
+ * Apply bank rules and confirm high-confidence matches for unmatched lines
+ */
+export const POST = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const result = await bankReconciliationService.autoMatch(ctx.tenantId, ctx.userId, params.id)
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Connection not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error('Bank auto-match error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
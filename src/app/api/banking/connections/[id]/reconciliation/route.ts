@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { bankReconciliationService, type StatementInput } from '@/lib/banking/reconciliation-service'
+
+const StatementSchema = z.object({
+  statementDate: z.coerce.date(),
+  statementBalance: z.coerce.number(),
+  openingBalance: z.coerce.number().optional(),
+})
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  if (message === 'Connection not found') {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+  if (
+    message === 'Statement date must be after the last reconciliation' ||
+    message === 'Reconciliation is out of balance' ||
+    message === 'No reconciliation to undo'
+  ) {
+    return NextResponse.json({ error: message }, { status: 409 })
+  }
+  console.error(fallback, error)
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+}
+
+/**
+ * GET /api/banking/connections/[id]/reconciliation
+ * Reconciliation workspace: unreconciled lines with matches, rule hits and
+ * suggestions. Pass statementDate and statementBalance to preview a reconciliation.
+ */
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_VIEW)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const query = Object.fromEntries(request.nextUrl.searchParams)
+    const statement = query.statementDate && query.statementBalance !== undefined
+      ? (StatementSchema.parse(query) as StatementInput)
+      : undefined
+
+    const workspace = await bankReconciliationService.getWorkspace(ctx.tenantId, params.id, statement)
+    return NextResponse.json({ success: true, data: workspace })
+  } catch (error) {
+    return errorResponse(error, 'Bank reconciliation workspace error:')
+  }
+}, { requireAuth: true })
+
+/**
+ * POST /api/banking/connections/[id]/reconciliation
+ * Reconcile through a statement date; 409 with the summary when out of balance
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const input = StatementSchema.parse(await request.json().catch(() => ({}))) as StatementInput
+
+    const summary = await bankReconciliationService.previewReconciliation(ctx.tenantId, params.id, input)
+    if (!summary.balanced) {
+      return NextResponse.json({ error: 'Reconciliation is out of balance', summary }, { status: 409 })
+    }
+
+    const reconciliation = await bankReconciliationService.reconcile(ctx.tenantId, ctx.userId, params.id, input)
+    return NextResponse.json({ success: true, data: { reconciliation, summary } }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'Bank reconciliation error:')
+  }
+}, { requireAuth: true })
+
+/**
+ * DELETE /api/banking/connections/[id]/reconciliation
+ * Undo the latest reconciliation and unlock its lines
+ */
+export const DELETE = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const reconciliation = await bankReconciliationService.undoReconciliation(ctx.tenantId, ctx.userId, params.id)
+    return NextResponse.json({ success: true, data: { id: reconciliation.id, status: 'UNDONE' } })
+  } catch (error) {
+    return errorResponse(error, 'Bank reconciliation undo error:')
+  }
+}, { requireAuth: true })
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { bankReconciliationService, type BankRuleInput } from '@/lib/banking/reconciliation-service'
+import { BankRuleUpdateSchema } from '@/schemas/banking'
+
+/**
+ * PATCH /api/banking/rules/[id]
+ */
+export const PATCH = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const input = BankRuleUpdateSchema.parse(await request.json().catch(() => ({}))) as Partial<BankRuleInput>
+    const rule = await bankReconciliationService.updateRule(ctx.tenantId, ctx.userId, params.id, input)
+    return NextResponse.json({ success: true, data: rule })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && error.message === 'Bank rule not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof Error && [
+      'Ledger account not found',
+      'Connection not found',
+      'Auto-confirm rules need an account to post to',
+    ].includes(error.message)) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Bank rule update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
+
+/**
+ * DELETE /api/banking/rules/[id]
+ */
+export const DELETE = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    await bankReconciliationService.deleteRule(ctx.tenantId, ctx.userId, params.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Bank rule not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error('Bank rule delete error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { bankReconciliationService, type BankRuleInput } from '@/lib/banking/reconciliation-service'
+import { BankRuleSchema } from '@/schemas/banking'
+
+/**
+ * GET /api/banking/rules
+ * Bank rules in priority order, optionally scoped to ?connectionId
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_VIEW)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const connectionId = request.nextUrl.searchParams.get('connectionId') || undefined
+  const rules = await bankReconciliationService.listRules(ctx.tenantId, connectionId)
+  return NextResponse.json({ success: true, data: rules })
+}, { requireAuth: true })
+
+/**
+ * POST /api/banking/rules
+ * Create a rule such as "description contains X → categorize as Y, post to account Z"
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const input = BankRuleSchema.parse(await request.json().catch(() => ({}))) as BankRuleInput
+    if (input.autoConfirm && !input.accountId) {
+      return NextResponse.json({ error: 'Auto-confirm rules need an account to post to' }, { status: 400 })
+    }
+    const rule = await bankReconciliationService.createRule(ctx.tenantId, ctx.userId, input)
+    return NextResponse.json({ success: true, data: rule }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof Error && (error.message === 'Ledger account not found' || error.message === 'Connection not found')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Bank rule create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
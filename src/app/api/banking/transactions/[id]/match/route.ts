@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { bankReconciliationService } from '@/lib/banking/reconciliation-service'
+import type { Allocation } from '@/lib/banking/reconciliation'
+
+// Amounts are in the transaction currency's major unit, like BankingTransaction.amount
+const MatchSchema = z.object({
+  allocations: z.array(z.object({
+    targetType: z.enum(['invoice', 'bill', 'expense', 'account']),
+    targetId: z.string().min(1),
+    amount: z.number().positive(),
+    description: z.string().max(255).optional(),
+  })).min(1).max(50),
+  category: z.string().max(100).optional(),
+})
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  if (message === 'Transaction not found') {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+  if (
+    message === 'Transaction is already matched' ||
+    message === 'Transaction is not matched' ||
+    message === 'Transaction is locked by a reconciliation' ||
+    message.startsWith('Period closed') ||
+    message.startsWith('Journal entry')
+  ) {
+    return NextResponse.json({ error: message }, { status: 409 })
+  }
+  if (
+    message.startsWith('Allocation') ||
+    message.startsWith('Allocations') ||
+    message === 'At least one allocation is required' ||
+    message === 'Each document can only be allocated once per transaction' ||
+    message === 'Ledger account not found'
+  ) {
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+  console.error(fallback, error)
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+}
+
+/**
+ * POST /api/banking/transactions/[id]/match
+ * Confirm a bank line against one or more invoices, bills, expenses or
+ * ledger accounts. Allocations must add up to the line amount.
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const body = MatchSchema.parse(await request.json().catch(() => ({})))
+    const allocations: Allocation[] = body.allocations!.map((a) => ({
+      targetType: a.targetType!,
+      targetId: a.targetId!,
+      amountCents: Math.round(a.amount! * 100),
+      description: a.description,
+    }))
+
+    const matches = await bankReconciliationService.confirmMatch(ctx.tenantId, ctx.userId, params.id, allocations, {
+      category: body.category,
+    })
+    return NextResponse.json({ success: true, data: { matches } }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'Bank match error:')
+  }
+}, { requireAuth: true })
+
+/**
+ * DELETE /api/banking/transactions/[id]/match
+ * Undo the line's match, reversing its ledger postings
+ */
+export const DELETE = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    await bankReconciliationService.undoMatch(ctx.tenantId, ctx.userId, params.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'Bank match undo error:')
+  }
+}, { requireAuth: true })
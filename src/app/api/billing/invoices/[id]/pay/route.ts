@@ -3,6 +3,7 @@ import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import prisma from '@/lib/prisma'
 import { logger } from '@/lib/logger'
+import { paymentService } from '@/lib/payments/payment-service'
 import { z } from 'zod'
 
 const payInvoiceSchema = z.object({
@@ -38,23 +39,30 @@ export const POST = withTenantContext(
       const body = await request.json()
       const paymentData = payInvoiceSchema.parse(body)
 
-      const amountToPay = paymentData.amount ? Math.round(paymentData.amount * 100) : invoice.totalCents
-      
-      if (amountToPay > invoice.totalCents) {
+      const { outstandingCents } = await paymentService.getInvoiceBalance(ctx.tenantId, invoiceId)
+      const amountToPay = paymentData.amount ? Math.round(paymentData.amount * 100) : outstandingCents
+
+      if (outstandingCents <= 0) {
+        return NextResponse.json({ error: 'Invoice has no outstanding balance' }, { status: 409 })
+      }
+      if (amountToPay > outstandingCents) {
         return NextResponse.json(
-          { error: 'Payment amount exceeds invoice total' },
+          { error: 'Payment amount exceeds the outstanding balance' },
           { status: 400 }
         )
       }
 
-      // Update invoice status
-      const updatedInvoice = await prisma.invoice.update({
-        where: { id: invoiceId },
-        data: {
-          status: amountToPay >= invoice.totalCents ? 'PAID' : 'UNPAID',
-          paidAt: new Date(),
-        },
+      // Partial payments leave the invoice open until the balance is settled
+      const payment = await paymentService.recordPayment(ctx.tenantId, ctx.userId, {
+        clientId: invoice.clientId,
+        entityId: invoice.entityId,
+        currency: invoice.currency,
+        amountCents: amountToPay,
+        method: paymentData.paymentMethod === 'card' ? 'card' : 'other',
+        reference: paymentData.reference ?? null,
+        allocations: [{ invoiceId, amountCents: amountToPay }],
       })
+      const updatedInvoice = await prisma.invoice.findUniqueOrThrow({ where: { id: invoiceId } })
 
       logger.info('Invoice payment processed', {
         invoiceId,
@@ -71,7 +79,9 @@ export const POST = withTenantContext(
           currency: updatedInvoice.currency || 'USD',
           status: updatedInvoice.status === 'PAID' ? 'paid' : 'pending',
           paidAt: updatedInvoice.paidAt?.toISOString(),
+          outstanding: (outstandingCents - amountToPay) / 100,
         },
+        paymentId: payment.id,
       })
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -80,6 +90,12 @@ export const POST = withTenantContext(
           { status: 400 }
         )
       }
+      if (error instanceof Error && error.message.startsWith('Period closed')) {
+        return NextResponse.json({ error: error.message }, { status: 409 })
+      }
+      if (error instanceof Error && error.message.startsWith('Allocation')) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
       logger.error('Error processing invoice payment', { error })
       return NextResponse.json(
         { error: 'Internal server error' },
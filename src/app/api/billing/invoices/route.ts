@@ -4,6 +4,8 @@ import { requireTenantContext } from '@/lib/tenant-utils'
 import type { TenantContext } from '@/lib/tenant-context'
 import prisma from '@/lib/prisma'
 import { logger } from '@/lib/logger'
+import { ledgerPostingService, postToLedgerSafe } from '@/lib/accounting/posting-service'
+import { periodCloseService } from '@/lib/accounting/period-close'
 import { z } from 'zod'
 
 const createInvoiceSchema = z.object({
@@ -94,6 +96,8 @@ export const POST = withTenantContext(async (request: NextRequest) => {
     const body = await request.json()
     const data = createInvoiceSchema.parse(body)
 
+    await periodCloseService.assertDateOpen(ctx.tenantId, null, new Date())
+
     const invoice = await prisma.invoice.create({
       data: {
         tenantId: ctx.tenantId,
@@ -104,6 +108,8 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       },
     })
 
+    await postToLedgerSafe('invoice.issued', () => ledgerPostingService.postInvoiceIssued(invoice, { userId: ctx?.userId }))
+
     return NextResponse.json(
       {
         success: true,
@@ -124,6 +130,9 @@ export const POST = withTenantContext(async (request: NextRequest) => {
         { status: 400 }
       )
     }
+    if (error instanceof Error && error.message.startsWith('Period closed')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
     const errorMsg = error instanceof Error ? error.message : String(error);
     const errorStack = error instanceof Error ? error.stack : undefined;
 
@@ -57,6 +57,10 @@ const _api_POST = async (
       return NextResponse.json({ error: "Bill not found" }, { status: 404 });
     }
 
+    if (error instanceof Error && error.message.startsWith("Period closed")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     logger.error("Error approving bill", { error, billId: params.id });
     return NextResponse.json(
       { error: "Internal server error" },
@@ -5,6 +5,7 @@ import { billsService } from "@/lib/services/bills/bills-service";
 import { logger } from "@/lib/logger";
 import type { BillUpdateInput } from "@/types/bills";
 import { z } from "zod";
+import { BillLineSchema } from "@/schemas/bills";
 
 const BillUpdateSchema = z.object({
   vendor: z.string().min(1).optional(),
@@ -18,6 +19,9 @@ const BillUpdateSchema = z.object({
   notes: z.string().optional(),
   tags: z.array(z.string()).optional(),
   billNumber: z.string().optional(),
+  taxCodeId: z.string().nullable().optional(),
+  partyId: z.string().nullable().optional(),
+  lines: z.array(BillLineSchema).max(200).optional(),
 });
 
 /**
@@ -96,8 +100,16 @@ const _api_PATCH = async (
       );
     }
 
-    if (error instanceof Error && error.message === "Bill not found") {
-      return NextResponse.json({ error: "Bill not found" }, { status: 404 });
+    if (error instanceof Error && (error.message === "Bill not found" || error.message === "Tax code not found" || error.message === "Party not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && (error.message.startsWith("Period closed") || error.message === "Lines and vendor of an approved bill cannot be changed")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof Error && error.message === "Bill lines must add up to the bill amount") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
     }
 
     logger.error("Error updating bill", { error, billId: params.id });
@@ -135,6 +147,10 @@ const _api_DELETE = async (
       return NextResponse.json({ error: "Bill not found" }, { status: 404 });
     }
 
+    if (error instanceof Error && error.message.startsWith("Period closed")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     logger.error("Error deleting bill", { error, billId: params.id });
     return NextResponse.json(
       { error: "Internal server error" },
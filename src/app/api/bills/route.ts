@@ -6,6 +6,7 @@ import { billsService } from "@/lib/services/bills/bills-service";
 import { logger } from "@/lib/logger";
 import type { BillFilters } from "@/types/bills";
 import { z } from "zod";
+import { BillLineSchema } from "@/schemas/bills";
 
 // Validation schemas
 const BillFiltersSchema = z.object({
@@ -34,6 +35,12 @@ const BillCreateSchema = z.object({
   notes: z.string().optional(),
   tags: z.array(z.string()).optional(),
   attachmentId: z.string().optional(),
+  entityId: z.string().optional(),
+  // VAT tax code the bill is reported under
+  taxCodeId: z.string().optional(),
+  // Vendor master record; its country and treaty rates decide withholding tax
+  partyId: z.string().optional(),
+  lines: z.array(BillLineSchema).max(200).optional(),
 });
 
 /**
@@ -159,6 +166,18 @@ const _api_POST = async (request: NextRequest) => {
       );
     }
 
+    if (error instanceof Error && error.message.startsWith("Period closed")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof Error && (error.message === "Entity not found" || error.message === "Tax code not found" || error.message === "Party not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message === "Bill lines must add up to the bill amount") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     const errorMsg = error instanceof Error ? error.message : String(error);
     const errorStack = error instanceof Error ? error.stack : undefined;
 
@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
 import type { BookingStatus } from '@prisma/client'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { sendBookingConfirmation } from '@/lib/email'
+import { bookingPolicyService } from '@/lib/booking/booking-policy-service'
 import { hasRole } from '@/lib/permissions'
 
 // POST /api/bookings/[id]/confirm - Confirm booking and send email
@@ -22,6 +24,7 @@ export const POST = withTenantContext(async (request: NextRequest, context: { pa
     if (!booking) return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
 
     const updatedBooking = await prisma.booking.update({ where: { id }, data: { status: 'CONFIRMED', confirmed: true }, include: { client: { select: { id: true, name: true, email: true } }, service: { select: { id: true, name: true, price: true } } } })
+    await calendarSyncService.syncBookingSafe(updatedBooking.id)
 
     try {
       await sendBookingConfirmation({
@@ -31,7 +34,7 @@ export const POST = withTenantContext(async (request: NextRequest, context: { pa
         clientName: updatedBooking.clientName,
         clientEmail: updatedBooking.clientEmail,
         service: { name: updatedBooking.service.name, price: updatedBooking.service.price ? Number(updatedBooking.service.price) : 0 },
-      })
+      }, { policyText: await bookingPolicyService.policyTextSafe(updatedBooking.tenantId, updatedBooking.serviceId) })
     } catch (emailError) {
       console.error('Failed to send confirmation email:', emailError)
     }
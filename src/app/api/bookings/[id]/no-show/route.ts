@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { publishBookingUpdated } from '@/lib/realtime/booking-events'
+import { bookingPolicyErrorStatus, bookingPolicyService } from '@/lib/booking/booking-policy-service'
+
+/**
+ * POST /api/bookings/[id]/no-show
+ * Record that the client missed the booking and charge the service's no-show fee
+ */
+export const POST = withTenantContext(async (_req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !hasPermission(ctx.role as string | undefined, PERMISSIONS.BOOKINGS_EDIT)) {
+    return respond.unauthorized()
+  }
+
+  try {
+    const result = await bookingPolicyService.markNoShow(String(ctx.tenantId), id, ctx.userId)
+    publishBookingUpdated({ id: result.booking.id, serviceId: result.booking.serviceId, action: 'updated' })
+    return respond.ok(result)
+  } catch (e: any) {
+    const status = bookingPolicyErrorStatus(e)
+    if (status === 404) return respond.notFound(e.message)
+    if (status) return respond.badRequest(e.message)
+    return respond.serverError('Failed to record no-show', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import type { BookingStatus } from '@prisma/client'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { isMultiTenancyEnabled } from '@/lib/tenant'
 import { PERMISSIONS, hasPermission } from '@/lib/permissions'
@@ -9,6 +10,9 @@ import { logAudit } from '@/lib/audit'
 import { respond } from '@/lib/api-response'
 import { logger } from '@/lib/logger'
 import { publishBookingUpdated, publishBookingDeleted } from '@/lib/realtime/booking-events'
+import { bookingPolicyErrorStatus, bookingPolicyService } from '@/lib/booking/booking-policy-service'
+import { bookingWaitlistService } from '@/lib/booking/waitlist'
+import { bookingResourceService } from '@/lib/booking/resources'
 
 /**
  * Filter booking fields based on user role and ownership
@@ -151,8 +155,17 @@ export const PUT = withTenantContext(
         updateData.notes = body.notes
       }
 
-      // Portal users can reschedule only if not confirmed
-      if (isOwner && !isAdmin && body.scheduledAt && !existing.confirmed) {
+      // Portal users can reschedule within the service's booking policy
+      const clientReschedule = isOwner && !isAdmin && !!body.scheduledAt
+      if (clientReschedule) {
+        try {
+          await bookingPolicyService.assertCanReschedule(existing.tenantId, existing.id)
+        } catch (err) {
+          const status = bookingPolicyErrorStatus(err)
+          if (status === 403) return respond.forbidden((err as Error).message)
+          if (status) return respond.badRequest((err as Error).message)
+          throw err
+        }
         updateData.scheduledAt = new Date(body.scheduledAt)
       }
 
@@ -179,6 +192,12 @@ export const PUT = withTenantContext(
         },
       })
 
+      await bookingResourceService.allocateSafe(updated.id)
+      await calendarSyncService.syncBookingSafe(updated.id)
+      if (clientReschedule) {
+        try { await bookingPolicyService.recordReschedule(existing.tenantId, existing.id, existing.scheduledAt) } catch {}
+      }
+
       // Publish real-time event for portal and admin notifications
       publishBookingUpdated({
         id: updated.id,
@@ -208,7 +227,7 @@ export const PUT = withTenantContext(
 /**
  * DELETE /api/bookings/[id]
  * Cancel booking
- * - Portal users: can cancel if not confirmed
+ * - Portal users: within the service's booking policy, which may charge a late fee
  * - Admin users: can cancel anytime
  */
 export const DELETE = withTenantContext(
@@ -244,10 +263,19 @@ export const DELETE = withTenantContext(
         return respond.forbidden('You do not have permission to cancel this booking')
       }
 
-      // Portal users can only cancel unconfirmed bookings
       const isAdmin = ctx.role === 'ADMIN' || ctx.role === 'TEAM_LEAD' || ctx.role === 'TEAM_MEMBER'
-      if (!isAdmin && booking.confirmed) {
-        return respond.forbidden('Cannot cancel confirmed booking. Please contact support.')
+      if (!isAdmin) {
+        try {
+          const { booking: cancelled, fee } = await bookingPolicyService.cancelByClient(booking.tenantId, booking.id, String(ctx.userId))
+          publishBookingDeleted({ id: cancelled.id, serviceId: cancelled.serviceId, action: 'deleted' })
+          return respond.ok({ success: true, message: 'Booking cancelled successfully', data: cancelled, fee })
+        } catch (err) {
+          const status = bookingPolicyErrorStatus(err)
+          if (status === 403) return respond.forbidden((err as Error).message)
+          if (status === 404) return respond.notFound('Booking not found')
+          if (status) return respond.badRequest((err as Error).message)
+          throw err
+        }
       }
 
       // Log audit
@@ -261,13 +289,16 @@ export const DELETE = withTenantContext(
       // Cancel booking
       const cancelled = await prisma.booking.update({
         where: { id },
-        data: { status: 'CANCELLED' as BookingStatus },
+        data: { status: 'CANCELLED' as BookingStatus, cancelledAt: new Date() },
         include: {
           service: { select: { id: true, name: true } },
           client: { select: { id: true, email: true, name: true } },
         },
       })
 
+      await calendarSyncService.syncBookingSafe(cancelled.id)
+      await bookingWaitlistService.offerFreedSlotSafe(cancelled.tenantId, cancelled.serviceId, cancelled.scheduledAt)
+
       // Publish real-time event for portal and admin notifications
       publishBookingDeleted({
         id: cancelled.id,
@@ -8,6 +8,7 @@ import { logAudit } from '@/lib/audit'
 import { respond } from '@/lib/api-response'
 import { logger } from '@/lib/logger'
 import { publishBookingCreated } from '@/lib/realtime/booking-events'
+import { bookingResourceService } from '@/lib/booking/resources'
 
 /**
  * Filter booking fields based on user role
@@ -211,6 +212,8 @@ export const POST = withTenantContext(
         },
       })
 
+      await bookingResourceService.allocateSafe(booking.id)
+
       // Log audit
       await logAudit({
         action: 'booking.created',
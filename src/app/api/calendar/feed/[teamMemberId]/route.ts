@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { calendarErrorStatus, calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { logger } from '@/lib/logger'
+
+export const runtime = 'nodejs'
+
+// GET /api/calendar/feed/[teamMemberId]?token=...
+// A team member's bookings as an ICS feed for calendar apps. The signed token is the only credential.
+const _api_GET = async (request: NextRequest, context: { params: { teamMemberId: string } }) => {
+  try {
+    const token = request.nextUrl.searchParams.get('token') ?? ''
+    const ics = await calendarSyncService.feed(context.params.teamMemberId, token)
+    return new NextResponse(ics, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="bookings.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (e) {
+    const status = calendarErrorStatus(e)
+    if (status) return NextResponse.json({ error: (e as Error).message }, { status })
+    logger.error('GET /api/calendar/feed/[teamMemberId] error', { error: e })
+    return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 })
+  }
+}
+
+export const GET = withTenantContext(_api_GET, { requireAuth: false })
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { runCalendarSync } from '@/lib/cron/calendar-sync'
+import { withTenantContext } from '@/lib/api-wrapper'
+
+export const runtime = 'nodejs'
+
+// POST /api/cron/calendar-sync
+// Imports busy time from team members' connected calendars that are due for a sync.
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    return NextResponse.json(await runCronTask('calendar-sync', () => runCalendarSync()))
+  } catch (e) {
+    console.error('POST /api/cron/calendar-sync error', e)
+    return NextResponse.json({ error: 'Failed to sync calendars' }, { status: 500 })
+  }
+}
+
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { runEInvoiceSubmissions } from '@/lib/cron/einvoice-submissions'
+import { withTenantContext } from '@/lib/api-wrapper'
+
+export const runtime = 'nodejs'
+
+// POST /api/cron/einvoice-submissions
+// Sends queued e-invoice submissions and retries those whose backoff has elapsed.
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    return NextResponse.json(await runCronTask('einvoice-submissions', () => runEInvoiceSubmissions()))
+  } catch (e) {
+    console.error('POST /api/cron/einvoice-submissions error', e)
+    return NextResponse.json({ error: 'Failed to run e-invoice submissions' }, { status: 500 })
+  }
+}
+
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { runETAReceipts } from '@/lib/cron/eta-receipts'
+import { withTenantContext } from '@/lib/api-wrapper'
+
+export const runtime = 'nodejs'
+
+// POST /api/cron/eta-receipts
+// Submits pending e-receipts to ETA in batches and polls submitted batches for their validation status.
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    return NextResponse.json(await runCronTask('eta-receipts', () => runETAReceipts()))
+  } catch (e) {
+    console.error('POST /api/cron/eta-receipts error', e)
+    return NextResponse.json({ error: 'Failed to run ETA receipts' }, { status: 500 })
+  }
+}
+
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { runExportSchedules } from '@/lib/cron/export-schedules'
+import { withTenantContext } from '@/lib/api-wrapper'
+
+export const runtime = 'nodejs'
+
+// POST /api/cron/export-schedules
+// Runs due export schedules and retries deliveries whose backoff has elapsed.
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    return NextResponse.json(await runCronTask('export-schedules', () => runExportSchedules()))
+  } catch (e) {
+    console.error('POST /api/cron/export-schedules error', e)
+    return NextResponse.json({ error: 'Failed to run export schedules' }, { status: 500 })
+  }
+}
+
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
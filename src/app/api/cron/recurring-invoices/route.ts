@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { generateRecurringInvoices } from '@/lib/cron/recurring-invoices'
+import { withTenantContext } from '@/lib/api-wrapper'
+
+export const runtime = 'nodejs'
+
+// POST /api/cron/recurring-invoices
+// Generates invoices for every recurring schedule that has fallen due.
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    return NextResponse.json(await runCronTask('recurring-invoices', () => generateRecurringInvoices()))
+  } catch (e) {
+    console.error('POST /api/cron/recurring-invoices error', e)
+    return NextResponse.json({ error: 'Failed to generate recurring invoices' }, { status: 500 })
+  }
+}
+
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
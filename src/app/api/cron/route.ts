@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { runScheduledTasks, updateBookingStatuses, cleanupOldData, generateMonthlyReports } from '@/lib/cron'
 import { processBookingReminders } from '@/lib/cron/reminders'
+import { generateRecurringInvoices } from '@/lib/cron/recurring-invoices'
+import { runExportSchedules } from '@/lib/cron/export-schedules'
+import { checkZatcaCertificates } from '@/lib/cron/zatca-certificates'
+import { runEInvoiceSubmissions } from '@/lib/cron/einvoice-submissions'
+import { runETAReceipts } from '@/lib/cron/eta-receipts'
+import { runCalendarSync } from '@/lib/cron/calendar-sync'
+import { expireWaitlistHolds } from '@/lib/cron/waitlist-holds'
 import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
 import { withTenantContext } from '@/lib/api-wrapper'
 
@@ -22,6 +29,20 @@ const _api_POST = async (request: NextRequest) => {
         return NextResponse.json(await runCronTask('cleanup', () => cleanupOldData()))
       case 'monthly-report':
         return NextResponse.json(await runCronTask('monthly-report', () => generateMonthlyReports()))
+      case 'recurring-invoices':
+        return NextResponse.json(await runCronTask('recurring-invoices', () => generateRecurringInvoices()))
+      case 'export-schedules':
+        return NextResponse.json(await runCronTask('export-schedules', () => runExportSchedules()))
+      case 'zatca-certificates':
+        return NextResponse.json(await runCronTask('zatca-certificates', () => checkZatcaCertificates()))
+      case 'einvoice-submissions':
+        return NextResponse.json(await runCronTask('einvoice-submissions', () => runEInvoiceSubmissions()))
+      case 'eta-receipts':
+        return NextResponse.json(await runCronTask('eta-receipts', () => runETAReceipts()))
+      case 'calendar-sync':
+        return NextResponse.json(await runCronTask('calendar-sync', () => runCalendarSync()))
+      case 'waitlist-holds':
+        return NextResponse.json(await runCronTask('waitlist-holds', () => expireWaitlistHolds()))
       case 'all':
       default:
         return NextResponse.json(await runCronTask('all', () => runScheduledTasks()))
@@ -72,6 +93,41 @@ const _api_GET = async (request: NextRequest) => {
           task: 'monthly-report',
           description: 'Generate monthly statistics report',
           schedule: 'First day of each month'
+        },
+        {
+          task: 'recurring-invoices',
+          description: 'Generate invoices for due recurring schedules',
+          schedule: 'Hourly'
+        },
+        {
+          task: 'export-schedules',
+          description: 'Run due export schedules and retry failed deliveries',
+          schedule: 'Every 5 minutes'
+        },
+        {
+          task: 'zatca-certificates',
+          description: 'Warn before ZATCA device certificates expire',
+          schedule: 'Daily'
+        },
+        {
+          task: 'einvoice-submissions',
+          description: 'Send queued e-invoice submissions and retry transient failures',
+          schedule: 'Every 5 minutes'
+        },
+        {
+          task: 'eta-receipts',
+          description: 'Submit pending ETA e-receipts in batches and poll their validation status',
+          schedule: 'Every 5 minutes'
+        },
+        {
+          task: 'calendar-sync',
+          description: 'Import busy time from connected team member calendars',
+          schedule: 'Every 15 minutes'
+        },
+        {
+          task: 'waitlist-holds',
+          description: 'Release expired waitlist holds and offer the slots to the next client',
+          schedule: 'Every 5 minutes'
         }
       ],
       usage: {
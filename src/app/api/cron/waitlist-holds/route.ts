@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { expireWaitlistHolds } from '@/lib/cron/waitlist-holds'
+import { withTenantContext } from '@/lib/api-wrapper'
+
+export const runtime = 'nodejs'
+
+// POST /api/cron/waitlist-holds
+// Releases waitlist holds that ran out and offers each slot to the next client in line.
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    return NextResponse.json(await runCronTask('waitlist-holds', () => expireWaitlistHolds()))
+  } catch (e) {
+    console.error('POST /api/cron/waitlist-holds error', e)
+    return NextResponse.json({ error: 'Failed to expire waitlist holds' }, { status: 500 })
+  }
+}
+
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { fxService } from '@/lib/accounting/fx-service'
 
 const _api_GET = async (request: NextRequest) => {
   try {
@@ -10,7 +11,27 @@ const _api_GET = async (request: NextRequest) => {
     const amount = Number(searchParams.get('amount') || '0')
     if (!to || !amount) return NextResponse.json({ error: 'Invalid params' }, { status: 400 })
 
-    const rate = await prisma.exchangeRate.findFirst({ where: { base: from, target: to }, orderBy: { fetchedAt: 'desc' } })
+    // With a date, convert at the rate recorded for that day (or the latest before it)
+    const dateParam = searchParams.get('date')
+    if (dateParam) {
+      const date = new Date(dateParam)
+      if (!Number.isFinite(date.getTime())) return NextResponse.json({ error: 'Invalid params' }, { status: 400 })
+      const found = await fxService.findRate(from, to, date)
+      if (!found) return NextResponse.json({ error: 'Rate not found' }, { status: 404 })
+      return NextResponse.json({
+        from,
+        to,
+        amount,
+        rate: found.rate,
+        converted: amount * found.rate,
+        rateDate: found.rateDate.toISOString().slice(0, 10),
+        source: found.source,
+        method: found.method,
+        stale: found.stale,
+      })
+    }
+
+    const rate = await prisma.exchangeRate.findFirst({ where: { base: from, target: to }, orderBy: [{ rateDate: 'desc' }, { fetchedAt: 'desc' }] })
     if (!rate) return NextResponse.json({ error: 'Rate not found' }, { status: 404 })
 
     const converted = (amount * rate.rate)
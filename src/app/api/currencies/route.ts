@@ -7,7 +7,7 @@ const _api_GET = async (_request: NextRequest) => {
     const base = process.env.EXCHANGE_BASE_CURRENCY || 'USD'
     const currencies = await prisma.currency.findMany({ where: { active: true }, orderBy: { isDefault: 'desc' } })
     const result = await Promise.all(currencies.map(async (c) => {
-      const rate = await prisma.exchangeRate.findFirst({ where: { base, target: c.code }, orderBy: { fetchedAt: 'desc' } })
+      const rate = await prisma.exchangeRate.findFirst({ where: { base, target: c.code }, orderBy: [{ rateDate: 'desc' }, { fetchedAt: 'desc' }] })
       return { code: c.code, name: c.name, symbol: c.symbol, active: c.active, isDefault: c.isDefault, decimals: c.decimals, lastRate: rate?.rate ?? null }
     }))
     return NextResponse.json(result)
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { etaReceiptService } from '@/lib/einvoicing/eta-receipts'
+
+const BatchQuerySchema = z.object({
+  status: z.enum(['SUBMITTING', 'SUBMITTED', 'VALID', 'PARTIALLY_VALID', 'INVALID', 'FAILED']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+/**
+ * GET /api/einvoicing/eta/receipts/batches
+ * Receipt submissions to ETA with their accepted, rejected and validated counts
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const query = BatchQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const batches = await etaReceiptService.listBatches(ctx.tenantId, query)
+    return NextResponse.json({ success: true, data: batches })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query', details: error.issues }, { status: 400 })
+    }
+    console.error('E-receipt batch list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
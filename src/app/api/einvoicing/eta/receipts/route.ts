@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { etaReceiptService, receiptErrorStatus, type ReceiptInput } from '@/lib/einvoicing/eta-receipts'
+import { ETAReceiptQuerySchema, ETAReceiptSchema } from '@/schemas/einvoicing'
+
+/**
+ * GET /api/einvoicing/eta/receipts
+ * Issued e-receipts with their ETA status and validation errors
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const query = ETAReceiptQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const receipts = await etaReceiptService.listReceipts(ctx.tenantId, query)
+    return NextResponse.json({ success: true, data: receipts })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query', details: error.issues }, { status: 400 })
+    }
+    console.error('E-receipt list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
+
+/**
+ * POST /api/einvoicing/eta/receipts
+ * Issue a B2C receipt (or a return) as the POS's next receipt. It is
+ * submitted to ETA with the POS's other pending receipts by the worker.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_CREATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const input = ETAReceiptSchema.parse(await request.json().catch(() => ({}))) as ReceiptInput
+    const receipt = await etaReceiptService.issueReceipt(ctx.tenantId, ctx.userId, input)
+    return NextResponse.json({ success: true, data: receipt }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = receiptErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('E-receipt issue error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
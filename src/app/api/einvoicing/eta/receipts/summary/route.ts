@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { etaReceiptService } from '@/lib/einvoicing/eta-receipts'
+import { ETAReceiptSummaryQuerySchema } from '@/schemas/einvoicing'
+
+/**
+ * GET /api/einvoicing/eta/receipts/summary?entityId=&from=&to=
+ * Receipt totals for a period, as the filing data of an E_RECEIPT tax filing
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const query = ETAReceiptSummaryQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const summary = await etaReceiptService.periodSummary(ctx.tenantId, query.entityId, query.from, query.to, query.posSerial)
+    return NextResponse.json({ success: true, data: summary })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query', details: error.issues }, { status: 400 })
+    }
+    console.error('E-receipt summary error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { zatcaErrorStatus } from '@/lib/einvoicing/zatca-service'
+import { einvoiceSubmissionQueue, submissionErrorStatus } from '@/lib/einvoicing/submission-queue'
+
+/**
+ * POST /api/einvoicing/submissions/[id]/resubmit
+ * Queue a failed submission again, or re-sign a rejected invoice as a new
+ * submission once it has been corrected
+ */
+export const POST = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const submission = await einvoiceSubmissionQueue.resubmit(ctx.tenantId, ctx.userId, params.id)
+    return NextResponse.json({ success: true, data: submission }, { status: 202 })
+  } catch (error) {
+    const status = submissionErrorStatus(error) ?? zatcaErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('E-invoice resubmission error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { einvoiceSubmissionQueue, submissionErrorStatus } from '@/lib/einvoicing/submission-queue'
+
+/**
+ * GET /api/einvoicing/submissions/[id]
+ * A submission with its signed and cleared documents
+ */
+export const GET = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const submission = await einvoiceSubmissionQueue.get(ctx.tenantId, params.id)
+    return NextResponse.json({ success: true, data: submission })
+  } catch (error) {
+    const status = submissionErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('E-invoice submission fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { einvoiceSubmissionQueue } from '@/lib/einvoicing/submission-queue'
+import { EInvoiceSubmissionQuerySchema } from '@/schemas/einvoicing'
+
+/**
+ * GET /api/einvoicing/submissions
+ * E-invoice submissions with the authority's warnings and errors.
+ * attention=true lists rejected and failed ones; overdue=true lists pending
+ * ones past their reporting or submission window.
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const query = EInvoiceSubmissionQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const submissions = await einvoiceSubmissionQueue.list(ctx.tenantId, {
+      status: query.status,
+      standard: query.standard,
+      invoiceId: query.invoiceId,
+      attention: query.attention === 'true',
+      overdue: query.overdue === 'true',
+      limit: query.limit,
+    })
+    return NextResponse.json({ success: true, data: submissions })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query', details: error.issues }, { status: 400 })
+    }
+    console.error('E-invoice submissions list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -1,20 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import prisma from '@/lib/prisma'
-import { InvoiceStatus } from '@prisma/client'
 import { logAuditSafe } from '@/lib/observability-helpers'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { logger } from '@/lib/logger'
 import { z } from 'zod'
-import { ZATCAAdapter } from '@/lib/einvoicing/zatca-adapter'
-import { ETAAdapter } from '@/lib/einvoicing/eta-adapter'
-
-const SubmitEInvoiceSchema = z.object({
-  invoiceId: z.string().min(1),
-  country: z.enum(['AE', 'SA', 'EG']),
-  certificateId: z.string().optional(),
-})
-
+import { zatcaErrorStatus } from '@/lib/einvoicing/zatca-service'
+import { einvoiceSubmissionQueue, submissionErrorStatus } from '@/lib/einvoicing/submission-queue'
+import { PENDING_STATUSES, type SubmissionStatus } from '@/lib/einvoicing/submission-policy'
+import { SubmitEInvoiceSchema } from '@/schemas/einvoicing'
+
+/**
+ * POST /api/einvoicing/submit
+ * Sign and queue an invoice for its tax authority. ZATCA clearance is
+ * attempted straight away because a standard invoice cannot be issued
+ * until it is cleared; reporting and ETA submissions go to the worker.
+ */
 export const POST = withTenantContext(async (request: NextRequest) => {
   let validated: z.infer<typeof SubmitEInvoiceSchema> | null = null
 
@@ -29,157 +30,35 @@ export const POST = withTenantContext(async (request: NextRequest) => {
     if (!tenantId) {
       return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
     }
+    if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
 
     const body = await request.json()
     validated = SubmitEInvoiceSchema.parse(body)
 
-    // Get invoice with items and client
-    const invoice = await prisma.invoice.findFirst({
-      where: { id: validated.invoiceId, tenantId },
-      include: { items: true, client: true },
-    }) as any
-
-    if (!invoice) {
-      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
-    }
-
-    let submitResult: any = null
-
-    try {
-      if (validated.country === 'SA') {
-        // ZATCA (KSA) submission
-        const zatca = new ZATCAAdapter()
-
-        // TODO: Fetch certificate from secure storage
-        // For now, use mock certificate
-        const mockCertificate = {
-          privateKey: process.env.ZATCA_PRIVATE_KEY || '',
-          certificate: process.env.ZATCA_CERTIFICATE || '',
-          algorithm: 'SHA256_RSA' as const,
-        }
-
-        if (!mockCertificate.privateKey) {
-          return NextResponse.json(
-            {
-              error: 'ZATCA certificate not configured',
-              details: 'Missing ZATCA_PRIVATE_KEY environment variable',
-            },
-            { status: 400 }
-          )
-        }
-
-        // Create ZATCA invoice object from invoice data
-        const zatcaInvoice = {
-          id: invoice.id,
-          uuid: `UUID-${Date.now()}`,
-          invoiceNumber: invoice.invoiceNumber,
-          invoiceType: 'STANDARD' as const,
-          issueDate: invoice.createdAt,
-          seller: {
-            name: invoice.sellerName || 'Company',
-            crNumber: 'CR_NUMBER',
-            taxId: invoice.taxId || 'TAX_ID',
-            address: invoice.sellerAddress || 'Address',
-          },
-          lineItems: [],
-          totals: {
-            subtotal: invoice.subtotal || 0,
-            discountTotal: 0,
-            taxTotal: invoice.taxAmount || 0,
-            total: invoice.totalAmount || 0,
-          },
-          status: 'DRAFT' as const,
-          createdAt: invoice.createdAt,
-        }
-
-        submitResult = await zatca.submit(zatcaInvoice)
-      } else if (validated.country === 'EG') {
-        // ETA (Egypt) submission
-        const eta = new ETAAdapter()
-
-        // TODO: Fetch certificate from secure storage
-        const mockCertificate = {
-          privateKey: process.env.ETA_PRIVATE_KEY || '',
-          certificate: process.env.ETA_CERTIFICATE || '',
-          algorithm: 'SHA256_RSA' as const,
-        }
+    let submission = await einvoiceSubmissionQueue.enqueueInvoice(tenantId, ctx.userId, validated.invoiceId, validated.country, {
+      deviceId: validated.deviceId,
+      buyerTaxId: validated.buyerTaxId,
+    })
 
-        if (!mockCertificate.privateKey) {
-          return NextResponse.json(
-            {
-              error: 'ETA certificate not configured',
-              details: 'Missing ETA_PRIVATE_KEY environment variable',
-            },
-            { status: 400 }
-          )
-        }
-
-        // Create ETA invoice object
-        const etaInvoice = {
-          id: invoice.id,
-          uuid: `UUID-${Date.now()}`,
-          invoiceNumber: invoice.invoiceNumber,
-          invoiceType: 'STANDARD' as const,
-          documentType: 'INVOICE' as const,
-          issueDate: invoice.createdAt,
-          seller: {
-            name: invoice.sellerName || 'Company',
-            taxNumber: invoice.taxId || '000000000',
-            address: invoice.sellerAddress || 'Address',
-          },
-          lineItems: [],
-          totals: {
-            subtotal: invoice.subtotal || 0,
-            discountTotal: 0,
-            taxTotal: invoice.taxAmount || 0,
-            total: invoice.totalAmount || 0,
-          },
-          status: 'DRAFT' as const,
-          createdAt: invoice.createdAt,
-        }
-
-        submitResult = await eta.submit(etaInvoice)
-      }
-    } catch (error) {
-      return NextResponse.json(
-        {
-          error: 'E-invoicing submission failed',
-          details: String(error),
-        },
-        { status: 400 }
-      )
+    if (submission.mode === 'CLEARANCE') {
+      await einvoiceSubmissionQueue.process(submission.id)
+      submission = await einvoiceSubmissionQueue.get(tenantId, submission.id)
     }
 
-    // Update invoice with submission details
-    if (submitResult.success) {
-      await prisma.invoice.update({
-        where: { id: validated.invoiceId },
-        data: {
-          status: 'SUBMITTED' as InvoiceStatus,
-        },
-      })
-    }
-
-    // Log audit event
     await logAuditSafe({
       action: 'einvoicing:submit',
       details: {
         invoiceId: validated.invoiceId,
         country: validated.country,
-        success: submitResult.success,
-        reference: submitResult.referenceNumber || submitResult.etaUuid,
+        submissionId: submission.id,
+        status: submission.status,
       },
     }).catch(() => {})
 
-    return NextResponse.json(
-      {
-        success: submitResult.success,
-        message: submitResult.message,
-        reference: submitResult.referenceNumber || submitResult.etaUuid,
-        errors: submitResult.errors || [],
-      },
-      { status: submitResult.success ? 200 : 400 }
-    )
+    const pending = PENDING_STATUSES.includes(submission.status as SubmissionStatus)
+    return NextResponse.json({ success: true, data: submission }, { status: pending ? 202 : 200 })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -191,6 +70,11 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       )
     }
 
+    const status = submissionErrorStatus(error) ?? zatcaErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
     logger.error('E-invoicing submission error', { invoiceId: validated?.invoiceId }, error instanceof Error ? error : new Error(String(error)))
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
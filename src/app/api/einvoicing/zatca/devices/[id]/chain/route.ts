@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { zatcaErrorStatus, zatcaService } from '@/lib/einvoicing/zatca-service'
+
+/**
+ * GET /api/einvoicing/zatca/devices/[id]/chain
+ * Verify the device's ICV sequence and invoice hash chain
+ */
+export const GET = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const report = await zatcaService.verifyChain(ctx.tenantId, params.id)
+    return NextResponse.json({ success: true, data: report })
+  } catch (error) {
+    const status = zatcaErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('ZATCA chain verification error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
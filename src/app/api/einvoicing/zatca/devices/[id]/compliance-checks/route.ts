@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { zatcaErrorStatus } from '@/lib/einvoicing/zatca-service'
+import { zatcaOnboardingService } from '@/lib/einvoicing/zatca-onboarding'
+
+/**
+ * POST /api/einvoicing/zatca/devices/[id]/compliance-checks
+ * Sign and submit the compliance invoice suite
+ */
+export const POST = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const result = await zatcaOnboardingService.runComplianceChecks(ctx.tenantId, ctx.userId, params.id)
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    const status = zatcaErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('ZATCA compliance checks error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { zatcaErrorStatus } from '@/lib/einvoicing/zatca-service'
+import { zatcaOnboardingService } from '@/lib/einvoicing/zatca-onboarding'
+import { ZATCAOTPSchema } from '@/schemas/einvoicing'
+
+/**
+ * POST /api/einvoicing/zatca/devices/[id]/compliance-csid
+ * Exchange the CSR and a Fatoora portal OTP for a compliance CSID
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const { otp } = ZATCAOTPSchema.parse(await request.json().catch(() => ({})))
+    const result = await zatcaOnboardingService.requestComplianceCSID(ctx.tenantId, ctx.userId, params.id, otp)
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+    }
+    const status = zatcaErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('ZATCA compliance CSID error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { zatcaErrorStatus } from '@/lib/einvoicing/zatca-service'
+import { zatcaOnboardingService } from '@/lib/einvoicing/zatca-onboarding'
+import { ZATCACSRSchema } from '@/schemas/einvoicing'
+
+/**
+ * POST /api/einvoicing/zatca/devices/[id]/csr
+ * Generate a new key pair and CSR for the device
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const input = ZATCACSRSchema.parse(await request.json().catch(() => ({})))
+    const result = await zatcaOnboardingService.generateCSR(ctx.tenantId, ctx.userId, params.id, input)
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+    }
+    const status = zatcaErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('ZATCA CSR generation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { zatcaErrorStatus } from '@/lib/einvoicing/zatca-service'
+import { zatcaOnboardingService } from '@/lib/einvoicing/zatca-onboarding'
+
+/**
+ * GET /api/einvoicing/zatca/devices/[id]/onboarding
+ * Onboarding step, compliance results and certificate expiry
+ */
+export const GET = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const result = await zatcaOnboardingService.getStatus(ctx.tenantId, params.id)
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    const status = zatcaErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('ZATCA onboarding status error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
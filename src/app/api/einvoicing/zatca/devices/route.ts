@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { zatcaErrorStatus, zatcaService, type DeviceInput } from '@/lib/einvoicing/zatca-service'
+import { ZATCADeviceSchema } from '@/schemas/einvoicing'
+
+/**
+ * GET /api/einvoicing/zatca/devices
+ * EGS units registered for the tenant, with their current ICV
+ */
+export const GET = withTenantContext(async () => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const devices = await zatcaService.listDevices(ctx.tenantId)
+    return NextResponse.json({ success: true, data: devices })
+  } catch (error) {
+    console.error('ZATCA devices list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
+
+/**
+ * POST /api/einvoicing/zatca/devices
+ * Register an EGS unit; its hash chain starts at ICV 1
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const input = ZATCADeviceSchema.parse(await request.json().catch(() => ({}))) as DeviceInput
+    const device = await zatcaService.registerDevice(ctx.tenantId, ctx.userId, input)
+    return NextResponse.json({ success: true, data: device }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+    }
+    const status = zatcaErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('ZATCA device register error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantContext } from "@/lib/api-wrapper";
+import { requireTenantContext } from "@/lib/tenant-utils";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { ledgerPostingService } from "@/lib/accounting/posting-service";
+import { createAccount, listAccounts } from "@/lib/accounting/chart-of-accounts";
+import type { LedgerAccountInput } from "@/lib/accounting/types";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+
+const createAccountSchema = z.object({
+  code: z.string().trim().min(1).max(20),
+  name: z.string().trim().min(1).max(255),
+  type: z.enum(["ASSET", "LIABILITY", "EQUITY", "REVENUE", "EXPENSE"]),
+  subtype: z.string().trim().max(50).optional(),
+  parentId: z.string().optional(),
+  currency: z.string().length(3).optional(),
+  description: z.string().optional(),
+});
+
+/**
+ * GET /api/entities/[id]/accounts
+ * List the entity's chart of accounts (seeds the default chart on first use)
+ */
+const _api_GET = async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_VIEW)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const includeInactive =
+      request.nextUrl.searchParams.get("includeInactive") === "true";
+
+    const accounts = await listAccounts(tenantId, entityId!, includeInactive);
+
+    return NextResponse.json({ success: true, data: accounts });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("unauthorized")) {
+      return NextResponse.json(
+        { error: "Not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    logger.error("Error listing ledger accounts", { error, entityId: params.id });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+/**
+ * POST /api/entities/[id]/accounts
+ * Add a custom account to the entity's chart
+ */
+const _api_POST = async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = createAccountSchema.parse(body);
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const account = await createAccount(
+      tenantId,
+      entityId!,
+      input as LedgerAccountInput
+    );
+
+    return NextResponse.json({ success: true, data: account }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes("unauthorized")) {
+        return NextResponse.json(
+          { error: "Not found or unauthorized" },
+          { status: 404 }
+        );
+      }
+      if (
+        error.message.includes("already exists") ||
+        error.message.includes("Parent account") ||
+        error.message.includes("Invalid")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    logger.error("Error creating ledger account", { error, entityId: params.id });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withTenantContext(_api_GET, { requireAuth: true });
+export const POST = withTenantContext(_api_POST, { requireAuth: true });
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantContext } from "@/lib/api-wrapper";
+import { requireTenantContext } from "@/lib/tenant-utils";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { ledgerPostingService } from "@/lib/accounting/posting-service";
+import { fxErrorStatus, fxService } from "@/lib/accounting/fx-service";
+import { logAuditSafe } from "@/lib/observability-helpers";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+
+const revaluationSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/),
+});
+
+/**
+ * GET /api/entities/[id]/fx-revaluation?month=YYYY-MM
+ * Preview the month-end revaluation of open foreign-currency balances
+ */
+const _api_GET = async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_VIEW)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { month } = revaluationSchema.parse({
+      month: request.nextUrl.searchParams.get("month") ?? "",
+    });
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const preview = await fxService.previewRevaluation(tenantId, entityId!, month);
+
+    return NextResponse.json({ success: true, data: preview });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    const status = fxErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+
+    logger.error("Error previewing exchange revaluation", { error, entityId: params.id });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+/**
+ * POST /api/entities/[id]/fx-revaluation
+ * Post the month-end revaluation and its reversal on the first of the next month
+ */
+const _api_POST = async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { month } = revaluationSchema.parse(body);
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const result = await fxService.postRevaluation(tenantId, entityId!, month, userId);
+
+    await logAuditSafe({
+      action: "ledger:fx_revaluation.post",
+      details: { entityId, month, journalEntryId: result.journalEntryId, gainCents: result.gainCents },
+    }).catch(() => {});
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    const status = fxErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+
+    logger.error("Error posting exchange revaluation", { error, entityId: params.id });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withTenantContext(_api_GET, { requireAuth: true });
+export const POST = withTenantContext(_api_POST, { requireAuth: true });
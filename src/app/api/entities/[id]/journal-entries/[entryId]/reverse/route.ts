@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantContext } from "@/lib/api-wrapper";
+import { requireTenantContext } from "@/lib/tenant-utils";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { ledgerPostingService } from "@/lib/accounting/posting-service";
+import { logAuditSafe } from "@/lib/observability-helpers";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+
+const reverseSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+  date: z
+    .string()
+    .datetime()
+    .or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/))
+    .refine((value) => !Number.isNaN(new Date(value).getTime()), "Invalid date")
+    .optional(),
+});
+
+/**
+ * POST /api/entities/[id]/journal-entries/[entryId]/reverse
+ * Reverse a posted journal entry with a mirroring entry
+ */
+const _api_POST = async (
+  request: NextRequest,
+  { params }: { params: { id: string; entryId: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { reason, date } = reverseSchema.parse(body);
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const reversal = await ledgerPostingService.reverseJournalEntry(
+      tenantId,
+      params.entryId,
+      {
+        entityId,
+        userId,
+        reason,
+        date: date ? new Date(date) : undefined,
+      }
+    );
+
+    await logAuditSafe({
+      action: "ledger:journal_entry.reverse",
+      details: { entityId, journalEntryId: params.entryId, reversalId: reversal.id, reason },
+    }).catch(() => {});
+
+    return NextResponse.json({ success: true, data: reversal }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (
+        error.message.includes("unauthorized") ||
+        error.message === "Journal entry not found"
+      ) {
+        return NextResponse.json(
+          { error: "Not found or unauthorized" },
+          { status: 404 }
+        );
+      }
+      if (
+        error.message.includes("reversed") ||
+        error.message.startsWith("Period closed")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+    }
+
+    logger.error("Error reversing journal entry", {
+      error,
+      journalEntryId: params.entryId,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const POST = withTenantContext(_api_POST, { requireAuth: true });
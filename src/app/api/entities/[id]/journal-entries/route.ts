@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantContext } from "@/lib/api-wrapper";
+import { requireTenantContext } from "@/lib/tenant-utils";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { ledgerPostingService } from "@/lib/accounting/posting-service";
+import type { JournalLineInput } from "@/lib/accounting/types";
+import { logAuditSafe } from "@/lib/observability-helpers";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+
+const journalLineSchema = z.object({
+  accountId: z.string().min(1),
+  debitCents: z.number().int().nonnegative().optional(),
+  creditCents: z.number().int().nonnegative().optional(),
+  description: z.string().optional(),
+});
+
+const createJournalEntrySchema = z.object({
+  date: z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  description: z.string().trim().min(1).max(500),
+  currency: z.string().length(3).optional(),
+  lines: z.array(journalLineSchema).min(2),
+});
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const d = new Date(value);
+  return Number.isFinite(d.getTime()) ? d : undefined;
+}
+
+/**
+ * GET /api/entities/[id]/journal-entries
+ * List journal entries for an entity
+ */
+const _api_GET = async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_VIEW)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+
+    const { entries, total } = await ledgerPostingService.listJournalEntries(
+      tenantId,
+      entityId!,
+      {
+        from: parseDate(searchParams.get("from")),
+        to: parseDate(searchParams.get("to")),
+        sourceType: searchParams.get("sourceType") || undefined,
+        limit: searchParams.get("limit") ? parseInt(searchParams.get("limit")!) : 50,
+        offset: searchParams.get("offset") ? parseInt(searchParams.get("offset")!) : 0,
+      }
+    );
+
+    return NextResponse.json({ success: true, data: entries, total });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("unauthorized")) {
+      return NextResponse.json(
+        { error: "Not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    logger.error("Error listing journal entries", { error, entityId: params.id });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+/**
+ * POST /api/entities/[id]/journal-entries
+ * Post a manual journal entry (must balance)
+ */
+const _api_POST = async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_POST)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = createJournalEntrySchema.parse(body);
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const entry = await ledgerPostingService.postJournalEntry({
+      tenantId,
+      entityId: entityId!,
+      date: new Date(input.date),
+      description: input.description,
+      currency: input.currency,
+      sourceType: "MANUAL",
+      createdBy: userId,
+      lines: input.lines as JournalLineInput[],
+    });
+
+    await logAuditSafe({
+      action: "ledger:journal_entry.post",
+      details: { entityId, journalEntryId: entry.id },
+    }).catch(() => {});
+
+    return NextResponse.json({ success: true, data: entry }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes("unauthorized")) {
+        return NextResponse.json(
+          { error: "Not found or unauthorized" },
+          { status: 404 }
+        );
+      }
+      if (error.message.startsWith("Journal")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      if (error.message.startsWith("Period closed")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+    }
+
+    logger.error("Error posting journal entry", { error, entityId: params.id });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withTenantContext(_api_GET, { requireAuth: true });
+export const POST = withTenantContext(_api_POST, { requireAuth: true });
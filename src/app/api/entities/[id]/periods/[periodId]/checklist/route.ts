@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantContext } from "@/lib/api-wrapper";
+import { requireTenantContext } from "@/lib/tenant-utils";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { ledgerPostingService } from "@/lib/accounting/posting-service";
+import { periodCloseService } from "@/lib/accounting/period-close";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET /api/entities/[id]/periods/[periodId]/checklist
+ * Run the pre-close checklist for a period
+ */
+const _api_GET = async (
+  request: NextRequest,
+  { params }: { params: { id: string; periodId: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_VIEW)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const checklist = await periodCloseService.runChecklist(
+      tenantId,
+      entityId!,
+      params.periodId
+    );
+
+    return NextResponse.json({ success: true, data: checklist });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message.includes("unauthorized") ||
+        error.message === "Accounting period not found")
+    ) {
+      return NextResponse.json(
+        { error: "Not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    logger.error("Error running period close checklist", {
+      error,
+      periodId: params.periodId,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withTenantContext(_api_GET, { requireAuth: true });
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantContext } from "@/lib/api-wrapper";
+import { requireTenantContext } from "@/lib/tenant-utils";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { ledgerPostingService } from "@/lib/accounting/posting-service";
+import { periodCloseService } from "@/lib/accounting/period-close";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+
+const closeSchema = z.object({
+  force: z.boolean().optional(),
+});
+
+/**
+ * POST /api/entities/[id]/periods/[periodId]/close
+ * Close a period once its checklist passes (or with force)
+ */
+const _api_POST = async (
+  request: NextRequest,
+  { params }: { params: { id: string; periodId: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_CLOSE_PERIOD)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { force } = closeSchema.parse(body);
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const period = await periodCloseService.closePeriod(
+      tenantId,
+      entityId!,
+      params.periodId,
+      userId,
+      { force }
+    );
+
+    return NextResponse.json({ success: true, data: period });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (
+        error.message.includes("unauthorized") ||
+        error.message === "Accounting period not found"
+      ) {
+        return NextResponse.json(
+          { error: "Not found or unauthorized" },
+          { status: 404 }
+        );
+      }
+      if (
+        error.message === "Accounting period is already closed" ||
+        error.message.startsWith("Period close checklist")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+    }
+
+    logger.error("Error closing accounting period", {
+      error,
+      periodId: params.periodId,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const POST = withTenantContext(_api_POST, { requireAuth: true });
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantContext } from "@/lib/api-wrapper";
+import { requireTenantContext } from "@/lib/tenant-utils";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { ledgerPostingService } from "@/lib/accounting/posting-service";
+import { periodCloseService } from "@/lib/accounting/period-close";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+
+const reopenSchema = z
+  .object({
+    approvalId: z.string().min(1).optional(),
+    approverId: z.string().min(1).optional(),
+    reason: z.string().trim().min(1).max(500).optional(),
+  })
+  .refine((v) => Boolean(v.approvalId) || Boolean(v.approverId && v.reason), {
+    message: "Provide approvalId, or approverId and reason",
+  });
+
+/**
+ * POST /api/entities/[id]/periods/[periodId]/reopen
+ * With { approverId, reason }: request an Approval to re-open the period.
+ * With { approvalId }: re-open the period once that Approval is approved.
+ */
+const _api_POST = async (
+  request: NextRequest,
+  { params }: { params: { id: string; periodId: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_CLOSE_PERIOD)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = reopenSchema.parse(body);
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+
+    if (input.approvalId) {
+      const period = await periodCloseService.reopenPeriod(
+        tenantId,
+        entityId!,
+        params.periodId,
+        userId,
+        input.approvalId
+      );
+      return NextResponse.json({ success: true, data: period });
+    }
+
+    const approval = await periodCloseService.requestReopen(
+      tenantId,
+      entityId!,
+      params.periodId,
+      userId,
+      { approverId: input.approverId!, reason: input.reason! }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: approval,
+        message: "Re-open request sent for approval",
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (
+        error.message.includes("unauthorized") ||
+        error.message === "Accounting period not found" ||
+        error.message === "Approval not found" ||
+        error.message === "Approver not found"
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.startsWith("Invalid approver")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      if (
+        error.message === "Accounting period is not closed" ||
+        error.message.startsWith("Re-opening requires") ||
+        error.message.startsWith("Approval has already been used")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+    }
+
+    logger.error("Error re-opening accounting period", {
+      error,
+      periodId: params.periodId,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const POST = withTenantContext(_api_POST, { requireAuth: true });
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantContext } from "@/lib/api-wrapper";
+import { requireTenantContext } from "@/lib/tenant-utils";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import { ledgerPostingService } from "@/lib/accounting/posting-service";
+import { periodCloseService } from "@/lib/accounting/period-close";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const createPeriodSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  startDate: dateSchema,
+  endDate: dateSchema,
+});
+
+/**
+ * GET /api/entities/[id]/periods
+ * List the entity's accounting periods
+ */
+const _api_GET = async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_VIEW)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const periods = await periodCloseService.listPeriods(tenantId, entityId!);
+
+    return NextResponse.json({ success: true, data: periods });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("unauthorized")) {
+      return NextResponse.json(
+        { error: "Not found or unauthorized" },
+        { status: 404 }
+      );
+    }
+
+    logger.error("Error listing accounting periods", { error, entityId: params.id });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+/**
+ * POST /api/entities/[id]/periods
+ * Define an accounting period (inclusive dates, no overlaps)
+ */
+const _api_POST = async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_CLOSE_PERIOD)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = createPeriodSchema.parse(body);
+
+    const entityId = await ledgerPostingService.resolveEntityId(tenantId, params.id);
+    const period = await periodCloseService.createPeriod(
+      tenantId,
+      entityId!,
+      {
+        name: input.name,
+        startDate: new Date(`${input.startDate}T00:00:00.000Z`),
+        endDate: new Date(`${input.endDate}T23:59:59.999Z`),
+      },
+      userId
+    );
+
+    return NextResponse.json({ success: true, data: period }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes("unauthorized")) {
+        return NextResponse.json(
+          { error: "Not found or unauthorized" },
+          { status: 404 }
+        );
+      }
+      if (error.message.startsWith("Invalid period")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    logger.error("Error creating accounting period", { error, entityId: params.id });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withTenantContext(_api_GET, { requireAuth: true });
+export const POST = withTenantContext(_api_POST, { requireAuth: true });
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withTenantContext } from "@/lib/api-wrapper";
+import { requireTenantContext } from "@/lib/tenant-utils";
+import { hasPermission, PERMISSIONS } from "@/lib/permissions";
+import {
+  financialStatementsService,
+  STATEMENT_TYPES,
+  type StatementOptions,
+} from "@/lib/accounting/statements-service";
+import { exportStatement } from "@/lib/accounting/statement-export";
+import type { StatementType } from "@/lib/accounting/types";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+
+const dateParam = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+  .transform((value) => new Date(`${value}T00:00:00.000Z`));
+
+const querySchema = z.object({
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  consolidate: z.enum(["true", "false"]).optional(),
+  compare: z.enum(["previous-period", "previous-year"]).optional(),
+  compareFrom: dateParam.optional(),
+  compareTo: dateParam.optional(),
+  format: z.enum(["json", "pdf", "xlsx", "csv"]).optional(),
+});
+
+/**
+ * GET /api/entities/[id]/statements/[type]
+ * Build a financial statement (trial-balance, income-statement,
+ * balance-sheet or cash-flow) as JSON or as a PDF/XLSX/CSV export
+ */
+const _api_GET = async (
+  request: NextRequest,
+  { params }: { params: { id: string; type: string } }
+) => {
+  try {
+    const ctx = requireTenantContext();
+    const { userId, tenantId } = ctx;
+
+    if (!userId || !tenantId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.LEDGER_VIEW)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (!STATEMENT_TYPES.includes(params.type as StatementType)) {
+      return NextResponse.json(
+        { error: `Unknown statement type. Supported: ${STATEMENT_TYPES.join(", ")}` },
+        { status: 404 }
+      );
+    }
+
+    const query = querySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+
+    if (Boolean(query.compareFrom) !== Boolean(query.compareTo)) {
+      return NextResponse.json(
+        { error: "compareFrom and compareTo must be provided together" },
+        { status: 400 }
+      );
+    }
+
+    const options: StatementOptions = {
+      from: query.from,
+      to: query.to,
+      consolidate: query.consolidate === "true",
+      compare:
+        query.compareFrom && query.compareTo
+          ? { from: query.compareFrom, to: query.compareTo }
+          : query.compare,
+    };
+
+    const statement = await financialStatementsService.getStatement(
+      tenantId,
+      params.id,
+      params.type as StatementType,
+      options
+    );
+
+    const format = query.format || "json";
+    if (format === "json") {
+      return NextResponse.json({ success: true, data: statement });
+    }
+
+    const { content, contentType, filename } = exportStatement(
+      statement,
+      format,
+      tenantId,
+      userId
+    );
+
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes("unauthorized")) {
+        return NextResponse.json(
+          { error: "Not found or unauthorized" },
+          { status: 404 }
+        );
+      }
+      if (error.message.startsWith("Invalid period") || error.message.startsWith("Cannot consolidate")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    logger.error("Error building financial statement", {
+      error,
+      entityId: params.id,
+      type: params.type,
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+};
+
+export const GET = withTenantContext(_api_GET, { requireAuth: true });
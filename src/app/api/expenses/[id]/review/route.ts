@@ -0,0 +1,57 @@
+import { z } from 'zod'
+import { NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { expenseIngestService } from '@/lib/services/expenses/expense-ingest-service'
+
+export const runtime = 'nodejs'
+
+const ReviewPayload = z.object({
+  action: z.enum(['confirm', 'reject', 'correct', 'withdraw']),
+  merchant: z.string().trim().min(1).max(120).optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  total: z.number().min(0).max(1_000_000).optional(),
+  tax: z.number().min(0).max(1_000_000).optional(),
+  category: z.string().min(1).max(60).optional(),
+})
+
+// POST /api/expenses/[id]/review - confirm or reject a queued expense; submitters correct or withdraw their own
+export const POST = withTenantContext(async (req: Request, context: { params: Promise<{ id: string }> }) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const parsed = ReviewPayload.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid input', details: parsed.error.flatten() }, { status: 400 })
+  }
+  const input = parsed.data
+
+  const { id } = await context.params
+  const canManage = hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)
+
+  try {
+    const expense = await expenseIngestService.resolveReview(ctx.tenantId, ctx.userId, id, {
+      action: input.action!,
+      merchant: input.merchant,
+      date: input.date,
+      totalCents: input.total === undefined ? undefined : Math.round(input.total * 100),
+      taxCents: input.tax === undefined ? undefined : Math.round(input.tax * 100),
+      category: input.category,
+    }, { scopeUserId: canManage ? undefined : ctx.userId })
+    return NextResponse.json({ success: true, data: expense })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (message === 'Expense not found') {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+    if (message === 'Submitters cannot review their own expense' || message === 'Only the submitter can withdraw an expense') {
+      return NextResponse.json({ error: message }, { status: 403 })
+    }
+    if (message === 'Expense is not awaiting review' || message.startsWith('Period closed')) {
+      return NextResponse.json({ error: message }, { status: 409 })
+    }
+    console.error('Error reviewing expense:', error)
+    return NextResponse.json({ error: 'Failed to review expense' }, { status: 500 })
+  }
+}, { requireAuth: true })
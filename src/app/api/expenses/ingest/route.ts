@@ -1,53 +1,136 @@
 import { z } from 'zod'
 import { NextResponse } from 'next/server'
+import { fileTypeFromBuffer } from 'file-type'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { expenseIngestService } from '@/lib/services/expenses/expense-ingest-service'
 
 export const runtime = 'nodejs'
 
+const MAX_FILE_SIZE = 8 * 1024 * 1024
+const ALLOWED_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'application/pdf']
+
+// Receipt fields are optional when a file is attached; OCR fills the gaps
 const Fields = z.object({
-  merchant: z.string().min(1).max(120),
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-  total: z.number().min(0).max(1_000_000),
-  tax: z.number().min(0).max(1_000_000).default(0),
-  currency: z.string().min(1).max(10).default('USD'),
+  merchant: z.string().trim().min(1).max(120).optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  total: z.coerce.number().min(0).max(1_000_000).optional(),
+  tax: z.coerce.number().min(0).max(1_000_000).optional(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/).optional(),
   category: z.string().min(1).max(60).default('general'),
-  notes: z.string().max(500).default('')
+  notes: z.string().max(500).default(''),
 })
 
-const Payload = z.object({
-  fileName: z.string().min(1).max(200),
-  contentType: z.string().min(1).max(100),
-  size: z.number().min(1).max(8 * 1024 * 1024),
-  fields: Fields
+const JsonPayload = z.object({
+  entityId: z.string().optional(),
+  fields: Fields.refine((f) => f.merchant && f.date && f.total !== undefined, {
+    message: 'merchant, date and total are required without a receipt file',
+  }),
 })
 
+const toCents = (value?: number) => (value === undefined ? undefined : Math.round(value * 100))
+
 export const POST = withTenantContext(async (req: Request) => {
-  let body: unknown
-  try {
-    body = await req.json()
-  } catch {
-    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
-  }
-  const parsed = Payload.safeParse(body)
-  if (!parsed.success) {
-    return NextResponse.json({ error: 'Invalid input', details: parsed.error.flatten() }, { status: 400 })
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  let fields: z.infer<typeof Fields>
+  let entityId: string | undefined
+  let file: { buffer: Buffer; name: string; contentType: string } | null = null
+
+  const contentType = req.headers.get('content-type') || ''
+  if (contentType.toLowerCase().includes('multipart/form-data')) {
+    const form = await req.formData()
+    const upload = form.get('file')
+    if (!(upload instanceof Blob)) {
+      return NextResponse.json({ error: 'Missing file' }, { status: 400 })
+    }
+    if (upload.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File too large (max 8MB)' }, { status: 413 })
+    }
+
+    const buffer = Buffer.from(await upload.arrayBuffer())
+    const sniff = await fileTypeFromBuffer(buffer).catch(() => null as any)
+    const detected = sniff?.mime || upload.type || ''
+    if (!ALLOWED_TYPES.includes(detected)) {
+      return NextResponse.json({ error: 'Unsupported file type' }, { status: 415 })
+    }
+    file = { buffer, name: typeof (upload as any).name === 'string' ? (upload as any).name : 'receipt', contentType: detected }
+
+    const raw: Record<string, string> = {}
+    for (const key of Object.keys(Fields.shape)) {
+      const value = form.get(key)
+      if (typeof value === 'string' && value.trim() !== '') raw[key] = value
+    }
+    const parsed = Fields.safeParse(raw)
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid input', details: parsed.error.flatten() }, { status: 400 })
+    }
+    fields = parsed.data
+    entityId = (form.get('entityId') as string | null) || undefined
+  } else {
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+    const parsed = JsonPayload.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid input', details: parsed.error.flatten() }, { status: 400 })
+    }
+    fields = parsed.data.fields as z.infer<typeof Fields>
+    entityId = parsed.data.entityId
   }
 
-  const { fields, fileName, contentType, size } = parsed.data
-  const id = crypto.randomUUID?.() || Math.random().toString(36).slice(2)
+  try {
+    const expense = await expenseIngestService.ingest(ctx.tenantId, ctx.userId, {
+      file,
+      entityId: entityId ?? null,
+      fields: {
+        merchant: fields.merchant,
+        date: fields.date,
+        totalCents: toCents(fields.total),
+        taxCents: toCents(fields.tax),
+        currency: fields.currency?.toUpperCase(),
+        category: fields.category,
+        notes: fields.notes,
+      },
+    })
 
-  // In a real implementation, we would persist to DB and link to uploaded file/attachment.
-  // For now, return a deterministic response useful for UI and tests.
-  return NextResponse.json({
-    success: true,
-    data: {
-      id,
-      fields,
-      file: { name: fileName, contentType, size }
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: expense.id,
+        expense,
+        review: { status: expense.reviewStatus, fields: expense.reviewFields, flags: expense.policyFlags },
+      },
+    }, { status: 201 })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (message === 'Entity not found or unauthorized') {
+      return NextResponse.json({ error: message }, { status: 404 })
     }
-  })
-}, { requireAuth: false })
+    if (message.startsWith('Period closed')) {
+      return NextResponse.json({ error: message }, { status: 409 })
+    }
+    if (message === 'Receipt failed antivirus scan') {
+      return NextResponse.json({ error: message }, { status: 422 })
+    }
+    if (message === 'Antivirus scan unavailable') {
+      return NextResponse.json({ error: 'Antivirus scan unavailable, try again later' }, { status: 503 })
+    }
+    if (message === 'Receipt storage unavailable') {
+      return NextResponse.json({
+        error: 'No storage provider configured',
+        hint: 'Set UPLOADS_PROVIDER and provider credentials to store receipts',
+      }, { status: 501 })
+    }
+    console.error('Error ingesting expense:', error)
+    return NextResponse.json({ error: 'Failed to save expense' }, { status: 500 })
+  }
+}, { requireAuth: true })
 
 export const GET = withTenantContext(async () => {
-  return NextResponse.json({ schema: 'POST { fileName:string, contentType:string, size:number<=8MB, fields:{ merchant,date, total, tax, currency, category, notes? } } -> { success, data:{ id, fields, file } }' })
+  return NextResponse.json({ schema: 'POST multipart/form-data { file:png|jpeg|webp|pdf<=8MB, merchant?, date?, total?, tax?, currency?, category?, notes?, entityId? } or JSON { fields:{ merchant, date, total, tax?, currency?, category?, notes? }, entityId? } -> { success, data:{ id, expense, review:{ status, fields, flags } } }' })
 }, { requireAuth: false })
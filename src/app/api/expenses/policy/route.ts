@@ -0,0 +1,48 @@
+import { z } from 'zod'
+import { NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { expenseIngestService } from '@/lib/services/expenses/expense-ingest-service'
+
+export const runtime = 'nodejs'
+
+const PolicyPayload = z.object({
+  receiptRequiredAboveCents: z.number().int().min(0).optional(),
+  categoryLimits: z.record(z.string().min(1).max(60), z.number().int().min(0)).optional(),
+  flagWeekendSpend: z.boolean().optional(),
+  reviewConfidence: z.number().min(0).max(1).optional(),
+})
+
+export const GET = withTenantContext(async () => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    return NextResponse.json({ success: true, data: await expenseIngestService.getPolicy(ctx.tenantId) })
+  } catch (error) {
+    console.error('Error fetching expense policy:', error)
+    return NextResponse.json({ error: 'Failed to fetch expense policy' }, { status: 500 })
+  }
+}, { requireAuth: true })
+
+export const PUT = withTenantContext(async (req: Request) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const parsed = PolicyPayload.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid input', details: parsed.error.flatten() }, { status: 400 })
+  }
+
+  try {
+    const policy = await expenseIngestService.updatePolicy(ctx.tenantId, ctx.userId, parsed.data)
+    return NextResponse.json({ success: true, data: policy })
+  } catch (error) {
+    console.error('Error updating expense policy:', error)
+    return NextResponse.json({ error: 'Failed to update expense policy' }, { status: 500 })
+  }
+}, { requireAuth: true })
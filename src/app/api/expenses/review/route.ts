@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { expenseIngestService } from '@/lib/services/expenses/expense-ingest-service'
+
+export const runtime = 'nodejs'
+
+// GET /api/expenses/review - expenses with low-confidence fields or policy flags
+export const GET = withTenantContext(async (req: Request) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { searchParams } = new URL(req.url)
+  const limit = Math.min(100, Math.max(1, Number(searchParams.get('limit')) || 50))
+  const offset = Math.max(0, Number(searchParams.get('offset')) || 0)
+  // Team managers review the whole tenant; everyone else sees their own submissions
+  const scopeUserId = hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE) ? undefined : ctx.userId
+
+  try {
+    const { expenses, total } = await expenseIngestService.listReviewQueue(ctx.tenantId, { userId: scopeUserId, limit, offset })
+    return NextResponse.json({ success: true, data: { expenses, total, limit, offset } })
+  } catch (error) {
+    console.error('Error fetching expense review queue:', error)
+    return NextResponse.json({ error: 'Failed to fetch review queue' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,63 @@
+import { z } from 'zod'
+import { NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { recurringInvoiceService } from '@/lib/invoicing/recurring-service'
+
+export const runtime = 'nodejs'
+
+const StatusPayload = z.object({
+  status: z.enum(['ACTIVE', 'PAUSED', 'CANCELLED']),
+})
+
+export const GET = withTenantContext(async (_req: Request, context: { params: Promise<{ id: string }> }) => {
+  const ctx = requireTenantContext()
+  if (!ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const { id } = await context.params
+  try {
+    const schedule = await recurringInvoiceService.get(ctx.tenantId, id)
+    return NextResponse.json({ success: true, data: schedule })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Recurring invoice not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error('Error fetching recurring invoice:', error)
+    return NextResponse.json({ error: 'Failed to fetch recurring invoice' }, { status: 500 })
+  }
+}, { requireAuth: true })
+
+// PATCH /api/invoicing/sequences/[id] - pause, resume or cancel a schedule
+export const PATCH = withTenantContext(async (req: Request, context: { params: Promise<{ id: string }> }) => {
+  const ctx = requireTenantContext()
+  if (!ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const parsed = StatusPayload.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid input', details: parsed.error.flatten() }, { status: 400 })
+  }
+
+  const { id } = await context.params
+  try {
+    const schedule = await recurringInvoiceService.setStatus(ctx.tenantId, id, parsed.data.status)
+    return NextResponse.json({ success: true, data: schedule })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Recurring invoice not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      if (error.message.startsWith('Recurring invoice is')) {
+        return NextResponse.json({ error: error.message }, { status: 409 })
+      }
+    }
+    console.error('Error updating recurring invoice:', error)
+    return NextResponse.json({ error: 'Failed to update recurring invoice' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -1,33 +1,54 @@
 import { z } from 'zod'
 import { NextResponse } from 'next/server'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { recurringInvoiceService } from '@/lib/invoicing/recurring-service'
 
 export const runtime = 'nodejs'
 
-const Payload = z.object({
-  name: z.string().min(1).max(120),
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-  cadence: z.enum(['weekly', 'monthly', 'quarterly']),
-  amount: z.number().min(0).max(1_000_000),
-  currency: z.string().regex(/^[A-Z]{3}$/),
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+const Item = z.object({
+  description: z.string().min(1).max(500),
+  quantity: z.number().int().min(1).default(1),
+  unitPriceCents: z.number().int().min(0),
 })
 
-function nextRuns(start: string, cadence: 'weekly' | 'monthly' | 'quarterly', count = 3): string[] {
-  const base = new Date(start + 'T00:00:00Z')
-  const dates: string[] = []
-  const d = new Date(base)
-  for (let i = 0; i < count; i++) {
-    if (i > 0) {
-      if (cadence === 'weekly') d.setUTCDate(d.getUTCDate() + 7)
-      if (cadence === 'monthly') d.setUTCMonth(d.getUTCMonth() + 1)
-      if (cadence === 'quarterly') d.setUTCMonth(d.getUTCMonth() + 3)
-    }
-    dates.push(d.toISOString().slice(0, 10))
-  }
-  return dates
+const Payload = z
+  .object({
+    name: z.string().min(1).max(120),
+    startDate: dateString,
+    cadence: z.enum(['weekly', 'monthly', 'quarterly', 'annual', 'custom']),
+    rrule: z.string().max(200).optional(),
+    currency: z.string().regex(/^[A-Z]{3}$/),
+    // Single-line shorthand kept for the billing sequences form
+    amount: z.number().min(0).max(1_000_000).optional(),
+    items: z.array(Item).min(1).optional(),
+    clientId: z.string().optional(),
+    entityId: z.string().optional(),
+    anchorDate: dateString.optional(),
+    endDate: dateString.optional(),
+    maxOccurrences: z.number().int().min(1).optional(),
+    prorate: z.boolean().optional(),
+    autoSend: z.boolean().optional(),
+    autoCharge: z.boolean().optional(),
+    paymentMethodId: z.string().optional(),
+  })
+  .refine((v) => v.items || v.amount !== undefined, { message: 'Provide items or amount', path: ['items'] })
+  .refine((v) => v.cadence !== 'custom' || Boolean(v.rrule), { message: 'rrule is required for custom cadence', path: ['rrule'] })
+
+function utcDate(value: string): Date {
+  return new Date(value + 'T00:00:00Z')
 }
 
 export const POST = withTenantContext(async (req: Request) => {
+  const ctx = requireTenantContext()
+  if (!ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_CREATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
   let body: unknown
   try {
     body = await req.json()
@@ -39,17 +60,63 @@ export const POST = withTenantContext(async (req: Request) => {
     return NextResponse.json({ error: 'Invalid input', details: parsed.error.flatten() }, { status: 400 })
   }
   const data = parsed.data
-  const id = crypto.randomUUID?.() || Math.random().toString(36).slice(2)
-  return NextResponse.json({
-    success: true,
-    data: {
-      id,
-      preview: nextRuns(data.startDate, data.cadence),
-      ...data,
+
+  const items = data.items
+    ? data.items.map((item) => ({ description: item.description, quantity: item.quantity ?? 1, unitPriceCents: item.unitPriceCents }))
+    : [{ description: data.name, quantity: 1, unitPriceCents: Math.round((data.amount || 0) * 100) }]
+
+  try {
+    const schedule = await recurringInvoiceService.create(ctx.tenantId, ctx.userId ?? null, {
+      name: data.name,
+      currency: data.currency,
+      cadence: data.cadence.toUpperCase() as 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ANNUAL' | 'CUSTOM',
+      rrule: data.rrule,
+      startDate: utcDate(data.startDate),
+      anchorDate: data.anchorDate ? utcDate(data.anchorDate) : null,
+      endDate: data.endDate ? utcDate(data.endDate) : null,
+      maxOccurrences: data.maxOccurrences ?? null,
+      clientId: data.clientId ?? null,
+      entityId: data.entityId ?? null,
+      prorate: data.prorate,
+      autoSend: data.autoSend,
+      autoCharge: data.autoCharge,
+      paymentMethodId: data.paymentMethodId ?? null,
+      items,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { ...schedule, preview: schedule.preview.map((d) => d.toISOString().slice(0, 10)) },
+    }, { status: 201 })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (message.startsWith('Invalid schedule') || message.startsWith('Invalid RRULE')) {
+      return NextResponse.json({ error: message }, { status: 400 })
     }
-  })
-}, { requireAuth: false })
+    if (message.endsWith('not found') || message.includes('unauthorized')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+    console.error('Error creating recurring invoice:', error)
+    return NextResponse.json({ error: 'Failed to create recurring invoice' }, { status: 500 })
+  }
+}, { requireAuth: true })
 
-export const GET = withTenantContext(async () => {
-  return NextResponse.json({ schema: "POST { name,startDate(YYYY-MM-DD),cadence('weekly'|'monthly'|'quarterly'),amount,currency(AAA) } -> { success, data:{ id, preview:string[], ...input } }" })
-}, { requireAuth: false })
+export const GET = withTenantContext(async (req: Request) => {
+  const ctx = requireTenantContext()
+  if (!ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const status = new URL(req.url).searchParams.get('status') || undefined
+    const schedules = await recurringInvoiceService.list(ctx.tenantId, { status: status?.toUpperCase() })
+    return NextResponse.json({
+      success: true,
+      data: schedules.map((s) => ({ ...s, preview: s.preview.map((d) => d.toISOString().slice(0, 10)) })),
+    })
+  } catch (error) {
+    console.error('Error listing recurring invoices:', error)
+    return NextResponse.json({ error: 'Failed to list recurring invoices' }, { status: 500 })
+  }
+}, { requireAuth: true })
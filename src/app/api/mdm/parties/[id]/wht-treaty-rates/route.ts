@@ -0,0 +1,128 @@
+/**
+ * Master Data Management - Party Withholding Tax Treaty Rates API
+ *
+ * Treaty rates that replace the statutory KSA withholding tax rate for a
+ * non-resident party, per payment type. Bills from the party pick them up
+ * when their lines are computed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenantContext } from '@/lib/api-wrapper';
+import { tenantContext } from '@/lib/tenant-context';
+import { logger } from '@/lib/logger';
+import { z } from 'zod';
+import { WHT_PAYMENT_TYPES } from '@/lib/tax-workflows/ksa-wht';
+import {
+  ksaWithholdingTaxService,
+  withholdingTaxErrorStatus,
+  type TreatyRateInput,
+} from '@/lib/tax-workflows/wht-service';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const TreatyRatesSchema = z.object({
+  rates: z
+    .array(
+      z
+        .object({
+          paymentType: z.enum(WHT_PAYMENT_TYPES),
+          rate: z.number().min(0).max(100),
+          treatyCountry: z.string().length(2).toUpperCase().optional(),
+          residencyCertificate: z.string().max(255).optional(),
+          validFrom: isoDate,
+          validTo: isoDate.optional(),
+        })
+        .refine((rate) => !rate.validTo || rate.validFrom <= rate.validTo, {
+          message: 'validTo must not be before validFrom',
+          path: ['validTo'],
+        })
+    )
+    .max(50),
+});
+
+// ============================================================================
+// GET /api/mdm/parties/[id]/wht-treaty-rates - List a party's treaty rates
+// ============================================================================
+
+async function handleGET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const ctx = tenantContext.getContext();
+
+    // Ensure tenant context is present
+    if (!ctx.tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context is missing' },
+        { status: 400 }
+      );
+    }
+
+    const rates = await ksaWithholdingTaxService.treatyRates(ctx.tenantId, params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: rates,
+    });
+  } catch (error) {
+    const status = withholdingTaxErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+
+    logger.error('Error listing treaty rates', { error });
+    return NextResponse.json(
+      { error: 'Failed to list treaty rates' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// PUT /api/mdm/parties/[id]/wht-treaty-rates - Replace a party's treaty rates
+// ============================================================================
+
+async function handlePUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const ctx = tenantContext.getContext();
+
+    // Ensure tenant context is present
+    if (!ctx.tenantId || !ctx.userId) {
+      return NextResponse.json(
+        { error: 'Tenant context is missing' },
+        { status: 400 }
+      );
+    }
+
+    const { rates } = TreatyRatesSchema.parse(await request.json());
+    const saved = await ksaWithholdingTaxService.setTreatyRates(
+      ctx.tenantId,
+      ctx.userId,
+      params.id,
+      rates as TreatyRateInput[]
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: saved,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    const status = withholdingTaxErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+
+    logger.error('Error saving treaty rates', { error });
+    return NextResponse.json(
+      { error: 'Failed to save treaty rates' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withTenantContext(handleGET, { requireAuth: true });
+export const PUT = withTenantContext(handlePUT, { requireAuth: true });
@@ -0,0 +1,68 @@
+/**
+ * Master Data Management - Tax Code Assignment API
+ *
+ * Attaches a VAT tax code to invoice lines, bills and expenses so they are
+ * reported in the right VAT return boxes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withTenantContext } from '@/lib/api-wrapper';
+import { tenantContext } from '@/lib/tenant-context';
+import { logger } from '@/lib/logger';
+import { z } from 'zod';
+import { vatReturnErrorStatus, vatReturnService } from '@/lib/tax-workflows/vat-return-service';
+
+const AssignTaxCodeSchema = z
+  .object({
+    invoiceItemIds: z.array(z.string().min(1)).max(500).optional(),
+    billIds: z.array(z.string().min(1)).max(500).optional(),
+    expenseIds: z.array(z.string().min(1)).max(500).optional(),
+  })
+  .refine((value) => Boolean(value.invoiceItemIds?.length || value.billIds?.length || value.expenseIds?.length), {
+    message: 'Nothing to assign',
+  });
+
+// ============================================================================
+// POST /api/mdm/tax-codes/[id]/assign - Assign a tax code to documents
+// ============================================================================
+
+async function handlePOST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const ctx = tenantContext.getContext();
+
+    // Ensure tenant context is present
+    if (!ctx.tenantId || !ctx.userId) {
+      return NextResponse.json(
+        { error: 'Tenant context is missing' },
+        { status: 400 }
+      );
+    }
+
+    const data = AssignTaxCodeSchema.parse(await request.json());
+    const assigned = await vatReturnService.assignTaxCode(ctx.tenantId, ctx.userId, params.id, data);
+
+    return NextResponse.json({
+      success: true,
+      data: assigned,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    const status = vatReturnErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+
+    logger.error('Error assigning tax code', { error });
+    return NextResponse.json(
+      { error: 'Failed to assign tax code' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withTenantContext(handlePOST, { requireAuth: true });
@@ -13,6 +13,7 @@ import { tenantContext } from '@/lib/tenant-context';
 import prisma from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { z } from 'zod';
+import { VAT_TREATMENTS, type VatTreatment } from '@/lib/tax-workflows/vat-boxes';
 
 // ============================================================================
 // Validation Schemas
@@ -32,6 +33,8 @@ const CreateTaxCodeSchema = z.object({
   ]),
   country: z.string().min(2).max(2),
   taxRate: z.number().min(0).max(100),
+  // VAT return box routing; see lib/tax-workflows/vat-boxes
+  vatTreatment: z.enum(VAT_TREATMENTS as [VatTreatment, ...VatTreatment[]]).optional(),
   effectiveFrom: z.string().datetime(),
   effectiveTo: z.string().datetime().optional(),
   externalId: z.string().max(255).optional(),
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { paymentErrorStatus, paymentService } from '@/lib/payments/payment-service'
+import type { AllocationRequest } from '@/lib/payments/allocations'
+import { AllocationListSchema } from '@/schemas/payments'
+
+/**
+ * POST /api/payments/[id]/allocate
+ * Apply a payment's unapplied amount to invoices; without allocations the
+ * client's oldest open invoices are settled first
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const { allocations } = AllocationListSchema.parse(await request.json().catch(() => ({})))
+    const payment = await paymentService.allocatePayment(ctx.tenantId, ctx.userId, params.id, allocations as AllocationRequest[])
+    return NextResponse.json({ success: true, data: payment })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+    }
+    const status = paymentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('Payment allocation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
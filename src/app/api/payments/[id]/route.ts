@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { paymentErrorStatus, paymentService } from '@/lib/payments/payment-service'
+
+/**
+ * GET /api/payments/[id]
+ */
+export const GET = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const payment = await paymentService.getPayment(ctx.tenantId, params.id)
+    if (ctx.role === 'CLIENT' && payment.clientId !== ctx.userId) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, data: payment })
+  } catch (error) {
+    const status = paymentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('Payment fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
+
+/**
+ * DELETE /api/payments/[id]
+ * Void a payment recorded in error and reopen the invoices it settled
+ */
+export const DELETE = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    await paymentService.voidPayment(ctx.tenantId, ctx.userId, params.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const status = paymentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('Payment void error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { paymentErrorStatus, paymentService, type CreditNoteRefundInput } from '@/lib/payments/payment-service'
+import { CreditNoteRefundSchema } from '@/schemas/payments'
+
+/**
+ * POST /api/payments/credit-notes/[id]/refund
+ * Pay out a credit note's unapplied amount, to a Stripe payment's card when
+ * paymentId is given, otherwise recorded as refunded manually
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const input = CreditNoteRefundSchema.parse(await request.json().catch(() => ({}))) as CreditNoteRefundInput
+    const refund = await paymentService.refundCreditNote(ctx.tenantId, ctx.userId, params.id, input)
+    return NextResponse.json({ success: true, data: refund }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+    }
+    const status = paymentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('Credit note refund error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
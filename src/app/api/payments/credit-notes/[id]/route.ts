@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { paymentErrorStatus, paymentService } from '@/lib/payments/payment-service'
+
+/**
+ * GET /api/payments/credit-notes/[id]
+ */
+export const GET = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const creditNote = await paymentService.getCreditNote(ctx.tenantId, params.id)
+    if (ctx.role === 'CLIENT' && creditNote.clientId !== ctx.userId) {
+      return NextResponse.json({ error: 'Credit note not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, data: creditNote })
+  } catch (error) {
+    const status = paymentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('Credit note fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
+
+/**
+ * DELETE /api/payments/credit-notes/[id]
+ * Void a credit note and reopen the invoices it settled
+ */
+export const DELETE = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    await paymentService.voidCreditNote(ctx.tenantId, ctx.userId, params.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const status = paymentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('Credit note void error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
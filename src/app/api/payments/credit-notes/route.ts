@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { paymentErrorStatus, paymentService, type CreditNoteInput } from '@/lib/payments/payment-service'
+import { CreditNoteSchema } from '@/schemas/payments'
+
+/**
+ * GET /api/payments/credit-notes?clientId=&invoiceId=
+ * Clients only see their own credit notes
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  try {
+    const creditNotes = await paymentService.listCreditNotes(ctx.tenantId, {
+      clientId: ctx.role === 'CLIENT' ? ctx.userId : searchParams.get('clientId') || undefined,
+      invoiceId: searchParams.get('invoiceId') || undefined,
+    })
+    return NextResponse.json({ success: true, data: creditNotes })
+  } catch (error) {
+    console.error('Credit notes list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
+
+/**
+ * POST /api/payments/credit-notes
+ * Issue a credit note against an invoice, or as credit for a client
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const input = CreditNoteSchema.parse(await request.json().catch(() => ({}))) as CreditNoteInput
+    const creditNote = await paymentService.issueCreditNote(ctx.tenantId, ctx.userId, input)
+    return NextResponse.json({ success: true, data: creditNote }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+    }
+    const status = paymentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('Credit note issue error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
@@ -143,6 +143,7 @@ export const POST = withTenantContext(async (request: NextRequest) => {
         userId: ctx.userId,
         tenantId,
         paymentMethodId: validated.paymentMethodId,
+        stripeCustomerId: typeof stripePaymentMethod.customer === 'string' ? stripePaymentMethod.customer : stripePaymentMethod.customer?.id ?? null,
         type: stripePaymentMethod.type,
         isDefault: validated.setAsDefault,
         last4,
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { paymentErrorStatus, paymentService, type PaymentInput } from '@/lib/payments/payment-service'
+import { PaymentSchema } from '@/schemas/payments'
+
+/**
+ * GET /api/payments?clientId=&invoiceId=&limit=&offset=
+ * Payments with their allocations, plus the client's unapplied credit when
+ * filtered by client. Clients only see their own payments.
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_READ)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const clientId = ctx.role === 'CLIENT' ? ctx.userId : searchParams.get('clientId') || undefined
+  const invoiceId = searchParams.get('invoiceId') || undefined
+
+  try {
+    const { payments, total } = await paymentService.listPayments(ctx.tenantId, {
+      clientId,
+      invoiceId,
+      limit: Number(searchParams.get('limit')) || undefined,
+      offset: Number(searchParams.get('offset')) || undefined,
+    })
+    const credit = clientId ? await paymentService.getCustomerCredit(ctx.tenantId, clientId) : null
+    return NextResponse.json({ success: true, data: { payments, total, credit } })
+  } catch (error) {
+    console.error('Payments list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
+
+/**
+ * POST /api/payments
+ * Record a payment, allocated explicitly or to the client's oldest open invoices
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId || !ctx.tenantId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!hasPermission(ctx.role, PERMISSIONS.INVOICES_UPDATE)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const input = PaymentSchema.parse(await request.json().catch(() => ({}))) as PaymentInput
+    const payment = await paymentService.recordPayment(ctx.tenantId, ctx.userId, input)
+    return NextResponse.json({ success: true, data: payment }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 })
+    }
+    const status = paymentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+    console.error('Payment record error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}, { requireAuth: true })
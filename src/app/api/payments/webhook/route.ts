@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { logger } from '@/lib/logger'
+import { paymentService } from '@/lib/payments/payment-service'
 
 /**
  * Stripe Webhook Handler with Enhanced Security and Idempotency
@@ -152,6 +153,15 @@ async function processStripeEvent(event: any) {
       await handlePaymentSucceeded(event.data.object)
       break
 
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object)
+      break
+
+    case 'refund.updated':
+    case 'charge.refund.updated':
+      await paymentService.syncStripeRefund(event.data.object)
+      break
+
     case 'invoice.payment_succeeded':
       await handleInvoicePaymentSucceeded(event.data.object)
       break
@@ -259,8 +269,21 @@ async function handlePaymentFailed(paymentObject: any) {
  */
 async function handlePaymentSucceeded(paymentIntent: any) {
   logger.debug('Processing payment_intent.succeeded', { paymentIntentId: paymentIntent.id })
-  // Implementation depends on your payment flow
-  // This is typically handled by checkout.session.completed instead
+  // Invoice charges carry the invoice in their metadata; checkout sessions are
+  // handled by checkout.session.completed instead
+  if (paymentIntent?.metadata?.invoiceId) {
+    await paymentService.recordStripePayment(paymentIntent)
+  }
+}
+
+/**
+ * Handle refunds reported on a charge
+ */
+async function handleChargeRefunded(charge: any) {
+  logger.debug('Processing charge.refunded', { chargeId: charge.id })
+  for (const refund of charge?.refunds?.data ?? []) {
+    await paymentService.syncStripeRefund(refund)
+  }
 }
 
 /**
@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { applyRateLimit, getClientIp } from '@/lib/rate-limit'
+import { bookingResourceService } from '@/lib/booking/resources'
 
 export const runtime = 'nodejs'
 
@@ -155,6 +156,7 @@ export const POST = withTenantContext(async (req: Request) => {
         },
       },
     })
+    await bookingResourceService.allocateSafe(booking.id)
     
     const formattedBooking = {
       id: booking.id,
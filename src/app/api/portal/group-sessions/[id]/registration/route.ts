@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server'
+import { respond, zodDetails } from '@/lib/api-response'
+import { logAudit } from '@/lib/audit'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { GroupSessionRegisterSchema } from '@/schemas/shared/booking'
+import { groupSessionErrorStatus, groupSessionService } from '@/lib/booking/group-sessions'
+
+function errorResponse(e: any, fallback: string) {
+  const status = groupSessionErrorStatus(e)
+  if (status === 404) return respond.notFound(e.message)
+  if (status === 409) return respond.conflict(e.message)
+  if (status === 400) return respond.badRequest(e.message)
+  return respond.serverError(fallback, { message: String(e?.message || '') })
+}
+
+// POST /api/portal/group-sessions/[id]/registration - take seats; paid seats return a checkout URL
+export const POST = withTenantContext(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+
+  const body = await req.json().catch(() => ({}))
+  const parsed = GroupSessionRegisterSchema.safeParse(body ?? {})
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+
+  try {
+    const tenantId = String(ctx.tenantId)
+    const { attendee, invoice } = await groupSessionService.register(tenantId, ctx.userId, id, parsed.data.seats)
+    const origin = new URL(req.url).origin
+    const checkoutUrl = invoice
+      ? await groupSessionService.checkoutSafe(tenantId, ctx.userId, id, {
+          successUrl: parsed.data.successUrl || `${origin}/portal/bookings`,
+          cancelUrl: parsed.data.cancelUrl || `${origin}/portal/bookings`,
+        })
+      : null
+    try { await logAudit({ action: 'portal:group-session:register', actorId: ctx.userId, targetId: id, details: { seats: attendee.seats, invoiceId: invoice?.id ?? null } }) } catch {}
+    return respond.created({ attendee, invoice, checkoutUrl })
+  } catch (e: any) {
+    return errorResponse(e, 'Failed to register for the session')
+  }
+}, { requireAuth: true })
+
+export const DELETE = withTenantContext(async (_req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+
+  try {
+    const result = await groupSessionService.cancelRegistration(String(ctx.tenantId), ctx.userId, id, ctx.userId)
+    try { await logAudit({ action: 'portal:group-session:cancel', actorId: ctx.userId, targetId: id, details: { attendeeId: result.attendee.id } }) } catch {}
+    return respond.ok(result)
+  } catch (e: any) {
+    return errorResponse(e, 'Failed to cancel the registration')
+  }
+}, { requireAuth: true })
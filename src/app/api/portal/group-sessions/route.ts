@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server'
+import { respond } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { groupSessionErrorStatus, groupSessionService } from '@/lib/booking/group-sessions'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/portal/group-sessions?serviceId=&from=&to= - upcoming sessions with seats left and the client's own registration
+export const GET = withTenantContext(async (req: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+
+  const url = new URL(req.url)
+  const now = new Date()
+  const requested = url.searchParams.get('from') ? new Date(url.searchParams.get('from') as string) : now
+  const to = url.searchParams.get('to') ? new Date(url.searchParams.get('to') as string) : new Date(requested.getTime() + 30 * DAY_MS)
+  if (Number.isNaN(requested.getTime()) || Number.isNaN(to.getTime())) return respond.badRequest('Invalid date range')
+  const from = requested < now ? now : requested
+
+  try {
+    const sessions = await groupSessionService.list(String(ctx.tenantId), {
+      serviceId: url.searchParams.get('serviceId') || undefined,
+      from,
+      to,
+      forUserId: ctx.userId,
+    })
+    return respond.ok({ sessions })
+  } catch (e: any) {
+    if (groupSessionErrorStatus(e) === 400) return respond.badRequest(e.message)
+    return respond.serverError('Failed to load group sessions', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
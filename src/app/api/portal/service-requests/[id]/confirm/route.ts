@@ -4,7 +4,9 @@ import prisma from '@/lib/prisma'
 import { respond } from '@/lib/api-response'
 import { logAudit } from '@/lib/audit'
 import { sendBookingConfirmation } from '@/lib/email'
+import { bookingPolicyService } from '@/lib/booking/booking-policy-service'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
 import { requireTenantContext } from '@/lib/tenant-utils'
 
 export const POST = withTenantContext(async (_req: Request, context: { params: Promise<{ id: string }> }) => {
@@ -21,6 +23,8 @@ export const POST = withTenantContext(async (_req: Request, context: { params: P
 
     const updated = await prisma.booking.update({ where: { id: booking.id }, data: { status: 'CONFIRMED', confirmed: true } as any, include: { client: { select: { name: true, email: true } }, service: { select: { name: true, price: true } } } })
 
+    await calendarSyncService.syncBookingSafe(updated.id)
+
     try { await logAudit({ action: 'portal:service-request:confirm', actorId: String(ctx.userId) ?? null, targetId: String(id), details: { bookingId: booking.id } }) } catch {}
 
     try {
@@ -31,7 +35,7 @@ export const POST = withTenantContext(async (_req: Request, context: { params: P
         clientName: updated.client?.name || '',
         clientEmail: updated.client?.email || '',
         service: { name: updated.service?.name || 'Consultation', price: (updated.service as any)?.price as any }
-      })
+      }, { policyText: await bookingPolicyService.policyTextSafe(ctx.tenantId, booking.serviceId) })
     } catch {}
 
     // Persist scheduled reminders based on user preferences (if DB available)
@@ -7,7 +7,10 @@ import { logAudit } from '@/lib/audit'
 import { sendBookingConfirmation } from '@/lib/email'
 import { realtimeService } from '@/lib/realtime-enhanced'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { bookingResourceService } from '@/lib/booking/resources'
 import { requireTenantContext } from '@/lib/tenant-utils'
+import { bookingPolicyErrorStatus, bookingPolicyService } from '@/lib/booking/booking-policy-service'
 
 const BodySchema = z.object({ scheduledAt: z.string().datetime() })
 
@@ -27,6 +30,16 @@ export const POST = withTenantContext(async (req: Request, context: { params: Pr
     const booking = await prisma.booking.findFirst({ where: { serviceRequestId: id } })
     if (!booking) return respond.badRequest('No linked booking to reschedule')
 
+    // The service's policy limits how late and how often clients may move a booking
+    try {
+      await bookingPolicyService.assertCanReschedule(String(ctx.tenantId), booking.id)
+    } catch (err) {
+      const status = bookingPolicyErrorStatus(err)
+      if (status === 403) return respond.forbidden((err as Error).message)
+      if (status) return respond.badRequest((err as Error).message)
+      throw err
+    }
+
     const newStart = new Date(parsed.data.scheduledAt)
     const duration = booking.duration
 
@@ -40,6 +53,7 @@ export const POST = withTenantContext(async (req: Request, context: { params: Pr
         excludeBookingId: booking.id,
         teamMemberId: booking.assignedTeamMemberId || null,
         tenantId: ctx.tenantId,
+        clientId: booking.clientId,
       })
       if (check.conflict) return respond.conflict('Scheduling conflict detected', { reason: check.details?.reason, conflictingBookingId: check.details?.conflictingBookingId })
     } catch {}
@@ -56,6 +70,10 @@ export const POST = withTenantContext(async (req: Request, context: { params: Pr
 
     const updated = await prisma.booking.update({ where: { id: booking.id }, data: { scheduledAt: newStart }, include: { client: { select: { name: true, email: true } }, service: { select: { name: true, price: true } } } })
 
+    await bookingResourceService.allocateSafe(updated.id)
+    await calendarSyncService.syncBookingSafe(updated.id)
+    try { await bookingPolicyService.recordReschedule(String(ctx.tenantId), booking.id, booking.scheduledAt) } catch {}
+
     try { realtimeService.broadcastToUser(String(ctx.userId), { type: 'service-request-updated', data: { serviceRequestId: String(id), action: 'rescheduled' }, timestamp: new Date().toISOString() }) } catch {}
     try {
       const oldDateStr = new Date(booking.scheduledAt as any).toISOString().slice(0,10)
@@ -73,7 +91,7 @@ export const POST = withTenantContext(async (req: Request, context: { params: Pr
         clientName: updated.client?.name || '',
         clientEmail: updated.client?.email || '',
         service: { name: updated.service?.name || 'Consultation', price: (updated.service as any)?.price as any }
-      })
+      }, { policyText: await bookingPolicyService.policyTextSafe(ctx.tenantId, booking.serviceId) })
     } catch {}
 
     return respond.ok({ booking: updated })
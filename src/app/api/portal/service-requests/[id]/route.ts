@@ -7,6 +7,7 @@ import { isMultiTenancyEnabled } from '@/lib/tenant'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { logAudit } from '@/lib/audit'
+import { bookingPolicyErrorStatus, bookingPolicyService } from '@/lib/booking/booking-policy-service'
 
 export const runtime = 'nodejs'
 
@@ -76,9 +77,26 @@ export const PATCH = withTenantContext(async (req: NextRequest, context: { param
 
     if (allowed.status === 'CANCELLED' && ['IN_PROGRESS','COMPLETED','CANCELLED'].includes(existing.status as any)) return respond.badRequest('Cannot cancel at current status')
 
+    // Cancelling a scheduled request cancels its booking under the service's policy, which may charge a late fee
+    let cancellationFee = null
+    if (allowed.status === 'CANCELLED') {
+      const booking = await prisma.booking.findFirst({ where: { serviceRequestId: id, status: { notIn: ['CANCELLED', 'COMPLETED'] } as any }, select: { id: true } })
+      if (booking) {
+        try {
+          const result = await bookingPolicyService.cancelByClient(String(existing.tenantId ?? ctx.tenantId), booking.id, String(ctx.userId))
+          cancellationFee = result.fee
+        } catch (err) {
+          const status = bookingPolicyErrorStatus(err)
+          if (status === 403) return respond.forbidden((err as Error).message)
+          if (status) return respond.badRequest((err as Error).message)
+          throw err
+        }
+      }
+    }
+
     const updated = await prisma.serviceRequest.update({ where: { id }, data: allowed })
     try { const { realtimeService } = await import('@/lib/realtime-enhanced'); realtimeService.emitServiceRequestUpdate(id) } catch {}
-    return respond.ok(updated)
+    return respond.ok(cancellationFee ? { ...updated, cancellationFee } : updated)
   } catch (e: any) {
     try { const { captureError } = await import('@/lib/observability'); await captureError(e, { tags: { route: 'portal:service-requests:[id]:PATCH' } }) } catch {}
     if (String(e?.code || '').startsWith('P20')) {
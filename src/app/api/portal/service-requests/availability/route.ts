@@ -58,7 +58,18 @@ export const GET = withTenantContext(async (request: Request) => {
 
     const from = new Date(dateFrom)
     const to = new Date(dateTo)
-    const { slots } = await getAvailabilityForService({ serviceId, from, to, slotMinutes: duration, teamMemberId, options: { now: from } })
+    const { slots } = await getAvailabilityForService({ serviceId, from, to, slotMinutes: duration, teamMemberId, clientId: ctx.userId, options: { now: from } })
+
+    // Nothing free: point the client at the waitlist instead of leaving them empty-handed
+    let waitlist: { enabled: boolean } | undefined
+    if (!slots.some((s) => s.available)) {
+      try {
+        const settings = await prisma.bookingSettings.findUnique({ where: { tenantId: String(ctx.tenantId) }, select: { enableWaitlist: true } })
+        waitlist = { enabled: !!settings?.enableWaitlist }
+      } catch {
+        waitlist = { enabled: false }
+      }
+    }
 
     if (includePrice) {
       const { calculateServicePrice } = await import('@/lib/booking/pricing')
@@ -68,9 +79,9 @@ export const GET = withTenantContext(async (request: Request) => {
         const breakdown = await calculateServicePrice({ serviceId, scheduledAt: new Date(s.start), durationMinutes: slotMinutes, options: { currency } })
         return { ...s, priceCents: breakdown.totalCents, currency: breakdown.currency }
       }))
-      return respond.ok({ slots: enriched })
+      return respond.ok({ slots: enriched, ...(waitlist ? { waitlist } : {}) })
     }
-    return respond.ok({ slots })
+    return respond.ok({ slots, ...(waitlist ? { waitlist } : {}) })
   } catch (e: any) {
     const msg = String(e?.message || '')
     const code = String((e as any)?.code || '')
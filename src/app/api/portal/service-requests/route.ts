@@ -1,10 +1,11 @@
 import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import { z } from 'zod'
+import { RecurringPatternSchema } from '@/schemas/shared/booking'
 import { applyRateLimit, getClientIp } from '@/lib/rate-limit'
 import { respond, zodDetails } from '@/lib/api-response'
 import { logAudit } from '@/lib/audit'
-import { planRecurringBookings } from '@/lib/booking/recurring'
+import { planRecurringBookings, normalizeRecurringPattern, patternToRule } from '@/lib/booking/recurring'
 import { realtimeService } from '@/lib/realtime-enhanced'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext, getTenantFilter } from '@/lib/tenant-utils'
@@ -43,13 +44,7 @@ const CreateBookingSchema = CreateBase.extend({
   scheduledAt: z.string().datetime(),
   duration: z.number().int().positive().optional(),
   bookingType: z.enum(['STANDARD','RECURRING','EMERGENCY','CONSULTATION']).optional(),
-  recurringPattern: z.object({
-    frequency: z.enum(['DAILY','WEEKLY','MONTHLY']),
-    interval: z.number().int().positive().optional(),
-    count: z.number().int().positive().optional(),
-    until: z.string().datetime().optional(),
-    byWeekday: z.array(z.number().int().min(0).max(6)).optional(),
-  }).optional(),
+  recurringPattern: RecurringPatternSchema.optional(),
 })
 
 const CreateSchema = z.union([CreateRequestSchema, CreateBookingSchema])
@@ -330,6 +325,7 @@ export const POST = withTenantContext(async (request: NextRequest) => {
             excludeBookingId: undefined,
             tenantId: ctx.tenantId,
             teamMemberId: null,
+            clientId: ctx.userId,
           })
           if (check.conflict) return respond.conflict('Scheduling conflict detected', { reason: check.details?.reason, conflictingBookingId: check.details?.conflictingBookingId })
         }
@@ -356,12 +352,11 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       const svcDuration = svc?.duration ?? 60
       const durationMinutes = Number((data as any).duration ?? svcDuration)
       const rp: any = (data as any).recurringPattern
-      const normalized = {
-        frequency: String(rp.frequency) as 'DAILY'|'WEEKLY'|'MONTHLY',
-        interval: rp.interval ? Number(rp.interval) : undefined,
-        count: rp.count ? Number(rp.count) : undefined,
-        until: rp.until ? new Date(rp.until) : undefined,
-        byWeekday: Array.isArray(rp.byWeekday) ? rp.byWeekday.map((n: any) => Number(n)) : undefined,
+      const normalized = normalizeRecurringPattern(rp)
+      try {
+        patternToRule(normalized)
+      } catch (e: any) {
+        return respond.badRequest(String(e?.message || 'Invalid recurrence'))
       }
 
       const plan = await planRecurringBookings({
@@ -408,6 +403,7 @@ export const POST = withTenantContext(async (request: NextRequest) => {
           status: 'SUBMITTED',
           isBooking: true,
           scheduledAt: item.start,
+          occurrenceStart: item.start,
           duration: durationMinutes,
           bookingType: 'RECURRING' as any,
           parentBookingId: parent.id,
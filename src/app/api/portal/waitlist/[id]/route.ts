@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server'
+import { respond } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { bookingWaitlistService, waitlistErrorStatus } from '@/lib/booking/waitlist'
+
+export const DELETE = withTenantContext(async (_req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+
+  try {
+    return respond.ok(await bookingWaitlistService.leave(String(ctx.tenantId), ctx.userId, id))
+  } catch (e: any) {
+    if (waitlistErrorStatus(e) === 404) return respond.notFound(e.message)
+    return respond.serverError('Failed to leave the waitlist', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { respond, zodDetails } from '@/lib/api-response'
+import { logAudit } from '@/lib/audit'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { publishBookingCreated } from '@/lib/realtime/booking-events'
+import { bookingWaitlistService, waitlistErrorStatus } from '@/lib/booking/waitlist'
+
+const BodySchema = z.object({ action: z.enum(['accept', 'decline']) })
+
+// POST /api/portal/waitlist/offers/[id] - accept (book) or decline a held slot
+export const POST = withTenantContext(async (req: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  const { id } = await context.params
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+
+  const body = await req.json().catch(() => null)
+  const parsed = BodySchema.safeParse(body)
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+
+  try {
+    if (parsed.data.action === 'decline') {
+      return respond.ok(await bookingWaitlistService.decline(String(ctx.tenantId), ctx.userId, id))
+    }
+    const booking = await bookingWaitlistService.accept(String(ctx.tenantId), ctx.userId, id)
+    try { publishBookingCreated({ id: booking.id, serviceId: booking.serviceId, action: 'created' }) } catch {}
+    try { await logAudit({ action: 'portal:waitlist:accept', actorId: ctx.userId, targetId: id, details: { bookingId: booking.id } }) } catch {}
+    return respond.created({ booking })
+  } catch (e: any) {
+    const status = waitlistErrorStatus(e)
+    if (status === 404) return respond.notFound(e.message)
+    if (status === 409) return respond.conflict(e.message)
+    return respond.serverError('Failed to answer the waitlist offer', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
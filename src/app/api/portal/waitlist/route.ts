@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server'
+import { respond, zodDetails } from '@/lib/api-response'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { BookingWaitlistJoinSchema } from '@/schemas/shared/booking'
+import { bookingWaitlistService, waitlistErrorStatus } from '@/lib/booking/waitlist'
+
+export const GET = withTenantContext(async () => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+  return respond.ok(await bookingWaitlistService.list(String(ctx.tenantId), ctx.userId))
+}, { requireAuth: true })
+
+export const POST = withTenantContext(async (req: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+
+  const body = await req.json().catch(() => null)
+  const parsed = BookingWaitlistJoinSchema.safeParse(body)
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+
+  try {
+    const entry = await bookingWaitlistService.join(String(ctx.tenantId), ctx.userId, {
+      serviceId: parsed.data.serviceId,
+      earliestAt: new Date(parsed.data.earliestAt),
+      latestAt: new Date(parsed.data.latestAt),
+      notes: parsed.data.notes,
+    })
+    return respond.created(entry)
+  } catch (e: any) {
+    const status = waitlistErrorStatus(e)
+    if (status === 404) return respond.notFound(e.message)
+    if (status === 403) return respond.forbidden(e.message)
+    if (status === 400) return respond.badRequest(e.message)
+    return respond.serverError('Failed to join the waitlist', { message: String(e?.message || '') })
+  }
+}, { requireAuth: true })
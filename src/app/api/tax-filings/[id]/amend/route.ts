@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import {
+  taxFilingAmendmentService,
+  filingAmendmentErrorStatus,
+  type AmendmentInput,
+} from '@/lib/tax-workflows/filing-amendment-service'
+
+const AmendFilingSchema = z.object({
+  reason: z.string().trim().min(1).max(2000),
+  data: z.record(z.string(), z.any()).optional(),
+  regenerate: z.boolean().optional(),
+})
+
+/**
+ * POST /api/tax-filings/[id]/amend
+ * Start a draft amendment of a submitted filing
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = AmendFilingSchema.parse(await request.json())
+    const amendment = await taxFilingAmendmentService.createAmendment(tenantId, ctx.userId, params.id, input as AmendmentInput)
+
+    await logAuditSafe({
+      action: 'tax_filings:amend',
+      details: {
+        filingId: amendment.id,
+        amendsFilingId: params.id,
+        version: amendment.version,
+        taxAmount: amendment.taxAmount,
+      },
+    }).catch(() => {})
+
+    return NextResponse.json(
+      {
+        id: amendment.id,
+        country: amendment.country,
+        taxType: amendment.taxType,
+        status: amendment.status,
+        version: amendment.version,
+        amendsFilingId: amendment.amendsFilingId,
+        taxAmount: amendment.taxAmount,
+        createdAt: amendment.createdAt,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = filingAmendmentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('Tax filing amendment error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
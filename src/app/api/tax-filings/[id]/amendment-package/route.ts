@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { taxFilingAmendmentService, filingAmendmentErrorStatus } from '@/lib/tax-workflows/filing-amendment-service'
+
+const PackageQuerySchema = z.object({
+  // Date the disclosure is filed and the additional tax paid; defaults to today
+  asOf: z.coerce.date().optional(),
+})
+
+/**
+ * GET /api/tax-filings/[id]/amendment-package?asOf=
+ * UAE voluntary disclosure or KSA amended return for an amendment, with
+ * estimated penalties
+ */
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = PackageQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const amendmentPackage = await taxFilingAmendmentService.amendmentPackage(tenantId, params.id, query.asOf)
+    return NextResponse.json(amendmentPackage, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    const status = filingAmendmentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('Tax filing amendment package error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { taxFilingAmendmentService, filingAmendmentErrorStatus } from '@/lib/tax-workflows/filing-amendment-service'
+
+const UpdateFilingSchema = z.object({
+  data: z.record(z.string(), z.any()),
+})
+
+/**
+ * GET /api/tax-filings/[id]
+ * A filing with its data and calculations
+ */
+export const GET = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const filing = await prisma.taxFiling.findFirst({
+      where: { id: params.id, tenantId },
+    })
+    if (!filing) {
+      return NextResponse.json({ error: 'Filing not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      {
+        ...filing,
+        data: JSON.parse(filing.data),
+        calculations: JSON.parse(filing.calculations),
+        metadata: filing.metadata ? JSON.parse(filing.metadata) : null,
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Tax filing fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * PATCH /api/tax-filings/[id]
+ * Replace a draft filing's data. Submitted filings are immutable; amend
+ * them instead.
+ */
+export const PATCH = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { data } = UpdateFilingSchema.parse(await request.json())
+    const filing = await taxFilingAmendmentService.updateDraft(tenantId, ctx.userId, params.id, data)
+    return NextResponse.json(
+      { id: filing.id, status: filing.status, version: filing.version, taxAmount: filing.taxAmount, updatedAt: filing.updatedAt },
+      { status: 200 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = filingAmendmentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('Tax filing update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import prisma from '@/lib/prisma'
 import { logAuditSafe } from '@/lib/observability-helpers'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { z } from 'zod'
+import { taxFilingAmendmentService, filingAmendmentErrorStatus } from '@/lib/tax-workflows/filing-amendment-service'
 
 const SubmitFilingSchema = z.object({
   documents: z.array(z.string()).optional(),
@@ -30,44 +30,10 @@ export const POST = withTenantContext(async (
     const body = await request.json()
     const validated = SubmitFilingSchema.parse(body)
 
-    // Get filing
-    const filing = await prisma.taxFiling.findFirst({
-      where: { id, tenantId },
-    })
-
-    if (!filing) {
-      return NextResponse.json({ error: 'Filing not found' }, { status: 404 })
-    }
-
-    if (filing.status !== 'DRAFT') {
-      return NextResponse.json(
-        { error: `Cannot submit filing with status: ${filing.status}` },
-        { status: 400 }
-      )
-    }
-
-    // Update filing status
-    const submittedFiling = await prisma.taxFiling.update({
-      where: { id },
-      data: {
-        status: 'SUBMITTED',
-        submittedAt: new Date(),
-        submittedBy: ctx.userId,
-        attachmentIds: validated.documents || [],
-        metadata: JSON.stringify({
-          submissionComments: validated.comments,
-          submissionTime: new Date().toISOString(),
-          submittedByEmail: ctx.userEmail,
-        }),
-      },
-      select: {
-        id: true,
-        country: true,
-        taxType: true,
-        status: true,
-        taxAmount: true,
-        submittedAt: true,
-      },
+    const submittedFiling = await taxFilingAmendmentService.submit(tenantId, ctx.userId, id, {
+      documents: validated.documents,
+      comments: validated.comments,
+      submittedByEmail: ctx.userEmail ?? undefined,
     })
 
     // Create audit event
@@ -75,9 +41,10 @@ export const POST = withTenantContext(async (
       action: 'tax_filings:submit',
       details: {
         filingId: id,
-        country: filing.country,
-        taxType: filing.taxType,
-        taxAmount: filing.taxAmount,
+        country: submittedFiling.country,
+        taxType: submittedFiling.taxType,
+        taxAmount: submittedFiling.taxAmount,
+        version: submittedFiling.version,
         documentsCount: validated.documents?.length || 0,
       },
     }).catch(() => {})
@@ -100,6 +67,10 @@ export const POST = withTenantContext(async (
         { status: 400 }
       )
     }
+    const status = filingAmendmentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
 
     console.error('Tax filing submission error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
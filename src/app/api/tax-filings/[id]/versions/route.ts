@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { taxFilingAmendmentService, filingAmendmentErrorStatus } from '@/lib/tax-workflows/filing-amendment-service'
+
+/**
+ * GET /api/tax-filings/[id]/versions
+ * Version timeline of a filing: the original and its amendments, each with
+ * its changes from the version before
+ */
+export const GET = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const versions = await taxFilingAmendmentService.versions(tenantId, params.id)
+    return NextResponse.json({ versions }, { status: 200 })
+  } catch (error) {
+    const status = filingAmendmentErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('Tax filing versions error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { TaxGroupQuerySchema } from '@/schemas/tax-filings'
+import { corporateTaxErrorStatus, uaeCorporateTaxService } from '@/lib/tax-workflows/corporate-tax-service'
+
+/**
+ * GET /api/tax-filings/corporate-tax/group?entityId=
+ * Entities below a representative member and whether they can join its tax group
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = TaxGroupQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const members = await uaeCorporateTaxService.taxGroupCandidates(tenantId, query.entityId)
+    return NextResponse.json({ members }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    const status = corporateTaxErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('Tax group lookup error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { CorporateTaxRequestSchema } from '@/schemas/tax-filings'
+import {
+  corporateTaxErrorStatus,
+  uaeCorporateTaxService,
+  type CorporateTaxRequest,
+} from '@/lib/tax-workflows/corporate-tax-service'
+
+/**
+ * POST /api/tax-filings/corporate-tax
+ * Compute a UAE Corporate Tax return and save it as the period's draft filing
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { entityId, ...input } = CorporateTaxRequestSchema.parse(await request.json())
+    const result = await uaeCorporateTaxService.createDraftFiling(tenantId, ctx.userId, entityId, input as CorporateTaxRequest)
+    return NextResponse.json(
+      {
+        filing: {
+          id: result.filing.id,
+          status: result.filing.status,
+          taxAmount: result.filing.taxAmount,
+          periodStartDate: result.filing.periodStartDate,
+          periodEndDate: result.filing.periodEndDate,
+        },
+        schedule: result.schedule,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = corporateTaxErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('Corporate Tax filing error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -4,9 +4,7 @@ import { logAuditSafe } from '@/lib/observability-helpers'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { z } from 'zod'
-import { UAEVATWorkflow, UAEESRWorkflow, UAECorporateTaxWorkflow } from '@/lib/tax-workflows/uae-workflows'
-import { KSAVATWorkflow, KSAZakatWorkflow, KSAWHTWorkflow } from '@/lib/tax-workflows/ksa-workflows'
-import { EgyptVATWorkflow, EgyptETAWorkflow } from '@/lib/tax-workflows/egypt-workflows'
+import { calculateFiling } from '@/lib/tax-workflows/filing-calculator'
 
 const CreateFilingSchema = z.object({
   entityId: z.string().min(1),
@@ -62,6 +60,8 @@ export const GET = withTenantContext(async (request: NextRequest) => {
         periodStartDate: true,
         periodEndDate: true,
         taxAmount: true,
+        version: true,
+        amendsFilingId: true,
         submittedAt: true,
         createdAt: true,
         updatedAt: true,
@@ -137,53 +137,9 @@ export const POST = withTenantContext(async (request: NextRequest) => {
     let validationErrors: any[] = []
 
     try {
-      if (validated.country === 'AE') {
-        if (validated.taxType === 'VAT') {
-          const workflow = new UAEVATWorkflow()
-          const validation = workflow.validateFiling(validated.data as any)
-          if (!validation.isValid) validationErrors = validation.errors
-          calculations = workflow.calculateVAT(validated.data as any)
-        } else if (validated.taxType === 'ESR') {
-          const workflow = new UAEESRWorkflow()
-          const validation = workflow.validateESRFiling(validated.data as any)
-          if (!validation.isValid) validationErrors = validation.errors
-          calculations = { taxAmount: 0 } // ESR doesn't have tax amount
-        } else if (validated.taxType === 'CORPORATE_TAX') {
-          const workflow = new UAECorporateTaxWorkflow()
-          const validation = workflow.validateCorporateTaxFiling(validated.data as any)
-          if (!validation.isValid) validationErrors = validation.errors
-          calculations = workflow.calculateCorporateTax(validated.data as any)
-        }
-      } else if (validated.country === 'SA') {
-        if (validated.taxType === 'VAT') {
-          const workflow = new KSAVATWorkflow()
-          const validation = workflow.validateFiling(validated.data as any)
-          if (!validation.isValid) validationErrors = validation.errors
-          calculations = workflow.calculateVAT(validated.data as any)
-        } else if (validated.taxType === 'ZAKAT') {
-          const workflow = new KSAZakatWorkflow()
-          const validation = workflow.validateZakatFiling(validated.data as any)
-          if (!validation.isValid) validationErrors = validation.errors
-          calculations = workflow.calculateZakat(validated.data as any)
-        } else if (validated.taxType === 'WHT') {
-          const workflow = new KSAWHTWorkflow()
-          const validation = workflow.validateWHTFiling(validated.data as any)
-          if (!validation.isValid) validationErrors = validation.errors
-          calculations = workflow.calculateWHT(validated.data as any)
-        }
-      } else if (validated.country === 'EG') {
-        if (validated.taxType === 'VAT') {
-          const workflow = new EgyptVATWorkflow()
-          const validation = workflow.validateVATFiling(validated.data as any)
-          if (!validation.isValid) validationErrors = validation.errors
-          calculations = workflow.calculateVAT(validated.data as any)
-        } else if (validated.taxType === 'ETA') {
-          const workflow = new EgyptETAWorkflow()
-          const validation = workflow.validateETAInvoice(validated.data as any)
-          if (!validation.isValid) validationErrors = validation.errors
-          calculations = { taxAmount: 0 }
-        }
-      }
+      const result = calculateFiling(validated.country, validated.taxType, validated.data)
+      calculations = result.calculations
+      if (result.validation && !result.validation.isValid) validationErrors = result.validation.errors
     } catch (error) {
       return NextResponse.json(
         {
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { vatReturnErrorStatus, vatReturnService } from '@/lib/tax-workflows/vat-return-service'
+
+/**
+ * DELETE /api/tax-filings/vat-return/adjustments/[id]
+ * Remove an adjustment line while its period is not yet filed
+ */
+export const DELETE = withTenantContext(async (
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    await vatReturnService.removeAdjustment(tenantId, ctx.userId, params.id)
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    const status = vatReturnErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('VAT adjustment deletion error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
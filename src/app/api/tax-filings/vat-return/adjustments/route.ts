@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { vatReturnErrorStatus, vatReturnService, type VatAdjustmentInput } from '@/lib/tax-workflows/vat-return-service'
+
+const AdjustmentQuerySchema = z.object({
+  filingPeriodId: z.string().min(1),
+})
+
+const CreateAdjustmentSchema = z.object({
+  filingPeriodId: z.string().min(1),
+  // ADJUSTMENT corrects a box; REVERSE_CHARGE and IMPORT are purchases without a bill
+  kind: z.enum(['ADJUSTMENT', 'REVERSE_CHARGE', 'IMPORT']),
+  box: z.string().max(5).optional(),
+  description: z.string().trim().min(1).max(255),
+  reference: z.string().trim().max(100).optional(),
+  date: z.coerce.date(),
+  netAmount: z.number().finite(),
+  taxAmount: z.number().finite(),
+})
+
+/**
+ * GET /api/tax-filings/vat-return/adjustments?filingPeriodId=
+ * Explicit adjustment, reverse-charge and import lines of a VAT period
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = AdjustmentQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const adjustments = await vatReturnService.listAdjustments(tenantId, query.filingPeriodId)
+    return NextResponse.json({ adjustments }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    const status = vatReturnErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('VAT adjustments list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/tax-filings/vat-return/adjustments
+ * Add a line to a VAT period that is not yet filed
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { filingPeriodId, ...input } = CreateAdjustmentSchema.parse(await request.json())
+    const adjustment = await vatReturnService.addAdjustment(tenantId, ctx.userId, filingPeriodId, input as VatAdjustmentInput)
+    return NextResponse.json(adjustment, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = vatReturnErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('VAT adjustment creation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { vatReturnErrorStatus, vatReturnService } from '@/lib/tax-workflows/vat-return-service'
+
+const VatReturnQuerySchema = z.object({
+  filingPeriodId: z.string().min(1),
+  // Drill down into one box's source documents
+  box: z.string().max(5).optional(),
+  sources: z.enum(['true', 'false']).optional(),
+})
+
+const GenerateVatReturnSchema = z.object({
+  filingPeriodId: z.string().min(1),
+})
+
+/**
+ * GET /api/tax-filings/vat-return?filingPeriodId=
+ * The VAT return boxes of a filing period, derived from its tax-coded
+ * invoices, credit notes, bills and expenses and its adjustment lines
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = VatReturnQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const vatReturn = await vatReturnService.generate(tenantId, query.filingPeriodId, {
+      box: query.box,
+      includeSources: query.sources === 'true',
+    })
+    return NextResponse.json(vatReturn, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    const status = vatReturnErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('VAT return generation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/tax-filings/vat-return
+ * Create the period's draft VAT filing from its generated return, or
+ * refresh the draft after documents or adjustments changed
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const validated = GenerateVatReturnSchema.parse(await request.json())
+    const { filing, vatReturn, validation } = await vatReturnService.createDraftFiling(tenantId, ctx.userId, validated.filingPeriodId)
+
+    await logAuditSafe({
+      action: 'tax_filings:vat_return',
+      details: { filingId: filing.id, filingPeriodId: validated.filingPeriodId, netTax: vatReturn.netTax },
+    }).catch(() => {})
+
+    return NextResponse.json(
+      {
+        filing: { id: filing.id, country: filing.country, taxType: filing.taxType, status: filing.status, taxAmount: filing.taxAmount },
+        vatReturn,
+        validation,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = vatReturnErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('VAT return filing error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { WhtRemittanceSchema } from '@/schemas/tax-filings'
+import {
+  ksaWithholdingTaxService,
+  withholdingTaxErrorStatus,
+  type RemittanceInput,
+} from '@/lib/tax-workflows/wht-service'
+
+/**
+ * POST /api/tax-filings/wht/[id]/remittance
+ * Record the payment of a submitted WHT return to ZATCA
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = WhtRemittanceSchema.parse(await request.json())
+    const { remittance } = await ksaWithholdingTaxService.recordRemittance(tenantId, ctx.userId, params.id, input as RemittanceInput)
+
+    await logAuditSafe({
+      action: 'tax_filings:wht_remittance',
+      details: { filingId: params.id, reference: remittance.reference, amount: remittance.amount },
+    }).catch(() => {})
+
+    return NextResponse.json({ filingId: params.id, remittance }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = withholdingTaxErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('WHT remittance error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { WhtCertificateQuerySchema } from '@/schemas/tax-filings'
+import { ksaWithholdingTaxService, withholdingTaxErrorStatus } from '@/lib/tax-workflows/wht-service'
+
+/**
+ * GET /api/tax-filings/wht/certificate?entityId=&partyId=&from=YYYY-MM&to=YYYY-MM
+ * PDF certificate of the tax withheld from a vendor; ?format=json returns
+ * the certificate data instead
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { format, ...params } = Object.fromEntries(request.nextUrl.searchParams)
+    const query = WhtCertificateQuerySchema.parse(params)
+    const { certificate, pdf } = await ksaWithholdingTaxService.certificate(
+      tenantId,
+      ctx.userId,
+      query.entityId,
+      query.partyId,
+      query.from,
+      query.to
+    )
+
+    if (format === 'json') {
+      return NextResponse.json({ certificate }, { status: 200 })
+    }
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${certificate.number}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    const status = withholdingTaxErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('WHT certificate error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { WhtRemittanceQuerySchema } from '@/schemas/tax-filings'
+import { ksaWithholdingTaxService, withholdingTaxErrorStatus } from '@/lib/tax-workflows/wht-service'
+
+/**
+ * GET /api/tax-filings/wht/remittances?entityId=&from=YYYY-MM&to=YYYY-MM
+ * Tax withheld per month against what was filed and remitted
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = WhtRemittanceQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const months = await ksaWithholdingTaxService.remittances(tenantId, query.entityId, query.from, query.to)
+    return NextResponse.json({ months }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    const status = withholdingTaxErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('WHT remittances error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { WhtReturnRequestSchema } from '@/schemas/tax-filings'
+import { ksaWithholdingTaxService, withholdingTaxErrorStatus } from '@/lib/tax-workflows/wht-service'
+
+/**
+ * POST /api/tax-filings/wht
+ * Aggregate the tax withheld from bills paid in a month by vendor and save
+ * it as the month's draft KSA WHT return
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { entityId, period } = WhtReturnRequestSchema.parse(await request.json())
+    const result = await ksaWithholdingTaxService.createMonthlyReturn(tenantId, ctx.userId, entityId, period)
+    return NextResponse.json(
+      {
+        filing: {
+          id: result.filing.id,
+          status: result.filing.status,
+          taxAmount: result.filing.taxAmount,
+          periodStartDate: result.filing.periodStartDate,
+          periodEndDate: result.filing.periodEndDate,
+        },
+        data: result.data,
+        warnings: result.warnings,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = withholdingTaxErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('WHT return error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
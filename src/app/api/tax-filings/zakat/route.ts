@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { ZakatRequestSchema } from '@/schemas/tax-filings'
+import { zakatErrorStatus, zakatService, type ZakatRequest } from '@/lib/tax-workflows/zakat-service'
+
+/**
+ * POST /api/tax-filings/zakat
+ * Build a KSA Zakat base worksheet and save it as the period's draft ZAKAT filing
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { entityId, ...input } = ZakatRequestSchema.parse(await request.json())
+    const result = await zakatService.createDraftFiling(tenantId, ctx.userId, entityId, input as ZakatRequest)
+    return NextResponse.json(
+      {
+        filing: {
+          id: result.filing.id,
+          status: result.filing.status,
+          taxAmount: result.filing.taxAmount,
+          periodStartDate: result.filing.periodStartDate,
+          periodEndDate: result.filing.periodEndDate,
+        },
+        worksheet: result.worksheet,
+        warnings: result.warnings,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = zakatErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('Zakat filing error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
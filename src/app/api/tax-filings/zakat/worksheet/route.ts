@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+import { ZakatRequestSchema } from '@/schemas/tax-filings'
+import { zakatErrorStatus, zakatService, type ZakatRequest } from '@/lib/tax-workflows/zakat-service'
+
+/**
+ * POST /api/tax-filings/zakat/worksheet
+ * Build a KSA Zakat base worksheet, with the source of each line, without saving it
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { entityId, ...input } = ZakatRequestSchema.parse(await request.json())
+    const worksheet = await zakatService.worksheet(tenantId, entityId, input as ZakatRequest, ctx.userId)
+    return NextResponse.json({ worksheet }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    const status = zakatErrorStatus(error)
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status })
+    }
+
+    console.error('Zakat worksheet error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
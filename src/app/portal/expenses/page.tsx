@@ -0,0 +1,27 @@
+/**
+ * Expenses Page - Server Component
+ * Entry point for the expense review queue
+ */
+
+import { Suspense } from "react";
+import ExpensesClientPage from "@/components/portal/expenses/ExpensesClientPage";
+import { Loader2 } from "lucide-react";
+
+export const metadata = {
+  title: "Expenses | NextAccounting",
+  description: "Review scanned receipts and resolve expense policy flags",
+};
+
+export default function ExpensesPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      }
+    >
+      <ExpensesClientPage />
+    </Suspense>
+  );
+}
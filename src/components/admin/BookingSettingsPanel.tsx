@@ -450,6 +450,7 @@ function Customers({ settings, onChange, pending }:{ settings:any; onChange:(k:s
           <div className="space-y-3">
             <Toggle label="Allow Recurring Bookings" value={pending.allowRecurringBookings ?? settings?.allowRecurringBookings ?? false} onChange={(v)=>onChange('allowRecurringBookings', v)}/>
             <Toggle label="Enable Waitlist" value={pending.enableWaitlist ?? settings?.enableWaitlist ?? false} onChange={(v)=>onChange('enableWaitlist', v)}/>
+            <NumberInput label="Waitlist Hold (minutes)" value={pending.waitlistHoldMinutes ?? settings?.waitlistHoldMinutes ?? 120} onChange={(v)=>onChange('waitlistHoldMinutes', v)} min={5} max={10080} disabled={!(pending.enableWaitlist ?? settings?.enableWaitlist ?? false)}/>
           </div>
         </Card>
       </div>
@@ -37,10 +37,16 @@ export function simulateExtract(file: File): ExtractedFields {
   }
 }
 
+// Values left blank are read from the receipt on the server
+type ScannerFields = Omit<ExtractedFields, "total" | "tax"> & { total: string; tax: string }
+
+const EMPTY_FIELDS: ScannerFields = { merchant: "", date: "", total: "", tax: "", currency: "USD", category: "general", notes: "" }
+
 export default function ReceiptScanner() {
   const [file, setFile] = useState<File | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
-  const [fields, setFields] = useState<ExtractedFields | null>(null)
+  const [fields, setFields] = useState<ScannerFields | null>(null)
+  const [hint, setHint] = useState<ExtractedFields | null>(null)
   const [saving, setSaving] = useState(false)
 
   useEffect(() => {
@@ -51,11 +57,12 @@ export default function ReceiptScanner() {
     if (!file) return
     const url = URL.createObjectURL(file)
     setPreviewUrl(url)
-    setFields(simulateExtract(file))
+    setFields(EMPTY_FIELDS)
+    setHint(simulateExtract(file))
     return () => URL.revokeObjectURL(url)
   }, [file])
 
-  const canSave = useMemo(() => !!file && !!fields && fields.merchant && fields.date && fields.total >= 0, [file, fields])
+  const canSave = useMemo(() => !!file && !!fields && !(fields.total !== "" && Number(fields.total) < 0), [file, fields])
 
   const onSelectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0]
@@ -72,40 +79,37 @@ export default function ReceiptScanner() {
     setFile(f)
   }
 
-  const onChangeField = (key: keyof ExtractedFields, value: string) => {
+  const onChangeField = (key: keyof ScannerFields, value: string) => {
     if (!fields) return
-    if (key === "total" || key === "tax") {
-      const n = Number(value)
-      setFields({ ...fields, [key]: Number.isFinite(n) ? n : 0 })
-    } else {
-      setFields({ ...fields, [key]: value })
-    }
+    setFields({ ...fields, [key]: value })
   }
 
   const onSave = async () => {
     if (!file || !fields) return
     setSaving(true)
     try {
-      const res = await fetch("/api/expenses/ingest", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fileName: file.name,
-          size: file.size,
-          contentType: file.type,
-          fields,
-        }),
-      })
+      const form = new FormData()
+      form.append("file", file)
+      for (const [key, value] of Object.entries(fields)) {
+        if (value !== "") form.append(key, String(value))
+      }
+      const res = await fetch("/api/expenses/ingest", { method: "POST", body: form })
       if (!res.ok) {
         const err = await res.json().catch(() => ({}))
         throw new Error(err?.error || "Failed to save")
       }
       const json = await res.json().catch(() => ({}))
-      trackEvent("receipt_saved", { id: json?.data?.id, amount: fields.total, currency: fields.currency })
-      toast.success("Receipt saved")
+      const expense = json?.data?.expense
+      trackEvent("receipt_saved", { id: json?.data?.id, amount: expense ? expense.amountCents / 100 : undefined, currency: expense?.currency })
+      if (json?.data?.review?.status === "NEEDS_REVIEW") {
+        toast.success("Receipt saved and added to the review queue")
+      } else {
+        toast.success("Receipt saved")
+      }
       setFile(null)
       setPreviewUrl(null)
       setFields(null)
+      setHint(null)
     } catch (e: any) {
       toast.error(e?.message || "Failed to save")
     } finally {
@@ -118,7 +122,7 @@ export default function ReceiptScanner() {
       <Card>
         <CardHeader>
           <CardTitle>Scan Receipt</CardTitle>
-          <CardDescription>Upload a photo or PDF. We’ll extract key details for review before saving.</CardDescription>
+          <CardDescription>Upload a photo or PDF. Leave fields blank to read them from the receipt; unclear values go to the review queue.</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col md:flex-row gap-6">
@@ -142,19 +146,19 @@ export default function ReceiptScanner() {
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="merchant">Merchant</Label>
-                  <Input id="merchant" value={fields?.merchant || ""} onChange={(e) => onChangeField("merchant", e.target.value)} />
+                  <Input id="merchant" value={fields?.merchant ?? ""} placeholder={hint ? String(hint.merchant) : undefined} onChange={(e) => onChangeField("merchant", e.target.value)} />
                 </div>
                 <div>
                   <Label htmlFor="date">Date</Label>
-                  <Input id="date" type="date" value={fields?.date || ""} onChange={(e) => onChangeField("date", e.target.value)} />
+                  <Input id="date" type="date" value={fields?.date ?? ""} placeholder={hint ? String(hint.date) : undefined} onChange={(e) => onChangeField("date", e.target.value)} />
                 </div>
                 <div>
                   <Label htmlFor="total">Total</Label>
-                  <Input id="total" type="number" step="0.01" value={fields?.total ?? ""} onChange={(e) => onChangeField("total", e.target.value)} />
+                  <Input id="total" type="number" step="0.01" value={fields?.total ?? ""} placeholder={hint ? String(hint.total) : undefined} onChange={(e) => onChangeField("total", e.target.value)} />
                 </div>
                 <div>
                   <Label htmlFor="tax">Tax</Label>
-                  <Input id="tax" type="number" step="0.01" value={fields?.tax ?? ""} onChange={(e) => onChangeField("tax", e.target.value)} />
+                  <Input id="tax" type="number" step="0.01" value={fields?.tax ?? ""} placeholder={hint ? String(hint.tax) : undefined} onChange={(e) => onChangeField("tax", e.target.value)} />
                 </div>
                 <div>
                   <Label htmlFor="currency">Currency</Label>
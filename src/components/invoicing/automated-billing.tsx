@@ -7,28 +7,22 @@ import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
 import { trackEvent } from '@/lib/analytics'
 import { toast } from 'sonner'
+import { previewRuns } from '@/lib/invoicing/recurring'
 
 const cadences = [
   { value: 'weekly', label: 'Weekly' },
   { value: 'monthly', label: 'Monthly' },
   { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annual', label: 'Annual' },
 ]
 
-type Cadence = 'weekly' | 'monthly' | 'quarterly'
+type Cadence = 'weekly' | 'monthly' | 'quarterly' | 'annual'
 
 function nextRuns(start: string, cadence: Cadence, count = 3): string[] {
-  const base = new Date(start + 'T00:00:00Z')
-  const dates: string[] = []
-  const d = new Date(base)
-  for (let i = 0; i < count; i++) {
-    if (i > 0) {
-      if (cadence === 'weekly') d.setUTCDate(d.getUTCDate() + 7)
-      if (cadence === 'monthly') d.setUTCMonth(d.getUTCMonth() + 1)
-      if (cadence === 'quarterly') d.setUTCMonth(d.getUTCMonth() + 3)
-    }
-    dates.push(d.toISOString().slice(0, 10))
-  }
-  return dates
+  const startDate = new Date(start + 'T00:00:00Z')
+  if (Number.isNaN(startDate.getTime())) return []
+  const upper = cadence.toUpperCase() as Uppercase<Cadence>
+  return previewRuns({ cadence: upper, startDate }, count).map((d) => d.toISOString().slice(0, 10))
 }
 
 export default function AutomatedBillingSequences() {
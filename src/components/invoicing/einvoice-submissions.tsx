@@ -0,0 +1,150 @@
+"use client"
+
+import { useState } from 'react'
+import useSWR from 'swr'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { toast } from 'sonner'
+
+type Submission = {
+  id: string
+  invoiceId: string | null
+  standard: 'ZATCA' | 'ETA'
+  mode: 'CLEARANCE' | 'REPORTING' | 'SUBMISSION'
+  status: string
+  invoiceNumber: string
+  authorityUuid: string | null
+  warnings: string[] | null
+  errors: string[] | null
+  lastError: string | null
+  attempts: number
+  nextAttemptAt: string
+  deadlineAt: string | null
+  createdAt: string
+}
+
+type View = 'attention' | 'overdue' | 'all'
+
+const views: Array<{ value: View; label: string; query: string }> = [
+  { value: 'attention', label: 'Needs attention', query: 'attention=true' },
+  { value: 'overdue', label: 'Overdue', query: 'overdue=true' },
+  { value: 'all', label: 'All', query: '' },
+]
+
+const fetcher = (url: string) => fetch(url).then(r => {
+  if (!r.ok) throw new Error('Failed to load submissions')
+  return r.json() as Promise<{ data: Submission[] }>
+})
+
+function statusVariant(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (status === 'REJECTED' || status === 'FAILED') return 'destructive'
+  if (status === 'CLEARED' || status === 'REPORTED' || status === 'ACCEPTED') return 'default'
+  if (status === 'SUPERSEDED') return 'outline'
+  return 'secondary'
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—'
+}
+
+export default function EInvoiceSubmissions() {
+  const [view, setView] = useState<View>('attention')
+  const [resubmitting, setResubmitting] = useState<string | null>(null)
+  const query = views.find((v) => v.value === view)!.query
+  const { data, error, isLoading, mutate } = useSWR(`/api/einvoicing/submissions${query ? `?${query}` : ''}`, fetcher)
+  const submissions = data?.data ?? []
+
+  const onResubmit = async (id: string) => {
+    setResubmitting(id)
+    try {
+      const res = await fetch(`/api/einvoicing/submissions/${id}/resubmit`, { method: 'POST' })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        throw new Error(err?.error || 'Failed to resubmit')
+      }
+      toast.success('Submission queued')
+      await mutate()
+    } catch (e: any) {
+      toast.error(e?.message || 'Failed to resubmit')
+    } finally {
+      setResubmitting(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>E-invoice Submissions</CardTitle>
+        <CardDescription>
+          ZATCA clearance and reporting and ETA submissions. Rejected documents show the authority&apos;s validation messages;
+          fix the invoice, then resubmit to sign it again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          {views.map((v) => (
+            <Button key={v.value} size="sm" variant={view === v.value ? 'default' : 'outline'} onClick={() => setView(v.value)}>
+              {v.label}
+            </Button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600">Failed to load submissions</p>}
+        {isLoading && <p className="text-sm text-gray-500">Loading…</p>}
+        {!isLoading && !error && submissions.length === 0 && (
+          <p className="text-sm text-gray-500">No submissions in this view.</p>
+        )}
+
+        {submissions.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Authority</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Messages</TableHead>
+                <TableHead>Deadline</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {submissions.map((s) => (
+                <TableRow key={s.id}>
+                  <TableCell>
+                    <div className="font-medium">{s.invoiceNumber}</div>
+                    <div className="text-xs text-gray-500">{formatDate(s.createdAt)}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{s.standard}</div>
+                    <div className="text-xs text-gray-500">{s.mode.toLowerCase()}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant(s.status)}>{s.status}</Badge>
+                    {s.attempts > 1 && <div className="text-xs text-gray-500">{s.attempts} attempts</div>}
+                  </TableCell>
+                  <TableCell className="max-w-md">
+                    <ul className="space-y-1 text-xs">
+                      {(s.errors ?? []).map((m) => <li key={m} className="text-red-700">{m}</li>)}
+                      {(s.warnings ?? []).map((m) => <li key={m} className="text-amber-700">{m}</li>)}
+                      {s.lastError && <li className="text-gray-600">{s.lastError}</li>}
+                    </ul>
+                  </TableCell>
+                  <TableCell className="text-xs">{formatDate(s.deadlineAt)}</TableCell>
+                  <TableCell>
+                    {(s.status === 'REJECTED' || s.status === 'FAILED') && (
+                      <Button size="sm" disabled={resubmitting === s.id} onClick={() => onResubmit(s.id)}>
+                        {resubmitting === s.id ? 'Resubmitting…' : 'Resubmit'}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -13,6 +13,7 @@ import {
   Briefcase,
   Building2,
   User,
+  Lock,
   HelpCircle,
 } from "lucide-react";
 
@@ -58,6 +59,11 @@ export function ApprovalType({ type, className }: ApprovalTypeProps) {
       icon: User,
       className: "bg-cyan-100 text-cyan-800 dark:bg-cyan-900 dark:text-cyan-200",
     },
+    [ApprovalItemType.ACCOUNTING_PERIOD]: {
+      label: "Accounting Period",
+      icon: Lock,
+      className: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+    },
     [ApprovalItemType.OTHER]: {
       label: "Other",
       icon: HelpCircle,
@@ -0,0 +1,185 @@
+/**
+ * ExpensesClientPage - Expense Review Queue
+ * Lists scanned receipts with low-confidence fields or policy flags for confirmation
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Loader2, ScanLine } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useExpenseReviewQueue, type ReviewExpense } from "@/lib/hooks/expenses/useExpenseReviewQueue";
+
+const FIELD_LABELS: Record<string, string> = {
+  merchant: "Merchant",
+  date: "Date",
+  total: "Total",
+  tax: "Tax",
+};
+
+interface Draft {
+  merchant: string;
+  date: string;
+  total: string;
+  tax: string;
+}
+
+function toDraft(expense: ReviewExpense): Draft {
+  return {
+    merchant: expense.vendor,
+    date: String(expense.date).slice(0, 10),
+    total: (expense.amountCents / 100).toFixed(2),
+    tax: (expense.taxCents / 100).toFixed(2),
+  };
+}
+
+function ReviewCard({ expense, onResolved }: { expense: ReviewExpense; onResolved: () => void }) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(expense));
+  const [saving, setSaving] = useState(false);
+  const flags = expense.policyFlags || [];
+
+  const submit = async (action: "confirm" | "reject") => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/expenses/${expense.id}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          merchant: draft.merchant,
+          date: draft.date,
+          total: Number(draft.total),
+          tax: Number(draft.tax),
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err?.error || "Failed to save review");
+      }
+      toast.success(action === "confirm" ? "Expense confirmed" : "Expense rejected");
+      onResolved();
+    } catch (e: any) {
+      toast.error(e?.message || "Failed to save review");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-lg">
+          <span>{expense.vendor}</span>
+          <span className="text-sm font-normal text-gray-600">
+            {(expense.amountCents / 100).toFixed(2)} {expense.currency}
+          </span>
+        </CardTitle>
+        <CardDescription>
+          {expense.attachment?.name || "No receipt"}
+          {typeof expense.ocrConfidence === "number" &&
+            ` · OCR confidence ${Math.round(expense.ocrConfidence * 100)}%`}
+          {expense.user?.name && ` · ${expense.user.name}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {flags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {flags.map((flag) => (
+              <Badge key={flag.code} variant="destructive" title={flag.message}>
+                {flag.message}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          {(Object.keys(FIELD_LABELS) as (keyof Draft)[]).map((field) => {
+            const needsReview = expense.reviewFields.includes(field);
+            return (
+              <div key={field}>
+                <Label htmlFor={`${expense.id}-${field}`} className={needsReview ? "text-amber-700" : undefined}>
+                  {FIELD_LABELS[field]}
+                  {needsReview && " (check)"}
+                </Label>
+                <Input
+                  id={`${expense.id}-${field}`}
+                  type={field === "date" ? "date" : field === "merchant" ? "text" : "number"}
+                  step={field === "total" || field === "tax" ? "0.01" : undefined}
+                  value={draft[field]}
+                  className={needsReview ? "border-amber-500" : undefined}
+                  onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={() => submit("confirm")} disabled={saving} aria-label="Confirm expense">
+            {saving ? "Saving..." : "Confirm"}
+          </Button>
+          <Button variant="outline" onClick={() => submit("reject")} disabled={saving} aria-label="Reject expense">
+            Reject
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ExpensesClientPage() {
+  const { expenses, total, isLoading, mutate } = useExpenseReviewQueue();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/portal/dashboard">
+                <Button variant="ghost" size="icon">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Expense Review</h1>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Check extracted receipt details and resolve policy flags
+                </p>
+              </div>
+            </div>
+            <Link href="/portal/expenses/scan">
+              <Button>
+                <ScanLine className="h-4 w-4 mr-2" />
+                Scan receipt
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        <p className="text-sm text-gray-600">{total} awaiting review</p>
+        {isLoading && expenses.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : expenses.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-600">Nothing to review.</CardContent>
+          </Card>
+        ) : (
+          expenses.map((expense) => (
+            <ReviewCard key={expense.id} expense={expense} onResolved={() => mutate()} />
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
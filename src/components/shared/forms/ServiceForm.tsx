@@ -91,6 +91,7 @@ export default function ServiceForm({
         advanceBookingDays: initialData?.advanceBookingDays || 30,
         minAdvanceHours: initialData?.minAdvanceHours || 24,
         maxDailyBookings: initialData?.maxDailyBookings || undefined,
+        groupCapacity: initialData?.groupCapacity || undefined,
         bookingEnabled: initialData?.bookingEnabled !== false,
       }),
     },
@@ -525,6 +526,28 @@ export default function ServiceForm({
                           </FormItem>
                         )}
                       />
+
+                      <FormField
+                        control={form.control}
+                        name="groupCapacity"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Group Session Seats</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                placeholder="12"
+                                {...field}
+                                value={field.value ?? ''}
+                                onChange={(e) => field.onChange(e.target.valueAsNumber || null)}
+                                disabled={isSubmitting}
+                              />
+                            </FormControl>
+                            <FormDescription>Leave empty for one-to-one bookings</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     </div>
                   </>
                 )}
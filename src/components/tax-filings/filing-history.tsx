@@ -0,0 +1,245 @@
+"use client"
+
+import { useState } from 'react'
+import useSWR from 'swr'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { toast } from 'sonner'
+import type { DiffChange } from '@/lib/diff'
+
+type Filing = {
+  id: string
+  country: string
+  taxType: string
+  status: string
+  periodStartDate: string
+  periodEndDate: string
+  taxAmount: string
+  version: number
+  amendsFilingId: string | null
+  submittedAt: string | null
+}
+
+type Version = {
+  id: string
+  version: number
+  status: string
+  taxAmount: number
+  submittedAt: string | null
+  createdAt: string
+  amendmentReason: string | null
+  changes: { taxDelta: number; data: DiffChange[]; calculations: DiffChange[] } | null
+}
+
+type AmendmentPackage = {
+  type: 'VOLUNTARY_DISCLOSURE' | 'AMENDED_RETURN'
+  form: string
+  taxDelta: number
+  correctInNextReturn: boolean
+  dueDate: string
+  penalties: {
+    latePayment: { amount: number; basis: string } | null
+    disclosure: { amount: number; basis: string } | null
+    total: number
+  }
+  notes: string[]
+}
+
+const fetcher = <T,>(url: string) => fetch(url).then(r => {
+  if (!r.ok) throw new Error('Failed to load')
+  return r.json() as Promise<T>
+})
+
+function statusVariant(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (status === 'REJECTED') return 'destructive'
+  if (status === 'SUBMITTED' || status === 'ACCEPTED') return 'default'
+  if (status === 'AMENDED') return 'outline'
+  return 'secondary'
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : '—'
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function DiffTable({ changes }: { changes: DiffChange[] }) {
+  if (changes.length === 0) return <p className="text-xs text-gray-500">No changes.</p>
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Field</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map((c) => (
+          <TableRow key={c.path}>
+            <TableCell className="font-mono text-xs">{c.path}</TableCell>
+            <TableCell className="max-w-xs truncate text-xs text-red-700">{formatValue(c.before)}</TableCell>
+            <TableCell className="max-w-xs truncate text-xs text-green-700">{formatValue(c.after)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+function PackageSummary({ filingId }: { filingId: string }) {
+  const { data, error } = useSWR(`/api/tax-filings/${filingId}/amendment-package`, (url: string) => fetcher<AmendmentPackage>(url))
+  if (error) return <p className="text-xs text-gray-500">No amendment package for this filing.</p>
+  if (!data) return <p className="text-xs text-gray-500">Loading…</p>
+  return (
+    <div className="rounded border bg-gray-50 p-3 text-sm space-y-1">
+      <div className="font-medium">{data.form}</div>
+      <div>Tax difference: {data.taxDelta} (due {formatDate(data.dueDate)})</div>
+      {data.penalties.latePayment && <div>Late payment: {data.penalties.latePayment.amount} — {data.penalties.latePayment.basis}</div>}
+      {data.penalties.disclosure && <div>Disclosure: {data.penalties.disclosure.amount} — {data.penalties.disclosure.basis}</div>}
+      <div className="font-medium">Estimated penalties: {data.penalties.total}</div>
+      <ul className="list-disc pl-5 text-xs text-gray-600">
+        {data.notes.map((n) => <li key={n}>{n}</li>)}
+      </ul>
+    </div>
+  )
+}
+
+function VersionTimeline({ filingId, onChanged }: { filingId: string; onChanged: () => void }) {
+  const { data, error, mutate } = useSWR(`/api/tax-filings/${filingId}/versions`, (url: string) => fetcher<{ versions: Version[] }>(url))
+  const [reason, setReason] = useState('')
+  const [amending, setAmending] = useState(false)
+  const versions = data?.versions ?? []
+  const latest = versions[versions.length - 1]
+  const canAmend = latest && (latest.status === 'SUBMITTED' || latest.status === 'ACCEPTED')
+
+  const onAmend = async () => {
+    if (!latest) return
+    setAmending(true)
+    try {
+      const res = await fetch(`/api/tax-filings/${latest.id}/amend`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        throw new Error(err?.error || 'Failed to create amendment')
+      }
+      toast.success('Amendment draft created')
+      setReason('')
+      await mutate()
+      onChanged()
+    } catch (e: any) {
+      toast.error(e?.message || 'Failed to create amendment')
+    } finally {
+      setAmending(false)
+    }
+  }
+
+  if (error) return <p className="text-sm text-red-600">Failed to load versions</p>
+  if (!data) return <p className="text-sm text-gray-500">Loading…</p>
+
+  return (
+    <div className="space-y-4">
+      <ol className="relative border-l border-gray-200 space-y-6 pl-6">
+        {[...versions].reverse().map((v) => (
+          <li key={v.id} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">Version {v.version}</span>
+              <Badge variant={statusVariant(v.status)}>{v.status}</Badge>
+              <span className="text-xs text-gray-500">
+                {v.submittedAt ? `Submitted ${formatDate(v.submittedAt)}` : `Created ${formatDate(v.createdAt)}`}
+              </span>
+            </div>
+            <div className="text-sm">
+              Tax: {v.taxAmount}
+              {v.changes && (
+                <span className={v.changes.taxDelta > 0 ? 'text-red-700' : 'text-green-700'}>
+                  {' '}({v.changes.taxDelta > 0 ? '+' : ''}{v.changes.taxDelta})
+                </span>
+              )}
+            </div>
+            {v.amendmentReason && <p className="text-sm text-gray-600">{v.amendmentReason}</p>}
+            {v.changes && (
+              <>
+                <DiffTable changes={[...v.changes.calculations, ...v.changes.data]} />
+                <PackageSummary filingId={v.id} />
+              </>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {canAmend && (
+        <div className="space-y-2">
+          <Textarea placeholder="Reason for the amendment" value={reason} onChange={(e) => setReason(e.target.value)} />
+          <Button size="sm" disabled={amending || !reason.trim()} onClick={onAmend}>
+            {amending ? 'Creating…' : `Amend version ${latest.version}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function FilingHistory() {
+  const [selected, setSelected] = useState<string | null>(null)
+  const { data, error, isLoading, mutate } = useSWR('/api/tax-filings?limit=100', (url: string) => fetcher<{ filings: Filing[] }>(url))
+  // Amendments appear in their original filing's timeline
+  const filings = (data?.filings ?? []).filter((f) => !f.amendsFilingId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tax Filings</CardTitle>
+        <CardDescription>
+          Submitted filings are not edited; an amendment creates a new version. Select a filing to see its versions
+          and what changed between them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">Failed to load filings</p>}
+        {isLoading && <p className="text-sm text-gray-500">Loading…</p>}
+        {!isLoading && !error && filings.length === 0 && <p className="text-sm text-gray-500">No filings yet.</p>}
+
+        {filings.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Filing</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Tax</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filings.map((f) => (
+                <TableRow key={f.id}>
+                  <TableCell>{f.country} {f.taxType}</TableCell>
+                  <TableCell className="text-xs">{formatDate(f.periodStartDate)} – {formatDate(f.periodEndDate)}</TableCell>
+                  <TableCell><Badge variant={statusVariant(f.status)}>{f.status}</Badge></TableCell>
+                  <TableCell>{f.taxAmount}</TableCell>
+                  <TableCell>
+                    <Button size="sm" variant={selected === f.id ? 'default' : 'outline'} onClick={() => setSelected(selected === f.id ? null : f.id)}>
+                      History
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {selected && <VersionTimeline filingId={selected} onChanged={() => mutate()} />}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import {
+  baseCurrencyFor,
+  convertAmountCents,
+  parseCentralBankRates,
+  receiptDifference,
+  resolveRate,
+  revaluationJournalLines,
+  revalueOpenItems,
+  settlementDifference,
+  type OpenForeignItem,
+  type RateQuote,
+} from '../fx'
+import { assertBalanced } from '../ledger'
+import type { SystemAccountKey } from '../types'
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`)
+
+const quotes: RateQuote[] = [
+  { base: 'USD', target: 'AED', rate: 3.6725, rateDate: day('2025-03-03'), source: 'exchangerate.host' },
+  { base: 'USD', target: 'AED', rate: 3.6731, rateDate: day('2025-03-05'), source: 'exchangerate.host' },
+  { base: 'USD', target: 'AED', rate: 3.6725, rateDate: day('2025-03-05'), source: 'CBUAE' },
+  { base: 'EUR', target: 'USD', rate: 1.08, rateDate: day('2025-03-05'), source: 'exchangerate.host' },
+  { base: 'USD', target: 'SAR', rate: 3.75, rateDate: day('2025-03-05'), source: 'SAMA' },
+]
+
+describe('resolveRate', () => {
+  it('prefers the official rate of the day', () => {
+    expect(resolveRate(quotes, 'USD', 'AED', day('2025-03-05'))).toMatchObject({ rate: 3.6725, source: 'CBUAE', method: 'DIRECT', stale: false })
+  })
+
+  it('falls back to the latest earlier rate within the age limit', () => {
+    expect(resolveRate(quotes, 'USD', 'AED', day('2025-03-04'))).toMatchObject({ rate: 3.6725, method: 'DIRECT', stale: true })
+    expect(resolveRate(quotes, 'USD', 'AED', day('2025-03-20'))).toBeNull()
+    expect(resolveRate(quotes, 'USD', 'AED', day('2025-03-20'), { maxAgeDays: 30 })?.rateDate).toEqual(day('2025-03-05'))
+    expect(resolveRate(quotes, 'USD', 'AED', day('2025-03-01'))).toBeNull()
+  })
+
+  it('inverts a pair and crosses through USD', () => {
+    expect(resolveRate(quotes, 'AED', 'USD', day('2025-03-05'))).toMatchObject({ rate: 0.27229408, method: 'INVERSE' })
+    expect(resolveRate(quotes, 'EUR', 'SAR', day('2025-03-05'))).toMatchObject({ rate: 4.05, method: 'CROSS', source: 'exchangerate.host/SAMA' })
+    expect(resolveRate(quotes, 'GBP', 'SAR', day('2025-03-05'))).toBeNull()
+    expect(resolveRate([], 'SAR', 'SAR', day('2025-03-05'))).toMatchObject({ rate: 1, method: 'SAME_CURRENCY' })
+  })
+})
+
+describe('parseCentralBankRates', () => {
+  it('reads local currency per foreign unit into quotes', () => {
+    const file = ['Date,Currency,Rate,Units', '31/03/2025,USD,3.6725,1', '2025-03-31,JPY,2.4540,100', ''].join('\n')
+    expect(parseCentralBankRates(file, 'CBUAE')).toEqual([
+      { base: 'USD', target: 'AED', rate: 3.6725, rateDate: day('2025-03-31'), source: 'CBUAE' },
+      { base: 'JPY', target: 'AED', rate: 0.02454, rateDate: day('2025-03-31'), source: 'CBUAE' },
+    ])
+  })
+
+  it('rejects the file when a row is invalid', () => {
+    const file = ['date,currency,rate', '2025-02-30,USD,3.75', '2025-03-31,SAR,1', '2025-03-31,EUR,-4', '2025-03-31,GBP,4.8', '2025-03-31,GBP,4.9'].join('\n')
+    expect(() => parseCentralBankRates(file, 'SAMA')).toThrow(
+      'Invalid rate file: line 2: invalid date; line 3: invalid currency; line 4: invalid rate; line 6: duplicate rate for GBP on 2025-03-31'
+    )
+    expect(() => parseCentralBankRates('currency,rate\nUSD,48.5', 'CBE')).toThrow('Rate file must have date, currency and rate columns')
+  })
+})
+
+describe('base currency and settlement', () => {
+  it('takes the base currency from metadata, then the country', () => {
+    expect(baseCurrencyFor({ country: 'SA', metadata: null })).toBe('SAR')
+    expect(baseCurrencyFor({ country: 'AE', metadata: { baseCurrency: 'usd' } })).toBe('USD')
+  })
+
+  it('gains on a receivable collected at a higher rate and a payable paid at a lower one', () => {
+    expect(settlementDifference('RECEIVABLE', 100000, 3.67, 3.68)).toEqual({ bookedBaseCents: 367000, settledBaseCents: 368000, gainCents: 1000 })
+    expect(settlementDifference('PAYABLE', 100000, 3.67, 3.68)).toEqual({ bookedBaseCents: 367000, settledBaseCents: 368000, gainCents: -1000 })
+  })
+
+  it('relieves a paid foreign invoice at its booked rate so receivables net to zero', () => {
+    // EUR 1,000 invoice booked at 4.00; EUR 1,200 received at 4.10, EUR 1,000 applied to it
+    const invoiceBaseCents = convertAmountCents(100000, 4)
+    const receipt = receiptDifference(120000, [{ amountCents: 100000, bookedRate: 4 }], 4.1)
+    expect(receipt).toEqual({ bookedBaseCents: 482000, settledBaseCents: 492000, gainCents: 10000 })
+
+    // Dr Bank / Cr AR / Cr Realized FX balances, and only the unapplied EUR 200 stays in AR as credit
+    assertBalanced([
+      { accountId: 'bank', debitCents: receipt.settledBaseCents },
+      { accountId: 'ar', creditCents: receipt.bookedBaseCents },
+      { accountId: 'fx', creditCents: receipt.gainCents },
+    ])
+    expect(invoiceBaseCents - receipt.bookedBaseCents).toBe(-convertAmountCents(20000, 4.1))
+
+    // The credit later applied to a second invoice booked at 4.05 moves to that rate
+    const secondBaseCents = convertAmountCents(20000, 4.05)
+    const applied = settlementDifference('RECEIVABLE', 20000, 4.05, 4.1)
+    expect(invoiceBaseCents + secondBaseCents - receipt.bookedBaseCents + applied.gainCents).toBe(0)
+  })
+})
+
+describe('month-end revaluation', () => {
+  const accounts = {
+    ACCOUNTS_RECEIVABLE: 'ar',
+    ACCOUNTS_PAYABLE: 'ap',
+    REIMBURSEMENTS_PAYABLE: 'reimb',
+    UNREALIZED_FX: 'fx',
+  } as Record<SystemAccountKey, string>
+
+  const items: OpenForeignItem[] = [
+    { documentType: 'INVOICE', documentId: 'inv-1', label: 'INV-1', account: 'ACCOUNTS_RECEIVABLE', currency: 'EUR', openCents: 100000, bookedBaseCents: 400000 },
+    { documentType: 'BILL', documentId: 'bill-1', label: 'Berlin GmbH', account: 'ACCOUNTS_PAYABLE', currency: 'EUR', openCents: 50000, bookedBaseCents: 200000 },
+    { documentType: 'BILL', documentId: 'bill-2', label: 'Tokyo KK', account: 'ACCOUNTS_PAYABLE', currency: 'JPY', openCents: 1000000, bookedBaseCents: 25000 },
+  ]
+  const eur = resolveRate([{ base: 'EUR', target: 'SAR', rate: 4.1, rateDate: day('2025-03-31'), source: 'SAMA' }], 'EUR', 'SAR', day('2025-03-31'))!
+
+  it('revalues each item and reports currencies without a rate', () => {
+    const result = revalueOpenItems(items, new Map([['EUR', eur]]))
+    expect(result.items.map((i) => [i.documentId, i.revaluedBaseCents, i.gainCents])).toEqual([
+      ['inv-1', 410000, 10000],
+      ['bill-1', 205000, -5000],
+    ])
+    expect(result).toMatchObject({ gainCents: 5000, missingRates: ['JPY'] })
+  })
+
+  it('posts a balanced entry against unrealized gains and losses', () => {
+    const lines = revaluationJournalLines(revalueOpenItems(items, new Map([['EUR', eur]])).items, accounts)
+    expect(lines.map((l) => [l.accountId, l.debitCents ?? 0, l.creditCents ?? 0])).toEqual([
+      ['ar', 10000, 0],
+      ['ap', 0, 5000],
+      ['fx', 0, 5000],
+    ])
+    expect(() => assertBalanced(lines)).not.toThrow()
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { assertBalanced, buildReversalLines, naturalBalance, sumJournalLines } from '../ledger'
+import { DEFAULT_CHART_OF_ACCOUNTS } from '../chart-of-accounts'
+
+describe('ledger helpers', () => {
+  describe('assertBalanced', () => {
+    it('accepts a balanced two-line entry', () => {
+      const totals = assertBalanced([
+        { accountId: 'ar', debitCents: 10000 },
+        { accountId: 'rev', creditCents: 10000 },
+      ])
+      expect(totals).toEqual({ debitCents: 10000, creditCents: 10000 })
+    })
+
+    it('accepts split entries that balance overall', () => {
+      expect(() =>
+        assertBalanced([
+          { accountId: 'ar', debitCents: 10500 },
+          { accountId: 'rev', creditCents: 10000 },
+          { accountId: 'vat', creditCents: 500 },
+        ])
+      ).not.toThrow()
+    })
+
+    it('rejects unbalanced entries', () => {
+      expect(() =>
+        assertBalanced([
+          { accountId: 'ar', debitCents: 10000 },
+          { accountId: 'rev', creditCents: 9000 },
+        ])
+      ).toThrow('Journal entry is not balanced: debits 10000 != credits 9000')
+    })
+
+    it('rejects single-line entries', () => {
+      expect(() => assertBalanced([{ accountId: 'ar', debitCents: 100 }])).toThrow(/at least two lines/)
+    })
+
+    it('rejects lines with both sides or no side', () => {
+      expect(() =>
+        assertBalanced([
+          { accountId: 'a', debitCents: 100, creditCents: 100 },
+          { accountId: 'b', creditCents: 0 },
+        ])
+      ).toThrow(/either a debit or a credit/)
+    })
+
+    it('rejects fractional or negative amounts', () => {
+      expect(() =>
+        assertBalanced([
+          { accountId: 'a', debitCents: 10.5 },
+          { accountId: 'b', creditCents: 10.5 },
+        ])
+      ).toThrow(/whole cents/)
+      expect(() =>
+        assertBalanced([
+          { accountId: 'a', debitCents: -100 },
+          { accountId: 'b', creditCents: -100 },
+        ])
+      ).toThrow(/whole cents/)
+    })
+  })
+
+  describe('buildReversalLines', () => {
+    it('swaps debits and credits so the pair nets to zero', () => {
+      const original = [
+        { accountId: 'bank', debitCents: 2500, creditCents: 0, description: 'receipt' },
+        { accountId: 'ar', debitCents: 0, creditCents: 2500, description: null },
+      ]
+      const reversal = buildReversalLines(original)
+
+      expect(reversal).toEqual([
+        { accountId: 'bank', debitCents: 0, creditCents: 2500, description: 'receipt' },
+        { accountId: 'ar', debitCents: 2500, creditCents: 0, description: undefined },
+      ])
+
+      const combined = sumJournalLines([...original, ...reversal])
+      expect(combined.debitCents).toBe(combined.creditCents)
+    })
+  })
+
+  describe('naturalBalance', () => {
+    it('reports debit-normal accounts as debits minus credits', () => {
+      expect(naturalBalance('ASSET', { debitCents: 500, creditCents: 200 })).toBe(300)
+      expect(naturalBalance('EXPENSE', { debitCents: 500, creditCents: 200 })).toBe(300)
+    })
+
+    it('reports credit-normal accounts as credits minus debits', () => {
+      expect(naturalBalance('REVENUE', { debitCents: 100, creditCents: 400 })).toBe(300)
+      expect(naturalBalance('LIABILITY', { debitCents: 100, creditCents: 400 })).toBe(300)
+      expect(naturalBalance('EQUITY', { debitCents: 100, creditCents: 400 })).toBe(300)
+    })
+  })
+
+  describe('DEFAULT_CHART_OF_ACCOUNTS', () => {
+    it('has unique codes and system keys', () => {
+      const codes = DEFAULT_CHART_OF_ACCOUNTS.map((a) => a.code)
+      const keys = DEFAULT_CHART_OF_ACCOUNTS.map((a) => a.systemKey).filter(Boolean)
+      expect(new Set(codes).size).toBe(codes.length)
+      expect(new Set(keys).size).toBe(keys.length)
+    })
+  })
+})
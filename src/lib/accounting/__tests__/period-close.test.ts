@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { buildChecklist, closedPeriodMessage, findPeriodContaining, periodsOverlap } from '../period-close'
+
+const q1 = {
+  name: 'Q1 2026',
+  startDate: new Date('2026-01-01T00:00:00.000Z'),
+  endDate: new Date('2026-03-31T23:59:59.999Z'),
+}
+const q2 = {
+  name: 'Q2 2026',
+  startDate: new Date('2026-04-01T00:00:00.000Z'),
+  endDate: new Date('2026-06-30T23:59:59.999Z'),
+}
+
+describe('period close helpers', () => {
+  it('detects overlapping periods with inclusive bounds', () => {
+    expect(periodsOverlap(q1, q2)).toBe(false)
+    expect(
+      periodsOverlap(q1, { startDate: new Date('2026-03-31T12:00:00.000Z'), endDate: new Date('2026-04-15T00:00:00.000Z') })
+    ).toBe(true)
+  })
+
+  it('finds the period containing a date', () => {
+    expect(findPeriodContaining([q1, q2], new Date('2026-03-31T18:00:00.000Z'))?.name).toBe('Q1 2026')
+    expect(findPeriodContaining([q1, q2], new Date('2026-07-01T00:00:00.000Z'))).toBeUndefined()
+  })
+
+  it('passes the checklist only when every count is zero', () => {
+    const clean = buildChecklist({ unmatched_bank_transactions: 0, unapproved_bills: 0, draft_invoices: 0 })
+    expect(clean.passed).toBe(true)
+
+    const open = buildChecklist({ unmatched_bank_transactions: 3, unapproved_bills: 0, draft_invoices: 1 })
+    expect(open.passed).toBe(false)
+    expect(open.items.filter((i) => !i.passed).map((i) => i.key)).toEqual([
+      'unmatched_bank_transactions',
+      'draft_invoices',
+    ])
+  })
+
+  it('names the closed period in the error message', () => {
+    expect(closedPeriodMessage(new Date('2026-02-10T00:00:00.000Z'), q1)).toBe(
+      'Period closed: 2026-02-10 falls in closed period "Q1 2026" (2026-01-01 to 2026-03-31)'
+    )
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildBalanceSheet,
+  buildCashFlow,
+  buildIncomeStatement,
+  buildTrialBalance,
+  comparativePeriod,
+  consolidateBalances,
+  defaultPeriodStart,
+} from '../statements'
+import type { AccountBalance } from '../types'
+
+function balance(
+  code: string,
+  type: AccountBalance['type'],
+  subtype: string | null,
+  debitCents: number,
+  creditCents: number
+): AccountBalance {
+  return { accountId: `acc-${code}`, code, name: `Account ${code}`, type, subtype, debitCents, creditCents }
+}
+
+// Capital 10,000; equipment 3,000 depreciated by 300; sales 5,000 on credit,
+// 2,000 collected; salaries 1,000 paid in cash
+const movements: AccountBalance[] = [
+  balance('1000', 'ASSET', 'bank', 10000 + 2000, 3000 + 1000),
+  balance('1100', 'ASSET', 'receivable', 5000, 2000),
+  balance('1500', 'ASSET', 'fixed', 3000, 300),
+  balance('3000', 'EQUITY', 'capital', 0, 10000),
+  balance('4000', 'REVENUE', 'operating', 0, 5000),
+  balance('5100', 'EXPENSE', 'operating', 1000, 0),
+  balance('5300', 'EXPENSE', 'non-cash', 300, 0),
+]
+
+describe('financial statements', () => {
+  it('builds a balanced trial balance', () => {
+    const { totals, sections } = buildTrialBalance(movements)
+    expect(totals.debitCents).toBe(totals.creditCents)
+    expect(totals.differenceCents).toBe(0)
+    expect(sections.find((s) => s.key === 'assets')?.lines.map((l) => l.code)).toEqual(['1000', '1100', '1500'])
+  })
+
+  it('computes net income on the income statement', () => {
+    const { totals } = buildIncomeStatement(movements)
+    expect(totals).toEqual({ revenueCents: 5000, expensesCents: 1300, netIncomeCents: 3700 })
+  })
+
+  it('balances the balance sheet with current earnings in equity', () => {
+    const { totals, sections } = buildBalanceSheet(movements)
+    expect(totals.assetsCents).toBe(8000 + 3000 + 2700)
+    expect(totals.differenceCents).toBe(0)
+    expect(sections.find((s) => s.key === 'equity')?.lines).toContainEqual({
+      label: 'Current earnings',
+      amountCents: 3700,
+    })
+  })
+
+  it('reconciles the indirect cash flow to the change in cash', () => {
+    const { totals } = buildCashFlow(movements, 0)
+    expect(totals.operatingCents).toBe(3700 + 300 - 3000)
+    expect(totals.investingCents).toBe(-3000)
+    expect(totals.financingCents).toBe(10000)
+    expect(totals.netChangeCents).toBe(8000)
+    expect(totals.closingCashCents).toBe(8000)
+    expect(totals.differenceCents).toBe(0)
+  })
+
+  describe('consolidateBalances', () => {
+    const parent = [
+      balance('1000', 'ASSET', 'bank', 1000, 0),
+      balance('1400', 'ASSET', 'intercompany', 400, 0),
+      balance('4800', 'REVENUE', 'intercompany', 0, 400),
+      balance('3000', 'EQUITY', 'capital', 0, 1000),
+    ]
+    const child = [
+      balance('1000', 'ASSET', 'bank', 500, 0),
+      balance('2400', 'LIABILITY', 'intercompany', 0, 400),
+      balance('5800', 'EXPENSE', 'intercompany', 400, 0),
+      balance('3000', 'EQUITY', 'capital', 0, 500),
+    ]
+
+    it('merges accounts by code and eliminates intercompany balances', () => {
+      const { balances, eliminations, eliminationDifferenceCents } = consolidateBalances([parent, child])
+      expect(balances.map((b) => b.code)).toEqual(['1000', '3000'])
+      expect(balances[0].debitCents).toBe(1500)
+      expect(eliminations.map((e) => e.code)).toEqual(['1400', '2400', '4800', '5800'])
+      expect(eliminationDifferenceCents).toBe(0)
+      expect(buildBalanceSheet(balances).totals.differenceCents).toBe(0)
+    })
+
+    it('keeps intercompany accounts for a single entity', () => {
+      const { balances, eliminations } = consolidateBalances([parent])
+      expect(balances).toHaveLength(4)
+      expect(eliminations).toEqual([])
+    })
+  })
+
+  describe('periods', () => {
+    it('defaults to the start of the fiscal year containing the date', () => {
+      const fiscalStart = new Date('2020-07-01T00:00:00Z')
+      expect(defaultPeriodStart(new Date('2026-03-15T00:00:00Z'), fiscalStart).toISOString()).toBe(
+        '2025-07-01T00:00:00.000Z'
+      )
+      expect(defaultPeriodStart(new Date('2026-03-15T00:00:00Z')).toISOString()).toBe('2026-01-01T00:00:00.000Z')
+    })
+
+    it('derives previous-period and previous-year comparatives', () => {
+      const period = { from: new Date('2026-04-01T00:00:00.000Z'), to: new Date('2026-06-30T23:59:59.999Z') }
+
+      const previousYear = comparativePeriod(period, 'previous-year')
+      expect(previousYear.from.toISOString()).toBe('2025-04-01T00:00:00.000Z')
+      expect(previousYear.to.toISOString()).toBe('2025-06-30T23:59:59.999Z')
+
+      const previousPeriod = comparativePeriod(period, 'previous-period')
+      expect(previousPeriod.to.toISOString()).toBe('2026-03-31T23:59:59.999Z')
+      expect(previousPeriod.to.getTime() - previousPeriod.from.getTime()).toBe(
+        period.to.getTime() - period.from.getTime()
+      )
+    })
+  })
+})
@@ -0,0 +1,173 @@
+/**
+ * Default Chart of Accounts
+ * Seeded per Entity the first time the ledger is used
+ */
+
+import prisma from '@/lib/prisma'
+import type { ChartOfAccountsTemplateEntry, LedgerAccountInput, SystemAccountKey } from './types'
+
+export const DEFAULT_CHART_OF_ACCOUNTS: ChartOfAccountsTemplateEntry[] = [
+  // Assets
+  { code: '1000', name: 'Bank', type: 'ASSET', subtype: 'bank', systemKey: 'BANK' },
+  { code: '1100', name: 'Accounts Receivable', type: 'ASSET', subtype: 'receivable', systemKey: 'ACCOUNTS_RECEIVABLE' },
+  { code: '1200', name: 'VAT Receivable', type: 'ASSET', subtype: 'tax', systemKey: 'VAT_RECEIVABLE' },
+  { code: '1300', name: 'Prepaid Expenses', type: 'ASSET', subtype: 'current' },
+  { code: '1400', name: 'Intercompany Receivable', type: 'ASSET', subtype: 'intercompany' },
+  { code: '1500', name: 'Fixed Assets', type: 'ASSET', subtype: 'fixed' },
+
+  // Liabilities
+  { code: '2000', name: 'Accounts Payable', type: 'LIABILITY', subtype: 'payable', systemKey: 'ACCOUNTS_PAYABLE' },
+  { code: '2100', name: 'Reimbursements Payable', type: 'LIABILITY', subtype: 'payable', systemKey: 'REIMBURSEMENTS_PAYABLE' },
+  { code: '2200', name: 'VAT Payable', type: 'LIABILITY', subtype: 'tax', systemKey: 'VAT_PAYABLE' },
+  { code: '2300', name: 'Withholding Tax Payable', type: 'LIABILITY', subtype: 'tax', systemKey: 'WHT_PAYABLE' },
+  { code: '2400', name: 'Intercompany Payable', type: 'LIABILITY', subtype: 'intercompany' },
+  { code: '2500', name: 'Long-term Loans', type: 'LIABILITY', subtype: 'non-current' },
+
+  // Equity
+  { code: '3000', name: 'Share Capital', type: 'EQUITY', subtype: 'capital' },
+  { code: '3100', name: 'Retained Earnings', type: 'EQUITY', subtype: 'retained', systemKey: 'RETAINED_EARNINGS' },
+
+  // Revenue
+  { code: '4000', name: 'Sales Revenue', type: 'REVENUE', subtype: 'operating', systemKey: 'SALES_REVENUE' },
+  { code: '4800', name: 'Intercompany Revenue', type: 'REVENUE', subtype: 'intercompany' },
+  { code: '4900', name: 'Other Income', type: 'REVENUE', subtype: 'other' },
+  { code: '4910', name: 'Realized Exchange Gains and Losses', type: 'REVENUE', subtype: 'fx', systemKey: 'REALIZED_FX' },
+  { code: '4920', name: 'Unrealized Exchange Gains and Losses', type: 'REVENUE', subtype: 'fx', systemKey: 'UNREALIZED_FX' },
+
+  // Expenses
+  { code: '5000', name: 'Operating Expenses', type: 'EXPENSE', subtype: 'operating', systemKey: 'OPERATING_EXPENSES' },
+  { code: '5100', name: 'Salaries and Wages', type: 'EXPENSE', subtype: 'operating' },
+  { code: '5200', name: 'Rent', type: 'EXPENSE', subtype: 'operating' },
+  { code: '5300', name: 'Depreciation', type: 'EXPENSE', subtype: 'non-cash' },
+  { code: '5800', name: 'Intercompany Expense', type: 'EXPENSE', subtype: 'intercompany' },
+  { code: '5900', name: 'Bank Charges', type: 'EXPENSE', subtype: 'operating' },
+]
+
+/**
+ * Seed the default chart for an entity, and add template accounts that
+ * older charts are missing (such as the intercompany accounts). Existing
+ * codes are left untouched, so this is safe to call before every automatic posting.
+ */
+export async function ensureChartOfAccounts(tenantId: string, entityId: string): Promise<void> {
+  const existing = await prisma.ledgerAccount.findMany({ where: { tenantId, entityId }, select: { code: true } })
+  const codes = new Set(existing.map((a) => a.code))
+  const missing = DEFAULT_CHART_OF_ACCOUNTS.filter((account) => !codes.has(account.code))
+  if (missing.length === 0) return
+
+  await prisma.ledgerAccount.createMany({
+    data: missing.map((account) => ({
+      tenantId,
+      entityId,
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      subtype: account.subtype,
+      systemKey: account.systemKey,
+    })),
+    skipDuplicates: true,
+  })
+}
+
+/**
+ * Resolve system account ids for an entity, seeding the chart if needed
+ */
+export async function getSystemAccounts(
+  tenantId: string,
+  entityId: string
+): Promise<Record<SystemAccountKey, string>> {
+  await ensureChartOfAccounts(tenantId, entityId)
+
+  const load = () => prisma.ledgerAccount.findMany({
+    where: { tenantId, entityId, systemKey: { not: null }, isActive: true },
+    select: { id: true, systemKey: true },
+  })
+  let accounts = await load()
+
+  // Charts seeded before a system account joined the template get it on first use
+  const present = new Set(accounts.map((a) => a.systemKey))
+  const missing = DEFAULT_CHART_OF_ACCOUNTS.filter((entry) => entry.systemKey && !present.has(entry.systemKey))
+  if (missing.length > 0) {
+    await prisma.ledgerAccount.createMany({
+      data: missing.map((account) => ({
+        tenantId,
+        entityId,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        subtype: account.subtype,
+        systemKey: account.systemKey,
+      })),
+      skipDuplicates: true,
+    })
+    accounts = await load()
+  }
+
+  const map = {} as Record<SystemAccountKey, string>
+  for (const account of accounts) {
+    map[account.systemKey as SystemAccountKey] = account.id
+  }
+
+  for (const entry of DEFAULT_CHART_OF_ACCOUNTS) {
+    if (entry.systemKey && !map[entry.systemKey]) {
+      throw new Error(`System account ${entry.systemKey} is not configured for entity ${entityId}`)
+    }
+  }
+
+  return map
+}
+
+/**
+ * List an entity's chart of accounts ordered by code
+ */
+export async function listAccounts(tenantId: string, entityId: string, includeInactive = false) {
+  await ensureChartOfAccounts(tenantId, entityId)
+
+  return prisma.ledgerAccount.findMany({
+    where: { tenantId, entityId, ...(includeInactive ? {} : { isActive: true }) },
+    orderBy: { code: 'asc' },
+  })
+}
+
+/**
+ * Add a custom account to an entity's chart
+ */
+export async function createAccount(
+  tenantId: string,
+  entityId: string,
+  input: LedgerAccountInput
+) {
+  const duplicate = await prisma.ledgerAccount.findFirst({
+    where: { entityId, code: input.code },
+    select: { id: true },
+  })
+  if (duplicate) {
+    throw new Error(`Account code ${input.code} already exists`)
+  }
+
+  if (input.parentId) {
+    const parent = await prisma.ledgerAccount.findFirst({
+      where: { id: input.parentId, tenantId, entityId },
+      select: { type: true },
+    })
+    if (!parent) {
+      throw new Error('Parent account not found')
+    }
+    if (parent.type !== input.type) {
+      throw new Error('Invalid parent account: type must match')
+    }
+  }
+
+  return prisma.ledgerAccount.create({
+    data: {
+      tenantId,
+      entityId,
+      code: input.code,
+      name: input.name,
+      type: input.type,
+      subtype: input.subtype,
+      parentId: input.parentId,
+      currency: input.currency?.toUpperCase(),
+      description: input.description,
+    },
+  })
+}
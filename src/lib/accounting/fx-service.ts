@@ -0,0 +1,425 @@
+/**
+ * Foreign Exchange Service
+ * Looks up historical rates, imports central bank rate files, books
+ * documents at their transaction-date rate and posts month-end revaluations
+ * of open foreign-currency receivables and payables.
+ */
+
+import prisma from '@/lib/prisma'
+import { logAudit } from '@/lib/audit'
+import { getSystemAccounts } from './chart-of-accounts'
+import { paymentService } from '@/lib/payments/payment-service'
+import { ledgerPostingService } from './posting-service'
+import {
+  DEFAULT_MAX_RATE_AGE_DAYS,
+  OFFICIAL_RATE_SOURCES,
+  PIVOT_CURRENCY,
+  baseCurrencyFor,
+  convertAmountCents,
+  parseCentralBankRates,
+  resolveRate,
+  revaluationJournalLines,
+  revalueOpenItems,
+  type OfficialRateSource,
+  type OpenForeignItem,
+  type ResolvedRate,
+} from './fx'
+
+export interface DocumentRate {
+  baseCurrency: string
+  exchangeRate: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10)
+
+/** Last day and the day after a YYYY-MM month, at UTC midnight */
+export function monthBounds(month: string) {
+  const match = /^(\d{4})-(\d{2})$/.exec(month)
+  const monthIndex = match ? Number(match[2]) - 1 : -1
+  if (!match || monthIndex < 0 || monthIndex > 11) throw new Error('Invalid month, expected YYYY-MM')
+  const year = Number(match[1])
+  return {
+    monthEnd: new Date(Date.UTC(year, monthIndex + 1, 0)),
+    nextMonth: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  }
+}
+
+export class FxService {
+  /** The currency an entity keeps its books in */
+  async baseCurrency(tenantId: string, entityId: string): Promise<string> {
+    const entity = await prisma.entity.findFirst({
+      where: { id: entityId, tenantId },
+      select: { country: true, metadata: true },
+    })
+    if (!entity) throw new Error('Entity not found')
+    return baseCurrencyFor(entity)
+  }
+
+  /**
+   * Rate to convert `from` into `to` on a date, or null when no rate is
+   * recorded close enough to it
+   */
+  async findRate(from: string, to: string, date: Date, options: { maxAgeDays?: number } = {}): Promise<ResolvedRate | null> {
+    from = from.toUpperCase()
+    to = to.toUpperCase()
+    const maxAgeDays = options.maxAgeDays ?? DEFAULT_MAX_RATE_AGE_DAYS
+    if (from === to) return resolveRate([], from, to, date)
+
+    const codes = Array.from(new Set([from, to, PIVOT_CURRENCY]))
+    const rows = await prisma.exchangeRate.findMany({
+      where: {
+        base: { in: codes },
+        target: { in: codes },
+        rateDate: { gte: new Date(Date.parse(dayKey(date)) - maxAgeDays * DAY_MS), lte: new Date(dayKey(date)) },
+      },
+      select: { base: true, target: true, rate: true, rateDate: true, source: true },
+    })
+    return resolveRate(rows, from, to, date, { maxAgeDays })
+  }
+
+  /**
+   * Rate to convert `from` into `to` on a date; throws when there is none
+   */
+  async rateOn(from: string, to: string, date: Date, options: { maxAgeDays?: number } = {}): Promise<ResolvedRate> {
+    const rate = await this.findRate(from, to, date, options)
+    if (!rate) throw new Error(`No exchange rate for ${from.toUpperCase()}/${to.toUpperCase()} on ${dayKey(date)}`)
+    return rate
+  }
+
+  /**
+   * Recorded rates for a pair, newest first
+   */
+  async history(base: string, target: string, filters: { from?: Date; to?: Date; source?: string; limit?: number } = {}) {
+    const rateDate: { gte?: Date; lte?: Date } = {}
+    if (filters.from) rateDate.gte = filters.from
+    if (filters.to) rateDate.lte = filters.to
+    return prisma.exchangeRate.findMany({
+      where: {
+        base: base.toUpperCase(),
+        target: target.toUpperCase(),
+        ...(filters.source ? { source: filters.source } : {}),
+        ...(filters.from || filters.to ? { rateDate } : {}),
+      },
+      orderBy: [{ rateDate: 'desc' }, { source: 'asc' }],
+      take: Math.min(filters.limit ?? 100, 1000),
+    })
+  }
+
+  /**
+   * Import a central bank rate file. Rows replace the same bank's rate for
+   * that currency and day, so a corrected file can be imported again.
+   */
+  async importOfficialRates(source: OfficialRateSource, content: string, userId?: string | null) {
+    const quotes = parseCentralBankRates(content, source)
+    const local = OFFICIAL_RATE_SOURCES[source]
+    const currency = await prisma.currency.findUnique({ where: { code: local }, select: { code: true } })
+    if (!currency) throw new Error(`Currency ${local} is not set up`)
+
+    const fetchedAt = new Date()
+    await prisma.$transaction(
+      quotes.map((q) =>
+        prisma.exchangeRate.upsert({
+          where: { base_target_rateDate_source: { base: q.base, target: q.target, rateDate: q.rateDate, source } },
+          update: { rate: q.rate, fetchedAt },
+          create: { base: q.base, target: q.target, rate: q.rate, rateDate: q.rateDate, source, fetchedAt },
+        })
+      )
+    )
+
+    const days = quotes.map((q) => dayKey(q.rateDate)).sort()
+    const summary = {
+      source,
+      currency: local,
+      imported: quotes.length,
+      currencies: Array.from(new Set(quotes.map((q) => q.base))).sort(),
+      from: days[0],
+      to: days[days.length - 1],
+    }
+    await logAudit({ action: 'exchange:import', userId: userId ?? undefined, metadata: summary })
+    return summary
+  }
+
+  /**
+   * Rate that books a document into the entity's base currency: the rate on
+   * the document date, or 1 when the document is in the base currency
+   */
+  async documentRate(tenantId: string, entityId: string, currency: string, date: Date): Promise<DocumentRate> {
+    const baseCurrency = await this.baseCurrency(tenantId, entityId)
+    const rate = await this.rateOn(currency, baseCurrency, date)
+    return { baseCurrency, exchangeRate: rate.rate }
+  }
+
+  /**
+   * Base currency amount of an invoice, recorded on the invoice the first
+   * time it is booked
+   */
+  async bookInvoice(
+    invoice: { id: string; tenantId: string; currency: string; totalCents: number; createdAt: Date; baseCurrency?: string | null; exchangeRate?: number | null },
+    entityId: string
+  ) {
+    const rate = await this.bookedRate(invoice.tenantId, entityId, invoice, invoice.createdAt)
+    const baseTotalCents = convertAmountCents(invoice.totalCents, rate.exchangeRate)
+    await prisma.invoice.update({ where: { id: invoice.id }, data: { ...rate, baseTotalCents } })
+    return { ...rate, baseTotalCents }
+  }
+
+  /**
+   * Base currency amount of a bill, recorded on the bill the first time it
+   * is booked
+   */
+  async bookBill(
+    bill: { id: string; tenantId: string; currency: string; amount: number; date: Date; baseCurrency?: string | null; exchangeRate?: number | null },
+    entityId: string
+  ) {
+    const rate = await this.bookedRate(bill.tenantId, entityId, bill, bill.date)
+    const baseAmount = convertAmountCents(Math.round(bill.amount * 100), rate.exchangeRate) / 100
+    await prisma.bill.update({ where: { id: bill.id }, data: { ...rate, baseAmount } })
+    return { ...rate, baseAmount }
+  }
+
+  /**
+   * Base currency amount of an expense, recorded on the expense the first
+   * time it is booked
+   */
+  async bookExpense(
+    expense: { id: string; tenantId: string; currency: string; amountCents: number; date: Date; baseCurrency?: string | null; exchangeRate?: number | null },
+    entityId: string
+  ) {
+    const rate = await this.bookedRate(expense.tenantId, entityId, expense, expense.date)
+    const baseAmountCents = convertAmountCents(expense.amountCents, rate.exchangeRate)
+    await prisma.expense.update({ where: { id: expense.id }, data: { ...rate, baseAmountCents } })
+    return { ...rate, baseAmountCents }
+  }
+
+  // A rate already recorded on the document is kept unless the base currency changed
+  private async bookedRate(
+    tenantId: string,
+    entityId: string,
+    document: { currency: string; baseCurrency?: string | null; exchangeRate?: number | null },
+    date: Date
+  ): Promise<DocumentRate> {
+    const baseCurrency = await this.baseCurrency(tenantId, entityId)
+    if (document.baseCurrency === baseCurrency && document.exchangeRate) {
+      return { baseCurrency, exchangeRate: document.exchangeRate }
+    }
+    const rate = await this.rateOn(document.currency, baseCurrency, date)
+    return { baseCurrency, exchangeRate: rate.rate }
+  }
+
+  /**
+   * Foreign-currency documents booked by the end of a month and not yet
+   * settled by then, with the base amount they are carried at
+   */
+  async openForeignItems(tenantId: string, entityId: string, asOf: Date): Promise<OpenForeignItem[]> {
+    const before = new Date(Date.parse(dayKey(asOf)) + DAY_MS)
+    const booked = await prisma.journalEntry.findMany({
+      where: { tenantId, entityId, status: 'POSTED', sourceType: { in: ['INVOICE_ISSUED', 'BILL_APPROVED', 'EXPENSE_RECORDED'] }, date: { lt: before } },
+      select: { sourceType: true, sourceId: true },
+    })
+    const ids = booked.map((e) => e.sourceId).filter((id): id is string => !!id)
+    if (ids.length === 0) return []
+
+    const settled = await prisma.journalEntry.findMany({
+      where: { tenantId, entityId, status: 'POSTED', sourceType: { in: ['INVOICE_PAYMENT', 'BILL_PAYMENT', 'EXPENSE_REIMBURSEMENT'] }, sourceId: { in: ids }, date: { lt: before } },
+      select: { sourceType: true, sourceId: true },
+    })
+    const settledKeys = new Set(settled.map((e) => `${e.sourceType}:${e.sourceId}`))
+    const openIds = (recognition: string, settlement: string) =>
+      booked.filter((e) => e.sourceType === recognition && !settledKeys.has(`${settlement}:${e.sourceId}`)).map((e) => e.sourceId as string)
+
+    const foreign = { tenantId, baseCurrency: { not: null }, exchangeRate: { not: null } }
+    const [invoices, bills, expenses] = await Promise.all([
+      prisma.invoice.findMany({ where: { ...foreign, id: { in: openIds('INVOICE_ISSUED', 'INVOICE_PAYMENT') } } }),
+      prisma.bill.findMany({ where: { ...foreign, id: { in: openIds('BILL_APPROVED', 'BILL_PAYMENT') } } }),
+      prisma.expense.findMany({ where: { ...foreign, id: { in: openIds('EXPENSE_RECORDED', 'EXPENSE_REIMBURSEMENT') } } }),
+    ])
+
+    // Payments, credit notes and bank lines applied by the month end reduce what was still open then
+    const [balances, billsPaid, expensesPaid] = await Promise.all([
+      paymentService.getInvoiceBalancesBefore(tenantId, invoices.map((i) => i.id), before),
+      this.bankSettledBefore(tenantId, 'bill', bills.map((b) => b.id), before),
+      this.bankSettledBefore(tenantId, 'expense', expenses.map((e) => e.id), before),
+    ])
+
+    const items: OpenForeignItem[] = []
+    for (const i of invoices) {
+      if (i.currency === i.baseCurrency) continue
+      const openCents = balances.get(i.id)?.outstandingCents ?? i.totalCents
+      if (openCents <= 0) continue
+      items.push({
+        documentType: 'INVOICE',
+        documentId: i.id,
+        label: i.number || i.id,
+        account: 'ACCOUNTS_RECEIVABLE',
+        currency: i.currency,
+        openCents,
+        bookedBaseCents: openCents === i.totalCents && i.baseTotalCents != null ? i.baseTotalCents : convertAmountCents(openCents, i.exchangeRate!),
+      })
+    }
+    for (const b of bills) {
+      if (b.currency === b.baseCurrency) continue
+      // The vendor is owed the amount net of the tax withheld
+      const openCents = Math.round((b.amount - b.whtAmount) * 100) - (billsPaid.get(b.id) || 0)
+      if (openCents <= 0) continue
+      items.push({
+        documentType: 'BILL',
+        documentId: b.id,
+        label: b.billNumber ? `${b.vendor} ${b.billNumber}` : b.vendor,
+        account: 'ACCOUNTS_PAYABLE',
+        currency: b.currency,
+        openCents,
+        bookedBaseCents: convertAmountCents(openCents, b.exchangeRate!),
+      })
+    }
+    for (const e of expenses) {
+      if (e.currency === e.baseCurrency) continue
+      const openCents = e.amountCents - (expensesPaid.get(e.id) || 0)
+      if (openCents <= 0) continue
+      items.push({
+        documentType: 'EXPENSE',
+        documentId: e.id,
+        label: e.vendor,
+        account: 'REIMBURSEMENTS_PAYABLE',
+        currency: e.currency,
+        openCents,
+        bookedBaseCents: openCents === e.amountCents && e.baseAmountCents != null ? e.baseAmountCents : convertAmountCents(openCents, e.exchangeRate!),
+      })
+    }
+    return items
+  }
+
+  // Bank line allocations to bills or expenses dated before a cut-off, counting matches undone only after it
+  private async bankSettledBefore(tenantId: string, type: 'bill' | 'expense', ids: string[], before: Date): Promise<Map<string, number>> {
+    if (ids.length === 0) return new Map()
+    const matches = await prisma.bankTransactionMatch.findMany({
+      where: {
+        tenantId,
+        targetType: type,
+        targetId: { in: ids },
+        transaction: { date: { lt: before } },
+        OR: [{ status: 'CONFIRMED' }, { undoneAt: { gte: before } }],
+      },
+      select: { targetId: true, amountCents: true },
+    })
+    const settled = new Map<string, number>()
+    for (const m of matches) settled.set(m.targetId, (settled.get(m.targetId) || 0) + m.amountCents)
+    return settled
+  }
+
+  /**
+   * Revaluation of a month's open foreign-currency balances at month-end
+   * rates, without posting it
+   */
+  async previewRevaluation(tenantId: string, entityId: string, month: string) {
+    const { monthEnd, nextMonth } = monthBounds(month)
+    const baseCurrency = await this.baseCurrency(tenantId, entityId)
+    const items = await this.openForeignItems(tenantId, entityId, monthEnd)
+
+    const rates = new Map<string, ResolvedRate>()
+    for (const currency of Array.from(new Set(items.map((i) => i.currency)))) {
+      const rate = await this.findRate(currency, baseCurrency, monthEnd)
+      if (rate) rates.set(currency, rate)
+    }
+    const result = revalueOpenItems(items, rates)
+    const posted = await prisma.journalEntry.findFirst({
+      where: { tenantId, entityId, sourceType: 'FX_REVALUATION', sourceId: `${entityId}:${month}` },
+      select: { id: true },
+    })
+
+    return {
+      month,
+      baseCurrency,
+      date: dayKey(monthEnd),
+      reversalDate: dayKey(nextMonth),
+      ...result,
+      journalEntryId: posted?.id ?? null,
+    }
+  }
+
+  /**
+   * Post the month-end revaluation and its reversal on the first day of the
+   * next month, so payments keep settling at the documents' booked rates
+   */
+  async postRevaluation(tenantId: string, entityId: string, month: string, userId?: string | null) {
+    const preview = await this.previewRevaluation(tenantId, entityId, month)
+    const { monthEnd, nextMonth } = monthBounds(month)
+    if (nextMonth.getTime() > Date.now()) throw new Error('Month has not ended')
+    if (preview.journalEntryId) throw new Error('Exchange revaluation for this month has already been posted')
+    if (preview.missingRates.length > 0) {
+      throw new Error(`No exchange rate for ${preview.missingRates.map((c) => `${c}/${preview.baseCurrency}`).join(', ')} on ${preview.date}`)
+    }
+
+    const accounts = await getSystemAccounts(tenantId, entityId)
+    const lines = revaluationJournalLines(preview.items, accounts)
+    if (lines.length === 0) return { ...preview, entry: null, reversal: null }
+
+    // Both entries or neither: a revaluation must never stay in the books unreversed
+    const { entry, reversal } = await prisma.$transaction(async (tx) => {
+      const entry = await ledgerPostingService.postJournalEntry({
+        tenantId,
+        entityId,
+        date: monthEnd,
+        description: `Exchange revaluation ${month}`,
+        currency: preview.baseCurrency,
+        sourceType: 'FX_REVALUATION',
+        sourceId: `${entityId}:${month}`,
+        createdBy: userId,
+        metadata: {
+          month,
+          items: preview.items.map((i) => ({
+            documentType: i.documentType,
+            documentId: i.documentId,
+            currency: i.currency,
+            openCents: i.openCents,
+            bookedBaseCents: i.bookedBaseCents,
+            rate: i.rate,
+            rateDate: i.rateDate,
+            revaluedBaseCents: i.revaluedBaseCents,
+          })),
+        },
+        lines,
+      }, tx)
+      const reversal = await ledgerPostingService.reverseJournalEntry(tenantId, entry.id, {
+        entityId,
+        userId,
+        reason: `Exchange revaluation ${month} reversed at the start of the next month`,
+        date: nextMonth,
+      }, tx)
+      return { entry, reversal }
+    })
+
+    await logAudit({
+      tenantId,
+      userId: userId ?? undefined,
+      action: 'ledger:fx_revaluation.post',
+      resource: `JournalEntry:${entry.id}`,
+      metadata: { entityId, month, items: preview.items.length, gainCents: preview.gainCents, reversalId: reversal.id },
+    })
+    return { ...preview, journalEntryId: entry.id, entry, reversal }
+  }
+}
+
+export const fxService = new FxService()
+
+/**
+ * HTTP status for known exchange rate and revaluation errors, null for
+ * unexpected ones
+ */
+export function fxErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Entity not found' || message === 'Entity not found or unauthorized') return 404
+  if (message.startsWith('No exchange rate for ')) return 404
+  if (message === 'Exchange revaluation for this month has already been posted' || message.startsWith('Period closed')) return 409
+  if (
+    message.startsWith('Invalid rate file') ||
+    message === 'Rate file is empty' ||
+    message === 'Rate file must have date, currency and rate columns' ||
+    (message.startsWith('Currency ') && message.endsWith(' is not set up')) ||
+    message.startsWith('Invalid month') ||
+    message === 'Month has not ended'
+  ) return 400
+  return null
+}
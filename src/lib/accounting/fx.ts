@@ -0,0 +1,301 @@
+/**
+ * Foreign Exchange
+ * Rates are kept per day and source. A foreign-currency document is booked
+ * in its entity's base currency at the transaction-date rate; settling it at
+ * a different rate gives a realized gain or loss, and balances still open at
+ * month end are revalued with an entry that reverses the next day.
+ */
+
+import { getCountry, type CountryCode } from '@/lib/registries/countries'
+import type { JournalLineInput, SystemAccountKey } from './types'
+
+/** Central banks whose published rates can be imported, and the currency they quote in */
+export const OFFICIAL_RATE_SOURCES = {
+  CBUAE: 'AED',
+  SAMA: 'SAR',
+  CBE: 'EGP',
+} as const
+
+export type OfficialRateSource = keyof typeof OFFICIAL_RATE_SOURCES
+
+/** Currency that cross rates are derived through when a pair has no rate */
+export const PIVOT_CURRENCY = 'USD'
+
+/** How many days back a rate may be used when the date itself has none */
+export const DEFAULT_MAX_RATE_AGE_DAYS = 7
+
+/** 1 unit of base = rate units of target, as published for rateDate */
+export interface RateQuote {
+  base: string
+  target: string
+  rate: number
+  rateDate: Date
+  source: string
+}
+
+export interface ResolvedRate {
+  from: string
+  to: string
+  rate: number
+  rateDate: Date
+  source: string
+  method: 'SAME_CURRENCY' | 'DIRECT' | 'INVERSE' | 'CROSS'
+  stale: boolean // The rate is from an earlier day than the one asked for
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10)
+
+const roundRate = (rate: number) => Math.round(rate * 1e8) / 1e8
+
+/**
+ * An entity's base currency: metadata.baseCurrency when set, otherwise the
+ * currency of its country, otherwise USD
+ */
+export function baseCurrencyFor(entity: { country: string; metadata?: unknown }): string {
+  const metadata = (entity.metadata as Record<string, unknown> | null) ?? {}
+  if (typeof metadata.baseCurrency === 'string' && metadata.baseCurrency.length === 3) {
+    return metadata.baseCurrency.toUpperCase()
+  }
+  return getCountry(entity.country as CountryCode)?.currency ?? 'USD'
+}
+
+// Official rates win over provider and manual rates of the same day
+function sourceRank(source: string): number {
+  if (source in OFFICIAL_RATE_SOURCES) return 0
+  if (source === 'manual') return 1
+  return 2
+}
+
+/**
+ * Rate to convert `from` into `to` on a date. Uses the latest rate on or
+ * before the date within maxAgeDays, taken directly or inverted, and
+ * otherwise a cross rate through USD. Returns null when there is none.
+ */
+export function resolveRate(
+  quotes: RateQuote[],
+  from: string,
+  to: string,
+  date: Date,
+  options: { maxAgeDays?: number } = {}
+): ResolvedRate | null {
+  const day = dayKey(date)
+  if (from === to) {
+    return { from, to, rate: 1, rateDate: new Date(`${day}T00:00:00.000Z`), source: 'identity', method: 'SAME_CURRENCY', stale: false }
+  }
+  const earliest = dayKey(new Date(new Date(`${day}T00:00:00.000Z`).getTime() - (options.maxAgeDays ?? DEFAULT_MAX_RATE_AGE_DAYS) * DAY_MS))
+  const usable = quotes.filter((q) => q.rate > 0 && dayKey(q.rateDate) <= day && dayKey(q.rateDate) >= earliest)
+
+  const latest = (base: string, target: string) =>
+    usable
+      .filter((q) => q.base === base && q.target === target)
+      .sort((a, b) => dayKey(b.rateDate).localeCompare(dayKey(a.rateDate)) || sourceRank(a.source) - sourceRank(b.source))[0]
+
+  // The more recent of the direct and inverted quote; the direct one on a tie
+  const pair = (a: string, b: string) => {
+    const direct = latest(a, b)
+    const inverse = latest(b, a)
+    if (direct && (!inverse || dayKey(direct.rateDate) >= dayKey(inverse.rateDate))) {
+      return { rate: direct.rate, rateDate: direct.rateDate, source: direct.source, method: 'DIRECT' as const }
+    }
+    if (inverse) {
+      return { rate: 1 / inverse.rate, rateDate: inverse.rateDate, source: inverse.source, method: 'INVERSE' as const }
+    }
+    return null
+  }
+
+  const found = pair(from, to)
+  if (found) {
+    return { from, to, ...found, rate: roundRate(found.rate), stale: dayKey(found.rateDate) < day }
+  }
+
+  if (from === PIVOT_CURRENCY || to === PIVOT_CURRENCY) return null
+  const first = pair(from, PIVOT_CURRENCY)
+  const second = pair(PIVOT_CURRENCY, to)
+  if (!first || !second) return null
+  const rateDate = first.rateDate < second.rateDate ? first.rateDate : second.rateDate
+  return {
+    from,
+    to,
+    rate: roundRate(first.rate * second.rate),
+    rateDate,
+    source: first.source === second.source ? first.source : `${first.source}/${second.source}`,
+    method: 'CROSS',
+    stale: dayKey(rateDate) < day,
+  }
+}
+
+/** Amount in cents converted at a rate */
+export function convertAmountCents(amountCents: number, rate: number): number {
+  return Math.round(amountCents * rate)
+}
+
+// Dates in the files are ISO (2025-03-31) or day first (31/03/2025, 31-03-2025)
+function parseRateDate(value: string): Date | null {
+  let iso = value
+  const dayFirst = /^(\d{2})[/.-](\d{2})[/.-](\d{4})$/.exec(value)
+  if (dayFirst) iso = `${dayFirst[3]}-${dayFirst[2]}-${dayFirst[1]}`
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) return null
+  const date = new Date(`${iso}T00:00:00.000Z`)
+  return Number.isFinite(date.getTime()) && dayKey(date) === iso ? date : null
+}
+
+/**
+ * Parse a central bank rate file: CSV with a header naming the date,
+ * currency and rate columns, and optionally units when a rate is quoted per
+ * 100 or 1000 units. Rates are local currency per foreign unit, so each row
+ * becomes a quote from the foreign currency into the bank's currency.
+ */
+export function parseCentralBankRates(content: string, source: OfficialRateSource): RateQuote[] {
+  const local = OFFICIAL_RATE_SOURCES[source]
+  const rows = content
+    .split(/\r?\n/)
+    .map((line, index) => ({ number: index + 1, cells: line.split(',').map((c) => c.trim().replace(/^"(.*)"$/, '$1').trim()) }))
+    .filter((row) => row.cells.some((c) => c !== ''))
+  if (rows.length === 0) throw new Error('Rate file is empty')
+
+  const header = rows[0].cells.map((c) => c.toLowerCase())
+  const column = (name: string) => header.indexOf(name)
+  const [dateCol, currencyCol, rateCol, unitsCol] = [column('date'), column('currency'), column('rate'), column('units')]
+  if (dateCol < 0 || currencyCol < 0 || rateCol < 0) {
+    throw new Error('Rate file must have date, currency and rate columns')
+  }
+
+  const errors: string[] = []
+  const seen = new Set<string>()
+  const quotes: RateQuote[] = []
+  for (const row of rows.slice(1)) {
+    const rateDate = parseRateDate(row.cells[dateCol] ?? '')
+    const currency = (row.cells[currencyCol] ?? '').toUpperCase()
+    const rate = Number(row.cells[rateCol])
+    const units = unitsCol >= 0 && row.cells[unitsCol] ? Number(row.cells[unitsCol]) : 1
+
+    if (!rateDate) errors.push(`line ${row.number}: invalid date`)
+    else if (!/^[A-Z]{3}$/.test(currency) || currency === local) errors.push(`line ${row.number}: invalid currency`)
+    else if (!Number.isFinite(rate) || rate <= 0 || !Number.isFinite(units) || units <= 0) errors.push(`line ${row.number}: invalid rate`)
+    else if (seen.has(`${currency}:${dayKey(rateDate)}`)) errors.push(`line ${row.number}: duplicate rate for ${currency} on ${dayKey(rateDate)}`)
+    else {
+      seen.add(`${currency}:${dayKey(rateDate)}`)
+      quotes.push({ base: currency, target: local, rate: roundRate(rate / units), rateDate, source })
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid rate file: ${errors.slice(0, 10).join('; ')}${errors.length > 10 ? ` and ${errors.length - 10} more` : ''}`)
+  }
+  if (quotes.length === 0) throw new Error('Rate file is empty')
+  return quotes
+}
+
+/** Receivables are assets; payables and reimbursements owed are liabilities */
+export type FxSide = 'RECEIVABLE' | 'PAYABLE'
+
+/**
+ * Base currency amounts of settling part of a document. A gain is more base
+ * currency received, or less paid, than the document was booked at.
+ */
+export function settlementDifference(side: FxSide, amountCents: number, bookedRate: number, settlementRate: number) {
+  const bookedBaseCents = convertAmountCents(amountCents, bookedRate)
+  const settledBaseCents = convertAmountCents(amountCents, settlementRate)
+  const gainCents = side === 'RECEIVABLE' ? settledBaseCents - bookedBaseCents : bookedBaseCents - settledBaseCents
+  return { bookedBaseCents, settledBaseCents, gainCents }
+}
+
+/**
+ * Base currency amounts of customer money or credit received at one rate
+ * and applied to invoices booked at their own rates. Each applied part
+ * relieves receivables at its invoice's rate; the unapplied rest stays in
+ * receivables as customer credit at the receipt rate.
+ */
+export function receiptDifference(amountCents: number, applied: Array<{ amountCents: number; bookedRate: number }>, rate: number) {
+  const unappliedCents = amountCents - applied.reduce((sum, a) => sum + a.amountCents, 0)
+  const unappliedBaseCents = convertAmountCents(unappliedCents, rate)
+  return applied.reduce(
+    (total, a) => {
+      const part = settlementDifference('RECEIVABLE', a.amountCents, a.bookedRate, rate)
+      return {
+        bookedBaseCents: total.bookedBaseCents + part.bookedBaseCents,
+        settledBaseCents: total.settledBaseCents + part.settledBaseCents,
+        gainCents: total.gainCents + part.gainCents,
+      }
+    },
+    { bookedBaseCents: unappliedBaseCents, settledBaseCents: unappliedBaseCents, gainCents: 0 }
+  )
+}
+
+export interface OpenForeignItem {
+  documentType: 'INVOICE' | 'BILL' | 'EXPENSE'
+  documentId: string
+  label: string
+  account: Extract<SystemAccountKey, 'ACCOUNTS_RECEIVABLE' | 'ACCOUNTS_PAYABLE' | 'REIMBURSEMENTS_PAYABLE'>
+  currency: string
+  openCents: number // In the document currency
+  bookedBaseCents: number // Carried in the ledger at the document's rate
+}
+
+export interface RevaluedItem extends OpenForeignItem {
+  rate: number
+  rateDate: string
+  revaluedBaseCents: number
+  gainCents: number
+}
+
+/**
+ * Revalue open foreign-currency items at month-end rates. Items whose
+ * currency has no rate are returned separately and left at their booked value.
+ */
+export function revalueOpenItems(items: OpenForeignItem[], rates: Map<string, ResolvedRate>) {
+  const revalued: RevaluedItem[] = []
+  const missingRates = new Set<string>()
+  for (const item of items) {
+    const rate = rates.get(item.currency)
+    if (!rate) {
+      missingRates.add(item.currency)
+      continue
+    }
+    const revaluedBaseCents = convertAmountCents(item.openCents, rate.rate)
+    const change = revaluedBaseCents - item.bookedBaseCents
+    revalued.push({
+      ...item,
+      rate: rate.rate,
+      rateDate: dayKey(rate.rateDate),
+      revaluedBaseCents,
+      gainCents: item.account === 'ACCOUNTS_RECEIVABLE' ? change : -change,
+    })
+  }
+  return {
+    items: revalued,
+    missingRates: Array.from(missingRates).sort(),
+    gainCents: revalued.reduce((sum, i) => sum + i.gainCents, 0),
+  }
+}
+
+/**
+ * Journal lines moving each balance to its revalued amount against the
+ * unrealized exchange gains and losses account
+ */
+export function revaluationJournalLines(
+  items: RevaluedItem[],
+  accounts: Record<SystemAccountKey, string>
+): JournalLineInput[] {
+  const changes = new Map<RevaluedItem['account'], number>()
+  for (const item of items) {
+    changes.set(item.account, (changes.get(item.account) ?? 0) + item.revaluedBaseCents - item.bookedBaseCents)
+  }
+
+  const lines: JournalLineInput[] = []
+  let gainCents = 0
+  for (const [key, change] of Array.from(changes.entries())) {
+    if (change === 0) continue
+    // Receivables carry debit balances, payables credit balances
+    const debit = key === 'ACCOUNTS_RECEIVABLE' ? change > 0 : change < 0
+    lines.push(debit
+      ? { accountId: accounts[key], debitCents: Math.abs(change), description: 'Month-end revaluation' }
+      : { accountId: accounts[key], creditCents: Math.abs(change), description: 'Month-end revaluation' })
+    gainCents += key === 'ACCOUNTS_RECEIVABLE' ? change : -change
+  }
+  if (gainCents > 0) lines.push({ accountId: accounts.UNREALIZED_FX, creditCents: gainCents, description: 'Unrealized exchange gain' })
+  if (gainCents < 0) lines.push({ accountId: accounts.UNREALIZED_FX, debitCents: -gainCents, description: 'Unrealized exchange loss' })
+  return lines
+}
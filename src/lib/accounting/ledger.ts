@@ -0,0 +1,84 @@
+/**
+ * Double-entry helpers
+ * Pure functions used by the posting service and the statements engine
+ */
+
+import type { JournalLineInput, JournalTotals, LedgerAccountType } from './types'
+
+/**
+ * Sum debits and credits across a set of journal lines
+ */
+export function sumJournalLines(lines: Array<{ debitCents?: number; creditCents?: number }>): JournalTotals {
+  return lines.reduce<JournalTotals>(
+    (acc, line) => ({
+      debitCents: acc.debitCents + (line.debitCents || 0),
+      creditCents: acc.creditCents + (line.creditCents || 0),
+    }),
+    { debitCents: 0, creditCents: 0 }
+  )
+}
+
+/**
+ * Validate journal lines before posting.
+ * Throws when an entry has fewer than two lines, a line carries both or
+ * neither side, amounts are not positive whole cents, or debits != credits.
+ */
+export function assertBalanced(lines: JournalLineInput[]): JournalTotals {
+  if (!Array.isArray(lines) || lines.length < 2) {
+    throw new Error('Journal entry requires at least two lines')
+  }
+
+  for (const line of lines) {
+    const debit = line.debitCents || 0
+    const credit = line.creditCents || 0
+
+    if (!line.accountId) {
+      throw new Error('Journal line is missing an account')
+    }
+    if (!Number.isInteger(debit) || !Number.isInteger(credit) || debit < 0 || credit < 0) {
+      throw new Error('Journal line amounts must be non-negative whole cents')
+    }
+    if ((debit > 0 && credit > 0) || (debit === 0 && credit === 0)) {
+      throw new Error('Journal line must carry either a debit or a credit')
+    }
+  }
+
+  const totals = sumJournalLines(lines)
+  if (totals.debitCents !== totals.creditCents) {
+    throw new Error(
+      `Journal entry is not balanced: debits ${totals.debitCents} != credits ${totals.creditCents}`
+    )
+  }
+
+  return totals
+}
+
+/**
+ * Build the lines of a reversing entry by swapping debits and credits
+ */
+export function buildReversalLines(
+  lines: Array<{ accountId: string; debitCents: number; creditCents: number; description?: string | null }>
+): JournalLineInput[] {
+  return lines.map((line) => ({
+    accountId: line.accountId,
+    debitCents: line.creditCents,
+    creditCents: line.debitCents,
+    description: line.description ?? undefined,
+  }))
+}
+
+/**
+ * Assets and expenses carry a natural debit balance; everything else credit
+ */
+export function isDebitNormal(type: LedgerAccountType): boolean {
+  return type === 'ASSET' || type === 'EXPENSE'
+}
+
+/**
+ * Account balance expressed in its natural direction (positive = normal)
+ */
+export function naturalBalance(type: LedgerAccountType, totals: JournalTotals): number {
+  return isDebitNormal(type)
+    ? totals.debitCents - totals.creditCents
+    : totals.creditCents - totals.debitCents
+}
@@ -0,0 +1,365 @@
+/**
+ * Period Close Service
+ * Locks date ranges per entity, runs the pre-close checklist and guards
+ * writes into closed periods. Re-opening requires an approved Approval.
+ */
+
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { ledgerPostingService } from './posting-service'
+
+export interface PeriodRange {
+  name?: string
+  startDate: Date
+  endDate: Date
+}
+
+export interface ChecklistItem {
+  key: 'unmatched_bank_transactions' | 'unapproved_bills' | 'draft_invoices'
+  label: string
+  count: number
+  passed: boolean
+}
+
+export interface PeriodChecklist {
+  items: ChecklistItem[]
+  passed: boolean
+  checkedAt: string
+}
+
+const CHECKLIST_LABELS: Record<ChecklistItem['key'], string> = {
+  unmatched_bank_transactions: 'Bank transactions not matched to a document',
+  unapproved_bills: 'Bills awaiting approval',
+  draft_invoices: 'Invoices still in draft',
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Whether two inclusive date ranges share at least one instant
+ */
+export function periodsOverlap(a: PeriodRange, b: PeriodRange): boolean {
+  return a.startDate.getTime() <= b.endDate.getTime() && b.startDate.getTime() <= a.endDate.getTime()
+}
+
+/**
+ * The period (if any) whose inclusive range contains the date
+ */
+export function findPeriodContaining<T extends PeriodRange>(periods: T[], date: Date): T | undefined {
+  const time = date.getTime()
+  return periods.find((p) => p.startDate.getTime() <= time && time <= p.endDate.getTime())
+}
+
+export function buildChecklist(counts: Record<ChecklistItem['key'], number>): PeriodChecklist {
+  const items = (Object.keys(CHECKLIST_LABELS) as ChecklistItem['key'][]).map((key) => ({
+    key,
+    label: CHECKLIST_LABELS[key],
+    count: counts[key] || 0,
+    passed: (counts[key] || 0) === 0,
+  }))
+
+  return {
+    items,
+    passed: items.every((item) => item.passed),
+    checkedAt: new Date().toISOString(),
+  }
+}
+
+export function closedPeriodMessage(date: Date, period: PeriodRange): string {
+  return (
+    `Period closed: ${toDay(date)} falls in closed period "${period.name}" ` +
+    `(${toDay(period.startDate)} to ${toDay(period.endDate)})`
+  )
+}
+
+export class PeriodCloseService {
+  async listPeriods(tenantId: string, entityId: string) {
+    return prisma.accountingPeriod.findMany({
+      where: { tenantId, entityId },
+      orderBy: { startDate: 'desc' },
+    })
+  }
+
+  async getPeriod(tenantId: string, entityId: string, periodId: string) {
+    const period = await prisma.accountingPeriod.findFirst({
+      where: { id: periodId, tenantId, entityId },
+    })
+    if (!period) {
+      throw new Error('Accounting period not found')
+    }
+    return period
+  }
+
+  /**
+   * Define a period; periods of one entity may not overlap
+   */
+  async createPeriod(tenantId: string, entityId: string, input: PeriodRange, userId?: string | null) {
+    if (input.startDate.getTime() > input.endDate.getTime()) {
+      throw new Error('Invalid period: start date must be on or before end date')
+    }
+
+    const overlapping = await prisma.accountingPeriod.findFirst({
+      where: {
+        tenantId,
+        entityId,
+        startDate: { lte: input.endDate },
+        endDate: { gte: input.startDate },
+      },
+      select: { id: true, name: true },
+    })
+    if (overlapping) {
+      throw new Error(`Invalid period: overlaps existing period "${overlapping.name}"`)
+    }
+
+    return prisma.accountingPeriod.create({
+      data: {
+        tenantId,
+        entityId,
+        name: input.name || `${toDay(input.startDate)} to ${toDay(input.endDate)}`,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        createdBy: userId ?? null,
+      },
+    })
+  }
+
+  /**
+   * Count the items that should be cleared before the period is closed
+   */
+  async runChecklist(tenantId: string, entityId: string, periodId: string): Promise<PeriodChecklist> {
+    const period = await this.getPeriod(tenantId, entityId, periodId)
+    const range = { gte: period.startDate, lte: period.endDate }
+
+    const [unmatchedBankTransactions, unapprovedBills, draftInvoices] = await Promise.all([
+      prisma.bankingTransaction.count({
+        where: { tenantId, matched: false, date: range, connection: { entityId } },
+      }),
+      prisma.bill.count({
+        where: { tenantId, entityId, status: 'PENDING', date: range },
+      }),
+      prisma.invoice.count({
+        where: { tenantId, entityId, status: 'DRAFT', createdAt: range },
+      }),
+    ])
+
+    return buildChecklist({
+      unmatched_bank_transactions: unmatchedBankTransactions,
+      unapproved_bills: unapprovedBills,
+      draft_invoices: draftInvoices,
+    })
+  }
+
+  /**
+   * Close a period. The checklist must pass unless `force` is set, in
+   * which case the open items are recorded on the period and in the audit log.
+   */
+  async closePeriod(
+    tenantId: string,
+    entityId: string,
+    periodId: string,
+    userId: string,
+    options: { force?: boolean } = {}
+  ) {
+    const period = await this.getPeriod(tenantId, entityId, periodId)
+    if (period.status === 'CLOSED') {
+      throw new Error('Accounting period is already closed')
+    }
+
+    const checklist = await this.runChecklist(tenantId, entityId, periodId)
+    if (!checklist.passed && !options.force) {
+      const open = checklist.items.filter((i) => !i.passed).map((i) => `${i.label} (${i.count})`)
+      throw new Error(`Period close checklist has open items: ${open.join(', ')}`)
+    }
+
+    const closed = await prisma.accountingPeriod.update({
+      where: { id: period.id },
+      data: {
+        status: 'CLOSED',
+        closedAt: new Date(),
+        closedBy: userId,
+        checklist: checklist as any,
+      },
+    })
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'accounting.period.close',
+      resource: 'accounting_period',
+      metadata: {
+        entityId,
+        periodId: period.id,
+        startDate: toDay(period.startDate),
+        endDate: toDay(period.endDate),
+        forced: Boolean(options.force) && !checklist.passed,
+        checklist,
+      },
+    })
+
+    logger.info('Accounting period closed', { tenantId, entityId, periodId: period.id })
+    return closed
+  }
+
+  /**
+   * Ask an approver to sign off re-opening a closed period
+   */
+  async requestReopen(
+    tenantId: string,
+    entityId: string,
+    periodId: string,
+    userId: string,
+    input: { approverId: string; reason: string }
+  ) {
+    const period = await this.getPeriod(tenantId, entityId, periodId)
+    if (period.status !== 'CLOSED') {
+      throw new Error('Accounting period is not closed')
+    }
+
+    const approver = await prisma.user.findFirst({
+      where: { id: input.approverId, tenantId },
+      select: { id: true, name: true },
+    })
+    if (!approver) {
+      throw new Error('Approver not found')
+    }
+    if (approver.id === userId) {
+      throw new Error('Invalid approver: re-opening cannot be self-approved')
+    }
+
+    const approval = await prisma.approval.create({
+      data: {
+        tenantId,
+        itemType: 'ACCOUNTING_PERIOD',
+        itemId: period.id,
+        itemData: {
+          entityId,
+          name: period.name,
+          startDate: toDay(period.startDate),
+          endDate: toDay(period.endDate),
+        },
+        requesterId: userId,
+        approverId: approver.id,
+        approverName: approver.name,
+        priority: 'HIGH',
+        reason: input.reason,
+      },
+    })
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'accounting.period.reopen_requested',
+      resource: 'accounting_period',
+      metadata: { entityId, periodId: period.id, approvalId: approval.id, reason: input.reason },
+    })
+
+    return approval
+  }
+
+  /**
+   * Re-open a closed period against an approved, unused re-open Approval
+   */
+  async reopenPeriod(tenantId: string, entityId: string, periodId: string, userId: string, approvalId: string) {
+    const period = await this.getPeriod(tenantId, entityId, periodId)
+    if (period.status !== 'CLOSED') {
+      throw new Error('Accounting period is not closed')
+    }
+
+    const approval = await prisma.approval.findFirst({
+      where: { id: approvalId, tenantId, itemType: 'ACCOUNTING_PERIOD', itemId: period.id },
+    })
+    if (!approval) {
+      throw new Error('Approval not found')
+    }
+    if (approval.status !== 'APPROVED') {
+      throw new Error('Re-opening requires an approved Approval')
+    }
+    if (approval.usedAt) {
+      throw new Error('Approval has already been used to re-open this period')
+    }
+
+    // The approval is spent in the same write that re-opens the period, so it cannot be replayed
+    const reopened = await prisma.$transaction(async (tx) => {
+      const used = await tx.approval.updateMany({
+        where: { id: approval.id, tenantId, itemType: 'ACCOUNTING_PERIOD', itemId: period.id, status: 'APPROVED', usedAt: null },
+        data: { usedAt: new Date() },
+      })
+      if (used.count === 0) {
+        throw new Error('Approval has already been used to re-open this period')
+      }
+
+      const updated = await tx.accountingPeriod.updateMany({
+        where: { id: period.id, status: 'CLOSED' },
+        data: {
+          status: 'OPEN',
+          reopenedAt: new Date(),
+          reopenedBy: userId,
+          reopenApprovalId: approval.id,
+        },
+      })
+      if (updated.count === 0) {
+        throw new Error('Accounting period is not closed')
+      }
+      return tx.accountingPeriod.findUniqueOrThrow({ where: { id: period.id } })
+    })
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'accounting.period.reopen',
+      resource: 'accounting_period',
+      metadata: {
+        entityId,
+        periodId: period.id,
+        approvalId: approval.id,
+        approvedBy: approval.decisionBy,
+        reason: approval.reason,
+      },
+    })
+
+    logger.info('Accounting period re-opened', { tenantId, entityId, periodId: period.id })
+    return reopened
+  }
+
+  /**
+   * Throw when a write dated `date` would land in a closed period.
+   * Documents without an entity are checked against the entity their
+   * ledger postings would use.
+   */
+  async assertDateOpen(tenantId: string, entityId: string | null | undefined, date: Date): Promise<void> {
+    const resolved = await ledgerPostingService.resolveEntityId(tenantId, entityId)
+    if (!resolved) return
+
+    const period = await prisma.accountingPeriod.findFirst({
+      where: {
+        tenantId,
+        entityId: resolved,
+        status: 'CLOSED',
+        startDate: { lte: date },
+        endDate: { gte: date },
+      },
+      select: { name: true, startDate: true, endDate: true },
+    })
+    if (period) {
+      throw new Error(closedPeriodMessage(date, period))
+    }
+  }
+
+  /**
+   * Check every date of a write (e.g. the old and new date of an update)
+   */
+  async assertDatesOpen(
+    tenantId: string,
+    entityId: string | null | undefined,
+    dates: Array<Date | null | undefined>
+  ): Promise<void> {
+    for (const date of dates) {
+      if (date) await this.assertDateOpen(tenantId, entityId, date)
+    }
+  }
+}
+
+export const periodCloseService = new PeriodCloseService()
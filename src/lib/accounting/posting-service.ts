@@ -0,0 +1,910 @@
+/**
+ * Ledger Posting Service
+ * Posts balanced journal entries for invoices, bills, expenses and bank matches
+ */
+
+import prisma from '@/lib/prisma'
+import type { Prisma } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import { getSystemAccounts } from './chart-of-accounts'
+import { assertBalanced, buildReversalLines } from './ledger'
+import { periodCloseService } from './period-close'
+import { convertAmountCents, receiptDifference, settlementDifference, type FxSide } from './fx'
+import { fxService, type DocumentRate } from './fx-service'
+import type { JournalEntryInput, JournalLineInput, JournalSourceType, SystemAccountKey } from './types'
+
+type Db = Prisma.TransactionClient
+
+interface InvoiceLike {
+  id: string
+  tenantId: string
+  entityId?: string | null
+  number?: string | null
+  currency: string
+  totalCents: number
+  createdAt: Date
+  paidAt?: Date | null
+  baseCurrency?: string | null
+  exchangeRate?: number | null
+}
+
+interface BillLike {
+  id: string
+  tenantId: string
+  entityId?: string | null
+  billNumber?: string | null
+  vendor: string
+  amount: number
+  whtAmount?: number
+  currency: string
+  date: Date
+  baseCurrency?: string | null
+  exchangeRate?: number | null
+}
+
+interface ExpenseLike {
+  id: string
+  tenantId: string
+  entityId?: string | null
+  vendor: string
+  amountCents: number
+  currency: string
+  date: Date
+  baseCurrency?: string | null
+  exchangeRate?: number | null
+}
+
+interface BankAllocationLike {
+  id: string
+  tenantId: string
+  transactionId: string
+  targetType: 'invoice' | 'bill' | 'expense' | 'account'
+  targetId: string
+  amountCents: number
+  description?: string | null
+}
+
+interface PaymentLike {
+  id: string
+  tenantId: string
+  entityId?: string | null
+  currency: string
+  amountCents: number
+  method: string
+  reference?: string | null
+  receivedAt: Date
+  allocations?: AllocationLike[]
+}
+
+interface CreditNoteLike {
+  id: string
+  tenantId: string
+  entityId?: string | null
+  number: string
+  currency: string
+  totalCents: number
+  issuedAt: Date
+  allocations?: AllocationLike[]
+}
+
+interface AllocationLike {
+  invoiceId: string
+  amountCents: number
+}
+
+interface RefundLike {
+  id: string
+  tenantId: string
+  paymentId?: string | null
+  creditNoteId?: string | null
+  currency: string
+  amountCents: number
+}
+
+interface PostingOptions {
+  userId?: string | null
+  date?: Date
+  entityId?: string | null
+}
+
+interface SettlementOptions extends PostingOptions {
+  bankingTransactionId?: string
+  exchangeRate?: number // Settlement rate into the base currency; looked up for the payment date when omitted
+}
+
+const journalInclude = {
+  lines: { orderBy: { lineOrder: 'asc' as const } },
+}
+
+/**
+ * Entry metadata recording the document amount and rate behind a
+ * foreign-currency posting
+ */
+function fxMetadata(currency: string, amountCents: number, rate: DocumentRate) {
+  if (currency === rate.baseCurrency) return undefined
+  return { transactionCurrency: currency, transactionAmountCents: amountCents, exchangeRate: rate.exchangeRate }
+}
+
+/**
+ * Realized exchange difference: a gain is credited, a loss debited
+ */
+function realizedFxLines(accounts: Record<SystemAccountKey, string>, gainCents: number): JournalLineInput[] {
+  if (gainCents > 0) return [{ accountId: accounts.REALIZED_FX, creditCents: gainCents, description: 'Realized exchange gain' }]
+  if (gainCents < 0) return [{ accountId: accounts.REALIZED_FX, debitCents: -gainCents, description: 'Realized exchange loss' }]
+  return []
+}
+
+export class LedgerPostingService {
+  /**
+   * Resolve the entity whose books a document posts to.
+   * Falls back to the tenant's oldest top-level entity when the
+   * document does not name one; returns null when the tenant has none.
+   */
+  async resolveEntityId(tenantId: string, entityId?: string | null): Promise<string | null> {
+    if (entityId) {
+      const entity = await prisma.entity.findFirst({
+        where: { id: entityId, tenantId },
+        select: { id: true },
+      })
+      if (!entity) {
+        throw new Error('Entity not found or unauthorized')
+      }
+      return entity.id
+    }
+
+    const primary = await prisma.entity.findFirst({
+      where: { tenantId, parentEntityId: null },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    })
+    return primary?.id ?? null
+  }
+
+  /**
+   * Find the live (not reversed) entry for a source document, if any
+   */
+  async findPostedEntry(tenantId: string, sourceType: JournalSourceType, sourceId: string) {
+    return prisma.journalEntry.findFirst({
+      where: { tenantId, sourceType, sourceId, status: 'POSTED' },
+      include: journalInclude,
+    })
+  }
+
+  /**
+   * List journal entries for an entity, newest first
+   */
+  async listJournalEntries(
+    tenantId: string,
+    entityId: string,
+    filters: { from?: Date; to?: Date; sourceType?: string; limit?: number; offset?: number } = {}
+  ) {
+    const where: any = { tenantId, entityId }
+    if (filters.sourceType) where.sourceType = filters.sourceType
+    if (filters.from || filters.to) {
+      where.date = {}
+      if (filters.from) where.date.gte = filters.from
+      if (filters.to) where.date.lte = filters.to
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.journalEntry.findMany({
+        where,
+        include: journalInclude,
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        take: Math.min(filters.limit ?? 50, 200),
+        skip: filters.offset ?? 0,
+      }),
+      prisma.journalEntry.count({ where }),
+    ])
+
+    return { entries, total }
+  }
+
+  /**
+   * Post a journal entry. Unbalanced entries and lines referencing
+   * accounts outside the entity's chart are rejected. Pass a transaction
+   * client to post it as part of a larger write.
+   */
+  async postJournalEntry(input: JournalEntryInput, db: Db = prisma) {
+    assertBalanced(input.lines)
+    await periodCloseService.assertDateOpen(input.tenantId, input.entityId, input.date)
+
+    const accountIds = Array.from(new Set(input.lines.map((line) => line.accountId)))
+    const accounts = await db.ledgerAccount.findMany({
+      where: { id: { in: accountIds }, tenantId: input.tenantId, entityId: input.entityId, isActive: true },
+      select: { id: true },
+    })
+    if (accounts.length !== accountIds.length) {
+      throw new Error('Journal line references an unknown or inactive account')
+    }
+
+    const entry = await db.journalEntry.create({
+      data: {
+        tenantId: input.tenantId,
+        entityId: input.entityId,
+        date: input.date,
+        description: input.description,
+        currency: (input.currency || 'USD').toUpperCase(),
+        sourceType: input.sourceType,
+        sourceId: input.sourceId ?? null,
+        createdBy: input.createdBy ?? null,
+        metadata: (input.metadata as any) ?? undefined,
+        lines: {
+          create: input.lines.map((line, index) => ({
+            accountId: line.accountId,
+            debitCents: line.debitCents || 0,
+            creditCents: line.creditCents || 0,
+            description: line.description,
+            lineOrder: index,
+          })),
+        },
+      },
+      include: journalInclude,
+    })
+
+    logger.info('Journal entry posted', {
+      journalEntryId: entry.id,
+      tenantId: input.tenantId,
+      entityId: input.entityId,
+      sourceType: input.sourceType,
+      sourceId: input.sourceId,
+    })
+
+    return entry
+  }
+
+  /**
+   * Reverse a posted entry. Posted entries are never edited or deleted;
+   * the reversal mirrors every line and marks the original as REVERSED.
+   * Within a transaction client the reversal joins that transaction.
+   */
+  async reverseJournalEntry(
+    tenantId: string,
+    journalEntryId: string,
+    options: { entityId?: string | null; userId?: string | null; reason?: string; date?: Date } = {},
+    db?: Db
+  ) {
+    const original = await (db ?? prisma).journalEntry.findFirst({
+      where: { id: journalEntryId, tenantId, ...(options.entityId ? { entityId: options.entityId } : {}) },
+      include: journalInclude,
+    })
+
+    if (!original) {
+      throw new Error('Journal entry not found')
+    }
+    if (original.status === 'REVERSED') {
+      throw new Error('Journal entry has already been reversed')
+    }
+    if (original.reversalOfId) {
+      throw new Error('Reversing entries cannot be reversed')
+    }
+
+    const lines = buildReversalLines(original.lines)
+    assertBalanced(lines)
+
+    // The original may sit in a closed period; only the reversal date must be open
+    const reversalDate = options.date ?? new Date()
+    await periodCloseService.assertDateOpen(tenantId, original.entityId, reversalDate)
+
+    const write = async (tx: Db) => {
+      const created = await tx.journalEntry.create({
+        data: {
+          tenantId,
+          entityId: original.entityId,
+          date: reversalDate,
+          description: `Reversal of: ${original.description}`,
+          currency: original.currency,
+          sourceType: 'REVERSAL',
+          sourceId: original.id,
+          reversalOfId: original.id,
+          createdBy: options.userId ?? null,
+          metadata: options.reason ? { reason: options.reason } : undefined,
+          lines: {
+            create: lines.map((line, index) => ({
+              accountId: line.accountId,
+              debitCents: line.debitCents || 0,
+              creditCents: line.creditCents || 0,
+              description: line.description,
+              lineOrder: index,
+            })),
+          },
+        },
+        include: journalInclude,
+      })
+
+      await tx.journalEntry.update({
+        where: { id: original.id },
+        data: { status: 'REVERSED' },
+      })
+
+      return created
+    }
+    const reversal = db ? await write(db) : await prisma.$transaction(write)
+
+    logger.info('Journal entry reversed', { journalEntryId, reversalId: reversal.id, tenantId })
+
+    return reversal
+  }
+
+  /**
+   * Invoice issued: Dr Accounts Receivable / Cr Sales Revenue
+   */
+  async postInvoiceIssued(invoice: InvoiceLike, options: PostingOptions = {}) {
+    if (invoice.totalCents <= 0) return null
+
+    return this.postOnce(invoice.tenantId, options.entityId ?? invoice.entityId, 'INVOICE_ISSUED', invoice.id, async (entityId) => {
+      const accounts = await getSystemAccounts(invoice.tenantId, entityId)
+      const booked = await fxService.bookInvoice(invoice, entityId)
+      const label = invoice.number || invoice.id
+      return {
+        tenantId: invoice.tenantId,
+        entityId,
+        date: options.date ?? invoice.createdAt,
+        description: `Invoice ${label} issued`,
+        currency: booked.baseCurrency,
+        sourceType: 'INVOICE_ISSUED',
+        sourceId: invoice.id,
+        createdBy: options.userId,
+        metadata: fxMetadata(invoice.currency, invoice.totalCents, booked),
+        lines: [
+          { accountId: accounts.ACCOUNTS_RECEIVABLE, debitCents: booked.baseTotalCents },
+          { accountId: accounts.SALES_REVENUE, creditCents: booked.baseTotalCents },
+        ],
+      }
+    })
+  }
+
+  /**
+   * Invoice paid: Dr Bank / Cr Accounts Receivable, with the realized
+   * exchange difference on a foreign-currency invoice
+   */
+  async postInvoicePayment(invoice: InvoiceLike, options: SettlementOptions & { amountCents?: number } = {}) {
+    const amountCents = options.amountCents ?? invoice.totalCents
+    if (amountCents <= 0) return null
+
+    return this.postOnce(invoice.tenantId, options.entityId ?? invoice.entityId, 'INVOICE_PAYMENT', invoice.id, async (entityId) => {
+      const accounts = await getSystemAccounts(invoice.tenantId, entityId)
+      const date = options.date ?? invoice.paidAt ?? new Date()
+      const fx = await this.settlement(invoice.tenantId, entityId, invoice, 'RECEIVABLE', amountCents, date, options)
+      const label = invoice.number || invoice.id
+      return {
+        tenantId: invoice.tenantId,
+        entityId,
+        date,
+        description: `Payment received for invoice ${label}`,
+        currency: fx.currency,
+        sourceType: 'INVOICE_PAYMENT',
+        sourceId: invoice.id,
+        createdBy: options.userId,
+        metadata: this.settlementMetadata(options.bankingTransactionId, fx.metadata),
+        lines: [
+          { accountId: accounts.BANK, debitCents: fx.settledBaseCents },
+          { accountId: accounts.ACCOUNTS_RECEIVABLE, creditCents: fx.bookedBaseCents },
+          ...realizedFxLines(accounts, fx.gainCents),
+        ],
+      }
+    })
+  }
+
+  /**
+   * Bill approved: Dr Operating Expenses / Cr Accounts Payable, and Cr WHT
+   * Payable for tax withheld from the vendor
+   */
+  async postBillApproved(bill: BillLike, options: PostingOptions = {}) {
+    const amountCents = Math.round(bill.amount * 100)
+    const whtCents = Math.round((bill.whtAmount ?? 0) * 100)
+    if (amountCents <= 0) return null
+
+    return this.postOnce(bill.tenantId, options.entityId ?? bill.entityId, 'BILL_APPROVED', bill.id, async (entityId) => {
+      const accounts = await getSystemAccounts(bill.tenantId, entityId)
+      const booked = await fxService.bookBill(bill, entityId)
+      // Payables are carried at the net amount's rounding so that payment and revaluation match it
+      const grossCents = Math.round(booked.baseAmount * 100)
+      const payableCents = convertAmountCents(amountCents - whtCents, booked.exchangeRate)
+      const label = bill.billNumber ? `${bill.vendor} ${bill.billNumber}` : bill.vendor
+      return {
+        tenantId: bill.tenantId,
+        entityId,
+        date: options.date ?? bill.date,
+        description: `Bill approved: ${label}`,
+        currency: booked.baseCurrency,
+        sourceType: 'BILL_APPROVED',
+        sourceId: bill.id,
+        createdBy: options.userId,
+        metadata: fxMetadata(bill.currency, amountCents, booked),
+        lines: [
+          { accountId: accounts.OPERATING_EXPENSES, debitCents: grossCents },
+          { accountId: accounts.ACCOUNTS_PAYABLE, creditCents: payableCents },
+          ...(grossCents > payableCents ? [{ accountId: accounts.WHT_PAYABLE, creditCents: grossCents - payableCents }] : []),
+        ],
+      }
+    })
+  }
+
+  /**
+   * Bill paid: Dr Accounts Payable / Cr Bank, with the realized exchange
+   * difference on a foreign-currency bill
+   */
+  async postBillPayment(bill: BillLike, options: SettlementOptions = {}) {
+    // The vendor is paid net of the tax withheld
+    const amountCents = Math.round((bill.amount - (bill.whtAmount ?? 0)) * 100)
+    if (amountCents <= 0) return null
+
+    return this.postOnce(bill.tenantId, options.entityId ?? bill.entityId, 'BILL_PAYMENT', bill.id, async (entityId) => {
+      const accounts = await getSystemAccounts(bill.tenantId, entityId)
+      const date = options.date ?? new Date()
+      const fx = await this.settlement(bill.tenantId, entityId, bill, 'PAYABLE', amountCents, date, options)
+      return {
+        tenantId: bill.tenantId,
+        entityId,
+        date,
+        description: `Bill paid: ${bill.vendor}`,
+        currency: fx.currency,
+        sourceType: 'BILL_PAYMENT',
+        sourceId: bill.id,
+        createdBy: options.userId,
+        metadata: this.settlementMetadata(options.bankingTransactionId, fx.metadata),
+        lines: [
+          { accountId: accounts.ACCOUNTS_PAYABLE, debitCents: fx.bookedBaseCents },
+          { accountId: accounts.BANK, creditCents: fx.settledBaseCents },
+          ...realizedFxLines(accounts, fx.gainCents),
+        ],
+      }
+    })
+  }
+
+  /**
+   * Expense recorded: Dr Operating Expenses / Cr Reimbursements Payable
+   */
+  async postExpenseRecorded(expense: ExpenseLike, options: PostingOptions = {}) {
+    if (expense.amountCents <= 0) return null
+
+    return this.postOnce(expense.tenantId, options.entityId ?? expense.entityId, 'EXPENSE_RECORDED', expense.id, async (entityId) => {
+      const accounts = await getSystemAccounts(expense.tenantId, entityId)
+      const booked = await fxService.bookExpense(expense, entityId)
+      return {
+        tenantId: expense.tenantId,
+        entityId,
+        date: options.date ?? expense.date,
+        description: `Expense recorded: ${expense.vendor}`,
+        currency: booked.baseCurrency,
+        sourceType: 'EXPENSE_RECORDED',
+        sourceId: expense.id,
+        createdBy: options.userId,
+        metadata: fxMetadata(expense.currency, expense.amountCents, booked),
+        lines: [
+          { accountId: accounts.OPERATING_EXPENSES, debitCents: booked.baseAmountCents },
+          { accountId: accounts.REIMBURSEMENTS_PAYABLE, creditCents: booked.baseAmountCents },
+        ],
+      }
+    })
+  }
+
+  /**
+   * Expense settled from the bank: Dr Reimbursements Payable / Cr Bank,
+   * with the realized exchange difference on a foreign-currency expense
+   */
+  async postExpenseReimbursement(expense: ExpenseLike, options: SettlementOptions = {}) {
+    if (expense.amountCents <= 0) return null
+
+    return this.postOnce(expense.tenantId, options.entityId ?? expense.entityId, 'EXPENSE_REIMBURSEMENT', expense.id, async (entityId) => {
+      const accounts = await getSystemAccounts(expense.tenantId, entityId)
+      const date = options.date ?? new Date()
+      const fx = await this.settlement(expense.tenantId, entityId, expense, 'PAYABLE', expense.amountCents, date, options)
+      return {
+        tenantId: expense.tenantId,
+        entityId,
+        date,
+        description: `Expense reimbursed: ${expense.vendor}`,
+        currency: fx.currency,
+        sourceType: 'EXPENSE_REIMBURSEMENT',
+        sourceId: expense.id,
+        createdBy: options.userId,
+        metadata: this.settlementMetadata(options.bankingTransactionId, fx.metadata),
+        lines: [
+          { accountId: accounts.REIMBURSEMENTS_PAYABLE, debitCents: fx.bookedBaseCents },
+          { accountId: accounts.BANK, creditCents: fx.settledBaseCents },
+          ...realizedFxLines(accounts, fx.gainCents),
+        ],
+      }
+    })
+  }
+
+  /**
+   * Customer payment received: Dr Bank / Cr Accounts Receivable.
+   * The full amount credits receivables, so any unapplied part sits
+   * there as customer credit until it is allocated or refunded. Foreign
+   * money is converted at the receipt date and realizes the difference
+   * to the booked rate of each invoice it pays.
+   */
+  async postPaymentReceived(payment: PaymentLike, options: PostingOptions = {}) {
+    if (payment.amountCents <= 0) return null
+
+    return this.postOnce(payment.tenantId, options.entityId ?? payment.entityId, 'PAYMENT_RECEIVED', payment.id, async (entityId) => {
+      const accounts = await getSystemAccounts(payment.tenantId, entityId)
+      const date = options.date ?? payment.receivedAt
+      const fx = await this.receipt(payment.tenantId, entityId, payment.currency, payment.amountCents, payment.allocations ?? [], date)
+      return {
+        tenantId: payment.tenantId,
+        entityId,
+        date,
+        description: `Payment received (${payment.method})${payment.reference ? `: ${payment.reference}` : ''}`,
+        currency: fx.currency,
+        sourceType: 'PAYMENT_RECEIVED',
+        sourceId: payment.id,
+        createdBy: options.userId,
+        metadata: fx.metadata,
+        lines: [
+          { accountId: accounts.BANK, debitCents: fx.settledBaseCents },
+          { accountId: accounts.ACCOUNTS_RECEIVABLE, creditCents: fx.bookedBaseCents },
+          ...realizedFxLines(accounts, fx.gainCents),
+        ],
+      }
+    })
+  }
+
+  /**
+   * Credit note issued: Dr Sales Revenue / Cr Accounts Receivable, converted
+   * like a payment received on the issue date
+   */
+  async postCreditNoteIssued(creditNote: CreditNoteLike, options: PostingOptions = {}) {
+    if (creditNote.totalCents <= 0) return null
+
+    return this.postOnce(creditNote.tenantId, options.entityId ?? creditNote.entityId, 'CREDIT_NOTE_ISSUED', creditNote.id, async (entityId) => {
+      const accounts = await getSystemAccounts(creditNote.tenantId, entityId)
+      const date = options.date ?? creditNote.issuedAt
+      const fx = await this.receipt(creditNote.tenantId, entityId, creditNote.currency, creditNote.totalCents, creditNote.allocations ?? [], date)
+      return {
+        tenantId: creditNote.tenantId,
+        entityId,
+        date,
+        description: `Credit note ${creditNote.number} issued`,
+        currency: fx.currency,
+        sourceType: 'CREDIT_NOTE_ISSUED',
+        sourceId: creditNote.id,
+        createdBy: options.userId,
+        metadata: fx.metadata,
+        lines: [
+          { accountId: accounts.SALES_REVENUE, debitCents: fx.settledBaseCents },
+          { accountId: accounts.ACCOUNTS_RECEIVABLE, creditCents: fx.bookedBaseCents },
+          ...realizedFxLines(accounts, fx.gainCents),
+        ],
+      }
+    })
+  }
+
+  /**
+   * Customer credit applied to an invoice after it was received. Receivables
+   * carry the credit at the rate of its own date, so the invoice's part is
+   * moved to the invoice's booked rate and the difference realized.
+   * Nothing is posted when both rates agree.
+   */
+  async postCreditApplied(
+    allocation: AllocationLike & { id: string; tenantId: string },
+    credit: { entityId?: string | null; currency: string; date: Date },
+    options: PostingOptions = {}
+  ) {
+    if (allocation.amountCents <= 0) return null
+
+    return this.postOnce(allocation.tenantId, options.entityId ?? credit.entityId, 'CREDIT_APPLIED', allocation.id, async (entityId) => {
+      const baseCurrency = await fxService.baseCurrency(allocation.tenantId, entityId)
+      if (credit.currency === baseCurrency) return null
+
+      const creditRate = (await fxService.rateOn(credit.currency, baseCurrency, credit.date)).rate
+      const [bookedRate] = await this.invoiceRates(allocation.tenantId, baseCurrency, [allocation], creditRate)
+      const { gainCents } = settlementDifference('RECEIVABLE', allocation.amountCents, bookedRate, creditRate)
+      if (gainCents === 0) return null
+
+      const accounts = await getSystemAccounts(allocation.tenantId, entityId)
+      return {
+        tenantId: allocation.tenantId,
+        entityId,
+        date: options.date ?? new Date(),
+        description: 'Customer credit applied to invoice',
+        currency: baseCurrency,
+        sourceType: 'CREDIT_APPLIED',
+        sourceId: allocation.id,
+        createdBy: options.userId,
+        metadata: {
+          invoiceId: allocation.invoiceId,
+          transactionCurrency: credit.currency,
+          transactionAmountCents: allocation.amountCents,
+          bookedRate,
+          settlementRate: creditRate,
+          realizedGainCents: gainCents,
+        },
+        lines: gainCents > 0
+          ? [{ accountId: accounts.ACCOUNTS_RECEIVABLE, debitCents: gainCents }, ...realizedFxLines(accounts, gainCents)]
+          : [{ accountId: accounts.ACCOUNTS_RECEIVABLE, creditCents: -gainCents }, ...realizedFxLines(accounts, gainCents)],
+      }
+    })
+  }
+
+  /**
+   * Customer credit refunded: Dr Accounts Receivable / Cr Bank. Foreign
+   * credit leaves receivables at the rate it came in at and the cash goes
+   * out at the refund date's rate.
+   */
+  async postRefundIssued(refund: RefundLike, options: PostingOptions = {}) {
+    if (refund.amountCents <= 0) return null
+
+    return this.postOnce(refund.tenantId, options.entityId, 'REFUND_ISSUED', refund.id, async (entityId) => {
+      const accounts = await getSystemAccounts(refund.tenantId, entityId)
+      const date = options.date ?? new Date()
+      const baseCurrency = await fxService.baseCurrency(refund.tenantId, entityId)
+      const creditRate = refund.currency === baseCurrency
+        ? null
+        : (await fxService.rateOn(refund.currency, baseCurrency, (await this.creditDate(refund)) ?? date)).rate
+      const fx = await this.settlement(
+        refund.tenantId,
+        entityId,
+        { currency: refund.currency, baseCurrency, exchangeRate: creditRate },
+        'PAYABLE',
+        refund.amountCents,
+        date
+      )
+      return {
+        tenantId: refund.tenantId,
+        entityId,
+        date,
+        description: 'Refund issued to customer',
+        currency: fx.currency,
+        sourceType: 'REFUND_ISSUED',
+        sourceId: refund.id,
+        createdBy: options.userId,
+        metadata: fx.metadata,
+        lines: [
+          { accountId: accounts.ACCOUNTS_RECEIVABLE, debitCents: fx.bookedBaseCents },
+          { accountId: accounts.BANK, creditCents: fx.settledBaseCents },
+          ...realizedFxLines(accounts, fx.gainCents),
+        ],
+      }
+    })
+  }
+
+  /**
+   * Post the settlement side of a matched bank transaction.
+   * Delegates to the document's payment posting so that a document paid
+   * manually and later matched on the statement only posts once.
+   */
+  async postBankTransactionMatched(transactionId: string, tenantId: string, options: PostingOptions = {}) {
+    const txn = await prisma.bankingTransaction.findFirst({
+      where: { id: transactionId, tenantId },
+      include: { connection: { select: { entityId: true } } },
+    })
+    if (!txn || !txn.matched || !txn.matchedToId) return null
+
+    const posting = {
+      ...options,
+      date: options.date ?? txn.date,
+      entityId: options.entityId ?? txn.connection?.entityId ?? null,
+      bankingTransactionId: txn.id,
+    }
+
+    switch (txn.matchedToType) {
+      case 'invoice': {
+        const invoice = await prisma.invoice.findFirst({ where: { id: txn.matchedToId, tenantId } })
+        return invoice ? this.postInvoicePayment(invoice, posting) : null
+      }
+      case 'bill': {
+        const bill = await prisma.bill.findFirst({ where: { id: txn.matchedToId, tenantId } })
+        return bill ? this.postBillPayment(bill, posting) : null
+      }
+      case 'expense': {
+        const expense = await prisma.expense.findFirst({ where: { id: txn.matchedToId, tenantId } })
+        return expense ? this.postExpenseReimbursement(expense, posting) : null
+      }
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Post one allocation of a reconciled bank line, keyed by the match id so a
+   * line split across several documents posts once per allocation:
+   * invoice Dr Bank / Cr AR, bill Dr AP / Cr Bank, expense Dr Reimbursements
+   * Payable / Cr Bank, ledger account against Bank in the line's direction.
+   * Documents whose payment was already posted manually are skipped, as
+   * are allocations the caller marks settled (an invoice already paid through
+   * a recorded payment that this bank line only confirms).
+   */
+  async postBankAllocation(
+    allocation: BankAllocationLike,
+    txn: { date: Date; type: string; currency: string; description: string },
+    options: PostingOptions & { settled?: boolean } = {}
+  ) {
+    if (allocation.amountCents <= 0 || options.settled) return null
+
+    const settledBy: Record<string, JournalSourceType> = {
+      invoice: 'INVOICE_PAYMENT',
+      bill: 'BILL_PAYMENT',
+      expense: 'EXPENSE_REIMBURSEMENT',
+    }
+    const settlement = settledBy[allocation.targetType]
+    if (settlement && (await this.findPostedEntry(allocation.tenantId, settlement, allocation.targetId))) {
+      return null
+    }
+
+    return this.postOnce(allocation.tenantId, options.entityId, 'BANK_TRANSACTION', allocation.id, async (entityId) => {
+      const accounts = await getSystemAccounts(allocation.tenantId, entityId)
+      const counterpart = {
+        invoice: accounts.ACCOUNTS_RECEIVABLE,
+        bill: accounts.ACCOUNTS_PAYABLE,
+        expense: accounts.REIMBURSEMENTS_PAYABLE,
+        account: allocation.targetId,
+      }[allocation.targetType]
+      const incoming = allocation.targetType === 'invoice' || (allocation.targetType === 'account' && txn.type === 'credit')
+      const date = options.date ?? txn.date
+
+      // A foreign-currency document paid in its own currency settles at its booked rate
+      const document = await this.allocationDocument(allocation)
+      const fx = document && document.currency === txn.currency
+        ? await this.settlement(allocation.tenantId, entityId, document, incoming ? 'RECEIVABLE' : 'PAYABLE', allocation.amountCents, date)
+        : { currency: txn.currency, bookedBaseCents: allocation.amountCents, settledBaseCents: allocation.amountCents, gainCents: 0, metadata: undefined }
+
+      return {
+        tenantId: allocation.tenantId,
+        entityId,
+        date,
+        description: allocation.description || `Bank transaction: ${txn.description}`,
+        currency: fx.currency,
+        sourceType: 'BANK_TRANSACTION',
+        sourceId: allocation.id,
+        createdBy: options.userId,
+        metadata: { bankingTransactionId: allocation.transactionId, targetType: allocation.targetType, targetId: allocation.targetId, ...fx.metadata },
+        lines: incoming
+          ? [
+              { accountId: accounts.BANK, debitCents: fx.settledBaseCents },
+              { accountId: counterpart, creditCents: fx.bookedBaseCents },
+              ...realizedFxLines(accounts, fx.gainCents),
+            ]
+          : [
+              { accountId: counterpart, debitCents: fx.bookedBaseCents },
+              { accountId: accounts.BANK, creditCents: fx.settledBaseCents },
+              ...realizedFxLines(accounts, fx.gainCents),
+            ],
+      }
+    })
+  }
+
+  /**
+   * Base currency amounts of settling a document. A document booked in a
+   * foreign currency is relieved at its booked rate and the cash converted
+   * at the settlement rate; documents in the base currency, or posted
+   * before they carried a rate, settle at their own amounts.
+   */
+  private async settlement(
+    tenantId: string,
+    entityId: string,
+    document: { currency: string; baseCurrency?: string | null; exchangeRate?: number | null },
+    side: FxSide,
+    amountCents: number,
+    date: Date,
+    options: { exchangeRate?: number } = {}
+  ) {
+    const baseCurrency = await fxService.baseCurrency(tenantId, entityId)
+    if (document.currency === baseCurrency || document.baseCurrency !== baseCurrency || !document.exchangeRate) {
+      return { currency: document.currency, bookedBaseCents: amountCents, settledBaseCents: amountCents, gainCents: 0, metadata: undefined }
+    }
+
+    const settlementRate = options.exchangeRate ?? (await fxService.rateOn(document.currency, baseCurrency, date)).rate
+    const difference = settlementDifference(side, amountCents, document.exchangeRate, settlementRate)
+    return {
+      currency: baseCurrency,
+      ...difference,
+      metadata: {
+        transactionCurrency: document.currency,
+        transactionAmountCents: amountCents,
+        bookedRate: document.exchangeRate,
+        settlementRate,
+        realizedGainCents: difference.gainCents,
+      },
+    }
+  }
+
+  /**
+   * Base currency amounts of customer money or credit received on a date
+   * and applied to invoices. Amounts in the base currency post as they are.
+   */
+  private async receipt(tenantId: string, entityId: string, currency: string, amountCents: number, allocations: AllocationLike[], date: Date) {
+    const baseCurrency = await fxService.baseCurrency(tenantId, entityId)
+    if (currency === baseCurrency) {
+      return { currency, bookedBaseCents: amountCents, settledBaseCents: amountCents, gainCents: 0, metadata: undefined }
+    }
+
+    const rate = (await fxService.rateOn(currency, baseCurrency, date)).rate
+    const bookedRates = await this.invoiceRates(tenantId, baseCurrency, allocations, rate)
+    const difference = receiptDifference(amountCents, allocations.map((a, i) => ({ amountCents: a.amountCents, bookedRate: bookedRates[i] })), rate)
+    return {
+      currency: baseCurrency,
+      ...difference,
+      metadata: { transactionCurrency: currency, transactionAmountCents: amountCents, settlementRate: rate, realizedGainCents: difference.gainCents },
+    }
+  }
+
+  // Invoices booked before they carried a rate count as booked at the fallback rate
+  private async invoiceRates(tenantId: string, baseCurrency: string, allocations: AllocationLike[], fallbackRate: number) {
+    if (allocations.length === 0) return []
+    const invoices = await prisma.invoice.findMany({
+      where: { tenantId, id: { in: allocations.map((a) => a.invoiceId) } },
+      select: { id: true, baseCurrency: true, exchangeRate: true },
+    })
+    const rates = new Map(invoices.map((i) => [i.id, i.baseCurrency === baseCurrency && i.exchangeRate ? i.exchangeRate : fallbackRate]))
+    return allocations.map((a) => rates.get(a.invoiceId) ?? fallbackRate)
+  }
+
+  // Date the refunded credit entered receivables: the credit note's issue or the payment's receipt
+  private async creditDate(refund: RefundLike): Promise<Date | null> {
+    if (refund.creditNoteId) {
+      const note = await prisma.creditNote.findFirst({ where: { id: refund.creditNoteId, tenantId: refund.tenantId }, select: { issuedAt: true } })
+      return note?.issuedAt ?? null
+    }
+    if (refund.paymentId) {
+      const payment = await prisma.payment.findFirst({ where: { id: refund.paymentId, tenantId: refund.tenantId }, select: { receivedAt: true } })
+      return payment?.receivedAt ?? null
+    }
+    return null
+  }
+
+  private async allocationDocument(allocation: BankAllocationLike) {
+    const where = { id: allocation.targetId, tenantId: allocation.tenantId }
+    const select = { currency: true, baseCurrency: true, exchangeRate: true }
+    switch (allocation.targetType) {
+      case 'invoice':
+        return prisma.invoice.findFirst({ where, select })
+      case 'bill':
+        return prisma.bill.findFirst({ where, select })
+      case 'expense':
+        return prisma.expense.findFirst({ where, select })
+      default:
+        return null
+    }
+  }
+
+  private settlementMetadata(bankingTransactionId: string | undefined, fx: Record<string, unknown> | undefined) {
+    if (!bankingTransactionId && !fx) return undefined
+    return { ...(bankingTransactionId ? { bankingTransactionId } : {}), ...fx }
+  }
+
+  /**
+   * Post an entry for a source document unless one is already live.
+   * The builder returns null when there is nothing to post.
+   */
+  private async postOnce(
+    tenantId: string,
+    entityId: string | null | undefined,
+    sourceType: JournalSourceType,
+    sourceId: string,
+    build: (entityId: string) => Promise<JournalEntryInput | null>
+  ) {
+    const existing = await this.findPostedEntry(tenantId, sourceType, sourceId)
+    if (existing) return existing
+
+    const resolvedEntityId = await this.resolveEntityId(tenantId, entityId)
+    if (!resolvedEntityId) {
+      logger.warn('Skipping ledger posting: tenant has no entity', { tenantId, sourceType, sourceId })
+      return null
+    }
+
+    const input = await build(resolvedEntityId)
+    return input ? this.postJournalEntry(input) : null
+  }
+}
+
+export const ledgerPostingService = new LedgerPostingService()
+
+/**
+ * Run an automatic posting without failing the calling request.
+ * Posting errors are logged so they can be replayed from the source document.
+ */
+export async function postToLedgerSafe<T>(action: string, fn: () => Promise<T>): Promise<T | null> {
+  try {
+    return await fn()
+  } catch (error) {
+    logger.error('Ledger posting failed', {
+      action,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return null
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Statement export
+ * Adapts a financial statement to the report builder's Report/ReportData
+ * shape so PDF and CSV output share the admin report generator. Spreadsheets
+ * are SpreadsheetML workbooks, delivered as .xls like scheduled exports.
+ */
+
+import { generateCSVReport, generateReportHTML } from '@/app/admin/users/utils/report-builder'
+import { generateExcelXML } from '@/app/admin/users/utils/excel-exporter'
+import type { Report, ReportColumn, ReportData } from '@/app/admin/users/types/report-builder'
+import { formatPeriod } from './statements'
+import type { FinancialStatement, StatementLine } from './types'
+
+export type StatementExportFormat = 'pdf' | 'xlsx' | 'csv'
+
+function formatCents(cents: number | undefined): string {
+  if (cents === undefined) return ''
+  return (cents / 100).toFixed(2)
+}
+
+function lineAmounts(line: StatementLine | undefined, type: FinancialStatement['type']): Record<string, string> {
+  if (type === 'trial-balance') {
+    return { debit: formatCents(line?.debitCents ?? 0), credit: formatCents(line?.creditCents ?? 0) }
+  }
+  return { amount: formatCents(line?.amountCents ?? 0) }
+}
+
+function buildColumns(statement: FinancialStatement): ReportColumn[] {
+  const column = (name: string, label: string, type: ReportColumn['type'] = 'string'): ReportColumn => ({
+    name,
+    label,
+    type,
+    visible: true,
+  })
+
+  // The HTML table groups rows under a section header; flat exports keep the column
+  const columns = [
+    { ...column('section', 'Section'), visible: false },
+    column('code', 'Code'),
+    column('label', 'Account'),
+  ]
+  const amountColumns = statement.type === 'trial-balance' ? ['debit', 'credit'] : ['amount']
+
+  for (const name of amountColumns) {
+    const label = name.charAt(0).toUpperCase() + name.slice(1)
+    columns.push(column(name, label, 'number'))
+    if (statement.comparative) {
+      columns.push(column(`comparative_${name}`, `${label} (${formatPeriod(statement.comparative.period)})`, 'number'))
+    }
+  }
+
+  return columns
+}
+
+/**
+ * Flatten a statement (and its comparative, matched by section and line)
+ * into report rows
+ */
+export function statementToReport(statement: FinancialStatement, tenantId: string, userId: string): {
+  report: Report
+  data: ReportData
+} {
+  const columns = buildColumns(statement)
+  const rows: Record<string, string>[] = []
+
+  const prefixed = (values: Record<string, string>) =>
+    Object.fromEntries(Object.entries(values).map(([k, v]) => [`comparative_${k}`, v]))
+
+  for (const section of statement.sections) {
+    const comparativeSection = statement.comparative?.sections.find((s) => s.key === section.key)
+    const keys = new Set(section.lines.map((l) => l.code || l.label))
+    const comparativeOnly = (comparativeSection?.lines || []).filter((l) => !keys.has(l.code || l.label))
+
+    for (const line of [...section.lines, ...comparativeOnly]) {
+      const current = section.lines.find((l) => (l.code || l.label) === (line.code || line.label))
+      const previous = comparativeSection?.lines.find((l) => (l.code || l.label) === (line.code || line.label))
+      rows.push({
+        section: section.title,
+        code: line.code || '',
+        label: line.label,
+        ...lineAmounts(current, statement.type),
+        ...(statement.comparative ? prefixed(lineAmounts(previous, statement.type)) : {}),
+      })
+    }
+
+    rows.push({
+      section: section.title,
+      code: '',
+      label: `Total ${section.title}`,
+      ...(statement.type === 'trial-balance' ? {} : { amount: formatCents(section.totalCents) }),
+      ...(statement.comparative && comparativeSection && statement.type !== 'trial-balance'
+        ? { comparative_amount: formatCents(comparativeSection.totalCents) }
+        : {}),
+    })
+  }
+
+  for (const line of statement.eliminations || []) {
+    rows.push({
+      section: 'Intercompany eliminations',
+      code: line.code || '',
+      label: line.label,
+      ...lineAmounts(line, statement.type),
+    })
+  }
+
+  const summary = Object.fromEntries(
+    Object.entries(statement.totals).map(([key, cents]) => [key.replace(/Cents$/, ''), formatCents(cents)])
+  )
+
+  const now = new Date().toISOString()
+  const report: Report = {
+    id: `${statement.type}-${statement.entityId}`,
+    tenantId,
+    userId,
+    name: statement.title,
+    description: `${statement.consolidated ? 'Consolidated, ' : ''}${formatPeriod(statement.period)} (${statement.currency})`,
+    sections: [
+      {
+        id: 'statement',
+        title: statement.title,
+        type: 'table',
+        order: 0,
+        columns,
+        grouping: [{ column: 'section', order: 0 }],
+      },
+    ],
+    includeHeader: true,
+    headerText: statement.title,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  return {
+    report,
+    data: { columns, rows, rowCount: rows.length, summary },
+  }
+}
+
+/**
+ * Render a statement through the report generator
+ */
+export function exportStatement(
+  statement: FinancialStatement,
+  format: StatementExportFormat,
+  tenantId: string,
+  userId: string
+): { content: string; contentType: string; filename: string } {
+  const { report, data } = statementToReport(statement, tenantId, userId)
+  const filename = `${statement.type}-${statement.period.to.toISOString().slice(0, 10)}`
+
+  switch (format) {
+    case 'xlsx': {
+      // SpreadsheetML 2003 workbook; Excel opens it natively under the .xls extension
+      const sheet = {
+        name: statement.title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31),
+        data: [data.columns.map((c) => c.label), ...data.rows.map((row) => data.columns.map((c) => row[c.name] ?? ''))],
+      }
+      return { content: generateExcelXML([sheet]), contentType: 'application/vnd.ms-excel', filename: `${filename}.xls` }
+    }
+    case 'csv':
+      return { content: generateCSVReport(report, data), contentType: 'text/csv', filename: `${filename}.csv` }
+    default:
+      return { content: generateReportHTML(report, data), contentType: 'text/html', filename: `${filename}.html` }
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Financial Statements Service
+ * Loads ledger balances for an entity (optionally with its child entities)
+ * and builds trial balance, income statement, balance sheet and cash flow
+ */
+
+import prisma from '@/lib/prisma'
+import { baseCurrencyFor } from './fx'
+import {
+  buildBalanceSheet,
+  buildCashFlow,
+  buildIncomeStatement,
+  buildTrialBalance,
+  comparativePeriod,
+  consolidateBalances,
+  defaultPeriodStart,
+  sumCash,
+} from './statements'
+import type {
+  AccountBalance,
+  ComparativeMode,
+  FinancialStatement,
+  LedgerAccountType,
+  StatementType,
+} from './types'
+
+export const STATEMENT_TYPES: StatementType[] = ['trial-balance', 'income-statement', 'balance-sheet', 'cash-flow']
+
+const STATEMENT_TITLES: Record<StatementType, string> = {
+  'trial-balance': 'Trial Balance',
+  'income-statement': 'Income Statement',
+  'balance-sheet': 'Balance Sheet',
+  'cash-flow': 'Cash Flow Statement',
+}
+
+export interface StatementOptions {
+  from?: Date
+  to?: Date
+  consolidate?: boolean
+  compare?: ComparativeMode | { from: Date; to: Date }
+}
+
+interface ResolvedScope {
+  entityIds: string[]
+  consolidated: boolean
+  currency: string
+}
+
+function endOfDay(date: Date): Date {
+  const d = new Date(date)
+  d.setUTCHours(23, 59, 59, 999)
+  return d
+}
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date)
+  d.setUTCHours(0, 0, 0, 0)
+  return d
+}
+
+export class FinancialStatementsService {
+  /**
+   * Build a statement for an entity. Point-in-time statements (trial
+   * balance, balance sheet) use `to`; period statements use [from, to],
+   * with `from` defaulting to the start of the entity's fiscal year.
+   */
+  async getStatement(
+    tenantId: string,
+    entityId: string,
+    type: StatementType,
+    options: StatementOptions = {}
+  ): Promise<FinancialStatement> {
+    const entity = await prisma.entity.findFirst({
+      where: { id: entityId, tenantId },
+      select: { id: true, fiscalYearStart: true },
+    })
+    if (!entity) {
+      throw new Error('Entity not found or unauthorized')
+    }
+
+    const to = endOfDay(options.to || new Date())
+    const from = startOfDay(options.from || defaultPeriodStart(to, entity.fiscalYearStart))
+    if (from.getTime() > to.getTime()) {
+      throw new Error('Invalid period: from must be on or before to')
+    }
+
+    const scope = await this.resolveScope(tenantId, entity.id, options.consolidate === true)
+    const statement = await this.build(tenantId, entity.id, type, scope, { from, to })
+
+    if (options.compare) {
+      const period =
+        typeof options.compare === 'string'
+          ? comparativePeriod({ from, to }, options.compare)
+          : { from: startOfDay(options.compare.from), to: endOfDay(options.compare.to) }
+      statement.comparative = await this.build(tenantId, entity.id, type, scope, period)
+    }
+
+    return statement
+  }
+
+  private async build(
+    tenantId: string,
+    entityId: string,
+    type: StatementType,
+    scope: ResolvedScope,
+    period: { from: Date; to: Date }
+  ): Promise<FinancialStatement> {
+    const pointInTime = type === 'trial-balance' || type === 'balance-sheet'
+    const window = pointInTime ? { to: period.to } : period
+
+    const { balances, eliminations, eliminationDifferenceCents } = await this.loadBalances(
+      tenantId,
+      scope.entityIds,
+      window
+    )
+
+    let built
+    switch (type) {
+      case 'trial-balance':
+        built = buildTrialBalance(balances)
+        break
+      case 'income-statement':
+        built = buildIncomeStatement(balances)
+        break
+      case 'balance-sheet':
+        built = buildBalanceSheet(balances)
+        break
+      case 'cash-flow': {
+        const opening = await this.loadBalances(tenantId, scope.entityIds, {
+          to: new Date(period.from.getTime() - 1),
+        })
+        built = buildCashFlow(balances, sumCash(opening.balances))
+        break
+      }
+      default:
+        throw new Error(`Invalid statement type: ${type}`)
+    }
+
+    const statement: FinancialStatement = {
+      type,
+      title: STATEMENT_TITLES[type],
+      entityId,
+      entityIds: scope.entityIds,
+      consolidated: scope.consolidated,
+      currency: scope.currency,
+      period: { from: pointInTime ? null : period.from, to: period.to },
+      sections: built.sections,
+      totals: built.totals,
+    }
+
+    if (scope.consolidated) {
+      statement.eliminations = eliminations
+      statement.totals.eliminationDifferenceCents = eliminationDifferenceCents
+    }
+
+    return statement
+  }
+
+  /**
+   * The entity itself plus, when consolidating, every descendant
+   * reachable through parentEntityId
+   */
+  private async resolveScope(tenantId: string, entityId: string, consolidate: boolean): Promise<ResolvedScope> {
+    const entityIds = [entityId]
+
+    if (consolidate) {
+      let frontier = [entityId]
+      while (frontier.length > 0) {
+        const children = await prisma.entity.findMany({
+          where: { tenantId, parentEntityId: { in: frontier } },
+          select: { id: true },
+        })
+        frontier = children.map((c) => c.id).filter((id) => !entityIds.includes(id))
+        entityIds.push(...frontier)
+      }
+    }
+
+    // Balances are summed as they are, so every entity must keep its books in one currency
+    if (entityIds.length > 1) {
+      const entities = await prisma.entity.findMany({
+        where: { tenantId, id: { in: entityIds } },
+        select: { country: true, metadata: true },
+      })
+      const currencies = Array.from(new Set(entities.map((e) => baseCurrencyFor(e)))).sort()
+      if (currencies.length > 1) {
+        throw new Error(`Cannot consolidate entities with different base currencies: ${currencies.join(', ')}`)
+      }
+      return { entityIds, consolidated: true, currency: currencies[0] }
+    }
+
+    const latest = await prisma.journalEntry.findFirst({
+      where: { tenantId, entityId },
+      orderBy: { date: 'desc' },
+      select: { currency: true },
+    })
+
+    return {
+      entityIds,
+      consolidated: false,
+      currency: latest?.currency || 'USD',
+    }
+  }
+
+  /**
+   * Sum journal lines per account for each entity, then merge them.
+   * Reversed entries stay in the sums; their reversals net them out.
+   */
+  private async loadBalances(
+    tenantId: string,
+    entityIds: string[],
+    window: { from?: Date; to: Date }
+  ): Promise<ReturnType<typeof consolidateBalances>> {
+    const grouped = await prisma.journalLine.groupBy({
+      by: ['accountId'],
+      where: {
+        journalEntry: {
+          tenantId,
+          entityId: { in: entityIds },
+          date: { ...(window.from && { gte: window.from }), lte: window.to },
+        },
+      },
+      _sum: { debitCents: true, creditCents: true },
+    })
+
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { tenantId, id: { in: grouped.map((g) => g.accountId) } },
+      select: { id: true, entityId: true, code: true, name: true, type: true, subtype: true },
+    })
+    const accountsById = new Map(accounts.map((a) => [a.id, a]))
+
+    const perEntity = new Map<string, AccountBalance[]>(entityIds.map((id) => [id, []]))
+    for (const row of grouped) {
+      const account = accountsById.get(row.accountId)
+      if (!account) continue
+      perEntity.get(account.entityId)?.push({
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type as LedgerAccountType,
+        subtype: account.subtype,
+        debitCents: row._sum.debitCents || 0,
+        creditCents: row._sum.creditCents || 0,
+      })
+    }
+
+    return consolidateBalances(Array.from(perEntity.values()))
+  }
+}
+
+export const financialStatementsService = new FinancialStatementsService()
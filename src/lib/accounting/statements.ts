@@ -0,0 +1,339 @@
+/**
+ * Financial statement builders
+ * Pure functions that turn account balances into trial balance, income
+ * statement, balance sheet and indirect cash-flow sections. Fetching the
+ * balances (and consolidating entities) lives in statements-service.ts.
+ */
+
+import { naturalBalance } from './ledger'
+import type {
+  AccountBalance,
+  ComparativeMode,
+  StatementLine,
+  StatementPeriod,
+  StatementSection,
+} from './types'
+
+export const INTERCOMPANY_SUBTYPE = 'intercompany'
+
+const CASH_SUBTYPES = ['bank', 'cash']
+
+interface BuiltStatement {
+  sections: StatementSection[]
+  totals: Record<string, number>
+}
+
+function byCode(a: AccountBalance, b: AccountBalance): number {
+  return a.code.localeCompare(b.code)
+}
+
+function hasActivity(balance: AccountBalance): boolean {
+  return balance.debitCents !== 0 || balance.creditCents !== 0
+}
+
+function section(key: string, title: string, lines: StatementLine[]): StatementSection {
+  return {
+    key,
+    title,
+    lines,
+    totalCents: lines.reduce((sum, line) => sum + line.amountCents, 0),
+  }
+}
+
+function naturalLines(balances: AccountBalance[]): StatementLine[] {
+  return balances
+    .filter(hasActivity)
+    .sort(byCode)
+    .map((b) => ({
+      code: b.code,
+      label: b.name,
+      amountCents: naturalBalance(b.type, b),
+    }))
+}
+
+/**
+ * Cash effect of the movement on a non-cash account (credits release cash)
+ */
+function cashEffect(balance: AccountBalance): number {
+  return balance.creditCents - balance.debitCents
+}
+
+function isCashAccount(balance: AccountBalance): boolean {
+  return balance.type === 'ASSET' && CASH_SUBTYPES.includes(balance.subtype || '')
+}
+
+/**
+ * Net income over a set of balances (revenue minus expenses)
+ */
+export function computeNetIncome(balances: AccountBalance[]): number {
+  return balances.reduce((sum, b) => {
+    if (b.type === 'REVENUE') return sum + naturalBalance(b.type, b)
+    if (b.type === 'EXPENSE') return sum - naturalBalance(b.type, b)
+    return sum
+  }, 0)
+}
+
+/**
+ * Trial balance: every account with activity, netted to its debit or credit side
+ */
+export function buildTrialBalance(balances: AccountBalance[]): BuiltStatement {
+  const types: Array<[AccountBalance['type'], string, string]> = [
+    ['ASSET', 'assets', 'Assets'],
+    ['LIABILITY', 'liabilities', 'Liabilities'],
+    ['EQUITY', 'equity', 'Equity'],
+    ['REVENUE', 'revenue', 'Revenue'],
+    ['EXPENSE', 'expenses', 'Expenses'],
+  ]
+
+  let debitCents = 0
+  let creditCents = 0
+
+  const sections = types.map(([type, key, title]) => {
+    const lines = balances
+      .filter((b) => b.type === type && hasActivity(b))
+      .sort(byCode)
+      .map((b) => {
+        const net = b.debitCents - b.creditCents
+        const line: StatementLine = {
+          code: b.code,
+          label: b.name,
+          amountCents: net,
+          debitCents: net > 0 ? net : 0,
+          creditCents: net < 0 ? -net : 0,
+        }
+        debitCents += line.debitCents!
+        creditCents += line.creditCents!
+        return line
+      })
+    return section(key, title, lines)
+  })
+
+  return {
+    sections,
+    totals: { debitCents, creditCents, differenceCents: debitCents - creditCents },
+  }
+}
+
+/**
+ * Income statement over the balances of a period
+ */
+export function buildIncomeStatement(balances: AccountBalance[]): BuiltStatement {
+  const revenue = section('revenue', 'Revenue', naturalLines(balances.filter((b) => b.type === 'REVENUE')))
+  const expenses = section('expenses', 'Expenses', naturalLines(balances.filter((b) => b.type === 'EXPENSE')))
+
+  return {
+    sections: [revenue, expenses],
+    totals: {
+      revenueCents: revenue.totalCents,
+      expensesCents: expenses.totalCents,
+      netIncomeCents: revenue.totalCents - expenses.totalCents,
+    },
+  }
+}
+
+/**
+ * Balance sheet from cumulative balances. Until a year-end close moves
+ * profit into retained earnings, revenue and expense accounts are shown
+ * as a single current-earnings line under equity.
+ */
+export function buildBalanceSheet(balances: AccountBalance[]): BuiltStatement {
+  const assets = section('assets', 'Assets', naturalLines(balances.filter((b) => b.type === 'ASSET')))
+  const liabilities = section(
+    'liabilities',
+    'Liabilities',
+    naturalLines(balances.filter((b) => b.type === 'LIABILITY'))
+  )
+
+  const equityLines = naturalLines(balances.filter((b) => b.type === 'EQUITY'))
+  const currentEarnings = computeNetIncome(balances)
+  if (currentEarnings !== 0) {
+    equityLines.push({ label: 'Current earnings', amountCents: currentEarnings })
+  }
+  const equity = section('equity', 'Equity', equityLines)
+
+  const liabilitiesAndEquityCents = liabilities.totalCents + equity.totalCents
+
+  return {
+    sections: [assets, liabilities, equity],
+    totals: {
+      assetsCents: assets.totalCents,
+      liabilitiesCents: liabilities.totalCents,
+      equityCents: equity.totalCents,
+      liabilitiesAndEquityCents,
+      differenceCents: assets.totalCents - liabilitiesAndEquityCents,
+    },
+  }
+}
+
+/**
+ * Indirect cash-flow statement from the movements of a period.
+ *
+ * Classification follows account subtypes: fixed assets are investing,
+ * non-current liabilities and equity (other than retained earnings) are
+ * financing, everything else outside cash is working capital. Non-cash
+ * expenses are added back to operating and assumed to have been credited
+ * to fixed assets, so investing shows gross additions.
+ */
+export function buildCashFlow(movements: AccountBalance[], openingCashCents: number): BuiltStatement {
+  const active = movements.filter(hasActivity).sort(byCode)
+  const netIncome = computeNetIncome(active)
+
+  const nonCash = active.filter((b) => b.type === 'EXPENSE' && b.subtype === 'non-cash')
+  const nonCashTotal = nonCash.reduce((sum, b) => sum + naturalBalance(b.type, b), 0)
+
+  const operatingLines: StatementLine[] = [{ label: 'Net income', amountCents: netIncome }]
+  const investingLines: StatementLine[] = []
+  const financingLines: StatementLine[] = []
+  let cashMovementCents = 0
+
+  for (const b of nonCash) {
+    operatingLines.push({ code: b.code, label: `Add back: ${b.name}`, amountCents: naturalBalance(b.type, b) })
+  }
+
+  for (const b of active) {
+    if (b.type === 'REVENUE' || b.type === 'EXPENSE') continue
+
+    if (isCashAccount(b)) {
+      cashMovementCents += b.debitCents - b.creditCents
+      continue
+    }
+
+    const line: StatementLine = { code: b.code, label: `Change in ${b.name}`, amountCents: cashEffect(b) }
+
+    if (b.type === 'ASSET' && b.subtype === 'fixed') {
+      investingLines.push(line)
+    } else if (
+      (b.type === 'LIABILITY' && b.subtype === 'non-current') ||
+      (b.type === 'EQUITY' && b.subtype !== 'retained')
+    ) {
+      financingLines.push(line)
+    } else if (b.type === 'EQUITY') {
+      // Retained earnings only move on year-end close, which net income already covers
+      continue
+    } else {
+      operatingLines.push(line)
+    }
+  }
+
+  if (nonCashTotal !== 0 && investingLines.length > 0) {
+    investingLines.push({ label: 'Less: non-cash charges against fixed assets', amountCents: -nonCashTotal })
+  }
+
+  const operating = section('operating', 'Operating activities', operatingLines)
+  const investing = section('investing', 'Investing activities', investingLines)
+  const financing = section('financing', 'Financing activities', financingLines)
+  const netChangeCents = operating.totalCents + investing.totalCents + financing.totalCents
+
+  return {
+    sections: [operating, investing, financing],
+    totals: {
+      operatingCents: operating.totalCents,
+      investingCents: investing.totalCents,
+      financingCents: financing.totalCents,
+      netChangeCents,
+      openingCashCents,
+      closingCashCents: openingCashCents + cashMovementCents,
+      differenceCents: netChangeCents - cashMovementCents,
+    },
+  }
+}
+
+/**
+ * Cash balance from cumulative balances
+ */
+export function sumCash(balances: AccountBalance[]): number {
+  return balances.filter(isCashAccount).reduce((sum, b) => sum + b.debitCents - b.creditCents, 0)
+}
+
+/**
+ * Merge the balances of several entities by account code and, when more
+ * than one entity is involved, eliminate intercompany accounts. A non-zero
+ * elimination difference means the two sides of an intercompany balance
+ * were not booked consistently.
+ */
+export function consolidateBalances(perEntity: AccountBalance[][]): {
+  balances: AccountBalance[]
+  eliminations: StatementLine[]
+  eliminationDifferenceCents: number
+} {
+  const merged = new Map<string, AccountBalance>()
+
+  for (const balances of perEntity) {
+    for (const b of balances) {
+      const existing = merged.get(b.code)
+      if (existing) {
+        existing.debitCents += b.debitCents
+        existing.creditCents += b.creditCents
+      } else {
+        merged.set(b.code, { ...b })
+      }
+    }
+  }
+
+  const all = Array.from(merged.values()).sort(byCode)
+  if (perEntity.length < 2) {
+    return { balances: all, eliminations: [], eliminationDifferenceCents: 0 }
+  }
+
+  const balances: AccountBalance[] = []
+  const eliminations: StatementLine[] = []
+  let eliminationDifferenceCents = 0
+
+  for (const b of all) {
+    if (b.subtype !== INTERCOMPANY_SUBTYPE) {
+      balances.push(b)
+      continue
+    }
+    if (!hasActivity(b)) continue
+
+    const net = b.debitCents - b.creditCents
+    eliminations.push({
+      code: b.code,
+      label: b.name,
+      amountCents: -net,
+      debitCents: b.debitCents,
+      creditCents: b.creditCents,
+    })
+    eliminationDifferenceCents += net
+  }
+
+  return { balances, eliminations, eliminationDifferenceCents }
+}
+
+/**
+ * Start of the fiscal year containing `to`; calendar year when no
+ * fiscal year start is configured.
+ */
+export function defaultPeriodStart(to: Date, fiscalYearStart?: Date | null): Date {
+  const month = fiscalYearStart ? fiscalYearStart.getUTCMonth() : 0
+  const day = fiscalYearStart ? fiscalYearStart.getUTCDate() : 1
+
+  const start = new Date(Date.UTC(to.getUTCFullYear(), month, day))
+  if (start.getTime() > to.getTime()) {
+    start.setUTCFullYear(start.getUTCFullYear() - 1)
+  }
+  return start
+}
+
+/**
+ * Period to compare against: the equal-length window immediately before,
+ * or the same dates one year earlier.
+ */
+export function comparativePeriod(period: { from: Date; to: Date }, mode: ComparativeMode): { from: Date; to: Date } {
+  if (mode === 'previous-year') {
+    const from = new Date(period.from)
+    const to = new Date(period.to)
+    from.setUTCFullYear(from.getUTCFullYear() - 1)
+    to.setUTCFullYear(to.getUTCFullYear() - 1)
+    return { from, to }
+  }
+
+  const length = period.to.getTime() - period.from.getTime()
+  const to = new Date(period.from.getTime() - 1)
+  return { from: new Date(to.getTime() - length), to }
+}
+
+export function formatPeriod(period: StatementPeriod): string {
+  const to = period.to.toISOString().slice(0, 10)
+  return period.from ? `${period.from.toISOString().slice(0, 10)} to ${to}` : `as of ${to}`
+}
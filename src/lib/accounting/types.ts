@@ -0,0 +1,136 @@
+/**
+ * General Ledger Types
+ * Shared definitions for the chart of accounts and journal posting
+ */
+
+export type LedgerAccountType = 'ASSET' | 'LIABILITY' | 'EQUITY' | 'REVENUE' | 'EXPENSE'
+
+export type JournalEntryStatus = 'POSTED' | 'REVERSED'
+
+/**
+ * Where a journal entry came from. Automatic postings are keyed by
+ * (sourceType, sourceId) so that each business event posts at most once.
+ */
+export type JournalSourceType =
+  | 'INVOICE_ISSUED'
+  | 'INVOICE_PAYMENT'
+  | 'BILL_APPROVED'
+  | 'BILL_PAYMENT'
+  | 'EXPENSE_RECORDED'
+  | 'EXPENSE_REIMBURSEMENT'
+  | 'BANK_TRANSACTION'
+  | 'PAYMENT_RECEIVED'
+  | 'CREDIT_NOTE_ISSUED'
+  | 'REFUND_ISSUED'
+  | 'CREDIT_APPLIED'
+  | 'FX_REVALUATION'
+  | 'MANUAL'
+  | 'REVERSAL'
+
+/**
+ * Accounts the posting service looks up by key rather than by code,
+ * so tenants can renumber their chart without breaking automatic posting.
+ */
+export type SystemAccountKey =
+  | 'BANK'
+  | 'ACCOUNTS_RECEIVABLE'
+  | 'ACCOUNTS_PAYABLE'
+  | 'REIMBURSEMENTS_PAYABLE'
+  | 'VAT_PAYABLE'
+  | 'VAT_RECEIVABLE'
+  | 'WHT_PAYABLE'
+  | 'RETAINED_EARNINGS'
+  | 'SALES_REVENUE'
+  | 'REALIZED_FX'
+  | 'UNREALIZED_FX'
+  | 'OPERATING_EXPENSES'
+
+export interface ChartOfAccountsTemplateEntry {
+  code: string
+  name: string
+  type: LedgerAccountType
+  subtype?: string
+  systemKey?: SystemAccountKey
+}
+
+export interface LedgerAccountInput extends Omit<ChartOfAccountsTemplateEntry, 'systemKey'> {
+  parentId?: string
+  currency?: string
+  description?: string
+}
+
+export interface JournalLineInput {
+  accountId: string
+  debitCents?: number
+  creditCents?: number
+  description?: string
+}
+
+export interface JournalEntryInput {
+  tenantId: string
+  entityId: string
+  date: Date
+  description: string
+  currency?: string
+  sourceType: JournalSourceType
+  sourceId?: string | null
+  createdBy?: string | null
+  metadata?: Record<string, unknown>
+  lines: JournalLineInput[]
+}
+
+export interface JournalTotals {
+  debitCents: number
+  creditCents: number
+}
+
+export type StatementType = 'trial-balance' | 'income-statement' | 'balance-sheet' | 'cash-flow'
+
+export type ComparativeMode = 'previous-period' | 'previous-year'
+
+/**
+ * Debit/credit totals of one account over a window of journal lines
+ */
+export interface AccountBalance {
+  accountId: string
+  code: string
+  name: string
+  type: LedgerAccountType
+  subtype: string | null
+  debitCents: number
+  creditCents: number
+}
+
+export interface StatementLine {
+  code?: string
+  label: string
+  amountCents: number
+  debitCents?: number
+  creditCents?: number
+}
+
+export interface StatementSection {
+  key: string
+  title: string
+  lines: StatementLine[]
+  totalCents: number
+}
+
+export interface StatementPeriod {
+  from: Date | null
+  to: Date
+}
+
+export interface FinancialStatement {
+  type: StatementType
+  title: string
+  entityId: string
+  entityIds: string[]
+  consolidated: boolean
+  currency: string
+  period: StatementPeriod
+  sections: StatementSection[]
+  totals: Record<string, number>
+  eliminations?: StatementLine[]
+  comparative?: FinancialStatement
+}
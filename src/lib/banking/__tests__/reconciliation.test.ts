@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findMatchingRule,
+  ruleMatches,
+  suggestMatches,
+  summarizeReconciliation,
+  validateAllocations,
+  type BankLine,
+  type BankRuleLike,
+  type OpenDocument,
+} from '../reconciliation'
+
+const line = (overrides: Partial<BankLine> = {}): BankLine => ({
+  id: 'txn-1',
+  connectionId: 'conn-1',
+  description: 'CARD PAYMENT AWS EMEA',
+  reference: null,
+  amountCents: 12000,
+  type: 'debit',
+  date: new Date('2026-05-10T00:00:00.000Z'),
+  ...overrides,
+})
+
+const rule = (overrides: Partial<BankRuleLike> = {}): BankRuleLike => ({
+  id: 'rule-1',
+  name: 'Cloud hosting',
+  priority: 100,
+  conditions: [{ field: 'description', operator: 'contains', value: 'aws' }],
+  category: 'Hosting',
+  ...overrides,
+})
+
+const invoice = (id: string, label: string, openCents: number, date = '2026-05-01'): OpenDocument => ({
+  type: 'invoice',
+  id,
+  label,
+  openCents,
+  date: new Date(`${date}T00:00:00.000Z`),
+})
+
+describe('bank rules', () => {
+  it('matches on conditions, direction and amount range', () => {
+    expect(ruleMatches(rule(), line())).toBe(true)
+    expect(ruleMatches(rule({ direction: 'credit' }), line())).toBe(false)
+    expect(ruleMatches(rule({ maxAmount: 100 }), line())).toBe(false)
+    expect(ruleMatches(rule({ minAmount: 100, maxAmount: 150 }), line())).toBe(true)
+    expect(ruleMatches(rule({ connectionId: 'conn-2' }), line())).toBe(false)
+    expect(ruleMatches(rule({ isActive: false }), line())).toBe(false)
+  })
+
+  it('ignores invalid regex conditions instead of throwing', () => {
+    const broken = rule({ conditions: [{ field: 'description', operator: 'regex', value: '([' }] })
+    expect(ruleMatches(broken, line())).toBe(false)
+  })
+
+  it('picks the highest-priority matching rule', () => {
+    const rules = [
+      rule({ id: 'generic', name: 'Card payments', priority: 200, conditions: [{ field: 'description', operator: 'startsWith', value: 'card' }] }),
+      rule({ id: 'aws', priority: 10 }),
+    ]
+    expect(findMatchingRule(rules, line())?.id).toBe('aws')
+    expect(findMatchingRule(rules, line({ description: 'CARD PAYMENT OFFICE' }))?.id).toBe('generic')
+    expect(findMatchingRule(rules, line({ description: 'SALARY' }))).toBeNull()
+  })
+})
+
+describe('validateAllocations', () => {
+  const open = new Map([['invoice:inv-1', 8000], ['invoice:inv-2', 4000]])
+
+  it('accepts a split that equals the line amount', () => {
+    expect(() =>
+      validateAllocations({ amountCents: 12000 }, [
+        { targetType: 'invoice', targetId: 'inv-1', amountCents: 8000 },
+        { targetType: 'invoice', targetId: 'inv-2', amountCents: 4000 },
+      ], open)
+    ).not.toThrow()
+  })
+
+  it('rejects totals that do not match the line', () => {
+    expect(() =>
+      validateAllocations({ amountCents: 12000 }, [{ targetType: 'invoice', targetId: 'inv-1', amountCents: 8000 }], open)
+    ).toThrow('Allocations must equal the transaction amount')
+  })
+
+  it('rejects over-allocation, duplicates and unknown documents', () => {
+    expect(() =>
+      validateAllocations({ amountCents: 9000 }, [{ targetType: 'invoice', targetId: 'inv-1', amountCents: 9000 }], open)
+    ).toThrow('Allocation exceeds the open amount of invoice:inv-1')
+    expect(() =>
+      validateAllocations({ amountCents: 8000 }, [
+        { targetType: 'invoice', targetId: 'inv-2', amountCents: 4000 },
+        { targetType: 'invoice', targetId: 'inv-2', amountCents: 4000 },
+      ], open)
+    ).toThrow('Each document can only be allocated once per transaction')
+    expect(() =>
+      validateAllocations({ amountCents: 100 }, [{ targetType: 'bill', targetId: 'bill-9', amountCents: 100 }], open)
+    ).toThrow('Allocation target not found: bill:bill-9')
+    expect(() => validateAllocations({ amountCents: 100 }, [], open)).toThrow('At least one allocation is required')
+  })
+
+  it('allows ledger account allocations without an open amount', () => {
+    expect(() =>
+      validateAllocations({ amountCents: 100 }, [{ targetType: 'account', targetId: 'acc-1', amountCents: 100 }])
+    ).not.toThrow()
+  })
+})
+
+describe('suggestMatches', () => {
+  const payment = (overrides: Partial<BankLine> = {}) =>
+    line({ type: 'credit', description: 'TRANSFER FROM ACME', amountCents: 50000, ...overrides })
+
+  it('ranks a referenced exact match above an amount-only match', () => {
+    const suggestions = suggestMatches(payment({ reference: 'INV-1002' }), [
+      invoice('a', 'INV-1001', 50000),
+      invoice('b', 'INV-1002', 50000),
+    ])
+    expect(suggestions[0].allocations).toEqual([{ targetType: 'invoice', targetId: 'b', amountCents: 50000 }])
+    expect(suggestions[0].score).toBeGreaterThanOrEqual(0.9)
+    expect(suggestions[1].allocations[0].targetId).toBe('a')
+  })
+
+  it('suggests a partial payment of a referenced invoice', () => {
+    const [suggestion] = suggestMatches(payment({ reference: 'INV-1003', amountCents: 20000 }), [
+      invoice('c', 'INV-1003', 50000),
+    ])
+    expect(suggestion.reason).toBe('Partial payment of INV-1003')
+    expect(suggestion.allocations[0].amountCents).toBe(20000)
+  })
+
+  it('suggests one payment settling several referenced invoices', () => {
+    const [suggestion] = suggestMatches(payment({ description: 'ACME INV-2001 INV-2002' }), [
+      invoice('d', 'INV-2001', 30000),
+      invoice('e', 'INV-2002', 20000),
+      invoice('f', 'INV-2003', 50000, '2026-01-01'),
+    ])
+    expect(suggestion.score).toBe(0.95)
+    expect(suggestion.allocations.map((a) => a.targetId)).toEqual(['d', 'e'])
+  })
+
+  it('only offers invoices for credits and bills or expenses for debits', () => {
+    const docs = [invoice('g', 'INV-3001', 12000)]
+    expect(suggestMatches(line(), docs)).toEqual([])
+  })
+})
+
+describe('summarizeReconciliation', () => {
+  it('balances when cleared lines reach the statement balance', () => {
+    const summary = summarizeReconciliation({
+      openingCents: 100000,
+      statementCents: 138000,
+      lines: [
+        { amountCents: 50000, type: 'credit', matched: true },
+        { amountCents: 12000, type: 'debit', matched: true },
+      ],
+    })
+    expect(summary).toMatchObject({ clearedCents: 138000, differenceCents: 0, balanced: true })
+  })
+
+  it('reports the difference and unmatched lines', () => {
+    const summary = summarizeReconciliation({
+      openingCents: 0,
+      statementCents: 5000,
+      lines: [{ amountCents: 4000, type: 'credit', matched: false }],
+    })
+    expect(summary).toMatchObject({ differenceCents: 1000, unmatchedCount: 1, balanced: false })
+  })
+})
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assignExternalIds,
+  detectStatementFormat,
+  parseCamt053,
+  parseMT940,
+  parseOFX,
+  parseStatement,
+} from '../statement-parsers'
+
+const MT940 = [
+  '{1:F01EBILAEADAXXX0000000000}{2:I940EBILAEADXXXXN}{4:',
+  ':20:STMT20260501',
+  ':25:AE070331234567890123456',
+  ':28C:00012/001',
+  ':60F:C260430AED10000,00',
+  ':61:2605010501C5250,00NTRFINV-1042//FT26121ABC01',
+  'ACME TRADING',
+  ':86:Payment for INV-1042',
+  ':61:2605020502D120,50NMSCNONREF',
+  ':86:?20CARD PURCHASE?21AWS EMEA?32AMAZON WEB',
+  ':61:2605030503RC100,00NCHGNONREF//REV0001',
+  ':86:Reversal of fee credit',
+  ':62F:C260503AED15029,50',
+  '-}',
+].join('\r\n')
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct><Id><IBAN>SA0380000000608010167519</IBAN></Id><Ccy>SAR</Ccy></Acct>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="SAR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-05-01</Dt></Dt></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="SAR">1650.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-05-31</Dt></Dt></Bal>
+      <Ntry>
+        <Amt Ccy="SAR">800.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2026-05-03</Dt></BookgDt><AcctSvcrRef>RJHI-778812</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>E2E-INV-2001</EndToEndId></Refs>
+          <RltdPties><Dbtr><Pty><Nm>Globex LLC</Nm></Pty></Dbtr></RltdPties>
+          <RmtInf><Ustrd>INV-2001</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="SAR">150.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2026-05-10</Dt></BookgDt>
+        <AddtlNtryInf>Monthly account fee</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="SAR">99.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts><Cd>PDNG</Cd></Sts>
+        <BookgDt><Dt>2026-05-30</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>AED
+<BANKACCTFROM><BANKID>ENBD<ACCTID>1015123456701<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20260501
+<DTEND>20260531
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260505120000[+4:GST]<TRNAMT>2500.00<FITID>202605050001<NAME>Initech<MEMO>INV-3001
+</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260507<TRNAMT>-45.25<FITID>202605070002<NAME>DEWA
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>7454.75<DTASOF>20260531</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+describe('detectStatementFormat', () => {
+  it('detects formats from content before the file extension', () => {
+    expect(detectStatementFormat(MT940, 'statement.txt')).toBe('mt940')
+    expect(detectStatementFormat(CAMT, 'statement.xml')).toBe('camt053')
+    expect(detectStatementFormat(OFX)).toBe('ofx')
+    expect(detectStatementFormat('Date,Description,Amount,Currency,Reference', 'export.csv')).toBe('csv')
+    expect(detectStatementFormat('hello', 'notes.txt')).toBeNull()
+  })
+})
+
+describe('parseMT940', () => {
+  const statement = parseMT940(MT940)
+
+  it('reads account, currency and balances', () => {
+    expect(statement).toMatchObject({
+      accountId: 'AE070331234567890123456',
+      currency: 'AED',
+      openingBalance: 10000,
+      closingBalance: 15029.5,
+    })
+    expect(statement.statementDate?.toISOString()).toBe('2026-05-03T00:00:00.000Z')
+  })
+
+  it('parses transaction lines with references and running balances', () => {
+    const [payment, card, reversal] = statement.transactions
+    expect(payment).toMatchObject({
+      id: 'FT26121ABC01',
+      amount: 5250,
+      type: 'credit',
+      reference: 'INV-1042',
+      description: 'Payment for INV-1042 ACME TRADING',
+      balance: 15250,
+    })
+    expect(payment.date.toISOString()).toBe('2026-05-01T00:00:00.000Z')
+    expect(card).toMatchObject({ id: '', type: 'debit', amount: 120.5, description: 'CARD PURCHASE AWS EMEA AMAZON WEB' })
+    expect(card.reference).toBeUndefined()
+    // RC reverses a credit, so money leaves the account
+    expect(reversal).toMatchObject({ id: 'REV0001', type: 'debit', amount: 100, balance: 15029.5 })
+  })
+
+  it('reads the comma as the decimal mark for three-decimal currencies', () => {
+    const kwd = parseMT940([
+      ':20:STMT-KWD',
+      ':25:KW81CBKU0000000000001234560101',
+      ':60F:C260430KWD1000,500',
+      ':61:2605010501C12,345NTRFNONREF',
+      ':86:Transfer in',
+      ':62F:C260501KWD1012,845',
+    ].join('\n'))
+    expect(kwd).toMatchObject({ currency: 'KWD', openingBalance: 1000.5, closingBalance: 1012.845 })
+    expect(kwd.transactions[0]).toMatchObject({ amount: 12.345, type: 'credit', balance: 1012.845 })
+  })
+})
+
+describe('parseCamt053', () => {
+  const statement = parseCamt053(CAMT)
+
+  it('reads booked entries and skips pending ones', () => {
+    expect(statement).toMatchObject({
+      accountId: 'SA0380000000608010167519',
+      currency: 'SAR',
+      openingBalance: 1000,
+      closingBalance: 1650,
+    })
+    expect(statement.transactions).toHaveLength(2)
+    expect(statement.transactions[0]).toMatchObject({
+      id: 'RJHI-778812',
+      type: 'credit',
+      amount: 800,
+      currency: 'SAR',
+      reference: 'E2E-INV-2001',
+      description: 'Globex LLC INV-2001',
+      balance: 1800,
+    })
+    expect(statement.transactions[1]).toMatchObject({ id: '', type: 'debit', description: 'Monthly account fee', balance: 1650 })
+  })
+
+  it('rejects files without a statement', () => {
+    expect(() => parseCamt053('<Document><Other/></Document>')).toThrow('no statement found')
+  })
+})
+
+describe('parseOFX', () => {
+  it('parses SGML OFX with signed amounts and ledger balance', () => {
+    const statement = parseOFX(OFX)
+    expect(statement).toMatchObject({ accountId: '1015123456701', currency: 'AED', closingBalance: 7454.75, openingBalance: 5000 })
+    expect(statement.transactions).toEqual([
+      expect.objectContaining({ id: '202605050001', type: 'credit', amount: 2500, description: 'Initech INV-3001' }),
+      expect.objectContaining({ id: '202605070002', type: 'debit', amount: 45.25, description: 'DEWA' }),
+    ])
+    expect(statement.transactions[0].date.toISOString()).toBe('2026-05-05T00:00:00.000Z')
+  })
+
+  const amounts = (...values: string[]) =>
+    parseOFX(
+      `<OFX><CURDEF>AED\n${values.map((v, i) => `<STMTTRN><TRNAMT>${v}<FITID>${i}</STMTTRN>`).join('\n')}\n</OFX>`
+    ).transactions.map((t) => t.amount)
+
+  it('reads a comma followed by one or two digits as the decimal separator', () => {
+    expect(amounts('1.234,56', '1234,5', '-45,25')).toEqual([1234.56, 1234.5, 45.25])
+  })
+
+  it('strips any other comma as a thousands separator', () => {
+    expect(amounts('1,234', '1,234,567', '1,234.56', '-12,345.6', '1000,')).toEqual([1234, 1234567, 1234.56, 12345.6, 1000])
+  })
+})
+
+describe('assignExternalIds', () => {
+  it('keeps bank ids and hashes the rest deterministically', async () => {
+    const csv = 'Date,Description,Amount,Currency,Reference\n2026-05-01,Coffee,-12.00,AED,\n2026-05-01,Coffee,-12.00,AED,\n'
+    const first = assignExternalIds((await parseStatement(csv, { fileName: 'a.csv' })).transactions)
+    const second = assignExternalIds((await parseStatement(csv, { fileName: 'a.csv' })).transactions)
+
+    expect(first.map((t) => t.id)).toEqual(second.map((t) => t.id))
+    // Two identical lines in one file stay distinct
+    expect(new Set(first.map((t) => t.id)).size).toBe(2)
+    expect(first[0].id).toMatch(/^hash:/)
+
+    const mt940 = assignExternalIds(parseMT940(MT940).transactions)
+    expect(mt940[0].id).toBe('FT26121ABC01')
+    expect(mt940[1].id).toMatch(/^hash:/)
+  })
+})
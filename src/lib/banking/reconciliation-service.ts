@@ -0,0 +1,742 @@
+/**
+ * Bank Reconciliation Service
+ * Confirms bank lines against invoices, bills, expenses and ledger accounts,
+ * applies user-defined bank rules and reconciles connections against
+ * statement balances. Every step can be undone.
+ */
+
+import { Prisma, type BankRule, type BankingTransaction } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { ledgerPostingService, postToLedgerSafe } from '@/lib/accounting/posting-service'
+import { periodCloseService } from '@/lib/accounting/period-close'
+import { paymentService } from '@/lib/payments/payment-service'
+import {
+  findMatchingRule,
+  suggestMatches,
+  summarizeReconciliation,
+  toCents,
+  validateAllocations,
+  type Allocation,
+  type BankLine,
+  type BankRuleCondition,
+  type BankRuleLike,
+  type MatchTargetType,
+  type OpenDocument,
+  type ReconciliationSummary,
+} from './reconciliation'
+
+export interface BankRuleInput {
+  name: string
+  connectionId?: string | null
+  priority?: number
+  direction?: 'credit' | 'debit' | null
+  conditions: BankRuleCondition[]
+  minAmount?: number | null
+  maxAmount?: number | null
+  category?: string | null
+  accountId?: string | null
+  autoConfirm?: boolean
+  isActive?: boolean
+}
+
+export interface StatementInput {
+  statementDate: Date
+  statementBalance: number
+  // Only used for a connection's first reconciliation
+  openingBalance?: number
+}
+
+export interface AutoMatchResult {
+  processed: number
+  categorized: number
+  matched: number
+  errors: string[]
+}
+
+type DocumentType = Exclude<MatchTargetType, 'account'>
+type Db = Prisma.TransactionClient
+
+// Status a document moves to once bank allocations cover it in full
+const SETTLED_STATUS: Record<DocumentType, string> = {
+  invoice: 'PAID',
+  bill: 'PAID',
+  expense: 'REIMBURSED',
+}
+
+// Auto-match only confirms suggestions this certain (amount and reference agree)
+const AUTO_MATCH_SCORE = 0.9
+const WORKSPACE_LIMIT = 200
+
+function toBankLine(txn: Pick<BankingTransaction, 'id' | 'connectionId' | 'description' | 'reference' | 'amount' | 'type' | 'date'>): BankLine {
+  return {
+    id: txn.id,
+    connectionId: txn.connectionId,
+    description: txn.description,
+    reference: txn.reference,
+    amountCents: Math.abs(toCents(txn.amount)),
+    type: txn.type === 'debit' ? 'debit' : 'credit',
+    date: txn.date,
+  }
+}
+
+function toRuleLike(rule: BankRule): BankRuleLike {
+  return {
+    ...rule,
+    conditions: (Array.isArray(rule.conditions) ? rule.conditions : []) as unknown as BankRuleCondition[],
+    minAmount: rule.minAmount == null ? null : Number(rule.minAmount),
+    maxAmount: rule.maxAmount == null ? null : Number(rule.maxAmount),
+  }
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date)
+  end.setUTCHours(23, 59, 59, 999)
+  return end
+}
+
+export class BankReconciliationService {
+  async listRules(tenantId: string, connectionId?: string) {
+    return prisma.bankRule.findMany({
+      where: { tenantId, ...(connectionId ? { OR: [{ connectionId }, { connectionId: null }] } : {}) },
+      orderBy: [{ priority: 'asc' }, { name: 'asc' }],
+    })
+  }
+
+  async createRule(tenantId: string, userId: string, input: BankRuleInput) {
+    await this.assertRuleTargets(tenantId, input)
+    const rule = await prisma.bankRule.create({
+      data: {
+        tenantId,
+        name: input.name,
+        connectionId: input.connectionId ?? null,
+        priority: input.priority ?? 100,
+        direction: input.direction ?? null,
+        conditions: input.conditions as unknown as Prisma.InputJsonValue,
+        minAmount: input.minAmount ?? null,
+        maxAmount: input.maxAmount ?? null,
+        category: input.category ?? null,
+        accountId: input.accountId ?? null,
+        autoConfirm: input.autoConfirm ?? false,
+        isActive: input.isActive ?? true,
+        createdBy: userId,
+      },
+    })
+    await logAudit({ tenantId, userId, action: 'banking.rule.created', resource: `BankRule:${rule.id}`, metadata: { name: rule.name } })
+    return rule
+  }
+
+  async updateRule(tenantId: string, userId: string, id: string, input: Partial<BankRuleInput>) {
+    const existing = await prisma.bankRule.findFirst({ where: { id, tenantId } })
+    if (!existing) throw new Error('Bank rule not found')
+    const autoConfirm = input.autoConfirm ?? existing.autoConfirm
+    const accountId = input.accountId !== undefined ? input.accountId : existing.accountId
+    if (autoConfirm && !accountId) throw new Error('Auto-confirm rules need an account to post to')
+    await this.assertRuleTargets(tenantId, input)
+
+    const rule = await prisma.bankRule.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.connectionId !== undefined && { connectionId: input.connectionId }),
+        ...(input.priority !== undefined && { priority: input.priority }),
+        ...(input.direction !== undefined && { direction: input.direction }),
+        ...(input.conditions !== undefined && { conditions: input.conditions as unknown as Prisma.InputJsonValue }),
+        ...(input.minAmount !== undefined && { minAmount: input.minAmount }),
+        ...(input.maxAmount !== undefined && { maxAmount: input.maxAmount }),
+        ...(input.category !== undefined && { category: input.category }),
+        ...(input.accountId !== undefined && { accountId: input.accountId }),
+        ...(input.autoConfirm !== undefined && { autoConfirm: input.autoConfirm }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+      },
+    })
+    await logAudit({ tenantId, userId, action: 'banking.rule.updated', resource: `BankRule:${id}`, metadata: { fields: Object.keys(input) } })
+    return rule
+  }
+
+  async deleteRule(tenantId: string, userId: string, id: string) {
+    const deleted = await prisma.bankRule.deleteMany({ where: { id, tenantId } })
+    if (deleted.count === 0) throw new Error('Bank rule not found')
+    await logAudit({ tenantId, userId, action: 'banking.rule.deleted', resource: `BankRule:${id}` })
+  }
+
+  /**
+   * Unreconciled lines of a connection with their confirmed matches, the
+   * rule that would apply and suggested allocations for unmatched lines.
+   */
+  async getWorkspace(tenantId: string, connectionId: string, statement?: StatementInput) {
+    const connection = await this.getConnection(tenantId, connectionId)
+
+    const [transactions, rules, documents, reconciliations] = await Promise.all([
+      prisma.bankingTransaction.findMany({
+        where: { tenantId, connectionId, reconciliationId: null },
+        include: { matches: { where: { status: 'CONFIRMED' }, orderBy: { createdAt: 'asc' } } },
+        orderBy: { date: 'asc' },
+        take: WORKSPACE_LIMIT,
+      }),
+      this.listRules(tenantId, connectionId),
+      this.loadOpenDocuments(tenantId),
+      prisma.bankReconciliation.findMany({
+        where: { tenantId, connectionId },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+    ])
+
+    const ruleLikes = rules.map(toRuleLike)
+    const lines = transactions.map((txn) => {
+      const line = toBankLine(txn)
+      const rule = txn.matched ? null : findMatchingRule(ruleLikes, line)
+      return {
+        id: txn.id,
+        date: txn.date,
+        description: txn.description,
+        reference: txn.reference,
+        amount: Number(txn.amount),
+        currency: txn.currency,
+        type: txn.type,
+        category: txn.category,
+        matched: txn.matched,
+        matches: txn.matches,
+        rule: rule ? { id: rule.id, name: rule.name, category: rule.category, accountId: rule.accountId } : null,
+        suggestions: txn.matched ? [] : suggestMatches(line, documents),
+      }
+    })
+
+    return {
+      connection: {
+        id: connection.id,
+        bankName: connection.bankName,
+        accountNumber: connection.accountNumber,
+        reconciledThrough: connection.reconciledThrough,
+        reconciledBalance: connection.reconciledBalance == null ? null : Number(connection.reconciledBalance),
+      },
+      transactions: lines,
+      reconciliations,
+      preview: statement ? await this.previewReconciliation(tenantId, connectionId, statement) : null,
+    }
+  }
+
+  /**
+   * Confirm allocations for a bank line: one or many documents, partial
+   * payments and ledger-account splits. Documents covered in full are
+   * marked settled and each allocation posts to the ledger. Allocations to
+   * open invoices record a payment against the invoice; allocations to paid
+   * invoices only tie the bank line to the payment already recorded.
+   */
+  async confirmMatch(
+    tenantId: string,
+    userId: string | null,
+    transactionId: string,
+    allocations: Allocation[],
+    options: { category?: string | null; ruleId?: string | null } = {}
+  ) {
+    const txn = await prisma.bankingTransaction.findFirst({
+      where: { id: transactionId, tenantId },
+      include: { connection: { select: { entityId: true } } },
+    })
+    if (!txn) throw new Error('Transaction not found')
+    if (txn.reconciliationId) throw new Error('Transaction is locked by a reconciliation')
+    if (txn.matched) throw new Error('Transaction is already matched')
+
+    const entityId = txn.connection?.entityId ?? null
+    await periodCloseService.assertDateOpen(tenantId, entityId, txn.date)
+
+    await this.validateMatch(prisma, tenantId, txn, allocations)
+    await this.assertAccounts(tenantId, allocations.filter((a) => a.targetType === 'account').map((a) => a.targetId))
+
+    const settledMatches = new Set<string>()
+    const matches = await prisma.$transaction(async (tx) => {
+      // Claiming the line first makes a concurrent confirm of it wait here, then fail
+      const single = allocations.length === 1 ? allocations[0] : null
+      const claimed = await tx.bankingTransaction.updateMany({
+        where: { id: transactionId, tenantId, matched: false, reconciliationId: null },
+        data: {
+          matched: true,
+          matchedToId: single ? single.targetId : null,
+          matchedToType: single ? single.targetType : 'split',
+          ...(options.category !== undefined && { category: options.category }),
+        },
+      })
+      if (claimed.count === 0) throw new Error('Transaction is already matched')
+
+      // Open amounts are read again under lock, so two lines cannot settle the same document twice
+      await this.lockDocuments(tx, tenantId, allocations)
+      const documents = await this.validateMatch(tx, tenantId, txn, allocations)
+
+      const created = []
+      for (const allocation of allocations) {
+        const doc = documents.find((d) => d.type === allocation.targetType && d.id === allocation.targetId)
+        const invoicePaid = doc?.type === 'invoice' && doc.status === SETTLED_STATUS.invoice
+        let previousStatus: string | null = null
+
+        // Invoice statuses follow their payments (recorded below)
+        if (doc && doc.type !== 'invoice' && allocation.amountCents === doc.openCents && doc.status !== SETTLED_STATUS[doc.type]) {
+          previousStatus = doc.status
+          await this.setDocumentStatus(tx, doc.type, doc.id, SETTLED_STATUS[doc.type], txn.date)
+        }
+
+        const match = await tx.bankTransactionMatch.create({
+          data: {
+            tenantId,
+            transactionId,
+            targetType: allocation.targetType,
+            targetId: allocation.targetId,
+            amountCents: allocation.amountCents,
+            description: allocation.description ?? null,
+            ruleId: options.ruleId ?? null,
+            previousStatus,
+            createdBy: userId,
+          },
+        })
+        if (doc?.type === 'invoice') {
+          if (invoicePaid) {
+            settledMatches.add(match.id)
+          } else {
+            await paymentService.recordBankPayment(tx, {
+              tenantId,
+              userId,
+              matchId: match.id,
+              invoiceId: doc.id,
+              amountCents: allocation.amountCents,
+              currency: txn.currency,
+              receivedAt: txn.date,
+              reference: txn.reference,
+            })
+          }
+        }
+        created.push(match)
+      }
+      return created
+    })
+
+    for (const match of matches) {
+      const entry = await postToLedgerSafe('bank_transaction.matched', () =>
+        ledgerPostingService.postBankAllocation(match as any, txn, { userId, entityId, settled: settledMatches.has(match.id) })
+      )
+      if (entry) {
+        await prisma.bankTransactionMatch.update({ where: { id: match.id }, data: { journalEntryId: entry.id } })
+        match.journalEntryId = entry.id
+      }
+    }
+
+    await logAudit({
+      tenantId,
+      userId: userId ?? undefined,
+      action: 'banking.transaction.matched',
+      resource: `BankingTransaction:${transactionId}`,
+      metadata: { allocations: allocations.length, ruleId: options.ruleId ?? null },
+    })
+
+    return matches
+  }
+
+  /**
+   * Undo a confirmed match: reverse its ledger postings, void the invoice
+   * payments it recorded and restore any document the match had marked settled.
+   */
+  async undoMatch(tenantId: string, userId: string, transactionId: string) {
+    const txn = await prisma.bankingTransaction.findFirst({
+      where: { id: transactionId, tenantId },
+      include: { matches: { where: { status: 'CONFIRMED' } } },
+    })
+    if (!txn) throw new Error('Transaction not found')
+    if (txn.reconciliationId) throw new Error('Transaction is locked by a reconciliation')
+    if (!txn.matched || txn.matches.length === 0) throw new Error('Transaction is not matched')
+
+    // Ledger reversals and the match removal succeed or fail together
+    await prisma.$transaction(async (tx) => {
+      const released = await tx.bankingTransaction.updateMany({
+        where: { id: transactionId, tenantId, matched: true, reconciliationId: null },
+        data: { matched: false, matchedToId: null, matchedToType: null },
+      })
+      if (released.count === 0) throw new Error('Transaction is not matched')
+
+      for (const match of txn.matches) {
+        if (match.journalEntryId) {
+          await ledgerPostingService.reverseJournalEntry(tenantId, match.journalEntryId, {
+            userId,
+            reason: `Bank match undone for transaction ${transactionId}`,
+          }, tx)
+        }
+      }
+
+      for (const match of txn.matches) {
+        if (match.targetType !== 'account') {
+          // Whichever allocation settled the document holds its prior status
+          const settling = await tx.bankTransactionMatch.findFirst({
+            where: {
+              tenantId,
+              targetType: match.targetType,
+              targetId: match.targetId,
+              status: 'CONFIRMED',
+              previousStatus: { not: null },
+            },
+          })
+          if (settling) {
+            await this.setDocumentStatus(tx, match.targetType as DocumentType, match.targetId, settling.previousStatus!, null)
+            if (settling.transactionId !== transactionId) {
+              await tx.bankTransactionMatch.update({ where: { id: settling.id }, data: { previousStatus: null } })
+            }
+          }
+        }
+        await tx.bankTransactionMatch.update({
+          where: { id: match.id },
+          data: { status: 'UNDONE', undoneAt: new Date(), undoneBy: userId },
+        })
+      }
+      await paymentService.voidBankPayments(tx, tenantId, userId, txn.matches.map((m) => m.id))
+    })
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'banking.transaction.unmatched',
+      resource: `BankingTransaction:${transactionId}`,
+      metadata: { allocations: txn.matches.length },
+    })
+  }
+
+  /**
+   * Run bank rules over a connection's unmatched lines, then confirm
+   * suggestions that match on both amount and reference.
+   */
+  async autoMatch(tenantId: string, userId: string | null, connectionId: string): Promise<AutoMatchResult> {
+    await this.getConnection(tenantId, connectionId)
+    const result: AutoMatchResult = { processed: 0, categorized: 0, matched: 0, errors: [] }
+
+    const [transactions, rules] = await Promise.all([
+      prisma.bankingTransaction.findMany({
+        where: { tenantId, connectionId, matched: false, reconciliationId: null },
+        orderBy: { date: 'asc' },
+        take: WORKSPACE_LIMIT,
+      }),
+      prisma.bankRule.findMany({
+        where: { tenantId, isActive: true, OR: [{ connectionId }, { connectionId: null }] },
+      }),
+    ])
+    const ruleLikes = rules.map(toRuleLike)
+    let documents = await this.loadOpenDocuments(tenantId)
+
+    for (const txn of transactions) {
+      result.processed++
+      const line = toBankLine(txn)
+      try {
+        const rule = findMatchingRule(ruleLikes, line)
+        if (rule?.category && txn.category !== rule.category) {
+          await prisma.bankingTransaction.update({ where: { id: txn.id }, data: { category: rule.category } })
+          result.categorized++
+        }
+        if (rule?.accountId && rule.autoConfirm) {
+          await this.confirmMatch(
+            tenantId,
+            userId,
+            txn.id,
+            [{ targetType: 'account', targetId: rule.accountId, amountCents: line.amountCents, description: rule.name }],
+            { ruleId: rule.id, category: rule.category ?? undefined }
+          )
+          result.matched++
+          continue
+        }
+        if (rule) continue
+
+        const [best] = suggestMatches(line, documents)
+        if (best && best.score >= AUTO_MATCH_SCORE) {
+          await this.confirmMatch(tenantId, userId, txn.id, best.allocations)
+          result.matched++
+          documents = await this.loadOpenDocuments(tenantId)
+        }
+      } catch (error) {
+        result.errors.push(`Failed to match transaction ${txn.id}: ${error instanceof Error ? error.message : String(error)}`)
+        logger.warn('Bank auto-match failed', { tenantId, transactionId: txn.id, error })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Opening balance, cleared balance and difference for a statement without
+   * saving anything. Covers every unreconciled line up to the statement date.
+   */
+  async previewReconciliation(tenantId: string, connectionId: string, input: StatementInput): Promise<ReconciliationSummary & { previousThrough: Date | null }> {
+    const connection = await this.getConnection(tenantId, connectionId)
+    const lines = await prisma.bankingTransaction.findMany({
+      where: { tenantId, connectionId, reconciliationId: null, date: { lte: endOfDay(input.statementDate) } },
+      select: { amount: true, type: true, matched: true },
+    })
+
+    const hasPrevious = connection.reconciledThrough != null
+    const openingCents = hasPrevious ? toCents(connection.reconciledBalance ?? 0) : toCents(input.openingBalance ?? 0)
+
+    return {
+      ...summarizeReconciliation({
+        openingCents,
+        statementCents: toCents(input.statementBalance),
+        lines: lines.map((l) => ({ amountCents: Math.abs(toCents(l.amount)), type: l.type === 'debit' ? 'debit' : 'credit', matched: l.matched })),
+      }),
+      previousThrough: connection.reconciledThrough,
+    }
+  }
+
+  /**
+   * Reconcile a connection through a statement date. Every line up to the
+   * date must be matched and the cleared balance must equal the statement.
+   */
+  async reconcile(tenantId: string, userId: string, connectionId: string, input: StatementInput) {
+    const connection = await this.getConnection(tenantId, connectionId)
+    if (connection.reconciledThrough && input.statementDate <= connection.reconciledThrough) {
+      throw new Error('Statement date must be after the last reconciliation')
+    }
+
+    const summary = await this.previewReconciliation(tenantId, connectionId, input)
+    if (!summary.balanced) {
+      throw new Error('Reconciliation is out of balance')
+    }
+
+    const reconciliation = await prisma.$transaction(async (tx) => {
+      const created = await tx.bankReconciliation.create({
+        data: {
+          tenantId,
+          connectionId,
+          statementDate: input.statementDate,
+          statementBalance: input.statementBalance,
+          openingBalance: summary.openingCents / 100,
+          clearedBalance: summary.clearedCents / 100,
+          transactionCount: summary.transactionCount,
+          previousThrough: connection.reconciledThrough,
+          reconciledBy: userId,
+        },
+      })
+      await tx.bankingTransaction.updateMany({
+        where: { tenantId, connectionId, reconciliationId: null, date: { lte: endOfDay(input.statementDate) } },
+        data: { reconciliationId: created.id },
+      })
+      await tx.bankingConnection.update({
+        where: { id: connectionId },
+        data: { reconciledThrough: input.statementDate, reconciledBalance: input.statementBalance },
+      })
+      return created
+    })
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'banking.reconciliation.completed',
+      resource: `BankReconciliation:${reconciliation.id}`,
+      metadata: { connectionId, statementDate: input.statementDate.toISOString(), transactions: summary.transactionCount },
+    })
+
+    return reconciliation
+  }
+
+  /** Undo the connection's latest reconciliation and unlock its lines */
+  async undoReconciliation(tenantId: string, userId: string, connectionId: string) {
+    await this.getConnection(tenantId, connectionId)
+    const latest = await prisma.bankReconciliation.findFirst({
+      where: { tenantId, connectionId, status: 'COMPLETED' },
+      orderBy: { statementDate: 'desc' },
+    })
+    if (!latest) throw new Error('No reconciliation to undo')
+
+    const previous = await prisma.bankReconciliation.findFirst({
+      where: { tenantId, connectionId, status: 'COMPLETED', id: { not: latest.id } },
+      orderBy: { statementDate: 'desc' },
+    })
+
+    await prisma.$transaction([
+      prisma.bankingTransaction.updateMany({ where: { reconciliationId: latest.id }, data: { reconciliationId: null } }),
+      prisma.bankReconciliation.update({
+        where: { id: latest.id },
+        data: { status: 'UNDONE', undoneAt: new Date(), undoneBy: userId },
+      }),
+      prisma.bankingConnection.update({
+        where: { id: connectionId },
+        data: {
+          reconciledThrough: previous?.statementDate ?? null,
+          reconciledBalance: previous?.statementBalance ?? null,
+        },
+      }),
+    ])
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'banking.reconciliation.undone',
+      resource: `BankReconciliation:${latest.id}`,
+      metadata: { connectionId },
+    })
+
+    return latest
+  }
+
+  private async getConnection(tenantId: string, connectionId: string) {
+    const connection = await prisma.bankingConnection.findFirst({ where: { id: connectionId, tenantId } })
+    if (!connection) throw new Error('Connection not found')
+    return connection
+  }
+
+  private async assertAccounts(tenantId: string, accountIds: string[]) {
+    if (accountIds.length === 0) return
+    const unique = Array.from(new Set(accountIds))
+    const found = await prisma.ledgerAccount.count({ where: { tenantId, id: { in: unique }, isActive: true } })
+    if (found !== unique.length) throw new Error('Ledger account not found')
+  }
+
+  private async assertRuleTargets(tenantId: string, input: Partial<BankRuleInput>) {
+    if (input.accountId) await this.assertAccounts(tenantId, [input.accountId])
+    if (input.connectionId) await this.getConnection(tenantId, input.connectionId)
+  }
+
+  /**
+   * Check allocations against what is open on each document. Documents must
+   * be in the bank line's currency: its cents cannot settle another currency.
+   */
+  private async validateMatch(
+    db: Db,
+    tenantId: string,
+    txn: BankingTransaction,
+    allocations: Allocation[]
+  ) {
+    const documents = await this.loadDocuments(tenantId, allocations, db)
+    const open = new Map(documents.map((d) => [`${d.type}:${d.id}`, d.openCents]))
+    validateAllocations(toBankLine(txn), allocations, open)
+    const foreign = documents.find((d) => d.currency !== txn.currency)
+    if (foreign) {
+      throw new Error(`Allocation currency ${foreign.currency} of ${foreign.type}:${foreign.id} does not match the transaction currency ${txn.currency}`)
+    }
+    return documents
+  }
+
+  // Row locks on the allocated documents until the transaction ends, taken in a fixed order
+  private async lockDocuments(tx: Db, tenantId: string, allocations: Allocation[]) {
+    const tables: Array<[DocumentType, string]> = [['bill', 'bills'], ['expense', 'expenses'], ['invoice', 'invoices']]
+    for (const [type, table] of tables) {
+      const ids = Array.from(new Set(allocations.filter((a) => a.targetType === type).map((a) => a.targetId))).sort()
+      if (ids.length === 0) continue
+      await tx.$queryRaw`SELECT id FROM ${Prisma.raw(`"${table}"`)} WHERE "tenantId" = ${tenantId} AND id IN (${Prisma.join(ids)}) ORDER BY id FOR UPDATE`
+    }
+  }
+
+  /** Confirmed bank allocations per document, keyed `type:id` */
+  private async allocatedCents(tenantId: string, type: DocumentType, ids: string[], db: Db = prisma): Promise<Map<string, number>> {
+    if (ids.length === 0) return new Map()
+    const groups = await db.bankTransactionMatch.groupBy({
+      by: ['targetId'],
+      where: { tenantId, targetType: type, targetId: { in: ids }, status: 'CONFIRMED' },
+      _sum: { amountCents: true },
+    })
+    return new Map(groups.map((g) => [g.targetId, g._sum.amountCents || 0]))
+  }
+
+  /**
+   * Documents named by allocations with what is still open on each. Already
+   * settled documents stay matchable so a manual payment can be tied to its bank line.
+   */
+  private async loadDocuments(tenantId: string, allocations: Allocation[], db: Db = prisma) {
+    const idsOf = (type: DocumentType) => allocations.filter((a) => a.targetType === type).map((a) => a.targetId)
+    return this.documentsWhere(tenantId, {
+      invoice: { id: { in: idsOf('invoice') }, status: { notIn: ['DRAFT', 'VOID'] } },
+      // Only approved bills have been credited to AP, so only they can be paid from a bank line
+      bill: { id: { in: idsOf('bill') }, status: { in: ['APPROVED', 'PAID'] } },
+      expense: { id: { in: idsOf('expense') }, status: { not: 'REJECTED' } },
+    }, db)
+  }
+
+  /** Unsettled documents that suggestions are drawn from */
+  private async loadOpenDocuments(tenantId: string): Promise<OpenDocument[]> {
+    return this.documentsWhere(tenantId, {
+      invoice: { status: { in: ['SENT', 'UNPAID'] } },
+      bill: { status: 'APPROVED' },
+      expense: { status: { in: ['PENDING', 'APPROVED'] } },
+    })
+  }
+
+  private async documentsWhere(
+    tenantId: string,
+    where: { invoice: Prisma.InvoiceWhereInput; bill: Prisma.BillWhereInput; expense: Prisma.ExpenseWhereInput },
+    db: Db = prisma
+  ): Promise<Array<OpenDocument & { status: string; currency: string }>> {
+    const [invoices, bills, expenses] = await Promise.all([
+      db.invoice.findMany({
+        where: { tenantId, ...where.invoice },
+        select: { id: true, number: true, currency: true, totalCents: true, status: true, createdAt: true },
+        take: 500,
+      }),
+      db.bill.findMany({
+        where: { tenantId, ...where.bill },
+        select: { id: true, billNumber: true, vendor: true, currency: true, amount: true, whtAmount: true, status: true, date: true },
+        take: 500,
+      }),
+      db.expense.findMany({
+        where: { tenantId, ...where.expense },
+        select: { id: true, vendor: true, currency: true, amountCents: true, status: true, date: true },
+        take: 500,
+      }),
+    ])
+
+    const [invoiceBalances, invoicePaid, billPaid, expensePaid] = await Promise.all([
+      paymentService.getInvoiceBalances(tenantId, invoices.map((i) => i.id), db),
+      this.allocatedCents(tenantId, 'invoice', invoices.map((i) => i.id), db),
+      this.allocatedCents(tenantId, 'bill', bills.map((b) => b.id), db),
+      this.allocatedCents(tenantId, 'expense', expenses.map((e) => e.id), db),
+    ])
+
+    return [
+      ...invoices.map((i) => ({
+        type: 'invoice' as const,
+        id: i.id,
+        label: i.number || i.id,
+        date: i.createdAt,
+        currency: i.currency,
+        status: String(i.status),
+        // Paid invoices stay open to bank lines that confirm their payments
+        openCents: i.status === 'PAID'
+          ? i.totalCents - (invoicePaid.get(i.id) || 0)
+          : invoiceBalances.get(i.id)?.outstandingCents ?? i.totalCents,
+      })),
+      ...bills.map((b) => ({
+        type: 'bill' as const,
+        id: b.id,
+        label: b.billNumber || b.vendor,
+        date: b.date,
+        currency: b.currency,
+        status: String(b.status),
+        // The vendor is paid net of the tax withheld
+        openCents: Math.round((b.amount - b.whtAmount) * 100) - (billPaid.get(b.id) || 0),
+      })),
+      ...expenses.map((e) => ({
+        type: 'expense' as const,
+        id: e.id,
+        label: e.vendor,
+        date: e.date,
+        currency: e.currency,
+        status: e.status,
+        openCents: e.amountCents - (expensePaid.get(e.id) || 0),
+      })),
+    ]
+  }
+
+  private async setDocumentStatus(
+    tx: Prisma.TransactionClient,
+    type: DocumentType,
+    id: string,
+    status: string,
+    paidAt: Date | null
+  ) {
+    switch (type) {
+      case 'invoice':
+        await tx.invoice.update({ where: { id }, data: { status: status as any, paidAt } })
+        break
+      case 'bill':
+        await tx.bill.update({ where: { id }, data: { status: status as any, paidAt } })
+        break
+      case 'expense':
+        await tx.expense.update({ where: { id }, data: { status } })
+        break
+    }
+  }
+}
+
+export const bankReconciliationService = new BankReconciliationService()
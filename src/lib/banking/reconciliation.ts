@@ -0,0 +1,294 @@
+/**
+ * Bank Reconciliation
+ * Pure helpers for bank rules, allocation checks, match suggestions and
+ * statement-balance reconciliation. Amounts are integer cents throughout.
+ */
+
+export type MatchTargetType = 'invoice' | 'bill' | 'expense' | 'account'
+
+export interface Allocation {
+  targetType: MatchTargetType
+  targetId: string
+  amountCents: number
+  description?: string
+}
+
+export type BankRuleField = 'description' | 'reference'
+export type BankRuleOperator = 'contains' | 'equals' | 'startsWith' | 'endsWith' | 'regex'
+
+export interface BankRuleCondition {
+  field: BankRuleField
+  operator: BankRuleOperator
+  value: string
+}
+
+export interface BankRuleLike {
+  id: string
+  name: string
+  priority: number
+  connectionId?: string | null
+  direction?: string | null
+  conditions: BankRuleCondition[]
+  minAmount?: number | null
+  maxAmount?: number | null
+  category?: string | null
+  accountId?: string | null
+  autoConfirm?: boolean
+  isActive?: boolean
+}
+
+export interface BankLine {
+  id: string
+  connectionId?: string
+  description: string
+  reference?: string | null
+  amountCents: number
+  type: 'credit' | 'debit'
+  date: Date
+}
+
+export interface OpenDocument {
+  type: Exclude<MatchTargetType, 'account'>
+  id: string
+  label: string
+  date: Date
+  openCents: number
+}
+
+export interface MatchSuggestion {
+  allocations: Allocation[]
+  score: number
+  reason: string
+}
+
+export interface ReconciliationSummary {
+  openingCents: number
+  clearedCents: number
+  statementCents: number
+  differenceCents: number
+  transactionCount: number
+  unmatchedCount: number
+  balanced: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Subset search is exponential; keep it to a handful of the closest candidates
+const MAX_COMBINATION_CANDIDATES = 12
+const MAX_COMBINATION_SIZE = 4
+
+export function toCents(amount: number | string | { toString(): string }): number {
+  return Math.round(Number(amount.toString()) * 100)
+}
+
+/** Credits increase the bank balance, debits reduce it */
+export function signedCents(line: Pick<BankLine, 'amountCents' | 'type'>): number {
+  return line.type === 'debit' ? -Math.abs(line.amountCents) : Math.abs(line.amountCents)
+}
+
+function conditionMatches(condition: BankRuleCondition, line: BankLine): boolean {
+  const haystack = String((condition.field === 'reference' ? line.reference : line.description) || '')
+  const value = condition.value || ''
+
+  switch (condition.operator) {
+    case 'equals':
+      return haystack.trim().toLowerCase() === value.trim().toLowerCase()
+    case 'startsWith':
+      return haystack.toLowerCase().startsWith(value.toLowerCase())
+    case 'endsWith':
+      return haystack.toLowerCase().endsWith(value.toLowerCase())
+    case 'regex':
+      try {
+        return new RegExp(value, 'i').test(haystack)
+      } catch {
+        return false
+      }
+    case 'contains':
+    default:
+      return haystack.toLowerCase().includes(value.toLowerCase())
+  }
+}
+
+/**
+ * Whether a rule applies to a bank line: every condition must match,
+ * plus the optional direction, amount range and connection scope.
+ */
+export function ruleMatches(rule: BankRuleLike, line: BankLine): boolean {
+  if (rule.isActive === false) return false
+  if (rule.connectionId && line.connectionId && rule.connectionId !== line.connectionId) return false
+  if (rule.direction && rule.direction !== line.type) return false
+
+  const amount = Math.abs(line.amountCents) / 100
+  if (rule.minAmount != null && amount < rule.minAmount) return false
+  if (rule.maxAmount != null && amount > rule.maxAmount) return false
+
+  return rule.conditions.length > 0 && rule.conditions.every((c) => conditionMatches(c, line))
+}
+
+/** First matching rule by priority (lower first), then name for a stable order */
+export function findMatchingRule<T extends BankRuleLike>(rules: T[], line: BankLine): T | null {
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name))
+  return ordered.find((rule) => ruleMatches(rule, line)) || null
+}
+
+/**
+ * Check a proposed set of allocations for a bank line. The allocations must
+ * add up to the line amount exactly, and none may exceed what is still open
+ * on its document (ledger-account allocations have no ceiling).
+ */
+export function validateAllocations(
+  line: Pick<BankLine, 'amountCents'>,
+  allocations: Allocation[],
+  openCents: Map<string, number> = new Map()
+): void {
+  if (allocations.length === 0) {
+    throw new Error('At least one allocation is required')
+  }
+
+  const seen = new Set<string>()
+  let total = 0
+  for (const allocation of allocations) {
+    if (!Number.isInteger(allocation.amountCents) || allocation.amountCents <= 0) {
+      throw new Error('Allocation amounts must be positive')
+    }
+    const key = `${allocation.targetType}:${allocation.targetId}`
+    if (seen.has(key)) {
+      throw new Error('Each document can only be allocated once per transaction')
+    }
+    seen.add(key)
+
+    if (allocation.targetType !== 'account') {
+      const open = openCents.get(key)
+      if (open === undefined) {
+        throw new Error(`Allocation target not found: ${key}`)
+      }
+      if (allocation.amountCents > open) {
+        throw new Error(`Allocation exceeds the open amount of ${key}`)
+      }
+    }
+    total += allocation.amountCents
+  }
+
+  if (total !== Math.abs(line.amountCents)) {
+    throw new Error('Allocations must equal the transaction amount')
+  }
+}
+
+function referencedIn(doc: OpenDocument, line: BankLine): boolean {
+  if (!doc.label || doc.label.length < 3) return false
+  const text = `${line.description} ${line.reference || ''}`.toLowerCase()
+  return text.includes(doc.label.toLowerCase())
+}
+
+function findCombination(docs: OpenDocument[], target: number): OpenDocument[] | null {
+  const search = (start: number, remaining: number, picked: OpenDocument[]): OpenDocument[] | null => {
+    if (remaining === 0 && picked.length > 1) return picked
+    if (remaining <= 0 || picked.length >= MAX_COMBINATION_SIZE) return null
+    for (let i = start; i < docs.length; i++) {
+      const found = search(i + 1, remaining - docs[i].openCents, [...picked, docs[i]])
+      if (found) return found
+    }
+    return null
+  }
+  return search(0, target, [])
+}
+
+/**
+ * Suggest allocations for a bank line: credits against invoices, debits
+ * against bills and expenses. Covers exact single matches, several
+ * documents settled by one payment, and partial payment of a referenced document.
+ */
+export function suggestMatches(
+  line: BankLine,
+  documents: OpenDocument[],
+  options: { dateWindowDays?: number; limit?: number } = {}
+): MatchSuggestion[] {
+  const windowMs = (options.dateWindowDays ?? 30) * DAY_MS
+  const amount = Math.abs(line.amountCents)
+  const types = line.type === 'credit' ? ['invoice'] : ['bill', 'expense']
+  const candidates = documents
+    .filter((d) => types.includes(d.type) && d.openCents > 0)
+    .filter((d) => Math.abs(d.date.getTime() - line.date.getTime()) <= windowMs || referencedIn(d, line))
+
+  const suggestions: MatchSuggestion[] = []
+  const allocate = (doc: OpenDocument, cents: number): Allocation => ({
+    targetType: doc.type,
+    targetId: doc.id,
+    amountCents: cents,
+  })
+  const proximity = (doc: OpenDocument) => 0.1 * (1 - Math.min(Math.abs(doc.date.getTime() - line.date.getTime()) / windowMs, 1))
+
+  for (const doc of candidates) {
+    const referenced = referencedIn(doc, line)
+    if (doc.openCents === amount) {
+      suggestions.push({
+        allocations: [allocate(doc, amount)],
+        score: 0.5 + (referenced ? 0.4 : 0) + proximity(doc),
+        reason: referenced ? `Amount and reference match ${doc.label}` : `Amount matches ${doc.label}`,
+      })
+    } else if (referenced && doc.openCents > amount) {
+      suggestions.push({
+        allocations: [allocate(doc, amount)],
+        score: 0.4 + proximity(doc),
+        reason: `Partial payment of ${doc.label}`,
+      })
+    }
+  }
+
+  // Several referenced documents settled together
+  const referencedDocs = candidates.filter((d) => referencedIn(d, line))
+  if (referencedDocs.length > 1) {
+    const sum = referencedDocs.reduce((s, d) => s + d.openCents, 0)
+    if (sum === amount) {
+      suggestions.push({
+        allocations: referencedDocs.map((d) => allocate(d, d.openCents)),
+        score: 0.95,
+        reason: `Settles ${referencedDocs.map((d) => d.label).join(', ')}`,
+      })
+    }
+  }
+
+  // Unreferenced combinations that add up exactly, nearest dates first
+  const nearest = [...candidates]
+    .filter((d) => d.openCents < amount)
+    .sort((a, b) => Math.abs(a.date.getTime() - line.date.getTime()) - Math.abs(b.date.getTime() - line.date.getTime()))
+    .slice(0, MAX_COMBINATION_CANDIDATES)
+  const combination = findCombination(nearest, amount)
+  if (combination && !suggestions.some((s) => s.allocations.length === combination.length)) {
+    suggestions.push({
+      allocations: combination.map((d) => allocate(d, d.openCents)),
+      score: 0.45,
+      reason: `Combined amount of ${combination.map((d) => d.label).join(', ')}`,
+    })
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 5)
+    .map((s) => ({ ...s, score: Math.round(s.score * 100) / 100 }))
+}
+
+/**
+ * Compare the cleared balance (opening balance plus every line up to the
+ * statement date) with the statement. Reconciliation requires every line
+ * in range to be matched and no difference.
+ */
+export function summarizeReconciliation(input: {
+  openingCents: number
+  statementCents: number
+  lines: Array<Pick<BankLine, 'amountCents' | 'type'> & { matched: boolean }>
+}): ReconciliationSummary {
+  const clearedCents = input.lines.reduce((sum, line) => sum + signedCents(line), input.openingCents)
+  const unmatchedCount = input.lines.filter((line) => !line.matched).length
+  const differenceCents = input.statementCents - clearedCents
+
+  return {
+    openingCents: input.openingCents,
+    clearedCents,
+    statementCents: input.statementCents,
+    differenceCents,
+    transactionCount: input.lines.length,
+    unmatchedCount,
+    balanced: differenceCents === 0 && unmatchedCount === 0,
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Bank Statement Import Service
+ * Ingests MT940, CAMT.053, OFX/QFX and CSV statement files into manual
+ * banking connections, skipping lines that were already imported.
+ */
+
+import type { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logAudit } from '@/lib/audit'
+import { assignExternalIds, parseStatement, type StatementFormat } from './statement-parsers'
+
+export interface StatementImportInput {
+  content: string
+  fileName?: string
+  format?: StatementFormat
+}
+
+export interface StatementImportResult {
+  format: StatementFormat
+  accountId?: string
+  currency?: string
+  openingBalance?: number
+  closingBalance?: number
+  statementDate?: Date
+  total: number
+  imported: number
+  duplicates: number
+  // Lines dated inside an already reconciled range are not imported
+  locked: number
+}
+
+const alphanumeric = (value: string) => value.replace(/[^A-Za-z0-9]/g, '').toUpperCase()
+
+/**
+ * Statement and connection identify the same account when one number ends
+ * with the other, e.g. an IBAN against a stored "****1234" or plain number.
+ */
+function sameAccount(statementAccount: string, connectionAccount: string): boolean {
+  const a = alphanumeric(statementAccount)
+  const b = alphanumeric(connectionAccount)
+  if (!a || !b) return true
+  return a.endsWith(b) || b.endsWith(a)
+}
+
+export class BankStatementImportService {
+  async importStatement(
+    tenantId: string,
+    userId: string,
+    connectionId: string,
+    input: StatementImportInput
+  ): Promise<StatementImportResult> {
+    const connection = await prisma.bankingConnection.findFirst({ where: { id: connectionId, tenantId } })
+    if (!connection) throw new Error('Connection not found')
+    if (connection.provider !== 'csv' && connection.syncFrequency !== 'MANUAL') {
+      throw new Error('Statement upload is only available for manual connections')
+    }
+
+    const statement = await parseStatement(input.content, { format: input.format, fileName: input.fileName })
+    if (statement.transactions.length === 0) throw new Error('No transactions found in statement')
+    if (statement.accountId && !sameAccount(statement.accountId, connection.accountNumber)) {
+      throw new Error('Statement account does not match the connection')
+    }
+
+    const transactions = assignExternalIds(statement.transactions)
+
+    // De-duplicate within the file first, then against earlier imports
+    const unique = new Map(transactions.map((txn) => [txn.id, txn]))
+    const existing = await prisma.bankingTransaction.findMany({
+      where: { connectionId, externalId: { in: Array.from(unique.keys()) } },
+      select: { externalId: true },
+    })
+    const known = new Set(existing.map((t) => t.externalId))
+    const fresh = Array.from(unique.values()).filter((txn) => !known.has(txn.id))
+
+    const lockedThrough = connection.reconciledThrough
+    const importable = lockedThrough ? fresh.filter((txn) => txn.date > lockedThrough) : fresh
+    const locked = fresh.length - importable.length
+
+    const created = importable.length
+      ? await prisma.bankingTransaction.createMany({
+        data: importable.map((txn) => ({
+          connectionId,
+          tenantId,
+          externalId: txn.id,
+          date: txn.date,
+          description: txn.description.slice(0, 1000),
+          amount: txn.amount.toString(),
+          currency: txn.currency,
+          type: txn.type,
+          balance: txn.balance !== undefined ? txn.balance.toString() : null,
+          reference: txn.reference || null,
+          tags: txn.tags || [],
+          matched: false,
+        })),
+        // A concurrent upload of the same file may have won the race
+        skipDuplicates: true,
+      })
+      : { count: 0 }
+
+    const result: StatementImportResult = {
+      format: statement.format,
+      accountId: statement.accountId,
+      currency: statement.currency,
+      openingBalance: statement.openingBalance,
+      closingBalance: statement.closingBalance,
+      statementDate: statement.statementDate,
+      total: transactions.length,
+      imported: created.count,
+      duplicates: transactions.length - created.count - locked,
+      locked,
+    }
+
+    const metadata = (connection.metadata && typeof connection.metadata === 'object' && !Array.isArray(connection.metadata)
+      ? connection.metadata
+      : {}) as Prisma.JsonObject
+    await prisma.bankingConnection.update({
+      where: { id: connectionId },
+      data: {
+        lastSyncAt: new Date(),
+        lastSyncError: null,
+        status: 'ACTIVE',
+        metadata: {
+          ...metadata,
+          lastStatement: {
+            format: statement.format,
+            fileName: input.fileName || null,
+            closingBalance: statement.closingBalance ?? null,
+            statementDate: statement.statementDate?.toISOString() ?? null,
+            importedAt: new Date().toISOString(),
+          },
+        },
+      },
+    })
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'banking.statement.imported',
+      resource: `BankingConnection:${connectionId}`,
+      metadata: { format: statement.format, fileName: input.fileName, imported: result.imported, duplicates: result.duplicates, locked },
+    })
+
+    return result
+  }
+}
+
+export const bankStatementImportService = new BankStatementImportService()
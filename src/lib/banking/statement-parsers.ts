@@ -0,0 +1,413 @@
+import { createHash } from 'crypto'
+import { xml2js } from 'xml-js'
+import { CSVBankingProvider, type BankTransaction } from './adapters'
+
+export type StatementFormat = 'mt940' | 'camt053' | 'ofx' | 'csv'
+
+export const STATEMENT_FORMATS: StatementFormat[] = ['mt940', 'camt053', 'ofx', 'csv']
+
+export interface ParsedStatement {
+  format: StatementFormat
+  accountId?: string
+  currency?: string
+  openingBalance?: number
+  closingBalance?: number
+  statementDate?: Date
+  transactions: BankTransaction[]
+}
+
+// References banks put in place of a real one; useless for de-duplication
+const PLACEHOLDER_REFERENCES = new Set(['', 'NONREF', 'NOTPROVIDED', 'NOT PROVIDED', 'NONE'])
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+// MT940 keeps the currency's own precision (3 decimals for KWD, BHD, OMR); amounts are stored to 4
+const round4 = (value: number) => Math.round(value * 10000) / 10000
+
+function parseDecimal(value: string | undefined): number {
+  if (!value) return NaN
+  const cleaned = value.trim().replace(/\s/g, '')
+  // A single comma with 1-2 trailing digits is decimal ("1.234,56", "1234,5");
+  // any other comma separates thousands ("1,234", "1,234.56")
+  const decimalComma = /^[^,]*,\d{1,2}$/.test(cleaned)
+  const normalized = decimalComma
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '')
+  return parseFloat(normalized)
+}
+
+function cleanReference(value: string | undefined): string | undefined {
+  const ref = (value || '').trim()
+  return PLACEHOLDER_REFERENCES.has(ref.toUpperCase()) ? undefined : ref
+}
+
+/**
+ * Guess the format from the file name and content. Content wins over the
+ * extension because banks often export MT940 as .txt and CAMT as .xml.
+ */
+export function detectStatementFormat(content: string, fileName?: string): StatementFormat | null {
+  const head = content.slice(0, 4096)
+  if (/<OFX>|OFXHEADER/i.test(head)) return 'ofx'
+  if (/camt\.053|<(\w+:)?BkToCstmrStmt/i.test(head)) return 'camt053'
+  if (/^:20:/m.test(head) && /^:(60[FM]|61):/m.test(content)) return 'mt940'
+
+  const ext = (fileName || '').toLowerCase().split('.').pop()
+  if (ext === 'ofx' || ext === 'qfx') return 'ofx'
+  if (ext === 'sta' || ext === 'mt940') return 'mt940'
+  if (ext === 'csv') return 'csv'
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// MT940
+// ---------------------------------------------------------------------------
+
+function parseSwiftDate(yymmdd: string): Date {
+  const yy = parseInt(yymmdd.slice(0, 2), 10)
+  const year = yy < 80 ? 2000 + yy : 1900 + yy
+  return new Date(Date.UTC(year, parseInt(yymmdd.slice(2, 4), 10) - 1, parseInt(yymmdd.slice(4, 6), 10)))
+}
+
+/** SWIFT amounts always use the comma as the decimal mark and have no thousands separators ("12,345", "1000,") */
+function parseSwiftAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'))
+}
+
+function parseSwiftBalance(value: string): { amount: number; currency: string; date: Date } | null {
+  const match = /^([CD])(\d{6})([A-Z]{3})([\d,]+)/.exec(value.trim())
+  if (!match) return null
+  const amount = parseSwiftAmount(match[4])
+  return { amount: match[1] === 'D' ? -amount : amount, currency: match[3], date: parseSwiftDate(match[2]) }
+}
+
+/** Join the narrative of a :86: field, unpacking ?20–?29 and ?32/?33 subfields when present */
+function mt940Narrative(info: string): string {
+  const text = info.replace(/\r?\n/g, '')
+  if (!/\?\d{2}/.test(text)) return info.replace(/\s*\r?\n\s*/g, ' ').trim()
+
+  const parts: string[] = []
+  const subfield = /\?(\d{2})([^?]*)/g
+  let match: RegExpExecArray | null
+  while ((match = subfield.exec(text))) {
+    const code = parseInt(match[1], 10)
+    if ((code >= 20 && code <= 29) || code === 32 || code === 33) parts.push(match[2].trim())
+  }
+  return parts.filter(Boolean).join(' ')
+}
+
+/**
+ * Parse a SWIFT MT940 customer statement. Each :61: line becomes a
+ * transaction described by the :86: that follows it; files holding several
+ * statements are read in order, so balances run from the first opening
+ * balance to the last closing balance.
+ */
+export function parseMT940(content: string): ParsedStatement {
+  const fields: Array<{ tag: string; value: string }> = []
+  for (const raw of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = raw.replace(/^(\{[1-3]:[^}]*\})*(\{4:)?/, '')
+    if (line === '-}' || line === '-' || line.startsWith('{5:')) continue
+    const tag = /^:(\d{2}[A-Z]?):(.*)$/.exec(line)
+    if (tag) {
+      fields.push({ tag: tag[1], value: tag[2] })
+    } else if (fields.length > 0 && line.trim()) {
+      fields[fields.length - 1].value += `\n${line}`
+    }
+  }
+
+  const statement: ParsedStatement = { format: 'mt940', transactions: [] }
+  let running: number | undefined
+  let current: BankTransaction | null = null
+
+  for (const { tag, value } of fields) {
+    switch (tag) {
+      case '25':
+        statement.accountId = statement.accountId || value.trim()
+        break
+      case '60F':
+      case '60M': {
+        const balance = parseSwiftBalance(value)
+        if (!balance) break
+        if (statement.openingBalance === undefined) statement.openingBalance = balance.amount
+        statement.currency = statement.currency || balance.currency
+        running = balance.amount
+        break
+      }
+      case '61': {
+        const match = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/.exec(value)
+        if (!match) throw new Error(`Invalid MT940 transaction line: ${value.split('\n')[0]}`)
+        const mark = match[3]
+        // RC reverses a credit (money out), RD reverses a debit (money in)
+        const type: 'debit' | 'credit' = mark === 'D' || mark === 'RC' ? 'debit' : 'credit'
+        const amount = parseSwiftAmount(match[5])
+        if (running !== undefined) running = round4(running + (type === 'credit' ? amount : -amount))
+
+        current = {
+          id: cleanReference(match[8]) || '',
+          date: parseSwiftDate(match[1]),
+          description: (match[9] || '').trim(),
+          amount,
+          currency: statement.currency || '',
+          type,
+          balance: running,
+          reference: cleanReference(match[7]),
+        }
+        statement.transactions.push(current)
+        break
+      }
+      case '86':
+        if (current) {
+          const narrative = mt940Narrative(value)
+          current.description = [narrative, current.description].filter(Boolean).join(' ') || current.description
+          current = null
+        }
+        break
+      case '62F':
+      case '62M': {
+        const balance = parseSwiftBalance(value)
+        if (!balance) break
+        statement.closingBalance = balance.amount
+        statement.statementDate = balance.date
+        running = balance.amount
+        current = null
+        break
+      }
+      default:
+        break
+    }
+  }
+
+  for (const txn of statement.transactions) {
+    txn.currency = txn.currency || statement.currency || 'AED'
+    txn.description = txn.description || txn.reference || 'Bank transaction'
+  }
+  return statement
+}
+
+// ---------------------------------------------------------------------------
+// CAMT.053
+// ---------------------------------------------------------------------------
+
+type XmlNode = Record<string, any>
+
+const asArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value])
+
+function text(node: XmlNode | undefined): string | undefined {
+  if (node === undefined || node === null) return undefined
+  if (typeof node !== 'object') return String(node)
+  const value = node._text
+  return value === undefined ? undefined : String(value).trim()
+}
+
+function camtDate(node: XmlNode | undefined): Date | undefined {
+  const value = text(node?.Dt) || text(node?.DtTm)
+  return value ? new Date(value.length === 10 ? `${value}T00:00:00.000Z` : value) : undefined
+}
+
+function camtAmount(node: XmlNode): { amount: number; currency?: string } {
+  return { amount: parseFloat(text(node.Amt) || ''), currency: node.Amt?._attributes?.Ccy }
+}
+
+/**
+ * Parse an ISO 20022 camt.053 bank-to-customer statement. Booked entries
+ * become transactions (pending ones are skipped); a batch entry with several
+ * transaction details stays one line, as it appears on the bank statement.
+ */
+export function parseCamt053(content: string): ParsedStatement {
+  let doc: XmlNode
+  try {
+    doc = xml2js(content, {
+      compact: true,
+      ignoreComment: true,
+      ignoreDeclaration: true,
+      elementNameFn: (name: string) => name.replace(/^.*:/, ''),
+    }) as XmlNode
+  } catch {
+    throw new Error('Invalid CAMT.053 file: malformed XML')
+  }
+
+  const statements = asArray<XmlNode>(doc.Document?.BkToCstmrStmt?.Stmt)
+  if (statements.length === 0) throw new Error('Invalid CAMT.053 file: no statement found')
+
+  const result: ParsedStatement = { format: 'camt053', transactions: [] }
+
+  for (const stmt of statements) {
+    const account = stmt.Acct || {}
+    result.accountId = result.accountId || text(account.Id?.IBAN) || text(account.Id?.Othr?.Id)
+    result.currency = result.currency || text(account.Ccy)
+
+    for (const bal of asArray<XmlNode>(stmt.Bal)) {
+      const code = text(bal.Tp?.CdOrPrtry?.Cd)
+      const { amount, currency } = camtAmount(bal)
+      const signed = text(bal.CdtDbtInd) === 'DBIT' ? -amount : amount
+      result.currency = result.currency || currency
+      if ((code === 'OPBD' || code === 'PRCD') && result.openingBalance === undefined) {
+        result.openingBalance = signed
+      } else if (code === 'CLBD') {
+        result.closingBalance = signed
+        result.statementDate = camtDate(bal.Dt)
+      }
+    }
+
+    for (const entry of asArray<XmlNode>(stmt.Ntry)) {
+      const status = text(entry.Sts?.Cd) || text(entry.Sts)
+      if (status && status !== 'BOOK') continue
+
+      const { amount, currency } = camtAmount(entry)
+      const reversal = text(entry.RvslInd) === 'true'
+      const credit = text(entry.CdtDbtInd) === 'CRDT'
+      const details = asArray<XmlNode>(entry.NtryDtls?.TxDtls)
+      const first = details[0] || {}
+      const party = credit
+        ? first.RltdPties?.Dbtr?.Pty?.Nm || first.RltdPties?.Dbtr?.Nm
+        : first.RltdPties?.Cdtr?.Pty?.Nm || first.RltdPties?.Cdtr?.Nm
+      const remittance = details
+        .flatMap((d) => [
+          ...asArray<XmlNode>(d.RmtInf?.Ustrd).map(text),
+          ...asArray<XmlNode>(d.RmtInf?.Strd).map((s) => text(s.CdtrRefInf?.Ref)),
+        ])
+        .filter(Boolean)
+
+      result.transactions.push({
+        id: cleanReference(text(entry.AcctSvcrRef)) || cleanReference(text(first.Refs?.AcctSvcrRef)) || cleanReference(text(entry.NtryRef)) || '',
+        date: camtDate(entry.BookgDt) || camtDate(entry.ValDt) || new Date(NaN),
+        description: [text(party), ...remittance, text(first.AddtlTxInf) || text(entry.AddtlNtryInf)]
+          .filter(Boolean)
+          .join(' ') || 'Bank transaction',
+        amount: round2(amount),
+        currency: currency || result.currency || 'AED',
+        type: credit !== reversal ? 'credit' : 'debit',
+        reference: cleanReference(text(first.Refs?.EndToEndId)) || (remittance[0] as string | undefined),
+      })
+    }
+  }
+
+  if (result.transactions.some((t) => Number.isNaN(t.date.getTime()) || Number.isNaN(t.amount))) {
+    throw new Error('Invalid CAMT.053 file: entry without booking date or amount')
+  }
+
+  // Entries carry no running balance; derive it from the opening balance
+  if (result.openingBalance !== undefined) {
+    let running = result.openingBalance
+    for (const txn of result.transactions) {
+      running = round2(running + (txn.type === 'credit' ? txn.amount : -txn.amount))
+      txn.balance = running
+    }
+  }
+  return result
+}
+
+// ---------------------------------------------------------------------------
+// OFX / QFX
+// ---------------------------------------------------------------------------
+
+function ofxValue(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)
+  return match ? match[1].trim() : undefined
+}
+
+function ofxDate(value: string | undefined): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/.exec(value || '')
+  if (!match) return new Date(NaN)
+  // Keep the posted calendar day regardless of the [offset:TZ] suffix
+  return new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]))
+}
+
+/**
+ * Parse an OFX/QFX bank or credit card statement. Handles both the SGML
+ * dialect of OFX 1.x (unclosed leaf tags) and XML-based OFX 2.x.
+ */
+export function parseOFX(content: string): ParsedStatement {
+  const body = content.slice(Math.max(content.search(/<OFX>/i), 0))
+  if (!/<OFX>/i.test(body)) throw new Error('Invalid OFX file: missing <OFX> root')
+
+  const account = /<(BANKACCTFROM|CCACCTFROM)>([\s\S]*?)(?:<\/\1>|<\/?(?:BANKTRANLIST|LEDGERBAL)>)/i.exec(body)
+  const ledger = /<LEDGERBAL>([\s\S]*?)(?:<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|<\/CCSTMTRS>)/i.exec(body)
+  const currency = ofxValue(body, 'CURDEF') || 'AED'
+
+  const transactions: BankTransaction[] = []
+  const blocks = body.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || []
+  for (const block of blocks) {
+    const signed = parseDecimal(ofxValue(block, 'TRNAMT'))
+    if (Number.isNaN(signed)) throw new Error('Invalid OFX file: transaction without amount')
+    const name = ofxValue(block, 'NAME') || ofxValue(block, 'PAYEE')
+    const memo = ofxValue(block, 'MEMO')
+
+    transactions.push({
+      id: cleanReference(ofxValue(block, 'FITID')) || '',
+      date: ofxDate(ofxValue(block, 'DTPOSTED')),
+      description: [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' ') || ofxValue(block, 'TRNTYPE') || 'Bank transaction',
+      amount: round2(Math.abs(signed)),
+      currency: ofxValue(block, 'CURRENCY') || currency,
+      type: signed < 0 ? 'debit' : 'credit',
+      reference: cleanReference(ofxValue(block, 'REFNUM') || ofxValue(block, 'CHECKNUM')),
+    })
+  }
+
+  const closingBalance = ledger ? parseDecimal(ofxValue(ledger[1], 'BALAMT')) : NaN
+  const statement: ParsedStatement = {
+    format: 'ofx',
+    accountId: account ? ofxValue(account[2], 'ACCTID') : undefined,
+    currency,
+    transactions,
+  }
+  if (!Number.isNaN(closingBalance)) {
+    statement.closingBalance = closingBalance
+    statement.statementDate = ofxDate(ofxValue(ledger![1], 'DTASOF'))
+    // OFX only reports the ledger balance; work back to the opening balance
+    const net = transactions.reduce((sum, t) => sum + (t.type === 'credit' ? t.amount : -t.amount), 0)
+    statement.openingBalance = round2(closingBalance - net)
+  }
+  return statement
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a statement file, detecting the format unless one is given
+ */
+export async function parseStatement(
+  content: string,
+  options: { format?: StatementFormat; fileName?: string } = {}
+): Promise<ParsedStatement> {
+  content = content.replace(/^\uFEFF/, '')
+  const format = options.format || detectStatementFormat(content, options.fileName)
+  switch (format) {
+    case 'mt940':
+      return parseMT940(content)
+    case 'camt053':
+      return parseCamt053(content)
+    case 'ofx':
+      return parseOFX(content)
+    case 'csv': {
+      const transactions = await new CSVBankingProvider().parseCSV(content)
+      // CSV ids are generated per upload, so they cannot identify a line across imports
+      return { format: 'csv', transactions: transactions.map((t) => ({ ...t, id: '' })) }
+    }
+    default:
+      throw new Error('Unrecognized statement format')
+  }
+}
+
+/**
+ * Stable external ids for de-duplication: the bank's own reference when the
+ * format has one, otherwise a hash of the line's content. Identical lines in
+ * one file (two equal card payments on the same day) get an occurrence
+ * suffix so they are not collapsed into one.
+ */
+export function assignExternalIds(transactions: BankTransaction[]): BankTransaction[] {
+  const occurrences = new Map<string, number>()
+  return transactions.map((txn) => {
+    if (txn.id) return txn
+    const key = [
+      txn.date.toISOString().slice(0, 10),
+      txn.type,
+      Math.round(txn.amount * 100),
+      txn.currency,
+      txn.description.replace(/\s+/g, ' ').trim().toLowerCase(),
+      (txn.reference || '').trim().toLowerCase(),
+    ].join('|')
+    const seen = occurrences.get(key) || 0
+    occurrences.set(key, seen + 1)
+    const hash = createHash('sha256').update(`${key}|${seen}`).digest('hex').slice(0, 32)
+    return { ...txn, id: `hash:${hash}` }
+  })
+}
@@ -1,5 +1,6 @@
 import prisma from '@/lib/prisma'
 import { logger } from '@/lib/logger'
+import { bankReconciliationService } from './reconciliation-service'
 
 interface MatchCriteria {
   amountTolerance: number // Tolerance in decimal places (0.01 = 1 cent)
@@ -59,7 +60,8 @@ function getEditDistance(s1: string, s2: string): number {
 }
 
 /**
- * Match bank transactions to invoices
+ * Match bank transactions to invoices one-to-one by amount and invoice number.
+ * See reconciliation-service for rules, one-to-many and split matching.
  */
 export async function matchTransactionsToInvoices(
   connectionId: string,
@@ -152,16 +154,12 @@ export async function matchTransactionsToInvoices(
           }
         }
 
-        // If we found a good match (score > 0.5), link them
+        // If we found a good match (score > 0.5), confirm it through reconciliation
+        // so the allocation is recorded, the invoice settled and the ledger posted
         if (bestMatch && bestScore > 0.5) {
-          await prisma.bankingTransaction.update({
-            where: { id: txn.id },
-            data: {
-              matched: true,
-              matchedToId: bestMatch.id,
-              matchedToType: 'invoice',
-            },
-          })
+          await bankReconciliationService.confirmMatch(tenantId, null, txn.id, [
+            { targetType: 'invoice', targetId: bestMatch.id, amountCents: Math.round(txnAmount * 100) },
+          ])
 
           result.matched++
 
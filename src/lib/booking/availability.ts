@@ -1,6 +1,9 @@
 import prisma from '@/lib/prisma'
 import { logger } from '@/lib/logger'
 import { DateTime } from 'luxon'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { waitlistHolds } from './waitlist-holds'
+import { bookingResourceService } from './resources'
 
 export type ISO = string
 
@@ -26,6 +29,10 @@ export type AvailabilityOptions = {
   now?: Date
   // Optional timezone to evaluate business hours & "now" in tenant-local time (IANA TZ name)
   timeZone?: string
+  // Busy time from external calendars: blocks slots but does not count toward maxDailyBookings
+  externalBusy?: BusyInterval[]
+  // Bookings that count toward maxDailyBookings without blocking slots (their capacity is checked separately)
+  countedBusy?: BusyInterval[]
 }
 
 export function toMinutes(str: string | number) {
@@ -143,10 +150,12 @@ export function generateAvailability(
     const dayWindowStart = day.startOf('day').toJSDate()
     const dayWindowEnd = day.startOf('day').plus({ days: 1 }).toJSDate()
     const dayBusy = busy.filter((b) => rangesOverlap(b.start, b.end, dayWindowStart, dayWindowEnd))
+    const dayExternal = (opts.externalBusy ?? []).filter((b) => rangesOverlap(b.start, b.end, dayWindowStart, dayWindowEnd))
+    const dayCounted = (opts.countedBusy ?? []).filter((b) => rangesOverlap(b.start, b.end, dayWindowStart, dayWindowEnd))
 
     // Max daily bookings enforcement
     if ((opts.maxDailyBookings ?? 0) > 0) {
-      if (dayBusy.length >= (opts.maxDailyBookings ?? 0)) continue
+      if (dayBusy.length + dayCounted.length >= (opts.maxDailyBookings ?? 0)) continue
     }
 
     for (let slotDT = dayStartDT; slotDT.plus({ minutes: slotMinutes }) <= dayEndDT; slotDT = slotDT.plus({ minutes: slotMinutes })) {
@@ -162,6 +171,8 @@ export function generateAvailability(
 
       const slotJS = slotDT.toJSDate()
       const conflicts = bufferedBusy.some((b) => slotJS >= b.start && slotJS < b.end)
+        // External events are not aligned to slots, so any overlap blocks the slot
+        || dayExternal.some((b) => rangesOverlap(slotJS, slotEndDT.toJSDate(), b.start, b.end))
 
       const slotStartIso = slotDT.toUTC().toISO()
       if (!slotStartIso) continue
@@ -181,9 +192,11 @@ export async function getAvailabilityForService(params: {
   to: Date
   slotMinutes?: number
   teamMemberId?: string
+  // Client asking: slots held for them by a waitlist offer stay available
+  clientId?: string | null
   options?: AvailabilityOptions
 }) {
-  const { serviceId, from, to, slotMinutes, teamMemberId, options } = params
+  const { serviceId, from, to, slotMinutes, teamMemberId, clientId, options } = params
 
   console.log('[getAvailabilityForService] start', { serviceId, from: from.toISOString(), to: to.toISOString(), slotMinutes, teamMemberId })
   // Safe model accessor: prefer a dynamic import of '@/lib/prisma' so we get whatever mock the test environment registered.
@@ -275,12 +288,18 @@ export async function getAvailabilityForService(params: {
   })
   logger.debug('getAvailabilityForService: bookings fetched', { serviceId, teamMemberId, bookingCount: (busyBookings || []).length })
 
-  const busy: BusyInterval[] = busyBookings.map((b) => {
+  const bookedIntervals: BusyInterval[] = busyBookings.map((b) => {
     const start = new Date(b.scheduledAt)
     const end = addMinutes(start, (b.duration ?? baseDuration))
     return { start, end }
   })
 
+  // A service that needs resources or staff is limited by their capacity, not by its own bookings
+  // (unless a team member is asked for, who still takes one booking at a time)
+  const resources = await bookingResourceService.context(svc.tenantId, serviceId, from, addMinutes(to, 24 * 60))
+  const capacityLimited = !!resources && !teamMemberId
+  const busy: BusyInterval[] = capacityLimited ? [] : [...bookedIntervals]
+
   // Include admin-managed AvailabilitySlot entries as busy windows when they block availability
   try {
     const slotWhere: any = { serviceId, date: { gte: from, lte: to } }
@@ -321,6 +340,23 @@ export async function getAvailabilityForService(params: {
     // ignore availability slot errors and continue with bookings
   }
 
+  // Busy time imported from the team member's external calendars
+  let externalBusy: BusyInterval[] = []
+  if (teamMemberId) {
+    try {
+      const findPromise = calendarSyncService.externalBusy(teamMemberId, from, addMinutes(to, 24 * 60))
+      externalBusy = (await Promise.race([
+        findPromise,
+        new Promise((_, reject) => setTimeout(() => reject(new Error('calendarBusyInterval.findMany timeout')), 200)),
+      ]).catch(() => [])) as BusyInterval[]
+    } catch {
+      externalBusy = []
+    }
+  }
+
+  // Slots held for other waitlisted clients; like external busy time they do not count toward the daily cap
+  const holds = await waitlistHolds({ serviceId, from, to, exceptClientId: clientId, now: options?.now })
+
   // Determine timezone for slot generation: prefer options, then member, then tenant default
   let tz: string | undefined = options?.timeZone
   if (!tz && member && member.timeZone) tz = member.timeZone || undefined
@@ -339,7 +375,9 @@ export async function getAvailabilityForService(params: {
     businessHours,
     skipWeekends: options?.skipWeekends ?? false,
     now: options?.now,
+    externalBusy: [...(options?.externalBusy ?? []), ...externalBusy, ...holds.map(({ start, end }) => ({ start, end }))],
+    countedBusy: capacityLimited ? bookedIntervals : undefined,
   })
 
-  return { slots }
+  return { slots: resources ? bookingResourceService.fitSlots(resources, slots, teamMemberId) : slots }
 }
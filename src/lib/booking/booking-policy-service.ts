@@ -0,0 +1,317 @@
+/**
+ * Booking Policy Service
+ * Stores each service's cancellation and rescheduling policy and applies it
+ * to client self-service: reschedules are refused outside the allowed notice
+ * or count, late cancellations and no-shows are invoiced once per booking
+ * and charged to the client's default saved card when the policy says so,
+ * and the freed slot is offered to the waitlist.
+ */
+
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { chargeSavedMethod } from '@/lib/payments/saved-method-charge'
+import { paymentService } from '@/lib/payments/payment-service'
+import { ledgerPostingService, postToLedgerSafe } from '@/lib/accounting/posting-service'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { bookingWaitlistService } from './waitlist'
+import {
+  describePolicy,
+  evaluateCancellation,
+  evaluateReschedule,
+  noShowFee,
+  resolvePolicy,
+  type BookingPolicyRules,
+  type LateCancelFeeTier,
+} from './policy'
+
+export interface BookingPolicyInput {
+  rescheduleNoticeHours?: number | null
+  maxReschedules?: number | null
+  cancellationNoticeHours?: number | null
+  lateCancelFees?: Partial<LateCancelFeeTier>[] | null
+  noShowFeePercent?: number | null
+  noShowFeeCents?: number | null
+  currency?: string
+  chargeSavedMethod?: boolean
+  policyText?: string | null
+}
+
+export type BookingFeeType = 'LATE_CANCEL' | 'NO_SHOW'
+
+type PolicyBooking = {
+  id: string
+  tenantId: string
+  serviceId: string
+  clientId: string
+  scheduledAt: Date
+  status: string
+  rescheduleCount: number
+  amount: unknown
+  service: { name: string; price: unknown } | null
+}
+
+const bookingSelect = {
+  id: true,
+  tenantId: true,
+  serviceId: true,
+  clientId: true,
+  scheduledAt: true,
+  status: true,
+  rescheduleCount: true,
+  amount: true,
+  service: { select: { name: true, price: true } },
+} as const
+
+const FEE_LABELS: Record<BookingFeeType, string> = {
+  LATE_CANCEL: 'Late cancellation fee',
+  NO_SHOW: 'Missed appointment fee',
+}
+
+const priceCents = (booking: PolicyBooking) => {
+  const price = Number(booking.amount ?? booking.service?.price ?? 0)
+  return Number.isFinite(price) ? Math.round(price * 100) : 0
+}
+
+export class BookingPolicyService {
+  async rules(tenantId: string, serviceId: string): Promise<BookingPolicyRules> {
+    const [policy, settings] = await Promise.all([
+      prisma.bookingPolicy.findFirst({ where: { tenantId, serviceId } }),
+      prisma.bookingSettings.findUnique({
+        where: { tenantId },
+        select: { allowCancellation: true, allowRescheduling: true, cancellationDeadlineHours: true, rescheduleDeadlineHours: true },
+      }),
+    ])
+    return resolvePolicy(policy, settings)
+  }
+
+  /** The stored policy (null when the service has none), the rules in force and their client-facing text */
+  async getPolicy(tenantId: string, serviceId: string) {
+    await this.service(tenantId, serviceId)
+    const policy = await prisma.bookingPolicy.findFirst({ where: { tenantId, serviceId } })
+    const rules = await this.rules(tenantId, serviceId)
+    return { policy, rules, text: describePolicy(rules) }
+  }
+
+  async upsertPolicy(tenantId: string, serviceId: string, input: BookingPolicyInput, userId: string | null) {
+    await this.service(tenantId, serviceId)
+    if (input.noShowFeePercent != null && input.noShowFeeCents != null) throw new Error('Set either a no-show percentage or a fixed no-show fee')
+    const data = {
+      rescheduleNoticeHours: input.rescheduleNoticeHours ?? null,
+      maxReschedules: input.maxReschedules ?? null,
+      cancellationNoticeHours: input.cancellationNoticeHours ?? null,
+      lateCancelFees: (input.lateCancelFees ?? []) as any,
+      noShowFeePercent: input.noShowFeePercent ?? null,
+      noShowFeeCents: input.noShowFeeCents ?? null,
+      currency: (input.currency ?? 'USD').toUpperCase(),
+      chargeSavedMethod: input.chargeSavedMethod ?? true,
+      policyText: input.policyText?.trim() || null,
+      updatedBy: userId,
+    }
+    const policy = await prisma.bookingPolicy.upsert({
+      where: { serviceId },
+      create: { tenantId, serviceId, ...data },
+      update: data,
+    })
+    await logAuditSafe({ action: 'booking-policy:update', tenantId, userId, details: { serviceId } }).catch(() => {})
+    return policy
+  }
+
+  async deletePolicy(tenantId: string, serviceId: string, userId: string | null) {
+    await this.service(tenantId, serviceId)
+    const { count } = await prisma.bookingPolicy.deleteMany({ where: { tenantId, serviceId } })
+    if (!count) throw new Error('Booking policy not found')
+    await logAuditSafe({ action: 'booking-policy:delete', tenantId, userId, details: { serviceId } }).catch(() => {})
+  }
+
+  /** Client-facing policy text for confirmations; undefined when it cannot be loaded */
+  async policyTextSafe(tenantId: string | null | undefined, serviceId: string): Promise<string | undefined> {
+    if (!tenantId) return undefined
+    try {
+      return describePolicy(await this.rules(tenantId, serviceId)) || undefined
+    } catch (error) {
+      logger.warn('Booking policy text unavailable', { serviceId, error: String(error) })
+      return undefined
+    }
+  }
+
+  /** Throws the policy's reason when the client may not move this booking now */
+  async assertCanReschedule(tenantId: string, bookingId: string, now = new Date()) {
+    const booking = await this.booking(tenantId, bookingId)
+    if (booking.status === 'CANCELLED' || booking.status === 'COMPLETED') throw new Error('Only upcoming bookings can be rescheduled')
+    const decision = evaluateReschedule(await this.rules(tenantId, booking.serviceId), booking, now)
+    if (!decision.allowed) throw new Error(decision.reason)
+    return booking
+  }
+
+  /** Count a client reschedule and offer the slot it left to the waitlist */
+  async recordReschedule(tenantId: string, bookingId: string, previousStart: Date) {
+    const booking = await prisma.booking.update({
+      where: { id: bookingId },
+      data: { rescheduleCount: { increment: 1 } },
+      select: { serviceId: true },
+    })
+    await bookingWaitlistService.offerFreedSlotSafe(tenantId, booking.serviceId, previousStart)
+  }
+
+  /**
+   * Cancel a booking for its client under the service's policy. A late
+   * cancellation is invoiced (and charged when the policy says so).
+   */
+  async cancelByClient(tenantId: string, bookingId: string, clientId: string, now = new Date()) {
+    const booking = await this.booking(tenantId, bookingId)
+    if (booking.clientId !== clientId) throw new Error('Booking not found')
+    if (booking.status === 'CANCELLED') throw new Error('Booking is already cancelled')
+    if (booking.status === 'COMPLETED') throw new Error('Completed bookings cannot be cancelled')
+
+    const rules = await this.rules(tenantId, booking.serviceId)
+    const decision = evaluateCancellation(rules, booking, priceCents(booking), now)
+    if (!decision.allowed) throw new Error(decision.reason)
+
+    const cancelled = await prisma.booking.update({
+      where: { id: booking.id },
+      data: { status: 'CANCELLED' as any, cancelledAt: now },
+    })
+    await calendarSyncService.syncBookingSafe(booking.id)
+    const fee = decision.feeCents > 0 ? await this.assessFee(booking, 'LATE_CANCEL', decision.feeCents, rules, clientId) : null
+    await bookingWaitlistService.offerFreedSlotSafe(tenantId, booking.serviceId, booking.scheduledAt)
+    await logAuditSafe({
+      action: 'booking:cancel:client',
+      tenantId,
+      userId: clientId,
+      details: { bookingId: booking.id, noticeHours: Math.round(decision.noticeHours * 10) / 10, feeCents: decision.feeCents },
+    }).catch(() => {})
+    return { booking: cancelled, fee }
+  }
+
+  /** Record that the client did not turn up, and charge the policy's no-show fee */
+  async markNoShow(tenantId: string, bookingId: string, userId: string | null, now = new Date()) {
+    const booking = await this.booking(tenantId, bookingId)
+    if (booking.status === 'CANCELLED') throw new Error('Booking is already cancelled')
+    if (booking.scheduledAt > now) throw new Error('A no-show can only be recorded once the booking has started')
+
+    const updated = await prisma.booking.update({ where: { id: booking.id }, data: { noShowAt: now } })
+    const rules = await this.rules(tenantId, booking.serviceId)
+    const amount = noShowFee(rules, priceCents(booking))
+    const fee = amount > 0 ? await this.assessFee(booking, 'NO_SHOW', amount, rules, userId) : null
+    await logAuditSafe({ action: 'booking:no-show', tenantId, userId, details: { bookingId: booking.id, feeCents: amount } }).catch(() => {})
+    return { booking: updated, fee }
+  }
+
+  async listFees(tenantId: string, bookingId: string) {
+    return prisma.bookingFee.findMany({ where: { tenantId, bookingId }, orderBy: { createdAt: 'asc' } })
+  }
+
+  private async service(tenantId: string, serviceId: string) {
+    const service = await prisma.service.findFirst({ where: { id: serviceId, tenantId }, select: { id: true } })
+    if (!service) throw new Error('Service not found')
+    return service
+  }
+
+  private async booking(tenantId: string, bookingId: string): Promise<PolicyBooking> {
+    const booking = await prisma.booking.findFirst({ where: { id: bookingId, tenantId }, select: bookingSelect })
+    if (!booking) throw new Error('Booking not found')
+    return booking as unknown as PolicyBooking
+  }
+
+  /**
+   * Invoice a fee once per booking and type, then try the client's saved
+   * card. A failed or skipped charge leaves the invoice unpaid for dunning.
+   */
+  private async assessFee(booking: PolicyBooking, type: BookingFeeType, amountCents: number, rules: BookingPolicyRules, actorId: string | null) {
+    const existing = await prisma.bookingFee.findUnique({ where: { bookingId_type: { bookingId: booking.id, type } } })
+    if (existing) return existing
+
+    const description = `${FEE_LABELS[type]}: ${booking.service?.name ?? 'Booking'} on ${booking.scheduledAt.toISOString().slice(0, 10)}`
+    // The fee and its invoice are created together, so a fee never lacks its invoice
+    let fee, invoice
+    try {
+      ({ fee, invoice } = await prisma.$transaction(async (tx) => {
+        const invoice = await tx.invoice.create({
+          data: {
+            tenantId: booking.tenantId,
+            bookingId: booking.id,
+            clientId: booking.clientId,
+            currency: rules.currency,
+            totalCents: amountCents,
+            status: 'UNPAID',
+            items: { create: [{ description, quantity: 1, unitPriceCents: amountCents, totalCents: amountCents }] },
+          },
+        })
+        const fee = await tx.bookingFee.create({
+          data: { tenantId: booking.tenantId, bookingId: booking.id, type, amountCents, currency: rules.currency, invoiceId: invoice.id, createdBy: actorId },
+        })
+        return { fee, invoice }
+      }))
+    } catch (error: unknown) {
+      // Lost a race with another request assessing the same fee
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.bookingFee.findUnique({ where: { bookingId_type: { bookingId: booking.id, type } } })
+      }
+      throw error
+    }
+    await postToLedgerSafe('invoice.issued', () => ledgerPostingService.postInvoiceIssued(invoice))
+
+    if (!rules.chargeSavedMethod) return fee
+    const charge = await this.charge(booking, fee.id, invoice)
+    if (charge === null) return fee
+    return prisma.bookingFee.update({
+      where: { id: fee.id },
+      data: charge === true ? { status: 'CHARGED', chargeError: null } : { status: 'CHARGE_FAILED', chargeError: charge },
+    })
+  }
+
+  /** true when charged, null when there is no card to charge, otherwise the failure */
+  private async charge(booking: PolicyBooking, feeId: string, invoice: { id: string; totalCents: number; currency: string }): Promise<true | null | string> {
+    const method = await prisma.userPaymentMethod.findFirst({
+      where: { tenantId: booking.tenantId, userId: booking.clientId, status: 'ACTIVE', isDefault: true },
+    })
+    if (!method) return null
+
+    try {
+      const intent = await chargeSavedMethod(
+        method,
+        {
+          amountCents: invoice.totalCents,
+          currency: invoice.currency,
+          metadata: { invoiceId: invoice.id, bookingId: booking.id, bookingFeeId: feeId },
+        },
+        `booking-fee-charge:${feeId}`
+      )
+      if (intent.status !== 'succeeded') return `Payment ${intent.status}`
+
+      // The webhook records the same intent too; recording is idempotent per intent
+      await paymentService.recordStripePayment(intent)
+      return true
+    } catch (error) {
+      logger.error('Booking fee charge failed', { bookingFeeId: feeId, error: String(error) })
+      return String((error as Error)?.message || error)
+    }
+  }
+}
+
+export const bookingPolicyService = new BookingPolicyService()
+
+/** HTTP status for a booking policy error, or null when it is unexpected */
+export function bookingPolicyErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Booking not found' || message === 'Service not found' || message === 'Booking policy not found') return 404
+  if (
+    message === 'Booking is already cancelled' ||
+    message === 'Completed bookings cannot be cancelled' ||
+    message === 'Only upcoming bookings can be rescheduled' ||
+    message === 'A no-show can only be recorded once the booking has started' ||
+    message === 'Set either a no-show percentage or a fixed no-show fee'
+  ) return 400
+  // Refused by the policy
+  if (
+    message === 'The booking has already started' ||
+    message.startsWith('Bookings can be ') ||
+    message.startsWith('Rescheduling is not allowed') ||
+    message.startsWith('Cancellation is not allowed') ||
+    message.startsWith('This booking has already been rescheduled')
+  ) return 403
+  return null
+}
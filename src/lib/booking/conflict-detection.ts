@@ -1,7 +1,11 @@
+import type { Prisma } from '@prisma/client'
 import prisma from '@/lib/prisma'
 import { addMinutes } from './availability'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { waitlistHolds } from './waitlist-holds'
+import { bookingResourceService } from './resources'
 
-export type ConflictReason = 'SERVICE_INACTIVE' | 'OVERLAP' | 'DAILY_CAP' | 'OUTSIDE_BUSINESS_HOURS'
+export type ConflictReason = 'SERVICE_INACTIVE' | 'OVERLAP' | 'DAILY_CAP' | 'OUTSIDE_BUSINESS_HOURS' | 'EXTERNAL_CALENDAR' | 'WAITLIST_HOLD' | 'CAPACITY'
 
 export type ConflictDetails = {
   reason: ConflictReason
@@ -16,6 +20,10 @@ export type CheckConflictParams = {
   excludeBookingId?: string
   teamMemberId?: string | null
   tenantId?: string | null
+  // Client the booking is for: a waitlist hold of theirs does not conflict
+  clientId?: string | null
+  // Transaction that will insert the booking, so the check sees its locks and writes
+  db?: Prisma.TransactionClient
 }
 
 function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) {
@@ -35,9 +43,10 @@ function endOfDay(d: Date) {
 }
 
 export async function checkBookingConflict(params: CheckConflictParams): Promise<{ conflict: boolean; details?: ConflictDetails }> {
-  const { serviceId, start, durationMinutes, excludeBookingId, teamMemberId } = params
+  const { serviceId, start, durationMinutes, excludeBookingId, teamMemberId, clientId } = params
+  const db = params.db ?? prisma
 
-  const svc = await prisma.service.findUnique({ where: { id: serviceId } })
+  const svc = await db.service.findUnique({ where: { id: serviceId } })
   if (!svc || String((svc as any).status).toUpperCase() !== 'ACTIVE' || (svc as any).bookingEnabled === false) {
     return { conflict: true, details: { reason: 'SERVICE_INACTIVE' } }
   }
@@ -51,7 +60,7 @@ export async function checkBookingConflict(params: CheckConflictParams): Promise
   const windowStart = addMinutes(startOfDay(startDt), -Math.max(60, buffer))
   const windowEnd = addMinutes(endOfDay(startDt), Math.max(60, buffer))
 
-  const bookings = await prisma.booking.findMany({
+  const bookings = await db.booking.findMany({
     where: {
       serviceId,
       status: { in: ['PENDING', 'CONFIRMED'] as any },
@@ -78,10 +87,39 @@ export async function checkBookingConflict(params: CheckConflictParams): Promise
     }
   }
 
-  const conflictWith = busy.find((b) => overlaps(startDt, endDt, b.start, b.end))
+  // Services that need resources or staff are limited by their capacity rather than by overlap
+  const resources = await bookingResourceService.check({
+    tenantId: svc.tenantId,
+    serviceId,
+    start: startDt,
+    durationMinutes,
+    excludeBookingId,
+    teamMemberId,
+  })
+  if (resources && !resources.ok) {
+    return { conflict: true, details: { reason: 'CAPACITY', info: { ...resources.unmet } } }
+  }
+
+  // Without requirements the service itself books one at a time; with them only its assigned team member does
+  const conflictWith = resources && !teamMemberId ? undefined : busy.find((b) => overlaps(startDt, endDt, b.start, b.end))
   if (conflictWith) {
     return { conflict: true, details: { reason: 'OVERLAP', conflictingBookingId: conflictWith.id } }
   }
 
+  // Slots held for a waitlisted client until their offer expires
+  const holds = await waitlistHolds({ serviceId, from: windowStart, to: windowEnd, exceptClientId: clientId })
+  const held = holds.find((h) => overlaps(startDt, endDt, h.start, h.end))
+  if (held) {
+    return { conflict: true, details: { reason: 'WAITLIST_HOLD', info: { offerId: held.offerId } } }
+  }
+
+  // Busy time on the team member's external calendars
+  if (teamMemberId) {
+    const external = await calendarSyncService.externalBusy(teamMemberId, startDt, endDt).catch(() => [])
+    if (external.length > 0) {
+      return { conflict: true, details: { reason: 'EXTERNAL_CALENDAR', info: { start: external[0].start, end: external[0].end } } }
+    }
+  }
+
   return { conflict: false }
 }
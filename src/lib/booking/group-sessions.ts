@@ -0,0 +1,329 @@
+/**
+ * Group Session Service
+ * A group session is a booking with seats: staff schedule it for a service
+ * that runs in groups, and clients register for one or more seats. Each
+ * registration is invoiced at the service price per seat and can be paid
+ * through Stripe Checkout; the payment webhook settles the invoice. Seats
+ * are claimed atomically so a session is never oversold.
+ */
+
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { getStripeClient } from '@/lib/payments/stripe-client'
+import { paymentService } from '@/lib/payments/payment-service'
+import { ledgerPostingService, postToLedgerSafe } from '@/lib/accounting/posting-service'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { checkBookingConflict } from './conflict-detection'
+import { calculateServicePrice } from './pricing'
+import { bookingResourceService } from './resources'
+
+export interface GroupSessionInput {
+  serviceId: string
+  scheduledAt: Date
+  durationMinutes?: number
+  // Defaults to the service's group capacity
+  capacity?: number
+  teamMemberId?: string | null
+  notes?: string | null
+}
+
+export interface GroupSessionFilters {
+  serviceId?: string
+  from: Date
+  to: Date
+  // Only sessions with seats left
+  openOnly?: boolean
+  // Include this client's own registration on each session
+  forUserId?: string
+}
+
+export type AttendeePaymentStatus = 'FREE' | 'PAID' | 'UNPAID'
+
+const ACTIVE_STATUSES = ['PENDING', 'CONFIRMED']
+// Session listings cover at most this many days
+const MAX_LIST_DAYS = 92
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const ymd = (d: Date) => d.toISOString().slice(0, 10)
+
+const paymentStatus = (attendee: { amountCents: number; invoice?: { status: string } | null }): AttendeePaymentStatus =>
+  attendee.amountCents === 0 ? 'FREE' : attendee.invoice?.status === 'PAID' ? 'PAID' : 'UNPAID'
+
+export class GroupSessionService {
+  async schedule(tenantId: string, userId: string, input: GroupSessionInput, now = new Date()) {
+    const service = await prisma.service.findFirst({
+      where: { id: input.serviceId, tenantId },
+      select: { id: true, name: true, duration: true, groupCapacity: true },
+    })
+    if (!service) throw new Error('Service not found')
+    if (!service.groupCapacity) throw new Error('The service does not run group sessions')
+    const capacity = input.capacity ?? service.groupCapacity
+    if (capacity > service.groupCapacity) throw new Error(`Sessions of this service seat at most ${service.groupCapacity}`)
+    if (input.scheduledAt <= now) throw new Error('Sessions must be scheduled in the future')
+
+    const duration = input.durationMinutes ?? service.duration ?? 60
+    const check = await checkBookingConflict({
+      serviceId: service.id,
+      start: input.scheduledAt,
+      durationMinutes: duration,
+      teamMemberId: input.teamMemberId ?? null,
+      tenantId,
+    })
+    if (check.conflict) throw new Error(`The session cannot be scheduled then (${check.details?.reason})`)
+
+    // The staff member scheduling the session is its organizer
+    const organizer = await prisma.user.findFirst({ where: { id: userId, tenantId }, select: { name: true, email: true } })
+    const session = await prisma.booking.create({
+      data: {
+        tenantId,
+        serviceId: service.id,
+        clientId: userId,
+        createdById: userId,
+        clientName: organizer?.name || service.name,
+        clientEmail: organizer?.email || '',
+        scheduledAt: input.scheduledAt,
+        duration,
+        status: 'CONFIRMED',
+        confirmed: true,
+        capacity,
+        assignedTeamMemberId: input.teamMemberId ?? null,
+        notes: input.notes ?? null,
+      },
+    })
+    await bookingResourceService.allocateSafe(session.id)
+    await calendarSyncService.syncBookingSafe(session.id)
+    return session
+  }
+
+  async list(tenantId: string, filters: GroupSessionFilters) {
+    if (filters.to <= filters.from) throw new Error('The session window must end after it starts')
+    if (filters.to.getTime() - filters.from.getTime() > MAX_LIST_DAYS * DAY_MS) {
+      throw new Error(`The session window can span at most ${MAX_LIST_DAYS} days`)
+    }
+    const sessions = await prisma.booking.findMany({
+      where: {
+        tenantId,
+        capacity: { not: null },
+        status: { in: ACTIVE_STATUSES as any },
+        scheduledAt: { gte: filters.from, lte: filters.to },
+        ...(filters.serviceId ? { serviceId: filters.serviceId } : {}),
+      },
+      select: {
+        id: true,
+        serviceId: true,
+        scheduledAt: true,
+        duration: true,
+        capacity: true,
+        seatsTaken: true,
+        service: { select: { id: true, name: true, slug: true } },
+        assignedTeamMember: { select: { id: true, name: true } },
+        resourceAllocations: { select: { resource: { select: { id: true, name: true, location: true } } } },
+        ...(filters.forUserId
+          ? { attendees: { where: { userId: filters.forUserId, status: 'REGISTERED' }, select: { id: true, seats: true } } }
+          : {}),
+      },
+      orderBy: { scheduledAt: 'asc' },
+    })
+    return sessions
+      .map(({ resourceAllocations, ...s }) => ({
+        ...s,
+        seatsLeft: Math.max(0, (s.capacity ?? 0) - s.seatsTaken),
+        resources: resourceAllocations.map((a) => a.resource).filter(Boolean),
+      }))
+      .filter((s) => !filters.openOnly || s.seatsLeft > 0)
+  }
+
+  async attendees(tenantId: string, bookingId: string) {
+    await this.session(tenantId, bookingId)
+    const rows = await prisma.bookingAttendee.findMany({
+      where: { tenantId, bookingId },
+      include: { invoice: { select: { id: true, number: true, status: true, totalCents: true, currency: true } } },
+      orderBy: { registeredAt: 'asc' },
+    })
+    return rows.map((a) => ({ ...a, paymentStatus: paymentStatus(a) }))
+  }
+
+  /** Register a client for seats; paid seats get an invoice to settle */
+  async register(tenantId: string, userId: string, bookingId: string, seats = 1, now = new Date()) {
+    if (!Number.isInteger(seats) || seats < 1) throw new Error('Register at least one seat')
+    const session = await this.session(tenantId, bookingId)
+    if (!ACTIVE_STATUSES.includes(session.status)) throw new Error('The session is not open for registration')
+    if (session.scheduledAt <= now) throw new Error('The session has already started')
+
+    const [user, existing] = await Promise.all([
+      prisma.user.findFirst({ where: { id: userId, tenantId }, select: { name: true, email: true } }),
+      prisma.bookingAttendee.findUnique({ where: { bookingId_userId: { bookingId, userId } } }),
+    ])
+    if (!user) throw new Error('User not found')
+    if (existing?.status === 'REGISTERED') throw new Error('You are already registered for this session')
+
+    const price = await calculateServicePrice({ serviceId: session.serviceId, scheduledAt: session.scheduledAt, durationMinutes: session.duration })
+    const amountCents = price.totalCents * seats
+    const description = `${session.service?.name ?? 'Group session'} on ${ymd(session.scheduledAt)}`
+
+    const { attendee, invoice } = await prisma.$transaction(async (tx) => {
+      // Claim the seats first so two clients cannot both take the last one
+      const claimed = await tx.booking.updateMany({
+        where: { id: bookingId, seatsTaken: { lte: (session.capacity ?? 0) - seats } },
+        data: { seatsTaken: { increment: seats } },
+      })
+      if (claimed.count === 0) throw new Error('Not enough seats left in this session')
+
+      const data = {
+        name: user.name || user.email,
+        email: user.email,
+        seats,
+        status: 'REGISTERED',
+        amountCents,
+        currency: price.currency,
+        invoiceId: null,
+        registeredAt: now,
+        cancelledAt: null,
+      }
+      let attendee = existing
+        ? await tx.bookingAttendee.update({ where: { id: existing.id }, data })
+        : await tx.bookingAttendee.create({ data: { ...data, tenantId, bookingId, userId } })
+      if (amountCents === 0) return { attendee, invoice: null }
+
+      const invoice = await tx.invoice.create({
+        data: {
+          tenantId,
+          bookingId,
+          clientId: userId,
+          currency: price.currency,
+          totalCents: amountCents,
+          status: 'UNPAID',
+          items: { create: [{ description, quantity: seats, unitPriceCents: price.totalCents, totalCents: amountCents }] },
+        },
+      })
+      attendee = await tx.bookingAttendee.update({ where: { id: attendee.id }, data: { invoiceId: invoice.id } })
+      return { attendee, invoice }
+    })
+
+    if (invoice) await postToLedgerSafe('invoice.issued', () => ledgerPostingService.postInvoiceIssued(invoice))
+    return { attendee: { ...attendee, paymentStatus: paymentStatus({ amountCents, invoice }) }, invoice }
+  }
+
+  /**
+   * Stripe Checkout for a registration's unpaid invoice. The payment intent
+   * carries the invoice so the webhook records the payment against it.
+   * Returns null when there is nothing to pay.
+   */
+  async checkout(tenantId: string, userId: string, bookingId: string, urls: { successUrl: string; cancelUrl: string }) {
+    const attendee = await prisma.bookingAttendee.findFirst({
+      where: { tenantId, bookingId, userId, status: 'REGISTERED' },
+      include: { invoice: true, booking: { select: { scheduledAt: true, service: { select: { name: true } } } } },
+    })
+    if (!attendee) throw new Error('Registration not found')
+    const invoice = attendee.invoice
+    if (!invoice || invoice.status === 'PAID' || attendee.amountCents === 0) return null
+
+    const metadata = { invoiceId: invoice.id, bookingId, bookingAttendeeId: attendee.id }
+    const session = await getStripeClient().checkout.sessions.create(
+      {
+        mode: 'payment',
+        success_url: urls.successUrl,
+        cancel_url: urls.cancelUrl,
+        customer_email: attendee.email,
+        line_items: [
+          {
+            quantity: attendee.seats,
+            price_data: {
+              currency: invoice.currency.toLowerCase(),
+              unit_amount: Math.round(invoice.totalCents / attendee.seats),
+              product_data: { name: `${attendee.booking.service?.name ?? 'Group session'} — ${ymd(attendee.booking.scheduledAt)}` },
+            },
+          },
+        ],
+        metadata,
+        payment_intent_data: { metadata },
+      },
+      { idempotencyKey: `group-session-checkout:${attendee.id}:${invoice.id}` }
+    )
+    return session.url
+  }
+
+  /** Checkout that leaves the invoice open for later payment when Stripe is unavailable */
+  async checkoutSafe(tenantId: string, userId: string, bookingId: string, urls: { successUrl: string; cancelUrl: string }) {
+    try {
+      return await this.checkout(tenantId, userId, bookingId, urls)
+    } catch (error) {
+      logger.warn('Group session checkout unavailable', { bookingId, userId, error: String(error) })
+      return null
+    }
+  }
+
+  /**
+   * Give a client's seats back. The registration invoice is credited: unpaid
+   * seats are written off, paid ones become customer credit staff can refund.
+   */
+  async cancelRegistration(tenantId: string, userId: string, bookingId: string, actorId: string, now = new Date()) {
+    const session = await this.session(tenantId, bookingId)
+    if (session.scheduledAt <= now) throw new Error('The session has already started')
+    const attendee = await prisma.bookingAttendee.findFirst({ where: { tenantId, bookingId, userId, status: 'REGISTERED' } })
+    if (!attendee) throw new Error('Registration not found')
+
+    // Only the request that moves the registration out of REGISTERED frees its seats
+    const cancelled = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.bookingAttendee.updateMany({
+        where: { id: attendee.id, status: 'REGISTERED' },
+        data: { status: 'CANCELLED', cancelledAt: now },
+      })
+      if (count !== 1) throw new Error('Registration not found')
+      await tx.booking.update({ where: { id: bookingId }, data: { seatsTaken: { decrement: attendee.seats } } })
+      return tx.bookingAttendee.findUniqueOrThrow({ where: { id: attendee.id } })
+    })
+
+    let creditNote = null
+    if (attendee.invoiceId && attendee.amountCents > 0) {
+      try {
+        creditNote = await paymentService.issueCreditNote(tenantId, actorId, {
+          invoiceId: attendee.invoiceId,
+          amountCents: attendee.amountCents,
+          reason: `Registration cancelled: ${session.service?.name ?? 'Group session'} on ${ymd(session.scheduledAt)}`,
+        })
+      } catch (error) {
+        logger.error('Group session registration credit failed', { attendeeId: attendee.id, error: String(error) })
+      }
+    }
+    return { attendee: cancelled, creditNote }
+  }
+
+  private async session(tenantId: string, bookingId: string) {
+    const session = await prisma.booking.findFirst({
+      where: { id: bookingId, tenantId, capacity: { not: null } },
+      select: { id: true, serviceId: true, status: true, scheduledAt: true, duration: true, capacity: true, service: { select: { name: true } } },
+    })
+    if (!session) throw new Error('Group session not found')
+    return session
+  }
+}
+
+export const groupSessionService = new GroupSessionService()
+
+/** HTTP status for a group session error, or null when it is unexpected */
+export function groupSessionErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (
+    message === 'Service not found' ||
+    message === 'Group session not found' ||
+    message === 'Registration not found' ||
+    message === 'User not found'
+  ) return 404
+  if (
+    message === 'Not enough seats left in this session' ||
+    message === 'You are already registered for this session' ||
+    message === 'The session is not open for registration' ||
+    message === 'The session has already started' ||
+    message.startsWith('The session cannot be scheduled')
+  ) return 409
+  if (
+    message === 'The service does not run group sessions' ||
+    message === 'Sessions must be scheduled in the future' ||
+    message === 'Register at least one seat' ||
+    message.startsWith('The session window') ||
+    message.startsWith('Sessions of this service seat at most')
+  ) return 400
+  return null
+}
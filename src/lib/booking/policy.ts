@@ -0,0 +1,165 @@
+/**
+ * Booking policy rules
+ * Decides whether a client may reschedule or cancel a booking, and what a
+ * late cancellation or a no-show costs. A service's BookingPolicy sets the
+ * rules; where it leaves a limit unset the tenant's BookingSettings deadlines
+ * apply, and without either there is no limit and no fee.
+ */
+
+export interface LateCancelFeeTier {
+  hoursBefore: number
+  percent?: number
+  amountCents?: number
+}
+
+export interface BookingPolicyRules {
+  allowRescheduling: boolean
+  allowCancellation: boolean
+  rescheduleNoticeHours: number | null
+  maxReschedules: number | null
+  cancellationNoticeHours: number | null
+  lateCancelFees: LateCancelFeeTier[]
+  noShowFeePercent: number | null
+  noShowFeeCents: number | null
+  currency: string
+  chargeSavedMethod: boolean
+  policyText: string | null
+}
+
+export interface PolicyDecision {
+  allowed: boolean
+  feeCents: number
+  noticeHours: number
+  reason?: string
+}
+
+type PolicyRow = {
+  rescheduleNoticeHours: number | null
+  maxReschedules: number | null
+  cancellationNoticeHours: number | null
+  lateCancelFees: unknown
+  noShowFeePercent: number | null
+  noShowFeeCents: number | null
+  currency: string
+  chargeSavedMethod: boolean
+  policyText: string | null
+}
+
+type SettingsRow = {
+  allowCancellation: boolean
+  allowRescheduling: boolean
+  cancellationDeadlineHours: number
+  rescheduleDeadlineHours: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+function parseTiers(value: unknown): LateCancelFeeTier[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map((t: any) => ({
+      hoursBefore: Number(t?.hoursBefore),
+      ...(t?.percent != null ? { percent: Number(t.percent) } : {}),
+      ...(t?.amountCents != null ? { amountCents: Math.round(Number(t.amountCents)) } : {}),
+    }))
+    .filter((t) => Number.isFinite(t.hoursBefore) && t.hoursBefore >= 0 && (t.percent != null || t.amountCents != null))
+    .sort((a, b) => a.hoursBefore - b.hoursBefore)
+}
+
+/** The rules in force for a service: its policy over the tenant's booking settings */
+export function resolvePolicy(policy: PolicyRow | null, settings: SettingsRow | null): BookingPolicyRules {
+  return {
+    allowRescheduling: settings?.allowRescheduling ?? true,
+    allowCancellation: settings?.allowCancellation ?? true,
+    rescheduleNoticeHours: policy?.rescheduleNoticeHours ?? settings?.rescheduleDeadlineHours ?? null,
+    maxReschedules: policy?.maxReschedules ?? null,
+    cancellationNoticeHours: policy?.cancellationNoticeHours ?? settings?.cancellationDeadlineHours ?? null,
+    lateCancelFees: parseTiers(policy?.lateCancelFees),
+    noShowFeePercent: policy?.noShowFeePercent ?? null,
+    noShowFeeCents: policy?.noShowFeeCents ?? null,
+    currency: policy?.currency ?? 'USD',
+    chargeSavedMethod: policy?.chargeSavedMethod ?? true,
+    policyText: policy?.policyText ?? null,
+  }
+}
+
+const noticeHoursBefore = (start: Date, now: Date) => (start.getTime() - now.getTime()) / HOUR_MS
+
+/** A fee tier's amount for a booking of the given price */
+function tierAmount(tier: { percent?: number; amountCents?: number }, priceCents: number) {
+  if (tier.amountCents != null) return Math.max(0, tier.amountCents)
+  return Math.max(0, Math.round((priceCents * (tier.percent ?? 0)) / 100))
+}
+
+/** Whether a client may move a booking now; staff are not bound by this */
+export function evaluateReschedule(
+  rules: BookingPolicyRules,
+  booking: { scheduledAt: Date; rescheduleCount: number },
+  now: Date
+): PolicyDecision {
+  const noticeHours = noticeHoursBefore(booking.scheduledAt, now)
+  if (!rules.allowRescheduling) return { allowed: false, feeCents: 0, reason: 'Rescheduling is not allowed for this booking', noticeHours }
+  if (noticeHours < 0) return { allowed: false, feeCents: 0, reason: 'The booking has already started', noticeHours }
+  if (rules.rescheduleNoticeHours != null && noticeHours < rules.rescheduleNoticeHours) {
+    return { allowed: false, feeCents: 0, reason: `Bookings can be rescheduled up to ${rules.rescheduleNoticeHours} hours before the start`, noticeHours }
+  }
+  if (rules.maxReschedules != null && booking.rescheduleCount >= rules.maxReschedules) {
+    return { allowed: false, feeCents: 0, reason: `This booking has already been rescheduled ${rules.maxReschedules} times`, noticeHours }
+  }
+  return { allowed: true, feeCents: 0, noticeHours }
+}
+
+/**
+ * Whether a client may cancel a booking now, and the late-cancellation fee.
+ * Inside the free window the tier with the smallest hoursBefore above the
+ * notice given applies (the widest tier when none is above it); with no
+ * tiers a late cancellation is refused.
+ */
+export function evaluateCancellation(rules: BookingPolicyRules, booking: { scheduledAt: Date }, priceCents: number, now: Date): PolicyDecision {
+  const noticeHours = noticeHoursBefore(booking.scheduledAt, now)
+  if (!rules.allowCancellation) return { allowed: false, feeCents: 0, reason: 'Cancellation is not allowed for this booking', noticeHours }
+  if (noticeHours < 0) return { allowed: false, feeCents: 0, reason: 'The booking has already started', noticeHours }
+  if (rules.cancellationNoticeHours == null || noticeHours >= rules.cancellationNoticeHours) return { allowed: true, feeCents: 0, noticeHours }
+  const tier = rules.lateCancelFees.find((t) => noticeHours < t.hoursBefore) ?? rules.lateCancelFees[rules.lateCancelFees.length - 1]
+  if (!tier) {
+    return { allowed: false, feeCents: 0, reason: `Bookings can be cancelled up to ${rules.cancellationNoticeHours} hours before the start`, noticeHours }
+  }
+  return { allowed: true, feeCents: tierAmount(tier, priceCents), noticeHours }
+}
+
+/** The no-show charge for a booking of the given price */
+export function noShowFee(rules: BookingPolicyRules, priceCents: number): number {
+  if (rules.noShowFeeCents != null) return Math.max(0, rules.noShowFeeCents)
+  if (rules.noShowFeePercent != null) return tierAmount({ percent: rules.noShowFeePercent }, priceCents)
+  return 0
+}
+
+const money = (cents: number, currency: string) => `${currency} ${(cents / 100).toFixed(2)}`
+const fee = (tier: LateCancelFeeTier, currency: string) => (tier.amountCents != null ? money(tier.amountCents, currency) : `${tier.percent}% of the booking price`)
+
+/** Policy text for confirmations: the service's own wording, or one built from its rules */
+export function describePolicy(rules: BookingPolicyRules): string {
+  if (rules.policyText?.trim()) return rules.policyText.trim()
+  const lines: string[] = []
+  if (!rules.allowRescheduling) lines.push('Bookings cannot be rescheduled online.')
+  else if (rules.rescheduleNoticeHours != null) {
+    lines.push(`You can reschedule up to ${rules.rescheduleNoticeHours} hours before your appointment${rules.maxReschedules != null ? `, at most ${rules.maxReschedules} times` : ''}.`)
+  } else if (rules.maxReschedules != null) lines.push(`You can reschedule at most ${rules.maxReschedules} times.`)
+
+  if (!rules.allowCancellation) lines.push('Bookings cannot be cancelled online.')
+  else if (rules.cancellationNoticeHours != null) {
+    lines.push(`Cancellation is free up to ${rules.cancellationNoticeHours} hours before your appointment.`)
+    if (!rules.lateCancelFees.length) lines.push('Later cancellations are not possible online.')
+    for (const [i, tier] of rules.lateCancelFees.entries()) {
+      const lower = i > 0 ? rules.lateCancelFees[i - 1].hoursBefore : 0
+      lines.push(
+        lower > 0
+          ? `Cancelling between ${lower} and ${tier.hoursBefore} hours before costs ${fee(tier, rules.currency)}.`
+          : `Cancelling less than ${tier.hoursBefore} hours before costs ${fee(tier, rules.currency)}.`
+      )
+    }
+  }
+  if (rules.noShowFeeCents != null) lines.push(`Missed appointments are charged ${money(rules.noShowFeeCents, rules.currency)}.`)
+  else if (rules.noShowFeePercent != null) lines.push(`Missed appointments are charged ${rules.noShowFeePercent}% of the booking price.`)
+  return lines.join(' ')
+}
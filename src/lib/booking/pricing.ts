@@ -121,7 +121,7 @@ export async function calculateServicePrice(params: {
 
   // Currency conversion if needed
   if (targetCurrency !== baseCurrency) {
-    const latestRate = await prisma.exchangeRate.findFirst({ where: { base: baseCurrency, target: targetCurrency }, orderBy: { fetchedAt: 'desc' } })
+    const latestRate = await prisma.exchangeRate.findFirst({ where: { base: baseCurrency, target: targetCurrency }, orderBy: [{ rateDate: 'desc' }, { fetchedAt: 'desc' }] })
     const rate = latestRate?.rate ?? 1
     const convertedBase = convertCents(baseCents, rate)
     const convertedComponents = components.map(c => ({ ...c, amountCents: convertCents(c.amountCents, rate) }))
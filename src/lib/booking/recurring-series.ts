@@ -0,0 +1,460 @@
+/**
+ * Recurring Series Service
+ * Edits a recurring booking series from one of its occurrences: just that
+ * occurrence, it and the ones after (which splits the series in two), or the
+ * whole series. The series is the parent service request holding the
+ * recurrence pattern; occurrences are its children, each remembering the slot
+ * the rule gave it (occurrenceStart) so an individually moved occurrence is
+ * still recognised when the series is re-expanded. Every new or moved
+ * occurrence goes through the booking conflict check again.
+ */
+
+import prisma from '@/lib/prisma'
+import { DateTime } from 'luxon'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { expandRecurrence, formatRecurrenceRule } from '@/lib/calendar/rrule'
+import { checkBookingConflict } from './conflict-detection'
+import { bookingResourceService } from './resources'
+import { addMinutes } from './availability'
+import { generateOccurrences, normalizeRecurringPattern, patternToRule, type RecurringPattern } from './recurring'
+
+export type SeriesScope = 'THIS' | 'FOLLOWING' | 'ALL'
+
+export interface SeriesChanges {
+  scheduledAt?: Date // New start of the chosen occurrence; for FOLLOWING/ALL the series shifts by the same amount
+  duration?: number
+  assignedTeamMemberId?: string | null
+  recurringPattern?: RecurringPattern
+  cancel?: boolean
+}
+
+export interface SeriesPlanItem {
+  action: 'CREATE' | 'MOVE' | 'CANCEL' | 'KEEP'
+  occurrenceId?: string
+  occurrenceStart: Date
+  start: Date
+  end: Date
+  conflict: boolean
+  reason?: string
+  conflictingBookingId?: string
+}
+
+export interface SeriesEditResult {
+  applied: boolean
+  seriesId: string
+  serviceId: string
+  newSeriesId?: string // Set when a FOLLOWING edit split the series
+  plan: SeriesPlanItem[]
+  conflicts: SeriesPlanItem[]
+}
+
+// Occurrences in these states are history and are never changed by a series edit
+const CLOSED_STATUSES = ['CANCELLED', 'COMPLETED']
+const ACTIVE_BOOKING_STATUSES = ['PENDING', 'CONFIRMED']
+
+const occurrenceSelect = {
+  id: true,
+  title: true,
+  status: true,
+  scheduledAt: true,
+  occurrenceStart: true,
+  duration: true,
+  assignedTeamMemberId: true,
+  linkedBookings: { select: { id: true, status: true } },
+} as const
+
+type Occurrence = {
+  id: string
+  title: string
+  status: string
+  scheduledAt: Date | null
+  occurrenceStart: Date | null
+  duration: number | null
+  assignedTeamMemberId: string | null
+  linkedBookings: { id: string; status: string }[]
+}
+
+const slotOf = (o: Occurrence) => new Date(o.occurrenceStart ?? o.scheduledAt!)
+const isOpen = (o: Occurrence) => !CLOSED_STATUSES.includes(String(o.status)) && !!o.scheduledAt
+const activeBookingIds = (o: Occurrence) => o.linkedBookings.filter((b) => ACTIVE_BOOKING_STATUSES.includes(String(b.status))).map((b) => b.id)
+
+// Occurrence titles end in their date, as when the series was created
+const retitle = (title: string, start: Date) => title.replace(/ — \d{4}-\d{2}-\d{2}$/, '') + ` — ${start.toISOString().slice(0, 10)}`
+
+function storedPattern(pattern: RecurringPattern): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(pattern))
+}
+
+export class RecurringSeriesService {
+  private async loadSeries(tenantId: string, id: string) {
+    const request = await prisma.serviceRequest.findFirst({
+      where: { id, tenantId },
+      select: { id: true, parentBookingId: true, recurringPattern: true },
+    })
+    if (!request) throw new Error('Service request not found')
+    const parentId = request.parentBookingId ?? request.id
+    const parent = await prisma.serviceRequest.findFirst({ where: { id: parentId, tenantId } })
+    if (!parent || !parent.recurringPattern || !parent.scheduledAt) throw new Error('Service request is not part of a recurring series')
+    const children = (await prisma.serviceRequest.findMany({
+      where: { parentBookingId: parent.id, tenantId },
+      select: occurrenceSelect,
+      orderBy: { scheduledAt: 'asc' },
+    })) as unknown as Occurrence[]
+    return { parent, children, requestedId: request.id }
+  }
+
+  /** A series with its rule and occurrences, from the parent or any occurrence */
+  async series(tenantId: string, id: string) {
+    const { parent, children } = await this.loadSeries(tenantId, id)
+    const pattern = normalizeRecurringPattern(parent.recurringPattern)
+    return {
+      id: parent.id,
+      title: parent.title,
+      start: parent.scheduledAt,
+      duration: parent.duration,
+      assignedTeamMemberId: parent.assignedTeamMemberId,
+      recurringPattern: pattern,
+      rrule: formatRecurrenceRule(patternToRule(pattern)),
+      occurrences: children.map((c) => ({
+        id: c.id,
+        status: c.status,
+        scheduledAt: c.scheduledAt,
+        occurrenceStart: slotOf(c),
+        duration: c.duration,
+        assignedTeamMemberId: c.assignedTeamMemberId,
+        moved: !!c.scheduledAt && slotOf(c).getTime() !== c.scheduledAt.getTime(),
+      })),
+    }
+  }
+
+  private async check(
+    item: SeriesPlanItem,
+    params: { serviceId: string; duration: number; teamMemberId: string | null; excludeBookingId?: string; tenantId: string }
+  ): Promise<SeriesPlanItem> {
+    const { conflict, details } = await checkBookingConflict({
+      serviceId: params.serviceId,
+      start: item.start,
+      durationMinutes: params.duration,
+      excludeBookingId: params.excludeBookingId,
+      teamMemberId: params.teamMemberId,
+      tenantId: params.tenantId,
+    })
+    return { ...item, conflict, ...(conflict ? { reason: details?.reason, conflictingBookingId: details?.conflictingBookingId } : {}) }
+  }
+
+  /**
+   * Edit a series from one occurrence. Nothing is written when any new or
+   * moved occurrence conflicts, unless skipConflicts is set; conflicting
+   * occurrences are then left out (new) or left where they were (moved).
+   * dryRun returns the plan without writing.
+   */
+  async editSeries(
+    tenantId: string,
+    occurrenceId: string,
+    scope: SeriesScope,
+    changes: SeriesChanges,
+    options: { skipConflicts?: boolean; dryRun?: boolean; now?: Date } = {}
+  ): Promise<SeriesEditResult> {
+    const { parent, children, requestedId } = await this.loadSeries(tenantId, occurrenceId)
+    const occurrence = children.find((c) => c.id === requestedId)
+    if (scope !== 'ALL' && !occurrence) throw new Error('Choose an occurrence of the series to edit it or the ones after it')
+    if (occurrence && !isOpen(occurrence)) throw new Error('Cancelled or completed occurrences cannot be edited')
+    if (scope === 'THIS' && changes.recurringPattern) throw new Error('A single occurrence cannot change the recurrence pattern')
+    if (changes.cancel && (changes.scheduledAt || changes.duration || changes.recurringPattern)) {
+      throw new Error('Cancel cannot be combined with other changes')
+    }
+
+    const now = options.now ?? new Date()
+    const context = {
+      serviceId: parent.serviceId,
+      tenantId,
+      duration: changes.duration ?? parent.duration ?? 60,
+      teamMemberId: changes.assignedTeamMemberId !== undefined ? changes.assignedTeamMemberId : parent.assignedTeamMemberId,
+    }
+
+    if (scope === 'THIS') return this.editOccurrence(parent, occurrence!, changes, context, options)
+
+    const pattern = normalizeRecurringPattern(parent.recurringPattern)
+    const rule = patternToRule(pattern)
+    const zone = pattern.timeZone || 'UTC'
+    const seriesStart = new Date(parent.scheduledAt!)
+    const pivot = scope === 'FOLLOWING' ? slotOf(occurrence!) : seriesStart
+    const delta = changes.scheduledAt ? changes.scheduledAt.getTime() - (occurrence ? slotOf(occurrence) : seriesStart).getTime() : 0
+    const shift = (d: Date) => new Date(d.getTime() + delta)
+
+    // The pattern of the (new) series: as given, or the old one shifted, with COUNT reduced by what stays behind
+    let nextPattern: RecurringPattern
+    if (changes.recurringPattern) {
+      nextPattern = changes.recurringPattern
+    } else {
+      const remaining = { ...rule }
+      if (scope === 'FOLLOWING' && rule.count) {
+        const before = expandRecurrence(seriesStart, { ...rule, count: undefined, until: undefined }, { from: seriesStart, to: pivot, timeZone: zone }).length
+        remaining.count = Math.max(1, rule.count - before)
+      }
+      if (remaining.until) remaining.until = shift(remaining.until)
+      nextPattern = {
+        rrule: formatRecurrenceRule(remaining),
+        timeZone: pattern.timeZone,
+        ...(pattern.exdates ? { exdates: pattern.exdates.filter((d) => d >= pivot).map(shift) } : {}),
+        ...(pattern.rdates ? { rdates: pattern.rdates.filter((d) => d >= pivot).map(shift) } : {}),
+      }
+    }
+    const nextStart = shift(pivot)
+    const nextZone = nextPattern.timeZone || 'UTC'
+    // A whole-series edit leaves occurrences that have already started alone
+    const from = scope === 'ALL' && now > nextStart ? now : nextStart
+    // Cancelling the series (or the rest of it) leaves no occurrences to keep
+    const targets = changes.cancel ? [] : generateOccurrences(nextStart, context.duration, nextPattern, { from })
+
+    const inScope = children.filter((c) => isOpen(c) && slotOf(c) >= (scope === 'ALL' ? (now > pivot ? now : pivot) : pivot))
+    const unmatched = new Map(inScope.map((c) => [c.id, c]))
+    const localDay = (d: Date) => DateTime.fromJSDate(d, { zone: nextZone }).toISODate()
+
+    const plan: SeriesPlanItem[] = []
+    for (const target of targets) {
+      const candidates = Array.from(unmatched.values())
+      const match =
+        candidates.find((c) => shift(slotOf(c)).getTime() === target.getTime()) ??
+        candidates.find((c) => localDay(shift(slotOf(c))) === localDay(target))
+      if (!match) {
+        plan.push({ action: 'CREATE', occurrenceStart: target, start: target, end: addMinutes(target, context.duration), conflict: false })
+        continue
+      }
+      unmatched.delete(match.id)
+      // An occurrence moved on its own keeps its time unless the whole series moves
+      const moved = slotOf(match).getTime() !== match.scheduledAt!.getTime()
+      const start = moved && delta === 0 ? new Date(match.scheduledAt!) : target
+      const changed =
+        start.getTime() !== match.scheduledAt!.getTime() ||
+        (match.duration ?? context.duration) !== context.duration ||
+        (match.assignedTeamMemberId ?? null) !== (context.teamMemberId ?? null)
+      plan.push({
+        action: changed ? 'MOVE' : 'KEEP',
+        occurrenceId: match.id,
+        occurrenceStart: target,
+        start,
+        end: addMinutes(start, context.duration),
+        conflict: false,
+      })
+    }
+    for (const leftover of Array.from(unmatched.values())) {
+      plan.push({
+        action: 'CANCEL',
+        occurrenceId: leftover.id,
+        occurrenceStart: slotOf(leftover),
+        start: new Date(leftover.scheduledAt!),
+        end: addMinutes(new Date(leftover.scheduledAt!), leftover.duration ?? context.duration),
+        conflict: false,
+      })
+    }
+
+    const checked: SeriesPlanItem[] = []
+    for (const item of plan) {
+      if (item.action !== 'CREATE' && item.action !== 'MOVE') {
+        checked.push(item)
+        continue
+      }
+      const current = item.occurrenceId ? children.find((c) => c.id === item.occurrenceId) : undefined
+      checked.push(await this.check(item, { ...context, excludeBookingId: current ? activeBookingIds(current)[0] : undefined }))
+    }
+    checked.sort((a, b) => a.start.getTime() - b.start.getTime())
+    const conflicts = checked.filter((i) => i.conflict)
+    if (options.dryRun || (conflicts.length && !options.skipConflicts)) {
+      return { applied: false, seriesId: parent.id, serviceId: parent.serviceId, plan: checked, conflicts }
+    }
+
+    const seriesFields = {
+      duration: context.duration,
+      assignedTeamMemberId: context.teamMemberId ?? null,
+    }
+    const bookingIds: string[] = []
+    const newSeriesId = await prisma.$transaction(async (tx) => {
+      let targetParentId = parent.id
+      if (changes.cancel && scope === 'ALL') {
+        await tx.serviceRequest.update({ where: { id: parent.id }, data: { status: 'CANCELLED' as any } })
+      } else if (scope === 'FOLLOWING') {
+        // The old series now ends just before the chosen occurrence
+        const ended = { ...rule, count: undefined, until: new Date(pivot.getTime() - 1000) }
+        await tx.serviceRequest.update({
+          where: { id: parent.id },
+          data: {
+            recurringPattern: storedPattern({
+              rrule: formatRecurrenceRule(ended),
+              timeZone: pattern.timeZone,
+              ...(pattern.exdates ? { exdates: pattern.exdates.filter((d) => d < pivot) } : {}),
+              ...(pattern.rdates ? { rdates: pattern.rdates.filter((d) => d < pivot) } : {}),
+            }) as any,
+          },
+        })
+        if (changes.cancel) return undefined
+        const created = await tx.serviceRequest.create({
+          data: {
+            clientId: parent.clientId,
+            serviceId: parent.serviceId,
+            tenantId: parent.tenantId,
+            title: parent.title,
+            description: parent.description,
+            priority: parent.priority,
+            status: parent.status,
+            requirements: (parent.requirements as any) ?? undefined,
+            isBooking: true,
+            bookingType: 'RECURRING' as any,
+            scheduledAt: nextStart,
+            clientName: parent.clientName,
+            clientEmail: parent.clientEmail,
+            clientPhone: parent.clientPhone,
+            recurringPattern: storedPattern(nextPattern) as any,
+            ...seriesFields,
+          },
+        })
+        targetParentId = created.id
+        const following = checked.filter((i) => i.occurrenceId && i.action !== 'CANCEL').map((i) => i.occurrenceId!)
+        if (following.length) {
+          await tx.serviceRequest.updateMany({ where: { id: { in: following } }, data: { parentBookingId: created.id } })
+        }
+      } else {
+        await tx.serviceRequest.update({
+          where: { id: parent.id },
+          data: { scheduledAt: shift(seriesStart), recurringPattern: storedPattern(nextPattern) as any, ...seriesFields },
+        })
+      }
+
+      for (const item of checked) {
+        if (item.conflict) continue
+        const current = item.occurrenceId ? children.find((c) => c.id === item.occurrenceId) : undefined
+        if (item.action === 'CREATE') {
+          await tx.serviceRequest.create({
+            data: {
+              clientId: parent.clientId,
+              serviceId: parent.serviceId,
+              tenantId: parent.tenantId,
+              title: retitle(parent.title, item.start),
+              description: parent.description,
+              priority: parent.priority,
+              status: parent.status,
+              isBooking: true,
+              bookingType: 'RECURRING' as any,
+              scheduledAt: item.start,
+              occurrenceStart: item.occurrenceStart,
+              parentBookingId: targetParentId,
+              clientName: parent.clientName,
+              clientEmail: parent.clientEmail,
+              clientPhone: parent.clientPhone,
+              ...seriesFields,
+            },
+          })
+        } else if (item.action === 'CANCEL' && current) {
+          await tx.serviceRequest.update({ where: { id: current.id }, data: { status: 'CANCELLED' as any } })
+          await tx.booking.updateMany({ where: { id: { in: activeBookingIds(current) } }, data: { status: 'CANCELLED' as any } })
+          bookingIds.push(...activeBookingIds(current))
+        } else if (current) {
+          await tx.serviceRequest.update({
+            where: { id: current.id },
+            data: { scheduledAt: item.start, occurrenceStart: item.occurrenceStart, title: retitle(current.title, item.start), ...seriesFields },
+          })
+          if (item.action === 'MOVE') {
+            await tx.booking.updateMany({
+              where: { id: { in: activeBookingIds(current) } },
+              data: { scheduledAt: item.start, duration: context.duration, assignedTeamMemberId: context.teamMemberId ?? null },
+            })
+            bookingIds.push(...activeBookingIds(current))
+          }
+        }
+      }
+      return scope === 'FOLLOWING' ? targetParentId : undefined
+    })
+
+    await this.syncBookings(bookingIds)
+    return { applied: true, seriesId: parent.id, serviceId: parent.serviceId, ...(newSeriesId ? { newSeriesId } : {}), plan: checked, conflicts }
+  }
+
+  private async editOccurrence(
+    parent: { id: string; serviceId: string; recurringPattern: unknown },
+    occurrence: Occurrence,
+    changes: SeriesChanges,
+    context: { serviceId: string; tenantId: string; duration: number; teamMemberId: string | null },
+    options: { skipConflicts?: boolean; dryRun?: boolean }
+  ): Promise<SeriesEditResult> {
+    const bookingIds = activeBookingIds(occurrence)
+    const current = new Date(occurrence.scheduledAt!)
+
+    if (changes.cancel) {
+      const item: SeriesPlanItem = {
+        action: 'CANCEL',
+        occurrenceId: occurrence.id,
+        occurrenceStart: slotOf(occurrence),
+        start: current,
+        end: addMinutes(current, occurrence.duration ?? context.duration),
+        conflict: false,
+      }
+      if (options.dryRun) return { applied: false, seriesId: parent.id, serviceId: parent.serviceId, plan: [item], conflicts: [] }
+      // The slot becomes an EXDATE so re-expanding the series does not bring it back
+      const pattern = normalizeRecurringPattern(parent.recurringPattern)
+      const exdates = [...(pattern.exdates ?? []), slotOf(occurrence)]
+      await prisma.$transaction(async (tx) => {
+        await tx.serviceRequest.update({ where: { id: occurrence.id }, data: { status: 'CANCELLED' as any } })
+        await tx.serviceRequest.update({ where: { id: parent.id }, data: { recurringPattern: storedPattern({ ...pattern, exdates }) as any } })
+        await tx.booking.updateMany({ where: { id: { in: bookingIds } }, data: { status: 'CANCELLED' as any } })
+      })
+      await this.syncBookings(bookingIds)
+      return { applied: true, seriesId: parent.id, serviceId: parent.serviceId, plan: [item], conflicts: [] }
+    }
+
+    const start = changes.scheduledAt ?? current
+    const duration = changes.duration ?? occurrence.duration ?? context.duration
+    const teamMemberId = changes.assignedTeamMemberId !== undefined ? changes.assignedTeamMemberId : occurrence.assignedTeamMemberId
+    const item = await this.check(
+      { action: 'MOVE', occurrenceId: occurrence.id, occurrenceStart: slotOf(occurrence), start, end: addMinutes(start, duration), conflict: false },
+      { serviceId: context.serviceId, tenantId: context.tenantId, duration, teamMemberId, excludeBookingId: bookingIds[0] }
+    )
+    const conflicts = item.conflict ? [item] : []
+    // A single occurrence has nothing to skip to, so a conflict always stops it
+    if (options.dryRun || item.conflict) return { applied: false, seriesId: parent.id, serviceId: parent.serviceId, plan: [item], conflicts }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.serviceRequest.update({
+        where: { id: occurrence.id },
+        data: {
+          scheduledAt: start,
+          occurrenceStart: slotOf(occurrence),
+          duration,
+          assignedTeamMemberId: teamMemberId ?? null,
+          title: retitle(occurrence.title, start),
+        },
+      })
+      await tx.booking.updateMany({
+        where: { id: { in: bookingIds } },
+        data: { scheduledAt: start, duration, assignedTeamMemberId: teamMemberId ?? null },
+      })
+    })
+    await this.syncBookings(bookingIds)
+    return { applied: true, seriesId: parent.id, serviceId: parent.serviceId, plan: [item], conflicts }
+  }
+
+  private async syncBookings(bookingIds: string[]) {
+    for (const id of bookingIds) {
+      await bookingResourceService.allocateSafe(id)
+      await calendarSyncService.syncBookingSafe(id)
+    }
+  }
+}
+
+export const recurringSeriesService = new RecurringSeriesService()
+
+/** HTTP status for a series error, or null when it is unexpected */
+export function recurringSeriesErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Service request not found') return 404
+  if (
+    message === 'Service request is not part of a recurring series' ||
+    message === 'Choose an occurrence of the series to edit it or the ones after it' ||
+    message === 'Cancelled or completed occurrences cannot be edited' ||
+    message === 'A single occurrence cannot change the recurrence pattern' ||
+    message === 'Cancel cannot be combined with other changes' ||
+    message === 'Recurrence needs a frequency or an RRULE' ||
+    message.startsWith('Unsupported recurrence rule')
+  ) return 400
+  return null
+}
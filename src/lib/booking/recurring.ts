@@ -1,14 +1,35 @@
 import { checkBookingConflict } from './conflict-detection'
 import { addMinutes } from './availability'
+import {
+  expandRecurrenceSet,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from '@/lib/calendar/rrule'
 
-export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+export type { RecurrenceFrequency }
 
+/**
+ * How a booking series repeats. Either the structured fields or a full RRULE
+ * (which wins when both are given). Occurrences repeat at the start's
+ * wall-clock time in timeZone, so a 09:00 series stays at 09:00 across DST.
+ */
 export type RecurringPattern = {
-  frequency: RecurrenceFrequency
+  frequency?: RecurrenceFrequency
   interval?: number
   count?: number
   until?: Date
-  byWeekday?: number[]
+  byWeekday?: number[] // 0 = Sunday
+  byDay?: string[] // RRULE BYDAY entries with ordinals, e.g. '-1TH' for the last Thursday
+  byMonthDay?: number[]
+  byMonth?: number[]
+  bySetPos?: number[]
+  rrule?: string
+  timeZone?: string
+  exdates?: Date[] // Occurrences removed from the series
+  rdates?: Date[] // Extra one-off occurrences
 }
 
 export type RecurringPlanItem = {
@@ -18,35 +39,87 @@ export type RecurringPlanItem = {
   reason?: string
 }
 
-export function generateOccurrences(start: Date, durationMinutes: number, pattern: RecurringPattern): Date[] {
-  const out: Date[] = []
-  const interval = Math.max(1, pattern.interval ?? 1)
-  const maxCount = pattern.count ?? 0
-  const until = pattern.until ? new Date(pattern.until) : null
+// A series with neither COUNT nor UNTIL is planned this far ahead
+export const OPEN_SERIES_MONTHS = 12
+export const MAX_SERIES_OCCURRENCES = 366
 
-  const current = new Date(start)
-  let occurrences = 0
+const SUNDAY_FIRST: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
 
-  while (true) {
-    if (until && current > until) break
-    if (maxCount && occurrences >= maxCount) break
+const toDate = (value: unknown): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined
+  const d = value instanceof Date ? value : new Date(String(value))
+  return isNaN(d.getTime()) ? undefined : d
+}
+
+const toNumbers = (value: unknown): number[] | undefined =>
+  Array.isArray(value) && value.length ? value.map((n) => Number(n)).filter((n) => Number.isInteger(n)) : undefined
 
-    if (!pattern.byWeekday || pattern.byWeekday.includes(current.getDay())) {
-      out.push(new Date(current))
-      occurrences++
-    }
+/** A pattern from a request payload or a stored recurringPattern JSON, with dates revived */
+export function normalizeRecurringPattern(input: any): RecurringPattern {
+  const pattern: RecurringPattern = {}
+  if (input?.frequency) pattern.frequency = String(input.frequency).toUpperCase() as RecurrenceFrequency
+  if (input?.interval) pattern.interval = Number(input.interval)
+  if (input?.count) pattern.count = Number(input.count)
+  const until = toDate(input?.until)
+  if (until) pattern.until = until
+  const byWeekday = toNumbers(input?.byWeekday)
+  if (byWeekday) pattern.byWeekday = byWeekday
+  if (Array.isArray(input?.byDay) && input.byDay.length) pattern.byDay = input.byDay.map((d: unknown) => String(d).toUpperCase())
+  for (const key of ['byMonthDay', 'byMonth', 'bySetPos'] as const) {
+    const list = toNumbers(input?.[key])
+    if (list) pattern[key] = list
+  }
+  if (input?.rrule) pattern.rrule = String(input.rrule)
+  if (input?.timeZone) pattern.timeZone = String(input.timeZone)
+  for (const key of ['exdates', 'rdates'] as const) {
+    const list = Array.isArray(input?.[key]) ? input[key].map(toDate).filter((d: Date | undefined): d is Date => !!d) : []
+    if (list.length) pattern[key] = list
+  }
+  return pattern
+}
 
-    if (pattern.frequency === 'DAILY') {
-      current.setDate(current.getDate() + interval)
-    } else if (pattern.frequency === 'WEEKLY') {
-      current.setDate(current.getDate() + 7 * interval)
-    } else {
-      const m = current.getMonth()
-      current.setMonth(m + interval)
-    }
+/** The RRULE a pattern describes; throws when it cannot be expanded */
+export function patternToRule(pattern: RecurringPattern): RecurrenceRule {
+  const zone = pattern.timeZone || 'UTC'
+  if (pattern.rrule) {
+    const rule = parseRecurrenceRule(pattern.rrule, zone, { strict: true })
+    if (!rule) throw new Error(`Unsupported recurrence rule: ${pattern.rrule}`)
+    return rule
   }
+  if (!pattern.frequency) throw new Error('Recurrence needs a frequency or an RRULE')
+  const parts = [`FREQ=${pattern.frequency}`]
+  if (pattern.interval && pattern.interval > 1) parts.push(`INTERVAL=${pattern.interval}`)
+  if (pattern.count) parts.push(`COUNT=${pattern.count}`)
+  const byDay = [...(pattern.byDay ?? []), ...(pattern.byWeekday ?? []).map((n) => SUNDAY_FIRST[n]).filter(Boolean)]
+  if (byDay.length) parts.push(`BYDAY=${Array.from(new Set(byDay)).join(',')}`)
+  if (pattern.byMonthDay?.length) parts.push(`BYMONTHDAY=${pattern.byMonthDay.join(',')}`)
+  if (pattern.byMonth?.length) parts.push(`BYMONTH=${pattern.byMonth.join(',')}`)
+  if (pattern.bySetPos?.length) parts.push(`BYSETPOS=${pattern.bySetPos.join(',')}`)
+  const rule = parseRecurrenceRule(parts.join(';'), zone, { strict: true })
+  if (!rule) throw new Error(`Unsupported recurrence rule: ${parts.join(';')}`)
+  if (pattern.until) rule.until = pattern.until
+  return rule
+}
+
+/** A pattern's RRULE value, for display and for the stored series */
+export function describePattern(pattern: RecurringPattern): string {
+  return formatRecurrenceRule(patternToRule(pattern))
+}
 
-  return out
+/**
+ * Occurrence starts of a series from `start`, with EXDATEs removed and RDATEs
+ * added. Open-ended series stop OPEN_SERIES_MONTHS ahead; `from` skips
+ * earlier occurrences without changing which ones COUNT allows.
+ */
+export function generateOccurrences(start: Date, durationMinutes: number, pattern: RecurringPattern, options: { from?: Date } = {}): Date[] {
+  const rule = patternToRule(pattern)
+  const horizon = new Date(start)
+  horizon.setUTCMonth(horizon.getUTCMonth() + (rule.count || rule.until ? OPEN_SERIES_MONTHS * 10 : OPEN_SERIES_MONTHS))
+  const to = rule.until && rule.until < horizon ? new Date(rule.until.getTime() + 1) : horizon
+  return expandRecurrenceSet(
+    { start, rule, exdates: pattern.exdates, rdates: pattern.rdates, timeZone: pattern.timeZone || 'UTC' },
+    { from: options.from ?? start, to }
+  ).slice(0, MAX_SERIES_OCCURRENCES)
 }
 
 export async function planRecurringBookings(params: {
@@ -58,7 +131,7 @@ export async function planRecurringBookings(params: {
   tenantId?: string | null
   teamMemberId?: string | null
 }) {
-  const { serviceId, durationMinutes, start, pattern, tenantId, teamMemberId } = params
+  const { serviceId, clientId, durationMinutes, start, pattern, tenantId, teamMemberId } = params
   const starts = generateOccurrences(start, durationMinutes, pattern)
 
   const plan: RecurringPlanItem[] = []
@@ -73,6 +146,7 @@ export async function planRecurringBookings(params: {
       excludeBookingId: undefined,
       tenantId: tenantId || null,
       teamMemberId: teamMemberId || null,
+      clientId,
     })
     plan.push({ start: s, end: addMinutes(s, durationMinutes), conflict, reason: details?.reason })
   }
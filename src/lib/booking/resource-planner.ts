@@ -0,0 +1,154 @@
+/**
+ * Resource planner
+ * Decides whether one booking's requirements can all be met at once: units
+ * of a named resource, units of any resource of a type, and team members
+ * with the required skills. Resources host up to their capacity of
+ * concurrent units; a team member takes one booking at a time. Usage is
+ * what other bookings already hold over the same interval.
+ */
+
+export type RequirementKind = 'RESOURCE' | 'RESOURCE_TYPE' | 'STAFF'
+
+export interface ResourceRequirement {
+  id: string
+  kind: RequirementKind
+  resourceId?: string | null
+  resourceType?: string | null
+  skills?: string[]
+  quantity: number
+}
+
+export interface PlannerResource {
+  id: string
+  type: string
+  capacity: number
+}
+
+export interface PlannerStaff {
+  id: string
+  skills: string[]
+}
+
+export interface ResourceUsage {
+  resourceId?: string | null
+  teamMemberId?: string | null
+  units: number
+  start: Date
+  end: Date
+}
+
+export interface PlannedAllocation {
+  requirementId: string
+  resourceId?: string
+  teamMemberId?: string
+  units: number
+}
+
+export interface UnmetRequirement {
+  requirementId: string
+  kind: RequirementKind
+  needed: number
+  free: number
+}
+
+export interface ResourcePlan {
+  ok: boolean
+  allocations: PlannedAllocation[]
+  unmet?: UnmetRequirement
+}
+
+export interface PlanInput {
+  resources: PlannerResource[]
+  staff: PlannerStaff[]
+  usage: ResourceUsage[]
+  start: Date
+  end: Date
+  // Team member the booking is assigned to; used first for staff requirements
+  preferredStaffId?: string | null
+}
+
+const overlaps = (aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) => aStart < bEnd && bStart < aEnd
+
+/** Highest number of units in use at any moment of [start, end) */
+export function peakUsage(usage: ResourceUsage[], start: Date, end: Date): number {
+  const active = usage.filter((u) => overlaps(u.start, u.end, start, end))
+  // Concurrency only rises where an interval starts, so those are the moments to check
+  const moments = [start, ...active.map((u) => u.start).filter((t) => t > start)]
+  let peak = 0
+  for (const t of moments) {
+    const inUse = active.filter((u) => u.start <= t && t < u.end).reduce((sum, u) => sum + u.units, 0)
+    if (inUse > peak) peak = inUse
+  }
+  return peak
+}
+
+const normalizeSkill = (skill: string) => skill.trim().toLowerCase()
+
+function hasSkills(member: PlannerStaff, skills: string[] = []) {
+  const own = new Set(member.skills.map(normalizeSkill))
+  return skills.every((skill) => own.has(normalizeSkill(skill)))
+}
+
+// Named resources first, then pools, then staff with the most skills: the most constrained go first
+const ORDER: Record<RequirementKind, number> = { RESOURCE: 0, RESOURCE_TYPE: 1, STAFF: 2 }
+
+/**
+ * Plan one booking's allocations greedily. Pools are filled best-fit so the
+ * roomiest resources stay free for larger bookings.
+ */
+export function planResources(requirements: ResourceRequirement[], input: PlanInput): ResourcePlan {
+  const { resources, staff, usage, start, end, preferredStaffId } = input
+  const planned = new Map<string, number>()
+  const staffTaken = new Set<string>()
+  const allocations: PlannedAllocation[] = []
+
+  const free = (resource: PlannerResource) =>
+    resource.capacity - peakUsage(usage.filter((u) => u.resourceId === resource.id), start, end) - (planned.get(resource.id) ?? 0)
+  const take = (requirementId: string, resourceId: string, units: number) => {
+    planned.set(resourceId, (planned.get(resourceId) ?? 0) + units)
+    allocations.push({ requirementId, resourceId, units })
+  }
+  const fail = (requirement: ResourceRequirement, available: number): ResourcePlan => ({
+    ok: false,
+    allocations: [],
+    unmet: { requirementId: requirement.id, kind: requirement.kind, needed: requirement.quantity, free: Math.max(0, available) },
+  })
+
+  const ordered = [...requirements].sort(
+    (a, b) => ORDER[a.kind] - ORDER[b.kind] || (b.skills?.length ?? 0) - (a.skills?.length ?? 0)
+  )
+
+  for (const requirement of ordered) {
+    const quantity = Math.max(1, requirement.quantity)
+
+    if (requirement.kind === 'RESOURCE') {
+      const resource = resources.find((r) => r.id === requirement.resourceId)
+      const available = resource ? free(resource) : 0
+      if (!resource || available < quantity) return fail(requirement, available)
+      take(requirement.id, resource.id, quantity)
+      continue
+    }
+
+    if (requirement.kind === 'RESOURCE_TYPE') {
+      const pool = resources
+        .filter((r) => r.type === requirement.resourceType)
+        .map((r) => ({ resource: r, available: free(r) }))
+      const fits = pool.filter((c) => c.available >= quantity).sort((a, b) => a.available - b.available)
+      if (fits.length === 0) return fail(requirement, Math.max(0, ...pool.map((c) => c.available)))
+      take(requirement.id, fits[0].resource.id, quantity)
+      continue
+    }
+
+    const candidates = staff
+      .filter((m) => !staffTaken.has(m.id) && hasSkills(m, requirement.skills))
+      .filter((m) => peakUsage(usage.filter((u) => u.teamMemberId === m.id), start, end) === 0)
+      .sort((a, b) => Number(b.id === preferredStaffId) - Number(a.id === preferredStaffId))
+    if (candidates.length < quantity) return fail(requirement, candidates.length)
+    for (const member of candidates.slice(0, quantity)) {
+      staffTaken.add(member.id)
+      allocations.push({ requirementId: requirement.id, teamMemberId: member.id, units: 1 })
+    }
+  }
+
+  return { ok: true, allocations }
+}
@@ -0,0 +1,352 @@
+/**
+ * Booking Resource Service
+ * Manages bookable resources (rooms, equipment) and what each service needs
+ * of them and of staff, and holds those resources for bookings. A service
+ * with requirements is limited by their capacity instead of by overlap with
+ * its own bookings: two rooms allow two meetings at once, and a room shared
+ * by several services is full for all of them.
+ */
+
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import type { AvailabilitySlot } from './availability'
+import {
+  planResources,
+  type PlannerResource,
+  type PlannerStaff,
+  type RequirementKind,
+  type ResourcePlan,
+  type ResourceRequirement,
+  type ResourceUsage,
+} from './resource-planner'
+
+export const RESOURCE_TYPES = ['ROOM', 'EQUIPMENT', 'VIRTUAL', 'OTHER'] as const
+export type ResourceType = (typeof RESOURCE_TYPES)[number]
+
+export interface BookingResourceInput {
+  name: string
+  type: ResourceType
+  capacity?: number
+  location?: string | null
+  active?: boolean
+}
+
+export interface ResourceRequirementInput {
+  kind: RequirementKind
+  resourceId?: string | null
+  resourceType?: ResourceType | null
+  skills?: string[]
+  quantity?: number
+}
+
+/** Everything needed to plan a service's bookings over a window */
+export interface ResourceContext {
+  requirements: ResourceRequirement[]
+  resources: PlannerResource[]
+  staff: PlannerStaff[]
+  usage: ResourceUsage[]
+}
+
+const ACTIVE_BOOKING_STATUSES = ['PENDING', 'CONFIRMED']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60_000)
+
+export class BookingResourceService {
+  async listResources(tenantId: string, options: { includeInactive?: boolean } = {}) {
+    return prisma.bookingResource.findMany({
+      where: { tenantId, ...(options.includeInactive ? {} : { active: true }) },
+      orderBy: [{ type: 'asc' }, { name: 'asc' }],
+    })
+  }
+
+  async createResource(tenantId: string, input: BookingResourceInput, userId: string | null) {
+    try {
+      const resource = await prisma.bookingResource.create({
+        data: {
+          tenantId,
+          name: input.name.trim(),
+          type: input.type,
+          capacity: input.capacity ?? 1,
+          location: input.location ?? null,
+          active: input.active ?? true,
+          createdBy: userId,
+        },
+      })
+      await logAuditSafe({ action: 'booking-resource:create', tenantId, userId, details: { resourceId: resource.id } }).catch(() => {})
+      return resource
+    } catch (e: any) {
+      if (String(e?.code) === 'P2002') throw new Error('A resource with this name already exists')
+      throw e
+    }
+  }
+
+  async updateResource(tenantId: string, resourceId: string, input: Partial<BookingResourceInput>, userId: string | null) {
+    await this.resource(tenantId, resourceId)
+    if (input.capacity != null) {
+      const needed = await prisma.serviceResourceRequirement.aggregate({ where: { tenantId, resourceId }, _max: { quantity: true } })
+      if ((needed._max.quantity ?? 0) > input.capacity) throw new Error('A service needs more units of this resource than that capacity')
+    }
+    try {
+      const resource = await prisma.bookingResource.update({
+        where: { id: resourceId },
+        data: {
+          ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+          ...(input.type !== undefined ? { type: input.type } : {}),
+          ...(input.capacity !== undefined ? { capacity: input.capacity } : {}),
+          ...(input.location !== undefined ? { location: input.location } : {}),
+          ...(input.active !== undefined ? { active: input.active } : {}),
+        },
+      })
+      await logAuditSafe({ action: 'booking-resource:update', tenantId, userId, details: { resourceId } }).catch(() => {})
+      return resource
+    } catch (e: any) {
+      if (String(e?.code) === 'P2002') throw new Error('A resource with this name already exists')
+      throw e
+    }
+  }
+
+  async deleteResource(tenantId: string, resourceId: string, userId: string | null, now = new Date()) {
+    await this.resource(tenantId, resourceId)
+    const upcoming = await prisma.bookingResourceAllocation.count({
+      where: { tenantId, resourceId, end: { gt: now }, booking: { status: { in: ACTIVE_BOOKING_STATUSES as any } } },
+    })
+    if (upcoming > 0) throw new Error('The resource is held by upcoming bookings; deactivate it instead')
+    await prisma.bookingResource.delete({ where: { id: resourceId } })
+    await logAuditSafe({ action: 'booking-resource:delete', tenantId, userId, details: { resourceId } }).catch(() => {})
+  }
+
+  async getRequirements(tenantId: string, serviceId: string) {
+    await this.service(tenantId, serviceId)
+    return prisma.serviceResourceRequirement.findMany({
+      where: { tenantId, serviceId },
+      include: { resource: { select: { id: true, name: true, type: true, capacity: true } } },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /** Replace a service's requirements; an empty list books it one at a time again */
+  async setRequirements(tenantId: string, serviceId: string, input: ResourceRequirementInput[], userId: string | null) {
+    await this.service(tenantId, serviceId)
+
+    const rows = []
+    for (const requirement of input) {
+      const quantity = requirement.quantity ?? 1
+      if (requirement.kind === 'RESOURCE') {
+        if (!requirement.resourceId) throw new Error('A resource requirement needs a resource')
+        const resource = await this.resource(tenantId, requirement.resourceId)
+        if (resource.capacity < quantity) throw new Error(`${resource.name} cannot host ${quantity} units at once`)
+      }
+      if (requirement.kind === 'RESOURCE_TYPE' && !requirement.resourceType) {
+        throw new Error('A resource type requirement needs a type')
+      }
+      rows.push({
+        tenantId,
+        serviceId,
+        kind: requirement.kind,
+        resourceId: requirement.kind === 'RESOURCE' ? requirement.resourceId : null,
+        resourceType: requirement.kind === 'RESOURCE_TYPE' ? requirement.resourceType : null,
+        skills: requirement.kind === 'STAFF' ? (requirement.skills ?? []).map((s) => s.trim()).filter(Boolean) : [],
+        quantity,
+      })
+    }
+
+    await prisma.$transaction([
+      prisma.serviceResourceRequirement.deleteMany({ where: { tenantId, serviceId } }),
+      prisma.serviceResourceRequirement.createMany({ data: rows }),
+    ])
+    await logAuditSafe({ action: 'service:resource-requirements', tenantId, userId, details: { serviceId, count: rows.length } }).catch(() => {})
+    return this.getRequirements(tenantId, serviceId)
+  }
+
+  /**
+   * Requirements, resources, staff and usage for planning a service's
+   * bookings within [from, to]; null when the service needs no resources.
+   */
+  async context(tenantId: string, serviceId: string, from: Date, to: Date, excludeBookingId?: string | null): Promise<ResourceContext | null> {
+    try {
+      const requirements = await prisma.serviceResourceRequirement.findMany({
+        where: { tenantId, serviceId },
+        select: { id: true, kind: true, resourceId: true, resourceType: true, skills: true, quantity: true },
+      })
+      if (requirements.length === 0) return null
+      const needsStaff = requirements.some((r) => r.kind === 'STAFF')
+      const exclude = excludeBookingId ? { not: excludeBookingId } : undefined
+
+      const [resources, members, allocations] = await Promise.all([
+        prisma.bookingResource.findMany({ where: { tenantId, active: true }, select: { id: true, type: true, capacity: true } }),
+        needsStaff
+          ? prisma.teamMember.findMany({
+              where: { status: 'active', isAvailable: true, OR: [{ userId: null }, { user: { tenantId } }] },
+              select: { id: true, specialties: true },
+            })
+          : Promise.resolve([]),
+        prisma.bookingResourceAllocation.findMany({
+          where: {
+            tenantId,
+            start: { lt: to },
+            end: { gt: from },
+            booking: { status: { in: ACTIVE_BOOKING_STATUSES as any } },
+            ...(exclude ? { bookingId: exclude } : {}),
+          },
+          select: { resourceId: true, teamMemberId: true, units: true, start: true, end: true },
+        }),
+      ])
+
+      const usage: ResourceUsage[] = [...allocations]
+      if (needsStaff && members.length > 0) {
+        const memberIds = members.map((m) => m.id)
+        // Staff are also busy with bookings assigned to them directly and with their external calendars
+        const [assigned, external] = await Promise.all([
+          prisma.booking.findMany({
+            where: {
+              tenantId,
+              status: { in: ACTIVE_BOOKING_STATUSES as any },
+              assignedTeamMemberId: { in: memberIds },
+              scheduledAt: { gte: new Date(from.getTime() - DAY_MS), lt: to },
+              ...(exclude ? { id: exclude } : {}),
+            },
+            select: { assignedTeamMemberId: true, scheduledAt: true, duration: true },
+          }),
+          prisma.calendarBusyInterval.findMany({
+            where: { teamMemberId: { in: memberIds }, start: { lt: to }, end: { gt: from } },
+            select: { teamMemberId: true, start: true, end: true },
+          }),
+        ])
+        for (const b of assigned) {
+          usage.push({ teamMemberId: b.assignedTeamMemberId, units: 1, start: b.scheduledAt, end: addMinutes(b.scheduledAt, b.duration) })
+        }
+        for (const e of external) usage.push({ teamMemberId: e.teamMemberId, units: 1, start: e.start, end: e.end })
+      }
+
+      return {
+        requirements: requirements as ResourceRequirement[],
+        resources,
+        staff: members.map((m) => ({ id: m.id, skills: m.specialties ?? [] })),
+        usage,
+      }
+    } catch (error) {
+      logger.warn('Booking resources could not be loaded', { serviceId, error: String(error) })
+      return null
+    }
+  }
+
+  /** Plan a booking from a loaded context */
+  plan(context: ResourceContext, start: Date, end: Date, teamMemberId?: string | null): ResourcePlan {
+    return planResources(context.requirements, {
+      resources: context.resources,
+      staff: context.staff,
+      usage: context.usage,
+      start,
+      end,
+      preferredStaffId: teamMemberId,
+    })
+  }
+
+  /** Whether a booking would fit; null when the service needs no resources */
+  async check(params: {
+    tenantId: string
+    serviceId: string
+    start: Date
+    durationMinutes: number
+    excludeBookingId?: string | null
+    teamMemberId?: string | null
+  }): Promise<ResourcePlan | null> {
+    const end = addMinutes(params.start, params.durationMinutes)
+    const context = await this.context(params.tenantId, params.serviceId, params.start, end, params.excludeBookingId)
+    return context ? this.plan(context, params.start, end, params.teamMemberId) : null
+  }
+
+  /** Mark slots unavailable where the service's resources cannot all be had */
+  fitSlots(context: ResourceContext, slots: AvailabilitySlot[], teamMemberId?: string | null): AvailabilitySlot[] {
+    return slots.map((slot) =>
+      slot.available && !this.plan(context, new Date(slot.start), new Date(slot.end), teamMemberId).ok ? { ...slot, available: false } : slot
+    )
+  }
+
+  /**
+   * Hold the resources a booking needs, replacing what it held before (after
+   * a reschedule, say). A booking without an assignee gets the first planned
+   * team member. Returns null when the service needs no resources.
+   */
+  async allocate(bookingId: string): Promise<ResourcePlan | null> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: { id: true, tenantId: true, serviceId: true, scheduledAt: true, duration: true, assignedTeamMemberId: true },
+    })
+    if (!booking) throw new Error('Booking not found')
+
+    const end = addMinutes(booking.scheduledAt, booking.duration)
+    const context = await this.context(booking.tenantId, booking.serviceId, booking.scheduledAt, end, booking.id)
+    if (!context) {
+      await prisma.bookingResourceAllocation.deleteMany({ where: { bookingId } })
+      return null
+    }
+
+    const plan = this.plan(context, booking.scheduledAt, end, booking.assignedTeamMemberId)
+    if (!plan.ok) {
+      logger.warn('Booking resources unavailable', { bookingId, unmet: plan.unmet })
+      return plan
+    }
+
+    const firstMember = plan.allocations.find((a) => a.teamMemberId)?.teamMemberId
+    await prisma.$transaction([
+      prisma.bookingResourceAllocation.deleteMany({ where: { bookingId } }),
+      prisma.bookingResourceAllocation.createMany({
+        data: plan.allocations.map((a) => ({
+          tenantId: booking.tenantId,
+          bookingId,
+          resourceId: a.resourceId ?? null,
+          teamMemberId: a.teamMemberId ?? null,
+          units: a.units,
+          start: booking.scheduledAt,
+          end,
+        })),
+      }),
+      ...(!booking.assignedTeamMemberId && firstMember
+        ? [prisma.booking.update({ where: { id: bookingId }, data: { assignedTeamMemberId: firstMember } })]
+        : []),
+    ])
+    return plan
+  }
+
+  /** Allocate without failing the booking flow that called it */
+  async allocateSafe(bookingId: string) {
+    try {
+      return await this.allocate(bookingId)
+    } catch (error) {
+      logger.error('Booking resource allocation failed', { bookingId, error: String(error) })
+      return null
+    }
+  }
+
+  private async service(tenantId: string, serviceId: string) {
+    const service = await prisma.service.findFirst({ where: { id: serviceId, tenantId }, select: { id: true } })
+    if (!service) throw new Error('Service not found')
+    return service
+  }
+
+  private async resource(tenantId: string, resourceId: string) {
+    const resource = await prisma.bookingResource.findFirst({ where: { id: resourceId, tenantId } })
+    if (!resource) throw new Error('Resource not found')
+    return resource
+  }
+}
+
+export const bookingResourceService = new BookingResourceService()
+
+/** HTTP status for a booking resource error, or null when it is unexpected */
+export function bookingResourceErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Service not found' || message === 'Resource not found' || message === 'Booking not found') return 404
+  if (message === 'A resource with this name already exists' || message.startsWith('The resource is held by')) return 409
+  if (
+    message.startsWith('A resource requirement') ||
+    message.startsWith('A resource type requirement') ||
+    message.startsWith('A service needs more units') ||
+    message.endsWith('units at once')
+  ) return 400
+  return null
+}
@@ -0,0 +1,40 @@
+/**
+ * Waitlist holds
+ * A slot offered to a waitlisted client is held for them until the offer
+ * expires: availability and conflict checks treat it as busy for everyone
+ * else. Kept apart from the waitlist service so those checks can read holds
+ * without importing the booking flows.
+ */
+
+import prisma from '@/lib/prisma'
+import type { BusyInterval } from './availability'
+
+export type WaitlistHold = BusyInterval & { offerId: string; clientId: string }
+
+/** Live holds on a service that start within [from, to], except those held for exceptClientId */
+export async function waitlistHolds(params: {
+  serviceId: string
+  from: Date
+  to: Date
+  exceptClientId?: string | null
+  now?: Date
+}): Promise<WaitlistHold[]> {
+  const { serviceId, from, to, exceptClientId } = params
+  const now = params.now ?? new Date()
+  try {
+    const offers = await prisma.bookingWaitlistOffer.findMany({
+      where: {
+        serviceId,
+        status: 'OFFERED',
+        expiresAt: { gt: now },
+        start: { gte: from, lte: to },
+        ...(exceptClientId ? { clientId: { not: exceptClientId } } : {}),
+      },
+      select: { id: true, clientId: true, start: true, durationMinutes: true },
+    })
+    return offers.map((o) => ({ offerId: o.id, clientId: o.clientId, start: o.start, end: new Date(o.start.getTime() + o.durationMinutes * 60_000) }))
+  } catch {
+    // Holds only narrow availability; never fail a booking flow because they cannot be read
+    return []
+  }
+}
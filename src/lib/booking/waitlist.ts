@@ -0,0 +1,457 @@
+/**
+ * Booking Waitlist Service
+ * Clients wait for a slot of a service within a date range. When a booking
+ * is cancelled or moved away, or staff add availability, the free slot is
+ * offered to the longest waiting client whose range covers it and held for
+ * them for the tenant's hold time. A declined or expired offer cascades to
+ * the next client in line; an accepted one becomes a pending booking.
+ */
+
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { NotificationHub } from '@/lib/notifications/hub'
+import { realtimeService } from '@/lib/realtime-enhanced'
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { checkBookingConflict } from './conflict-detection'
+import { bookingResourceService } from './resources'
+
+export interface WaitlistInput {
+  serviceId: string
+  earliestAt: Date
+  latestAt: Date
+  notes?: string | null
+}
+
+export type WaitlistOfferSource = 'CANCELLATION' | 'NEW_AVAILABILITY' | 'CASCADE'
+
+export interface WaitlistOfferSlot {
+  start: Date
+  durationMinutes?: number
+  teamMemberId?: string | null
+}
+
+export interface WaitlistHoldRunResult {
+  expired: number
+  cascaded: number
+  closed: number
+}
+
+export interface WaitlistServiceDemand {
+  serviceId: string
+  serviceName: string
+  waiting: number
+  offered: number
+  accepted: number
+  declined: number
+  expired: number
+  // Share of resolved offers that were accepted
+  conversionRate: number | null
+  // Waiting clients whose range covers each day (yyyy-mm-dd)
+  byDay: Record<string, number>
+}
+
+// Clients can join the waitlist at most this far ahead
+const MAX_RANGE_DAYS = 180
+const DEFAULT_HOLD_MINUTES = 120
+// Offers made for one newly added availability window
+const MAX_OFFERS_PER_WINDOW = 24
+// Demand reports cover at most this many days
+const MAX_DEMAND_DAYS = 92
+const EXPIRE_BATCH = 200
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const ymd = (d: Date) => d.toISOString().slice(0, 10)
+
+export class BookingWaitlistService {
+  async list(tenantId: string, clientId: string) {
+    return prisma.bookingWaitlistEntry.findMany({
+      where: { tenantId, clientId, status: { in: ['WAITING', 'OFFERED'] } },
+      include: {
+        service: { select: { id: true, name: true, slug: true } },
+        offers: { where: { status: 'OFFERED' }, orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+      orderBy: { earliestAt: 'asc' },
+    })
+  }
+
+  async join(tenantId: string, clientId: string, input: WaitlistInput, now = new Date()) {
+    if (input.latestAt <= input.earliestAt) throw new Error('The waitlist range must end after it starts')
+    if (input.latestAt <= now) throw new Error('The waitlist range is in the past')
+    if (input.latestAt.getTime() - now.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new Error(`The waitlist range can reach at most ${MAX_RANGE_DAYS} days ahead`)
+    }
+    const service = await prisma.service.findFirst({ where: { id: input.serviceId, tenantId }, select: { id: true, bookingEnabled: true } })
+    if (!service || !service.bookingEnabled) throw new Error('Service not found')
+    const settings = await prisma.bookingSettings.findUnique({ where: { tenantId }, select: { enableWaitlist: true } })
+    if (settings && !settings.enableWaitlist) throw new Error('The waitlist is not enabled')
+
+    return prisma.bookingWaitlistEntry.create({
+      data: {
+        tenantId,
+        serviceId: service.id,
+        clientId,
+        earliestAt: input.earliestAt < now ? now : input.earliestAt,
+        latestAt: input.latestAt,
+        notes: input.notes ?? null,
+      },
+    })
+  }
+
+  /** Leave the waitlist; a slot currently held for the client goes to the next in line */
+  async leave(tenantId: string, clientId: string, id: string, now = new Date()) {
+    const entry = await prisma.bookingWaitlistEntry.findFirst({ where: { id, tenantId, clientId } })
+    if (!entry) throw new Error('Waitlist entry not found')
+    const updated = await prisma.bookingWaitlistEntry.update({ where: { id }, data: { status: 'CANCELLED' } })
+    const live = await prisma.bookingWaitlistOffer.findFirst({ where: { entryId: id, status: 'OFFERED' } })
+    if (live) {
+      const { count } = await prisma.bookingWaitlistOffer.updateMany({ where: { id: live.id, status: 'OFFERED' }, data: { status: 'WITHDRAWN', respondedAt: now } })
+      if (count) await this.cascade(live, now)
+    }
+    return updated
+  }
+
+  /**
+   * Offer a slot to the first client waiting for it and hold it for them.
+   * Clients who already let this slot go are skipped. Returns the offer, or
+   * null when the slot is taken, already held, or nobody is waiting.
+   */
+  async offerSlot(tenantId: string, serviceId: string, slot: WaitlistOfferSlot, source: WaitlistOfferSource, now = new Date()) {
+    const { start } = slot
+    if (start <= now) return null
+    const live = await prisma.bookingWaitlistOffer.findFirst({ where: { serviceId, start, status: 'OFFERED', expiresAt: { gt: now } }, select: { id: true } })
+    if (live) return null
+
+    const service = await prisma.service.findFirst({ where: { id: serviceId, tenantId }, select: { name: true, duration: true, bookingEnabled: true } })
+    if (!service || !service.bookingEnabled) return null
+    const durationMinutes = slot.durationMinutes ?? service.duration ?? 60
+
+    const entry = await prisma.bookingWaitlistEntry.findFirst({
+      where: {
+        tenantId,
+        serviceId,
+        status: 'WAITING',
+        earliestAt: { lte: start },
+        latestAt: { gte: start },
+        offers: { none: { start } },
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+    if (!entry) return null
+
+    const check = await checkBookingConflict({ serviceId, start, durationMinutes, teamMemberId: slot.teamMemberId ?? null, tenantId, clientId: entry.clientId })
+    if (check.conflict) return null
+
+    // Only one caller wins the entry when two slots free up at once
+    const claimed = await prisma.bookingWaitlistEntry.updateMany({
+      where: { id: entry.id, status: 'WAITING' },
+      data: { status: 'OFFERED', offeredStart: start, offeredAt: now },
+    })
+    if (claimed.count === 0) return null
+
+    const holdMinutes = await this.holdMinutes(tenantId)
+    const holdEnd = new Date(now.getTime() + holdMinutes * 60_000)
+    const offer = await prisma.bookingWaitlistOffer.create({
+      data: {
+        tenantId,
+        entryId: entry.id,
+        serviceId,
+        clientId: entry.clientId,
+        start,
+        durationMinutes,
+        teamMemberId: slot.teamMemberId ?? null,
+        source,
+        expiresAt: holdEnd < start ? holdEnd : start,
+      },
+    })
+
+    await this.notify(offer, {
+      type: 'waitlist_offer',
+      title: `A slot opened up: ${service.name}`,
+      message: `A ${service.name} slot on ${start.toUTCString()} is held for you until ${offer.expiresAt.toUTCString()}. Accept it from your portal to book it.`,
+      priority: 'high',
+      channels: ['in_app', 'email'],
+    })
+    try { realtimeService.emitAvailabilityUpdate(serviceId, { date: ymd(start) }) } catch {}
+    return offer
+  }
+
+  /** A booking was cancelled or moved away from start */
+  async offerFreedSlot(tenantId: string, serviceId: string, start: Date, now = new Date()) {
+    return this.offerSlot(tenantId, serviceId, { start }, 'CANCELLATION', now)
+  }
+
+  /** offerFreedSlot for booking flows: never fails the cancellation that freed the slot */
+  async offerFreedSlotSafe(tenantId: string, serviceId: string, start: Date) {
+    try {
+      return await this.offerFreedSlot(tenantId, serviceId, start)
+    } catch (error) {
+      logger.error('Waitlist offer failed', { serviceId, start: start.toISOString(), error: String(error) })
+      return null
+    }
+  }
+
+  /**
+   * Staff opened an availability window: offer each service-length slot in
+   * it to the waitlist, in order, until nobody is left waiting.
+   */
+  async offerNewAvailability(
+    tenantId: string,
+    window: { serviceId: string; date: Date; startTime: string; endTime: string; teamMemberId?: string | null; available?: boolean },
+    now = new Date()
+  ) {
+    if (window.available === false) return []
+    const service = await prisma.service.findFirst({ where: { id: window.serviceId, tenantId }, select: { duration: true } })
+    if (!service) return []
+    const duration = service.duration ?? 60
+
+    // Same local-time reading of date + HH:mm as the availability engine
+    const at = (time: string) => {
+      const [h, m] = time.split(':').map((n) => parseInt(n || '0', 10))
+      const d = new Date(window.date)
+      d.setHours(h, m, 0, 0)
+      return d
+    }
+    const end = at(window.endTime)
+    const offers = []
+    for (let start = at(window.startTime); start.getTime() + duration * 60_000 <= end.getTime() && offers.length < MAX_OFFERS_PER_WINDOW; start = new Date(start.getTime() + duration * 60_000)) {
+      const offer = await this.offerSlot(tenantId, window.serviceId, { start, durationMinutes: duration, teamMemberId: window.teamMemberId }, 'NEW_AVAILABILITY', now)
+      if (offer) offers.push(offer)
+      else if (!(await this.hasWaiting(tenantId, window.serviceId, start, end))) break
+    }
+    return offers
+  }
+
+  /** offerNewAvailability for the availability routes: never fails saving the window */
+  async offerNewAvailabilitySafe(tenantId: string, window: Parameters<BookingWaitlistService['offerNewAvailability']>[1]) {
+    try {
+      return await this.offerNewAvailability(tenantId, window)
+    } catch (error) {
+      logger.error('Waitlist offers for new availability failed', { serviceId: window.serviceId, error: String(error) })
+      return []
+    }
+  }
+
+  /** Book the held slot for the client */
+  async accept(tenantId: string, clientId: string, offerId: string, now = new Date()) {
+    const offer = await this.liveOffer(tenantId, clientId, offerId, now)
+    const [service, client] = await Promise.all([
+      prisma.service.findFirst({ where: { id: offer.serviceId, tenantId }, select: { id: true, name: true, price: true } }),
+      prisma.user.findUnique({ where: { id: clientId }, select: { name: true, email: true } }),
+    ])
+    if (!service || !client) throw new Error('Waitlist offer not found')
+
+    // The slot is re-checked and taken in one transaction, with the service row locked so
+    // concurrent accepts of its slots run one after another
+    const booking = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "services" WHERE id = ${offer.serviceId} FOR UPDATE`
+      const check = await checkBookingConflict({
+        serviceId: offer.serviceId,
+        start: offer.start,
+        durationMinutes: offer.durationMinutes,
+        teamMemberId: offer.teamMemberId,
+        tenantId,
+        clientId,
+        db: tx,
+      })
+      if (check.conflict) return null
+
+      const claimed = await tx.bookingWaitlistOffer.updateMany({ where: { id: offer.id, status: 'OFFERED' }, data: { status: 'ACCEPTED', respondedAt: now } })
+      if (claimed.count === 0) throw new Error('This offer is no longer open')
+
+      const created = await tx.booking.create({
+        data: {
+          tenantId,
+          serviceId: offer.serviceId,
+          clientId,
+          scheduledAt: offer.start,
+          duration: offer.durationMinutes,
+          status: 'PENDING',
+          clientName: client.name || client.email,
+          clientEmail: client.email,
+          assignedTeamMemberId: offer.teamMemberId ?? undefined,
+          amount: service.price ?? undefined,
+          createdById: clientId,
+        },
+      })
+      await tx.bookingWaitlistOffer.update({ where: { id: offer.id }, data: { bookingId: created.id } })
+      await tx.bookingWaitlistEntry.update({ where: { id: offer.entryId }, data: { status: 'BOOKED', bookingId: created.id } })
+      return created
+    })
+    if (!booking) {
+      await prisma.bookingWaitlistOffer.updateMany({ where: { id: offer.id, status: 'OFFERED' }, data: { status: 'WITHDRAWN', respondedAt: now } })
+      await prisma.bookingWaitlistEntry.updateMany({ where: { id: offer.entryId, status: 'OFFERED' }, data: { status: 'WAITING' } })
+      throw new Error('The offered slot is no longer available')
+    }
+
+    await bookingResourceService.allocateSafe(booking.id)
+    await calendarSyncService.syncBookingSafe(booking.id)
+    try { realtimeService.emitAvailabilityUpdate(offer.serviceId, { date: ymd(offer.start) }) } catch {}
+    return booking
+  }
+
+  /** Let the held slot go to the next client; the client keeps waiting for another */
+  async decline(tenantId: string, clientId: string, offerId: string, now = new Date()) {
+    const offer = await this.liveOffer(tenantId, clientId, offerId, now)
+    const { count } = await prisma.bookingWaitlistOffer.updateMany({ where: { id: offer.id, status: 'OFFERED' }, data: { status: 'DECLINED', respondedAt: now } })
+    if (count === 0) throw new Error('This offer is no longer open')
+    await prisma.bookingWaitlistEntry.updateMany({ where: { id: offer.entryId, status: 'OFFERED' }, data: { status: 'WAITING' } })
+    return { declined: true, next: await this.cascade(offer, now) }
+  }
+
+  /**
+   * Expire holds that ran out and pass each slot to the next client in
+   * line. Entries whose range has passed are closed.
+   */
+  async expireHolds(now = new Date()): Promise<WaitlistHoldRunResult> {
+    const result: WaitlistHoldRunResult = { expired: 0, cascaded: 0, closed: 0 }
+    const due = await prisma.bookingWaitlistOffer.findMany({
+      where: { status: 'OFFERED', expiresAt: { lte: now } },
+      orderBy: { expiresAt: 'asc' },
+      take: EXPIRE_BATCH,
+    })
+    for (const offer of due) {
+      try {
+        const { count } = await prisma.bookingWaitlistOffer.updateMany({ where: { id: offer.id, status: 'OFFERED' }, data: { status: 'EXPIRED' } })
+        if (!count) continue
+        result.expired++
+        await prisma.bookingWaitlistEntry.updateMany({ where: { id: offer.entryId, status: 'OFFERED' }, data: { status: 'WAITING' } })
+        await this.notify(offer, {
+          type: 'waitlist_offer_expired',
+          title: 'Your held slot was released',
+          message: `The slot on ${offer.start.toUTCString()} was not booked in time and has been offered to the next client. You stay on the waitlist.`,
+          priority: 'normal',
+          channels: ['in_app'],
+        })
+        if (await this.cascade(offer, now)) result.cascaded++
+      } catch (error) {
+        logger.error('Waitlist hold expiry failed', { offerId: offer.id, error: String(error) })
+      }
+    }
+
+    const closed = await prisma.bookingWaitlistEntry.updateMany({ where: { status: 'WAITING', latestAt: { lt: now } }, data: { status: 'EXPIRED' } })
+    result.closed = closed.count
+    return result
+  }
+
+  /** Waitlist demand per service over a window, for staffing */
+  async demand(tenantId: string, window: { from: Date; to: Date }): Promise<WaitlistServiceDemand[]> {
+    const { from, to } = window
+    if (to <= from) throw new Error('The demand window must end after it starts')
+    if (to.getTime() - from.getTime() > MAX_DEMAND_DAYS * DAY_MS) throw new Error(`The demand window can span at most ${MAX_DEMAND_DAYS} days`)
+
+    const [entries, offers] = await Promise.all([
+      prisma.bookingWaitlistEntry.findMany({
+        where: { tenantId, status: { in: ['WAITING', 'OFFERED'] }, earliestAt: { lte: to }, latestAt: { gte: from } },
+        select: { serviceId: true, earliestAt: true, latestAt: true, service: { select: { name: true } } },
+      }),
+      prisma.bookingWaitlistOffer.findMany({
+        where: { tenantId, createdAt: { gte: from, lte: to } },
+        select: { serviceId: true, status: true, service: { select: { name: true } } },
+      }),
+    ])
+
+    const byService = new Map<string, WaitlistServiceDemand>()
+    const row = (serviceId: string, serviceName: string) => {
+      let r = byService.get(serviceId)
+      if (!r) {
+        r = { serviceId, serviceName, waiting: 0, offered: 0, accepted: 0, declined: 0, expired: 0, conversionRate: null, byDay: {} }
+        byService.set(serviceId, r)
+      }
+      return r
+    }
+
+    for (const e of entries) {
+      const r = row(e.serviceId, e.service.name)
+      r.waiting++
+      const first = Math.max(e.earliestAt.getTime(), from.getTime())
+      const last = Math.min(e.latestAt.getTime(), to.getTime())
+      for (let day = Date.UTC(new Date(first).getUTCFullYear(), new Date(first).getUTCMonth(), new Date(first).getUTCDate()); day <= last; day += DAY_MS) {
+        const key = ymd(new Date(day))
+        r.byDay[key] = (r.byDay[key] ?? 0) + 1
+      }
+    }
+    for (const o of offers) {
+      const r = row(o.serviceId, o.service.name)
+      r.offered++
+      if (o.status === 'ACCEPTED') r.accepted++
+      else if (o.status === 'DECLINED') r.declined++
+      else if (o.status === 'EXPIRED') r.expired++
+    }
+    for (const r of Array.from(byService.values())) {
+      const resolved = r.accepted + r.declined + r.expired
+      r.conversionRate = resolved ? Math.round((r.accepted / resolved) * 1000) / 1000 : null
+    }
+    return Array.from(byService.values()).sort((a, b) => b.waiting - a.waiting || a.serviceName.localeCompare(b.serviceName))
+  }
+
+  private async liveOffer(tenantId: string, clientId: string, offerId: string, now: Date) {
+    const offer = await prisma.bookingWaitlistOffer.findFirst({ where: { id: offerId, tenantId, clientId } })
+    if (!offer) throw new Error('Waitlist offer not found')
+    if (offer.status !== 'OFFERED') throw new Error('This offer is no longer open')
+    if (offer.expiresAt <= now) throw new Error('This offer has expired')
+    return offer
+  }
+
+  /** Offer a slot someone let go to the next client in line */
+  private async cascade(offer: { tenantId: string; serviceId: string; start: Date; durationMinutes: number; teamMemberId: string | null }, now: Date) {
+    try {
+      return await this.offerSlot(offer.tenantId, offer.serviceId, { start: offer.start, durationMinutes: offer.durationMinutes, teamMemberId: offer.teamMemberId }, 'CASCADE', now)
+    } catch (error) {
+      logger.error('Waitlist cascade failed', { serviceId: offer.serviceId, start: offer.start.toISOString(), error: String(error) })
+      return null
+    }
+  }
+
+  private async hasWaiting(tenantId: string, serviceId: string, from: Date, to: Date) {
+    const count = await prisma.bookingWaitlistEntry.count({ where: { tenantId, serviceId, status: 'WAITING', earliestAt: { lte: to }, latestAt: { gte: from } } })
+    return count > 0
+  }
+
+  private async holdMinutes(tenantId: string) {
+    const settings = await prisma.bookingSettings.findUnique({ where: { tenantId }, select: { waitlistHoldMinutes: true } })
+    return settings?.waitlistHoldMinutes && settings.waitlistHoldMinutes > 0 ? settings.waitlistHoldMinutes : DEFAULT_HOLD_MINUTES
+  }
+
+  private async notify(
+    offer: { id: string; tenantId: string; clientId: string; serviceId: string; start: Date; expiresAt: Date },
+    content: { type: 'waitlist_offer' | 'waitlist_offer_expired'; title: string; message: string; priority: 'normal' | 'high'; channels: ('in_app' | 'email')[] }
+  ) {
+    try {
+      await NotificationHub.send({
+        userId: offer.clientId,
+        tenantId: offer.tenantId,
+        type: content.type,
+        title: content.title,
+        message: content.message,
+        link: '/portal/bookings',
+        entityType: 'booking_waitlist_offer',
+        entityId: offer.id,
+        channels: content.channels,
+        priority: content.priority,
+        metadata: { serviceId: offer.serviceId, start: offer.start.toISOString(), expiresAt: offer.expiresAt.toISOString() },
+      })
+    } catch (error) {
+      logger.warn('Waitlist notification failed', { offerId: offer.id, error: String(error) })
+    }
+    try {
+      realtimeService.broadcastToUser(offer.clientId, {
+        type: content.type === 'waitlist_offer' ? 'waitlist-offer' : 'waitlist-offer-expired',
+        data: { offerId: offer.id, serviceId: offer.serviceId, start: offer.start.toISOString(), expiresAt: offer.expiresAt.toISOString() },
+        timestamp: new Date().toISOString(),
+      })
+    } catch {}
+  }
+}
+
+export const bookingWaitlistService = new BookingWaitlistService()
+
+/** HTTP status for a waitlist error, or null when it is unexpected */
+export function waitlistErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Service not found' || message === 'Waitlist entry not found' || message === 'Waitlist offer not found') return 404
+  if (message === 'The waitlist is not enabled') return 403
+  if (message === 'This offer has expired' || message === 'This offer is no longer open' || message === 'The offered slot is no longer available') return 409
+  if (message.startsWith('The waitlist range') || message.startsWith('The demand window')) return 400
+  return null
+}
@@ -0,0 +1,207 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { buildCalendar, bookingEventUid, busyIntervals, parseIcs } from '../ics'
+import { HttpCalDavClient, fetchIcsSubscription, publicFetch } from '../caldav'
+import { MockCalDavServer } from '../caldav-mock'
+import { publicLookup } from '@/lib/security/outbound-url'
+
+const ics = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+
+describe('parseIcs', () => {
+  it('reads zoned, UTC, all-day and folded events', () => {
+    const events = parseIcs(ics(
+      'BEGIN:VEVENT',
+      'UID:zoned',
+      'DTSTART;TZID=Asia/Dubai:20250310T090000',
+      'DURATION:PT1H30M',
+      'SUMMARY:Board meeting\\, Q1',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:all-day',
+      'DTSTART;VALUE=DATE:20250311',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:fol',
+      ' ded',
+      'DTSTART:20250312T080000Z',
+      'DTEND:20250312T083000Z',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+    ))
+    expect(events.map((e) => [e.uid, e.start.toISOString(), e.end.toISOString()])).toEqual([
+      ['zoned', '2025-03-10T05:00:00.000Z', '2025-03-10T06:30:00.000Z'],
+      ['all-day', '2025-03-11T00:00:00.000Z', '2025-03-12T00:00:00.000Z'],
+      ['folded', '2025-03-12T08:00:00.000Z', '2025-03-12T08:30:00.000Z'],
+    ])
+    expect(events[0]).toMatchObject({ summary: 'Board meeting, Q1', timeZone: 'Asia/Dubai' })
+    expect(events[1]).toMatchObject({ allDay: true, transparent: true })
+    expect(events[2].status).toBe('CANCELLED')
+  })
+})
+
+describe('busyIntervals', () => {
+  const from = new Date('2025-03-01T00:00:00Z')
+  const to = new Date('2025-04-01T00:00:00Z')
+
+  it('skips free and cancelled events', () => {
+    const events = parseIcs(ics(
+      'BEGIN:VEVENT', 'UID:a', 'DTSTART:20250305T100000Z', 'DTEND:20250305T110000Z', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:b', 'DTSTART:20250305T120000Z', 'DTEND:20250305T130000Z', 'TRANSP:TRANSPARENT', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:c', 'DTSTART:20250305T140000Z', 'DTEND:20250305T150000Z', 'STATUS:CANCELLED', 'END:VEVENT',
+    ))
+    expect(busyIntervals(events, from, to).map((b) => b.uid)).toEqual(['a'])
+  })
+
+  it('expands weekly rules in the event zone across a DST change, with exceptions and overrides', () => {
+    const events = parseIcs(ics(
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'DTSTART;TZID=Europe/London:20250317T090000',
+      'DTEND;TZID=Europe/London:20250317T093000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5',
+      'EXDATE;TZID=Europe/London:20250319T090000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'RECURRENCE-ID;TZID=Europe/London:20250324T090000',
+      'DTSTART;TZID=Europe/London:20250324T110000',
+      'DTEND;TZID=Europe/London:20250324T113000',
+      'END:VEVENT',
+    ))
+    expect(busyIntervals(events, from, to).map((b) => b.start.toISOString())).toEqual([
+      '2025-03-17T09:00:00.000Z',
+      '2025-03-24T11:00:00.000Z',
+      '2025-03-26T09:00:00.000Z',
+      // Clocks go forward on 30 March; the meeting stays at 09:00 London time
+      '2025-03-31T08:00:00.000Z',
+    ])
+  })
+
+  it('expands monthly ordinal weekdays and daily rules until a date', () => {
+    const events = parseIcs(ics(
+      'BEGIN:VEVENT', 'UID:review', 'DTSTART:20250103T150000Z', 'DTEND:20250103T160000Z', 'RRULE:FREQ=MONTHLY;BYDAY=-1FR', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:gym', 'DTSTART:20250329T060000Z', 'DTEND:20250329T070000Z', 'RRULE:FREQ=DAILY;INTERVAL=2;UNTIL=20250402T000000Z', 'END:VEVENT',
+    ))
+    expect(busyIntervals(events, from, to).map((b) => `${b.uid} ${b.start.toISOString().slice(0, 10)}`)).toEqual([
+      'review 2025-03-28',
+      'gym 2025-03-29',
+      'gym 2025-03-31',
+    ])
+  })
+})
+
+describe('buildCalendar', () => {
+  it('escapes text, folds long lines and round-trips', () => {
+    const content = buildCalendar([{
+      uid: bookingEventUid('bk1'),
+      start: new Date('2025-03-05T10:00:00Z'),
+      end: new Date('2025-03-05T11:00:00Z'),
+      summary: 'Tax consultation: Smith; Jones, and a rather long client name that needs folding',
+      status: 'CONFIRMED',
+      sequence: 2,
+    }], { now: new Date('2025-03-01T00:00:00Z') })
+    expect(content.split('\r\n').every((line) => Buffer.byteLength(line) <= 75)).toBe(true)
+    const [event] = parseIcs(content)
+    expect(event).toMatchObject({ uid: 'booking-bk1@accountingfirm.com', sequence: 2, summary: 'Tax consultation: Smith; Jones, and a rather long client name that needs folding' })
+  })
+})
+
+describe('HttpCalDavClient against the local CalDAV server', () => {
+  const event = (uid: string, start: string, end: string) =>
+    ics('BEGIN:VEVENT', `UID:${uid}`, `DTSTART:${start}`, `DTEND:${end}`, 'END:VEVENT')
+
+  it('checks the collection and authenticates', async () => {
+    const server = new MockCalDavServer({ username: 'advisor', password: 'secret' })
+    const url = server.createCalendar('/advisor/work/', 'Work')
+    await expect(new HttpCalDavClient({ url, username: 'advisor', password: 'secret' }, server.fetch).checkCollection()).resolves.toEqual({ displayName: 'Work' })
+    await expect(new HttpCalDavClient({ url, username: 'advisor', password: 'wrong' }, server.fetch).checkCollection()).rejects.toThrow(
+      'CalDAV connection check failed (401): check the username and password'
+    )
+  })
+
+  it('lists events in a time range', async () => {
+    const server = new MockCalDavServer()
+    const url = server.createCalendar('/advisor/work/')
+    server.putRaw(url, 'a.ics', event('a', '20250305T100000Z', '20250305T110000Z'))
+    server.putRaw(url, 'b.ics', event('b', '20250405T100000Z', '20250405T110000Z'))
+    const client = new HttpCalDavClient({ url }, server.fetch)
+    const events = await client.listEvents(new Date('2025-03-01T00:00:00Z'), new Date('2025-04-01T00:00:00Z'))
+    expect(events.map((e) => e.href)).toEqual(['/advisor/work/a.ics'])
+    expect(parseIcs(events[0].ics)[0].uid).toBe('a')
+  })
+
+  it('creates, updates with ETags and deletes events', async () => {
+    const server = new MockCalDavServer()
+    const url = server.createCalendar('/advisor/work/')
+    const client = new HttpCalDavClient({ url }, server.fetch)
+    const href = client.eventHref(bookingEventUid('bk1'))
+    expect(href).toBe('/advisor/work/booking-bk1%40accountingfirm.com.ics')
+
+    const created = await client.putEvent(href, event('booking-bk1@accountingfirm.com', '20250305T100000Z', '20250305T110000Z'), { etag: null })
+    await expect(client.putEvent(href, event('x', '20250305T100000Z', '20250305T110000Z'), { etag: null })).rejects.toThrow('(412)')
+
+    // Changed by someone else since we wrote it
+    server.putRaw(url, 'booking-bk1@accountingfirm.com.ics', event('booking-bk1@accountingfirm.com', '20250305T120000Z', '20250305T130000Z'))
+    await expect(client.putEvent(href, event('booking-bk1@accountingfirm.com', '20250306T100000Z', '20250306T110000Z'), { etag: created.etag })).rejects.toThrow('(412)')
+    const overwritten = await client.putEvent(href, event('booking-bk1@accountingfirm.com', '20250306T100000Z', '20250306T110000Z'), { etag: null, overwrite: true })
+    expect(overwritten.etag).not.toBe(created.etag)
+
+    await client.deleteEvent(href)
+    await client.deleteEvent(href) // Already gone is fine
+    expect(server.events(url).size).toBe(0)
+  })
+
+  it('downloads a collection as an ICS subscription over webcal', async () => {
+    const server = new MockCalDavServer()
+    const url = server.createCalendar('/shared/holidays/')
+    server.putRaw(url, 'eid.ics', event('eid', '20250330T000000Z', '20250402T000000Z'))
+    const body = await fetchIcsSubscription({ url: url.replace(/^http:/, 'webcal:') }, (u, init) => server.fetch(u.replace(/^https:/, 'http:'), init))
+    expect(parseIcs(body).map((e) => e.uid)).toEqual(['eid'])
+  })
+
+  it('refuses an ICS subscription over the size limit', async () => {
+    const huge = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(1024 * 1024).fill(65))
+      },
+    })
+    await expect(fetchIcsSubscription({ url: 'https://example.com/feed.ics' }, async () => new Response(huge)))
+      .rejects.toThrow('larger than 10 MB')
+  })
+})
+
+describe('publicFetch', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('refuses loopback, private and metadata addresses', async () => {
+    for (const url of ['http://localhost:8080/', 'http://127.0.0.1/', 'http://10.1.2.3/', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/', 'http://[::ffff:127.0.0.1]/', 'http://[64:ff9b::a9fe:a9fe]/', 'http://198.18.0.1/']) {
+      await expect(publicFetch(url)).rejects.toThrow('private network address')
+    }
+  })
+
+  it('refuses to connect when the host resolves to a private address', async () => {
+    const error = await new Promise((resolve) => publicLookup('localhost', { all: true }, (err) => resolve(err)))
+    expect(error).toMatchObject({ message: 'URL points to a private network address' })
+  })
+
+  it('checks every redirect hop and drops credentials across origins', async () => {
+    const seen: Array<{ url: string; auth: string | null }> = []
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      seen.push({ url, auth: new Headers(init.headers).get('Authorization') })
+      if (url === 'https://93.184.216.34/cal') return new Response(null, { status: 302, headers: { Location: 'https://203.0.113.10/cal' } })
+      if (url === 'https://203.0.113.10/cal') return new Response(null, { status: 301, headers: { Location: 'http://192.168.1.1/admin' } })
+      return new Response('reached')
+    })
+
+    await expect(publicFetch('https://93.184.216.34/cal', { headers: { Authorization: 'Basic abc' } })).rejects.toThrow('private network address')
+    expect(seen).toEqual([
+      { url: 'https://93.184.216.34/cal', auth: 'Basic abc' },
+      { url: 'https://203.0.113.10/cal', auth: null },
+    ])
+  })
+})
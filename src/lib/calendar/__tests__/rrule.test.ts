@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { expandRecurrence, expandRecurrenceSet, formatRecurrenceRule, parseRecurrenceRule } from '../rrule'
+
+const from = new Date('2025-01-01T00:00:00Z')
+const to = new Date('2027-01-01T00:00:00Z')
+
+const days = (dates: Date[]) => dates.map((d) => d.toISOString().slice(0, 10))
+
+const expand = (start: string, rrule: string, timeZone = 'UTC') =>
+  expandRecurrence(new Date(start), parseRecurrenceRule(rrule, timeZone)!, { from, to, timeZone })
+
+describe('parseRecurrenceRule', () => {
+  it('round-trips through formatRecurrenceRule', () => {
+    const rule = parseRecurrenceRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;UNTIL=20251231T235959Z')!
+    expect(formatRecurrenceRule(rule)).toBe('FREQ=MONTHLY;INTERVAL=2;UNTIL=20251231T235959Z;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')
+  })
+
+  it('rejects what it cannot expand in strict mode', () => {
+    expect(parseRecurrenceRule('FREQ=HOURLY')).toBeNull()
+    expect(parseRecurrenceRule('FREQ=DAILY;BYHOUR=9', 'UTC', { strict: true })).toBeNull()
+    expect(parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20250101', 'UTC', { strict: true })).toBeNull()
+    expect(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=2MO', 'UTC', { strict: true })).toBeNull()
+    expect(parseRecurrenceRule('FREQ=DAILY;BYHOUR=9')).not.toBeNull()
+  })
+})
+
+describe('expandRecurrence', () => {
+  it('picks the last working day of each month with BYSETPOS', () => {
+    expect(days(expand('2025-01-31T09:00:00Z', 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=4'))).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30',
+    ])
+  })
+
+  it('repeats on the last Thursday and on negative month days', () => {
+    expect(days(expand('2025-01-30T10:00:00Z', 'FREQ=MONTHLY;BYDAY=-1TH;COUNT=3'))).toEqual(['2025-01-30', '2025-02-27', '2025-03-27'])
+    expect(days(expand('2025-01-31T10:00:00Z', 'FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3'))).toEqual(['2025-01-31', '2025-02-28', '2025-03-31'])
+  })
+
+  it('expands yearly rules by date, by month and weekday, and skips missing days', () => {
+    expect(days(expand('2025-03-15T08:00:00Z', 'FREQ=YEARLY;COUNT=2'))).toEqual(['2025-03-15', '2026-03-15'])
+    // US Thanksgiving: fourth Thursday of November
+    expect(days(expand('2025-11-27T12:00:00Z', 'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=2'))).toEqual(['2025-11-27', '2026-11-26'])
+    // Only leap years have 29 February
+    expect(days(expand('2024-02-29T12:00:00Z', 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29;COUNT=1'))).toEqual([])
+  })
+
+  it('keeps the local time across DST changes', () => {
+    const starts = expand('2025-10-20T09:00:00-04:00', 'FREQ=WEEKLY;COUNT=3', 'America/New_York')
+    expect(starts.map((d) => d.toISOString())).toEqual([
+      '2025-10-20T13:00:00.000Z',
+      '2025-10-27T13:00:00.000Z',
+      // Clocks go back on 2 November
+      '2025-11-03T14:00:00.000Z',
+    ])
+  })
+
+  it('stops on rules that can never match', () => {
+    expect(expand('2025-01-01T00:00:00Z', 'FREQ=MONTHLY;BYMONTH=2;BYMONTHDAY=30')).toEqual([])
+  })
+})
+
+describe('expandRecurrenceSet', () => {
+  it('removes EXDATEs and adds RDATEs in order', () => {
+    const starts = expandRecurrenceSet(
+      {
+        start: new Date('2025-03-03T09:00:00Z'),
+        rule: parseRecurrenceRule('FREQ=WEEKLY;COUNT=3'),
+        exdates: [new Date('2025-03-10T09:00:00Z')],
+        rdates: [new Date('2025-03-12T15:00:00Z'), new Date('2025-03-17T09:00:00Z')],
+      },
+      { from, to }
+    )
+    expect(starts.map((d) => d.toISOString())).toEqual([
+      '2025-03-03T09:00:00.000Z',
+      '2025-03-12T15:00:00.000Z',
+      '2025-03-17T09:00:00.000Z',
+    ])
+  })
+})
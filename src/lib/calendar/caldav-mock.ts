@@ -0,0 +1,168 @@
+/**
+ * Local CalDAV server
+ * A small in-memory stand-in for a Radicale-style CalDAV server, served
+ * through a fetch function so the real HTTP client runs against it. It
+ * supports MKCALENDAR, PROPFIND, calendar-query REPORTs with a time range,
+ * GET (a collection GET returns the whole calendar, like an ICS feed), PUT
+ * and DELETE with ETag preconditions, and optional basic auth. The shared
+ * instance used in CALDAV_MODE=mock creates calendars on first use.
+ */
+
+import { busyIntervals, parseIcs } from './ics'
+
+interface StoredEvent {
+  ics: string
+  etag: string
+}
+
+interface MockCalendar {
+  displayName: string
+  events: Map<string, StoredEvent> // By event path
+}
+
+export interface MockCalDavOptions {
+  origin?: string
+  username?: string
+  password?: string
+  autoCreate?: boolean // Treat any collection URL (ending in /) as an empty calendar
+}
+
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const parseIcsDate = (value: string) =>
+  new Date(value.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'))
+
+export class MockCalDavServer {
+  readonly origin: string
+  private calendars = new Map<string, MockCalendar>() // By collection path, with trailing slash
+  private etagCounter = 0
+
+  constructor(private options: MockCalDavOptions = {}) {
+    this.origin = options.origin ?? 'http://caldav.local'
+  }
+
+  /** Create a calendar collection and return its URL */
+  createCalendar(path: string, displayName = 'Calendar'): string {
+    const key = path.endsWith('/') ? path : `${path}/`
+    if (!this.calendars.has(key)) this.calendars.set(key, { displayName, events: new Map() })
+    return `${this.origin}${key}`
+  }
+
+  /** Add or replace an event directly, as another client would */
+  putRaw(calendarUrl: string, name: string, ics: string): string {
+    const calendar = this.calendar(new URL(calendarUrl).pathname)
+    if (!calendar) throw new Error(`No calendar at ${calendarUrl}`)
+    const path = `${new URL(calendarUrl).pathname.replace(/\/?$/, '/')}${name}`
+    calendar.events.set(path, { ics, etag: this.nextEtag() })
+    return path
+  }
+
+  /** Events stored in a calendar, by path */
+  events(calendarUrl: string): Map<string, StoredEvent> {
+    return this.calendar(new URL(calendarUrl).pathname)?.events ?? new Map()
+  }
+
+  private nextEtag() {
+    return `"${++this.etagCounter}"`
+  }
+
+  private calendar(path: string): MockCalendar | undefined {
+    return this.calendars.get(path.endsWith('/') ? path : `${path}/`)
+  }
+
+  private parentOf(path: string) {
+    return path.slice(0, path.lastIndexOf('/') + 1)
+  }
+
+  private authorized(headers: Headers): boolean {
+    if (!this.options.username) return true
+    const expected = `Basic ${Buffer.from(`${this.options.username}:${this.options.password ?? ''}`).toString('base64')}`
+    return headers.get('Authorization') === expected
+  }
+
+  private multistatus(responses: string[]) {
+    const body = `<?xml version="1.0" encoding="utf-8"?>\n<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${responses.join('')}</d:multistatus>`
+    return new Response(body, { status: 207, headers: { 'Content-Type': 'application/xml; charset=utf-8' } })
+  }
+
+  fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const method = (init.method ?? 'GET').toUpperCase()
+    const headers = new Headers(init.headers)
+    const path = decodeURIComponent(new URL(url).pathname)
+    const body = typeof init.body === 'string' ? init.body : ''
+    if (!this.authorized(headers)) return new Response('Unauthorized', { status: 401, statusText: 'Unauthorized' })
+
+    if (this.options.autoCreate && path.endsWith('/') && method !== 'MKCALENDAR') this.createCalendar(path)
+    const calendar = this.calendar(path)
+    if (method === 'MKCALENDAR') {
+      if (calendar) return new Response(null, { status: 405 })
+      this.createCalendar(path)
+      return new Response(null, { status: 201 })
+    }
+
+    if (calendar) {
+      if (method === 'PROPFIND') {
+        return this.multistatus([
+          `<d:response><d:href>${escapeXml(path)}</d:href><d:propstat><d:prop>` +
+            `<d:displayname>${escapeXml(calendar.displayName)}</d:displayname>` +
+            `<d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>` +
+            `</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`,
+        ])
+      }
+      if (method === 'REPORT') {
+        const range = /time-range\s+start="([^"]+)"\s+end="([^"]+)"/.exec(body)
+        const from = range ? parseIcsDate(range[1]) : new Date(0)
+        const to = range ? parseIcsDate(range[2]) : new Date(8640000000000000)
+        const matches = Array.from(calendar.events.entries()).filter(([, event]) => {
+          const events = parseIcs(event.ics)
+          // Cancelled and free events still match a time range; only times are compared here
+          return busyIntervals(events.map((e) => ({ ...e, status: 'CONFIRMED' as const, transparent: false })), from, to).length > 0
+        })
+        return this.multistatus(
+          matches.map(
+            ([href, event]) =>
+              `<d:response><d:href>${escapeXml(href)}</d:href><d:propstat><d:prop>` +
+              `<d:getetag>${escapeXml(event.etag)}</d:getetag><cal:calendar-data>${escapeXml(event.ics)}</cal:calendar-data>` +
+              `</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`
+          )
+        )
+      }
+      if (method === 'GET') {
+        // Merge the events into one calendar, as a subscription URL would serve it
+        const vevents = Array.from(calendar.events.values()).flatMap((event) => {
+          const match = event.ics.replace(/\r\n/g, '\n').match(/BEGIN:VEVENT[\s\S]*?END:VEVENT/g)
+          return match ?? []
+        })
+        const ics = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Mock CalDAV//EN', ...vevents, 'END:VCALENDAR'].join('\r\n')
+        return new Response(ics, { status: 200, headers: { 'Content-Type': 'text/calendar' } })
+      }
+      return new Response(null, { status: 405, statusText: 'Method Not Allowed' })
+    }
+
+    const parent = this.calendar(this.parentOf(path))
+    if (!parent) return new Response(null, { status: 404, statusText: 'Not Found' })
+    const existing = parent.events.get(path)
+    const ifMatch = headers.get('If-Match')
+    if (ifMatch && ifMatch !== existing?.etag) return new Response(null, { status: 412, statusText: 'Precondition Failed' })
+
+    switch (method) {
+      case 'GET':
+        return existing
+          ? new Response(existing.ics, { status: 200, headers: { 'Content-Type': 'text/calendar', ETag: existing.etag } })
+          : new Response(null, { status: 404, statusText: 'Not Found' })
+      case 'PUT': {
+        if (headers.get('If-None-Match') === '*' && existing) return new Response(null, { status: 412, statusText: 'Precondition Failed' })
+        if (!body.includes('BEGIN:VCALENDAR')) return new Response(null, { status: 415, statusText: 'Unsupported Media Type' })
+        const etag = this.nextEtag()
+        parent.events.set(path, { ics: body, etag })
+        return new Response(null, { status: existing ? 204 : 201, headers: { ETag: etag } })
+      }
+      case 'DELETE':
+        if (!existing) return new Response(null, { status: 404, statusText: 'Not Found' })
+        parent.events.delete(path)
+        return new Response(null, { status: 204 })
+      default:
+        return new Response(null, { status: 405, statusText: 'Method Not Allowed' })
+    }
+  }
+}
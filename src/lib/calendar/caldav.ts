@@ -0,0 +1,278 @@
+/**
+ * CalDAV client
+ * The parts of RFC 4791 calendar sync needs: check a calendar collection,
+ * list events in a time range (calendar-query REPORT), and create, update
+ * and delete single events with ETag preconditions. ICS subscriptions are
+ * a plain GET. CALDAV_MODE=mock (the default outside production) sends
+ * requests to the in-memory server in caldav-mock.ts instead of the network;
+ * live requests time out and never reach private or loopback addresses.
+ */
+
+import { xml2js } from 'xml-js'
+import { logger } from '@/lib/logger'
+import { assertPublicUrl, publicDispatcher } from '@/lib/security/outbound-url'
+import { formatIcsDateTime } from './ics'
+import { MockCalDavServer } from './caldav-mock'
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>
+
+export interface CalDavAccount {
+  url: string // Calendar collection, or the feed for an ICS subscription
+  username?: string | null
+  password?: string | null
+}
+
+export interface RemoteEvent {
+  href: string
+  etag: string | null
+  ics: string
+}
+
+export interface CalDavClient {
+  checkCollection(): Promise<{ displayName: string | null }>
+  listEvents(from: Date, to: Date): Promise<RemoteEvent[]>
+  /** Create (etag null) or update an event; overwrite skips the precondition */
+  putEvent(href: string, ics: string, options: { etag: string | null; overwrite?: boolean }): Promise<{ etag: string | null }>
+  deleteEvent(href: string): Promise<void>
+  eventHref(uid: string): string
+}
+
+type XmlNode = Record<string, any>
+
+// A calendar server that has not answered by then is treated as unreachable
+const REQUEST_TIMEOUT_MS = 15_000
+const MAX_REDIRECTS = 3
+// Larger ICS feeds are refused rather than read into memory
+const MAX_ICS_BYTES = 10 * 1024 * 1024
+
+const asArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value])
+
+function text(node: XmlNode | undefined): string | undefined {
+  if (node === undefined || node === null) return undefined
+  if (typeof node !== 'object') return String(node)
+  const value = node._cdata ?? node._text
+  return value === undefined ? undefined : String(value).trim()
+}
+
+/** HTTP status in a calendar request error, null when there was no response */
+export function calendarRequestStatus(error: unknown): number | null {
+  const match = (error instanceof Error ? error.message : String(error)).match(/ failed \((\d{3})\)/)
+  return match ? Number(match[1]) : null
+}
+
+const CALENDAR_QUERY = (from: Date, to: Date) => `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop><D:getetag/><C:calendar-data/></D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VEVENT">
+        <C:time-range start="${formatIcsDateTime(from)}" end="${formatIcsDateTime(to)}"/>
+      </C:comp-filter>
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`
+
+const PROPFIND_COLLECTION = `<?xml version="1.0" encoding="utf-8" ?>
+<D:propfind xmlns:D="DAV:"><D:prop><D:displayname/><D:resourcetype/></D:prop></D:propfind>`
+
+function authorization(account: CalDavAccount): Record<string, string> {
+  if (!account.username) return {}
+  return { Authorization: `Basic ${Buffer.from(`${account.username}:${account.password ?? ''}`).toString('base64')}` }
+}
+
+async function send(fetchImpl: FetchLike, url: string, init: RequestInit, what: string): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetchImpl(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+  } catch (error) {
+    throw new Error(`${what} failed: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (!response.ok) {
+    logger.warn('Calendar request rejected', { url, method: init.method ?? 'GET', status: response.status })
+    const reason = response.status === 401 || response.status === 403 ? 'check the username and password' : response.statusText
+    throw new Error(`${what} failed (${response.status})${reason ? `: ${reason}` : ''}`)
+  }
+  return response
+}
+
+function parseMultistatus(xml: string): XmlNode[] {
+  let doc: XmlNode
+  try {
+    doc = xml2js(xml, {
+      compact: true,
+      ignoreComment: true,
+      ignoreDeclaration: true,
+      elementNameFn: (name: string) => name.replace(/^.*:/, ''),
+    }) as XmlNode
+  } catch {
+    throw new Error('CalDAV server returned malformed XML')
+  }
+  return asArray<XmlNode>(doc.multistatus?.response)
+}
+
+// Properties of a response that came back with a 200 propstat
+function okProps(response: XmlNode): XmlNode {
+  const props: XmlNode = {}
+  for (const propstat of asArray<XmlNode>(response.propstat)) {
+    if (/\s200\s/.test(` ${text(propstat.status) ?? ''} `)) Object.assign(props, propstat.prop ?? {})
+  }
+  return props
+}
+
+/**
+ * fetch for user-supplied calendar URLs: only public hosts are reached, and
+ * redirects are followed here so that every hop is checked. The connection
+ * itself resolves through publicDispatcher, so DNS cannot swap in a private
+ * address after the check. Credentials are not forwarded to another origin.
+ */
+export const publicFetch: FetchLike = async (url, init = {}) => {
+  let target = url
+  let headers = new Headers(init.headers)
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(target)
+    const response = await fetch(target, { ...init, headers, redirect: 'manual', dispatcher: publicDispatcher } as RequestInit)
+    const location = response.headers.get('Location')
+    if (response.status < 300 || response.status >= 400 || !location) return response
+    if (hop >= MAX_REDIRECTS) throw new Error('too many redirects')
+
+    const next = new URL(location, target)
+    if (next.origin !== new URL(target).origin) {
+      headers = new Headers(headers)
+      headers.delete('Authorization')
+    }
+    target = next.toString()
+  }
+}
+
+export class HttpCalDavClient implements CalDavClient {
+  private collectionUrl: string
+
+  constructor(private account: CalDavAccount, private fetchImpl: FetchLike = publicFetch) {
+    this.collectionUrl = account.url.endsWith('/') ? account.url : `${account.url}/`
+  }
+
+  private headers(extra: Record<string, string> = {}) {
+    return { ...authorization(this.account), ...extra }
+  }
+
+  // hrefs in responses are usually absolute paths on the server
+  private resolve(href: string) {
+    return new URL(href, this.collectionUrl).toString()
+  }
+
+  eventHref(uid: string): string {
+    return new URL(`${encodeURIComponent(uid)}.ics`, this.collectionUrl).pathname
+  }
+
+  async checkCollection(): Promise<{ displayName: string | null }> {
+    const response = await send(
+      this.fetchImpl,
+      this.collectionUrl,
+      { method: 'PROPFIND', headers: this.headers({ Depth: '0', 'Content-Type': 'application/xml; charset=utf-8' }), body: PROPFIND_COLLECTION },
+      'CalDAV connection check'
+    )
+    const [first] = parseMultistatus(await response.text())
+    const props = first ? okProps(first) : {}
+    if (!props.resourcetype || props.resourcetype.calendar === undefined) {
+      throw new Error('The URL is not a CalDAV calendar collection')
+    }
+    return { displayName: text(props.displayname) || null }
+  }
+
+  async listEvents(from: Date, to: Date): Promise<RemoteEvent[]> {
+    const response = await send(
+      this.fetchImpl,
+      this.collectionUrl,
+      { method: 'REPORT', headers: this.headers({ Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' }), body: CALENDAR_QUERY(from, to) },
+      'CalDAV calendar query'
+    )
+    return parseMultistatus(await response.text())
+      .map((entry) => {
+        const props = okProps(entry)
+        return { href: text(entry.href) ?? '', etag: text(props.getetag) ?? null, ics: text(props['calendar-data']) ?? '' }
+      })
+      .filter((event) => event.href && event.ics)
+  }
+
+  async putEvent(href: string, ics: string, options: { etag: string | null; overwrite?: boolean }) {
+    const precondition: Record<string, string> = options.overwrite ? {} : options.etag ? { 'If-Match': options.etag } : { 'If-None-Match': '*' }
+    const response = await send(
+      this.fetchImpl,
+      this.resolve(href),
+      { method: 'PUT', headers: this.headers({ 'Content-Type': 'text/calendar; charset=utf-8', ...precondition }), body: ics },
+      'CalDAV event upload'
+    )
+    return { etag: response.headers.get('ETag') }
+  }
+
+  async deleteEvent(href: string): Promise<void> {
+    try {
+      await send(this.fetchImpl, this.resolve(href), { method: 'DELETE', headers: this.headers() }, 'CalDAV event delete')
+    } catch (error) {
+      // Already gone on the server
+      const status = calendarRequestStatus(error)
+      if (status === 404 || status === 410) return
+      throw error
+    }
+  }
+}
+
+let mockServer: MockCalDavServer | null = null
+
+function calendarMode() {
+  return process.env.CALDAV_MODE || (process.env.NODE_ENV === 'production' ? 'live' : 'mock')
+}
+
+/** fetch for calendar requests: the shared mock server in mock mode */
+export function calendarFetch(): FetchLike {
+  if (calendarMode() === 'mock') {
+    mockServer ??= new MockCalDavServer({ autoCreate: true })
+    return mockServer.fetch
+  }
+  return publicFetch
+}
+
+/** Client for a CalDAV calendar collection */
+export function calDavClient(account: CalDavAccount): CalDavClient {
+  return new HttpCalDavClient(account, calendarFetch())
+}
+
+// Response text, refusing a body over maxBytes without buffering the rest of it
+async function readCapped(response: Response, maxBytes: number): Promise<string> {
+  const tooLarge = () => new Error(`The subscription is larger than ${maxBytes / (1024 * 1024)} MB`)
+  if (Number(response.headers.get('Content-Length') ?? 0) > maxBytes) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+  if (!response.body) return ''
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let size = 0
+  let text = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    text += decoder.decode(value, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+/** Download an ICS subscription; webcal:// URLs are fetched over https */
+export async function fetchIcsSubscription(account: CalDavAccount, fetchImpl: FetchLike = calendarFetch()): Promise<string> {
+  const url = account.url.replace(/^webcals?:\/\//i, 'https://')
+  const response = await send(
+    fetchImpl,
+    url,
+    { method: 'GET', headers: { ...authorization(account), Accept: 'text/calendar' } },
+    'Calendar subscription download'
+  )
+  const body = await readCapped(response, MAX_ICS_BYTES)
+  if (!body.includes('BEGIN:VCALENDAR')) throw new Error('The subscription URL did not return an iCalendar file')
+  return body
+}
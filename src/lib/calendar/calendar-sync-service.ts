@@ -0,0 +1,436 @@
+/**
+ * Calendar Sync Service
+ * Connects team members' external calendars. Busy time from CalDAV
+ * calendars and ICS subscriptions is imported so availability and conflict
+ * checks see it; confirmed bookings are pushed to CalDAV calendars and kept
+ * up to date through reschedules, reassignment and cancellation; and each
+ * member gets a signed ICS feed of their bookings.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import prisma from '@/lib/prisma'
+import { logAudit } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { PRIVATE_ADDRESS_ERROR, isPrivateHost } from '@/lib/security/outbound-url'
+import { openSecret, sealSecret } from '@/lib/security/secret-box'
+import { calDavClient, calendarRequestStatus, fetchIcsSubscription, type CalDavAccount } from './caldav'
+import { bookingEventUid, buildCalendar, busyIntervals, parseIcs, type BusyTime, type OutgoingEvent } from './ics'
+
+export type CalendarConnectionType = 'CALDAV' | 'ICS'
+
+export interface CalendarConnectionInput {
+  type: CalendarConnectionType
+  name: string
+  url: string
+  username?: string | null
+  password?: string | null
+  pushBookings?: boolean
+}
+
+export interface SyncResult {
+  connectionId: string
+  status: 'ACTIVE' | 'ERROR'
+  busyIntervals: number
+  error?: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Busy time is imported from a day back to this many days ahead */
+export const IMPORT_DAYS_AHEAD = 90
+
+/** Connections are synced again by cron once their last sync is this old */
+export const SYNC_INTERVAL_MINUTES = 15
+
+// Bookings in the feed start no earlier than this many days ago
+const FEED_DAYS_BACK = 90
+
+// Events we pushed ourselves already block time as bookings
+const isBookingUid = (uid: string) => /^booking-.+@accountingfirm\.com$/.test(uid)
+
+const connectionView = {
+  id: true,
+  teamMemberId: true,
+  type: true,
+  name: true,
+  url: true,
+  username: true,
+  pushBookings: true,
+  status: true,
+  lastSyncedAt: true,
+  lastError: true,
+  createdAt: true,
+} as const
+
+function feedSecret(): string {
+  const secret = process.env.CALENDAR_FEED_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) throw new Error('Calendar feed secret not configured')
+  return secret
+}
+
+function feedToken(teamMemberId: string, version: number): string {
+  return createHmac('sha256', feedSecret()).update(`calendar-feed:${teamMemberId}:${version}`).digest('base64url')
+}
+
+function validateUrl(input: CalendarConnectionInput): string {
+  let url: URL
+  try {
+    url = new URL(input.url.replace(/^webcals?:\/\//i, 'https://'))
+  } catch {
+    throw new Error('Invalid calendar URL')
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('Invalid calendar URL')
+  // Names that resolve to private addresses are refused when the request is made
+  if (isPrivateHost(url)) throw new Error(PRIVATE_ADDRESS_ERROR)
+  if (input.type === 'CALDAV' && /^webcals?:/i.test(input.url)) throw new Error('Invalid calendar URL')
+  return input.type === 'ICS' ? input.url : url.toString()
+}
+
+export class CalendarSyncService {
+  private account(connection: { url: string; username: string | null; passwordSecret: string | null }): CalDavAccount {
+    return {
+      url: connection.url,
+      username: connection.username,
+      password: connection.passwordSecret ? openSecret(connection.passwordSecret) : null,
+    }
+  }
+
+  /** A team member of the tenant; members not linked to a user are shared */
+  async teamMember(tenantId: string, teamMemberId: string) {
+    const member = await prisma.teamMember.findFirst({
+      where: { id: teamMemberId, OR: [{ userId: null }, { user: { tenantId } }] },
+      select: { id: true, name: true, userId: true, timeZone: true, calendarFeedVersion: true },
+    })
+    if (!member) throw new Error('Team member not found')
+    return member
+  }
+
+  /** Members manage their own calendars; TEAM_MANAGE manages anyone's */
+  async assertAccess(tenantId: string, teamMemberId: string, user: { userId?: string | null; role?: string | null }) {
+    const member = await this.teamMember(tenantId, teamMemberId)
+    const own = !!member.userId && member.userId === user.userId
+    if (!own && !hasPermission(user.role ?? undefined, PERMISSIONS.TEAM_MANAGE)) {
+      throw new Error('Not allowed to manage this calendar')
+    }
+    return member
+  }
+
+  async listConnections(tenantId: string, teamMemberId: string) {
+    await this.teamMember(tenantId, teamMemberId)
+    return prisma.calendarConnection.findMany({
+      where: { tenantId, teamMemberId },
+      select: connectionView,
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Connect a calendar. The URL and credentials are checked against the
+   * server before anything is saved, then busy time is imported right away.
+   */
+  async createConnection(tenantId: string, teamMemberId: string, input: CalendarConnectionInput, userId?: string | null) {
+    await this.teamMember(tenantId, teamMemberId)
+    if (input.type === 'ICS' && input.pushBookings) throw new Error('ICS subscriptions are read-only')
+    const url = validateUrl(input)
+    const account = { url, username: input.username || null, password: input.password || null }
+
+    if (input.type === 'CALDAV') await calDavClient(account).checkCollection()
+    else parseIcs(await fetchIcsSubscription(account))
+
+    const connection = await prisma.calendarConnection.create({
+      data: {
+        tenantId,
+        teamMemberId,
+        type: input.type,
+        name: input.name,
+        url,
+        username: account.username,
+        passwordSecret: account.password ? sealSecret(account.password) : null,
+        pushBookings: input.type === 'CALDAV' && !!input.pushBookings,
+        createdBy: userId ?? null,
+      },
+    })
+    await logAudit({
+      tenantId,
+      userId: userId ?? undefined,
+      action: 'calendar:connect',
+      resource: 'calendar_connection',
+      entityId: connection.id,
+      metadata: { teamMemberId, type: input.type, pushBookings: connection.pushBookings },
+    })
+
+    const sync = await this.syncConnection(connection.id)
+    const view = await prisma.calendarConnection.findUnique({ where: { id: connection.id }, select: connectionView })
+    return { connection: view, sync }
+  }
+
+  /** Disconnect a calendar, removing the bookings it was sent on a best-effort basis */
+  async deleteConnection(tenantId: string, teamMemberId: string, connectionId: string, userId?: string | null) {
+    const connection = await prisma.calendarConnection.findFirst({
+      where: { id: connectionId, tenantId, teamMemberId },
+      include: { eventLinks: true },
+    })
+    if (!connection) throw new Error('Calendar connection not found')
+
+    if (connection.type === 'CALDAV' && connection.eventLinks.length > 0) {
+      const client = calDavClient(this.account(connection))
+      for (const link of connection.eventLinks) {
+        await client.deleteEvent(link.href).catch((error) =>
+          logger.warn('Failed to remove booking from disconnected calendar', { connectionId, bookingId: link.bookingId, error: String(error) })
+        )
+      }
+    }
+    await prisma.calendarConnection.delete({ where: { id: connectionId } })
+    await logAudit({
+      tenantId,
+      userId: userId ?? undefined,
+      action: 'calendar:disconnect',
+      resource: 'calendar_connection',
+      entityId: connectionId,
+      metadata: { teamMemberId, removedEvents: connection.eventLinks.length },
+    })
+  }
+
+  /**
+   * Replace a connection's imported busy time with what the calendar holds
+   * now. A failure is recorded on the connection and returned, not thrown.
+   */
+  async syncConnection(connectionId: string, now: Date = new Date()): Promise<SyncResult> {
+    const connection = await prisma.calendarConnection.findUnique({
+      where: { id: connectionId },
+      include: { teamMember: { select: { timeZone: true } } },
+    })
+    if (!connection) throw new Error('Calendar connection not found')
+
+    const from = new Date(now.getTime() - DAY_MS)
+    const to = new Date(now.getTime() + IMPORT_DAYS_AHEAD * DAY_MS)
+    const defaultTimeZone = connection.teamMember.timeZone || 'UTC'
+
+    let busy: BusyTime[]
+    try {
+      const account = this.account(connection)
+      const documents = connection.type === 'CALDAV'
+        ? (await calDavClient(account).listEvents(from, to)).map((event) => event.ics)
+        : [await fetchIcsSubscription(account)]
+      busy = documents.flatMap((ics) => busyIntervals(parseIcs(ics, { defaultTimeZone }), from, to))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      logger.warn('Calendar sync failed', { connectionId, error: message })
+      await prisma.calendarConnection.update({ where: { id: connectionId }, data: { status: 'ERROR', lastError: message, lastSyncedAt: now } })
+      return { connectionId, status: 'ERROR', busyIntervals: 0, error: message }
+    }
+
+    const seen = new Set<string>()
+    const rows = busy
+      .filter((b) => !isBookingUid(b.uid))
+      .filter((b) => {
+        const key = `${b.uid}|${b.start.getTime()}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .map((b) => ({ connectionId, teamMemberId: connection.teamMemberId, uid: b.uid, start: b.start, end: b.end }))
+
+    await prisma.$transaction([
+      prisma.calendarBusyInterval.deleteMany({ where: { connectionId } }),
+      prisma.calendarBusyInterval.createMany({ data: rows }),
+      prisma.calendarConnection.update({ where: { id: connectionId }, data: { status: 'ACTIVE', lastError: null, lastSyncedAt: now } }),
+    ])
+    return { connectionId, status: 'ACTIVE', busyIntervals: rows.length }
+  }
+
+  /** Sync every connection not synced within SYNC_INTERVAL_MINUTES */
+  async syncDue(now: Date = new Date()) {
+    const due = await prisma.calendarConnection.findMany({
+      where: {
+        status: { not: 'DISABLED' },
+        OR: [{ lastSyncedAt: null }, { lastSyncedAt: { lt: new Date(now.getTime() - SYNC_INTERVAL_MINUTES * 60_000) } }],
+      },
+      select: { id: true },
+      orderBy: { lastSyncedAt: 'asc' },
+    })
+    const results: SyncResult[] = []
+    for (const { id } of due) results.push(await this.syncConnection(id, now))
+    return {
+      connections: results.length,
+      synced: results.filter((r) => r.status === 'ACTIVE').length,
+      failed: results.filter((r) => r.status === 'ERROR').map((r) => ({ connectionId: r.connectionId, error: r.error })),
+    }
+  }
+
+  /** External busy time of a team member overlapping the window */
+  async externalBusy(teamMemberId: string, from: Date, to: Date): Promise<{ start: Date; end: Date }[]> {
+    return prisma.calendarBusyInterval.findMany({
+      where: { teamMemberId, start: { lt: to }, end: { gt: from } },
+      select: { start: true, end: true },
+      orderBy: { start: 'asc' },
+    })
+  }
+
+  /**
+   * Bring a booking's events in line with the booking. Confirmed bookings
+   * are written to the assigned member's push-enabled CalDAV calendars;
+   * bookings that are no longer confirmed are marked cancelled there; and
+   * events on calendars that should no longer have the booking (after
+   * reassignment, say) are deleted. Completed bookings are left alone.
+   */
+  async syncBooking(bookingId: string) {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        service: { select: { name: true } },
+        calendarEvents: { include: { connection: true } },
+      },
+    })
+    if (!booking) return { pushed: 0, removed: 0 }
+
+    const targets = booking.assignedTeamMemberId
+      ? await prisma.calendarConnection.findMany({
+          where: { teamMemberId: booking.assignedTeamMemberId, type: 'CALDAV', pushBookings: true, status: { not: 'DISABLED' } },
+        })
+      : []
+    const targetIds = new Set(targets.map((t) => t.id))
+    let pushed = 0
+    let removed = 0
+
+    for (const link of booking.calendarEvents) {
+      if (targetIds.has(link.connectionId)) continue
+      await calDavClient(this.account(link.connection)).deleteEvent(link.href)
+      await prisma.calendarEventLink.delete({ where: { id: link.id } })
+      removed++
+    }
+
+    if (booking.status === 'COMPLETED') return { pushed, removed }
+    const status = booking.status === 'CONFIRMED' ? 'CONFIRMED' : 'CANCELLED'
+
+    for (const connection of targets) {
+      const link = booking.calendarEvents.find((l) => l.connectionId === connection.id)
+      // Nothing to cancel on a calendar the booking was never sent to
+      if (!link && status === 'CANCELLED') continue
+      if (link && link.lastPushedAt >= booking.updatedAt) continue
+
+      const client = calDavClient(this.account(connection))
+      const uid = link?.uid ?? bookingEventUid(booking.id)
+      const href = link?.href ?? client.eventHref(uid)
+      const sequence = link ? link.sequence + 1 : 0
+      const event: OutgoingEvent = {
+        uid,
+        start: booking.scheduledAt,
+        end: new Date(booking.scheduledAt.getTime() + booking.duration * 60_000),
+        summary: `${booking.service.name}: ${booking.clientName}`,
+        description: [`Client: ${booking.clientName} <${booking.clientEmail}>`, booking.clientPhone && `Phone: ${booking.clientPhone}`, booking.notes]
+          .filter(Boolean)
+          .join('\n'),
+        status,
+        sequence,
+        updatedAt: booking.updatedAt,
+      }
+      const ics = buildCalendar([event])
+
+      let result: { etag: string | null }
+      try {
+        result = await client.putEvent(href, ics, { etag: link?.etag ?? null })
+      } catch (error) {
+        // Edited or removed on the calendar since we last wrote it; the booking wins
+        const code = calendarRequestStatus(error)
+        if (code !== 412 && code !== 404) throw error
+        result = await client.putEvent(href, ics, { etag: null, overwrite: true })
+      }
+
+      await prisma.calendarEventLink.upsert({
+        where: { connectionId_bookingId: { connectionId: connection.id, bookingId: booking.id } },
+        create: { connectionId: connection.id, bookingId: booking.id, uid, href, etag: result.etag, sequence, lastPushedAt: new Date() },
+        update: { etag: result.etag, sequence, lastPushedAt: new Date() },
+      })
+      pushed++
+    }
+    return { pushed, removed }
+  }
+
+  /** syncBooking for request handlers: a calendar failure must not fail the booking change */
+  async syncBookingSafe(bookingId: string) {
+    try {
+      return await this.syncBooking(bookingId)
+    } catch (error) {
+      logger.warn('Failed to sync booking to calendar', { bookingId, error: error instanceof Error ? error.message : String(error) })
+      return null
+    }
+  }
+
+  /** Signed URL of a member's ICS feed */
+  async feedUrl(tenantId: string, teamMemberId: string, origin: string) {
+    const member = await this.teamMember(tenantId, teamMemberId)
+    const token = feedToken(member.id, member.calendarFeedVersion)
+    return `${origin.replace(/\/$/, '')}/api/calendar/feed/${encodeURIComponent(member.id)}?token=${token}`
+  }
+
+  /** Issue a new feed URL; the previous one stops working */
+  async rotateFeed(tenantId: string, teamMemberId: string, origin: string, userId?: string | null) {
+    await this.teamMember(tenantId, teamMemberId)
+    await prisma.teamMember.update({ where: { id: teamMemberId }, data: { calendarFeedVersion: { increment: 1 } } })
+    await logAudit({ tenantId, userId: userId ?? undefined, action: 'calendar:feed.rotate', resource: 'team_member', entityId: teamMemberId })
+    return this.feedUrl(tenantId, teamMemberId, origin)
+  }
+
+  /** The ICS feed of a member's confirmed and completed bookings, if the token is valid */
+  async feed(teamMemberId: string, token: string, now: Date = new Date()): Promise<string> {
+    const member = await prisma.teamMember.findUnique({
+      where: { id: teamMemberId },
+      select: { id: true, name: true, calendarFeedVersion: true },
+    })
+    const expected = member ? Buffer.from(feedToken(member.id, member.calendarFeedVersion)) : null
+    const given = Buffer.from(token)
+    if (!member || !expected || expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      throw new Error('Invalid calendar feed token')
+    }
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        assignedTeamMemberId: member.id,
+        status: { in: ['CONFIRMED', 'COMPLETED'] },
+        scheduledAt: { gte: new Date(now.getTime() - FEED_DAYS_BACK * DAY_MS) },
+      },
+      include: { service: { select: { name: true } } },
+      orderBy: { scheduledAt: 'asc' },
+      take: 2000,
+    })
+    return buildCalendar(
+      bookings.map((booking) => ({
+        uid: bookingEventUid(booking.id),
+        start: booking.scheduledAt,
+        end: new Date(booking.scheduledAt.getTime() + booking.duration * 60_000),
+        summary: `${booking.service.name}: ${booking.clientName}`,
+        description: [`Client: ${booking.clientName} <${booking.clientEmail}>`, booking.clientPhone && `Phone: ${booking.clientPhone}`]
+          .filter(Boolean)
+          .join('\n'),
+        status: 'CONFIRMED',
+        sequence: 0,
+        updatedAt: booking.updatedAt,
+      })),
+      { name: `${member.name} bookings`, now }
+    )
+  }
+}
+
+export const calendarSyncService = new CalendarSyncService()
+
+/**
+ * HTTP status for known calendar errors, null for unexpected ones
+ */
+export function calendarErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Team member not found' || message === 'Calendar connection not found' || message === 'Invalid calendar feed token') return 404
+  if (message === 'Not allowed to manage this calendar') return 403
+  if (
+    message === 'Invalid calendar URL' ||
+    message.endsWith(PRIVATE_ADDRESS_ERROR) ||
+    message === 'ICS subscriptions are read-only' ||
+    message === 'The URL is not a CalDAV calendar collection' ||
+    message === 'The subscription URL did not return an iCalendar file'
+  ) return 400
+  // The calendar server refused or could not be reached while connecting
+  if (message.startsWith('CalDAV ') || message.startsWith('Calendar subscription ')) return 502
+  return null
+}
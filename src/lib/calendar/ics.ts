@@ -0,0 +1,270 @@
+/**
+ * iCalendar (RFC 5545)
+ * Reads the VEVENTs of a calendar into busy time, expanding recurring events
+ * in their own time zone, and writes the events we publish: bookings pushed
+ * to CalDAV and the per-user ICS feed.
+ */
+
+import { DateTime } from 'luxon'
+import { expandRecurrenceSet, parseRecurrenceRule, type RecurrenceRule } from './rrule'
+
+export interface IcsEvent {
+  uid: string
+  start: Date
+  end: Date
+  allDay: boolean
+  timeZone: string // Zone the start was given in; recurrences repeat at its wall-clock time
+  status: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'
+  transparent: boolean // TRANSP:TRANSPARENT events do not block time
+  sequence: number
+  summary?: string
+  rrule?: RecurrenceRule
+  exdates: Date[]
+  rdates: Date[]
+  recurrenceId?: Date // Set on an override of one instance of a recurring event
+}
+
+export interface BusyTime {
+  uid: string
+  start: Date
+  end: Date
+}
+
+interface Property {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+function unfold(content: string): string[] {
+  return content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter((line) => line.trim() !== '')
+}
+
+function parseProperty(line: string): Property {
+  // The value starts at the first colon outside a quoted parameter value
+  let quoted = false
+  let split = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted
+    else if (line[i] === ':' && !quoted) {
+      split = i
+      break
+    }
+  }
+  const head = split < 0 ? line : line.slice(0, split)
+  const value = split < 0 ? '' : line.slice(split + 1)
+  const [name, ...rawParams] = head.split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const eq = param.indexOf('=')
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"(.*)"$/, '$1')
+  }
+  return { name: name.toUpperCase(), params, value }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c))
+}
+
+// TZIDs from Outlook are sometimes Windows names or quoted paths; unknown zones fall back to UTC
+function zoneName(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback
+  const name = tzid.replace(/^\/.*?\/(?=[A-Za-z]+\/)/, '')
+  return DateTime.now().setZone(name).isValid ? name : fallback
+}
+
+/**
+ * A DATE or DATE-TIME value. UTC when it ends in Z, otherwise wall-clock time
+ * in its TZID, or in defaultZone for floating times and all-day dates.
+ */
+function parseDateValue(prop: Property, defaultZone: string): { date: Date; allDay: boolean; zone: string } | null {
+  const value = prop.value.split(',')[0].trim()
+  const zone = zoneName(prop.params.TZID, defaultZone)
+  const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(value)
+  if (dateOnly || prop.params.VALUE === 'DATE') {
+    const dt = DateTime.fromFormat(value.slice(0, 8), 'yyyyMMdd', { zone: defaultZone })
+    return dt.isValid ? { date: dt.toJSDate(), allDay: true, zone: defaultZone } : null
+  }
+  const match = /^(\d{8}T\d{6})(Z?)$/.exec(value)
+  if (!match) return null
+  const dt = match[2]
+    ? DateTime.fromFormat(match[1], "yyyyMMdd'T'HHmmss", { zone: 'utc' })
+    : DateTime.fromFormat(match[1], "yyyyMMdd'T'HHmmss", { zone })
+  return dt.isValid ? { date: dt.toJSDate(), allDay: false, zone: match[2] ? 'UTC' : zone } : null
+}
+
+function parseDateList(prop: Property, defaultZone: string): Date[] {
+  return prop.value
+    .split(',')
+    .map((value) => parseDateValue({ ...prop, value }, defaultZone)?.date)
+    .filter((d): d is Date => !!d)
+}
+
+// P1W, P1DT2H, PT45M; negative durations are not meaningful for events
+function parseDurationMinutes(value: string): number | null {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!match) return null
+  const [, w, d, h, m, s] = match.map((v) => Number(v ?? 0))
+  return w * 7 * 24 * 60 + d * 24 * 60 + h * 60 + m + Math.floor(s / 60)
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document. Events without a UID or a
+ * usable start are skipped rather than failing the whole calendar.
+ */
+export function parseIcs(content: string, options: { defaultTimeZone?: string } = {}): IcsEvent[] {
+  const defaultZone = options.defaultTimeZone ?? 'UTC'
+  const events: IcsEvent[] = []
+  let props: Property[] | null = null
+  let depth = 0 // Nested components (VALARM) inside the event
+
+  for (const line of unfold(content)) {
+    const prop = parseProperty(line)
+    if (prop.name === 'BEGIN' && prop.value.toUpperCase() === 'VEVENT') {
+      props = []
+      depth = 0
+      continue
+    }
+    if (!props) continue
+    if (prop.name === 'BEGIN') depth++
+    else if (prop.name === 'END' && depth > 0) depth--
+    else if (prop.name === 'END' && prop.value.toUpperCase() === 'VEVENT') {
+      const event = toEvent(props, defaultZone)
+      if (event) events.push(event)
+      props = null
+    } else if (depth === 0) props.push(prop)
+  }
+  return events
+}
+
+function toEvent(props: Property[], defaultZone: string): IcsEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name)
+  const uid = get('UID')?.value.trim()
+  const dtstart = get('DTSTART')
+  const start = dtstart ? parseDateValue(dtstart, defaultZone) : null
+  if (!uid || !start) return null
+
+  let end: Date | null = null
+  const dtend = get('DTEND')
+  const duration = get('DURATION')
+  if (dtend) end = parseDateValue(dtend, defaultZone)?.date ?? null
+  else if (duration) {
+    const minutes = parseDurationMinutes(duration.value)
+    if (minutes !== null) end = new Date(start.date.getTime() + minutes * 60_000)
+  }
+  // Without an end, an all-day event lasts the day and a timed one is a point in time
+  if (!end || end < start.date) {
+    end = start.allDay ? DateTime.fromJSDate(start.date, { zone: start.zone }).plus({ days: 1 }).toJSDate() : start.date
+  }
+
+  const status = (get('STATUS')?.value.toUpperCase() ?? 'CONFIRMED') as IcsEvent['status']
+  const rrule = get('RRULE')
+  const recurrenceId = get('RECURRENCE-ID')
+  const summary = get('SUMMARY')
+  return {
+    uid,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    timeZone: start.zone,
+    status: ['TENTATIVE', 'CONFIRMED', 'CANCELLED'].includes(status) ? status : 'CONFIRMED',
+    transparent: get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT',
+    sequence: Number(get('SEQUENCE')?.value) || 0,
+    ...(summary ? { summary: unescapeText(summary.value) } : {}),
+    ...(rrule ? { rrule: parseRecurrenceRule(rrule.value, start.zone) ?? undefined } : {}),
+    exdates: props.filter((p) => p.name === 'EXDATE').flatMap((p) => parseDateList(p, start.zone)),
+    rdates: props.filter((p) => p.name === 'RDATE').flatMap((p) => parseDateList(p, start.zone)),
+    ...(recurrenceId ? { recurrenceId: parseDateValue(recurrenceId, start.zone)?.date } : {}),
+  }
+}
+
+/**
+ * Times the events block between from and to. Cancelled and transparent
+ * events are free; recurring events are expanded with RDATEs, skipping EXDATEs and
+ * instances that an override (RECURRENCE-ID) replaces.
+ */
+export function busyIntervals(events: IcsEvent[], from: Date, to: Date): BusyTime[] {
+  const overridden = new Set(
+    events.filter((e) => e.recurrenceId).map((e) => `${e.uid}|${e.recurrenceId!.getTime()}`)
+  )
+  const busy: BusyTime[] = []
+  for (const event of events) {
+    if (event.status === 'CANCELLED' || event.transparent) continue
+    const length = event.end.getTime() - event.start.getTime()
+    if (!event.rrule || event.recurrenceId) {
+      if (event.start < to && event.end > from) busy.push({ uid: event.uid, start: event.start, end: event.end })
+      continue
+    }
+    // Instances starting before `from` can still run into the window
+    const starts = expandRecurrenceSet(
+      { start: event.start, rule: event.rrule, rdates: event.rdates, exdates: event.exdates, timeZone: event.timeZone },
+      { from: new Date(from.getTime() - length), to }
+    )
+    for (const start of starts) {
+      if (overridden.has(`${event.uid}|${start.getTime()}`)) continue
+      const end = new Date(start.getTime() + length)
+      if (end > from) busy.push({ uid: event.uid, start, end })
+    }
+  }
+  return busy.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+export interface OutgoingEvent {
+  uid: string
+  start: Date
+  end: Date
+  summary: string
+  description?: string
+  location?: string
+  status: 'CONFIRMED' | 'CANCELLED'
+  sequence: number
+  updatedAt?: Date
+}
+
+export const formatIcsDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function fold(line: string): string {
+  const out: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = out.length === 0 ? 75 : 74
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      out.push(current)
+      current = ''
+    }
+    current += char
+  }
+  out.push(current)
+  return out.join('\r\n ')
+}
+
+/** UID of a booking's event, the same one its confirmation email invite uses */
+export const bookingEventUid = (bookingId: string) => `booking-${bookingId}@accountingfirm.com`
+
+/** An iCalendar document with CRLF line endings */
+export function buildCalendar(events: OutgoingEvent[], options: { name?: string; now?: Date } = {}): string {
+  const stamp = formatIcsDateTime(options.now ?? new Date())
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Accounting Firm//Booking System//EN', 'CALSCALE:GREGORIAN']
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`)
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDateTime(event.start)}`,
+      `DTEND:${formatIcsDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+    if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatIcsDateTime(event.updatedAt)}`)
+    lines.push(`SEQUENCE:${event.sequence}`, `STATUS:${event.status}`, 'END:VEVENT')
+  }
+  lines.push('END:VCALENDAR')
+  return lines.map(fold).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,263 @@
+/**
+ * Recurrence rules (RFC 5545)
+ * Parses, formats and expands RRULEs with BYDAY (including ordinals such as
+ * -1TH, the last Thursday), BYMONTHDAY, BYMONTH and BYSETPOS at daily to
+ * yearly frequency. Expansion runs in the series' own time zone, so an
+ * occurrence stays at the same wall-clock time across DST changes. Time of
+ * day parts (BYHOUR, BYMINUTE) and BYWEEKNO/BYYEARDAY are not supported.
+ */
+
+import { DateTime } from 'luxon'
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  count?: number
+  until?: Date
+  byDay?: { weekday: Weekday; ordinal?: number }[] // ordinal: 2TU is the second Tuesday, -1FR the last Friday
+  byMonthDay?: number[] // Negative counts from the end of the month
+  byMonth?: number[]
+  bySetPos?: number[] // Picks from each period's occurrences: 1 the first, -1 the last
+  weekStart: Weekday
+}
+
+/** A recurring series: the rule plus one-off extra dates (RDATE) and removed ones (EXDATE) */
+export interface RecurrenceSet {
+  start: Date
+  rule?: RecurrenceRule | null
+  rdates?: Date[]
+  exdates?: Date[]
+  timeZone?: string
+}
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] // Luxon weekday 1..7
+
+// Expansion stops after this many instances, whatever the rule says
+export const MAX_INSTANCES = 2000
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'WKST']
+
+function parseUntil(value: string, zone: string): Date | null {
+  const dateOnly = /^(\d{8})$/.exec(value)
+  if (dateOnly) {
+    // A date-only UNTIL includes the whole day
+    const day = DateTime.fromFormat(value, 'yyyyMMdd', { zone })
+    return day.isValid ? day.endOf('day').toJSDate() : null
+  }
+  const match = /^(\d{8}T\d{6})(Z?)$/.exec(value)
+  if (!match) return null
+  const dt = DateTime.fromFormat(match[1], "yyyyMMdd'T'HHmmss", { zone: match[2] ? 'utc' : zone })
+  return dt.isValid ? dt.toJSDate() : null
+}
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix). Returns null
+ * when it is not a rule we can expand; strict also rejects rules with parts
+ * that would be ignored or values out of range.
+ */
+export function parseRecurrenceRule(value: string, defaultZone = 'UTC', options: { strict?: boolean } = {}): RecurrenceRule | null {
+  const parts: Record<string, string> = {}
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue
+    const [k, v] = part.split('=')
+    parts[k.toUpperCase()] = (v ?? '').toUpperCase()
+  }
+  const strict = !!options.strict
+  const freq = parts.FREQ as RecurrenceFrequency
+  if (!FREQUENCIES.includes(freq)) return null
+  if (strict && Object.keys(parts).some((k) => !SUPPORTED_PARTS.includes(k))) return null
+
+  const numbers = (list: string | undefined, min: number, max: number) => {
+    if (!list) return undefined
+    const values = list.split(',').map(Number)
+    const valid = values.filter((n) => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max)
+    if (strict && valid.length !== values.length) return null
+    return valid.length ? valid : undefined
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: Math.max(1, Math.floor(Number(parts.INTERVAL)) || 1),
+    weekStart: WEEKDAYS.includes(parts.WKST as Weekday) ? (parts.WKST as Weekday) : 'MO',
+  }
+  if (parts.COUNT) {
+    const count = Math.floor(Number(parts.COUNT))
+    if (count > 0) rule.count = count
+    else if (strict) return null
+  }
+  if (parts.UNTIL) {
+    const until = parseUntil(parts.UNTIL, defaultZone)
+    if (until) rule.until = until
+    else if (strict) return null
+  }
+  if (strict && rule.count && rule.until) return null // RFC 5545: COUNT and UNTIL must not both be set
+  if (parts.BYDAY) {
+    const entries = parts.BYDAY.split(',').map((entry) => /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(entry))
+    if (strict && entries.some((m) => !m)) return null
+    rule.byDay = entries
+      .filter((m): m is RegExpExecArray => !!m)
+      .map((m) => ({ weekday: m[2] as Weekday, ...(m[1] && Number(m[1]) !== 0 ? { ordinal: Number(m[1]) } : {}) }))
+    if (strict && rule.byDay.some((d) => d.ordinal && (Math.abs(d.ordinal) > 53 || (freq !== 'MONTHLY' && freq !== 'YEARLY')))) return null
+  }
+  const byMonthDay = numbers(parts.BYMONTHDAY, 1, 31)
+  const byMonth = numbers(parts.BYMONTH, 1, 12)
+  const bySetPos = numbers(parts.BYSETPOS, 1, 366)
+  if (byMonthDay === null || byMonth === null || bySetPos === null) return null
+  if (byMonthDay) rule.byMonthDay = byMonthDay
+  if (byMonth) rule.byMonth = byMonth.filter((n) => n > 0)
+  if (bySetPos) rule.bySetPos = bySetPos
+  return rule
+}
+
+/** The RRULE value of a rule; UNTIL is written in UTC */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').split('.')[0]}Z`)
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`)
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`)
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`)
+  if (rule.weekStart !== 'MO') parts.push(`WKST=${rule.weekStart}`)
+  return parts.join(';')
+}
+
+const weekdayOf = (day: DateTime) => WEEKDAYS[day.weekday - 1]
+
+function daysBetween(start: DateTime, end: DateTime): DateTime[] {
+  const days: DateTime[] = []
+  for (let d = start; d < end; d = d.plus({ days: 1 })) days.push(d)
+  return days
+}
+
+function matchesMonthDay(rule: RecurrenceRule, day: DateTime) {
+  return rule.byMonthDay!.some((n) => (n > 0 ? day.day === n : day.day === day.daysInMonth! + n + 1))
+}
+
+// BYDAY with ordinals counted within scope (the month, or the year for yearly rules without BYMONTH)
+function matchesWeekday(rule: RecurrenceRule, day: DateTime, scope: DateTime[]) {
+  return rule.byDay!.some((b) => {
+    if (b.weekday !== weekdayOf(day)) return false
+    if (!b.ordinal) return true
+    const same = scope.filter((x) => x.weekday === day.weekday)
+    const index = same.findIndex((x) => x.hasSame(day, 'day'))
+    return b.ordinal > 0 ? index === b.ordinal - 1 : index === same.length + b.ordinal
+  })
+}
+
+function monthCandidates(rule: RecurrenceRule, month: DateTime, first: DateTime): DateTime[] {
+  const scope = daysBetween(month.startOf('month'), month.startOf('month').plus({ months: 1 }))
+  let days = scope
+  if (rule.byMonthDay) days = days.filter((d) => matchesMonthDay(rule, d))
+  if (rule.byDay) days = days.filter((d) => matchesWeekday(rule, d, scope))
+  if (!rule.byMonthDay && !rule.byDay) days = days.filter((d) => d.day === first.day)
+  return days
+}
+
+// Candidate days of one period (at midnight in the series' zone), before BYSETPOS
+function periodCandidates(rule: RecurrenceRule, periodStart: DateTime, first: DateTime): DateTime[] {
+  let days: DateTime[]
+  switch (rule.freq) {
+    case 'DAILY':
+      days = [periodStart]
+      if (rule.byDay) days = days.filter((d) => rule.byDay!.some((b) => b.weekday === weekdayOf(d)))
+      if (rule.byMonthDay) days = days.filter((d) => matchesMonthDay(rule, d))
+      break
+    case 'WEEKLY': {
+      const wanted = rule.byDay?.map((b) => b.weekday) ?? [weekdayOf(first)]
+      days = daysBetween(periodStart, periodStart.plus({ weeks: 1 })).filter((d) => wanted.includes(weekdayOf(d)))
+      break
+    }
+    case 'MONTHLY':
+      days = monthCandidates(rule, periodStart, first)
+      break
+    case 'YEARLY':
+      if (!rule.byMonth && rule.byDay && !rule.byMonthDay) {
+        // BYDAY=20MO without BYMONTH counts through the year
+        const scope = daysBetween(periodStart, periodStart.plus({ years: 1 }))
+        days = scope.filter((d) => matchesWeekday(rule, d, scope))
+      } else {
+        const months = rule.byMonth ?? (rule.byMonthDay || rule.byDay ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] : [first.month])
+        days = months.flatMap((m) => monthCandidates(rule, periodStart.set({ month: m, day: 1 }), first))
+      }
+      break
+  }
+  if (rule.byMonth && rule.freq !== 'YEARLY') days = days.filter((d) => rule.byMonth!.includes(d.month))
+  days.sort((a, b) => a.toMillis() - b.toMillis())
+
+  if (rule.bySetPos) {
+    const picked = rule.bySetPos
+      .map((pos) => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+      .filter((d): d is DateTime => !!d)
+    days = Array.from(new Map(picked.map((d) => [d.toMillis(), d])).values()).sort((a, b) => a.toMillis() - b.toMillis())
+  }
+  return days
+}
+
+/**
+ * Instance starts of a rule from `start`, up to `to` (exclusive). COUNT is
+ * counted from the first instance, so instances before `from` still count.
+ * The start itself is only an instance when it matches the rule.
+ */
+export function expandRecurrence(
+  start: Date,
+  rule: RecurrenceRule,
+  window: { from: Date; to: Date; timeZone?: string }
+): Date[] {
+  const zone = window.timeZone ?? 'UTC'
+  const first = DateTime.fromJSDate(start, { zone })
+  const unit = { DAILY: 'days', WEEKLY: 'weeks', MONTHLY: 'months', YEARLY: 'years' } as const
+  const weekStartOffset = (first.weekday - 1 - WEEKDAYS.indexOf(rule.weekStart) + 7) % 7
+  let periodStart = rule.freq === 'WEEKLY'
+    ? first.startOf('day').minus({ days: weekStartOffset })
+    : rule.freq === 'MONTHLY'
+      ? first.startOf('month')
+      : rule.freq === 'YEARLY'
+        ? first.startOf('year')
+        : first.startOf('day')
+
+  const out: Date[] = []
+  let counted = 0
+  // Rules that can never match (BYMONTHDAY=31 with BYMONTH=2) stop after this many empty periods
+  for (let periods = 0, empty = 0; periods < MAX_INSTANCES * 4 && empty < 1000; periods++) {
+    const days = periodCandidates(rule, periodStart, first)
+    empty = days.length === 0 ? empty + 1 : 0
+    for (const day of days) {
+      const instance = day.set({ hour: first.hour, minute: first.minute, second: first.second, millisecond: 0 })
+      if (!instance.isValid || instance < first) continue
+      const date = instance.toJSDate()
+      if (rule.until && date > rule.until) return out
+      if (date >= window.to) return out
+      counted++
+      if (rule.count && counted > rule.count) return out
+      if (date >= window.from) out.push(date)
+      if (out.length >= MAX_INSTANCES) return out
+    }
+    periodStart = periodStart.plus({ [unit[rule.freq]]: rule.interval })
+  }
+  return out
+}
+
+/**
+ * Instance starts of a recurrence set in a window: the rule's instances and
+ * RDATEs, less EXDATEs, in order. Without a rule the set is the start and
+ * its RDATEs.
+ */
+export function expandRecurrenceSet(set: RecurrenceSet, window: { from: Date; to: Date }): Date[] {
+  const inWindow = (d: Date) => d >= window.from && d < window.to
+  const starts = set.rule
+    ? expandRecurrence(set.start, set.rule, { ...window, timeZone: set.timeZone })
+    : [set.start].filter(inWindow)
+  const excluded = new Set((set.exdates ?? []).map((d) => d.getTime()))
+  const all = new Map<number, Date>()
+  for (const d of [...starts, ...(set.rdates ?? []).filter(inWindow)]) {
+    if (!excluded.has(d.getTime())) all.set(d.getTime(), d)
+  }
+  return Array.from(all.values()).sort((a, b) => a.getTime() - b.getTime()).slice(0, MAX_INSTANCES)
+}
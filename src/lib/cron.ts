@@ -193,6 +193,14 @@ export async function runScheduledTasks() {
     results.tasks.cleanup = { error: (error as Error).message }
   }
 
+  try {
+    // Warn about expiring ZATCA device certificates (daily)
+    const { checkZatcaCertificates } = await import('@/lib/cron/zatca-certificates')
+    results.tasks.zatcaCertificates = await checkZatcaCertificates()
+  } catch (error) {
+    results.tasks.zatcaCertificates = { error: (error as Error).message }
+  }
+
   try {
     // Generate monthly reports (first day of each month)
     const today = new Date()
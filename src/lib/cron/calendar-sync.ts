@@ -0,0 +1,8 @@
+import { calendarSyncService } from '@/lib/calendar/calendar-sync-service'
+import { logAudit } from '@/lib/audit'
+
+export async function runCalendarSync(now: Date = new Date()) {
+  const result = await calendarSyncService.syncDue(now)
+  try { await logAudit({ action: 'cron:calendar-sync', details: { ...result } }) } catch {}
+  return result
+}
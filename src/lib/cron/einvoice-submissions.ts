@@ -0,0 +1,8 @@
+import { einvoiceSubmissionQueue, type SubmissionRunResult } from '@/lib/einvoicing/submission-queue'
+import { logAudit } from '@/lib/audit'
+
+export async function runEInvoiceSubmissions(now: Date = new Date()): Promise<SubmissionRunResult> {
+  const result = await einvoiceSubmissionQueue.runDue(now)
+  try { await logAudit({ action: 'cron:einvoice-submissions', details: { ...result } }) } catch {}
+  return result
+}
@@ -0,0 +1,8 @@
+import { etaReceiptService, type ReceiptRunResult } from '@/lib/einvoicing/eta-receipts'
+import { logAudit } from '@/lib/audit'
+
+export async function runETAReceipts(now: Date = new Date()): Promise<ReceiptRunResult> {
+  const result = await etaReceiptService.run(now)
+  try { await logAudit({ action: 'cron:eta-receipts', details: { ...result } }) } catch {}
+  return result
+}
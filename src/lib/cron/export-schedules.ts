@@ -0,0 +1,8 @@
+import { exportScheduleRunner, type ExportRunResult } from '@/lib/services/exports/export-schedule-runner'
+import { logAudit } from '@/lib/audit'
+
+export async function runExportSchedules(now: Date = new Date()): Promise<ExportRunResult> {
+  const result = await exportScheduleRunner.runDue(now)
+  try { await logAudit({ action: 'cron:export-schedules', details: { ...result } }) } catch {}
+  return result
+}
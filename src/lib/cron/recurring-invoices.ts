@@ -0,0 +1,8 @@
+import { recurringInvoiceService, type RecurringRunResult } from '@/lib/invoicing/recurring-service'
+import { logAudit } from '@/lib/audit'
+
+export async function generateRecurringInvoices(now: Date = new Date()): Promise<RecurringRunResult> {
+  const result = await recurringInvoiceService.generateDue(now)
+  try { await logAudit({ action: 'cron:recurring-invoices', details: { ...result } }) } catch {}
+  return result
+}
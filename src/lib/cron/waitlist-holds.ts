@@ -0,0 +1,8 @@
+import { bookingWaitlistService, type WaitlistHoldRunResult } from '@/lib/booking/waitlist'
+import { logAudit } from '@/lib/audit'
+
+export async function expireWaitlistHolds(now: Date = new Date()): Promise<WaitlistHoldRunResult> {
+  const result = await bookingWaitlistService.expireHolds(now)
+  try { await logAudit({ action: 'cron:waitlist-holds', details: { ...result } }) } catch {}
+  return result
+}
@@ -0,0 +1,8 @@
+import { zatcaOnboardingService, type ExpiryCheckResult } from '@/lib/einvoicing/zatca-onboarding'
+import { logAudit } from '@/lib/audit'
+
+export async function checkZatcaCertificates(now: Date = new Date()): Promise<ExpiryCheckResult> {
+  const result = await zatcaOnboardingService.notifyExpiringCertificates(now)
+  try { await logAudit({ action: 'cron:zatca-certificates', details: { ...result } }) } catch {}
+  return result
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import { toPEM } from '../asn1'
+import { MockETAReceipts } from '../eta-client'
+import { buildReceipt, receiptUuid, serializeETA, toETADocument, type ETAReceiptSeller } from '../eta-document'
+import { PEMKeyProvider, signETADocument, verifyETADocument } from '../eta-signer'
+import { MockFatoora } from '../fatoora-mock'
+import { generateCSR } from '../zatca-csr'
+import { certificateBody } from '../zatca-signer'
+import { EgyptEReceiptWorkflow } from '@/lib/tax-workflows/egypt-workflows'
+import type { ETAInvoice } from '../types'
+
+const SELLER: ETAReceiptSeller = {
+  rin: '123456789',
+  companyTradeName: 'Cairo Clinic',
+  branchCode: '0',
+  branchAddress: { country: 'EG', governate: 'Cairo', regionCity: 'Nasr City', street: 'Abbas El Akkad', buildingNumber: '12' },
+  deviceSerialNumber: 'POS-1',
+  activityCode: '8620',
+}
+
+const INVOICE: ETAInvoice = {
+  id: 'inv-1',
+  uuid: 'uuid-1',
+  invoiceNumber: 'INV-1',
+  invoiceType: 'STANDARD',
+  documentType: 'INVOICE',
+  issueDate: new Date('2026-10-19T10:00:00.123Z'),
+  seller: { name: 'Cairo Clinic', taxNumber: '123456789', address: 'Abbas El Akkad', city: 'Cairo', activity: '8620' },
+  buyer: { name: 'Nile Trading', taxNumber: '987654321' },
+  lineItems: [{ id: 'item-1', description: 'Consultation', quantity: 2, unitPrice: 500, taxPercent: 14, taxAmount: 140, lineTotal: 1000 }],
+  totals: { subtotal: 1000, discountTotal: 0, taxTotal: 140, total: 1140 },
+  status: 'DRAFT',
+  createdAt: new Date('2026-10-19T10:00:00Z'),
+}
+
+function receipt(receiptNumber: string, previousUUID: string) {
+  return buildReceipt({
+    seller: SELLER,
+    receiptNumber,
+    dateTimeIssued: new Date('2026-10-19T10:00:00Z'),
+    previousUUID,
+    items: [{ internalCode: 'C1', description: 'Consultation', itemCode: 'EG-123456789-1', quantity: 1, unitPrice: 100 }],
+  })
+}
+
+// An EC key and certificate issued by the Fatoora mock's CA
+async function keyProvider(): Promise<PEMKeyProvider> {
+  const { csr, privateKey } = generateCSR({
+    commonName: 'ETA Signer',
+    organizationName: 'Cairo Clinic',
+    organizationUnitName: 'Cairo',
+    egsSerialNumber: '1-Clinic|2-POS|3-0001',
+    vatNumber: '399999999900003',
+    invoiceType: '1100',
+    location: 'Cairo',
+    industry: 'Health',
+    environment: 'sandbox',
+  })
+  const { binarySecurityToken } = await new MockFatoora().issueComplianceCSID(csr, '123345')
+  const certificate = toPEM(Buffer.from(certificateBody(binarySecurityToken), 'base64'), 'CERTIFICATE')
+  return new PEMKeyProvider(privateKey, certificate)
+}
+
+describe('serializeETA', () => {
+  it('upper-cases and quotes names, repeats array names and skips signatures', () => {
+    const serialized = serializeETA({
+      issuer: { id: '123', name: 'A "B"' },
+      references: ['r1', 'r2'],
+      lines: [{ total: 1.5 }],
+      missing: undefined,
+      empty: null,
+      signatures: [{ signatureType: 'I', value: 'x' }],
+    })
+    expect(serialized).toBe(
+      '"ISSUER""ID""123""NAME""A "B"""REFERENCES""REFERENCES""r1""REFERENCES""r2""LINES""LINES""TOTAL""1.5""EMPTY"""'
+    )
+  })
+
+  it('builds an ETA document with totals and UTC timestamps without milliseconds', () => {
+    const document = toETADocument(INVOICE)
+    expect(document.dateTimeIssued).toBe('2026-10-19T10:00:00Z')
+    expect(document.receiver).toMatchObject({ type: 'B', id: '987654321' })
+    expect(document.taxTotals).toEqual([{ taxType: 'T1', amount: 140 }])
+    expect(document.totalAmount).toBe(1140)
+  })
+})
+
+describe('receipt UUIDs', () => {
+  it('hashes the receipt with an empty uuid and chains to the previous receipt', () => {
+    const first = receipt('R-1', '')
+    const second = receipt('R-2', first.header.uuid)
+
+    expect(first.header.uuid).toMatch(/^[0-9a-f]{64}$/)
+    expect(receiptUuid(first)).toBe(first.header.uuid)
+    expect(second.header.previousUUID).toBe(first.header.uuid)
+    expect(receipt('R-2', '').header.uuid).not.toBe(second.header.uuid)
+    expect(first.totalAmount).toBe(114)
+  })
+
+  it('is rejected by ETA when the receipt was changed or the chain is broken', async () => {
+    const eta = new MockETAReceipts()
+    const credentials = { clientId: '', clientSecret: '', posSerial: 'POS-1', posOsVersion: 'os' }
+    const first = receipt('R-1', '')
+    const tampered = { ...receipt('R-2', first.header.uuid), totalAmount: 1 }
+    const orphan = receipt('R-3', 'f'.repeat(64))
+
+    const response = await eta.submitReceipts(credentials, [first, tampered, orphan])
+    expect(response.accepted.map((r) => r.receiptNumber)).toEqual(['R-1'])
+    expect(response.rejected.map((r) => r.errors[0])).toEqual(['uuid: does not match the receipt', 'previousUUID: unknown receipt'])
+
+    const status = await eta.submissionStatus(credentials, response.submissionUuid)
+    expect(status.receipts).toEqual([{ uuid: first.header.uuid, status: 'Valid', errors: [] }])
+  })
+})
+
+describe('CAdES signing', () => {
+  it('signs the serialized document and verifies it', async () => {
+    const signingTime = new Date('2026-10-19T10:00:00Z')
+    const signed = await signETADocument(toETADocument(INVOICE), await keyProvider(), signingTime)
+
+    expect(signed.signatures).toHaveLength(1)
+    const result = verifyETADocument(signed)
+    expect(result.errors).toEqual([])
+    expect(result.valid).toBe(true)
+    expect(result.signingTime?.toISOString()).toBe(signingTime.toISOString())
+    expect(result.certificate?.subject).toContain('CN=ETA Signer')
+  })
+
+  it('detects a document changed after signing', async () => {
+    const signed = await signETADocument(toETADocument(INVOICE), await keyProvider())
+    const result = verifyETADocument({ ...signed, totalAmount: 1 })
+    expect(result.valid).toBe(false)
+    expect(result.errors).toContain('message digest does not match the content')
+  })
+
+  it('reports an unsigned document', () => {
+    expect(verifyETADocument(toETADocument(INVOICE)).errors).toEqual(['signature: document is not signed'])
+  })
+})
+
+describe('EgyptEReceiptWorkflow', () => {
+  const workflow = new EgyptEReceiptWorkflow()
+  const filing = {
+    receiptCount: 10,
+    returnCount: 1,
+    totalSales: 1000,
+    totalReturns: 100,
+    totalTax: 126,
+    pendingCount: 0,
+    invalidCount: 0,
+  }
+
+  it('blocks a filing while receipts are invalid and warns about pending ones', () => {
+    expect(workflow.validateEReceiptFiling(filing).isValid).toBe(true)
+    expect(workflow.validateEReceiptFiling({ ...filing, invalidCount: 2 }).isValid).toBe(false)
+    const pending = workflow.validateEReceiptFiling({ ...filing, pendingCount: 3 })
+    expect(pending.isValid).toBe(true)
+    expect(pending.warnings).toHaveLength(1)
+  })
+
+  it('takes the tax from the receipts', () => {
+    expect(workflow.calculateEReceipt(filing).taxAmount).toBe(126)
+  })
+})
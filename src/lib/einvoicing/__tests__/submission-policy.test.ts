@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { isTransientFatooraError } from '../fatoora'
+import { MockFatoora, requiredComplianceKinds } from '../fatoora-mock'
+import { complianceSamples } from '../zatca-onboarding'
+import { generateCSR, type CSRParams } from '../zatca-csr'
+import { signZATCAInvoice } from '../zatca-signer'
+import { INITIAL_PREVIOUS_HASH } from '../zatca-ubl'
+import {
+  isOverdue,
+  prioritize,
+  retryDelayMs,
+  submissionDeadline,
+  submissionMode,
+  zatcaOutcome,
+} from '../submission-policy'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const NOW = new Date('2026-10-19T10:00:00Z')
+
+const PARAMS: CSRParams = {
+  commonName: 'EGS1-Riyadh',
+  organizationName: 'Accounting & Co',
+  organizationUnitName: 'Riyadh Branch',
+  egsSerialNumber: '1-Accounting|2-EGS|3-ed22f1d8-e6a2-1118-9b58-d9a8f11e445f',
+  vatNumber: '399999999900003',
+  invoiceType: '1100',
+  location: '1234 King Fahd Road Riyadh',
+  industry: 'Professional services',
+  environment: 'sandbox',
+}
+
+const DEVICE = {
+  id: 'device-1',
+  name: 'EGS1-Riyadh',
+  sellerName: 'Accounting & Co',
+  vatNumber: '399999999900003',
+  crNumber: '1010010000',
+  address: { streetName: 'King Fahd Road', buildingNumber: '1234', cityName: 'Riyadh', postalCode: '12345' },
+} as any
+
+/** Run the mock's onboarding and return production credentials */
+async function onboard(fatoora: MockFatoora) {
+  const { csr, privateKey } = generateCSR(PARAMS)
+  const compliance = await fatoora.issueComplianceCSID(csr, '123345')
+  const complianceCredentials = { binarySecurityToken: compliance.binarySecurityToken, secret: compliance.secret }
+  let previousHash = INITIAL_PREVIOUS_HASH
+  for (const [index, { invoice }] of complianceSamples(DEVICE, requiredComplianceKinds('1100')).entries()) {
+    const certificate = { privateKey, certificate: compliance.binarySecurityToken, algorithm: 'SHA256_ECDSA' as const }
+    const signed = signZATCAInvoice(invoice, certificate, { icv: index + 1, previousHash })
+    await fatoora.checkCompliance(complianceCredentials, { invoiceHash: signed.invoiceHash, uuid: invoice.uuid, xml: signed.xml })
+    previousHash = signed.invoiceHash
+  }
+  const production = await fatoora.issueProductionCSID(complianceCredentials, compliance.requestId)
+  return {
+    privateKey,
+    credentials: { binarySecurityToken: production.binarySecurityToken, secret: production.secret },
+  }
+}
+
+describe('submission policy', () => {
+  it('clears standard invoices, reports simplified ones and submits ETA documents', () => {
+    expect(submissionMode('ZATCA', false)).toBe('CLEARANCE')
+    expect(submissionMode('ZATCA', true)).toBe('REPORTING')
+    expect(submissionMode('ETA', false)).toBe('SUBMISSION')
+  })
+
+  it('gives reporting 24 hours from signing and ETA 7 days from issue', () => {
+    expect(submissionDeadline('REPORTING', { signedAt: NOW })!.getTime()).toBe(NOW.getTime() + 24 * HOUR)
+    expect(submissionDeadline('SUBMISSION', { issuedAt: NOW })!.getTime()).toBe(NOW.getTime() + 7 * 24 * HOUR)
+    expect(submissionDeadline('CLEARANCE', { signedAt: NOW })).toBeNull()
+  })
+
+  it('backs off exponentially up to an hour, and keeps retries inside the window', () => {
+    expect([1, 2, 3, 4].map((n) => retryDelayMs(n, null, NOW))).toEqual([MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE])
+    expect(retryDelayMs(12, null, NOW)).toBe(HOUR)
+    expect(retryDelayMs(12, new Date(NOW.getTime() + 20 * MINUTE), NOW)).toBe(10 * MINUTE)
+    expect(retryDelayMs(12, new Date(NOW.getTime() - HOUR), NOW)).toBe(MINUTE)
+  })
+
+  it('sends clearances first, then the closest deadline', () => {
+    const at = (minutes: number) => new Date(NOW.getTime() + minutes * MINUTE)
+    const ordered = prioritize([
+      { id: 'eta', mode: 'SUBMISSION', deadlineAt: at(600), nextAttemptAt: at(-30) },
+      { id: 'report', mode: 'REPORTING', deadlineAt: at(60), nextAttemptAt: at(-5) },
+      { id: 'clear', mode: 'CLEARANCE', deadlineAt: null, nextAttemptAt: at(-1) },
+    ])
+    expect(ordered.map((s) => s.id)).toEqual(['clear', 'report', 'eta'])
+  })
+
+  it('flags pending submissions past their deadline', () => {
+    const past = new Date(NOW.getTime() - MINUTE)
+    expect(isOverdue({ status: 'RETRYING', deadlineAt: past }, NOW)).toBe(true)
+    expect(isOverdue({ status: 'REPORTED', deadlineAt: past }, NOW)).toBe(false)
+    expect(isOverdue({ status: 'QUEUED', deadlineAt: null }, NOW)).toBe(false)
+  })
+
+  it('only retries transport failures, rate limits and server errors', () => {
+    expect(isTransientFatooraError(new Error('Fatoora request failed: TypeError: fetch failed'))).toBe(true)
+    expect(isTransientFatooraError(new Error('Fatoora request failed (503): Service Unavailable'))).toBe(true)
+    expect(isTransientFatooraError(new Error('Fatoora request failed (429): Too Many Requests'))).toBe(true)
+    expect(isTransientFatooraError(new Error('Fatoora request failed (401): Unauthorized'))).toBe(false)
+  })
+})
+
+describe('clearance and reporting against the Fatoora mock', () => {
+  it('clears a standard invoice and rejects reporting it', async () => {
+    const fatoora = new MockFatoora()
+    const { privateKey, credentials } = await onboard(fatoora)
+    const { invoice } = complianceSamples(DEVICE, ['standard-invoice'])[0]
+    const certificate = { privateKey, certificate: credentials.binarySecurityToken, algorithm: 'SHA256_ECDSA' as const }
+    const signed = signZATCAInvoice(invoice, certificate, { icv: 1, previousHash: INITIAL_PREVIOUS_HASH })
+    const document = { invoiceHash: signed.invoiceHash, uuid: invoice.uuid, xml: signed.xml }
+
+    const cleared = await fatoora.clearInvoice(credentials, document)
+    expect(zatcaOutcome('CLEARANCE', cleared)).toBe('CLEARED')
+    expect(cleared.clearedXml).toBe(signed.xml)
+
+    const reported = await fatoora.reportInvoice(credentials, document)
+    expect(zatcaOutcome('REPORTING', reported)).toBe('REJECTED')
+    expect(reported.errors.join()).toContain('must be cleared')
+  })
+
+  it('reports a simplified invoice and rejects one with a wrong hash', async () => {
+    const fatoora = new MockFatoora()
+    const { privateKey, credentials } = await onboard(fatoora)
+    const { invoice } = complianceSamples(DEVICE, ['simplified-invoice'])[0]
+    const certificate = { privateKey, certificate: credentials.binarySecurityToken, algorithm: 'SHA256_ECDSA' as const }
+    const signed = signZATCAInvoice(invoice, certificate, { icv: 1, previousHash: INITIAL_PREVIOUS_HASH })
+
+    const reported = await fatoora.reportInvoice(credentials, { invoiceHash: signed.invoiceHash, uuid: invoice.uuid, xml: signed.xml })
+    expect(zatcaOutcome('REPORTING', reported)).toBe('REPORTED')
+
+    const tampered = await fatoora.reportInvoice(credentials, { invoiceHash: INITIAL_PREVIOUS_HASH, uuid: invoice.uuid, xml: signed.xml })
+    expect(zatcaOutcome('REPORTING', tampered)).toBe('REJECTED')
+    expect(tampered.errors).toContain('invoiceHash: does not match the invoice')
+  })
+})
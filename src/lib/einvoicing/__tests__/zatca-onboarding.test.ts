@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { X509Certificate } from 'crypto'
+import { MockFatoora, requiredComplianceKinds } from '../fatoora-mock'
+import { complianceSamples } from '../zatca-onboarding'
+import { generateCSR, OIDS, parseCSR, publicKeyOf, type CSRParams } from '../zatca-csr'
+import { certificateBody, signZATCAInvoice, verifyZATCAInvoice } from '../zatca-signer'
+import { INITIAL_PREVIOUS_HASH } from '../zatca-ubl'
+import { openSecret, sealSecret } from '@/lib/security/secret-box'
+import type { CertificateData } from '../types'
+
+const PARAMS: CSRParams = {
+  commonName: 'EGS1-Riyadh',
+  organizationName: 'Accounting & Co',
+  organizationUnitName: 'Riyadh Branch',
+  egsSerialNumber: '1-Accounting|2-EGS|3-ed22f1d8-e6a2-1118-9b58-d9a8f11e445f',
+  vatNumber: '399999999900003',
+  invoiceType: '1100',
+  location: '1234 King Fahd Road Riyadh',
+  industry: 'Professional services',
+  environment: 'sandbox',
+}
+
+const DEVICE = {
+  id: 'device-1',
+  name: 'EGS1-Riyadh',
+  sellerName: 'Accounting & Co',
+  vatNumber: '399999999900003',
+  crNumber: '1010010000',
+  address: { streetName: 'King Fahd Road', buildingNumber: '1234', cityName: 'Riyadh', postalCode: '12345' },
+} as any
+
+function certificateData(privateKey: string, token: string): CertificateData {
+  return { privateKey, certificate: token, algorithm: 'SHA256_ECDSA' }
+}
+
+async function passComplianceSuite(fatoora: MockFatoora, privateKey: string, token: string, secret: string) {
+  let previousHash = INITIAL_PREVIOUS_HASH
+  const results = []
+  for (const [index, { invoice }] of complianceSamples(DEVICE, requiredComplianceKinds('1100')).entries()) {
+    const signed = signZATCAInvoice(invoice, certificateData(privateKey, token), { icv: index + 1, previousHash })
+    results.push(await fatoora.checkCompliance(
+      { binarySecurityToken: token, secret },
+      { invoiceHash: signed.invoiceHash, uuid: invoice.uuid, xml: signed.xml }
+    ))
+    previousHash = signed.invoiceHash
+  }
+  return results
+}
+
+describe('generateCSR', () => {
+  it('carries the ZATCA subject, template and EGS details', () => {
+    const { csr, privateKey } = generateCSR(PARAMS)
+    const parsed = parseCSR(csr)
+
+    expect(parsed.signatureValid).toBe(true)
+    expect(parsed.subject[OIDS.countryName]).toBe('SA')
+    expect(parsed.subject[OIDS.commonName]).toBe('EGS1-Riyadh')
+    expect(parsed.templateName).toBe('TSTZATCA-Code-Signing')
+    expect(parsed.alternativeName[OIDS.surname]).toBe(PARAMS.egsSerialNumber)
+    expect(parsed.alternativeName[OIDS.userId]).toBe('399999999900003')
+    expect(parsed.alternativeName[OIDS.title]).toBe('1100')
+    expect(parsed.publicKeyInfo.equals(publicKeyOf(privateKey))).toBe(true)
+  })
+
+  it('rejects a malformed EGS serial number', () => {
+    expect(() => generateCSR({ ...PARAMS, egsSerialNumber: 'EGS-1' })).toThrow('Invalid EGS serial number')
+  })
+})
+
+describe('secret box', () => {
+  beforeAll(() => {
+    process.env.SECRETS_ENCRYPTION_KEY = Buffer.alloc(32, 7).toString('base64')
+  })
+
+  it('round trips and detects tampering', () => {
+    const sealed = sealSecret('private key')
+    expect(sealed).not.toContain('private key')
+    expect(openSecret(sealed)).toBe('private key')
+
+    const parts = sealed.split(':')
+    parts[3] = Buffer.from('other value').toString('base64')
+    expect(() => openSecret(parts.join(':'))).toThrow()
+  })
+})
+
+describe('onboarding against the Fatoora mock', () => {
+  it('issues a compliance CSID that certifies the CSR key', async () => {
+    const fatoora = new MockFatoora()
+    const { csr, privateKey } = generateCSR(PARAMS)
+    const response = await fatoora.issueComplianceCSID(csr, '123345')
+
+    const certificate = new X509Certificate(Buffer.from(certificateBody(response.binarySecurityToken), 'base64'))
+    expect((certificate.publicKey.export({ type: 'spki', format: 'der' }) as Buffer).equals(publicKeyOf(privateKey))).toBe(true)
+    expect(certificate.subject).toContain('CN=EGS1-Riyadh')
+  })
+
+  it('rejects an invalid OTP', async () => {
+    const fatoora = new MockFatoora()
+    await expect(fatoora.issueComplianceCSID(generateCSR(PARAMS).csr, '12')).rejects.toThrow('Invalid-OTP')
+  })
+
+  it('only issues a production CSID once every invoice kind passes', async () => {
+    const fatoora = new MockFatoora()
+    const { csr, privateKey } = generateCSR(PARAMS)
+    const compliance = await fatoora.issueComplianceCSID(csr, '123345')
+    const credentials = { binarySecurityToken: compliance.binarySecurityToken, secret: compliance.secret }
+
+    await expect(fatoora.issueProductionCSID(credentials, compliance.requestId)).rejects.toThrow('Compliance checks incomplete')
+
+    const results = await passComplianceSuite(fatoora, privateKey, compliance.binarySecurityToken, compliance.secret)
+    expect(results.map((r) => r.status)).toEqual(Array(6).fill('PASS'))
+    expect(results[0].clearanceStatus).toBe('CLEARED')
+    expect(results[3].reportingStatus).toBe('REPORTED')
+
+    const production = await fatoora.issueProductionCSID(credentials, compliance.requestId)
+    const invoice = complianceSamples(DEVICE, ['simplified-invoice'])[0].invoice
+    const signed = signZATCAInvoice(invoice, certificateData(privateKey, production.binarySecurityToken), { icv: 1, previousHash: INITIAL_PREVIOUS_HASH })
+    expect(verifyZATCAInvoice(signed.xml).valid).toBe(true)
+  })
+
+  it('fails compliance checks for invoices signed with another certificate', async () => {
+    const fatoora = new MockFatoora()
+    const first = generateCSR(PARAMS)
+    const second = generateCSR(PARAMS)
+    const compliance = await fatoora.issueComplianceCSID(first.csr, '123345')
+    const other = await fatoora.issueComplianceCSID(second.csr, '123345')
+
+    const { invoice } = complianceSamples(DEVICE, ['simplified-invoice'])[0]
+    const signed = signZATCAInvoice(invoice, certificateData(second.privateKey, other.binarySecurityToken), { icv: 1, previousHash: INITIAL_PREVIOUS_HASH })
+    const result = await fatoora.checkCompliance(
+      { binarySecurityToken: compliance.binarySecurityToken, secret: compliance.secret },
+      { invoiceHash: signed.invoiceHash, uuid: invoice.uuid, xml: signed.xml }
+    )
+    expect(result.status).toBe('ERROR')
+    expect(result.reportingStatus).toBe('NOT_REPORTED')
+  })
+
+  it('renews a production CSID and revokes the old one', async () => {
+    const fatoora = new MockFatoora({ productionValidityDays: 10 })
+    const { csr, privateKey } = generateCSR(PARAMS)
+    const compliance = await fatoora.issueComplianceCSID(csr, '123345')
+    await passComplianceSuite(fatoora, privateKey, compliance.binarySecurityToken, compliance.secret)
+    const production = await fatoora.issueProductionCSID(
+      { binarySecurityToken: compliance.binarySecurityToken, secret: compliance.secret },
+      compliance.requestId
+    )
+    const expiresAt = new Date(new X509Certificate(Buffer.from(certificateBody(production.binarySecurityToken), 'base64')).validTo)
+    expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(10 * 24 * 60 * 60 * 1000)
+
+    const current = { binarySecurityToken: production.binarySecurityToken, secret: production.secret }
+    const renewed = await fatoora.renewProductionCSID(current, generateCSR(PARAMS).csr, '654321')
+    expect(renewed.binarySecurityToken).not.toBe(production.binarySecurityToken)
+    await expect(fatoora.renewProductionCSID(current, generateCSR(PARAMS).csr, '654321')).rejects.toThrow('Unauthorized')
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Minimal DER encoding and decoding
+ * Enough ASN.1 to build ZATCA certificate signing requests and ETA CAdES
+ * signatures, and for the Fatoora mock to read CSRs back and issue
+ * certificates. Node's crypto can sign and parse certificates but cannot
+ * build CSRs or CMS structures.
+ */
+
+export interface DERNode {
+  tag: number
+  // Full encoding, header included
+  der: Buffer
+  // Content octets
+  value: Buffer
+  children: DERNode[]
+}
+
+const CONSTRUCTED = 0x20
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length])
+  const bytes: number[] = []
+  for (let n = length; n > 0; n = Math.floor(n / 256)) bytes.unshift(n & 0xff)
+  return Buffer.from([0x80 | bytes.length, ...bytes])
+}
+
+export function tlv(tag: number, value: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(value.length), value])
+}
+
+export const sequence = (...items: Buffer[]) => tlv(0x30, Buffer.concat(items))
+export const set = (...items: Buffer[]) => tlv(0x31, Buffer.concat(items))
+// DER requires SET OF members in ascending order of their encodings
+export const setOf = (...items: Buffer[]) => set(...[...items].sort(Buffer.compare))
+export const utf8 = (text: string) => tlv(0x0c, Buffer.from(text, 'utf8'))
+export const printable = (text: string) => tlv(0x13, Buffer.from(text, 'ascii'))
+export const octetString = (value: Buffer) => tlv(0x04, value)
+export const nullValue = () => Buffer.from([0x05, 0x00])
+
+// Context-specific tags: explicit wraps an encoding, implicit replaces the tag of a constructed value
+export const explicit = (tagNumber: number, value: Buffer) => tlv(0xa0 | tagNumber, value)
+export const implicitConstructed = (tagNumber: number, ...items: Buffer[]) => tlv(0xa0 | tagNumber, Buffer.concat(items))
+
+export function integer(value: number | Buffer): Buffer {
+  let bytes: Buffer
+  if (typeof value === 'number') {
+    const list: number[] = []
+    for (let n = value; n > 0; n = Math.floor(n / 256)) list.unshift(n & 0xff)
+    bytes = Buffer.from(list.length ? list : [0])
+  } else {
+    let start = 0
+    while (start < value.length - 1 && value[start] === 0) start++
+    bytes = value.subarray(start)
+  }
+  if (bytes[0] & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes])
+  return tlv(0x02, bytes)
+}
+
+export function bitString(value: Buffer): Buffer {
+  return tlv(0x03, Buffer.concat([Buffer.from([0]), value]))
+}
+
+export function oid(dotted: string): Buffer {
+  const parts = dotted.split('.').map(Number)
+  const bytes: number[] = [parts[0] * 40 + parts[1]]
+  for (const part of parts.slice(2)) {
+    const chunk: number[] = [part & 0x7f]
+    for (let n = Math.floor(part / 128); n > 0; n = Math.floor(n / 128)) chunk.unshift((n & 0x7f) | 0x80)
+    bytes.push(...chunk)
+  }
+  return tlv(0x06, Buffer.from(bytes))
+}
+
+/** UTCTime until 2049, GeneralizedTime after, as RFC 5280 requires */
+export function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14)
+  return date.getUTCFullYear() < 2050
+    ? tlv(0x17, Buffer.from(`${iso.slice(2)}Z`, 'ascii'))
+    : tlv(0x18, Buffer.from(`${iso}Z`, 'ascii'))
+}
+
+export function readDER(der: Buffer, offset = 0): DERNode {
+  const tag = der[offset]
+  let length = der[offset + 1]
+  let header = 2
+  if (length & 0x80) {
+    const count = length & 0x7f
+    length = 0
+    for (let i = 0; i < count; i++) length = length * 256 + der[offset + 2 + i]
+    header += count
+  }
+  if (offset + header + length > der.length) throw new Error('Invalid DER: length exceeds input')
+
+  const value = der.subarray(offset + header, offset + header + length)
+  const children: DERNode[] = []
+  if (tag & CONSTRUCTED) {
+    let position = 0
+    while (position < value.length) {
+      const child = readDER(value, position)
+      children.push(child)
+      position += child.der.length
+    }
+  }
+  return { tag, der: der.subarray(offset, offset + header + length), value, children }
+}
+
+export function readOid(node: DERNode): string {
+  const bytes = node.value
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40]
+  let current = 0
+  for (const byte of bytes.subarray(1)) {
+    current = current * 128 + (byte & 0x7f)
+    if (!(byte & 0x80)) {
+      parts.push(current)
+      current = 0
+    }
+  }
+  return parts.join('.')
+}
+
+export function readString(node: DERNode): string {
+  return node.value.toString(node.tag === 0x0c ? 'utf8' : 'latin1')
+}
+
+export function toPEM(der: Buffer, label: string): string {
+  const lines = der.toString('base64').match(/.{1,64}/g) || []
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`
+}
+
+export function fromPEM(pem: string): Buffer {
+  return Buffer.from(pem.replace(/-----(BEGIN|END)[^-]+-----/g, '').replace(/\s+/g, ''), 'base64')
+}
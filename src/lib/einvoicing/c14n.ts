@@ -0,0 +1,154 @@
+/**
+ * XML Canonicalization (C14N 1.1, without comments)
+ * Serializes a document in canonical form so that hashes and signatures
+ * do not depend on formatting: no XML declaration or comments, attributes
+ * and namespace declarations sorted, superfluous namespace declarations
+ * dropped, empty elements written as start/end tag pairs and text escaped
+ * the canonical way.
+ */
+
+import { xml2js, type Element } from 'xml-js'
+
+export interface CanonicalizeOptions {
+  /** Leave matching elements (and their subtrees) out of the output */
+  exclude?: (element: Element, path: string[]) => boolean
+}
+
+type Scope = Map<string, string>
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r/g, '&#xD;')
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;')
+}
+
+/** Parse XML into the element tree the canonicalizer works on */
+export function parseXml(xml: string): Element {
+  // XML processors normalize line endings before anything else
+  const normalized = xml.replace(/\r\n?/g, '\n')
+  return xml2js(normalized, { compact: false, captureSpacesBetweenElements: true, trim: false }) as Element
+}
+
+/** Local name of a possibly prefixed element or attribute name */
+export function localName(name: string): string {
+  const colon = name.indexOf(':')
+  return colon === -1 ? name : name.slice(colon + 1)
+}
+
+function serializeElement(
+  element: Element,
+  rendered: Scope,
+  declared: Scope,
+  path: string[],
+  options: CanonicalizeOptions
+): string {
+  const attributes = element.attributes || {}
+  const inScope = new Map(declared)
+  for (const [name, value] of Object.entries(attributes)) {
+    if (name === 'xmlns') inScope.set('', String(value))
+    else if (name.startsWith('xmlns:')) inScope.set(name.slice(6), String(value))
+  }
+
+  // Namespace declarations: only those the nearest output ancestor does not already render
+  const namespaces: Array<[string, string]> = []
+  const output = new Map(rendered)
+  for (const [prefix, uri] of inScope) {
+    if (rendered.get(prefix) === uri) continue
+    // An empty default namespace only needs rendering to undo an inherited one
+    if (prefix === '' && uri === '' && !rendered.get('')) continue
+    namespaces.push([prefix, uri])
+    output.set(prefix, uri)
+  }
+  namespaces.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+
+  const plain = Object.entries(attributes)
+    .filter(([name]) => name !== 'xmlns' && !name.startsWith('xmlns:'))
+    .map(([name, value]) => {
+      const colon = name.indexOf(':')
+      const uri = colon === -1 ? '' : inScope.get(name.slice(0, colon)) ?? ''
+      return { name, value: String(value), uri, local: localName(name) }
+    })
+    .sort((a, b) => (a.uri === b.uri ? (a.local < b.local ? -1 : a.local > b.local ? 1 : 0) : a.uri < b.uri ? -1 : 1))
+
+  let out = `<${element.name}`
+  for (const [prefix, uri] of namespaces) {
+    out += prefix ? ` xmlns:${prefix}="${escapeAttribute(uri)}"` : ` xmlns="${escapeAttribute(uri)}"`
+  }
+  for (const attribute of plain) {
+    out += ` ${attribute.name}="${escapeAttribute(attribute.value)}"`
+  }
+  out += '>'
+  out += serializeChildren(element.elements || [], output, inScope, [...path, element.name!], options)
+  return out + `</${element.name}>`
+}
+
+function serializeChildren(
+  children: Element[],
+  rendered: Scope,
+  declared: Scope,
+  path: string[],
+  options: CanonicalizeOptions
+): string {
+  let out = ''
+  for (const child of children) {
+    switch (child.type) {
+      case 'element':
+        if (options.exclude?.(child, path)) continue
+        out += serializeElement(child, rendered, declared, path, options)
+        break
+      case 'text':
+        out += escapeText(String(child.text ?? ''))
+        break
+      case 'cdata':
+        out += escapeText(String(child.cdata ?? ''))
+        break
+      default:
+        // Comments, processing instructions and doctypes are not part of the canonical form
+        break
+    }
+  }
+  return out
+}
+
+/**
+ * Canonical form of an XML document or of an element parsed from one
+ */
+export function canonicalize(input: string | Element, options: CanonicalizeOptions = {}): string {
+  const tree = typeof input === 'string' ? parseXml(input) : input
+  const root = tree.type === 'element' ? tree : (tree.elements || []).find((e) => e.type === 'element')
+  if (!root) throw new Error('Invalid XML: no document element')
+  return serializeElement(root, new Map([['', '']]), new Map(), [], options)
+}
+
+/**
+ * Depth-first search for the first element with the given (prefixed) name
+ */
+export function findElement(tree: Element, name: string): Element | null {
+  for (const child of tree.elements || []) {
+    if (child.type !== 'element') continue
+    if (child.name === name) return child
+    const found = findElement(child, name)
+    if (found) return found
+  }
+  return null
+}
+
+/** Concatenated text content of an element */
+export function textOf(element: Element | null): string {
+  if (!element) return ''
+  return (element.elements || [])
+    .map((child) => (child.type === 'text' ? String(child.text ?? '') : child.type === 'cdata' ? String(child.cdata ?? '') : textOf(child)))
+    .join('')
+}
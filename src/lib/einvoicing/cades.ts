@@ -0,0 +1,161 @@
+/**
+ * CAdES-BES signatures
+ * Detached CMS SignedData with the signed attributes CAdES-BES requires
+ * (content type, signing time, message digest and the signing certificate
+ * as ESSCertIDv2), as the ETA expects on e-invoice documents. Signing goes
+ * through a SigningKey so the private key can stay on a token or HSM.
+ */
+
+import { createHash, verify, X509Certificate } from 'crypto'
+import {
+  explicit,
+  implicitConstructed,
+  integer,
+  nullValue,
+  octetString,
+  oid,
+  readDER,
+  readOid,
+  sequence,
+  set,
+  setOf,
+  time,
+  type DERNode,
+} from './asn1'
+
+export interface SigningKey {
+  // DER encoded signing certificate
+  certificate: Buffer
+  // Signature of data with SHA-256, DER encoded for EC keys
+  sign(data: Buffer): Promise<Buffer>
+}
+
+export interface CAdESVerification {
+  valid: boolean
+  errors: string[]
+  signingTime: Date | null
+  certificate: X509Certificate | null
+}
+
+const OID = {
+  signedData: '1.2.840.113549.1.7.2',
+  data: '1.2.840.113549.1.7.1',
+  digestedData: '1.2.840.113549.1.7.5',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+}
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest()
+const attribute = (type: string, value: Buffer) => sequence(oid(type), set(value))
+
+/** Issuer name and serial number nodes of a certificate */
+function issuerAndSerial(certificate: Buffer): { issuer: DERNode; serial: DERNode } {
+  const tbs = readDER(certificate).children[0]
+  // The version is an explicit [0] and absent from v1 certificates
+  const fields = tbs.children[0].tag === 0xa0 ? tbs.children.slice(1) : tbs.children
+  return { serial: fields[0], issuer: fields[2] }
+}
+
+function signatureAlgorithm(certificate: Buffer): Buffer {
+  const keyType = new X509Certificate(certificate).publicKey.asymmetricKeyType
+  if (keyType === 'rsa') return sequence(oid(OID.rsaEncryption), nullValue())
+  if (keyType === 'ec') return sequence(oid(OID.ecdsaWithSHA256))
+  throw new Error(`Unsupported signing key type: ${keyType}`)
+}
+
+/**
+ * Sign content as detached CAdES-BES and return the base64 CMS. The ETA
+ * declares the encapsulated content as digestedData rather than data.
+ */
+export async function signCAdES(
+  content: Buffer,
+  key: SigningKey,
+  options: { signingTime?: Date; contentType?: string } = {}
+): Promise<string> {
+  const contentType = options.contentType ?? OID.digestedData
+  const { issuer, serial } = issuerAndSerial(key.certificate)
+  const digestAlgorithm = sequence(oid(OID.sha256))
+
+  const essCertIdV2 = sequence(
+    octetString(sha256(key.certificate)),
+    // IssuerSerial: GeneralNames with the issuer as directoryName [4]
+    sequence(sequence(explicit(4, issuer.der)), serial.der)
+  )
+  const signedAttributes = [
+    attribute(OID.contentType, oid(contentType)),
+    attribute(OID.signingTime, time(options.signingTime ?? new Date())),
+    attribute(OID.messageDigest, octetString(sha256(content))),
+    attribute(OID.signingCertificateV2, sequence(sequence(essCertIdV2))),
+  ]
+  // Signed as a SET OF, embedded with an implicit [0] tag
+  const signedAttributesSet = setOf(...signedAttributes)
+  const signature = await key.sign(signedAttributesSet)
+
+  const signerInfo = sequence(
+    integer(1),
+    sequence(issuer.der, serial.der),
+    digestAlgorithm,
+    Buffer.concat([Buffer.from([0xa0]), signedAttributesSet.subarray(1)]),
+    signatureAlgorithm(key.certificate),
+    octetString(signature)
+  )
+  const signedData = sequence(
+    // Version 3 because the encapsulated content type is not id-data
+    integer(contentType === OID.data ? 1 : 3),
+    set(digestAlgorithm),
+    sequence(oid(contentType)),
+    implicitConstructed(0, key.certificate),
+    set(signerInfo)
+  )
+  return sequence(oid(OID.signedData), explicit(0, signedData)).toString('base64')
+}
+
+/**
+ * Check a detached CAdES signature against its content and embedded
+ * certificate. Certificate trust is not evaluated.
+ */
+export function verifyCAdES(signatureBase64: string, content: Buffer): CAdESVerification {
+  const errors: string[] = []
+  let signingTime: Date | null = null
+  let certificate: X509Certificate | null = null
+
+  try {
+    const contentInfo = readDER(Buffer.from(signatureBase64, 'base64'))
+    if (readOid(contentInfo.children[0]) !== OID.signedData) throw new Error('not a SignedData structure')
+    const signedData = contentInfo.children[1].children[0]
+    const certificates = signedData.children.find((node) => node.tag === 0xa0)
+    if (!certificates?.children.length) throw new Error('signing certificate is missing')
+    certificate = new X509Certificate(certificates.children[0].der)
+
+    const signerInfo = signedData.children[signedData.children.length - 1].children[0]
+    const signedAttributes = signerInfo.children.find((node) => node.tag === 0xa0)
+    if (!signedAttributes) throw new Error('signed attributes are missing')
+    const signature = signerInfo.children[signerInfo.children.length - 1].value
+
+    const attributes = new Map(signedAttributes.children.map((a) => [readOid(a.children[0]), a.children[1].children[0]]))
+    const digest = attributes.get(OID.messageDigest)
+    if (!digest || !digest.value.equals(sha256(content))) errors.push('message digest does not match the content')
+    const certificateId = attributes.get(OID.signingCertificateV2)?.children[0]?.children[0]?.children[0]
+    if (!certificateId || !certificateId.value.equals(sha256(certificates.children[0].der))) {
+      errors.push('signing certificate attribute does not match the certificate')
+    }
+    const time = attributes.get(OID.signingTime)
+    if (time) {
+      const text = time.value.toString('ascii')
+      const full = time.tag === 0x17 ? `${Number(text.slice(0, 2)) < 50 ? '20' : '19'}${text}` : text
+      signingTime = new Date(`${full.slice(0, 4)}-${full.slice(4, 6)}-${full.slice(6, 8)}T${full.slice(8, 10)}:${full.slice(10, 12)}:${full.slice(12, 14)}Z`)
+    }
+
+    const signedBytes = Buffer.concat([Buffer.from([0x31]), signedAttributes.der.subarray(1)])
+    if (!verify('sha256', signedBytes, certificate.publicKey, signature)) errors.push('signature is not valid')
+  } catch (error) {
+    errors.push(`signature: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  return { valid: errors.length === 0, errors, signingTime, certificate }
+}
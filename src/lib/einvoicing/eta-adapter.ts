@@ -1,5 +1,6 @@
-import { createHash, createSign } from 'crypto'
 import { logger } from '@/lib/logger'
+import { toETADocument } from './eta-document'
+import { PEMKeyProvider, signETADocument, verifyETADocument } from './eta-signer'
 import {
   ETAInvoice,
   EInvoicingProvider,
@@ -11,7 +12,7 @@ import {
 
 /**
  * Egypt Tax Authority (ETA) E-Invoicing Adapter
- * Implements XML-DSig digital signatures and ETA submission
+ * Signs the ETA JSON document as CAdES-BES and handles ETA submission
  */
 export class ETAAdapter implements EInvoicingProvider {
   standard = 'ETA' as const
@@ -127,23 +128,13 @@ export class ETAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Sign invoice with XML-DSig (XAdES-EPES)
+   * Sign the invoice's ETA document (canonical JSON) as CAdES-BES and
+   * return the base64 signature value
    */
   async sign(invoice: ETAInvoice, certificate: CertificateData): Promise<string> {
     try {
-      const invoiceXML = this.generateXML(invoice)
-
-      // Create XML signature
-      const signer = createSign('sha256')
-      signer.update(invoiceXML)
-
-      const signature = signer.sign(
-        {
-          key: certificate.privateKey,
-          passphrase: certificate.password,
-        },
-        'base64'
-      )
+      const document = await signETADocument(toETADocument(invoice), PEMKeyProvider.fromCertificateData(certificate))
+      const signature = document.signatures![0].value
 
       logger.info('ETA invoice signed', {
         invoiceNumber: invoice.invoiceNumber,
@@ -231,12 +222,8 @@ export class ETAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Validate signature
-   *
-   * PRODUCTION NOTE: This is a mock implementation. For production:
-   * - Implement proper XML-DSig signature verification
-   * - Validate against ETA-provided certificates
-   * - Ensure cryptographic integrity of invoice data
+   * Validate the issuer signature against the invoice's ETA document.
+   * Certificate trust is not evaluated.
    */
   async validateSignature(invoice: ETAInvoice): Promise<boolean> {
     try {
@@ -247,15 +234,17 @@ export class ETAAdapter implements EInvoicingProvider {
         return false
       }
 
-      // Mock validation - checks if signature exists
-      // In production, implement proper XML-DSig verification
-      logger.debug('ETA signature validation: Using mock implementation', {
-        invoiceNumber: invoice.invoiceNumber,
-        hasSignature: !!invoice.signature,
-        environment: process.env.NODE_ENV,
+      const result = verifyETADocument({
+        ...toETADocument(invoice),
+        signatures: [{ signatureType: 'I', value: invoice.signature }],
       })
-
-      return true
+      if (!result.valid) {
+        logger.warn('ETA signature validation failed', {
+          invoiceNumber: invoice.invoiceNumber,
+          errors: result.errors,
+        })
+      }
+      return result.valid
     } catch (error) {
       logger.error('ETA signature validation failed', {
         invoiceNumber: invoice.invoiceNumber,
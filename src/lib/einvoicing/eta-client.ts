@@ -0,0 +1,201 @@
+/**
+ * ETA e-receipt API client
+ * Submits batches of receipts from a POS and reads back their validation
+ * status. The POS authenticates with client credentials and its serial
+ * number. ETA_API_MODE=mock (the default outside production) uses an
+ * in-memory mock that checks receipt UUIDs and their chaining.
+ */
+
+import { logger } from '@/lib/logger'
+import { receiptUuid, type ETAReceipt } from './eta-document'
+
+export interface ETAPOSCredentials {
+  clientId: string
+  clientSecret: string
+  posSerial: string
+  posOsVersion: string
+}
+
+export interface ReceiptSubmissionResponse {
+  submissionUuid: string
+  accepted: Array<{ uuid: string; receiptNumber: string }>
+  rejected: Array<{ uuid: string; receiptNumber: string; errors: string[] }>
+}
+
+export type ReceiptValidationStatus = 'Submitted' | 'Valid' | 'Invalid'
+
+export interface ReceiptSubmissionStatus {
+  status: 'InProgress' | 'Valid' | 'PartiallyValid' | 'Invalid'
+  receipts: Array<{ uuid: string; status: ReceiptValidationStatus; errors: string[] }>
+}
+
+export interface ETAReceiptClient {
+  submitReceipts(credentials: ETAPOSCredentials, receipts: ETAReceipt[]): Promise<ReceiptSubmissionResponse>
+  submissionStatus(credentials: ETAPOSCredentials, submissionUuid: string): Promise<ReceiptSubmissionStatus>
+}
+
+// ETA accepts at most this many receipts per submission
+export const MAX_RECEIPTS_PER_SUBMISSION = 500
+
+type Message = { message?: string; details?: Message[] }
+
+function messages(error: Message | undefined): string[] {
+  if (!error) return []
+  const details = (error.details || []).flatMap(messages)
+  return details.length > 0 ? details : [error.message || 'Invalid receipt']
+}
+
+export class HttpETAReceiptClient implements ETAReceiptClient {
+  private tokens = new Map<string, { token: string; expiresAt: number }>()
+
+  constructor(private apiUrl: string, private identityUrl: string) {}
+
+  private async token(credentials: ETAPOSCredentials): Promise<string> {
+    const cached = this.tokens.get(credentials.posSerial)
+    if (cached && cached.expiresAt > Date.now()) return cached.token
+
+    const payload = await this.fetchJSON(`${this.identityUrl}/connect/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        posserial: credentials.posSerial,
+        pososversion: credentials.posOsVersion,
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+      }).toString(),
+    })
+    // Refresh a minute early
+    this.tokens.set(credentials.posSerial, { token: payload.access_token, expiresAt: Date.now() + (payload.expires_in - 60) * 1000 })
+    return payload.access_token
+  }
+
+  private async fetchJSON(url: string, init: RequestInit): Promise<any> {
+    let response: Response
+    try {
+      response = await fetch(url, init)
+    } catch (error) {
+      throw new Error(`ETA request failed: ${String(error)}`)
+    }
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      const detail = payload?.error?.message || payload?.error_description || payload?.error || response.statusText
+      logger.warn('ETA request rejected', { url, status: response.status, detail })
+      throw new Error(`ETA request failed (${response.status}): ${detail}`)
+    }
+    return payload
+  }
+
+  async submitReceipts(credentials: ETAPOSCredentials, receipts: ETAReceipt[]): Promise<ReceiptSubmissionResponse> {
+    const payload = await this.fetchJSON(`${this.apiUrl}/api/v1/receiptsubmissions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await this.token(credentials)}` },
+      body: JSON.stringify({ receipts }),
+    })
+    return {
+      submissionUuid: payload.submissionId,
+      accepted: (payload.acceptedDocuments || []).map((d: any) => ({ uuid: d.uuid, receiptNumber: d.receiptNumber })),
+      rejected: (payload.rejectedDocuments || []).map((d: any) => ({
+        uuid: d.uuid,
+        receiptNumber: d.receiptNumber,
+        errors: messages(d.error),
+      })),
+    }
+  }
+
+  async submissionStatus(credentials: ETAPOSCredentials, submissionUuid: string): Promise<ReceiptSubmissionStatus> {
+    const payload = await this.fetchJSON(
+      `${this.apiUrl}/api/v1/receiptsubmissions/${encodeURIComponent(submissionUuid)}/details?PageNo=1&PageSize=${MAX_RECEIPTS_PER_SUBMISSION}`,
+      { method: 'GET', headers: { Authorization: `Bearer ${await this.token(credentials)}` } }
+    )
+    return {
+      status: payload.status,
+      receipts: (payload.receipts || []).map((r: any) => ({
+        uuid: r.uuid,
+        status: r.status,
+        errors: (r.errors || []).flatMap(messages),
+      })),
+    }
+  }
+}
+
+/**
+ * In-memory ETA: rejects receipts whose UUID does not match their content
+ * or whose previous UUID is unknown, and validates the rest straight away
+ */
+export class MockETAReceipts implements ETAReceiptClient {
+  private receipts = new Map<string, ReceiptValidationStatus>()
+  private submissions = new Map<string, string[]>()
+  private nextSubmission = 1
+
+  async submitReceipts(_credentials: ETAPOSCredentials, receipts: ETAReceipt[]): Promise<ReceiptSubmissionResponse> {
+    if (receipts.length > MAX_RECEIPTS_PER_SUBMISSION) throw new Error('ETA request failed (400): Too many receipts')
+    const response: ReceiptSubmissionResponse = {
+      submissionUuid: `mock-submission-${this.nextSubmission++}`,
+      accepted: [],
+      rejected: [],
+    }
+    for (const receipt of receipts) {
+      const { uuid, previousUUID, receiptNumber } = receipt.header
+      const errors: string[] = []
+      if (receiptUuid(receipt) !== uuid) errors.push('uuid: does not match the receipt')
+      if (this.receipts.has(uuid)) errors.push('uuid: receipt already submitted')
+      if (previousUUID && !this.receipts.has(previousUUID)) errors.push('previousUUID: unknown receipt')
+      if (errors.length > 0) {
+        response.rejected.push({ uuid, receiptNumber, errors })
+      } else {
+        this.receipts.set(uuid, 'Valid')
+        response.accepted.push({ uuid, receiptNumber })
+      }
+    }
+    this.submissions.set(response.submissionUuid, response.accepted.map((r) => r.uuid))
+    return response
+  }
+
+  async submissionStatus(_credentials: ETAPOSCredentials, submissionUuid: string): Promise<ReceiptSubmissionStatus> {
+    const uuids = this.submissions.get(submissionUuid)
+    if (!uuids) throw new Error('ETA request failed (404): Submission not found')
+    return {
+      status: uuids.length > 0 ? 'Valid' : 'Invalid',
+      receipts: uuids.map((uuid) => ({ uuid, status: this.receipts.get(uuid) ?? 'Submitted', errors: [] })),
+    }
+  }
+}
+
+let mockReceipts: MockETAReceipts | null = null
+// Kept for the life of the process so access tokens are reused
+let httpReceipts: HttpETAReceiptClient | null = null
+
+/** Retry transport failures, rate limiting and server errors */
+export function isTransientETAError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error)
+  if (!message.startsWith('ETA request failed')) return false
+  const status = message.match(/^ETA request failed \((\d{3})\)/)
+  return !status || status[1] === '429' || status[1].startsWith('5')
+}
+
+/** POS credentials from ETA_CLIENT_ID and ETA_API_KEY */
+export function etaPOSCredentials(posSerial: string): ETAPOSCredentials {
+  const clientId = process.env.ETA_CLIENT_ID
+  const clientSecret = process.env.ETA_API_KEY
+  if (etaMode() !== 'mock' && (!clientId || !clientSecret)) throw new Error('ETA API credentials not configured')
+  return { clientId: clientId || '', clientSecret: clientSecret || '', posSerial, posOsVersion: process.env.ETA_POS_OS_VERSION || 'os' }
+}
+
+function etaMode(): string {
+  return process.env.ETA_API_MODE || (process.env.NODE_ENV === 'production' ? 'live' : 'mock')
+}
+
+export function etaReceiptClient(): ETAReceiptClient {
+  if (etaMode() === 'mock') {
+    mockReceipts ??= new MockETAReceipts()
+    return mockReceipts
+  }
+  httpReceipts ??= new HttpETAReceiptClient(
+    process.env.ETA_API_URL || 'https://api.invoicing.eta.gov.eg',
+    process.env.ETA_ID_URL || 'https://id.eta.gov.eg'
+  )
+  return httpReceipts
+}
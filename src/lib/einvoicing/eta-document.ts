@@ -0,0 +1,309 @@
+/**
+ * ETA documents and receipts
+ * The JSON structures the Egyptian Tax Authority accepts (e-invoice
+ * document v1.0, e-receipt v1.2) and its canonical serialization: every
+ * property name upper-cased and quoted, followed by its value; array items
+ * repeat the array's name. Signatures are computed over the serialized
+ * text, and receipt UUIDs are its SHA-256 with the uuid left empty.
+ */
+
+import { createHash } from 'crypto'
+import type { ETAInvoice } from './types'
+
+export interface ETAAddress {
+  branchID?: string
+  country: string
+  governate: string
+  regionCity: string
+  street: string
+  buildingNumber: string
+  postalCode?: string
+  floor?: string
+  room?: string
+  landmark?: string
+  additionalInformation?: string
+}
+
+export interface ETATaxableItem {
+  taxType: string // T1 VAT, T4 WHT, ...
+  amount: number
+  subType: string // V009 general VAT
+  rate: number
+}
+
+export interface ETADocument {
+  issuer: { address: ETAAddress; type: 'B'; id: string; name: string }
+  receiver: { address?: ETAAddress; type: 'B' | 'P' | 'F'; id: string; name: string }
+  documentType: 'I' | 'C' | 'D'
+  documentTypeVersion: '1.0'
+  dateTimeIssued: string
+  taxpayerActivityCode: string
+  internalID: string
+  references?: string[]
+  invoiceLines: Array<{
+    description: string
+    itemType: 'GS1' | 'EGS'
+    itemCode: string
+    unitType: string
+    quantity: number
+    internalCode: string
+    salesTotal: number
+    total: number
+    valueDifference: number
+    totalTaxableFees: number
+    netTotal: number
+    itemsDiscount: number
+    unitValue: { currencySold: string; amountEGP: number }
+    discount: { rate: number; amount: number }
+    taxableItems: ETATaxableItem[]
+  }>
+  totalDiscountAmount: number
+  totalSalesAmount: number
+  netAmount: number
+  taxTotals: Array<{ taxType: string; amount: number }>
+  totalAmount: number
+  extraDiscountAmount: number
+  totalItemsDiscountAmount: number
+  signatures?: Array<{ signatureType: 'I' | 'S'; value: string }>
+}
+
+export interface ETAReceiptSeller {
+  rin: string
+  companyTradeName: string
+  branchCode: string
+  branchAddress: Pick<ETAAddress, 'country' | 'governate' | 'regionCity' | 'street' | 'buildingNumber'>
+  deviceSerialNumber: string
+  activityCode: string
+}
+
+export interface ETAReceipt {
+  header: {
+    dateTimeIssued: string
+    receiptNumber: string
+    uuid: string
+    previousUUID: string
+    referenceUUID?: string // Original receipt of a return
+    currency: string
+    exchangeRate: number
+  }
+  documentType: { receiptType: 'S' | 'R'; typeVersion: '1.2' }
+  seller: ETAReceiptSeller
+  buyer: { type: 'P' | 'B' | 'F'; id?: string; name?: string; mobileNumber?: string }
+  itemData: Array<{
+    internalCode: string
+    description: string
+    itemType: 'GS1' | 'EGS'
+    itemCode: string
+    unitType: string
+    quantity: number
+    unitPrice: number
+    netSale: number
+    totalSale: number
+    total: number
+    taxableItems: ETATaxableItem[]
+  }>
+  totalSales: number
+  totalCommercialDiscount: number
+  netAmount: number
+  totalAmount: number
+  taxTotals: Array<{ taxType: string; amount: number }>
+  paymentMethod: 'C' | 'V' | 'CC' | 'O' // cash, visa, cash with contractor, other
+}
+
+export interface ReceiptItemInput {
+  internalCode: string
+  description: string
+  itemType?: 'GS1' | 'EGS'
+  itemCode: string
+  unitType?: string
+  quantity: number
+  unitPrice: number
+  taxRate?: number
+}
+
+export const ETA_VAT_RATE = 14
+
+/** ETA amounts carry at most five decimals */
+export function etaAmount(value: number): number {
+  return Math.round(value * 100000) / 100000
+}
+
+/** ETA timestamps are UTC without milliseconds */
+export function etaDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+}
+
+/**
+ * Canonical serialization of a document, as the ETA signs and hashes it.
+ * Signatures are excluded, as are undefined properties since JSON drops
+ * them; null serializes as an empty value.
+ */
+export function serializeETA(value: unknown): string {
+  if (value === null) return '""'
+  if (typeof value !== 'object') return `"${String(value)}"`
+
+  let serialized = ''
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (item === undefined || key === 'signatures') continue
+    const name = `"${key.toUpperCase()}"`
+    serialized += name
+    if (Array.isArray(item)) {
+      for (const element of item) serialized += name + serializeETA(element)
+    } else {
+      serialized += serializeETA(item)
+    }
+  }
+  return serialized
+}
+
+/** Receipt UUID: SHA-256 hex of the serialized receipt with an empty uuid */
+export function receiptUuid(receipt: ETAReceipt): string {
+  const unsigned = { ...receipt, header: { ...receipt.header, uuid: '' } }
+  return createHash('sha256').update(serializeETA(unsigned), 'utf8').digest('hex')
+}
+
+function taxTotals(lines: Array<{ taxableItems: ETATaxableItem[] }>): Array<{ taxType: string; amount: number }> {
+  const totals = new Map<string, number>()
+  for (const line of lines) {
+    for (const tax of line.taxableItems) totals.set(tax.taxType, (totals.get(tax.taxType) ?? 0) + tax.amount)
+  }
+  return [...totals].map(([taxType, amount]) => ({ taxType, amount: etaAmount(amount) }))
+}
+
+function address(source: {
+  address?: string
+  building?: string
+  street?: string
+  city?: string
+  governorate?: string
+} | undefined): ETAAddress {
+  return {
+    branchID: '0',
+    country: 'EG',
+    governate: source?.governorate || '',
+    regionCity: source?.city || '',
+    street: source?.street || source?.address || '',
+    buildingNumber: source?.building || '',
+  }
+}
+
+/**
+ * ETA e-invoice document (v1.0) for an invoice. Credit and debit notes
+ * reference the original document's ETA UUID.
+ */
+export function toETADocument(invoice: ETAInvoice, options: { references?: string[] } = {}): ETADocument {
+  const invoiceLines = invoice.lineItems.map((item) => {
+    const salesTotal = etaAmount(item.quantity * item.unitPrice)
+    const discount = etaAmount(item.discount || 0)
+    const netTotal = etaAmount(salesTotal - discount)
+    const taxAmount = etaAmount(item.taxAmount)
+    return {
+      description: item.description,
+      itemType: 'EGS' as const,
+      itemCode: item.itemCode || item.id,
+      unitType: 'EA',
+      quantity: item.quantity,
+      internalCode: item.id,
+      salesTotal,
+      total: etaAmount(netTotal + taxAmount),
+      valueDifference: 0,
+      totalTaxableFees: 0,
+      netTotal,
+      itemsDiscount: 0,
+      unitValue: { currencySold: 'EGP', amountEGP: etaAmount(item.unitPrice) },
+      discount: { rate: 0, amount: discount },
+      taxableItems: [{ taxType: 'T1', amount: taxAmount, subType: 'V009', rate: item.taxPercent }],
+    }
+  })
+
+  const totalSalesAmount = etaAmount(invoiceLines.reduce((sum, line) => sum + line.salesTotal, 0))
+  const totalDiscountAmount = etaAmount(invoiceLines.reduce((sum, line) => sum + line.discount.amount, 0))
+  const netAmount = etaAmount(totalSalesAmount - totalDiscountAmount)
+  const taxes = taxTotals(invoiceLines)
+  const documentType = invoice.documentType === 'CREDIT_NOTE' ? 'C' : invoice.documentType === 'DEBIT_NOTE' ? 'D' : 'I'
+
+  return {
+    issuer: { address: address(invoice.seller), type: 'B', id: invoice.seller.taxNumber, name: invoice.seller.name },
+    receiver: {
+      address: invoice.buyer ? address(invoice.buyer) : undefined,
+      type: invoice.buyer?.taxNumber ? 'B' : 'P',
+      id: invoice.buyer?.taxNumber || invoice.buyer?.identityNumber || '',
+      name: invoice.buyer?.name || '',
+    },
+    documentType,
+    documentTypeVersion: '1.0',
+    dateTimeIssued: etaDateTime(invoice.issueDate),
+    taxpayerActivityCode: invoice.seller.activity || '',
+    internalID: invoice.invoiceNumber,
+    references: documentType === 'I' ? undefined : options.references,
+    invoiceLines,
+    totalDiscountAmount,
+    totalSalesAmount,
+    netAmount,
+    taxTotals: taxes,
+    totalAmount: etaAmount(netAmount + taxes.reduce((sum, tax) => sum + tax.amount, 0)),
+    extraDiscountAmount: 0,
+    totalItemsDiscountAmount: 0,
+  }
+}
+
+/**
+ * ETA e-receipt (v1.2) chained to the POS's previous receipt, with its UUID
+ */
+export function buildReceipt(input: {
+  seller: ETAReceiptSeller
+  receiptNumber: string
+  dateTimeIssued: Date
+  previousUUID: string
+  receiptType?: 'S' | 'R'
+  referenceUUID?: string
+  currency?: string
+  buyer?: ETAReceipt['buyer']
+  items: ReceiptItemInput[]
+  paymentMethod?: ETAReceipt['paymentMethod']
+}): ETAReceipt {
+  const itemData = input.items.map((item) => {
+    const totalSale = etaAmount(item.quantity * item.unitPrice)
+    const rate = item.taxRate ?? ETA_VAT_RATE
+    const taxAmount = etaAmount((totalSale * rate) / 100)
+    return {
+      internalCode: item.internalCode,
+      description: item.description,
+      itemType: item.itemType ?? 'EGS',
+      itemCode: item.itemCode,
+      unitType: item.unitType ?? 'EA',
+      quantity: item.quantity,
+      unitPrice: etaAmount(item.unitPrice),
+      netSale: totalSale,
+      totalSale,
+      total: etaAmount(totalSale + taxAmount),
+      taxableItems: [{ taxType: 'T1', amount: taxAmount, subType: 'V009', rate }],
+    }
+  })
+  const totalSales = etaAmount(itemData.reduce((sum, item) => sum + item.totalSale, 0))
+  const taxes = taxTotals(itemData)
+
+  const receipt: ETAReceipt = {
+    header: {
+      dateTimeIssued: etaDateTime(input.dateTimeIssued),
+      receiptNumber: input.receiptNumber,
+      uuid: '',
+      previousUUID: input.previousUUID,
+      referenceUUID: input.receiptType === 'R' ? input.referenceUUID : undefined,
+      currency: input.currency ?? 'EGP',
+      exchangeRate: 0,
+    },
+    documentType: { receiptType: input.receiptType ?? 'S', typeVersion: '1.2' },
+    seller: input.seller,
+    buyer: input.buyer ?? { type: 'P' },
+    itemData,
+    totalSales,
+    totalCommercialDiscount: 0,
+    netAmount: totalSales,
+    totalAmount: etaAmount(totalSales + taxes.reduce((sum, tax) => sum + tax.amount, 0)),
+    taxTotals: taxes,
+    paymentMethod: input.paymentMethod ?? 'C',
+  }
+  receipt.header.uuid = receiptUuid(receipt)
+  return receipt
+}
@@ -0,0 +1,418 @@
+/**
+ * ETA e-receipts
+ * Issues B2C receipts for an Egyptian entity's POS, each chained to the
+ * POS's previous receipt by UUID, and submits them to ETA in batches. A
+ * receipt is PENDING until its batch is accepted (SUBMITTED), then VALID or
+ * INVALID once ETA has validated it. Period totals feed E_RECEIPT filings.
+ */
+
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import type { EgyptEReceiptFiling } from '@/lib/tax-workflows/types'
+import { buildReceipt, type ETAReceipt, type ETAReceiptSeller, type ReceiptItemInput } from './eta-document'
+import {
+  etaPOSCredentials,
+  etaReceiptClient,
+  isTransientETAError,
+  MAX_RECEIPTS_PER_SUBMISSION,
+} from './eta-client'
+import { retryDelayMs } from './submission-policy'
+
+export interface ReceiptInput {
+  entityId: string
+  posSerial: string
+  branchCode?: string
+  receiptNumber: string
+  dateTimeIssued?: Date
+  receiptType?: 'S' | 'R'
+  referenceUuid?: string
+  currency?: string
+  buyer?: ETAReceipt['buyer']
+  paymentMethod?: ETAReceipt['paymentMethod']
+  items: ReceiptItemInput[]
+}
+
+export interface ReceiptFilters {
+  status?: string
+  posSerial?: string
+  batchId?: string
+  limit?: number
+}
+
+export interface ReceiptRunResult {
+  batches: number
+  submitted: number
+  rejected: number
+  checked: number
+  valid: number
+  invalid: number
+  failed: number
+}
+
+const MAX_CLAIM_ATTEMPTS = 5
+// Batches whose status is still unknown after this many polls are left for an admin
+const MAX_STATUS_CHECKS = 20
+const BATCH_LIMIT = 50
+
+const receiptSelect = {
+  id: true,
+  entityId: true,
+  posSerial: true,
+  sequence: true,
+  receiptNumber: true,
+  receiptType: true,
+  uuid: true,
+  previousUuid: true,
+  referenceUuid: true,
+  dateTimeIssued: true,
+  currency: true,
+  totalAmount: true,
+  taxAmount: true,
+  status: true,
+  batchId: true,
+  errors: true,
+  createdAt: true,
+} satisfies Prisma.EReceiptSelect
+
+function jsonOrNull(list: string[]) {
+  return list.length > 0 ? list : Prisma.DbNull
+}
+
+async function sellerFor(tenantId: string, entityId: string, posSerial: string, branchCode: string): Promise<ETAReceiptSeller> {
+  const entity = await prisma.entity.findFirst({
+    where: { id: entityId, tenantId },
+    include: { registrations: { where: { type: 'TIN' } } },
+  })
+  if (!entity) throw new Error('Entity not found')
+  if (entity.country !== 'EG') throw new Error('E-receipts are only issued for Egyptian entities')
+  const tin = entity.registrations[0]?.value
+  if (!tin) throw new Error('Entity has no ETA tax registration')
+  if (!entity.activityCode) throw new Error('Entity has no ETA activity code')
+
+  const address = ((entity.metadata as Record<string, any> | null)?.address || {}) as Record<string, string>
+  return {
+    rin: tin,
+    companyTradeName: entity.name,
+    branchCode,
+    branchAddress: {
+      country: 'EG',
+      governate: address.governorate || address.governate || '',
+      regionCity: address.city || address.regionCity || '',
+      street: address.street || '',
+      buildingNumber: address.buildingNumber || '',
+    },
+    deviceSerialNumber: posSerial,
+    activityCode: entity.activityCode,
+  }
+}
+
+export class ETAReceiptService {
+  /**
+   * Issue a receipt as the POS's next one. The chain position is claimed
+   * through the unique (POS, sequence) key, so concurrent receipts from one
+   * POS are re-chained rather than forking it.
+   */
+  async issueReceipt(tenantId: string, userId: string | null, input: ReceiptInput) {
+    const seller = await sellerFor(tenantId, input.entityId, input.posSerial, input.branchCode ?? '0')
+
+    const duplicate = await prisma.eReceipt.findFirst({
+      where: { tenantId, posSerial: input.posSerial, receiptNumber: input.receiptNumber },
+      select: { id: true },
+    })
+    if (duplicate) throw new Error('Receipt number already used on this POS')
+
+    if (input.receiptType === 'R') {
+      const original = input.referenceUuid
+        ? await prisma.eReceipt.findFirst({ where: { tenantId, uuid: input.referenceUuid, receiptType: 'S' }, select: { status: true } })
+        : null
+      if (!original || original.status === 'INVALID') throw new Error('Original receipt not found')
+    }
+
+    for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+      const last = await prisma.eReceipt.findFirst({
+        where: { tenantId, posSerial: input.posSerial },
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true, uuid: true },
+      })
+      const receipt = buildReceipt({
+        seller,
+        receiptNumber: input.receiptNumber,
+        dateTimeIssued: input.dateTimeIssued ?? new Date(),
+        previousUUID: last?.uuid ?? '',
+        receiptType: input.receiptType,
+        referenceUUID: input.referenceUuid,
+        currency: input.currency,
+        buyer: input.buyer,
+        items: input.items,
+        paymentMethod: input.paymentMethod,
+      })
+
+      try {
+        const created = await prisma.eReceipt.create({
+          data: {
+            tenantId,
+            entityId: input.entityId,
+            posSerial: input.posSerial,
+            sequence: (last?.sequence ?? 0) + 1,
+            receiptNumber: receipt.header.receiptNumber,
+            receiptType: receipt.documentType.receiptType,
+            uuid: receipt.header.uuid,
+            previousUuid: receipt.header.previousUUID,
+            referenceUuid: receipt.header.referenceUUID ?? null,
+            dateTimeIssued: new Date(receipt.header.dateTimeIssued),
+            currency: receipt.header.currency,
+            totalAmount: receipt.totalAmount,
+            taxAmount: receipt.taxTotals.reduce((sum, tax) => sum + tax.amount, 0),
+            payload: receipt as unknown as Prisma.InputJsonValue,
+            createdBy: userId,
+          },
+          select: receiptSelect,
+        })
+        await logAudit({
+          tenantId,
+          userId: userId ?? undefined,
+          action: 'einvoicing.receipt.issued',
+          resource: `EReceipt:${created.id}`,
+          metadata: { posSerial: created.posSerial, sequence: created.sequence, uuid: created.uuid },
+        })
+        return created
+      } catch (error) {
+        if (String((error as any)?.code) !== 'P2002') throw error
+        logger.warn('E-receipt chain contention, retrying', { posSerial: input.posSerial, attempt })
+      }
+    }
+    throw new Error('Could not reserve the next receipt in the POS chain')
+  }
+
+  /**
+   * Submit each POS's pending receipts in chain order, one batch per POS
+   */
+  async submitPending(now: Date = new Date()): Promise<Pick<ReceiptRunResult, 'batches' | 'submitted' | 'rejected' | 'failed'>> {
+    const result = { batches: 0, submitted: 0, rejected: 0, failed: 0 }
+    const queues = await prisma.eReceipt.groupBy({
+      by: ['tenantId', 'posSerial'],
+      where: { status: 'PENDING', batchId: null },
+      take: BATCH_LIMIT,
+      orderBy: [{ tenantId: 'asc' }, { posSerial: 'asc' }],
+    })
+
+    for (const { tenantId, posSerial } of queues) {
+      const pending = await prisma.eReceipt.findMany({
+        where: { tenantId, posSerial, status: 'PENDING', batchId: null },
+        orderBy: { sequence: 'asc' },
+        take: MAX_RECEIPTS_PER_SUBMISSION,
+        select: { id: true },
+      })
+      const batch = await prisma.eReceiptBatch.create({
+        data: { tenantId, posSerial, receiptCount: pending.length },
+      })
+      const claimed = await prisma.eReceipt.updateMany({
+        where: { id: { in: pending.map((r) => r.id) }, status: 'PENDING', batchId: null },
+        data: { batchId: batch.id },
+      })
+      if (claimed.count === 0) {
+        await prisma.eReceiptBatch.delete({ where: { id: batch.id } })
+        continue
+      }
+
+      const receipts = await prisma.eReceipt.findMany({
+        where: { batchId: batch.id },
+        orderBy: { sequence: 'asc' },
+        select: { id: true, uuid: true, payload: true },
+      })
+      result.batches++
+
+      try {
+        const response = await etaReceiptClient().submitReceipts(
+          etaPOSCredentials(posSerial),
+          receipts.map((r) => r.payload as unknown as ETAReceipt)
+        )
+        const rejected = new Map(response.rejected.map((r) => [r.uuid, r.errors]))
+        for (const receipt of receipts) {
+          const errors = rejected.get(receipt.uuid)
+          await prisma.eReceipt.update({
+            where: { id: receipt.id },
+            data: errors ? { status: 'INVALID', errors: jsonOrNull(errors) } : { status: 'SUBMITTED' },
+          })
+        }
+        await prisma.eReceiptBatch.update({
+          where: { id: batch.id },
+          data: {
+            submissionUuid: response.submissionUuid,
+            status: response.accepted.length > 0 ? 'SUBMITTED' : 'INVALID',
+            receiptCount: receipts.length,
+            acceptedCount: response.accepted.length,
+            rejectedCount: response.rejected.length,
+            invalidCount: response.rejected.length,
+            submittedAt: now,
+            nextCheckAt: response.accepted.length > 0 ? new Date(now.getTime() + retryDelayMs(1, null, now)) : null,
+            completedAt: response.accepted.length > 0 ? null : now,
+          },
+        })
+        result.submitted += response.accepted.length
+        result.rejected += response.rejected.length
+      } catch (error) {
+        // Release the receipts for the next run; the batch keeps the failure
+        const message = error instanceof Error ? error.message : String(error)
+        await prisma.eReceipt.updateMany({ where: { batchId: batch.id }, data: { batchId: null } })
+        await prisma.eReceiptBatch.update({
+          where: { id: batch.id },
+          data: { status: 'FAILED', lastError: message, completedAt: now },
+        })
+        result.failed++
+        logger.warn('E-receipt batch submission failed', { batchId: batch.id, posSerial, transient: isTransientETAError(error), error: message })
+      }
+    }
+    return result
+  }
+
+  /**
+   * Poll ETA for batches still being validated
+   */
+  async refreshBatches(now: Date = new Date()): Promise<Pick<ReceiptRunResult, 'checked' | 'valid' | 'invalid'>> {
+    const result = { checked: 0, valid: 0, invalid: 0 }
+    const batches = await prisma.eReceiptBatch.findMany({
+      where: { status: 'SUBMITTED', nextCheckAt: { lte: now } },
+      orderBy: { nextCheckAt: 'asc' },
+      take: BATCH_LIMIT,
+    })
+
+    for (const batch of batches) {
+      const checks = batch.checks + 1
+      try {
+        const status = await etaReceiptClient().submissionStatus(etaPOSCredentials(batch.posSerial), batch.submissionUuid!)
+        result.checked++
+        for (const receipt of status.receipts) {
+          if (receipt.status === 'Submitted') continue
+          const updated = await prisma.eReceipt.updateMany({
+            where: { batchId: batch.id, uuid: receipt.uuid, status: 'SUBMITTED' },
+            data: receipt.status === 'Valid'
+              ? { status: 'VALID' }
+              : { status: 'INVALID', errors: jsonOrNull(receipt.errors) },
+          })
+          if (updated.count === 0) continue
+          if (receipt.status === 'Valid') result.valid++
+          else result.invalid++
+        }
+
+        const counts = await prisma.eReceipt.groupBy({ by: ['status'], where: { batchId: batch.id }, _count: { _all: true } })
+        const count = (s: string) => counts.find((c) => c.status === s)?._count._all ?? 0
+        const outstanding = count('SUBMITTED')
+        const finalStatus = count('INVALID') === 0 ? 'VALID' : count('VALID') === 0 ? 'INVALID' : 'PARTIALLY_VALID'
+        await prisma.eReceiptBatch.update({
+          where: { id: batch.id },
+          data: {
+            checks,
+            validCount: count('VALID'),
+            invalidCount: count('INVALID'),
+            status: outstanding === 0 ? finalStatus : 'SUBMITTED',
+            completedAt: outstanding === 0 ? now : null,
+            nextCheckAt: outstanding === 0 || checks >= MAX_STATUS_CHECKS ? null : new Date(now.getTime() + retryDelayMs(checks + 1, null, now)),
+            lastError: outstanding > 0 && checks >= MAX_STATUS_CHECKS ? 'ETA has not validated every receipt' : null,
+          },
+        })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        await prisma.eReceiptBatch.update({
+          where: { id: batch.id },
+          data: {
+            checks,
+            lastError: message,
+            nextCheckAt: checks >= MAX_STATUS_CHECKS ? null : new Date(now.getTime() + retryDelayMs(checks + 1, null, now)),
+          },
+        })
+        logger.warn('E-receipt status check failed', { batchId: batch.id, error: message })
+      }
+    }
+    return result
+  }
+
+  async run(now: Date = new Date()): Promise<ReceiptRunResult> {
+    const submitted = await this.submitPending(now)
+    const refreshed = await this.refreshBatches(now)
+    return { ...submitted, ...refreshed }
+  }
+
+  async listReceipts(tenantId: string, filters: ReceiptFilters = {}) {
+    return prisma.eReceipt.findMany({
+      where: {
+        tenantId,
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.posSerial ? { posSerial: filters.posSerial } : {}),
+        ...(filters.batchId ? { batchId: filters.batchId } : {}),
+      },
+      select: receiptSelect,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 50,
+    })
+  }
+
+  async listBatches(tenantId: string, filters: { status?: string; limit?: number } = {}) {
+    return prisma.eReceiptBatch.findMany({
+      where: { tenantId, ...(filters.status ? { status: filters.status } : {}) },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 50,
+    })
+  }
+
+  /**
+   * Receipt totals of an entity for a period, shaped as E_RECEIPT filing data
+   */
+  async periodSummary(tenantId: string, entityId: string, from: Date, to: Date, posSerial?: string): Promise<EgyptEReceiptFiling> {
+    const rows = await prisma.eReceipt.groupBy({
+      by: ['receiptType', 'status'],
+      where: { tenantId, entityId, dateTimeIssued: { gte: from, lt: to }, ...(posSerial ? { posSerial } : {}) },
+      _count: { _all: true },
+      _sum: { totalAmount: true, taxAmount: true },
+    })
+
+    const summary: EgyptEReceiptFiling = {
+      posSerial,
+      receiptCount: 0,
+      returnCount: 0,
+      totalSales: 0,
+      totalReturns: 0,
+      totalTax: 0,
+      pendingCount: 0,
+      invalidCount: 0,
+    }
+    for (const row of rows) {
+      const count = row._count._all
+      if (row.status === 'INVALID') {
+        summary.invalidCount += count
+        continue
+      }
+      if (row.status !== 'VALID') summary.pendingCount += count
+      // Tax on returns is refunded, so it reduces the period's tax
+      const sign = row.receiptType === 'R' ? -1 : 1
+      const total = Number(row._sum.totalAmount ?? 0)
+      const tax = Number(row._sum.taxAmount ?? 0)
+      if (row.receiptType === 'R') {
+        summary.returnCount += count
+        summary.totalReturns += total - tax
+      } else {
+        summary.receiptCount += count
+        summary.totalSales += total - tax
+      }
+      summary.totalTax += sign * tax
+    }
+    for (const key of ['totalSales', 'totalReturns', 'totalTax'] as const) summary[key] = Math.round(summary[key] * 100) / 100
+    return summary
+  }
+}
+
+export const etaReceiptService = new ETAReceiptService()
+
+/**
+ * HTTP status for known e-receipt errors, null for unexpected ones
+ */
+export function receiptErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Entity not found' || message === 'Original receipt not found') return 404
+  if (message === 'Receipt number already used on this POS' || message.startsWith('Could not reserve')) return 409
+  if (message.startsWith('E-receipts are only issued') || message.startsWith('Entity has no ETA')) return 400
+  return null
+}
@@ -0,0 +1,90 @@
+/**
+ * ETA document signing
+ * Signs the canonical serialization of an ETA document as CAdES-BES with a
+ * key from an ETAKeyProvider. Locally the key and certificate are PEM files
+ * (or PEM in the environment); a USB token or HSM provider only has to
+ * implement signingKey().
+ */
+
+import { createPrivateKey, sign, type KeyObject } from 'crypto'
+import { readFileSync } from 'fs'
+import { fromPEM } from './asn1'
+import { signCAdES, verifyCAdES, type CAdESVerification, type SigningKey } from './cades'
+import { serializeETA, type ETADocument } from './eta-document'
+import type { CertificateData } from './types'
+
+export interface ETAKeyProvider {
+  readonly name: string
+  signingKey(): Promise<SigningKey>
+}
+
+function pemSigningKey(privateKeyPem: string, certificatePem: string, passphrase?: string): SigningKey {
+  const key: KeyObject = createPrivateKey({ key: privateKeyPem, passphrase })
+  return {
+    certificate: fromPEM(certificatePem),
+    async sign(data: Buffer) {
+      return sign('sha256', data, key)
+    },
+  }
+}
+
+/** Key and certificate given as PEM, e.g. the submission's CertificateData */
+export class PEMKeyProvider implements ETAKeyProvider {
+  readonly name = 'pem'
+
+  constructor(private privateKey: string, private certificate: string, private passphrase?: string) {}
+
+  static fromCertificateData(certificate: CertificateData): PEMKeyProvider {
+    return new PEMKeyProvider(certificate.privateKey, certificate.certificate, certificate.password)
+  }
+
+  async signingKey(): Promise<SigningKey> {
+    return pemSigningKey(this.privateKey, this.certificate, this.passphrase)
+  }
+}
+
+/** Key and certificate read from PEM files on each signature, so they can be rotated in place */
+export class FileKeyProvider implements ETAKeyProvider {
+  readonly name = 'file'
+
+  constructor(private keyFile: string, private certificateFile: string, private passphrase?: string) {}
+
+  async signingKey(): Promise<SigningKey> {
+    return pemSigningKey(readFileSync(this.keyFile, 'utf8'), readFileSync(this.certificateFile, 'utf8'), this.passphrase)
+  }
+}
+
+/**
+ * Provider configured by the environment: ETA_SIGNING_KEY_FILE and
+ * ETA_SIGNING_CERT_FILE, or ETA_PRIVATE_KEY and ETA_CERTIFICATE as PEM
+ */
+export function etaKeyProvider(): ETAKeyProvider {
+  const passphrase = process.env.ETA_SIGNING_KEY_PASSPHRASE || undefined
+  if (process.env.ETA_SIGNING_KEY_FILE && process.env.ETA_SIGNING_CERT_FILE) {
+    return new FileKeyProvider(process.env.ETA_SIGNING_KEY_FILE, process.env.ETA_SIGNING_CERT_FILE, passphrase)
+  }
+  if (process.env.ETA_PRIVATE_KEY && process.env.ETA_CERTIFICATE) {
+    return new PEMKeyProvider(process.env.ETA_PRIVATE_KEY, process.env.ETA_CERTIFICATE, passphrase)
+  }
+  throw new Error('ETA signing key not configured')
+}
+
+/**
+ * Sign a document as its issuer. Any existing signatures are replaced.
+ */
+export async function signETADocument(
+  document: ETADocument,
+  provider: ETAKeyProvider,
+  signingTime: Date = new Date()
+): Promise<ETADocument> {
+  const content = Buffer.from(serializeETA(document), 'utf8')
+  const value = await signCAdES(content, await provider.signingKey(), { signingTime })
+  return { ...document, signatures: [{ signatureType: 'I', value }] }
+}
+
+/** Check the issuer signature of a document against its serialization */
+export function verifyETADocument(document: ETADocument): CAdESVerification {
+  const signature = document.signatures?.find((s) => s.signatureType === 'I')
+  if (!signature) return { valid: false, errors: ['signature: document is not signed'], signingTime: null, certificate: null }
+  return verifyCAdES(signature.value, Buffer.from(serializeETA(document), 'utf8'))
+}
@@ -0,0 +1,233 @@
+/**
+ * Local Fatoora mock
+ * Behaves like the ZATCA onboarding endpoints closely enough to run the whole
+ * onboarding flow offline: it checks OTPs and CSRs, issues real X.509
+ * certificates from an in-memory CA, validates compliance invoices with the
+ * same checks as verifyZATCAInvoice, and only issues a production CSID once
+ * every invoice kind the CSR declared has passed.
+ */
+
+import { generateKeyPairSync, randomBytes, sign, X509Certificate, type KeyObject } from 'crypto'
+import type { Element } from 'xml-js'
+import { bitString, explicit, integer, readDER, sequence, time } from './asn1'
+import { findElement, parseXml, textOf } from './c14n'
+import { algorithmIdentifier, encodeName, OIDS, parseCSR, type ParsedCSR } from './zatca-csr'
+import { certificateBody, verifyZATCAInvoice } from './zatca-signer'
+import type {
+  CSIDResponse,
+  ComplianceCheckResult,
+  ComplianceDocument,
+  FatooraClient,
+  FatooraCredentials,
+  InvoiceSubmissionResult,
+} from './fatoora'
+
+interface IssuedCSID {
+  requestId: string
+  secret: string
+  certificate: string // base64 DER
+  kind: 'compliance' | 'production'
+  invoiceTypes: string
+  passed: Set<string>
+  revoked: boolean
+}
+
+export interface MockFatooraOptions {
+  complianceValidityDays?: number
+  productionValidityDays?: number
+  now?: () => Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Invoice kinds a CSR's invoice type flags (standard, simplified) require */
+export function requiredComplianceKinds(invoiceTypes: string): string[] {
+  const kinds: string[] = []
+  for (const [flag, prefix] of [[invoiceTypes[0], 'standard'], [invoiceTypes[1], 'simplified']]) {
+    if (flag === '1') kinds.push(`${prefix}-invoice`, `${prefix}-credit-note`, `${prefix}-debit-note`)
+  }
+  return kinds
+}
+
+function documentKind(tree: Element): string {
+  const typeCode = findElement(tree, 'cbc:InvoiceTypeCode')
+  const name = String(typeCode?.attributes?.name ?? '')
+  const prefix = name.startsWith('02') ? 'simplified' : 'standard'
+  const suffix = ({ '381': 'credit-note', '383': 'debit-note' } as Record<string, string>)[textOf(typeCode)] ?? 'invoice'
+  return `${prefix}-${suffix}`
+}
+
+export class MockFatoora implements FatooraClient {
+  private caKey: KeyObject
+  private issuer = encodeName([[OIDS.countryName, 'SA'], [OIDS.organizationName, 'Fatoora Mock'], [OIDS.commonName, 'Fatoora Mock CA']])
+  private csids = new Map<string, IssuedCSID>() // by binarySecurityToken
+  private nextRequestId = 1234567890123
+  private options: Required<MockFatooraOptions>
+
+  constructor(options: MockFatooraOptions = {}) {
+    this.caKey = generateKeyPairSync('ec', { namedCurve: 'secp256k1' }).privateKey
+    this.options = {
+      complianceValidityDays: options.complianceValidityDays ?? 30,
+      productionValidityDays: options.productionValidityDays ?? 365,
+      now: options.now ?? (() => new Date()),
+    }
+  }
+
+  private checkOTP(otp: string): void {
+    if (!/^\d{6}$/.test(otp)) throw new Error('Fatoora request failed (400): Invalid-OTP')
+  }
+
+  private checkCSR(csr: string): ParsedCSR {
+    let parsed: ParsedCSR
+    try {
+      parsed = parseCSR(csr)
+    } catch {
+      throw new Error('Fatoora request failed (400): Invalid-CSR')
+    }
+    const name = parsed.alternativeName
+    if (!parsed.signatureValid) throw new Error('Fatoora request failed (400): Invalid-CSR signature')
+    if (!parsed.templateName) throw new Error('Fatoora request failed (400): Missing certificate template name')
+    if (!/^3\d{13}3$/.test(name[OIDS.userId] || '')) throw new Error('Fatoora request failed (400): Invalid VAT number')
+    if (!name[OIDS.surname]) throw new Error('Fatoora request failed (400): Missing EGS serial number')
+    if (!/^[01]{4}$/.test(name[OIDS.title] || '')) throw new Error('Fatoora request failed (400): Invalid invoice type')
+    return parsed
+  }
+
+  private authenticate(credentials: FatooraCredentials, kind: IssuedCSID['kind']): IssuedCSID {
+    const csid = this.csids.get(credentials.binarySecurityToken)
+    if (!csid || csid.secret !== credentials.secret || csid.kind !== kind || csid.revoked) {
+      throw new Error('Fatoora request failed (401): Unauthorized')
+    }
+    const certificate = new X509Certificate(Buffer.from(csid.certificate, 'base64'))
+    if (new Date(certificate.validTo) < this.options.now()) {
+      throw new Error('Fatoora request failed (401): Certificate expired')
+    }
+    return csid
+  }
+
+  private issue(csr: ParsedCSR, kind: IssuedCSID['kind']): CSIDResponse {
+    const now = this.options.now()
+    const days = kind === 'compliance' ? this.options.complianceValidityDays : this.options.productionValidityDays
+    const tbs = sequence(
+      explicit(0, integer(2)),
+      integer(randomBytes(16)),
+      algorithmIdentifier(),
+      this.issuer,
+      sequence(time(now), time(new Date(now.getTime() + days * DAY_MS))),
+      csr.subjectDER,
+      csr.publicKeyInfo,
+      explicit(3, sequence(...csr.extensions))
+    )
+    const certificate = sequence(tbs, algorithmIdentifier(), bitString(sign('sha256', tbs, this.caKey))).toString('base64')
+
+    const csid: IssuedCSID = {
+      requestId: String(this.nextRequestId++),
+      secret: randomBytes(32).toString('base64'),
+      certificate,
+      kind,
+      invoiceTypes: csr.alternativeName[OIDS.title],
+      passed: new Set(),
+      revoked: false,
+    }
+    // Fatoora returns the certificate base64 encoded once more
+    const binarySecurityToken = Buffer.from(certificate, 'latin1').toString('base64')
+    this.csids.set(binarySecurityToken, csid)
+    return { requestId: csid.requestId, dispositionMessage: 'ISSUED', binarySecurityToken, secret: csid.secret }
+  }
+
+  async issueComplianceCSID(csr: string, otp: string): Promise<CSIDResponse> {
+    this.checkOTP(otp)
+    return this.issue(this.checkCSR(csr), 'compliance')
+  }
+
+  /** Same checks Fatoora runs on compliance, clearance and reporting submissions */
+  private validate(csid: IssuedCSID, document: ComplianceDocument): { kind: string; errors: string[] } {
+    const errors: string[] = []
+    let kind = 'unknown'
+    try {
+      const verification = verifyZATCAInvoice(document.xml)
+      errors.push(...verification.errors)
+      if (verification.invoiceHash !== document.invoiceHash) errors.push('invoiceHash: does not match the invoice')
+      const tree = parseXml(document.xml)
+      if (textOf(findElement(tree, 'cbc:UUID')) !== document.uuid) errors.push('uuid: does not match the invoice')
+      const signingCertificate = textOf(findElement(tree, 'ds:X509Certificate'))
+      if (certificateBody(signingCertificate) !== csid.certificate) errors.push('certificate: invoice is not signed with this CSID')
+      kind = documentKind(tree)
+    } catch (error) {
+      errors.push(`invoice: ${String(error)}`)
+    }
+    return { kind, errors }
+  }
+
+  private result(kind: string, errors: string[], clearedXml: string | null = null): InvoiceSubmissionResult {
+    const passed = errors.length === 0
+    const simplified = kind.startsWith('simplified')
+    return {
+      status: passed ? 'PASS' : 'ERROR',
+      reportingStatus: simplified ? (passed ? 'REPORTED' : 'NOT_REPORTED') : null,
+      clearanceStatus: simplified ? null : passed ? 'CLEARED' : 'NOT_CLEARED',
+      warnings: [],
+      errors,
+      clearedXml: passed ? clearedXml : null,
+    }
+  }
+
+  async checkCompliance(credentials: FatooraCredentials, document: ComplianceDocument): Promise<ComplianceCheckResult> {
+    const csid = this.authenticate(credentials, 'compliance')
+    const { kind, errors } = this.validate(csid, document)
+    if (errors.length === 0) csid.passed.add(kind)
+    const { clearedXml: _cleared, ...result } = this.result(kind, errors)
+    return result
+  }
+
+  async clearInvoice(credentials: FatooraCredentials, document: ComplianceDocument): Promise<InvoiceSubmissionResult> {
+    const csid = this.authenticate(credentials, 'production')
+    const { kind, errors } = this.validate(csid, document)
+    if (kind.startsWith('simplified')) errors.push('Invoice type: simplified invoices must be reported, not cleared')
+    return this.result(kind, errors, document.xml)
+  }
+
+  async reportInvoice(credentials: FatooraCredentials, document: ComplianceDocument): Promise<InvoiceSubmissionResult> {
+    const csid = this.authenticate(credentials, 'production')
+    const { kind, errors } = this.validate(csid, document)
+    if (kind.startsWith('standard')) errors.push('Invoice type: standard invoices must be cleared, not reported')
+    return this.result(kind, errors)
+  }
+
+  async issueProductionCSID(credentials: FatooraCredentials, complianceRequestId: string): Promise<CSIDResponse> {
+    const csid = this.authenticate(credentials, 'compliance')
+    if (csid.requestId !== complianceRequestId) throw new Error('Fatoora request failed (400): Unknown compliance request')
+    const missing = requiredComplianceKinds(csid.invoiceTypes).filter((kind) => !csid.passed.has(kind))
+    if (missing.length > 0) {
+      throw new Error(`Fatoora request failed (400): Compliance checks incomplete: ${missing.join(', ')}`)
+    }
+
+    return this.issue(this.reissueFrom(csid), 'production')
+  }
+
+  async renewProductionCSID(credentials: FatooraCredentials, csr: string, otp: string): Promise<CSIDResponse> {
+    this.checkOTP(otp)
+    const current = this.authenticate(credentials, 'production')
+    const renewed = this.issue(this.checkCSR(csr), 'production')
+    current.revoked = true
+    return renewed
+  }
+
+  /** Subject, key and extensions of an issued certificate, to issue its production counterpart */
+  private reissueFrom(csid: IssuedCSID): ParsedCSR {
+    const der = Buffer.from(csid.certificate, 'base64')
+    const certificate = new X509Certificate(der)
+    const tbs = readDER(der).children[0]
+    const [, , , , , subject, publicKeyInfo, extensions] = tbs.children
+    return {
+      subject: {},
+      subjectDER: subject.der,
+      publicKey: certificate.publicKey,
+      publicKeyInfo: publicKeyInfo.der,
+      templateName: null,
+      alternativeName: { [OIDS.title]: csid.invoiceTypes },
+      extensions: extensions.children[0].children.map((e) => e.der),
+      signatureValid: true,
+    }
+  }
+}
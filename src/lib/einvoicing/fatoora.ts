@@ -0,0 +1,188 @@
+/**
+ * Fatoora API client
+ * The ZATCA onboarding and invoicing endpoints: compliance CSID from a CSR
+ * and OTP, compliance invoice checks, production CSID issue and renewal,
+ * clearance of standard (B2B) and reporting of simplified (B2C) invoices.
+ * ZATCA_FATOORA_MODE=mock (the default outside production) uses the local
+ * mock in fatoora-mock.ts so onboarding works without network access.
+ */
+
+import { logger } from '@/lib/logger'
+import { encodeCSR, type FatooraEnvironment } from './zatca-csr'
+import { MockFatoora } from './fatoora-mock'
+
+export interface FatooraCredentials {
+  binarySecurityToken: string
+  secret: string
+}
+
+export interface CSIDResponse extends FatooraCredentials {
+  requestId: string
+  dispositionMessage: string
+}
+
+export interface ComplianceDocument {
+  invoiceHash: string
+  uuid: string
+  xml: string
+}
+
+export interface ComplianceCheckResult {
+  status: 'PASS' | 'WARNING' | 'ERROR'
+  reportingStatus: string | null
+  clearanceStatus: string | null
+  warnings: string[]
+  errors: string[]
+}
+
+export interface InvoiceSubmissionResult extends ComplianceCheckResult {
+  // Cleared invoice as returned by ZATCA (clearance only)
+  clearedXml: string | null
+}
+
+export interface FatooraClient {
+  issueComplianceCSID(csr: string, otp: string): Promise<CSIDResponse>
+  checkCompliance(credentials: FatooraCredentials, document: ComplianceDocument): Promise<ComplianceCheckResult>
+  clearInvoice(credentials: FatooraCredentials, document: ComplianceDocument): Promise<InvoiceSubmissionResult>
+  reportInvoice(credentials: FatooraCredentials, document: ComplianceDocument): Promise<InvoiceSubmissionResult>
+  issueProductionCSID(credentials: FatooraCredentials, complianceRequestId: string): Promise<CSIDResponse>
+  renewProductionCSID(credentials: FatooraCredentials, csr: string, otp: string): Promise<CSIDResponse>
+}
+
+const BASE_URLS: Record<FatooraEnvironment, string> = {
+  sandbox: 'https://gw-fatoora.zatca.gov.sa/e-invoicing/developer-portal',
+  simulation: 'https://gw-fatoora.zatca.gov.sa/e-invoicing/simulation',
+  production: 'https://gw-fatoora.zatca.gov.sa/e-invoicing/core',
+}
+
+type Message = { code?: string; message?: string }
+
+function messages(list: unknown): string[] {
+  return Array.isArray(list) ? list.map((m: Message) => [m?.code, m?.message].filter(Boolean).join(': ')) : []
+}
+
+export class HttpFatooraClient implements FatooraClient {
+  constructor(private baseUrl: string) {}
+
+  private async request(
+    method: 'POST' | 'PATCH',
+    path: string,
+    body: Record<string, string>,
+    options: { credentials?: FatooraCredentials; otp?: string; clearance?: boolean } = {}
+  ): Promise<any> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      'Accept-Language': 'en',
+      'Accept-Version': 'V2',
+      'Content-Type': 'application/json',
+    }
+    if (options.otp) headers.OTP = options.otp
+    if (options.clearance !== undefined) headers['Clearance-Status'] = options.clearance ? '1' : '0'
+    if (options.credentials) {
+      const { binarySecurityToken, secret } = options.credentials
+      headers.Authorization = `Basic ${Buffer.from(`${binarySecurityToken}:${secret}`).toString('base64')}`
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, { method, headers, body: JSON.stringify(body) })
+    } catch (error) {
+      throw new Error(`Fatoora request failed: ${String(error)}`)
+    }
+
+    const payload = await response.json().catch(() => ({}))
+    // 400 on invoice checks carries validation results rather than a transport error
+    if (!response.ok && !(response.status === 400 && payload?.validationResults)) {
+      const detail = messages(payload?.errors).join('; ') || payload?.message || response.statusText
+      logger.warn('Fatoora request rejected', { path, status: response.status, detail })
+      throw new Error(`Fatoora request failed (${response.status}): ${detail}`)
+    }
+    return payload
+  }
+
+  private csid(payload: any): CSIDResponse {
+    return {
+      requestId: String(payload.requestID),
+      dispositionMessage: payload.dispositionMessage,
+      binarySecurityToken: payload.binarySecurityToken,
+      secret: payload.secret,
+    }
+  }
+
+  async issueComplianceCSID(csr: string, otp: string): Promise<CSIDResponse> {
+    return this.csid(await this.request('POST', '/compliance', { csr: encodeCSR(csr) }, { otp }))
+  }
+
+  private invoiceBody(document: ComplianceDocument) {
+    return {
+      invoiceHash: document.invoiceHash,
+      uuid: document.uuid,
+      invoice: Buffer.from(document.xml, 'utf8').toString('base64'),
+    }
+  }
+
+  private submissionResult(payload: any): InvoiceSubmissionResult {
+    const results = payload.validationResults || {}
+    return {
+      status: results.status,
+      reportingStatus: payload.reportingStatus ?? null,
+      clearanceStatus: payload.clearanceStatus ?? null,
+      warnings: messages(results.warningMessages),
+      errors: messages(results.errorMessages),
+      clearedXml: payload.clearedInvoice ? Buffer.from(payload.clearedInvoice, 'base64').toString('utf8') : null,
+    }
+  }
+
+  async checkCompliance(credentials: FatooraCredentials, document: ComplianceDocument): Promise<ComplianceCheckResult> {
+    const { clearedXml: _cleared, ...result } = this.submissionResult(
+      await this.request('POST', '/compliance/invoices', this.invoiceBody(document), { credentials })
+    )
+    return result
+  }
+
+  async clearInvoice(credentials: FatooraCredentials, document: ComplianceDocument): Promise<InvoiceSubmissionResult> {
+    return this.submissionResult(
+      await this.request('POST', '/invoices/clearance/single', this.invoiceBody(document), { credentials, clearance: true })
+    )
+  }
+
+  async reportInvoice(credentials: FatooraCredentials, document: ComplianceDocument): Promise<InvoiceSubmissionResult> {
+    return this.submissionResult(
+      await this.request('POST', '/invoices/reporting/single', this.invoiceBody(document), { credentials, clearance: false })
+    )
+  }
+
+  async issueProductionCSID(credentials: FatooraCredentials, complianceRequestId: string): Promise<CSIDResponse> {
+    return this.csid(await this.request('POST', '/production/csids', { compliance_request_id: complianceRequestId }, { credentials }))
+  }
+
+  async renewProductionCSID(credentials: FatooraCredentials, csr: string, otp: string): Promise<CSIDResponse> {
+    return this.csid(await this.request('PATCH', '/production/csids', { csr: encodeCSR(csr) }, { credentials, otp }))
+  }
+}
+
+let mockFatoora: MockFatoora | null = null
+
+/**
+ * Transport failures worth retrying: no response, rate limiting or a
+ * server error. Rejections (other 4xx) need the document or credentials fixed.
+ */
+export function isTransientFatooraError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error)
+  if (!message.startsWith('Fatoora request failed')) return false
+  const status = message.match(/^Fatoora request failed \((\d{3})\)/)
+  return !status || status[1] === '429' || status[1].startsWith('5')
+}
+
+/**
+ * Client for a Fatoora environment. The mock keeps its state in memory for
+ * the life of the process.
+ */
+export function fatooraClient(environment: FatooraEnvironment): FatooraClient {
+  const mode = process.env.ZATCA_FATOORA_MODE || (process.env.NODE_ENV === 'production' ? 'live' : 'mock')
+  if (mode === 'mock') {
+    mockFatoora ??= new MockFatoora()
+    return mockFatoora
+  }
+  return new HttpFatooraClient(process.env.ZATCA_FATOORA_URL || BASE_URLS[environment])
+}
@@ -0,0 +1,76 @@
+/**
+ * Invoice hash chain verification
+ * Every invoice an EGS unit signs carries the hash of the one before it
+ * (PIH) and the next Invoice Counter Value (ICV). A chain is broken when a
+ * counter is skipped or repeated, a previous hash does not match, or a
+ * stored invoice no longer hashes to the value recorded when it was signed.
+ */
+
+import type { HashChainEntry } from './types'
+import { computeInvoiceHash, INITIAL_PREVIOUS_HASH, readChainValues } from './zatca-ubl'
+
+export interface ChainRecord {
+  id: string
+  icv: number
+  invoiceHash: string
+  previousHash: string
+  createdAt: Date
+  xml?: string | null
+}
+
+export interface HashChainReport {
+  valid: boolean
+  checked: number
+  firstBreak: HashChainEntry | null
+  entries: HashChainEntry[]
+}
+
+/**
+ * Walk a device's stored invoices in counter order and flag every entry
+ * that does not follow from the one before it
+ */
+export function verifyHashChain(records: ChainRecord[]): HashChainReport {
+  const ordered = [...records].sort((a, b) => a.icv - b.icv)
+  const entries: HashChainEntry[] = []
+  let previous: ChainRecord | null = null
+
+  for (const record of ordered) {
+    const reasons: string[] = []
+    const expectedIcv = previous ? previous.icv + 1 : 1
+    const expectedPreviousHash = previous ? previous.invoiceHash : INITIAL_PREVIOUS_HASH
+
+    if (record.icv !== expectedIcv) {
+      reasons.push(previous && record.icv === previous.icv ? `ICV ${record.icv} is repeated` : `Expected ICV ${expectedIcv}, found ${record.icv}`)
+    }
+    if (record.previousHash !== expectedPreviousHash) {
+      reasons.push('Previous invoice hash does not match the preceding invoice')
+    }
+
+    if (record.xml) {
+      const embedded = readChainValues(record.xml)
+      if (computeInvoiceHash(record.xml) !== record.invoiceHash) {
+        reasons.push('Invoice content no longer matches its hash')
+      }
+      if (embedded.icv !== record.icv) {
+        reasons.push('ICV in the invoice differs from the recorded value')
+      }
+      if (embedded.previousHash !== record.previousHash) {
+        reasons.push('PIH in the invoice differs from the recorded value')
+      }
+    }
+
+    entries.push({
+      invoiceId: record.id,
+      invoiceHash: record.invoiceHash,
+      previousHash: record.previousHash,
+      timestamp: record.createdAt,
+      icv: record.icv,
+      status: reasons.length === 0 ? 'valid' : 'broken',
+      ...(reasons.length > 0 && { reason: reasons.join('; ') }),
+    })
+    previous = record
+  }
+
+  const firstBreak = entries.find((e) => e.status === 'broken') ?? null
+  return { valid: firstBreak === null, checked: entries.length, firstBreak, entries }
+}
@@ -0,0 +1,81 @@
+/**
+ * E-invoice submission policy
+ * How each kind of submission is timed and retried. ZATCA standard (B2B)
+ * invoices must be cleared before they are issued to the buyer, so they go
+ * first; simplified (B2C) invoices must be reported within 24 hours of
+ * signing; ETA documents must be submitted within 7 days of issue.
+ * Transient failures back off exponentially, but never past the window.
+ */
+
+import type { InvoiceSubmissionResult } from './fatoora'
+
+export type SubmissionMode = 'CLEARANCE' | 'REPORTING' | 'SUBMISSION'
+
+export type SubmissionStatus =
+  | 'QUEUED'
+  | 'SUBMITTING'
+  | 'RETRYING'
+  | 'CLEARED'
+  | 'REPORTED'
+  | 'ACCEPTED'
+  | 'REJECTED'
+  | 'FAILED'
+  | 'SUPERSEDED'
+
+export const PENDING_STATUSES: SubmissionStatus[] = ['QUEUED', 'SUBMITTING', 'RETRYING']
+export const SUCCESS_STATUSES: SubmissionStatus[] = ['CLEARED', 'REPORTED', 'ACCEPTED']
+// Need a person: the document or the device configuration has to be fixed
+export const ATTENTION_STATUSES: SubmissionStatus[] = ['REJECTED', 'FAILED']
+
+export const MAX_ATTEMPTS = 8
+const HOUR_MS = 60 * 60 * 1000
+const BASE_RETRY_MS = 60 * 1000
+const MAX_RETRY_MS = HOUR_MS
+export const REPORTING_WINDOW_MS = 24 * HOUR_MS
+export const ETA_SUBMISSION_WINDOW_MS = 7 * 24 * HOUR_MS
+// A claim older than this is assumed to belong to a crashed worker
+export const CLAIM_LEASE_MS = 10 * 60 * 1000
+
+export function submissionMode(standard: 'ZATCA' | 'ETA', simplified: boolean): SubmissionMode {
+  if (standard === 'ETA') return 'SUBMISSION'
+  return simplified ? 'REPORTING' : 'CLEARANCE'
+}
+
+/** When the authority's window for the document closes; clearance has none, it blocks issue */
+export function submissionDeadline(mode: SubmissionMode, dates: { signedAt?: Date; issuedAt?: Date }): Date | null {
+  if (mode === 'REPORTING') return new Date((dates.signedAt ?? new Date()).getTime() + REPORTING_WINDOW_MS)
+  if (mode === 'SUBMISSION') return new Date((dates.issuedAt ?? new Date()).getTime() + ETA_SUBMISSION_WINDOW_MS)
+  return null
+}
+
+/**
+ * Delay before retry number `attempts`: 1, 2, 4 ... minutes capped at an
+ * hour, and at most half the time left before the deadline
+ */
+export function retryDelayMs(attempts: number, deadline: Date | null, now: Date): number {
+  const backoff = Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS)
+  if (!deadline) return backoff
+  const remaining = deadline.getTime() - now.getTime()
+  return Math.max(BASE_RETRY_MS, Math.min(backoff, Math.floor(remaining / 2)))
+}
+
+/** Order due submissions: clearances, then the closest deadlines, then the oldest */
+export function prioritize<T extends { mode: string; deadlineAt: Date | null; nextAttemptAt: Date }>(submissions: T[]): T[] {
+  const rank = (s: T) => (s.mode === 'CLEARANCE' ? 0 : 1)
+  return [...submissions].sort((a, b) =>
+    rank(a) - rank(b) ||
+    (a.deadlineAt?.getTime() ?? Infinity) - (b.deadlineAt?.getTime() ?? Infinity) ||
+    a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime()
+  )
+}
+
+/** Final status for a ZATCA clearance or reporting response */
+export function zatcaOutcome(mode: SubmissionMode, result: InvoiceSubmissionResult): SubmissionStatus {
+  if (result.status === 'ERROR') return 'REJECTED'
+  if (mode === 'CLEARANCE') return result.clearanceStatus === 'CLEARED' ? 'CLEARED' : 'REJECTED'
+  return result.reportingStatus === 'REPORTED' ? 'REPORTED' : 'REJECTED'
+}
+
+export function isOverdue(submission: { status: string; deadlineAt: Date | null }, now: Date = new Date()): boolean {
+  return PENDING_STATUSES.includes(submission.status as SubmissionStatus) && !!submission.deadlineAt && submission.deadlineAt < now
+}
@@ -0,0 +1,521 @@
+/**
+ * E-invoice submission queue
+ * Every invoice sent to a tax authority gets an EInvoiceSubmission holding
+ * the signed document and the authority's answer. ZATCA standard invoices
+ * are cleared, simplified invoices reported, ETA documents submitted. A
+ * worker claims due submissions, retries transient failures with backoff
+ * and leaves rejections for an admin to fix and resubmit.
+ */
+
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { findElement, parseXml, textOf } from './c14n'
+import { ETAAdapter } from './eta-adapter'
+import { ETA_VAT_RATE, etaAmount, toETADocument } from './eta-document'
+import { etaKeyProvider, signETADocument } from './eta-signer'
+import { fatooraClient, isTransientFatooraError } from './fatoora'
+import { ZATCAAdapter } from './zatca-adapter'
+import { zatcaOnboardingService } from './zatca-onboarding'
+import { zatcaService } from './zatca-service'
+import type { FatooraEnvironment } from './zatca-csr'
+import type { ETAInvoice } from './types'
+import {
+  ATTENTION_STATUSES,
+  CLAIM_LEASE_MS,
+  MAX_ATTEMPTS,
+  PENDING_STATUSES,
+  SUCCESS_STATUSES,
+  prioritize,
+  retryDelayMs,
+  submissionDeadline,
+  submissionMode,
+  zatcaOutcome,
+  type SubmissionStatus,
+} from './submission-policy'
+
+export interface EnqueueOptions {
+  deviceId?: string
+  buyerTaxId?: string
+}
+
+export interface SubmissionFilters {
+  status?: SubmissionStatus
+  standard?: 'ZATCA' | 'ETA'
+  invoiceId?: string
+  attention?: boolean
+  overdue?: boolean
+  limit?: number
+}
+
+export interface SubmissionRunResult {
+  processed: number
+  completed: number
+  retrying: number
+  rejected: number
+  failed: number
+}
+
+// Cap on submissions handled per cron invocation
+const BATCH_SIZE = 50
+
+// Large documents are only returned by get()
+const summarySelect = {
+  id: true,
+  invoiceId: true,
+  documentId: true,
+  standard: true,
+  mode: true,
+  status: true,
+  invoiceNumber: true,
+  invoiceHash: true,
+  authorityUuid: true,
+  authorityReference: true,
+  warnings: true,
+  errors: true,
+  lastError: true,
+  attempts: true,
+  nextAttemptAt: true,
+  deadlineAt: true,
+  submittedAt: true,
+  completedAt: true,
+  supersededById: true,
+  createdAt: true,
+} satisfies Prisma.EInvoiceSubmissionSelect
+
+type Submission = Prisma.EInvoiceSubmissionGetPayload<{ include: { document: { include: { device: true } } } }>
+
+type Outcome = {
+  status: SubmissionStatus
+  warnings?: string[]
+  errors?: string[]
+  clearedXml?: string | null
+  authorityUuid?: string | null
+  authorityReference?: string | null
+}
+
+// Device or configuration problems: retrying will not help until someone fixes them
+class PermanentSubmissionError extends Error {}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Keep a re-signed invoice standard (B2B) when the rejected one was
+function buyerTaxIdOf(xml: string): string | undefined {
+  const buyer = findElement(parseXml(xml), 'cac:AccountingCustomerParty')
+  const companyId = buyer ? findElement(buyer, 'cbc:CompanyID') : null
+  return companyId ? textOf(companyId) : undefined
+}
+
+function jsonOrNull(list: string[] | undefined) {
+  return list && list.length > 0 ? list : Prisma.DbNull
+}
+
+export class EInvoiceSubmissionQueue {
+  /**
+   * Sign an invoice's ZATCA or ETA document and queue it.
+   * Earlier rejected or failed submissions of the invoice are superseded.
+   */
+  async enqueueInvoice(tenantId: string, userId: string, invoiceId: string, country: 'SA' | 'EG', options: EnqueueOptions = {}) {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      include: {
+        items: { include: { taxCode: { select: { taxRate: true, vatTreatment: true, metadata: true } } } },
+        client: true,
+      },
+    })
+    if (!invoice) throw new Error('Invoice not found')
+
+    const standard = country === 'SA' ? 'ZATCA' : 'ETA'
+    const previous = await prisma.eInvoiceSubmission.findMany({
+      where: { tenantId, invoiceId, standard, status: { not: 'SUPERSEDED' } },
+      select: { id: true, status: true },
+    })
+    if (previous.some((s) => !ATTENTION_STATUSES.includes(s.status as SubmissionStatus))) {
+      throw new Error('Invoice already submitted')
+    }
+
+    const submission = standard === 'ZATCA'
+      ? await this.enqueueZATCA(tenantId, userId, invoice, options)
+      : await this.enqueueETA(tenantId, userId, invoice, options)
+
+    if (previous.length > 0) {
+      await prisma.eInvoiceSubmission.updateMany({
+        where: { id: { in: previous.map((s) => s.id) } },
+        data: { status: 'SUPERSEDED', supersededById: submission.id },
+      })
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'einvoicing.submission.queued',
+      resource: `EInvoiceSubmission:${submission.id}`,
+      metadata: { invoiceId, standard, mode: submission.mode, supersedes: previous.map((s) => s.id) },
+    })
+    return submission
+  }
+
+  private async enqueueZATCA(
+    tenantId: string,
+    userId: string,
+    invoice: Parameters<typeof zatcaService.toZATCAInvoice>[0] & { entityId: string | null },
+    options: EnqueueOptions
+  ) {
+    const device = await zatcaService.deviceForInvoice(tenantId, invoice.entityId, options.deviceId)
+    if (!device) throw new Error('Device has not been onboarded')
+    const certificate = zatcaOnboardingService.certificateFor(device)
+
+    const zatcaInvoice = zatcaService.toZATCAInvoice(invoice, device, { buyerTaxId: options.buyerTaxId })
+    const validation = new ZATCAAdapter().validateInvoice(zatcaInvoice)
+    if (!validation.isValid) {
+      throw new Error(`Invoice fails ZATCA validation: ${validation.errors.map((e) => e.message).join('; ')}`)
+    }
+
+    const document = await zatcaService.signInvoice(tenantId, userId, device.id, zatcaInvoice, certificate, {
+      invoiceId: invoice.id,
+    })
+    const mode = submissionMode('ZATCA', zatcaInvoice.invoiceType === 'SIMPLIFIED')
+    return prisma.eInvoiceSubmission.create({
+      data: {
+        tenantId,
+        invoiceId: invoice.id,
+        documentId: document.id,
+        standard: 'ZATCA',
+        mode,
+        invoiceNumber: document.invoiceNumber,
+        xml: document.xml,
+        invoiceHash: document.invoiceHash,
+        qrCode: document.qrCode,
+        deadlineAt: submissionDeadline(mode, { signedAt: document.signedAt }),
+        createdBy: userId,
+      },
+      select: summarySelect,
+    })
+  }
+
+  private async enqueueETA(
+    tenantId: string,
+    userId: string,
+    invoice: {
+      id: string
+      entityId: string | null
+      number: string | null
+      createdAt: Date
+      items: Array<{ id: string; description: string; quantity: number; unitPriceCents: number }>
+      client?: { name: string | null } | null
+    },
+    options: EnqueueOptions
+  ) {
+    const entity = invoice.entityId
+      ? await prisma.entity.findFirst({
+        where: { id: invoice.entityId, tenantId, country: 'EG' },
+        include: { registrations: { where: { type: 'TIN' } } },
+      })
+      : null
+    if (!entity) throw new Error('Invoice has no Egyptian entity')
+    const address = ((entity.metadata as Record<string, any> | null)?.address || {}) as Record<string, string>
+
+    const issuedAt = new Date()
+    const lineItems = invoice.items.map((item) => {
+      const net = (item.quantity * item.unitPriceCents) / 100
+      const taxAmount = etaAmount((net * ETA_VAT_RATE) / 100)
+      return {
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPriceCents / 100,
+        taxPercent: ETA_VAT_RATE,
+        taxAmount,
+        lineTotal: net,
+      }
+    })
+    const subtotal = lineItems.reduce((sum, item) => sum + item.lineTotal, 0)
+    const taxTotal = lineItems.reduce((sum, item) => sum + item.taxAmount, 0)
+    const etaInvoice: ETAInvoice = {
+      id: invoice.id,
+      uuid: randomUUID(),
+      invoiceNumber: invoice.number || invoice.id,
+      invoiceType: 'STANDARD',
+      documentType: 'INVOICE',
+      issueDate: issuedAt,
+      seller: {
+        name: entity.name,
+        taxNumber: entity.registrations[0]?.value || '',
+        address: address.street || '',
+        building: address.buildingNumber,
+        street: address.street,
+        city: address.city,
+        governorate: address.governorate,
+        activity: entity.activityCode || undefined,
+      },
+      buyer: { name: invoice.client?.name || undefined, taxNumber: options.buyerTaxId },
+      lineItems,
+      totals: { subtotal, discountTotal: 0, taxTotal, total: subtotal + taxTotal },
+      status: 'DRAFT',
+      createdAt: invoice.createdAt,
+    }
+    const validation = new ETAAdapter().validateInvoice(etaInvoice)
+    if (!validation.isValid) {
+      throw new Error(`Invoice fails ETA validation: ${validation.errors.map((e) => e.message).join('; ')}`)
+    }
+
+    const document = await signETADocument(toETADocument(etaInvoice), etaKeyProvider(), issuedAt)
+    etaInvoice.signature = document.signatures![0].value
+
+    return prisma.eInvoiceSubmission.create({
+      data: {
+        tenantId,
+        invoiceId: invoice.id,
+        standard: 'ETA',
+        mode: 'SUBMISSION',
+        invoiceNumber: etaInvoice.invoiceNumber,
+        payload: etaInvoice as unknown as Prisma.InputJsonValue,
+        deadlineAt: submissionDeadline('SUBMISSION', { issuedAt }),
+        createdBy: userId,
+      },
+      select: summarySelect,
+    })
+  }
+
+  /**
+   * Claim one submission and send it. Returns the new status, or null when
+   * the submission is not due or another worker holds it.
+   */
+  async process(id: string, now: Date = new Date()): Promise<SubmissionStatus | null> {
+    const claimed = await prisma.eInvoiceSubmission.updateMany({
+      where: {
+        id,
+        OR: [
+          { status: { in: ['QUEUED', 'RETRYING'] }, nextAttemptAt: { lte: now } },
+          { status: 'SUBMITTING', claimedAt: { lt: new Date(now.getTime() - CLAIM_LEASE_MS) } },
+        ],
+      },
+      data: { status: 'SUBMITTING', claimedAt: now, attempts: { increment: 1 } },
+    })
+    if (claimed.count === 0) return null
+
+    const submission = await prisma.eInvoiceSubmission.findUniqueOrThrow({
+      where: { id },
+      include: { document: { include: { device: true } } },
+    })
+
+    let outcome: Outcome
+    try {
+      outcome = submission.standard === 'ZATCA' ? await this.sendZATCA(submission) : await this.sendETA(submission)
+    } catch (error) {
+      const message = errorMessage(error)
+      const transient = !(error instanceof PermanentSubmissionError) &&
+        (!message.startsWith('Fatoora request failed') || isTransientFatooraError(error))
+      if (!transient || submission.attempts >= MAX_ATTEMPTS) {
+        logger.warn('E-invoice submission failed', { submissionId: id, attempts: submission.attempts, error: message })
+        await this.finish(submission, { status: 'FAILED' }, now, message)
+        return 'FAILED'
+      }
+
+      const nextAttemptAt = new Date(now.getTime() + retryDelayMs(submission.attempts, submission.deadlineAt, now))
+      await prisma.eInvoiceSubmission.update({
+        where: { id },
+        data: { status: 'RETRYING', lastError: message, nextAttemptAt, claimedAt: null },
+      })
+      return 'RETRYING'
+    }
+
+    await this.finish(submission, outcome, now)
+    return outcome.status
+  }
+
+  private async sendZATCA(submission: Submission): Promise<Outcome> {
+    const document = submission.document
+    if (!document) throw new PermanentSubmissionError('Signed document not found')
+
+    let credentials
+    try {
+      credentials = zatcaOnboardingService.productionCredentials(document.device)
+    } catch (error) {
+      throw new PermanentSubmissionError(errorMessage(error))
+    }
+
+    const client = fatooraClient(document.device.environment as FatooraEnvironment)
+    const request = { invoiceHash: document.invoiceHash, uuid: document.uuid, xml: document.xml }
+    const result = submission.mode === 'CLEARANCE'
+      ? await client.clearInvoice(credentials, request)
+      : await client.reportInvoice(credentials, request)
+
+    return {
+      status: zatcaOutcome(submission.mode as 'CLEARANCE' | 'REPORTING', result),
+      warnings: result.warnings,
+      errors: result.errors,
+      clearedXml: result.clearedXml,
+      authorityUuid: document.uuid,
+    }
+  }
+
+  private async sendETA(submission: Submission): Promise<Outcome> {
+    const invoice = submission.payload as unknown as ETAInvoice
+    const result = await new ETAAdapter().submit(invoice)
+    if (result.success) {
+      return { status: 'ACCEPTED', authorityUuid: result.etaUuid ?? null, authorityReference: result.referenceNumber ?? null }
+    }
+
+    const errors = (result.errors || []).map((e) => `${e.code}: ${e.message}`)
+    const codes = (result.errors || []).map((e) => e.code)
+    if (codes.includes('CONFIG_ERROR')) throw new PermanentSubmissionError(result.message)
+    if (codes.includes('SUBMISSION_ERROR')) throw new Error(result.message)
+    return { status: 'REJECTED', errors }
+  }
+
+  private async finish(submission: Submission, outcome: Outcome, now: Date, lastError: string | null = null) {
+    const succeeded = SUCCESS_STATUSES.includes(outcome.status)
+    await prisma.eInvoiceSubmission.update({
+      where: { id: submission.id },
+      data: {
+        status: outcome.status,
+        warnings: jsonOrNull(outcome.warnings),
+        errors: jsonOrNull(outcome.errors),
+        clearedXml: outcome.clearedXml ?? undefined,
+        authorityUuid: outcome.authorityUuid ?? undefined,
+        authorityReference: outcome.authorityReference ?? undefined,
+        lastError,
+        submittedAt: lastError ? undefined : now,
+        completedAt: now,
+        claimedAt: null,
+      },
+    })
+
+    if (!succeeded) {
+      logger.warn('E-invoice submission needs attention', {
+        submissionId: submission.id,
+        status: outcome.status,
+        errors: outcome.errors,
+      })
+    }
+    await logAudit({
+      tenantId: submission.tenantId,
+      action: `einvoicing.submission.${outcome.status.toLowerCase()}`,
+      resource: `EInvoiceSubmission:${submission.id}`,
+      metadata: {
+        invoiceId: submission.invoiceId,
+        standard: submission.standard,
+        attempts: submission.attempts,
+        authorityUuid: outcome.authorityUuid ?? null,
+        errors: outcome.errors?.length ?? 0,
+        lastError,
+      },
+    })
+  }
+
+  /**
+   * Send every due submission: clearances first, then by deadline
+   */
+  async runDue(now: Date = new Date()): Promise<SubmissionRunResult> {
+    const result: SubmissionRunResult = { processed: 0, completed: 0, retrying: 0, rejected: 0, failed: 0 }
+    const due = await prisma.eInvoiceSubmission.findMany({
+      where: {
+        OR: [
+          { status: { in: ['QUEUED', 'RETRYING'] }, nextAttemptAt: { lte: now } },
+          { status: 'SUBMITTING', claimedAt: { lt: new Date(now.getTime() - CLAIM_LEASE_MS) } },
+        ],
+      },
+      select: { id: true, mode: true, deadlineAt: true, nextAttemptAt: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
+    })
+
+    for (const submission of prioritize(due)) {
+      try {
+        const status = await this.process(submission.id, now)
+        if (!status) continue
+        result.processed++
+        if (SUCCESS_STATUSES.includes(status)) result.completed++
+        else if (status === 'RETRYING') result.retrying++
+        else if (status === 'REJECTED') result.rejected++
+        else if (status === 'FAILED') result.failed++
+      } catch (error) {
+        logger.error('E-invoice submission worker error', { submissionId: submission.id }, error instanceof Error ? error : new Error(String(error)))
+      }
+    }
+    return result
+  }
+
+  async list(tenantId: string, filters: SubmissionFilters = {}) {
+    const now = new Date()
+    const where: Prisma.EInvoiceSubmissionWhereInput = { tenantId }
+    if (filters.standard) where.standard = filters.standard
+    if (filters.invoiceId) where.invoiceId = filters.invoiceId
+    if (filters.status) where.status = filters.status
+    else if (filters.attention) where.status = { in: ATTENTION_STATUSES }
+    if (filters.overdue) {
+      where.status = filters.status ?? { in: PENDING_STATUSES }
+      where.deadlineAt = { lt: now }
+    }
+
+    return prisma.eInvoiceSubmission.findMany({
+      where,
+      select: summarySelect,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 50,
+    })
+  }
+
+  async get(tenantId: string, id: string) {
+    const submission = await prisma.eInvoiceSubmission.findFirst({ where: { id, tenantId } })
+    if (!submission) throw new Error('Submission not found')
+    return submission
+  }
+
+  /**
+   * Retry a failed submission as is, or re-sign a rejected one as a new
+   * document (the rejected one stays in the chain and is superseded)
+   */
+  async resubmit(tenantId: string, userId: string, id: string) {
+    const submission = await this.get(tenantId, id)
+    if (!ATTENTION_STATUSES.includes(submission.status as SubmissionStatus)) {
+      throw new Error('Only rejected or failed submissions can be resubmitted')
+    }
+
+    if (submission.status === 'FAILED') {
+      const requeued = await prisma.eInvoiceSubmission.update({
+        where: { id },
+        data: { status: 'QUEUED', attempts: 0, nextAttemptAt: new Date(), lastError: null, completedAt: null },
+        select: summarySelect,
+      })
+      await logAudit({
+        tenantId,
+        userId,
+        action: 'einvoicing.submission.requeued',
+        resource: `EInvoiceSubmission:${id}`,
+        metadata: { invoiceId: submission.invoiceId },
+      })
+      return requeued
+    }
+
+    if (!submission.invoiceId) throw new Error('Invoice not found')
+    const document = submission.documentId
+      ? await prisma.eInvoiceDocument.findUnique({ where: { id: submission.documentId }, select: { deviceId: true, xml: true } })
+      : null
+    const etaInvoice = submission.payload as unknown as ETAInvoice | null
+    return this.enqueueInvoice(tenantId, userId, submission.invoiceId, submission.standard === 'ZATCA' ? 'SA' : 'EG', {
+      deviceId: document?.deviceId,
+      buyerTaxId: document ? buyerTaxIdOf(document.xml) : etaInvoice?.buyer?.taxNumber,
+    })
+  }
+}
+
+export const einvoiceSubmissionQueue = new EInvoiceSubmissionQueue()
+
+/**
+ * HTTP status for known submission queue errors, null for unexpected ones
+ */
+export function submissionErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Invoice not found' || message === 'Submission not found') return 404
+  if (message === 'Invoice already submitted' || message.startsWith('Only rejected or failed')) return 409
+  if (message.startsWith('Invoice fails ZATCA validation') || message.startsWith('Invoice fails ETA validation')) return 400
+  if (message === 'Invoice has no Egyptian entity' || message === 'ETA signing key not configured') return 400
+  return null
+}
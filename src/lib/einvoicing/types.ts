@@ -29,6 +29,8 @@ export interface ZATCAInvoice {
     cityName?: string
     postalCode?: string
     province?: string
+    district?: string // CitySubdivisionName
+    additionalNumber?: string // PlotIdentification
   }
   
   buyer?: {
@@ -41,6 +43,8 @@ export interface ZATCAInvoice {
     cityName?: string
     postalCode?: string
     province?: string
+    district?: string
+    country?: string // ISO 3166-1 alpha-2, defaults to SA
   }
   
   lineItems: Array<{
@@ -50,6 +54,9 @@ export interface ZATCAInvoice {
     unitPrice: number
     discount?: number
     taxPercent: number // 15% standard
+    taxCategory?: ZATCATaxCategory // Derived from taxPercent when omitted
+    exemptionReasonCode?: string // Required for Z, E and O categories (e.g. VATEX-SA-32)
+    exemptionReason?: string
     taxAmount: number
     lineTotal: number
   }>
@@ -66,6 +73,12 @@ export interface ZATCAInvoice {
     daysUntilDue?: number
   }
   
+  currency?: string // Document currency, defaults to SAR
+  exchangeRate?: number // SAR per unit of the document currency, required when it is not SAR
+  transactionType?: 'STANDARD' | 'SIMPLIFIED' // Tax invoice or simplified (B2C), for credit and debit notes
+  billingReference?: string // Original invoice number, required for credit and debit notes
+  instructionNote?: string // Reason for issuing a credit or debit note
+  
   status: InvoiceStatus
   qrCode?: string // Base64 encoded QR code
   signature?: string // Digital signature
@@ -73,6 +86,7 @@ export interface ZATCAInvoice {
   
   metadata?: {
     prevInvoiceHash?: string
+    icv?: number // Invoice Counter Value of the issuing EGS unit
     iccId?: string // Interactive Components - for amended invoices
     lineItemCount?: number
   }
@@ -81,6 +95,9 @@ export interface ZATCAInvoice {
   submittedAt?: Date
 }
 
+/** ZATCA VAT category: standard, zero rated, exempt, out of scope */
+export type ZATCATaxCategory = 'S' | 'Z' | 'E' | 'O'
+
 /**
  * ETA (Egypt - Tax Authority)
  * E-Invoice and E-Receipt System Implementation
@@ -148,7 +165,7 @@ export interface ETAInvoice {
   }
   
   status: InvoiceStatus
-  signature?: string // Digital signature (XML-DSig)
+  signature?: string // Issuer signature (CAdES-BES over the ETA document)
   encryptionMethod?: string // Encryption algorithm used
   etaUuid?: string // UUID assigned by ETA system
   etaResponseCode?: string // ETA submission response code
@@ -245,4 +262,19 @@ export interface HashChainEntry {
   previousHash: string
   timestamp: Date
   status: 'valid' | 'broken'
+  icv?: number
+  reason?: string // Why the entry breaks the chain
+}
+
+/**
+ * Signed ZATCA invoice: UBL 2.1 XML with the XAdES signature and QR embedded
+ */
+export interface SignedZATCAInvoice {
+  xml: string
+  invoiceHash: string // Base64 SHA-256 of the canonicalized invoice
+  signatureValue: string // Base64 DER ECDSA signature of the invoice hash
+  qrCode: string // Base64 TLV payload
+  icv: number
+  previousHash: string
+  signingTime: Date
 }
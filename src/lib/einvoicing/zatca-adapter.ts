@@ -1,18 +1,26 @@
-import { createHash, sign, createSign } from 'crypto'
 import { logger } from '@/lib/logger'
 import {
   ZATCAInvoice,
   EInvoicingProvider,
   ValidationResult,
   SubmissionResult,
-  DigitalSignature,
   ZATCAQRPayload,
   CertificateData,
+  SignedZATCAInvoice,
 } from './types'
+import {
+  buildInvoiceXML,
+  computeInvoiceHash,
+  encodeTLV,
+  INITIAL_PREVIOUS_HASH,
+  taxCategoryOf,
+  type ZATCAChainContext,
+} from './zatca-ubl'
+import { signZATCAInvoice, verifyZATCAInvoice, type InvoiceVerification } from './zatca-signer'
 
 /**
  * ZATCA E-Invoicing Adapter - Phase 2 Implementation
- * Supports QR code generation and digital signatures
+ * UBL 2.1 invoices, C14N invoice hashing, XAdES-BES ECDSA signatures and TLV QR codes
  */
 export class ZATCAAdapter implements EInvoicingProvider {
   standard = 'ZATCA' as const
@@ -84,8 +92,66 @@ export class ZATCAAdapter implements EInvoicingProvider {
       })
     }
 
+    // Phase 2 (UBL) requirements
+    if (invoice.currency && invoice.currency !== 'SAR' && !invoice.exchangeRate) {
+      errors.push({
+        field: 'exchangeRate',
+        message: 'Exchange rate to SAR is required for invoices in other currencies',
+        severity: 'error',
+      })
+    }
+
+    const isNote = invoice.invoiceType === 'CREDIT_NOTE' || invoice.invoiceType === 'DEBIT_NOTE'
+    if (isNote && !invoice.billingReference) {
+      errors.push({
+        field: 'billingReference',
+        message: 'Credit and debit notes must reference the original invoice',
+        severity: 'error',
+      })
+    }
+    if (isNote && !invoice.instructionNote) {
+      errors.push({
+        field: 'instructionNote',
+        message: 'Credit and debit notes must state the reason for issuing them',
+        severity: 'error',
+      })
+    }
+
+    if (invoice.invoiceType === 'STANDARD' && !invoice.buyer?.name) {
+      errors.push({
+        field: 'buyer.name',
+        message: 'Buyer name is required on standard tax invoices',
+        severity: 'error',
+      })
+    }
+
+    invoice.lineItems.forEach((item, index) => {
+      if (taxCategoryOf(item) !== 'S' && !item.exemptionReasonCode) {
+        errors.push({
+          field: `lineItems[${index}].exemptionReasonCode`,
+          message: 'Zero rated, exempt and out of scope lines need an exemption reason code',
+          severity: 'error',
+        })
+      }
+    })
+
+    if (invoice.seller.buildingNumber && !/^\d{4}$/.test(invoice.seller.buildingNumber)) {
+      errors.push({
+        field: 'seller.buildingNumber',
+        message: 'Building number should have 4 digits',
+        severity: 'warning',
+      })
+    }
+    if (invoice.seller.postalCode && !/^\d{5}$/.test(invoice.seller.postalCode)) {
+      errors.push({
+        field: 'seller.postalCode',
+        message: 'Postal code should have 5 digits',
+        severity: 'warning',
+      })
+    }
+
     return {
-      isValid: errors.length === 0,
+      isValid: !errors.some((e) => e.severity === 'error'),
       errors,
     }
   }
@@ -99,10 +165,8 @@ export class ZATCAAdapter implements EInvoicingProvider {
 
   /**
    * Generate QR Code (ZATCA requirement)
-   *
-   * PRODUCTION NOTE: This implementation returns base64-encoded payload.
-   * For full compliance, integrate with a QR code library (qrcode, qr-image, etc.)
-   * and ensure the QR code follows ZATCA specifications.
+   * Base64 TLV payload. Signed invoices carry the full Phase 2 QR (with
+   * public key and certificate signature) from signInvoice instead.
    */
   async generateQRCode(invoice: ZATCAInvoice): Promise<string> {
     try {
@@ -116,17 +180,11 @@ export class ZATCAAdapter implements EInvoicingProvider {
         invoiceSignature: invoice.signature || '',
       }
 
-      // Generate base64 encoded QR payload
-      const qrData = this.generateQRData(payload)
-
-      // Generate QR code - currently returns base64 encoded payload
-      // Production deployments should use a dedicated QR code library
-      const qrCode = Buffer.from(qrData).toString('base64')
+      const qrCode = this.generateQRData(payload)
 
       logger.info('ZATCA QR code generated', {
         invoiceNumber: invoice.invoiceNumber,
         qrSize: qrCode.length,
-        note: 'Generated QR payload - implement with QR library for production'
       })
 
       return qrCode
@@ -140,67 +198,67 @@ export class ZATCAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Generate QR data structure
+   * Generate QR data structure (TLV, tags 1-7)
    */
   private generateQRData(payload: ZATCAQRPayload): string {
-    const qrData = {
-      '1': payload.sellerName,
-      '2': payload.taxId,
-      '3': payload.invoiceDate.toISOString().split('T')[0],
-      '4': payload.invoiceAmount.toFixed(2),
-      '5': payload.taxAmount.toFixed(2),
-      '6': payload.invoiceHash,
-      '7': payload.invoiceSignature,
-    }
+    const fields: Array<[number, string]> = [
+      [1, payload.sellerName],
+      [2, payload.taxId],
+      [3, payload.invoiceDate.toISOString().slice(0, 19)],
+      [4, payload.invoiceAmount.toFixed(2)],
+      [5, payload.taxAmount.toFixed(2)],
+      [6, payload.invoiceHash],
+    ]
+    if (payload.invoiceSignature) fields.push([7, payload.invoiceSignature])
+    return encodeTLV(fields)
+  }
 
-    return JSON.stringify(qrData)
+  /**
+   * Chain position recorded on the invoice, or the start of a new chain
+   */
+  private chainOf(invoice: ZATCAInvoice): ZATCAChainContext {
+    return {
+      icv: invoice.metadata?.icv ?? 1,
+      previousHash: invoice.metadata?.prevInvoiceHash ?? INITIAL_PREVIOUS_HASH,
+    }
   }
 
   /**
-   * Hash invoice for integrity verification
+   * Hash invoice for integrity verification: base64 SHA-256 of the
+   * canonicalized UBL document
    */
   hashInvoice(invoice: ZATCAInvoice): string {
-    const invoiceString = JSON.stringify({
-      invoiceNumber: invoice.invoiceNumber,
-      issueDate: invoice.issueDate.toISOString(),
-      seller: invoice.seller,
-      buyer: invoice.buyer,
-      lineItems: invoice.lineItems,
-      totals: invoice.totals,
-    })
-
-    return createHash('sha256').update(invoiceString).digest('hex')
+    return computeInvoiceHash(this.generateXML(invoice))
   }
 
   /**
-   * Sign invoice with digital certificate
+   * Sign invoice with digital certificate, returning the signature value
    */
   async sign(
     invoice: ZATCAInvoice,
     certificate: CertificateData
   ): Promise<string> {
-    try {
-      const invoiceXML = this.generateXML(invoice)
-
-      // Create signature
-      const signer = createSign('sha256')
-      signer.update(invoiceXML)
+    return (await this.signInvoice(invoice, certificate)).signatureValue
+  }
 
-      // Sign with private key
-      const signature = signer.sign(
-        {
-          key: certificate.privateKey,
-          passphrase: certificate.password,
-        },
-        'base64'
-      )
+  /**
+   * Sign invoice into its chain: UBL XML with the XAdES signature and QR
+   * embedded. Use zatcaService.signInvoice to claim the next ICV/PIH of a device.
+   */
+  async signInvoice(
+    invoice: ZATCAInvoice,
+    certificate: CertificateData,
+    chain: ZATCAChainContext = this.chainOf(invoice)
+  ): Promise<SignedZATCAInvoice> {
+    try {
+      const signed = signZATCAInvoice(invoice, certificate, chain)
 
       logger.info('ZATCA invoice signed', {
         invoiceNumber: invoice.invoiceNumber,
-        signatureSize: signature.length,
+        icv: signed.icv,
       })
 
-      return signature
+      return signed
     } catch (error) {
       logger.error('Failed to sign ZATCA invoice', {
         invoiceNumber: invoice.invoiceNumber,
@@ -278,13 +336,19 @@ export class ZATCAAdapter implements EInvoicingProvider {
     }
   }
 
+  /**
+   * Verify a signed UBL invoice: hash, signed properties, certificate
+   * digest, ECDSA signature and QR contents
+   */
+  verifySignedXML(xml: string): InvoiceVerification {
+    return verifyZATCAInvoice(xml)
+  }
+
   /**
    * Validate signature
    *
-   * PRODUCTION NOTE: This is a mock implementation. For production:
-   * - Implement proper signature verification against ZATCA certificates
-   * - Validate cryptographic signatures using public key infrastructure
-   * - Ensure compliance with Saudi Arabia e-invoicing standards
+   * Only checks that a signature is present; the invoice object does not
+   * carry the signed XML. Use verifySignedXML on the stored document.
    */
   async validateSignature(invoice: ZATCAInvoice): Promise<boolean> {
     try {
@@ -295,9 +359,7 @@ export class ZATCAAdapter implements EInvoicingProvider {
         return false
       }
 
-      // Mock validation - checks if signature exists
-      // In production, implement proper certificate-based verification
-      logger.debug('ZATCA signature validation: Using mock implementation', {
+      logger.debug('ZATCA signature validation: presence check only', {
         invoiceNumber: invoice.invoiceNumber,
         hasSignature: !!invoice.signature,
         environment: process.env.NODE_ENV,
@@ -314,63 +376,9 @@ export class ZATCAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Generate XML invoice
+   * Generate UBL 2.1 XML invoice (unsigned)
    */
   generateXML(invoice: ZATCAInvoice): string {
-    const lineItemsXML = invoice.lineItems
-      .map(
-        (item) => `
-    <LineItem>
-      <ID>${item.id}</ID>
-      <Description>${this.escapeXML(item.description)}</Description>
-      <Quantity>${item.quantity}</Quantity>
-      <UnitPrice>${item.unitPrice.toFixed(2)}</UnitPrice>
-      <Discount>${(item.discount || 0).toFixed(2)}</Discount>
-      <TaxPercent>${item.taxPercent}</TaxPercent>
-      <TaxAmount>${item.taxAmount.toFixed(2)}</TaxAmount>
-      <LineTotal>${item.lineTotal.toFixed(2)}</LineTotal>
-    </LineItem>`
-      )
-      .join('')
-
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<ZATCAInvoice>
-  <InvoiceNumber>${this.escapeXML(invoice.invoiceNumber)}</InvoiceNumber>
-  <UUID>${invoice.uuid}</UUID>
-  <InvoiceType>${invoice.invoiceType}</InvoiceType>
-  <IssueDate>${invoice.issueDate.toISOString().split('T')[0]}</IssueDate>
-  <Seller>
-    <Name>${this.escapeXML(invoice.seller.name)}</Name>
-    <CRNumber>${invoice.seller.crNumber}</CRNumber>
-    <TaxID>${invoice.seller.taxId}</TaxID>
-    <Address>${this.escapeXML(invoice.seller.address)}</Address>
-  </Seller>
-  ${invoice.buyer ? `
-  <Buyer>
-    <Name>${this.escapeXML(invoice.buyer.name || '')}</Name>
-    <TaxID>${invoice.buyer.taxId || ''}</TaxID>
-    <Address>${this.escapeXML(invoice.buyer.address || '')}</Address>
-  </Buyer>` : ''}
-  <LineItems>${lineItemsXML}
-  </LineItems>
-  <Totals>
-    <Subtotal>${invoice.totals.subtotal.toFixed(2)}</Subtotal>
-    <DiscountTotal>${(invoice.totals.discountTotal || 0).toFixed(2)}</DiscountTotal>
-    <TaxTotal>${invoice.totals.taxTotal.toFixed(2)}</TaxTotal>
-    <Total>${invoice.totals.total.toFixed(2)}</Total>
-  </Totals>
-</ZATCAInvoice>`
-  }
-
-  /**
-   * Escape XML special characters
-   */
-  private escapeXML(str: string): string {
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;')
+    return buildInvoiceXML(invoice, this.chainOf(invoice))
   }
 }
@@ -0,0 +1,212 @@
+/**
+ * ZATCA Certificate Signing Requests
+ * Generates the secp256k1 key pair and PKCS#10 request an EGS unit submits
+ * for its compliance CSID: the subject names the taxpayer and branch, the
+ * certificate template depends on the Fatoora environment, and the subject
+ * alternative name carries the EGS serial, VAT number, invoice types,
+ * location and industry.
+ */
+
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, type KeyObject } from 'crypto'
+import {
+  bitString,
+  explicit,
+  fromPEM,
+  implicitConstructed,
+  integer,
+  octetString,
+  oid,
+  printable,
+  readDER,
+  readOid,
+  readString,
+  sequence,
+  set,
+  toPEM,
+  utf8,
+  type DERNode,
+} from './asn1'
+
+export type FatooraEnvironment = 'sandbox' | 'simulation' | 'production'
+
+export const OIDS = {
+  countryName: '2.5.4.6',
+  organizationName: '2.5.4.10',
+  organizationalUnitName: '2.5.4.11',
+  commonName: '2.5.4.3',
+  surname: '2.5.4.4', // EGS serial number
+  title: '2.5.4.12', // Invoice types, e.g. 1100
+  businessCategory: '2.5.4.15',
+  registeredAddress: '2.5.4.26',
+  userId: '0.9.2342.19200300.100.1.1', // VAT number
+  extensionRequest: '1.2.840.113549.1.9.14',
+  subjectAltName: '2.5.29.17',
+  certificateTemplateName: '1.3.6.1.4.1.311.20.2',
+  ecPublicKey: '1.2.840.10045.2.1',
+  secp256k1: '1.3.132.0.10',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+} as const
+
+const CERTIFICATE_TEMPLATES: Record<FatooraEnvironment, string> = {
+  sandbox: 'TSTZATCA-Code-Signing',
+  simulation: 'PREZATCA-Code-Signing',
+  production: 'ZATCA-Code-Signing',
+}
+
+export interface CSRParams {
+  commonName: string
+  organizationName: string
+  organizationUnitName: string
+  egsSerialNumber: string // 1-<solution>|2-<model>|3-<serial>
+  vatNumber: string
+  // Four flags: standard, simplified, reserved, reserved
+  invoiceType: string
+  location: string
+  industry: string
+  environment: FatooraEnvironment
+}
+
+export interface ParsedCSR {
+  subject: Record<string, string>
+  subjectDER: Buffer
+  publicKey: KeyObject
+  publicKeyInfo: Buffer
+  templateName: string | null
+  alternativeName: Record<string, string>
+  extensions: Buffer[] // Extension encodings, for copying into an issued certificate
+  signatureValid: boolean
+}
+
+export interface GeneratedCSR {
+  csr: string // PEM
+  privateKey: string // PEM (SEC1)
+}
+
+export type NameEntry = [string, string]
+
+export function encodeName(entries: NameEntry[]): Buffer {
+  return sequence(
+    ...entries.map(([type, value]) =>
+      set(sequence(oid(type), type === OIDS.countryName ? printable(value) : utf8(value)))
+    )
+  )
+}
+
+function readName(node: DERNode): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const rdn of node.children) {
+    for (const attribute of rdn.children) {
+      result[readOid(attribute.children[0])] = readString(attribute.children[1])
+    }
+  }
+  return result
+}
+
+export const algorithmIdentifier = () => sequence(oid(OIDS.ecdsaWithSHA256))
+
+export function subjectFor(params: CSRParams): NameEntry[] {
+  return [
+    [OIDS.countryName, 'SA'],
+    [OIDS.organizationalUnitName, params.organizationUnitName],
+    [OIDS.organizationName, params.organizationName],
+    [OIDS.commonName, params.commonName],
+  ]
+}
+
+function requestedExtensions(params: CSRParams): Buffer {
+  const alternativeName = explicit(4, encodeName([
+    [OIDS.surname, params.egsSerialNumber],
+    [OIDS.userId, params.vatNumber],
+    [OIDS.title, params.invoiceType],
+    [OIDS.registeredAddress, params.location],
+    [OIDS.businessCategory, params.industry],
+  ]))
+  return sequence(
+    sequence(oid(OIDS.certificateTemplateName), octetString(printable(CERTIFICATE_TEMPLATES[params.environment]))),
+    sequence(oid(OIDS.subjectAltName), octetString(sequence(alternativeName)))
+  )
+}
+
+export function validateCSRParams(params: CSRParams): void {
+  if (!/^3\d{13}3$/.test(params.vatNumber)) {
+    throw new Error('Invalid VAT number: expected 15 digits starting and ending with 3')
+  }
+  if (!/^1-[^|]+\|2-[^|]+\|3-[^|]+$/.test(params.egsSerialNumber)) {
+    throw new Error('Invalid EGS serial number: expected 1-<solution>|2-<model>|3-<serial>')
+  }
+  if (!/^[01]{4}$/.test(params.invoiceType) || !params.invoiceType.slice(0, 2).includes('1')) {
+    throw new Error('Invalid invoice type: expected four flags with standard or simplified enabled')
+  }
+}
+
+/**
+ * New secp256k1 key pair and a signed CSR for it
+ */
+export function generateCSR(params: CSRParams): GeneratedCSR {
+  validateCSRParams(params)
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'secp256k1' })
+  return {
+    csr: buildCSR(params, privateKey, publicKey),
+    privateKey: privateKey.export({ type: 'sec1', format: 'pem' }).toString(),
+  }
+}
+
+export function buildCSR(params: CSRParams, privateKey: KeyObject, publicKey: KeyObject = createPublicKey(privateKey)): string {
+  const info = sequence(
+    integer(0),
+    encodeName(subjectFor(params)),
+    publicKey.export({ type: 'spki', format: 'der' }),
+    implicitConstructed(0, sequence(oid(OIDS.extensionRequest), set(requestedExtensions(params))))
+  )
+  const signature = sign('sha256', info, privateKey)
+  return toPEM(sequence(info, algorithmIdentifier(), bitString(signature)), 'CERTIFICATE REQUEST')
+}
+
+/** CSR in the form Fatoora expects it: base64 of the PEM text */
+export function encodeCSR(pem: string): string {
+  return Buffer.from(pem, 'utf8').toString('base64')
+}
+
+/** Read a CSR given as PEM or as the base64-of-PEM Fatoora form */
+export function parseCSR(csr: string): ParsedCSR {
+  const pem = csr.includes('-----BEGIN') ? csr : Buffer.from(csr, 'base64').toString('utf8')
+  if (!pem.includes('CERTIFICATE REQUEST')) throw new Error('Invalid CSR')
+
+  const request = readDER(fromPEM(pem))
+  const [info, , signature] = request.children
+  const [, subject, publicKeyInfo, attributes] = info.children
+  const publicKey = createPublicKey({ key: publicKeyInfo.der, format: 'der', type: 'spki' })
+
+  const extensions: Buffer[] = []
+  let templateName: string | null = null
+  let alternativeName: Record<string, string> = {}
+  for (const attribute of attributes?.children ?? []) {
+    if (readOid(attribute.children[0]) !== OIDS.extensionRequest) continue
+    for (const extension of attribute.children[1].children[0].children) {
+      extensions.push(extension.der)
+      const id = readOid(extension.children[0])
+      const value = readDER(extension.children[extension.children.length - 1].value)
+      if (id === OIDS.certificateTemplateName) templateName = readString(value)
+      if (id === OIDS.subjectAltName) {
+        const directoryName = value.children.find((name) => name.tag === 0xa4)
+        if (directoryName) alternativeName = readName(directoryName.children[0])
+      }
+    }
+  }
+
+  return {
+    subject: readName(subject),
+    subjectDER: subject.der,
+    publicKey,
+    publicKeyInfo: publicKeyInfo.der,
+    templateName,
+    alternativeName,
+    extensions,
+    signatureValid: verify('sha256', info.der, publicKey, signature.value.subarray(1)),
+  }
+}
+
+/** Public key of a stored private key, e.g. to confirm a CSID was issued for it */
+export function publicKeyOf(privateKeyPem: string): Buffer {
+  return createPublicKey(createPrivateKey(privateKeyPem)).export({ type: 'spki', format: 'der' }) as Buffer
+}
@@ -0,0 +1,393 @@
+/**
+ * ZATCA Onboarding Service
+ * Takes an EGS unit from registration to a production CSID: generate the key
+ * and CSR, exchange it with an OTP for a compliance CSID, sign and submit the
+ * compliance invoice suite, then exchange the compliance CSID for the
+ * production one. Private keys and CSID secrets are stored sealed. Production
+ * certificates are renewed with a fresh key, and owners are warned before
+ * they expire.
+ */
+
+import { randomUUID, X509Certificate } from 'crypto'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { sendEmail } from '@/lib/email'
+import { openSecret, sealSecret } from '@/lib/security/secret-box'
+import { fatooraClient, type FatooraCredentials } from './fatoora'
+import { requiredComplianceKinds } from './fatoora-mock'
+import { generateCSR, OIDS, parseCSR, publicKeyOf, type CSRParams, type FatooraEnvironment } from './zatca-csr'
+import { certificateBody, signZATCAInvoice } from './zatca-signer'
+import { INITIAL_PREVIOUS_HASH } from './zatca-ubl'
+import { zatcaService } from './zatca-service'
+import type { CertificateData, ZATCAInvoice } from './types'
+
+export interface CSRInput {
+  commonName?: string
+  organizationUnitName?: string
+  location?: string
+  industry?: string
+}
+
+export interface ComplianceCheckRecord {
+  kind: string
+  invoiceNumber: string
+  status: 'PASS' | 'WARNING' | 'ERROR'
+  reportingStatus: string | null
+  clearanceStatus: string | null
+  warnings: string[]
+  errors: string[]
+}
+
+export interface ExpiryCheckResult {
+  checked: number
+  notified: number
+}
+
+type Device = Awaited<ReturnType<typeof zatcaService.getDevice>>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+export const CERTIFICATE_WARNING_DAYS = 30
+// Repeat the expiry warning weekly until the certificate is renewed
+const WARNING_INTERVAL_DAYS = 7
+
+// Buyer used on the standard (B2B) compliance samples
+const COMPLIANCE_BUYER_VAT = '399999999800003'
+
+function assertStep(device: Device, steps: string[], message: string): void {
+  if (device.status === 'REVOKED') throw new Error('Device is revoked')
+  if (!steps.includes(device.onboardingStep)) throw new Error(`Onboarding step out of order: ${message}`)
+}
+
+/**
+ * Invoices for the compliance suite, one per kind the CSR declared
+ */
+export function complianceSamples(device: Device, kinds: string[], issueDate: Date = new Date()): Array<{ kind: string; invoice: ZATCAInvoice }> {
+  return kinds.map((kind, index) => {
+    const standard = kind.startsWith('standard')
+    const note = kind.endsWith('credit-note') ? 'CREDIT_NOTE' : kind.endsWith('debit-note') ? 'DEBIT_NOTE' : null
+    const invoice = zatcaService.toZATCAInvoice(
+      {
+        id: `compliance-${index + 1}`,
+        number: String(index + 1).padStart(6, '0'),
+        currency: 'SAR',
+        createdAt: issueDate,
+        items: [{ id: '1', description: 'Compliance check item', quantity: 1, unitPriceCents: 10000 }],
+        client: { name: standard ? 'Compliance Buyer' : null },
+      },
+      device,
+      { invoiceType: note ?? (standard ? 'STANDARD' : 'SIMPLIFIED'), buyerTaxId: standard ? COMPLIANCE_BUYER_VAT : undefined }
+    )
+    if (note) {
+      invoice.transactionType = standard ? 'STANDARD' : 'SIMPLIFIED'
+      invoice.billingReference = '000001'
+      invoice.instructionNote = 'Compliance check adjustment'
+    }
+    return { kind, invoice }
+  })
+}
+
+export class ZATCAOnboardingService {
+  private credentials(token: string | null, sealedSecret: string | null): FatooraCredentials {
+    if (!token || !sealedSecret) throw new Error('Device has no CSID')
+    return { binarySecurityToken: token, secret: openSecret(sealedSecret) }
+  }
+
+  private client(device: Device) {
+    return fatooraClient(device.environment as FatooraEnvironment)
+  }
+
+  async getStatus(tenantId: string, deviceId: string) {
+    const device = await zatcaService.getDevice(tenantId, deviceId)
+    const expiresAt = device.certificateExpiresAt
+    return {
+      deviceId: device.id,
+      status: device.status,
+      environment: device.environment,
+      step: device.onboardingStep,
+      hasCsr: !!device.csr,
+      complianceResults: (device.complianceResults ?? null) as unknown as ComplianceCheckRecord[] | null,
+      certificateExpiresAt: expiresAt,
+      renewalDue: !!expiresAt && expiresAt.getTime() - Date.now() <= CERTIFICATE_WARNING_DAYS * DAY_MS,
+      onboardedAt: device.onboardedAt,
+    }
+  }
+
+  /**
+   * Generate a new key pair and CSR, restarting onboarding for the device
+   */
+  async generateCSR(tenantId: string, userId: string, deviceId: string, input: CSRInput = {}) {
+    const device = await zatcaService.getDevice(tenantId, deviceId)
+    assertStep(device, ['PENDING', 'CSR_GENERATED', 'COMPLIANCE_CSID', 'COMPLIANCE_PASSED'], 'device is already onboarded, renew its certificate instead')
+
+    const address = (device.address || {}) as Record<string, string>
+    const { csr, privateKey } = generateCSR({
+      commonName: input.commonName || device.name,
+      organizationName: device.sellerName,
+      organizationUnitName: input.organizationUnitName || address.cityName || device.sellerName,
+      egsSerialNumber: device.serialNumber,
+      vatNumber: device.vatNumber,
+      invoiceType: device.invoiceTypes,
+      location: input.location || [address.buildingNumber, address.streetName, address.cityName].filter(Boolean).join(' ') || 'Saudi Arabia',
+      industry: input.industry || 'Professional services',
+      environment: device.environment as FatooraEnvironment,
+    })
+
+    await prisma.eInvoiceDevice.update({
+      where: { id: device.id },
+      data: {
+        csr,
+        privateKeyEncrypted: sealSecret(privateKey),
+        onboardingStep: 'CSR_GENERATED',
+        complianceCsid: null,
+        complianceSecretEncrypted: null,
+        complianceRequestId: null,
+        complianceResults: Prisma.DbNull,
+      },
+    })
+    await logAudit({ tenantId, userId, action: 'einvoicing.device.csr_generated', resource: `EInvoiceDevice:${device.id}` })
+    return { csr }
+  }
+
+  /**
+   * Exchange the CSR and an OTP from the Fatoora portal for a compliance CSID
+   */
+  async requestComplianceCSID(tenantId: string, userId: string, deviceId: string, otp: string) {
+    const device = await zatcaService.getDevice(tenantId, deviceId)
+    assertStep(device, ['CSR_GENERATED', 'COMPLIANCE_CSID'], 'generate a CSR first')
+
+    const response = await this.client(device).issueComplianceCSID(device.csr!, otp)
+    await prisma.eInvoiceDevice.update({
+      where: { id: device.id },
+      data: {
+        complianceCsid: response.binarySecurityToken,
+        complianceSecretEncrypted: sealSecret(response.secret),
+        complianceRequestId: response.requestId,
+        complianceResults: Prisma.DbNull,
+        onboardingStep: 'COMPLIANCE_CSID',
+      },
+    })
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'einvoicing.device.compliance_csid_issued',
+      resource: `EInvoiceDevice:${device.id}`,
+      metadata: { requestId: response.requestId },
+    })
+    return { requestId: response.requestId }
+  }
+
+  /**
+   * Sign and submit one compliance invoice of every kind the CSR declared.
+   * The suite uses its own chain, so the device's counter is untouched.
+   */
+  async runComplianceChecks(tenantId: string, userId: string, deviceId: string) {
+    const device = await zatcaService.getDevice(tenantId, deviceId)
+    assertStep(device, ['COMPLIANCE_CSID', 'COMPLIANCE_PASSED'], 'request a compliance CSID first')
+
+    const credentials = this.credentials(device.complianceCsid, device.complianceSecretEncrypted)
+    const certificate: CertificateData = {
+      privateKey: openSecret(device.privateKeyEncrypted!),
+      certificate: device.complianceCsid!,
+      algorithm: 'SHA256_ECDSA',
+    }
+
+    const client = this.client(device)
+    const results: ComplianceCheckRecord[] = []
+    let previousHash = INITIAL_PREVIOUS_HASH
+    const samples = complianceSamples(device, requiredComplianceKinds(device.invoiceTypes))
+    for (const [index, { kind, invoice }] of samples.entries()) {
+      invoice.uuid = randomUUID()
+      const signed = signZATCAInvoice(invoice, certificate, { icv: index + 1, previousHash })
+      const result = await client.checkCompliance(credentials, { invoiceHash: signed.invoiceHash, uuid: invoice.uuid, xml: signed.xml })
+      results.push({ kind, invoiceNumber: invoice.invoiceNumber, ...result })
+      previousHash = signed.invoiceHash
+    }
+
+    const passed = results.every((r) => r.status !== 'ERROR')
+    await prisma.eInvoiceDevice.update({
+      where: { id: device.id },
+      data: {
+        complianceResults: results as unknown as Prisma.InputJsonValue,
+        onboardingStep: passed ? 'COMPLIANCE_PASSED' : 'COMPLIANCE_CSID',
+      },
+    })
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'einvoicing.device.compliance_checked',
+      resource: `EInvoiceDevice:${device.id}`,
+      metadata: { passed, failed: results.filter((r) => r.status === 'ERROR').map((r) => r.kind) },
+    })
+    return { passed, results }
+  }
+
+  /**
+   * Exchange the compliance CSID for the production CSID; the device can
+   * sign invoices from then on
+   */
+  async requestProductionCSID(tenantId: string, userId: string, deviceId: string) {
+    const device = await zatcaService.getDevice(tenantId, deviceId)
+    assertStep(device, ['COMPLIANCE_PASSED'], 'pass the compliance checks first')
+
+    const credentials = this.credentials(device.complianceCsid, device.complianceSecretEncrypted)
+    const response = await this.client(device).issueProductionCSID(credentials, device.complianceRequestId!)
+    const expiresAt = this.checkIssuedCertificate(response.binarySecurityToken, device.privateKeyEncrypted!)
+
+    await prisma.eInvoiceDevice.update({
+      where: { id: device.id },
+      data: {
+        productionCsid: response.binarySecurityToken,
+        productionSecretEncrypted: sealSecret(response.secret),
+        productionRequestId: response.requestId,
+        certificateExpiresAt: expiresAt,
+        expiryNotifiedAt: null,
+        onboardingStep: 'ONBOARDED',
+        status: 'ACTIVE',
+        onboardedAt: new Date(),
+      },
+    })
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'einvoicing.device.onboarded',
+      resource: `EInvoiceDevice:${device.id}`,
+      metadata: { requestId: response.requestId, certificateExpiresAt: expiresAt.toISOString() },
+    })
+    return { requestId: response.requestId, certificateExpiresAt: expiresAt }
+  }
+
+  /**
+   * Renew the production CSID with a new key pair. The CSR repeats the
+   * subject and EGS details of the current one.
+   */
+  async renewCertificate(tenantId: string, userId: string, deviceId: string, otp: string) {
+    const device = await zatcaService.getDevice(tenantId, deviceId)
+    assertStep(device, ['ONBOARDED'], 'device has not been onboarded')
+
+    const current = parseCSR(device.csr!)
+    const params: CSRParams = {
+      commonName: current.subject[OIDS.commonName],
+      organizationName: current.subject[OIDS.organizationName],
+      organizationUnitName: current.subject[OIDS.organizationalUnitName],
+      egsSerialNumber: current.alternativeName[OIDS.surname],
+      vatNumber: current.alternativeName[OIDS.userId],
+      invoiceType: current.alternativeName[OIDS.title],
+      location: current.alternativeName[OIDS.registeredAddress],
+      industry: current.alternativeName[OIDS.businessCategory],
+      environment: device.environment as FatooraEnvironment,
+    }
+    const { csr, privateKey } = generateCSR(params)
+    const sealedKey = sealSecret(privateKey)
+
+    const credentials = this.credentials(device.productionCsid, device.productionSecretEncrypted)
+    const response = await this.client(device).renewProductionCSID(credentials, csr, otp)
+    const expiresAt = this.checkIssuedCertificate(response.binarySecurityToken, sealedKey)
+
+    await prisma.eInvoiceDevice.update({
+      where: { id: device.id },
+      data: {
+        csr,
+        privateKeyEncrypted: sealedKey,
+        productionCsid: response.binarySecurityToken,
+        productionSecretEncrypted: sealSecret(response.secret),
+        productionRequestId: response.requestId,
+        certificateExpiresAt: expiresAt,
+        expiryNotifiedAt: null,
+      },
+    })
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'einvoicing.device.certificate_renewed',
+      resource: `EInvoiceDevice:${device.id}`,
+      metadata: { requestId: response.requestId, certificateExpiresAt: expiresAt.toISOString() },
+    })
+    return { requestId: response.requestId, certificateExpiresAt: expiresAt }
+  }
+
+  /**
+   * Signing credentials of an onboarded device
+   */
+  certificateFor(device: Device, now: Date = new Date()): CertificateData {
+    if (device.status !== 'ACTIVE' || !device.productionCsid || !device.privateKeyEncrypted) {
+      throw new Error('Device has not been onboarded')
+    }
+    if (device.certificateExpiresAt && device.certificateExpiresAt <= now) {
+      throw new Error('Device certificate expired')
+    }
+    return {
+      privateKey: openSecret(device.privateKeyEncrypted),
+      certificate: device.productionCsid,
+      algorithm: 'SHA256_ECDSA',
+    }
+  }
+
+  /**
+   * Production CSID credentials for clearance and reporting calls
+   */
+  productionCredentials(device: Device): FatooraCredentials {
+    if (device.status !== 'ACTIVE') throw new Error('Device has not been onboarded')
+    return this.credentials(device.productionCsid, device.productionSecretEncrypted)
+  }
+
+  /**
+   * Warn device owners about production certificates expiring within the
+   * warning window, at most once a week per device
+   */
+  async notifyExpiringCertificates(now: Date = new Date()): Promise<ExpiryCheckResult> {
+    const devices = await prisma.eInvoiceDevice.findMany({
+      where: {
+        status: 'ACTIVE',
+        certificateExpiresAt: { not: null, lte: new Date(now.getTime() + CERTIFICATE_WARNING_DAYS * DAY_MS) },
+        OR: [{ expiryNotifiedAt: null }, { expiryNotifiedAt: { lt: new Date(now.getTime() - WARNING_INTERVAL_DAYS * DAY_MS) } }],
+      },
+    })
+
+    let notified = 0
+    for (const device of devices) {
+      const expiresAt = device.certificateExpiresAt!
+      const days = Math.max(0, Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS))
+      const expired = expiresAt <= now
+      try {
+        const owner = device.createdBy
+          ? await prisma.user.findUnique({ where: { id: device.createdBy }, select: { email: true } })
+          : null
+        if (owner?.email) {
+          const subject = expired
+            ? `ZATCA certificate expired for ${device.name}`
+            : `ZATCA certificate for ${device.name} expires in ${days} day${days === 1 ? '' : 's'}`
+          await sendEmail({
+            to: owner.email,
+            subject,
+            html: `<p>The production CSID of e-invoicing device <strong>${device.name}</strong> (${device.serialNumber}) ${expired ? 'expired' : 'expires'} on ${expiresAt.toISOString().slice(0, 10)}.</p><p>Renew it with a new OTP from the Fatoora portal so the device can keep signing invoices.</p>`,
+          })
+        }
+        await prisma.eInvoiceDevice.update({ where: { id: device.id }, data: { expiryNotifiedAt: now } })
+        await logAudit({
+          tenantId: device.tenantId,
+          action: 'einvoicing.device.certificate_expiring',
+          resource: `EInvoiceDevice:${device.id}`,
+          metadata: { certificateExpiresAt: expiresAt.toISOString(), expired },
+        })
+        notified++
+      } catch (error) {
+        logger.error('ZATCA certificate expiry warning failed', { deviceId: device.id, error: String(error) })
+      }
+    }
+    return { checked: devices.length, notified }
+  }
+
+  /** Expiry of a newly issued CSID, after checking it certifies our key */
+  private checkIssuedCertificate(binarySecurityToken: string, sealedKey: string): Date {
+    const certificate = new X509Certificate(Buffer.from(certificateBody(binarySecurityToken), 'base64'))
+    const issuedKey = certificate.publicKey.export({ type: 'spki', format: 'der' }) as Buffer
+    if (!issuedKey.equals(publicKeyOf(openSecret(sealedKey)))) {
+      throw new Error('Issued certificate does not match the device key')
+    }
+    return new Date(certificate.validTo)
+  }
+}
+
+export const zatcaOnboardingService = new ZATCAOnboardingService()
@@ -0,0 +1,350 @@
+/**
+ * ZATCA Service
+ * Manages EGS units and signs invoices into each unit's hash chain: the
+ * Invoice Counter Value and Previous Invoice Hash are claimed atomically so
+ * concurrent signing never forks the chain, and every signed document is
+ * stored so the chain can be verified later.
+ */
+
+import { randomUUID } from 'crypto'
+import type { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { signZATCAInvoice } from './zatca-signer'
+import { INITIAL_PREVIOUS_HASH } from './zatca-ubl'
+import { verifyHashChain, type HashChainReport } from './hash-chain'
+import type { CertificateData, ZATCAInvoice, ZATCATaxCategory } from './types'
+
+export interface DeviceInput {
+  name: string
+  serialNumber?: string
+  environment?: 'sandbox' | 'simulation' | 'production'
+  invoiceTypes?: string
+  vatNumber: string
+  sellerName: string
+  crNumber?: string | null
+  entityId?: string | null
+  address?: {
+    streetName?: string
+    buildingNumber?: string
+    additionalNumber?: string
+    district?: string
+    cityName?: string
+    postalCode?: string
+    province?: string
+  } | null
+}
+
+export interface ChainVerification extends HashChainReport {
+  deviceId: string
+  // The device's counter and last hash point at the last stored invoice
+  deviceInSync: boolean
+}
+
+// Sealed keys and CSID secrets never leave the service
+const DEVICE_SECRETS = ['privateKeyEncrypted', 'complianceSecretEncrypted', 'productionSecretEncrypted'] as const
+
+export function withoutSecrets<T extends Record<string, unknown>>(device: T): Omit<T, (typeof DEVICE_SECRETS)[number]> {
+  const copy: Record<string, unknown> = { ...device }
+  for (const field of DEVICE_SECRETS) delete copy[field]
+  return copy as Omit<T, (typeof DEVICE_SECRETS)[number]>
+}
+
+const MAX_CLAIM_ATTEMPTS = 3
+const CHAIN_CONFLICT = 'Invoice counter changed while signing'
+
+// Standard KSA VAT rate, applied to invoice amounts which are stored net of VAT
+const STANDARD_VAT_PERCENT = 15
+
+// The tax code fields a line's ZATCA category is read from
+export interface LineTaxCode {
+  taxRate: Prisma.Decimal | number
+  vatTreatment: string | null
+  metadata?: Prisma.JsonValue | null
+}
+
+export interface ZATCALineTax {
+  category: ZATCATaxCategory
+  percent: number
+  exemptionReasonCode?: string
+  exemptionReason?: string
+}
+
+// Out of scope has a single reason; zero-rated and exempt codes name theirs
+// in metadata.exemptionReasonCode / exemptionReason (e.g. VATEX-SA-32)
+const DEFAULT_EXEMPTIONS: Partial<Record<ZATCATaxCategory, { code: string; reason: string }>> = {
+  O: { code: 'VATEX-SA-OOS', reason: 'Not subject to VAT' },
+}
+
+/**
+ * ZATCA tax category and rate for a line's tax code. Lines without a code
+ * are standard rated; reverse-charge and import codes are outside the
+ * scope of a sales invoice.
+ */
+export function zatcaLineTax(taxCode: LineTaxCode | null | undefined): ZATCALineTax {
+  if (!taxCode || !taxCode.vatTreatment) return { category: 'S', percent: STANDARD_VAT_PERCENT }
+  const treatment = taxCode.vatTreatment
+  if (treatment === 'STANDARD') return { category: 'S', percent: Number(taxCode.taxRate) }
+
+  const category: ZATCATaxCategory =
+    treatment === 'ZERO_RATED' || treatment === 'EXPORT' ? 'Z' : treatment === 'EXEMPT' ? 'E' : 'O'
+  const metadata = (taxCode.metadata ?? {}) as Record<string, unknown>
+  const fallback = DEFAULT_EXEMPTIONS[category]
+  return {
+    category,
+    percent: 0,
+    exemptionReasonCode: typeof metadata.exemptionReasonCode === 'string' ? metadata.exemptionReasonCode : fallback?.code,
+    exemptionReason: typeof metadata.exemptionReason === 'string' ? metadata.exemptionReason : fallback?.reason,
+  }
+}
+
+export class ZATCAService {
+  async listDevices(tenantId: string) {
+    const devices = await prisma.eInvoiceDevice.findMany({
+      where: { tenantId, standard: 'ZATCA' },
+      orderBy: { createdAt: 'asc' },
+    })
+    return devices.map(withoutSecrets)
+  }
+
+  async getDevice(tenantId: string, deviceId: string) {
+    const device = await prisma.eInvoiceDevice.findFirst({ where: { id: deviceId, tenantId } })
+    if (!device) throw new Error('Device not found')
+    return device
+  }
+
+  /**
+   * Active device to sign an entity's invoices: the requested one, else the
+   * entity's own, else a tenant-wide device
+   */
+  async deviceForInvoice(tenantId: string, entityId: string | null, deviceId?: string) {
+    const devices = await prisma.eInvoiceDevice.findMany({
+      where: {
+        tenantId,
+        standard: 'ZATCA',
+        status: 'ACTIVE',
+        ...(deviceId ? { id: deviceId } : { OR: [{ entityId }, { entityId: null }] }),
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+    return devices.find((d) => entityId && d.entityId === entityId) ?? devices.find((d) => !d.entityId) ?? devices[0] ?? null
+  }
+
+  /**
+   * Register an EGS unit. It signs nothing until onboarded; its chain then
+   * starts at ICV 1 with the initial PIH.
+   */
+  async registerDevice(tenantId: string, userId: string, input: DeviceInput) {
+    if (!/^3\d{13}3$/.test(input.vatNumber)) {
+      throw new Error('Invalid VAT number: expected 15 digits starting and ending with 3')
+    }
+    const serialNumber = input.serialNumber || `1-Accounting|2-EGS|3-${randomUUID()}`
+
+    try {
+      const device = await prisma.eInvoiceDevice.create({
+        data: {
+          tenantId,
+          entityId: input.entityId ?? null,
+          name: input.name,
+          serialNumber,
+          vatNumber: input.vatNumber,
+          sellerName: input.sellerName,
+          crNumber: input.crNumber ?? null,
+          environment: input.environment ?? 'sandbox',
+          invoiceTypes: input.invoiceTypes ?? '1100',
+          address: (input.address ?? undefined) as Prisma.InputJsonValue | undefined,
+          lastInvoiceHash: INITIAL_PREVIOUS_HASH,
+          createdBy: userId,
+        },
+      })
+      await logAudit({ tenantId, userId, action: 'einvoicing.device.registered', resource: `EInvoiceDevice:${device.id}` })
+      return withoutSecrets(device)
+    } catch (error) {
+      if (String((error as any)?.code) === 'P2002') throw new Error('Device serial number already registered')
+      throw error
+    }
+  }
+
+  /**
+   * Sign an invoice as the device's next invoice and store it. The counter
+   * is claimed with a compare-and-set on the device, so an invoice signed
+   * against a stale counter is re-signed rather than forking the chain.
+   */
+  async signInvoice(
+    tenantId: string,
+    userId: string | null,
+    deviceId: string,
+    invoice: ZATCAInvoice,
+    certificate: CertificateData,
+    options: { invoiceId?: string | null } = {}
+  ) {
+    for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+      const device = await this.getDevice(tenantId, deviceId)
+      if (device.status !== 'ACTIVE') throw new Error('Device is not active')
+
+      const signed = signZATCAInvoice(invoice, certificate, {
+        icv: device.icv + 1,
+        previousHash: device.lastInvoiceHash,
+      })
+
+      try {
+        const document = await prisma.$transaction(async (tx) => {
+          const claimed = await tx.eInvoiceDevice.updateMany({
+            where: { id: device.id, icv: device.icv, lastInvoiceHash: device.lastInvoiceHash },
+            data: { icv: signed.icv, lastInvoiceHash: signed.invoiceHash },
+          })
+          if (claimed.count === 0) throw new Error(CHAIN_CONFLICT)
+
+          return tx.eInvoiceDocument.create({
+            data: {
+              tenantId,
+              deviceId: device.id,
+              invoiceId: options.invoiceId ?? null,
+              invoiceNumber: invoice.invoiceNumber,
+              uuid: invoice.uuid,
+              invoiceType: invoice.invoiceType,
+              icv: signed.icv,
+              previousHash: signed.previousHash,
+              invoiceHash: signed.invoiceHash,
+              signatureValue: signed.signatureValue,
+              qrCode: signed.qrCode,
+              xml: signed.xml,
+              signedAt: signed.signingTime,
+              createdBy: userId,
+            },
+          })
+        })
+
+        await logAudit({
+          tenantId,
+          userId: userId ?? undefined,
+          action: 'einvoicing.invoice.signed',
+          resource: `EInvoiceDocument:${document.id}`,
+          metadata: { deviceId: device.id, icv: document.icv, invoiceId: options.invoiceId ?? null },
+        })
+        return document
+      } catch (error) {
+        const conflict = (error instanceof Error && error.message === CHAIN_CONFLICT) || String((error as any)?.code) === 'P2002'
+        if (!conflict) throw error
+        logger.warn('ZATCA invoice counter contention, retrying', { deviceId, attempt })
+      }
+    }
+    throw new Error('Could not reserve the next invoice counter')
+  }
+
+  /**
+   * Verify a device's chain from its stored invoices
+   */
+  async verifyChain(tenantId: string, deviceId: string): Promise<ChainVerification> {
+    const device = await this.getDevice(tenantId, deviceId)
+    const documents = await prisma.eInvoiceDocument.findMany({
+      where: { tenantId, deviceId },
+      orderBy: { icv: 'asc' },
+      select: { id: true, icv: true, invoiceHash: true, previousHash: true, createdAt: true, xml: true },
+    })
+
+    const report = verifyHashChain(documents)
+    const last = documents[documents.length - 1]
+    const deviceInSync = last
+      ? device.icv === last.icv && device.lastInvoiceHash === last.invoiceHash
+      : device.icv === 0 && device.lastInvoiceHash === INITIAL_PREVIOUS_HASH
+
+    return { ...report, deviceId, deviceInSync, valid: report.valid && deviceInSync }
+  }
+
+  /**
+   * ZATCA invoice for a stored invoice, issued by the given device
+   */
+  toZATCAInvoice(
+    invoice: {
+      id: string
+      number: string | null
+      currency: string
+      createdAt: Date
+      items: Array<{
+        id: string
+        description: string
+        quantity: number
+        unitPriceCents: number
+        taxCode?: LineTaxCode | null
+      }>
+      client?: { name: string | null } | null
+    },
+    device: { sellerName: string; vatNumber: string; crNumber: string | null; address: Prisma.JsonValue | null },
+    options: { invoiceType?: ZATCAInvoice['invoiceType']; buyerTaxId?: string } = {}
+  ): ZATCAInvoice {
+    const address = (device.address || {}) as Record<string, string>
+    const lineItems = invoice.items.map((item) => {
+      const net = (item.quantity * item.unitPriceCents) / 100
+      const tax = zatcaLineTax(item.taxCode)
+      return {
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPriceCents / 100,
+        taxPercent: tax.percent,
+        taxCategory: tax.category,
+        exemptionReasonCode: tax.exemptionReasonCode,
+        exemptionReason: tax.exemptionReason,
+        taxAmount: Math.round(net * tax.percent) / 100,
+        lineTotal: net,
+      }
+    })
+    const subtotal = lineItems.reduce((sum, item) => sum + item.lineTotal, 0)
+    const taxTotal = lineItems.reduce((sum, item) => sum + item.taxAmount, 0)
+
+    return {
+      id: invoice.id,
+      uuid: randomUUID(),
+      invoiceNumber: invoice.number || invoice.id,
+      invoiceType: options.invoiceType ?? (options.buyerTaxId ? 'STANDARD' : 'SIMPLIFIED'),
+      issueDate: invoice.createdAt,
+      currency: invoice.currency,
+      seller: {
+        name: device.sellerName,
+        crNumber: device.crNumber || '',
+        taxId: device.vatNumber,
+        address: address.streetName || '',
+        ...address,
+      },
+      buyer: invoice.client?.name || options.buyerTaxId
+        ? { name: invoice.client?.name || undefined, taxId: options.buyerTaxId }
+        : undefined,
+      lineItems,
+      totals: {
+        subtotal,
+        discountTotal: 0,
+        taxTotal,
+        total: subtotal + taxTotal,
+      },
+      status: 'DRAFT',
+      createdAt: invoice.createdAt,
+    }
+  }
+}
+
+export const zatcaService = new ZATCAService()
+
+/**
+ * HTTP status for known ZATCA service errors, null for unexpected ones
+ */
+export function zatcaErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Device not found') return 404
+  if (
+    message === 'Device serial number already registered' ||
+    message === 'Device is not active' ||
+    message === 'Device is revoked' ||
+    message === 'Device has not been onboarded' ||
+    message === 'Device has no CSID' ||
+    message === 'Device certificate expired' ||
+    message === 'Could not reserve the next invoice counter' ||
+    message.startsWith('Onboarding step out of order')
+  ) return 409
+  if (message.startsWith('Fatoora request failed (4')) return 400
+  if (message.startsWith('Fatoora request failed') || message === 'Issued certificate does not match the device key') return 502
+  if (message.startsWith('Invalid VAT number') || message.startsWith('Invalid EGS serial') || message.startsWith('Invalid invoice type')) return 400
+  return null
+}
@@ -0,0 +1,410 @@
+/**
+ * ZATCA Phase 2 UBL 2.1 Invoice
+ * Builds the UBL 2.1 XML ZATCA expects, computes the invoice hash over the
+ * canonicalized document and encodes the TLV QR payload.
+ */
+
+import { createHash } from 'crypto'
+import type { Element } from 'xml-js'
+import { canonicalize, findElement, localName, parseXml, textOf } from './c14n'
+import type { ZATCAInvoice, ZATCATaxCategory } from './types'
+
+export const UBL_NAMESPACES = {
+  invoice: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  cac: 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  cbc: 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+  ext: 'urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2',
+}
+
+/**
+ * Previous Invoice Hash of the first invoice an EGS unit issues:
+ * base64 of the hex SHA-256 of "0", as published by ZATCA
+ */
+export const INITIAL_PREVIOUS_HASH =
+  'NWZlY2ViNjZmZmM4NmYzOGQ5NTI3ODZjNmQ2OTZjNzljMmRiYzIzOWRkNGU5MWI0NjcyOWQ3M2EyN2ZiNTdlOQ=='
+
+export interface ZATCAChainContext {
+  icv: number
+  previousHash: string
+}
+
+const TYPE_CODES: Record<ZATCAInvoice['invoiceType'], string> = {
+  STANDARD: '388',
+  SIMPLIFIED: '388',
+  DEBIT_NOTE: '383',
+  CREDIT_NOTE: '381',
+}
+
+const PAYMENT_MEANS: Record<NonNullable<ZATCAInvoice['paymentTerms']>['method'], string> = {
+  CASH: '10',
+  CHEQUE: '20',
+  BANK_TRANSFER: '42',
+  CREDIT_CARD: '48',
+}
+
+function escapeXML(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
+function amount(value: number): string {
+  return round2(value).toFixed(2)
+}
+
+function el(name: string, content: string | number | undefined | null, attributes: Record<string, string> = {}): string {
+  if (content === undefined || content === null || content === '') return ''
+  const attrs = Object.entries(attributes).map(([k, v]) => ` ${k}="${escapeXML(v)}"`).join('')
+  return `<${name}${attrs}>${typeof content === 'number' ? content : content}</${name}>`
+}
+
+function text(name: string, value: string | number | undefined | null, attributes: Record<string, string> = {}): string {
+  if (value === undefined || value === null || value === '') return ''
+  return el(name, escapeXML(value), attributes)
+}
+
+/** Whether the document is a simplified (B2C) invoice or note */
+export function isSimplified(invoice: ZATCAInvoice): boolean {
+  return invoice.invoiceType === 'SIMPLIFIED' || invoice.transactionType === 'SIMPLIFIED'
+}
+
+/** VAT category of a line: explicit, or standard rated unless the rate is zero */
+export function taxCategoryOf(item: ZATCAInvoice['lineItems'][number]): ZATCATaxCategory {
+  return item.taxCategory ?? (item.taxPercent > 0 ? 'S' : 'Z')
+}
+
+/** Net amount of a line: quantity times price less the line discount */
+export function lineNetAmount(item: ZATCAInvoice['lineItems'][number]): number {
+  return round2(item.quantity * item.unitPrice - (item.discount || 0))
+}
+
+function issueDateParts(date: Date): { date: string; time: string } {
+  const iso = date.toISOString()
+  return { date: iso.slice(0, 10), time: iso.slice(11, 19) }
+}
+
+function addressXML(address: {
+  streetName?: string
+  buildingNumber?: string
+  additionalNumber?: string
+  district?: string
+  cityName?: string
+  postalCode?: string
+  province?: string
+  address?: string
+  country?: string
+}): string {
+  return el(
+    'cac:PostalAddress',
+    text('cbc:StreetName', address.streetName || address.address) +
+      text('cbc:BuildingNumber', address.buildingNumber) +
+      text('cbc:PlotIdentification', address.additionalNumber) +
+      text('cbc:CitySubdivisionName', address.district) +
+      text('cbc:CityName', address.cityName) +
+      text('cbc:PostalZone', address.postalCode) +
+      text('cbc:CountrySubentity', address.province) +
+      el('cac:Country', text('cbc:IdentificationCode', address.country || 'SA'))
+  )
+}
+
+function taxSchemeXML(): string {
+  return el('cac:TaxScheme', text('cbc:ID', 'VAT'))
+}
+
+function supplierXML(invoice: ZATCAInvoice): string {
+  const seller = invoice.seller
+  return el(
+    'cac:AccountingSupplierParty',
+    el(
+      'cac:Party',
+      el('cac:PartyIdentification', text('cbc:ID', seller.crNumber, { schemeID: 'CRN' })) +
+        addressXML(seller) +
+        el('cac:PartyTaxScheme', text('cbc:CompanyID', seller.taxId) + taxSchemeXML()) +
+        el('cac:PartyLegalEntity', text('cbc:RegistrationName', seller.name))
+    )
+  )
+}
+
+function customerXML(invoice: ZATCAInvoice): string {
+  const buyer = invoice.buyer
+  if (!buyer) return '<cac:AccountingCustomerParty><cac:Party></cac:Party></cac:AccountingCustomerParty>'
+  return el(
+    'cac:AccountingCustomerParty',
+    el(
+      'cac:Party',
+      (buyer.crNumber ? el('cac:PartyIdentification', text('cbc:ID', buyer.crNumber, { schemeID: 'CRN' })) : '') +
+        (buyer.streetName || buyer.address || buyer.cityName ? addressXML(buyer) : '') +
+        (buyer.taxId ? el('cac:PartyTaxScheme', text('cbc:CompanyID', buyer.taxId) + taxSchemeXML()) : '') +
+        (buyer.name ? el('cac:PartyLegalEntity', text('cbc:RegistrationName', buyer.name)) : '')
+    ) || '<cac:Party></cac:Party>'
+  )
+}
+
+function taxCategoryXML(
+  tag: 'cac:TaxCategory' | 'cac:ClassifiedTaxCategory',
+  category: ZATCATaxCategory,
+  percent: number,
+  exemption?: { code?: string; reason?: string }
+): string {
+  return el(
+    tag,
+    text('cbc:ID', category, tag === 'cac:TaxCategory' ? { schemeAgencyID: '6', schemeID: 'UN/ECE 5305' } : {}) +
+      text('cbc:Percent', amount(percent)) +
+      (category !== 'S' && exemption ? text('cbc:TaxExemptionReasonCode', exemption.code) + text('cbc:TaxExemptionReason', exemption.reason) : '') +
+      (tag === 'cac:TaxCategory'
+        ? el('cac:TaxScheme', text('cbc:ID', 'VAT', { schemeAgencyID: '6', schemeID: 'UN/ECE 5153' }))
+        : taxSchemeXML())
+  )
+}
+
+/**
+ * Totals of an invoice as the UBL document states them, computed from its lines
+ */
+export function computeUBLTotals(invoice: ZATCAInvoice) {
+  const groups = new Map<string, { category: ZATCATaxCategory; percent: number; taxable: number; tax: number; code?: string; reason?: string }>()
+  let lineExtension = 0
+  let tax = 0
+  for (const item of invoice.lineItems) {
+    const net = lineNetAmount(item)
+    const category = taxCategoryOf(item)
+    const key = `${category}:${item.taxPercent}`
+    const group = groups.get(key) ?? { category, percent: item.taxPercent, taxable: 0, tax: 0, code: item.exemptionReasonCode, reason: item.exemptionReason }
+    group.taxable = round2(group.taxable + net)
+    group.tax = round2(group.tax + item.taxAmount)
+    groups.set(key, group)
+    lineExtension = round2(lineExtension + net)
+    tax = round2(tax + item.taxAmount)
+  }
+  return {
+    lineExtension,
+    tax,
+    taxInclusive: round2(lineExtension + tax),
+    subtotals: Array.from(groups.values()),
+  }
+}
+
+/**
+ * UBL 2.1 XML of a ZATCA invoice. The Invoice Counter Value and Previous
+ * Invoice Hash come from the issuing EGS unit's chain; the signature
+ * extension and QR are added once the invoice has been hashed and signed.
+ * Written without insignificant whitespace so that the signed document
+ * hashes exactly like the unsigned one.
+ */
+export function buildInvoiceXML(
+  invoice: ZATCAInvoice,
+  chain: ZATCAChainContext,
+  parts: { ublExtensions?: string; qrCode?: string } = {}
+): string {
+  const currency = invoice.currency || 'SAR'
+  const issued = issueDateParts(invoice.issueDate)
+  const totals = computeUBLTotals(invoice)
+  const taxInSAR = currency === 'SAR' ? totals.tax : round2(totals.tax * (invoice.exchangeRate || 1))
+  const isNote = invoice.invoiceType === 'CREDIT_NOTE' || invoice.invoiceType === 'DEBIT_NOTE'
+
+  const lines = invoice.lineItems
+    .map((item, index) => {
+      const net = lineNetAmount(item)
+      const category = taxCategoryOf(item)
+      return el(
+        'cac:InvoiceLine',
+        text('cbc:ID', index + 1) +
+          text('cbc:InvoicedQuantity', item.quantity, { unitCode: 'PCE' }) +
+          text('cbc:LineExtensionAmount', amount(net), { currencyID: currency }) +
+          (item.discount
+            ? el(
+                'cac:AllowanceCharge',
+                text('cbc:ChargeIndicator', 'false') +
+                  text('cbc:AllowanceChargeReason', 'discount') +
+                  text('cbc:Amount', amount(item.discount), { currencyID: currency })
+              )
+            : '') +
+          el(
+            'cac:TaxTotal',
+            text('cbc:TaxAmount', amount(item.taxAmount), { currencyID: currency }) +
+              text('cbc:RoundingAmount', amount(net + item.taxAmount), { currencyID: currency })
+          ) +
+          el(
+            'cac:Item',
+            text('cbc:Name', item.description) +
+              taxCategoryXML('cac:ClassifiedTaxCategory', category, item.taxPercent)
+          ) +
+          el('cac:Price', text('cbc:PriceAmount', amount(item.unitPrice), { currencyID: currency }))
+      )
+    })
+    .join('')
+
+  const subtotals = totals.subtotals
+    .map((group) =>
+      el(
+        'cac:TaxSubtotal',
+        text('cbc:TaxableAmount', amount(group.taxable), { currencyID: currency }) +
+          text('cbc:TaxAmount', amount(group.tax), { currencyID: currency }) +
+          taxCategoryXML('cac:TaxCategory', group.category, group.percent, { code: group.code, reason: group.reason })
+      )
+    )
+    .join('')
+
+  const paymentMeansCode = invoice.paymentTerms ? PAYMENT_MEANS[invoice.paymentTerms.method] : isNote ? '10' : ''
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<Invoice xmlns="${UBL_NAMESPACES.invoice}" xmlns:cac="${UBL_NAMESPACES.cac}" xmlns:cbc="${UBL_NAMESPACES.cbc}" xmlns:ext="${UBL_NAMESPACES.ext}">` +
+    (parts.ublExtensions || '') +
+    text('cbc:ProfileID', 'reporting:1.0') +
+    text('cbc:ID', invoice.invoiceNumber) +
+    text('cbc:UUID', invoice.uuid) +
+    text('cbc:IssueDate', issued.date) +
+    text('cbc:IssueTime', issued.time) +
+    text('cbc:InvoiceTypeCode', TYPE_CODES[invoice.invoiceType], { name: isSimplified(invoice) ? '0200000' : '0100000' }) +
+    text('cbc:DocumentCurrencyCode', currency) +
+    text('cbc:TaxCurrencyCode', 'SAR') +
+    (isNote && invoice.billingReference
+      ? el('cac:BillingReference', el('cac:InvoiceDocumentReference', text('cbc:ID', invoice.billingReference)))
+      : '') +
+    el('cac:AdditionalDocumentReference', text('cbc:ID', 'ICV') + text('cbc:UUID', chain.icv)) +
+    el(
+      'cac:AdditionalDocumentReference',
+      text('cbc:ID', 'PIH') +
+        el('cac:Attachment', text('cbc:EmbeddedDocumentBinaryObject', chain.previousHash, { mimeCode: 'text/plain' }))
+    ) +
+    (parts.qrCode
+      ? el(
+          'cac:AdditionalDocumentReference',
+          text('cbc:ID', 'QR') +
+            el('cac:Attachment', text('cbc:EmbeddedDocumentBinaryObject', parts.qrCode, { mimeCode: 'text/plain' }))
+        )
+      : '') +
+    el(
+      'cac:Signature',
+      text('cbc:ID', 'urn:oasis:names:specification:ubl:signature:Invoice') +
+        text('cbc:SignatureMethod', 'urn:oasis:names:specification:ubl:dsig:enveloped:xades')
+    ) +
+    supplierXML(invoice) +
+    customerXML(invoice) +
+    (isSimplified(invoice) ? '' : el('cac:Delivery', text('cbc:ActualDeliveryDate', issued.date))) +
+    (paymentMeansCode
+      ? el('cac:PaymentMeans', text('cbc:PaymentMeansCode', paymentMeansCode) + (isNote ? text('cbc:InstructionNote', invoice.instructionNote) : ''))
+      : '') +
+    el('cac:TaxTotal', text('cbc:TaxAmount', amount(totals.tax), { currencyID: currency }) + subtotals) +
+    el('cac:TaxTotal', text('cbc:TaxAmount', amount(taxInSAR), { currencyID: 'SAR' })) +
+    el(
+      'cac:LegalMonetaryTotal',
+      text('cbc:LineExtensionAmount', amount(totals.lineExtension), { currencyID: currency }) +
+        text('cbc:TaxExclusiveAmount', amount(totals.lineExtension), { currencyID: currency }) +
+        text('cbc:TaxInclusiveAmount', amount(totals.taxInclusive), { currencyID: currency }) +
+        text('cbc:AllowanceTotalAmount', amount(0), { currencyID: currency }) +
+        text('cbc:PrepaidAmount', amount(0), { currencyID: currency }) +
+        text('cbc:PayableAmount', amount(totals.taxInclusive), { currencyID: currency })
+    ) +
+    lines +
+    '</Invoice>'
+  )
+}
+
+/**
+ * Parts of the invoice the hash leaves out: the signature extension, the
+ * signature reference and the QR, which are only known after signing
+ */
+function excludedFromHash(element: Element, path: string[]): boolean {
+  if (path.length !== 1) return false
+  const name = localName(element.name || '')
+  if (name === 'UBLExtensions' || name === 'Signature') return true
+  if (name === 'AdditionalDocumentReference') {
+    const id = (element.elements || []).find((child) => child.type === 'element' && localName(child.name || '') === 'ID')
+    return textOf(id || null).trim() === 'QR'
+  }
+  return false
+}
+
+/** Canonical (C14N 1.1) form of the invoice as it is hashed */
+export function canonicalInvoice(xml: string | Element): string {
+  return canonicalize(xml, { exclude: excludedFromHash })
+}
+
+/** Base64 SHA-256 of the canonicalized invoice */
+export function computeInvoiceHash(xml: string | Element): string {
+  return createHash('sha256').update(canonicalInvoice(xml), 'utf8').digest('base64')
+}
+
+/**
+ * Chain values embedded in a UBL invoice
+ */
+export function readChainValues(xml: string | Element): { icv: number | null; previousHash: string | null; qrCode: string | null } {
+  const tree = typeof xml === 'string' ? parseXml(xml) : xml
+  const root = findElement(tree, 'Invoice') || tree
+  const values: Record<string, string> = {}
+  for (const child of root.elements || []) {
+    if (child.type !== 'element' || localName(child.name || '') !== 'AdditionalDocumentReference') continue
+    const children = (child.elements || []).filter((c) => c.type === 'element')
+    const id = textOf(children.find((c) => localName(c.name || '') === 'ID') || null).trim()
+    const uuid = children.find((c) => localName(c.name || '') === 'UUID')
+    const attachment = children.find((c) => localName(c.name || '') === 'Attachment')
+    values[id] = textOf(uuid || attachment || null).trim()
+  }
+  const icv = values.ICV ? Number(values.ICV) : NaN
+  return {
+    icv: Number.isInteger(icv) ? icv : null,
+    previousHash: values.PIH || null,
+    qrCode: values.QR || null,
+  }
+}
+
+/**
+ * ZATCA QR payload: Tag-Length-Value records, base64 encoded. Tags 1-5
+ * carry seller, VAT number, timestamp and totals, 6-7 the invoice hash and
+ * signature, 8 the public key and 9 (simplified invoices) the signature of
+ * the certificate by the ZATCA CA.
+ */
+export function encodeTLV(fields: Array<[number, string | Buffer]>): string {
+  const records = fields.map(([tag, value]) => {
+    const bytes = Buffer.isBuffer(value) ? value : Buffer.from(value, 'utf8')
+    if (bytes.length > 255) throw new Error(`QR field ${tag} is too long`)
+    return Buffer.concat([Buffer.from([tag, bytes.length]), bytes])
+  })
+  return Buffer.concat(records).toString('base64')
+}
+
+export function decodeTLV(base64: string): Map<number, Buffer> {
+  const bytes = Buffer.from(base64, 'base64')
+  const fields = new Map<number, Buffer>()
+  let offset = 0
+  while (offset + 2 <= bytes.length) {
+    const tag = bytes[offset]
+    const length = bytes[offset + 1]
+    fields.set(tag, bytes.subarray(offset + 2, offset + 2 + length))
+    offset += 2 + length
+  }
+  return fields
+}
+
+/**
+ * QR payload of a signed invoice
+ */
+export function buildQRCode(
+  invoice: ZATCAInvoice,
+  signed: { invoiceHash: string; signatureValue: string; publicKey: Buffer; certificateSignature?: Buffer | null }
+): string {
+  const issued = issueDateParts(invoice.issueDate)
+  const totals = computeUBLTotals(invoice)
+  const fields: Array<[number, string | Buffer]> = [
+    [1, invoice.seller.name],
+    [2, invoice.seller.taxId],
+    [3, `${issued.date}T${issued.time}`],
+    [4, amount(totals.taxInclusive)],
+    [5, amount(totals.tax)],
+    [6, signed.invoiceHash],
+    [7, signed.signatureValue],
+    [8, signed.publicKey],
+  ]
+  if (isSimplified(invoice) && signed.certificateSignature) {
+    fields.push([9, signed.certificateSignature])
+  }
+  return encodeTLV(fields)
+}
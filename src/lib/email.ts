@@ -5,12 +5,19 @@ if (process.env.SENDGRID_API_KEY) {
   sgMail.setApiKey(process.env.SENDGRID_API_KEY)
 }
 
+export interface EmailAttachment {
+  filename: string
+  content: Buffer | string
+  type?: string
+}
+
 interface EmailOptions {
   to: string | string[]
   subject: string
   html: string
   text?: string
   from?: string
+  attachments?: EmailAttachment[]
 }
 
 export async function sendEmail(options: EmailOptions) {
@@ -19,7 +26,8 @@ export async function sendEmail(options: EmailOptions) {
     console.log('📧 Email would be sent:', {
       to: options.to,
       subject: options.subject,
-      html: options.html
+      html: options.html,
+      attachments: options.attachments?.map(a => a.filename)
     })
     return { success: true, mock: true }
   }
@@ -30,7 +38,15 @@ export async function sendEmail(options: EmailOptions) {
       from: options.from || process.env.FROM_EMAIL || 'noreply@accountingfirm.com',
       subject: options.subject,
       html: options.html,
-      text: options.text || options.html.replace(/<[^>]*>/g, '') // Strip HTML for text version
+      text: options.text || options.html.replace(/<[^>]*>/g, ''), // Strip HTML for text version
+      ...(options.attachments?.length ? {
+        attachments: options.attachments.map(a => ({
+          content: Buffer.isBuffer(a.content) ? a.content.toString('base64') : Buffer.from(a.content).toString('base64'),
+          filename: a.filename,
+          type: a.type,
+          disposition: 'attachment'
+        }))
+      } : {})
     }
 
     await sgMail.send(msg)
@@ -41,6 +57,16 @@ export async function sendEmail(options: EmailOptions) {
   }
 }
 
+/** Escape text for interpolation into email HTML, inside elements or attribute values */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
 // Generate ICS calendar file content for booking confirmations
 export function generateICS(booking: {
   id: string
@@ -87,7 +113,7 @@ export async function sendBookingConfirmation(
     clientEmail: string
     service: { name: string; price?: number }
   },
-  options?: { locale?: string; timeZone?: string }
+  options?: { locale?: string; timeZone?: string; policyText?: string }
 ) {
   const icsContent = generateICS(booking)
   const icsBase64 = Buffer.from(icsContent).toString('base64')
@@ -147,7 +173,9 @@ export async function sendBookingConfirmation(
           Phone: (555) 123-4567
         </p>
         
-        <p>If you need to reschedule or cancel your appointment, please contact us at least 24 hours in advance.</p>
+        ${options?.policyText
+          ? `<h3>Cancellation &amp; Rescheduling Policy:</h3>\n        <p>${escapeHtml(options.policyText)}</p>`
+          : '<p>If you need to reschedule or cancel your appointment, please contact us at least 24 hours in advance.</p>'}
         
         <p>We look forward to meeting with you!</p>
         
@@ -23,15 +23,17 @@ export async function fetchRates(targets: string[], base = BASE_CURRENCY): Promi
       }
 
       const now = new Date()
+      // One row per pair and day: a refresh later the same day replaces today's rate, earlier days are kept
+      const day = typeof json.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(json.date) ? json.date : now.toISOString().slice(0, 10)
+      const rateDate = new Date(`${day}T00:00:00.000Z`)
       const updated: { target: string; rate: number; fetchedAt: string }[] = []
 
       for (const r of rates) {
-        const existing = await prisma.exchangeRate.findFirst({ where: { base, target: r.target } })
-        if (existing) {
-          await prisma.exchangeRate.update({ where: { id: existing.id }, data: { rate: r.rate, source: 'exchangerate.host', fetchedAt: now, ttlSeconds: TTL_SECONDS } })
-        } else {
-          await prisma.exchangeRate.create({ data: { base, target: r.target, rate: r.rate, source: 'exchangerate.host', fetchedAt: now, ttlSeconds: TTL_SECONDS } })
-        }
+        await prisma.exchangeRate.upsert({
+          where: { base_target_rateDate_source: { base, target: r.target, rateDate, source: 'exchangerate.host' } },
+          update: { rate: r.rate, fetchedAt: now, ttlSeconds: TTL_SECONDS },
+          create: { base, target: r.target, rate: r.rate, source: 'exchangerate.host', rateDate, fetchedAt: now, ttlSeconds: TTL_SECONDS },
+        })
         updated.push({ target: r.target, rate: r.rate, fetchedAt: now.toISOString() })
       }
 
@@ -0,0 +1,47 @@
+/**
+ * useExpenseReviewQueue Hook - Expense Review Data
+ * Fetches expenses waiting on a reviewer
+ */
+
+import useSWR from "swr";
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+export interface PolicyFlag {
+  code: string;
+  message: string;
+}
+
+export interface ReviewExpense {
+  id: string;
+  vendor: string;
+  category?: string | null;
+  amountCents: number;
+  taxCents: number;
+  currency: string;
+  date: string;
+  notes?: string | null;
+  ocrConfidence?: number | null;
+  reviewFields: string[];
+  policyFlags?: PolicyFlag[] | null;
+  duplicateOfId?: string | null;
+  attachment?: { id: string; url?: string | null; name?: string | null; avStatus?: string | null } | null;
+  user?: { id: string; name?: string | null; email?: string | null } | null;
+}
+
+export function useExpenseReviewQueue() {
+  const { data, error, isLoading, mutate } = useSWR<{
+    success: boolean;
+    data: { expenses: ReviewExpense[]; total: number };
+  }>("/api/expenses/review", fetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return {
+    expenses: data?.data?.expenses || [],
+    total: data?.data?.total || 0,
+    isLoading,
+    error,
+    mutate,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { buildInvoiceLines, nextRunDate, parseRRule, previewRuns, prorationFor } from '../recurring'
+
+const day = (iso: string) => new Date(iso + 'T00:00:00.000Z')
+const ymd = (d: Date | null) => (d ? d.toISOString().slice(0, 10) : null)
+
+describe('recurring invoice schedules', () => {
+  it('parses the supported RRULE subset and rejects the rest', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=-1;COUNT=6')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byMonthDay: -1,
+      count: 6,
+    })
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow(/Invalid RRULE/)
+    expect(() => parseRRule('FREQ=MONTHLY;BYDAY=MO')).toThrow(/BYDAY is not supported/)
+  })
+
+  it('clamps monthly runs to the end of shorter months', () => {
+    const runs = previewRuns({ cadence: 'MONTHLY', startDate: day('2026-01-31') }, 4)
+    expect(runs.map(ymd)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30'])
+  })
+
+  it('stops at maxOccurrences, COUNT and the end date', () => {
+    const base = { cadence: 'WEEKLY' as const, startDate: day('2026-03-02') }
+    expect(nextRunDate({ ...base, maxOccurrences: 2 }, 2)).toBeNull()
+    expect(nextRunDate({ cadence: 'CUSTOM', rrule: 'FREQ=WEEKLY;COUNT=1', startDate: day('2026-03-02') }, 1)).toBeNull()
+    expect(ymd(nextRunDate({ ...base, endDate: day('2026-03-16') }, 2))).toBe('2026-03-16')
+    expect(nextRunDate({ ...base, endDate: day('2026-03-15') }, 2)).toBeNull()
+  })
+
+  it('prorates the stub before the anchor date', () => {
+    const config = { cadence: 'MONTHLY' as const, startDate: day('2026-04-21'), anchorDate: day('2026-05-01'), prorate: true }
+    expect(previewRuns(config, 3).map(ymd)).toEqual(['2026-04-21', '2026-05-01', '2026-06-01'])
+
+    const stub = prorationFor(config, 0)
+    expect(stub).toEqual({ factor: 10 / 30, days: 10, fullDays: 30 })
+    expect(prorationFor(config, 1).factor).toBe(1)
+
+    const [line] = buildInvoiceLines([{ description: 'Retainer', quantity: 1, unitPriceCents: 300000 }], stub)
+    expect(line.totalCents).toBe(100000)
+    expect(line.description).toBe('Retainer (prorated 10/30 days)')
+  })
+
+  it('prorates a final period cut short by the end date', () => {
+    const config = { cadence: 'MONTHLY' as const, startDate: day('2026-01-01'), endDate: day('2026-03-15'), prorate: true }
+    expect(prorationFor(config, 1).factor).toBe(1)
+    expect(prorationFor(config, 2)).toEqual({ factor: 15 / 31, days: 15, fullDays: 31 })
+  })
+})
@@ -0,0 +1,433 @@
+/**
+ * Recurring Invoice Service
+ * Persists recurring invoice schedules and generates their Invoice rows.
+ * Generation is idempotent per (schedule, run date): the run reserves an
+ * idempotency key and the invoice carries a unique (schedule, run date) pair.
+ */
+
+import type { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { finalizeIdempotencyKey, reserveIdempotencyKey } from '@/lib/idempotency'
+import { escapeHtml, sendEmail } from '@/lib/email'
+import { chargeSavedMethod } from '@/lib/payments/saved-method-charge'
+import { paymentService } from '@/lib/payments/payment-service'
+import { ledgerPostingService, postToLedgerSafe } from '@/lib/accounting/posting-service'
+import {
+  buildInvoiceLines,
+  nextRunDate,
+  previewRuns,
+  prorationFor,
+  type RecurringCadence,
+  type ScheduleConfig,
+  type TemplateItem,
+} from './recurring'
+
+export interface RecurringInvoiceInput {
+  name: string
+  currency?: string
+  clientId?: string | null
+  entityId?: string | null
+  cadence: RecurringCadence
+  rrule?: string | null
+  startDate: Date
+  anchorDate?: Date | null
+  endDate?: Date | null
+  maxOccurrences?: number | null
+  prorate?: boolean
+  autoSend?: boolean
+  autoCharge?: boolean
+  paymentMethodId?: string | null
+  items: TemplateItem[]
+}
+
+export interface RecurringRunResult {
+  processed: number
+  generated: number
+  skipped: number
+  charged: number
+  sent: number
+  failed: number
+}
+
+// Cap on catch-up runs per schedule per cron invocation
+const MAX_RUNS_PER_SCHEDULE = 12
+
+const scheduleInclude = {
+  items: { orderBy: { lineOrder: 'asc' as const } },
+}
+
+type ScheduleWithItems = Prisma.RecurringInvoiceGetPayload<{ include: typeof scheduleInclude }>
+
+function toConfig(schedule: {
+  cadence: string
+  rrule: string | null
+  startDate: Date
+  anchorDate: Date | null
+  endDate: Date | null
+  maxOccurrences: number | null
+  prorate: boolean
+}): ScheduleConfig {
+  return {
+    cadence: schedule.cadence as RecurringCadence,
+    rrule: schedule.rrule,
+    startDate: schedule.startDate,
+    anchorDate: schedule.anchorDate,
+    endDate: schedule.endDate,
+    maxOccurrences: schedule.maxOccurrences,
+    prorate: schedule.prorate,
+  }
+}
+
+export class RecurringInvoiceService {
+  async list(tenantId: string, filters: { status?: string } = {}) {
+    const schedules = await prisma.recurringInvoice.findMany({
+      where: { tenantId, ...(filters.status ? { status: filters.status as any } : {}) },
+      include: scheduleInclude,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return schedules.map((schedule) => ({
+      ...schedule,
+      preview: previewRuns(toConfig(schedule), schedule.occurrenceCount + 3).slice(schedule.occurrenceCount),
+    }))
+  }
+
+  async get(tenantId: string, id: string) {
+    const schedule = await prisma.recurringInvoice.findFirst({
+      where: { id, tenantId },
+      include: { ...scheduleInclude, invoices: { orderBy: { recurringRunDate: 'desc' }, take: 24 } },
+    })
+    if (!schedule) {
+      throw new Error('Recurring invoice not found')
+    }
+    return schedule
+  }
+
+  async create(tenantId: string, userId: string | null, input: RecurringInvoiceInput) {
+    if (!input.items || input.items.length === 0) {
+      throw new Error('Invalid schedule: at least one line item is required')
+    }
+    if (input.endDate && input.endDate.getTime() < input.startDate.getTime()) {
+      throw new Error('Invalid schedule: end date is before start date')
+    }
+    if (input.anchorDate && input.anchorDate.getTime() < input.startDate.getTime()) {
+      throw new Error('Invalid schedule: anchor date is before start date')
+    }
+    if (input.autoCharge && !input.clientId) {
+      throw new Error('Invalid schedule: auto-charge requires a client')
+    }
+    if (input.autoSend && !input.clientId) {
+      throw new Error('Invalid schedule: auto-send requires a client')
+    }
+
+    if (input.clientId) {
+      const client = await prisma.user.findFirst({ where: { id: input.clientId, tenantId }, select: { id: true } })
+      if (!client) throw new Error('Client not found')
+    }
+    if (input.entityId) {
+      await ledgerPostingService.resolveEntityId(tenantId, input.entityId)
+    }
+    if (input.paymentMethodId) {
+      const method = await prisma.userPaymentMethod.findFirst({
+        where: { id: input.paymentMethodId, tenantId, userId: input.clientId ?? undefined },
+        select: { id: true },
+      })
+      if (!method) throw new Error('Payment method not found')
+    }
+
+    const config: ScheduleConfig = {
+      cadence: input.cadence,
+      rrule: input.rrule,
+      startDate: input.startDate,
+      anchorDate: input.anchorDate,
+      endDate: input.endDate,
+      maxOccurrences: input.maxOccurrences,
+      prorate: input.prorate,
+    }
+    // Validates the rrule and resolves the first run
+    const firstRun = nextRunDate(config, 0)
+
+    const schedule = await prisma.recurringInvoice.create({
+      data: {
+        tenantId,
+        entityId: input.entityId ?? null,
+        clientId: input.clientId ?? null,
+        name: input.name,
+        currency: (input.currency || 'USD').toUpperCase(),
+        cadence: input.cadence,
+        rrule: input.cadence === 'CUSTOM' ? input.rrule : null,
+        startDate: input.startDate,
+        anchorDate: input.anchorDate ?? null,
+        endDate: input.endDate ?? null,
+        maxOccurrences: input.maxOccurrences ?? null,
+        nextRunAt: firstRun,
+        status: firstRun ? 'ACTIVE' : 'COMPLETED',
+        prorate: Boolean(input.prorate),
+        autoSend: Boolean(input.autoSend),
+        autoCharge: Boolean(input.autoCharge),
+        paymentMethodId: input.paymentMethodId ?? null,
+        createdBy: userId,
+        items: {
+          create: input.items.map((item, index) => ({
+            description: item.description,
+            quantity: Math.max(1, item.quantity),
+            unitPriceCents: Math.max(0, Math.round(item.unitPriceCents)),
+            lineOrder: index,
+          })),
+        },
+      },
+      include: scheduleInclude,
+    })
+
+    await logAuditSafe({
+      action: 'invoice.recurring.create',
+      tenantId,
+      userId,
+      details: { recurringInvoiceId: schedule.id, cadence: schedule.cadence },
+    }).catch(() => {})
+
+    return { ...schedule, preview: previewRuns(config, 3) }
+  }
+
+  /**
+   * Pause, resume or cancel a schedule. Resuming skips runs that fell due
+   * while paused rather than back-billing them.
+   */
+  async setStatus(tenantId: string, id: string, status: 'ACTIVE' | 'PAUSED' | 'CANCELLED') {
+    const schedule = await this.get(tenantId, id)
+    if (schedule.status === 'CANCELLED' || schedule.status === 'COMPLETED') {
+      throw new Error(`Recurring invoice is ${schedule.status.toLowerCase()}`)
+    }
+
+    let nextRunAt = schedule.nextRunAt
+    let occurrenceCount = schedule.occurrenceCount
+    if (status === 'ACTIVE' && schedule.status === 'PAUSED') {
+      const config = toConfig(schedule)
+      const now = Date.now()
+      let run = nextRunDate(config, occurrenceCount)
+      while (run && run.getTime() < now) {
+        occurrenceCount++
+        run = nextRunDate(config, occurrenceCount)
+      }
+      nextRunAt = run
+    }
+
+    const updated = await prisma.recurringInvoice.update({
+      where: { id: schedule.id },
+      data: {
+        status: status === 'ACTIVE' && !nextRunAt ? 'COMPLETED' : status,
+        nextRunAt,
+        occurrenceCount,
+      },
+      include: scheduleInclude,
+    })
+
+    await logAuditSafe({
+      action: `invoice.recurring.${status.toLowerCase()}`,
+      tenantId,
+      details: { recurringInvoiceId: schedule.id },
+    }).catch(() => {})
+
+    return updated
+  }
+
+  /**
+   * Generate every invoice that has fallen due. Safe to run concurrently
+   * and repeatedly: each (schedule, run date) produces at most one invoice.
+   */
+  async generateDue(now: Date = new Date(), limit = 100): Promise<RecurringRunResult> {
+    const result: RecurringRunResult = { processed: 0, generated: 0, skipped: 0, charged: 0, sent: 0, failed: 0 }
+
+    const due = await prisma.recurringInvoice.findMany({
+      where: { status: 'ACTIVE', nextRunAt: { lte: now } },
+      include: scheduleInclude,
+      orderBy: { nextRunAt: 'asc' },
+      take: limit,
+    })
+
+    for (const schedule of due) {
+      result.processed++
+      try {
+        await this.runSchedule(schedule, now, result)
+      } catch (error) {
+        result.failed++
+        logger.error('Recurring invoice run failed', { recurringInvoiceId: schedule.id, error: String(error) })
+        await prisma.recurringInvoice
+          .update({ where: { id: schedule.id }, data: { lastError: String((error as Error)?.message || error) } })
+          .catch(() => {})
+      }
+    }
+
+    return result
+  }
+
+  private async runSchedule(schedule: ScheduleWithItems, now: Date, result: RecurringRunResult) {
+    const config = toConfig(schedule)
+    let index = schedule.occurrenceCount
+    let runDate = schedule.nextRunAt
+
+    for (let runs = 0; runDate && runDate.getTime() <= now.getTime() && runs < MAX_RUNS_PER_SCHEDULE; runs++) {
+      const created = await this.generateRun(schedule, config, index, runDate)
+      if (created) {
+        result.generated++
+        if (schedule.autoCharge && (await this.chargeInvoice(schedule, created))) result.charged++
+        if (schedule.autoSend && (await this.sendInvoice(schedule, created.id))) result.sent++
+      } else {
+        result.skipped++
+      }
+
+      const next = nextRunDate(config, index + 1)
+      // Only advance from the state we read, so a concurrent runner cannot skip a period
+      const advanced = await prisma.recurringInvoice.updateMany({
+        where: { id: schedule.id, occurrenceCount: index },
+        data: {
+          occurrenceCount: index + 1,
+          lastRunAt: runDate,
+          nextRunAt: next,
+          status: next ? 'ACTIVE' : 'COMPLETED',
+          lastError: null,
+        },
+      })
+      if (advanced.count === 0) break
+
+      index++
+      runDate = next
+    }
+  }
+
+  /**
+   * Create the invoice for one run; returns null when it already exists
+   */
+  private async generateRun(schedule: ScheduleWithItems, config: ScheduleConfig, index: number, runDate: Date) {
+    const key = `recurring-invoice:${schedule.id}:${runDate.toISOString()}`
+    const reservation = await reserveIdempotencyKey(key, schedule.createdBy, schedule.tenantId)
+    if (reservation.status === 'COMPLETED') return null
+
+    const existing = await prisma.invoice.findUnique({
+      where: { recurringInvoiceId_recurringRunDate: { recurringInvoiceId: schedule.id, recurringRunDate: runDate } },
+      select: { id: true },
+    })
+    if (existing) {
+      await finalizeIdempotencyKey(key, 'Invoice', existing.id, schedule.tenantId)
+      return null
+    }
+
+    const lines = buildInvoiceLines(schedule.items, prorationFor(config, index))
+    const totalCents = lines.reduce((sum, line) => sum + line.totalCents, 0)
+
+    let invoice
+    try {
+      invoice = await prisma.invoice.create({
+        data: {
+          tenantId: schedule.tenantId,
+          entityId: schedule.entityId,
+          clientId: schedule.clientId,
+          currency: schedule.currency,
+          totalCents,
+          status: 'UNPAID',
+          recurringInvoiceId: schedule.id,
+          recurringRunDate: runDate,
+          items: { create: lines },
+        },
+        include: { items: true },
+      })
+    } catch (e: any) {
+      // Lost a race with another runner for the same run
+      if (String(e?.code) === 'P2002') return null
+      throw e
+    }
+
+    await finalizeIdempotencyKey(key, 'Invoice', invoice.id, schedule.tenantId)
+    await postToLedgerSafe('invoice.issued', () => ledgerPostingService.postInvoiceIssued(invoice))
+    await logAuditSafe({
+      action: 'invoice.recurring.generate',
+      tenantId: schedule.tenantId,
+      details: { recurringInvoiceId: schedule.id, invoiceId: invoice.id, runDate: runDate.toISOString(), totalCents },
+    }).catch(() => {})
+
+    return invoice
+  }
+
+  /**
+   * Charge the schedule's payment method (or the client's default) off-session
+   */
+  private async chargeInvoice(
+    schedule: ScheduleWithItems,
+    invoice: { id: string; totalCents: number; currency: string }
+  ): Promise<boolean> {
+    if (!schedule.clientId || invoice.totalCents <= 0) return false
+
+    const method = await prisma.userPaymentMethod.findFirst({
+      where: {
+        tenantId: schedule.tenantId,
+        userId: schedule.clientId,
+        status: 'ACTIVE',
+        ...(schedule.paymentMethodId ? { id: schedule.paymentMethodId } : { isDefault: true }),
+      },
+    })
+    if (!method) {
+      logger.warn('Recurring invoice auto-charge skipped: no active payment method', {
+        recurringInvoiceId: schedule.id,
+        invoiceId: invoice.id,
+      })
+      return false
+    }
+
+    try {
+      const intent = await chargeSavedMethod(
+        method,
+        {
+          amountCents: invoice.totalCents,
+          currency: invoice.currency,
+          metadata: { invoiceId: invoice.id, recurringInvoiceId: schedule.id },
+        },
+        `recurring-invoice-charge:${invoice.id}`
+      )
+      if (intent.status !== 'succeeded') return false
+
+      // The webhook records the same intent too; recording is idempotent per intent
+      await paymentService.recordStripePayment(intent)
+      return true
+    } catch (error) {
+      // Left UNPAID for dunning to retry
+      logger.error('Recurring invoice auto-charge failed', { invoiceId: invoice.id, error: String(error) })
+      return false
+    }
+  }
+
+  private async sendInvoice(schedule: ScheduleWithItems, invoiceId: string): Promise<boolean> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { items: true, client: { select: { email: true, name: true } } },
+    })
+    if (!invoice?.client?.email) return false
+
+    const total = (invoice.totalCents / 100).toFixed(2)
+    const rows = invoice.items
+      .map((item) => `<tr><td>${escapeHtml(item.description)}</td><td>${item.quantity}</td><td>${(item.totalCents / 100).toFixed(2)}</td></tr>`)
+      .join('')
+
+    try {
+      await sendEmail({
+        to: invoice.client.email,
+        subject: `${schedule.name}: invoice for ${invoice.currency} ${total}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <p>Dear ${escapeHtml(invoice.client.name || 'Customer')},</p>
+            <p>Please find your ${escapeHtml(schedule.name)} invoice below.</p>
+            <table style="width: 100%; border-collapse: collapse;">${rows}</table>
+            <p><strong>Total:</strong> ${invoice.currency} ${total}${invoice.status === 'PAID' ? ' (paid)' : ''}</p>
+          </div>
+        `,
+      })
+      return true
+    } catch (error) {
+      logger.error('Recurring invoice email failed', { invoiceId, error: String(error) })
+      return false
+    }
+  }
+}
+
+export const recurringInvoiceService = new RecurringInvoiceService()
@@ -0,0 +1,263 @@
+/**
+ * Recurring invoice schedules
+ * Pure helpers for run dates, end conditions and proration. Persistence and
+ * invoice generation live in recurring-service.ts.
+ */
+
+export type RecurringCadence = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ANNUAL' | 'CUSTOM'
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+/**
+ * The subset of RFC 5545 RRULE used for billing: FREQ, INTERVAL,
+ * BYMONTHDAY (negative counts from month end), COUNT and UNTIL
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  byMonthDay?: number
+  count?: number
+  until?: Date
+}
+
+export interface ScheduleConfig {
+  cadence: RecurringCadence
+  rrule?: string | null
+  startDate: Date
+  anchorDate?: Date | null
+  endDate?: Date | null
+  maxOccurrences?: number | null
+  prorate?: boolean
+}
+
+export interface TemplateItem {
+  description: string
+  quantity: number
+  unitPriceCents: number
+}
+
+export interface GeneratedLine {
+  description: string
+  quantity: number
+  unitPriceCents: number
+  totalCents: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const CADENCE_RULES: Record<Exclude<RecurringCadence, 'CUSTOM'>, RecurrenceRule> = {
+  WEEKLY: { freq: 'WEEKLY', interval: 1 },
+  MONTHLY: { freq: 'MONTHLY', interval: 1 },
+  QUARTERLY: { freq: 'MONTHLY', interval: 3 },
+  ANNUAL: { freq: 'YEARLY', interval: 1 },
+}
+
+function parseUntil(value: string): Date {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+  if (!m) throw new Error(`Invalid RRULE: UNTIL "${value}" is not a date`)
+  const [, y, mo, d, h = '23', mi = '59', s = '59'] = m
+  return new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)))
+}
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ */
+export function parseRRule(rrule: string): RecurrenceRule {
+  const body = rrule.trim().replace(/^RRULE:/i, '')
+  const parts = new Map<string, string>()
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=')
+    if (!key || value === undefined) throw new Error(`Invalid RRULE: malformed part "${part}"`)
+    parts.set(key.toUpperCase(), value.toUpperCase())
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined
+  if (!freq || !['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new Error('Invalid RRULE: FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY')
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYMONTHDAY', 'COUNT', 'UNTIL'].includes(key)) {
+      throw new Error(`Invalid RRULE: ${key} is not supported for invoice schedules`)
+    }
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error('Invalid RRULE: INTERVAL must be a positive integer')
+  }
+
+  const rule: RecurrenceRule = { freq, interval }
+
+  if (parts.has('BYMONTHDAY')) {
+    const day = Number(parts.get('BYMONTHDAY'))
+    if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+      throw new Error('Invalid RRULE: BYMONTHDAY must be between -31 and 31')
+    }
+    if (freq !== 'MONTHLY' && freq !== 'YEARLY') {
+      throw new Error('Invalid RRULE: BYMONTHDAY requires FREQ=MONTHLY or FREQ=YEARLY')
+    }
+    rule.byMonthDay = day
+  }
+
+  if (parts.has('COUNT')) {
+    const count = Number(parts.get('COUNT'))
+    if (!Number.isInteger(count) || count < 1) throw new Error('Invalid RRULE: COUNT must be a positive integer')
+    rule.count = count
+  }
+
+  if (parts.has('UNTIL')) {
+    rule.until = parseUntil(parts.get('UNTIL')!)
+  }
+
+  return rule
+}
+
+export function cadenceRule(cadence: RecurringCadence, rrule?: string | null): RecurrenceRule {
+  if (cadence === 'CUSTOM') {
+    if (!rrule) throw new Error('Invalid RRULE: custom cadence requires an rrule')
+    return parseRRule(rrule)
+  }
+  return CADENCE_RULES[cadence]
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+/**
+ * Move a date by `steps` rule intervals. Month arithmetic clamps to the
+ * last day of the month so Jan 31 + 1 month is Feb 28/29.
+ */
+export function shiftDate(base: Date, rule: RecurrenceRule, steps: number): Date {
+  const d = new Date(base)
+  const n = steps * rule.interval
+
+  if (rule.freq === 'DAILY') {
+    d.setUTCDate(d.getUTCDate() + n)
+    return d
+  }
+  if (rule.freq === 'WEEKLY') {
+    d.setUTCDate(d.getUTCDate() + 7 * n)
+    return d
+  }
+
+  const totalMonths = d.getUTCFullYear() * 12 + d.getUTCMonth() + (rule.freq === 'YEARLY' ? 12 * n : n)
+  const year = Math.floor(totalMonths / 12)
+  const month = totalMonths - year * 12
+  const lastDay = daysInMonth(year, month)
+
+  let day = d.getUTCDate()
+  if (rule.byMonthDay !== undefined) {
+    day = rule.byMonthDay > 0 ? rule.byMonthDay : lastDay + rule.byMonthDay + 1
+  }
+
+  d.setUTCFullYear(year, month, Math.max(1, Math.min(day, lastDay)))
+  return d
+}
+
+function hasStub(config: ScheduleConfig): boolean {
+  return Boolean(config.anchorDate && config.anchorDate.getTime() > config.startDate.getTime())
+}
+
+/**
+ * Run date of the n-th invoice (0-based), ignoring end conditions.
+ * With an anchor date the first run is a stub on the start date and the
+ * series continues from the anchor.
+ */
+export function runDateAt(config: ScheduleConfig, index: number): Date {
+  const rule = cadenceRule(config.cadence, config.rrule)
+  if (hasStub(config)) {
+    return index === 0 ? new Date(config.startDate) : shiftDate(config.anchorDate!, rule, index - 1)
+  }
+  return shiftDate(config.startDate, rule, index)
+}
+
+/**
+ * Run date of the n-th invoice, or null once an end condition is reached
+ */
+export function nextRunDate(config: ScheduleConfig, occurrenceCount: number): Date | null {
+  const rule = cadenceRule(config.cadence, config.rrule)
+  const limits = [config.maxOccurrences, rule.count].filter((v): v is number => typeof v === 'number' && v > 0)
+  if (limits.length > 0 && occurrenceCount >= Math.min(...limits)) return null
+
+  const run = runDateAt(config, occurrenceCount)
+  const ends = [config.endDate, rule.until].filter((v): v is Date => v instanceof Date)
+  if (ends.some((end) => run.getTime() > end.getTime())) return null
+
+  return run
+}
+
+export function previewRuns(config: ScheduleConfig, count = 3): Date[] {
+  const runs: Date[] = []
+  for (let i = 0; i < count; i++) {
+    const run = nextRunDate(config, i)
+    if (!run) break
+    runs.push(run)
+  }
+  return runs
+}
+
+function wholeDays(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS)
+}
+
+/**
+ * Share of a full period billed by the n-th run. Less than 1 for the stub
+ * before the anchor date and for a final period cut short by the end date.
+ */
+export function prorationFor(
+  config: ScheduleConfig,
+  index: number
+): { factor: number; days: number; fullDays: number } {
+  const full = { factor: 1, days: 0, fullDays: 0 }
+  if (!config.prorate) return full
+
+  const rule = cadenceRule(config.cadence, config.rrule)
+  const runDate = runDateAt(config, index)
+  const periodEnd = runDateAt(config, index + 1)
+
+  if (index === 0 && hasStub(config)) {
+    const fullStart = shiftDate(config.anchorDate!, rule, -1)
+    const fullDays = wholeDays(fullStart, config.anchorDate!)
+    const days = wholeDays(runDate, config.anchorDate!)
+    if (fullDays > 0 && days < fullDays) return { factor: days / fullDays, days, fullDays }
+  }
+
+  if (config.endDate) {
+    // endDate is the last day of service, inclusive
+    const serviceEnd = new Date(config.endDate)
+    serviceEnd.setUTCHours(0, 0, 0, 0)
+    serviceEnd.setUTCDate(serviceEnd.getUTCDate() + 1)
+
+    if (serviceEnd.getTime() < periodEnd.getTime()) {
+      const fullDays = wholeDays(runDate, periodEnd)
+      const days = Math.max(0, wholeDays(runDate, serviceEnd))
+      if (fullDays > 0) return { factor: days / fullDays, days, fullDays }
+    }
+  }
+
+  return full
+}
+
+/**
+ * Invoice lines for one run, scaled by the proration factor
+ */
+export function buildInvoiceLines(
+  items: TemplateItem[],
+  proration: { factor: number; days: number; fullDays: number }
+): GeneratedLine[] {
+  return items.map((item) => {
+    const quantity = Math.max(1, item.quantity)
+    const prorated = proration.factor < 1
+    const unitPriceCents = prorated ? Math.round(item.unitPriceCents * proration.factor) : item.unitPriceCents
+    return {
+      description: prorated
+        ? `${item.description} (prorated ${proration.days}/${proration.fullDays} days)`
+        : item.description,
+      quantity,
+      unitPriceCents,
+      totalCents: quantity * unitPriceCents,
+    }
+  })
+}
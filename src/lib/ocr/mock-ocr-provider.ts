@@ -38,6 +38,7 @@ export class MockOcrProvider {
       return {
         documentType: 'receipt',
         totalAmount: (Math.random() * 200).toFixed(2),
+        taxAmount: (Math.random() * 20).toFixed(2),
         store: 'Mock Store',
         date: new Date().toISOString().split('T')[0],
       }
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { appliedBefore, computeInvoiceBalance, planAllocations, settledStatus, unappliedCents } from '../allocations'
+
+const invoices = [
+  { id: 'inv-2', currency: 'AED', outstandingCents: 30000, createdAt: new Date('2026-05-02') },
+  { id: 'inv-1', currency: 'AED', outstandingCents: 10000, createdAt: new Date('2026-05-01') },
+  { id: 'inv-3', currency: 'USD', outstandingCents: 5000, createdAt: new Date('2026-04-01') },
+]
+
+describe('computeInvoiceBalance', () => {
+  it('subtracts payments and credit from open invoices', () => {
+    expect(computeInvoiceBalance({ id: 'a', totalCents: 10000, status: 'UNPAID' }, 2500, 1000)).toMatchObject({
+      paidCents: 2500,
+      creditedCents: 1000,
+      outstandingCents: 6500,
+    })
+    expect(computeInvoiceBalance({ id: 'a', totalCents: 10000, status: 'SENT' }, 12000).outstandingCents).toBe(0)
+  })
+
+  it('treats paid, draft and void invoices as owing nothing', () => {
+    for (const status of ['PAID', 'DRAFT', 'VOID']) {
+      expect(computeInvoiceBalance({ id: 'a', totalCents: 10000, status }).outstandingCents).toBe(0)
+    }
+  })
+})
+
+describe('settledStatus', () => {
+  it('settles covered invoices and reopens paid ones that lost an allocation', () => {
+    expect(settledStatus({ totalCents: 10000, status: 'UNPAID' }, 10000)).toBe('PAID')
+    expect(settledStatus({ totalCents: 10000, status: 'UNPAID' }, 4000)).toBeNull()
+    expect(settledStatus({ totalCents: 10000, status: 'PAID' }, 4000)).toBe('UNPAID')
+    expect(settledStatus({ totalCents: 10000, status: 'PAID' }, 0)).toBe('UNPAID')
+    expect(settledStatus({ totalCents: 10000, status: 'VOID' }, 10000)).toBeNull()
+  })
+})
+
+describe('planAllocations', () => {
+  it('settles the oldest invoices in the payment currency first', () => {
+    const plan = planAllocations(25000, 'AED', invoices)
+    expect(plan.allocations).toEqual([
+      { invoiceId: 'inv-1', amountCents: 10000 },
+      { invoiceId: 'inv-2', amountCents: 15000 },
+    ])
+    expect(plan.unappliedCents).toBe(0)
+  })
+
+  it('leaves overpayments unapplied as customer credit', () => {
+    const plan = planAllocations(50000, 'AED', invoices)
+    expect(plan.allocatedCents).toBe(40000)
+    expect(plan.unappliedCents).toBe(10000)
+  })
+
+  it('validates explicit allocations', () => {
+    expect(planAllocations(20000, 'AED', invoices, [{ invoiceId: 'inv-2', amountCents: 5000 }])).toMatchObject({
+      allocations: [{ invoiceId: 'inv-2', amountCents: 5000 }],
+      unappliedCents: 15000,
+    })
+    expect(() => planAllocations(20000, 'AED', invoices, [{ invoiceId: 'inv-1', amountCents: 12000 }]))
+      .toThrow('Allocation exceeds the outstanding balance of invoice inv-1')
+    expect(() => planAllocations(20000, 'AED', invoices, [{ invoiceId: 'inv-3', amountCents: 100 }]))
+      .toThrow('Currency mismatch for invoice inv-3')
+    expect(() => planAllocations(20000, 'AED', invoices, [{ invoiceId: 'nope', amountCents: 100 }]))
+      .toThrow('Invoice not found: nope')
+    expect(() => planAllocations(5000, 'AED', invoices, [
+      { invoiceId: 'inv-1', amountCents: 4000 },
+      { invoiceId: 'inv-2', amountCents: 4000 },
+    ])).toThrow('Allocations exceed the available amount')
+    expect(() => planAllocations(5000, 'AED', invoices, [
+      { invoiceId: 'inv-1', amountCents: 100 },
+      { invoiceId: 'inv-1', amountCents: 100 },
+    ])).toThrow('Each invoice can only be allocated once')
+  })
+})
+
+describe('unappliedCents', () => {
+  it('never goes below zero', () => {
+    expect(unappliedCents(10000, 6000, 1000)).toBe(3000)
+    expect(unappliedCents(10000, 8000, 5000)).toBe(0)
+  })
+})
+
+describe('appliedBefore', () => {
+  const payment = { date: new Date('2026-05-20'), createdAt: new Date('2026-06-03T10:00:00Z'), voidedAt: null }
+  const cutOff = new Date('2026-06-01')
+
+  it('dates allocations made with the payment at the payment date and later ones when applied', () => {
+    const applied = appliedBefore([
+      { invoiceId: 'a', amountCents: 4000, createdAt: new Date('2026-06-03T10:00:01Z'), source: payment },
+      { invoiceId: 'b', amountCents: 2500, createdAt: new Date('2026-06-04T09:00:00Z'), source: payment },
+      { invoiceId: 'c', amountCents: 1000, createdAt: new Date('2026-05-25'), source: { ...payment, createdAt: new Date('2026-05-20') } },
+    ], cutOff)
+    expect(applied).toEqual(new Map([['a', 4000], ['c', 1000]]))
+  })
+
+  it('keeps payments voided after the cut-off and drops those voided before it', () => {
+    const recorded = { date: new Date('2026-05-20'), createdAt: new Date('2026-05-20') }
+    const applied = appliedBefore([
+      { invoiceId: 'a', amountCents: 4000, createdAt: new Date('2026-05-20'), source: { ...recorded, voidedAt: new Date('2026-06-10') } },
+      { invoiceId: 'b', amountCents: 2500, createdAt: new Date('2026-05-20'), source: { ...recorded, voidedAt: new Date('2026-05-28') } },
+    ], cutOff)
+    expect(applied).toEqual(new Map([['a', 4000]]))
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Payment and credit note allocation rules
+ * Pure helpers shared by the payment service, dunning and bank matching
+ */
+
+export interface InvoiceBalance {
+  invoiceId: string
+  totalCents: number
+  paidCents: number
+  creditedCents: number
+  outstandingCents: number
+}
+
+export interface AllocationRequest {
+  invoiceId: string
+  amountCents: number
+}
+
+export interface OpenInvoice {
+  id: string
+  currency: string
+  outstandingCents: number
+  createdAt: Date
+}
+
+// An allocation with the dates of the payment or credit note it applies
+export interface DatedAllocation {
+  invoiceId: string
+  amountCents: number
+  createdAt: Date
+  source: { date: Date; createdAt: Date; voidedAt: Date | null }
+}
+
+export interface AllocationPlan {
+  allocations: AllocationRequest[]
+  allocatedCents: number
+  unappliedCents: number
+}
+
+// Statuses whose invoices are not (or no longer) receivable
+const CLOSED_STATUSES = new Set(['DRAFT', 'VOID'])
+
+/**
+ * What the customer still owes on an invoice. PAID invoices owe nothing even
+ * without allocations, which covers invoices settled before payments were recorded.
+ */
+export function computeInvoiceBalance(
+  invoice: { id: string; totalCents: number; status: string },
+  paidCents = 0,
+  creditedCents = 0
+): InvoiceBalance {
+  const open = CLOSED_STATUSES.has(invoice.status) || invoice.status === 'PAID'
+    ? 0
+    : Math.max(invoice.totalCents - paidCents - creditedCents, 0)
+  return { invoiceId: invoice.id, totalCents: invoice.totalCents, paidCents, creditedCents, outstandingCents: open }
+}
+
+// Allocations saved this soon after their payment or credit note were made while recording it
+const RECORDED_WITH_SOURCE_MS = 60_000
+
+/**
+ * When an allocation took effect: the payment or credit note date when it
+ * was made while recording it, otherwise the day it was applied (never
+ * before the money came in)
+ */
+export function allocationDate(allocation: DatedAllocation): Date {
+  const { source } = allocation
+  if (allocation.createdAt.getTime() - source.createdAt.getTime() <= RECORDED_WITH_SOURCE_MS) return source.date
+  return allocation.createdAt > source.date ? allocation.createdAt : source.date
+}
+
+/**
+ * Cents applied to each invoice before a cut-off. A payment or credit note
+ * voided after the cut-off still counted then.
+ */
+export function appliedBefore(allocations: DatedAllocation[], before: Date): Map<string, number> {
+  const applied = new Map<string, number>()
+  for (const allocation of allocations) {
+    if (allocationDate(allocation) >= before) continue
+    if (allocation.source.voidedAt && allocation.source.voidedAt < before) continue
+    applied.set(allocation.invoiceId, (applied.get(allocation.invoiceId) || 0) + allocation.amountCents)
+  }
+  return applied
+}
+
+/**
+ * Status an invoice should move to once its allocations change, or null
+ * when it stays as it is. Draft and void invoices are never touched. Only
+ * call this for invoices whose allocations changed: invoices marked PAID
+ * before payments were recorded have none and would otherwise reopen.
+ */
+export function settledStatus(
+  invoice: { totalCents: number; status: string },
+  appliedCents: number
+): 'PAID' | 'UNPAID' | null {
+  if (CLOSED_STATUSES.has(invoice.status)) return null
+  if (appliedCents >= invoice.totalCents && invoice.totalCents > 0) {
+    return invoice.status === 'PAID' ? null : 'PAID'
+  }
+  return invoice.status === 'PAID' ? 'UNPAID' : null
+}
+
+/** What is left of a payment or credit note after allocations and refunds */
+export function unappliedCents(amountCents: number, allocatedCents: number, refundedCents: number): number {
+  return Math.max(amountCents - allocatedCents - refundedCents, 0)
+}
+
+/**
+ * Apply an amount to invoices. Explicit allocations are validated against
+ * each invoice's outstanding balance; without them the amount settles the
+ * oldest open invoices first. Whatever is left stays unapplied as customer credit.
+ */
+export function planAllocations(
+  availableCents: number,
+  currency: string,
+  invoices: OpenInvoice[],
+  requested?: AllocationRequest[]
+): AllocationPlan {
+  const byId = new Map(invoices.map((inv) => [inv.id, inv]))
+  let allocations: AllocationRequest[]
+
+  if (requested && requested.length > 0) {
+    const seen = new Set<string>()
+    for (const allocation of requested) {
+      if (!Number.isInteger(allocation.amountCents) || allocation.amountCents <= 0) {
+        throw new Error('Allocation amounts must be positive')
+      }
+      if (seen.has(allocation.invoiceId)) {
+        throw new Error('Each invoice can only be allocated once')
+      }
+      seen.add(allocation.invoiceId)
+
+      const invoice = byId.get(allocation.invoiceId)
+      if (!invoice) throw new Error(`Invoice not found: ${allocation.invoiceId}`)
+      if (invoice.currency !== currency) {
+        throw new Error(`Currency mismatch for invoice ${allocation.invoiceId}`)
+      }
+      if (allocation.amountCents > invoice.outstandingCents) {
+        throw new Error(`Allocation exceeds the outstanding balance of invoice ${allocation.invoiceId}`)
+      }
+    }
+    allocations = requested.map((a) => ({ invoiceId: a.invoiceId, amountCents: a.amountCents }))
+  } else {
+    allocations = []
+    let remaining = availableCents
+    const oldestFirst = invoices
+      .filter((inv) => inv.currency === currency && inv.outstandingCents > 0)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id))
+    for (const invoice of oldestFirst) {
+      if (remaining <= 0) break
+      const amountCents = Math.min(remaining, invoice.outstandingCents)
+      allocations.push({ invoiceId: invoice.id, amountCents })
+      remaining -= amountCents
+    }
+  }
+
+  const allocatedCents = allocations.reduce((sum, a) => sum + a.amountCents, 0)
+  if (allocatedCents > availableCents) {
+    throw new Error('Allocations exceed the available amount')
+  }
+  return { allocations, allocatedCents, unappliedCents: availableCents - allocatedCents }
+}
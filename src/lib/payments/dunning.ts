@@ -1,6 +1,8 @@
+import type Stripe from 'stripe'
 import prisma from '@/lib/prisma'
 import { logger } from '@/lib/logger'
 import { getStripeClient } from '@/lib/payments/stripe-client'
+import { paymentService } from '@/lib/payments/payment-service'
 
 export interface DunningResult {
   processed: number
@@ -70,7 +72,12 @@ export async function processDunning(
       },
     })
 
+    const balances = await paymentService.getInvoiceBalances(tenantId, invoices.map((i) => i.id))
+
     for (const invoice of invoices) {
+      // Partial payments and credit notes reduce what is left to collect
+      const outstandingCents = balances.get(invoice.id)?.outstandingCents ?? invoice.totalCents
+      if (outstandingCents <= 0) continue
       stats.processed++
 
       const daysSinceCreated = Math.floor(
@@ -104,16 +111,16 @@ export async function processDunning(
 
           if (paymentMethods.length > 0) {
             const method = paymentMethods[0]
-            const success = await retryPayment(
+            const intent = await retryPayment(
               invoice.id,
               method.paymentMethodId,
-              invoice.totalCents,
+              outstandingCents,
               invoice.currency
             )
 
-            if (success) {
+            if (intent) {
               stats.retried++
-              await updateInvoiceStatus(invoice.id, 'PAID')
+              await paymentService.recordStripePayment(intent)
             } else {
               stats.failed++
               await sendDunningNotification(invoice, invoice.client, finalConfig)
@@ -162,14 +169,14 @@ function shouldRetryPayment(createdAt: Date, retryIntervals: number[]): boolean
 }
 
 /**
- * Attempt to charge the payment method
+ * Attempt to charge the payment method, returning the succeeded payment intent
  */
 async function retryPayment(
   invoiceId: string,
   paymentMethodId: string,
   amountCents: number,
   currency: string
-): Promise<boolean> {
+): Promise<Stripe.PaymentIntent | null> {
   try {
     const stripe = getStripeClient()
     const paymentIntent = await stripe.paymentIntents.create({
@@ -184,32 +191,16 @@ async function retryPayment(
       },
     })
 
-    return paymentIntent.status === 'succeeded'
+    return paymentIntent.status === 'succeeded' ? paymentIntent : null
   } catch (error) {
     logger.error('Payment retry failed', {
       invoiceId,
       error: String(error),
     })
-    return false
+    return null
   }
 }
 
-/**
- * Update invoice status
- */
-async function updateInvoiceStatus(
-  invoiceId: string,
-  status: 'PAID' | 'UNPAID'
-): Promise<void> {
-  await prisma.invoice.update({
-    where: { id: invoiceId },
-    data: {
-      status: status === 'PAID' ? 'PAID' : 'UNPAID',
-      paidAt: status === 'PAID' ? new Date() : null,
-    },
-  })
-}
-
 /**
  * Escalate invoice (move to collections, notify support, etc.)
  */
@@ -343,8 +334,12 @@ export async function getInvoiceAging(
   ]
 
   const now = new Date()
+  const balances = await paymentService.getInvoiceBalances(tenantId, invoices.map((i) => i.id))
 
   for (const invoice of invoices) {
+    const outstandingCents = balances.get(invoice.id)?.outstandingCents ?? invoice.totalCents
+    if (outstandingCents <= 0) continue
+
     const daysSinceCreated = Math.floor(
       (now.getTime() - invoice.createdAt.getTime()) / (1000 * 60 * 60 * 24)
     )
@@ -355,7 +350,7 @@ export async function getInvoiceAging(
 
     if (bucket) {
       bucket.invoiceCount += 1
-      bucket.totalAmount += invoice.totalCents
+      bucket.totalAmount += outstandingCents
     }
   }
 
@@ -0,0 +1,1032 @@
+/**
+ * Payment Service
+ * Records customer payments and credit notes, allocates them to invoices,
+ * keeps invoice statuses in step with outstanding balances and refunds
+ * customer credit, through Stripe when the money came in through Stripe.
+ */
+
+import { Prisma, type Refund } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { ledgerPostingService, postToLedgerSafe } from '@/lib/accounting/posting-service'
+import { periodCloseService } from '@/lib/accounting/period-close'
+import { getStripeClient } from './stripe-client'
+import {
+  appliedBefore,
+  computeInvoiceBalance,
+  planAllocations,
+  settledStatus,
+  unappliedCents,
+  type AllocationRequest,
+  type InvoiceBalance,
+  type OpenInvoice,
+} from './allocations'
+
+type Db = Prisma.TransactionClient
+
+export type PaymentMethod = 'card' | 'bank_transfer' | 'cash' | 'cheque' | 'stripe' | 'other'
+
+export interface PaymentInput {
+  clientId?: string | null
+  entityId?: string | null
+  currency: string
+  amountCents: number
+  method: PaymentMethod
+  reference?: string | null
+  receivedAt?: Date
+  notes?: string | null
+  // Explicit allocations; without them the payment settles the client's oldest open invoices
+  allocations?: AllocationRequest[]
+  autoAllocate?: boolean
+  stripePaymentIntentId?: string | null
+}
+
+export interface CreditNoteInput {
+  invoiceId?: string | null
+  clientId?: string | null
+  entityId?: string | null
+  currency?: string
+  amountCents: number
+  reason?: string | null
+  // Apply the credit to the invoice it was raised against (default true)
+  apply?: boolean
+}
+
+export interface RefundInput {
+  amountCents: number
+  reason?: string | null
+}
+
+export interface CreditNoteRefundInput extends RefundInput {
+  // Stripe payment of the same client whose card receives the money
+  paymentId?: string | null
+}
+
+// What funds a refund, read under lock by the refund that draws on it
+interface RefundFunding {
+  paymentId: string | null
+  creditNoteId: string | null
+  currency: string
+  stripePaymentIntentId: string | null
+  entityId: string | null
+}
+
+export interface CustomerCredit {
+  clientId: string
+  totalCents: Record<string, number>
+  payments: Array<{ id: string; currency: string; unappliedCents: number; receivedAt: Date }>
+  creditNotes: Array<{ id: string; number: string; currency: string; unappliedCents: number; issuedAt: Date }>
+}
+
+const OPEN_INVOICE_STATUSES = ['SENT', 'UNPAID'] as const
+const LIVE_REFUND = { status: { not: 'FAILED' } }
+
+function stripeRefundStatus(status: string | null | undefined): 'PENDING' | 'SUCCEEDED' | 'FAILED' {
+  if (status === 'succeeded') return 'SUCCEEDED'
+  if (status === 'failed' || status === 'canceled') return 'FAILED'
+  return 'PENDING'
+}
+
+export class PaymentService {
+  /**
+   * Paid, credited and outstanding amounts for invoices
+   */
+  async getInvoiceBalances(tenantId: string, invoiceIds: string[], db: Db = prisma): Promise<Map<string, InvoiceBalance>> {
+    if (invoiceIds.length === 0) return new Map()
+    const invoices = await db.invoice.findMany({
+      where: { tenantId, id: { in: invoiceIds } },
+      select: { id: true, totalCents: true, status: true },
+    })
+    const { paid, credited } = await this.appliedCents(db, tenantId, invoices.map((i) => i.id))
+    return new Map(
+      invoices.map((invoice) => [
+        invoice.id,
+        computeInvoiceBalance({ ...invoice, status: String(invoice.status) }, paid.get(invoice.id) || 0, credited.get(invoice.id) || 0),
+      ])
+    )
+  }
+
+  /**
+   * Balances of invoices as they stood before a cut-off, from the payments
+   * and credit notes applied by then. Invoices marked paid without any
+   * allocations count as settled from their paid date.
+   */
+  async getInvoiceBalancesBefore(tenantId: string, invoiceIds: string[], before: Date): Promise<Map<string, InvoiceBalance>> {
+    if (invoiceIds.length === 0) return new Map()
+    const [invoices, payments, credits] = await Promise.all([
+      prisma.invoice.findMany({
+        where: { tenantId, id: { in: invoiceIds } },
+        select: { id: true, totalCents: true, status: true, paidAt: true },
+      }),
+      prisma.paymentAllocation.findMany({
+        where: { tenantId, invoiceId: { in: invoiceIds } },
+        include: { payment: { select: { status: true, receivedAt: true, createdAt: true, voidedAt: true } } },
+      }),
+      prisma.creditNoteAllocation.findMany({
+        where: { tenantId, invoiceId: { in: invoiceIds } },
+        include: { creditNote: { select: { status: true, issuedAt: true, createdAt: true, voidedAt: true } } },
+      }),
+    ])
+
+    const voidedAt = (source: { status: string; createdAt: Date; voidedAt: Date | null }, live: string) =>
+      source.status === live ? null : source.voidedAt ?? source.createdAt
+    const paid = appliedBefore(
+      payments.map((a) => ({ ...a, source: { date: a.payment.receivedAt, createdAt: a.payment.createdAt, voidedAt: voidedAt(a.payment, 'COMPLETED') } })),
+      before
+    )
+    const credited = appliedBefore(
+      credits.map((a) => ({ ...a, source: { date: a.creditNote.issuedAt, createdAt: a.creditNote.createdAt, voidedAt: voidedAt(a.creditNote, 'ISSUED') } })),
+      before
+    )
+    const allocated = new Set([...payments, ...credits].map((a) => a.invoiceId))
+
+    return new Map(
+      invoices.map((invoice) => {
+        const paidCents = paid.get(invoice.id) || 0
+        const creditedCents = credited.get(invoice.id) || 0
+        const settledWithoutAllocations = invoice.status === 'PAID' && !allocated.has(invoice.id)
+        const balance = computeInvoiceBalance(
+          { ...invoice, status: invoice.status === 'PAID' ? 'UNPAID' : String(invoice.status) },
+          paidCents,
+          creditedCents
+        )
+        if (settledWithoutAllocations && (!invoice.paidAt || invoice.paidAt < before)) balance.outstandingCents = 0
+        return [invoice.id, balance]
+      })
+    )
+  }
+
+  async getInvoiceBalance(tenantId: string, invoiceId: string): Promise<InvoiceBalance> {
+    const balance = (await this.getInvoiceBalances(tenantId, [invoiceId])).get(invoiceId)
+    if (!balance) throw new Error('Invoice not found')
+    return balance
+  }
+
+  async listPayments(tenantId: string, filters: { clientId?: string; invoiceId?: string; limit?: number; offset?: number } = {}) {
+    const where: Prisma.PaymentWhereInput = { tenantId }
+    if (filters.clientId) where.clientId = filters.clientId
+    if (filters.invoiceId) where.allocations = { some: { invoiceId: filters.invoiceId } }
+
+    const [payments, total] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        include: { allocations: true, refunds: true },
+        orderBy: { receivedAt: 'desc' },
+        take: Math.min(filters.limit ?? 50, 200),
+        skip: filters.offset ?? 0,
+      }),
+      prisma.payment.count({ where }),
+    ])
+    return { payments: payments.map((p) => ({ ...p, unappliedCents: this.paymentUnapplied(p) })), total }
+  }
+
+  async getPayment(tenantId: string, paymentId: string) {
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, tenantId },
+      include: { allocations: true, refunds: true },
+    })
+    if (!payment) throw new Error('Payment not found')
+    return { ...payment, unappliedCents: this.paymentUnapplied(payment) }
+  }
+
+  /**
+   * Unapplied payments and credit notes of a client, per currency
+   */
+  async getCustomerCredit(tenantId: string, clientId: string): Promise<CustomerCredit> {
+    const [payments, creditNotes] = await Promise.all([
+      prisma.payment.findMany({
+        where: { tenantId, clientId, status: 'COMPLETED' },
+        include: { allocations: true, refunds: true },
+      }),
+      prisma.creditNote.findMany({
+        where: { tenantId, clientId, status: 'ISSUED' },
+        include: { allocations: true, refunds: true },
+      }),
+    ])
+
+    const credit: CustomerCredit = { clientId, totalCents: {}, payments: [], creditNotes: [] }
+    for (const payment of payments) {
+      const open = this.paymentUnapplied(payment)
+      if (open <= 0) continue
+      credit.payments.push({ id: payment.id, currency: payment.currency, unappliedCents: open, receivedAt: payment.receivedAt })
+      credit.totalCents[payment.currency] = (credit.totalCents[payment.currency] || 0) + open
+    }
+    for (const note of creditNotes) {
+      const open = this.creditNoteUnapplied(note)
+      if (open <= 0) continue
+      credit.creditNotes.push({ id: note.id, number: note.number, currency: note.currency, unappliedCents: open, issuedAt: note.issuedAt })
+      credit.totalCents[note.currency] = (credit.totalCents[note.currency] || 0) + open
+    }
+    return credit
+  }
+
+  /**
+   * Record money received and apply it to invoices. Anything not
+   * allocated stays on the payment as customer credit.
+   */
+  async recordPayment(tenantId: string, userId: string | null, input: PaymentInput) {
+    if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+      throw new Error('Payment amount must be positive')
+    }
+    if (input.stripePaymentIntentId) {
+      const existing = await prisma.payment.findUnique({
+        where: { stripePaymentIntentId: input.stripePaymentIntentId },
+        include: { allocations: true },
+      })
+      if (existing) return existing
+    }
+
+    const receivedAt = input.receivedAt ?? new Date()
+    const currency = input.currency.toUpperCase()
+
+    let payment: Awaited<ReturnType<PaymentService['createPayment']>>
+    try {
+      payment = await this.createPayment(tenantId, userId, input, currency, receivedAt)
+    } catch (error) {
+      // The webhook and the charging code can both record the same intent
+      if (input.stripePaymentIntentId && String((error as any)?.code) === 'P2002') {
+        return prisma.payment.findUniqueOrThrow({
+          where: { stripePaymentIntentId: input.stripePaymentIntentId },
+          include: { allocations: true },
+        })
+      }
+      throw error
+    }
+
+    const entry = await postToLedgerSafe('payment.received', () =>
+      ledgerPostingService.postPaymentReceived(payment, { userId })
+    )
+    if (entry) {
+      await prisma.payment.update({ where: { id: payment.id }, data: { journalEntryId: entry.id } })
+    }
+
+    await logAudit({
+      tenantId,
+      userId: userId ?? undefined,
+      action: 'payment.recorded',
+      resource: `Payment:${payment.id}`,
+      metadata: { amountCents: payment.amountCents, currency, method: payment.method, invoices: payment.allocations.length },
+    })
+    return payment
+  }
+
+  /**
+   * Record a succeeded Stripe payment intent against the invoice named in
+   * its metadata. Safe to call more than once for the same intent.
+   */
+  async recordStripePayment(intent: {
+    id: string
+    amount?: number | null
+    amount_received?: number | null
+    currency?: string | null
+    metadata?: Record<string, string> | null
+  }) {
+    const invoiceId = intent.metadata?.invoiceId
+    if (!invoiceId) return null
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { id: true, tenantId: true, clientId: true, entityId: true, currency: true },
+    })
+    if (!invoice) {
+      logger.warn('Stripe payment for unknown invoice', { paymentIntentId: intent.id, invoiceId })
+      return null
+    }
+
+    const amountCents = intent.amount_received ?? intent.amount ?? 0
+    if (amountCents <= 0) return null
+    const { outstandingCents } = await this.getInvoiceBalance(invoice.tenantId, invoice.id)
+    const applied = Math.min(amountCents, outstandingCents)
+
+    return this.recordPayment(invoice.tenantId, null, {
+      clientId: invoice.clientId,
+      entityId: invoice.entityId,
+      currency: (intent.currency || invoice.currency).toUpperCase(),
+      amountCents,
+      method: 'stripe',
+      reference: intent.id,
+      stripePaymentIntentId: intent.id,
+      allocations: applied > 0 ? [{ invoiceId: invoice.id, amountCents: applied }] : [],
+      autoAllocate: false,
+    })
+  }
+
+  /**
+   * Payment created by a confirmed bank match. The bank match posts the
+   * ledger entry, so the payment only carries the allocation.
+   */
+  async recordBankPayment(
+    tx: Db,
+    params: {
+      tenantId: string
+      userId: string | null
+      matchId: string
+      invoiceId: string
+      amountCents: number
+      currency: string
+      receivedAt: Date
+      reference?: string | null
+    }
+  ) {
+    // Locks the invoice and re-reads its balance, like a manually recorded payment
+    const currency = params.currency.toUpperCase()
+    const [invoice] = await this.openInvoices(tx, params.tenantId, { ids: [params.invoiceId] })
+    planAllocations(params.amountCents, currency, invoice ? [invoice] : [], [{ invoiceId: params.invoiceId, amountCents: params.amountCents }])
+
+    const payment = await tx.payment.create({
+      data: {
+        tenantId: params.tenantId,
+        entityId: invoice.entityId,
+        clientId: invoice.clientId,
+        currency,
+        amountCents: params.amountCents,
+        method: 'bank_transfer',
+        reference: params.reference ?? null,
+        receivedAt: params.receivedAt,
+        bankTransactionMatchId: params.matchId,
+        createdBy: params.userId,
+        allocations: {
+          create: [{ tenantId: params.tenantId, invoiceId: params.invoiceId, amountCents: params.amountCents, createdBy: params.userId }],
+        },
+      },
+    })
+    await this.refreshInvoiceStatuses(tx, params.tenantId, [params.invoiceId], params.receivedAt)
+    return payment
+  }
+
+  /** Void the payments created by bank matches that are being undone */
+  async voidBankPayments(tx: Db, tenantId: string, userId: string, matchIds: string[]) {
+    const payments = await tx.payment.findMany({
+      where: { tenantId, bankTransactionMatchId: { in: matchIds }, status: 'COMPLETED' },
+      include: { allocations: true },
+    })
+    for (const payment of payments) {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { status: 'VOIDED', voidedAt: new Date(), voidedBy: userId },
+      })
+    }
+    await this.refreshInvoiceStatuses(tx, tenantId, payments.flatMap((p) => p.allocations.map((a) => a.invoiceId)), new Date())
+  }
+
+  /**
+   * Apply a payment's unapplied amount (customer credit) to invoices
+   */
+  async allocatePayment(tenantId: string, userId: string, paymentId: string, allocations?: AllocationRequest[]) {
+    const { payment, added } = await prisma.$transaction(async (tx) => {
+      await this.lockRows(tx, 'payments', tenantId, [paymentId])
+      const current = await tx.payment.findFirst({
+        where: { id: paymentId, tenantId },
+        include: { allocations: true, refunds: true },
+      })
+      if (!current) throw new Error('Payment not found')
+      if (current.status !== 'COMPLETED') throw new Error('Payment is voided')
+
+      const available = this.paymentUnapplied(current)
+      if (available <= 0) throw new Error('Payment has no unapplied amount')
+
+      const invoices = await this.openInvoices(tx, tenantId, { clientId: current.clientId, ids: allocations?.map((a) => a.invoiceId) })
+      const plan = planAllocations(available, current.currency, invoices, allocations)
+      if (plan.allocations.length === 0) throw new Error('No open invoices to allocate to')
+
+      await tx.paymentAllocation.createMany({
+        data: plan.allocations.map((a) => ({ tenantId, paymentId, invoiceId: a.invoiceId, amountCents: a.amountCents, createdBy: userId })),
+      })
+      await this.refreshInvoiceStatuses(tx, tenantId, plan.allocations.map((a) => a.invoiceId), new Date())
+      const updated = await tx.payment.findUniqueOrThrow({ where: { id: paymentId }, include: { allocations: true, refunds: true } })
+      const previous = new Set(current.allocations.map((a) => a.id))
+      return { payment: updated, added: updated.allocations.filter((a) => !previous.has(a.id)) }
+    })
+
+    await this.postAppliedCredit(tenantId, userId, added, { entityId: payment.entityId, currency: payment.currency, date: payment.receivedAt })
+    await logAudit({ tenantId, userId, action: 'payment.allocated', resource: `Payment:${paymentId}` })
+    return { ...payment, unappliedCents: this.paymentUnapplied(payment) }
+  }
+
+  /**
+   * Void a payment recorded in error: reverse its posting and reopen the
+   * invoices it settled. Money already refunded has to stay on the books.
+   */
+  async voidPayment(tenantId: string, userId: string, paymentId: string) {
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, tenantId },
+      include: { allocations: true, refunds: { where: LIVE_REFUND } },
+    })
+    if (!payment) throw new Error('Payment not found')
+    if (payment.status !== 'COMPLETED') throw new Error('Payment is voided')
+    if (payment.bankTransactionMatchId) throw new Error('Payment was recorded by a bank match; undo the match instead')
+    if (payment.refunds.length > 0) throw new Error('Payment has refunds')
+
+    if (payment.journalEntryId) {
+      await ledgerPostingService.reverseJournalEntry(tenantId, payment.journalEntryId, {
+        userId,
+        reason: `Payment ${payment.id} voided`,
+      })
+      await this.reverseAppliedCredit(tenantId, userId, payment.allocations.map((a) => a.id), `Payment ${payment.id} voided`)
+    } else {
+      await periodCloseService.assertDateOpen(tenantId, payment.entityId, new Date())
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.payment.update({ where: { id: paymentId }, data: { status: 'VOIDED', voidedAt: new Date(), voidedBy: userId } })
+      await this.refreshInvoiceStatuses(tx, tenantId, payment.allocations.map((a) => a.invoiceId), new Date())
+    })
+
+    await logAudit({ tenantId, userId, action: 'payment.voided', resource: `Payment:${paymentId}` })
+  }
+
+  async listCreditNotes(tenantId: string, filters: { clientId?: string; invoiceId?: string } = {}) {
+    const notes = await prisma.creditNote.findMany({
+      where: {
+        tenantId,
+        ...(filters.clientId && { clientId: filters.clientId }),
+        ...(filters.invoiceId && { invoiceId: filters.invoiceId }),
+      },
+      include: { allocations: true, refunds: true },
+      orderBy: { issuedAt: 'desc' },
+      take: 200,
+    })
+    return notes.map((n) => ({ ...n, unappliedCents: this.creditNoteUnapplied(n) }))
+  }
+
+  async getCreditNote(tenantId: string, creditNoteId: string) {
+    const note = await prisma.creditNote.findFirst({
+      where: { id: creditNoteId, tenantId },
+      include: { allocations: true, refunds: true },
+    })
+    if (!note) throw new Error('Credit note not found')
+    return { ...note, unappliedCents: this.creditNoteUnapplied(note) }
+  }
+
+  /**
+   * Issue a credit note, against an invoice or as goodwill credit for a
+   * client. Credit raised against an invoice is applied to what is still
+   * outstanding on it; the rest becomes customer credit.
+   */
+  async issueCreditNote(tenantId: string, userId: string, input: CreditNoteInput) {
+    if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+      throw new Error('Credit amount must be positive')
+    }
+
+    let currency = input.currency?.toUpperCase()
+    let clientId = input.clientId ?? null
+    let entityId = input.entityId ?? null
+    if (input.invoiceId) {
+      const invoice = await prisma.invoice.findFirst({ where: { id: input.invoiceId, tenantId } })
+      if (!invoice) throw new Error('Invoice not found')
+      if (invoice.status === 'DRAFT' || invoice.status === 'VOID') throw new Error('Invoice cannot be credited')
+      currency = invoice.currency
+      clientId = invoice.clientId
+      entityId = invoice.entityId
+    } else if (!clientId || !currency) {
+      throw new Error('A client and currency are required for credit without an invoice')
+    }
+
+    const issuedAt = new Date()
+    await periodCloseService.assertDateOpen(tenantId, entityId, issuedAt)
+
+    const note = await prisma.$transaction(async (tx) => {
+      if (input.invoiceId) {
+        // Credit already raised is read under the invoice lock, so concurrent notes cannot both fit
+        await this.lockRows(tx, 'invoices', tenantId, [input.invoiceId])
+        const [invoice, credited] = await Promise.all([
+          tx.invoice.findUniqueOrThrow({ where: { id: input.invoiceId }, select: { totalCents: true } }),
+          tx.creditNote.aggregate({ where: { tenantId, invoiceId: input.invoiceId, status: 'ISSUED' }, _sum: { totalCents: true } }),
+        ])
+        if ((credited._sum.totalCents || 0) + input.amountCents > invoice.totalCents) {
+          throw new Error('Credit exceeds the invoice total')
+        }
+      }
+
+      const created = await tx.creditNote.create({
+        data: {
+          tenantId,
+          entityId,
+          clientId,
+          invoiceId: input.invoiceId ?? null,
+          number: await this.nextCreditNoteNumber(tx, tenantId),
+          currency: currency!,
+          totalCents: input.amountCents,
+          reason: input.reason ?? null,
+          issuedAt,
+          createdBy: userId,
+        },
+      })
+
+      if (input.invoiceId && input.apply !== false) {
+        const balance = (await this.getInvoiceBalances(tenantId, [input.invoiceId], tx)).get(input.invoiceId)
+        const applied = Math.min(input.amountCents, balance?.outstandingCents ?? 0)
+        if (applied > 0) {
+          await tx.creditNoteAllocation.create({
+            data: { tenantId, creditNoteId: created.id, invoiceId: input.invoiceId, amountCents: applied, createdBy: userId },
+          })
+          await this.refreshInvoiceStatuses(tx, tenantId, [input.invoiceId], issuedAt)
+        }
+      }
+      return tx.creditNote.findUniqueOrThrow({ where: { id: created.id }, include: { allocations: true, refunds: true } })
+    })
+
+    const entry = await postToLedgerSafe('credit_note.issued', () =>
+      ledgerPostingService.postCreditNoteIssued(note, { userId })
+    )
+    if (entry) {
+      await prisma.creditNote.update({ where: { id: note.id }, data: { journalEntryId: entry.id } })
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'credit_note.issued',
+      resource: `CreditNote:${note.id}`,
+      metadata: { number: note.number, totalCents: note.totalCents, invoiceId: note.invoiceId },
+    })
+    return { ...note, unappliedCents: this.creditNoteUnapplied(note) }
+  }
+
+  /**
+   * Apply a credit note's unapplied amount to invoices of the same client
+   */
+  async allocateCreditNote(tenantId: string, userId: string, creditNoteId: string, allocations?: AllocationRequest[]) {
+    const { note, added } = await prisma.$transaction(async (tx) => {
+      await this.lockRows(tx, 'credit_notes', tenantId, [creditNoteId])
+      const current = await tx.creditNote.findFirst({
+        where: { id: creditNoteId, tenantId },
+        include: { allocations: true, refunds: true },
+      })
+      if (!current) throw new Error('Credit note not found')
+      if (current.status !== 'ISSUED') throw new Error('Credit note is void')
+
+      const available = this.creditNoteUnapplied(current)
+      if (available <= 0) throw new Error('Credit note has no unapplied amount')
+
+      const invoices = await this.openInvoices(tx, tenantId, { clientId: current.clientId, ids: allocations?.map((a) => a.invoiceId) })
+      const plan = planAllocations(available, current.currency, invoices, allocations)
+      if (plan.allocations.length === 0) throw new Error('No open invoices to allocate to')
+
+      await tx.creditNoteAllocation.createMany({
+        data: plan.allocations.map((a) => ({ tenantId, creditNoteId, invoiceId: a.invoiceId, amountCents: a.amountCents, createdBy: userId })),
+      })
+      await this.refreshInvoiceStatuses(tx, tenantId, plan.allocations.map((a) => a.invoiceId), new Date())
+      const updated = await tx.creditNote.findUniqueOrThrow({ where: { id: creditNoteId }, include: { allocations: true, refunds: true } })
+      const previous = new Set(current.allocations.map((a) => a.id))
+      return { note: updated, added: updated.allocations.filter((a) => !previous.has(a.id)) }
+    })
+
+    await this.postAppliedCredit(tenantId, userId, added, { entityId: note.entityId, currency: note.currency, date: note.issuedAt })
+    await logAudit({ tenantId, userId, action: 'credit_note.allocated', resource: `CreditNote:${creditNoteId}` })
+    return { ...note, unappliedCents: this.creditNoteUnapplied(note) }
+  }
+
+  async voidCreditNote(tenantId: string, userId: string, creditNoteId: string) {
+    const note = await prisma.creditNote.findFirst({
+      where: { id: creditNoteId, tenantId },
+      include: { allocations: true, refunds: { where: LIVE_REFUND } },
+    })
+    if (!note) throw new Error('Credit note not found')
+    if (note.status !== 'ISSUED') throw new Error('Credit note is void')
+    if (note.refunds.length > 0) throw new Error('Credit note has refunds')
+
+    if (note.journalEntryId) {
+      await ledgerPostingService.reverseJournalEntry(tenantId, note.journalEntryId, {
+        userId,
+        reason: `Credit note ${note.number} voided`,
+      })
+      await this.reverseAppliedCredit(tenantId, userId, note.allocations.map((a) => a.id), `Credit note ${note.number} voided`)
+    } else {
+      await periodCloseService.assertDateOpen(tenantId, note.entityId, new Date())
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.creditNote.update({ where: { id: creditNoteId }, data: { status: 'VOID', voidedAt: new Date(), voidedBy: userId } })
+      await this.refreshInvoiceStatuses(tx, tenantId, note.allocations.map((a) => a.invoiceId), new Date())
+    })
+
+    await logAudit({ tenantId, userId, action: 'credit_note.voided', resource: `CreditNote:${creditNoteId}` })
+  }
+
+  /**
+   * Refund a payment's unapplied amount, back to the card for Stripe payments
+   */
+  async refundPayment(tenantId: string, userId: string, paymentId: string, input: RefundInput) {
+    return this.issueRefund(tenantId, userId, input, async (tx) => {
+      await this.lockRows(tx, 'payments', tenantId, [paymentId])
+      const payment = await tx.payment.findFirst({
+        where: { id: paymentId, tenantId },
+        include: { allocations: true, refunds: true },
+      })
+      if (!payment) throw new Error('Payment not found')
+      if (payment.status !== 'COMPLETED') throw new Error('Payment is voided')
+      if (input.amountCents > this.paymentUnapplied(payment)) {
+        throw new Error('Refund exceeds the unapplied amount')
+      }
+      return {
+        paymentId,
+        creditNoteId: null,
+        currency: payment.currency,
+        stripePaymentIntentId: payment.stripePaymentIntentId,
+        entityId: payment.entityId,
+      }
+    })
+  }
+
+  /**
+   * Pay out a credit note's unapplied amount. Passing a Stripe payment of
+   * the same client sends the money back to that card; otherwise the refund
+   * is recorded as paid out manually.
+   */
+  async refundCreditNote(
+    tenantId: string,
+    userId: string,
+    creditNoteId: string,
+    input: CreditNoteRefundInput
+  ) {
+    return this.issueRefund(tenantId, userId, input, async (tx) => {
+      await this.lockRows(tx, 'payments', tenantId, input.paymentId ? [input.paymentId] : [])
+      await this.lockRows(tx, 'credit_notes', tenantId, [creditNoteId])
+      const note = await tx.creditNote.findFirst({
+        where: { id: creditNoteId, tenantId },
+        include: { allocations: true, refunds: true },
+      })
+      if (!note) throw new Error('Credit note not found')
+      if (note.status !== 'ISSUED') throw new Error('Credit note is void')
+      if (input.amountCents > this.creditNoteUnapplied(note)) {
+        throw new Error('Refund exceeds the unapplied amount')
+      }
+
+      let stripePaymentIntentId: string | null = null
+      if (input.paymentId) {
+        const payment = await tx.payment.findFirst({
+          where: { id: input.paymentId, tenantId, status: 'COMPLETED' },
+          include: { refunds: { where: LIVE_REFUND } },
+        })
+        if (!payment) throw new Error('Payment not found')
+        if (!payment.stripePaymentIntentId) throw new Error('Only Stripe payments can receive refunds')
+        if (payment.clientId !== note.clientId || payment.currency !== note.currency) {
+          throw new Error('Payment belongs to another client or currency')
+        }
+        const refundable = payment.amountCents - payment.refunds.reduce((sum, r) => sum + r.amountCents, 0)
+        if (input.amountCents > refundable) throw new Error('Refund exceeds what the card payment can return')
+        stripePaymentIntentId = payment.stripePaymentIntentId
+      }
+
+      return {
+        paymentId: input.paymentId ?? null,
+        creditNoteId,
+        currency: note.currency,
+        stripePaymentIntentId,
+        entityId: note.entityId,
+      }
+    })
+  }
+
+  /**
+   * Apply a Stripe refund status update (refund webhooks)
+   */
+  async syncStripeRefund(stripeRefund: {
+    id: string
+    status?: string | null
+    failure_reason?: string | null
+    metadata?: Record<string, string> | null
+  }) {
+    const refund = await prisma.refund.findFirst({
+      where: {
+        OR: [
+          { stripeRefundId: stripeRefund.id },
+          ...(stripeRefund.metadata?.refundId ? [{ id: stripeRefund.metadata.refundId }] : []),
+        ],
+      },
+      include: { payment: { select: { entityId: true } }, creditNote: { select: { entityId: true } } },
+    })
+    if (!refund) return null
+    // Post to the entity the refund was issued from, as issueRefund does
+    const { payment, creditNote, ...row } = refund
+    const entityId = refund.creditNoteId ? creditNote?.entityId : payment?.entityId
+    return this.applyStripeRefund(row, stripeRefund, entityId ?? null)
+  }
+
+  /**
+   * Record and pay out a refund. `fund` locks the funding payment or credit
+   * note and checks what it can still return, inside the transaction that
+   * records the refund, so concurrent refunds cannot overdraw it.
+   */
+  private async issueRefund(
+    tenantId: string,
+    userId: string,
+    input: RefundInput,
+    fund: (tx: Db) => Promise<RefundFunding>
+  ) {
+    if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+      throw new Error('Refund amount must be positive')
+    }
+
+    const recorded = await prisma.$transaction(async (tx) => {
+      const params = await fund(tx)
+      await periodCloseService.assertDateOpen(tenantId, params.entityId, new Date())
+      const refund = await tx.refund.create({
+        data: {
+          tenantId,
+          paymentId: params.paymentId,
+          creditNoteId: params.creditNoteId,
+          currency: params.currency,
+          amountCents: input.amountCents,
+          reason: input.reason ?? null,
+          status: params.stripePaymentIntentId ? 'PENDING' : 'SUCCEEDED',
+          createdBy: userId,
+        },
+      })
+      return { params, refund }
+    })
+    const { params } = recorded
+    let { refund } = recorded
+
+    if (params.stripePaymentIntentId) {
+      try {
+        const stripeRefund = await getStripeClient().refunds.create(
+          {
+            payment_intent: params.stripePaymentIntentId,
+            amount: refund.amountCents,
+            reason: 'requested_by_customer',
+            metadata: { refundId: refund.id, tenantId },
+          },
+          { idempotencyKey: `refund:${refund.id}` }
+        )
+        refund = await this.applyStripeRefund(refund, stripeRefund, params.entityId)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        await prisma.refund.update({ where: { id: refund.id }, data: { status: 'FAILED', failureReason: message } })
+        throw new Error(`Stripe refund failed: ${message}`)
+      }
+    } else {
+      refund = await this.postRefund(refund, params.entityId, userId)
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'refund.issued',
+      resource: `Refund:${refund.id}`,
+      metadata: { amountCents: refund.amountCents, paymentId: refund.paymentId, creditNoteId: refund.creditNoteId, status: refund.status },
+    })
+    return refund
+  }
+
+  private async applyStripeRefund(
+    refund: Refund,
+    stripeRefund: { id: string; status?: string | null; failure_reason?: string | null },
+    entityId?: string | null
+  ) {
+    const status = stripeRefundStatus(stripeRefund.status)
+    const updated = await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        stripeRefundId: stripeRefund.id,
+        status,
+        failureReason: status === 'FAILED' ? stripeRefund.failure_reason || 'Refund failed' : null,
+      },
+    })
+    return status === 'SUCCEEDED' ? this.postRefund(updated, entityId) : updated
+  }
+
+  private async postRefund(refund: Refund, entityId?: string | null, userId?: string | null) {
+    if (refund.journalEntryId) return refund
+    const entry = await postToLedgerSafe('refund.issued', () =>
+      ledgerPostingService.postRefundIssued(refund, { userId, entityId })
+    )
+    return entry ? prisma.refund.update({ where: { id: refund.id }, data: { journalEntryId: entry.id } }) : refund
+  }
+
+  // Realize the exchange difference of foreign credit applied after it was received
+  private async postAppliedCredit(
+    tenantId: string,
+    userId: string,
+    allocations: Array<{ id: string; invoiceId: string; amountCents: number }>,
+    credit: { entityId: string | null; currency: string; date: Date }
+  ) {
+    for (const allocation of allocations) {
+      await postToLedgerSafe('credit.applied', () =>
+        ledgerPostingService.postCreditApplied({ ...allocation, tenantId }, credit, { userId })
+      )
+    }
+  }
+
+  private async reverseAppliedCredit(tenantId: string, userId: string, allocationIds: string[], reason: string) {
+    for (const allocationId of allocationIds) {
+      const entry = await ledgerPostingService.findPostedEntry(tenantId, 'CREDIT_APPLIED', allocationId)
+      if (entry) await ledgerPostingService.reverseJournalEntry(tenantId, entry.id, { userId, reason })
+    }
+  }
+
+  private async createPayment(tenantId: string, userId: string | null, input: PaymentInput, currency: string, receivedAt: Date) {
+    return prisma.$transaction(async (tx) => {
+      const invoices = await this.openInvoices(tx, tenantId, {
+        clientId: input.clientId,
+        ids: input.allocations?.map((a) => a.invoiceId),
+      })
+      const plan = input.allocations?.length || (input.autoAllocate !== false && input.clientId)
+        ? planAllocations(input.amountCents, currency, invoices, input.allocations)
+        : { allocations: [], allocatedCents: 0, unappliedCents: input.amountCents }
+
+      const entityId = input.entityId ?? invoices.find((i) => i.id === plan.allocations[0]?.invoiceId)?.entityId ?? null
+      await periodCloseService.assertDateOpen(tenantId, entityId, receivedAt)
+
+      const created = await tx.payment.create({
+        data: {
+          tenantId,
+          entityId,
+          clientId: input.clientId ?? invoices[0]?.clientId ?? null,
+          currency,
+          amountCents: input.amountCents,
+          method: input.method,
+          reference: input.reference ?? null,
+          receivedAt,
+          notes: input.notes ?? null,
+          stripePaymentIntentId: input.stripePaymentIntentId ?? null,
+          createdBy: userId,
+          allocations: {
+            create: plan.allocations.map((a) => ({ tenantId, invoiceId: a.invoiceId, amountCents: a.amountCents, createdBy: userId })),
+          },
+        },
+        include: { allocations: true },
+      })
+      await this.refreshInvoiceStatuses(tx, tenantId, plan.allocations.map((a) => a.invoiceId), receivedAt)
+      return created
+    })
+  }
+
+  private paymentUnapplied(payment: {
+    amountCents: number
+    status: string
+    allocations: Array<{ amountCents: number }>
+    refunds: Array<{ amountCents: number; status: string; creditNoteId: string | null }>
+  }): number {
+    if (payment.status !== 'COMPLETED') return 0
+    const allocated = payment.allocations.reduce((sum, a) => sum + a.amountCents, 0)
+    // Credit note refunds sent to this card are funded by the credit note
+    const refunded = payment.refunds
+      .filter((r) => r.status !== 'FAILED' && !r.creditNoteId)
+      .reduce((sum, r) => sum + r.amountCents, 0)
+    return unappliedCents(payment.amountCents, allocated, refunded)
+  }
+
+  private creditNoteUnapplied(note: {
+    totalCents: number
+    status: string
+    allocations: Array<{ amountCents: number }>
+    refunds: Array<{ amountCents: number; status: string }>
+  }): number {
+    if (note.status !== 'ISSUED') return 0
+    const allocated = note.allocations.reduce((sum, a) => sum + a.amountCents, 0)
+    const refunded = note.refunds.filter((r) => r.status !== 'FAILED').reduce((sum, r) => sum + r.amountCents, 0)
+    return unappliedCents(note.totalCents, allocated, refunded)
+  }
+
+  private async appliedCents(db: Db, tenantId: string, invoiceIds: string[]) {
+    const [paid, credited] = await Promise.all([
+      db.paymentAllocation.groupBy({
+        by: ['invoiceId'],
+        where: { tenantId, invoiceId: { in: invoiceIds }, payment: { status: 'COMPLETED' } },
+        _sum: { amountCents: true },
+      }),
+      db.creditNoteAllocation.groupBy({
+        by: ['invoiceId'],
+        where: { tenantId, invoiceId: { in: invoiceIds }, creditNote: { status: 'ISSUED' } },
+        _sum: { amountCents: true },
+      }),
+    ])
+    return {
+      paid: new Map(paid.map((g) => [g.invoiceId, g._sum.amountCents || 0])),
+      credited: new Map(credited.map((g) => [g.invoiceId, g._sum.amountCents || 0])),
+    }
+  }
+
+  /**
+   * Invoices a payment or credit can be applied to: the named ones, or
+   * the client's open invoices. Named invoices of another client are refused.
+   */
+  private async openInvoices(
+    db: Db,
+    tenantId: string,
+    filter: { clientId?: string | null; ids?: string[] }
+  ): Promise<Array<OpenInvoice & { clientId: string | null; entityId: string | null }>> {
+    const named = filter.ids && filter.ids.length > 0
+    if (!named && !filter.clientId) return []
+
+    const invoices = await db.invoice.findMany({
+      where: named
+        ? { tenantId, id: { in: filter.ids } }
+        : { tenantId, clientId: filter.clientId, status: { in: [...OPEN_INVOICE_STATUSES] } },
+      select: { id: true, currency: true, totalCents: true, status: true, createdAt: true, clientId: true, entityId: true },
+      orderBy: { createdAt: 'asc' },
+      take: 500,
+    })
+    if (named && filter.clientId && invoices.some((i) => i.clientId && i.clientId !== filter.clientId)) {
+      throw new Error('Invoice belongs to another client')
+    }
+
+    // Balances are read after the lock, so a concurrent allocation is seen once it commits
+    await this.lockRows(db, 'invoices', tenantId, invoices.map((i) => i.id))
+    const { paid, credited } = await this.appliedCents(db, tenantId, invoices.map((i) => i.id))
+    return invoices.map((invoice) => ({
+      id: invoice.id,
+      currency: invoice.currency,
+      createdAt: invoice.createdAt,
+      clientId: invoice.clientId,
+      entityId: invoice.entityId,
+      outstandingCents: computeInvoiceBalance(
+        { ...invoice, status: String(invoice.status) },
+        paid.get(invoice.id) || 0,
+        credited.get(invoice.id) || 0
+      ).outstandingCents,
+    }))
+  }
+
+  /**
+   * Lock rows until the transaction ends so that concurrent allocations
+   * cannot apply the same invoice balance or credit twice. Rows are locked
+   * in id order to avoid deadlocks.
+   */
+  private async lockRows(db: Db, table: 'invoices' | 'payments' | 'credit_notes', tenantId: string, ids: string[]) {
+    const sorted = Array.from(new Set(ids)).sort()
+    if (sorted.length === 0) return
+    await db.$queryRaw`SELECT id FROM ${Prisma.raw(`"${table}"`)} WHERE "tenantId" = ${tenantId} AND id IN (${Prisma.join(sorted)}) ORDER BY id FOR UPDATE`
+  }
+
+  private async refreshInvoiceStatuses(db: Db, tenantId: string, invoiceIds: string[], paidAt: Date) {
+    const ids = Array.from(new Set(invoiceIds))
+    if (ids.length === 0) return
+
+    const invoices = await db.invoice.findMany({
+      where: { tenantId, id: { in: ids } },
+      select: { id: true, totalCents: true, status: true },
+    })
+    const { paid, credited } = await this.appliedCents(db, tenantId, ids)
+    for (const invoice of invoices) {
+      const next = settledStatus(
+        { totalCents: invoice.totalCents, status: String(invoice.status) },
+        (paid.get(invoice.id) || 0) + (credited.get(invoice.id) || 0)
+      )
+      if (next) {
+        await db.invoice.update({
+          where: { id: invoice.id },
+          data: { status: next, paidAt: next === 'PAID' ? paidAt : null },
+        })
+      }
+    }
+  }
+
+  private async nextCreditNoteNumber(db: Db, tenantId: string): Promise<string> {
+    const latest = await db.creditNote.findFirst({
+      where: { tenantId, number: { startsWith: 'CN-' } },
+      orderBy: { createdAt: 'desc' },
+      select: { number: true },
+    })
+    const last = latest ? parseInt(latest.number.slice(3), 10) : 0
+    return `CN-${String((Number.isFinite(last) ? last : 0) + 1).padStart(5, '0')}`
+  }
+}
+
+export const paymentService = new PaymentService()
+
+// Refused operations the payment routes report as conflicts rather than bad input
+const CONFLICT_ERRORS = [
+  'Payment is voided',
+  'Credit note is void',
+  'Payment has refunds',
+  'Credit note has refunds',
+  'Payment was recorded by a bank match; undo the match instead',
+  'Invoice cannot be credited',
+]
+
+/**
+ * HTTP status for an error thrown by the payment service, or null for
+ * unexpected errors
+ */
+export function paymentErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Payment not found' || message === 'Credit note not found' || message === 'Invoice not found') return 404
+  if (CONFLICT_ERRORS.includes(message) || message.startsWith('Period closed')) return 409
+  if (message.startsWith('Stripe refund failed')) return 502
+  if (
+    message.startsWith('Invoice not found:') ||
+    message.startsWith('Allocation') ||
+    message.startsWith('Currency mismatch') ||
+    message.startsWith('Refund') ||
+    message.includes('must be positive') ||
+    [
+      'Each invoice can only be allocated once',
+      'Invoice belongs to another client',
+      'Payment has no unapplied amount',
+      'Credit note has no unapplied amount',
+      'No open invoices to allocate to',
+      'Credit exceeds the invoice total',
+      'A client and currency are required for credit without an invoice',
+      'Only Stripe payments can receive refunds',
+      'Payment belongs to another client or currency',
+    ].includes(message)
+  ) {
+    return 400
+  }
+  return null
+}
@@ -0,0 +1,53 @@
+/**
+ * Off-session charges of saved payment methods
+ * A saved card is attached to a Stripe customer, and Stripe refuses to
+ * charge an attached payment method unless that customer is named.
+ */
+
+import type Stripe from 'stripe'
+import prisma from '@/lib/prisma'
+import { getStripeClient } from './stripe-client'
+
+export interface SavedPaymentMethod {
+  id: string
+  paymentMethodId: string
+  stripeCustomerId: string | null
+}
+
+/**
+ * Stripe customer the method is attached to. Methods saved before the
+ * customer was recorded are looked up once and updated.
+ */
+export async function savedMethodCustomer(method: SavedPaymentMethod): Promise<string | null> {
+  if (method.stripeCustomerId) return method.stripeCustomerId
+
+  const retrieved = await getStripeClient().paymentMethods.retrieve(method.paymentMethodId)
+  const customer = typeof retrieved.customer === 'string' ? retrieved.customer : retrieved.customer?.id ?? null
+  if (customer) {
+    await prisma.userPaymentMethod.update({ where: { id: method.id }, data: { stripeCustomerId: customer } })
+  }
+  return customer
+}
+
+/**
+ * Create and confirm an off-session payment intent on a saved method
+ */
+export async function chargeSavedMethod(
+  method: SavedPaymentMethod,
+  charge: { amountCents: number; currency: string; metadata: Record<string, string> },
+  idempotencyKey: string
+): Promise<Stripe.PaymentIntent> {
+  const customer = await savedMethodCustomer(method)
+  return getStripeClient().paymentIntents.create(
+    {
+      amount: charge.amountCents,
+      currency: charge.currency.toLowerCase(),
+      ...(customer && { customer }),
+      payment_method: method.paymentMethodId,
+      confirm: true,
+      off_session: true,
+      metadata: charge.metadata,
+    },
+    { idempotencyKey }
+  )
+}
@@ -139,6 +139,11 @@ export const PERMISSIONS = {
   INVOICES_SEND: 'invoices.send',
   INVOICES_PAY: 'invoices.pay',
 
+  // General Ledger
+  LEDGER_VIEW: 'ledger.view',
+  LEDGER_POST: 'ledger.post',
+  LEDGER_CLOSE_PERIOD: 'ledger.close_period',
+
   // Bookings Management
   BOOKINGS_CREATE: 'bookings.create',
   BOOKINGS_READ_OWN: 'bookings.read.own',
@@ -1180,6 +1185,37 @@ export const PERMISSION_METADATA: Record<Permission, PermissionMetadata> = {
     tags: ['invoices', 'payments', 'financial'],
   },
 
+  // General Ledger
+  [PERMISSIONS.LEDGER_VIEW]: {
+    key: PERMISSIONS.LEDGER_VIEW,
+    label: 'View Ledger',
+    description: 'View the chart of accounts and journal entries',
+    category: PermissionCategory.FINANCIAL,
+    risk: RiskLevel.LOW,
+    icon: 'BookOpen',
+    tags: ['ledger', 'view', 'financial'],
+  },
+  [PERMISSIONS.LEDGER_POST]: {
+    key: PERMISSIONS.LEDGER_POST,
+    label: 'Post Journal Entries',
+    description: 'Post manual journal entries, reverse entries and manage accounts',
+    category: PermissionCategory.FINANCIAL,
+    risk: RiskLevel.HIGH,
+    dependencies: [PERMISSIONS.LEDGER_VIEW],
+    icon: 'BookOpen',
+    tags: ['ledger', 'post', 'financial'],
+  },
+  [PERMISSIONS.LEDGER_CLOSE_PERIOD]: {
+    key: PERMISSIONS.LEDGER_CLOSE_PERIOD,
+    label: 'Close Accounting Periods',
+    description: 'Close accounting periods and request re-opening of closed periods',
+    category: PermissionCategory.FINANCIAL,
+    risk: RiskLevel.CRITICAL,
+    dependencies: [PERMISSIONS.LEDGER_VIEW],
+    icon: 'Lock',
+    tags: ['ledger', 'period', 'close', 'financial'],
+  },
+
   // Bookings Management
   [PERMISSIONS.BOOKINGS_CREATE]: {
     key: PERMISSIONS.BOOKINGS_CREATE,
@@ -1333,6 +1369,7 @@ export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
     PERMISSIONS.INVOICES_READ,
     PERMISSIONS.INVOICES_UPDATE,
     PERMISSIONS.INVOICES_SEND,
+    PERMISSIONS.LEDGER_VIEW,
     PERMISSIONS.BOOKINGS_VIEW,
     // Booking settings (no import/reset for TEAM_LEAD)
     PERMISSIONS.BOOKING_SETTINGS_VIEW,
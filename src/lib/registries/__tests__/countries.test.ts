@@ -349,7 +349,7 @@ describe('Country Registry', () => {
     })
 
     it('should have correct weekend days for KSA', () => {
-      expect(KSA.weekendDays).toEqual([4, 5]) // Thursday, Friday
+      expect(KSA.weekendDays).toEqual([5, 6]) // Friday, Saturday
     })
 
     it('should have correct weekend days for Egypt', () => {
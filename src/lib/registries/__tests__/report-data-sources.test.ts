@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { agingBucket, daysBetween, listReportDataSources } from '../report-data-sources'
+import { buildReportData } from '@/app/admin/users/utils/report-builder'
+import { DEFAULT_REPORT_TEMPLATES, type Report } from '@/app/admin/users/types/report-builder'
+
+describe('report data source registry', () => {
+  it('buckets days outstanding for aging reports', () => {
+    expect(daysBetween(new Date('2026-01-01T00:00:00Z'), new Date('2026-02-15T12:00:00Z'))).toBe(45)
+    expect([0, 1, 30, 31, 61, 91].map(agingBucket)).toEqual(['Current', '1-30', '1-30', '31-60', '61-90', '90+'])
+  })
+
+  it('only lists data sources the role may read', () => {
+    expect(listReportDataSources('TEAM_MEMBER').map((s) => s.key)).toEqual(['invoices', 'serviceRequests'])
+    expect(listReportDataSources('ADMIN')).toHaveLength(9)
+    expect(listReportDataSources(null)).toEqual([])
+  })
+
+  it('builds each section from its own data source', () => {
+    const template = DEFAULT_REPORT_TEMPLATES.revenue_by_service
+    const report: Report = {
+      id: 'r1',
+      tenantId: 't1',
+      userId: 'u1',
+      name: template.name,
+      sections: template.sections,
+      createdAt: '2026-01-01',
+      updatedAt: '2026-01-01',
+    }
+    const invoices = [
+      { number: 'INV-1', status: 'PAID', serviceName: 'Bookkeeping', total: 100 },
+      { number: 'INV-2', status: 'PAID', serviceName: 'Payroll', total: 50 },
+      { number: 'INV-3', status: 'PAID', serviceName: 'Bookkeeping', total: 25 },
+      { number: 'INV-4', status: 'UNPAID', serviceName: 'Payroll', total: 999 },
+    ]
+
+    const data = buildReportData(report, { invoices }, { invoices: [] }, [{ column: 'unknown', operator: 'equals', value: 1 }])
+
+    expect(data.summary).toEqual({
+      revenue_total: 175,
+      revenue_by_service: { Bookkeeping: 125, Payroll: 50 },
+    })
+    expect(data.sections?.['revenue-details'].rowCount).toBe(3)
+    expect(data.rows.map((r) => r.number)).toEqual(['INV-1', 'INV-2', 'INV-3'])
+  })
+})
@@ -531,7 +531,7 @@ export const KSA: CountryConfig = {
   thousandsSeparator: ',',
   dateFormat: 'DD/MM/YYYY',
   timeFormat: 'HH:mm',
-  weekendDays: [4, 5], // Thursday, Friday
+  weekendDays: [5, 6], // Friday, Saturday
   taxRate: 0.15, // 15% VAT
   zakatRate: 0.025,
   withholdingTaxRate: 0.05,
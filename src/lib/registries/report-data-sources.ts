@@ -0,0 +1,443 @@
+/**
+ * Report Data Source Registry
+ *
+ * Describes every model the report builder can query:
+ * - Typed column metadata for the builder UI and exports
+ * - The permission a user needs to read the source
+ * - A tenant-scoped loader that flattens rows to column values
+ */
+
+import prisma from '@/lib/prisma'
+import { PERMISSIONS, hasPermission, type Permission } from '@/lib/permissions'
+import type {
+  ReportColumn,
+  ReportDataSourceInfo,
+  ReportDataSourceKey,
+} from '@/app/admin/users/types/report-builder'
+
+export interface ReportQueryOptions {
+  from?: Date
+  to?: Date
+  limit?: number
+  now?: Date
+}
+
+export interface ReportDataSource extends ReportDataSourceInfo {
+  permission: Permission
+  load(tenantId: string, options: ReportQueryOptions): Promise<Record<string, unknown>[]>
+}
+
+export const MAX_REPORT_ROWS = 5000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const AGING_BUCKETS = ['Current', '1-30', '31-60', '61-90', '90+'] as const
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.floor((to.getTime() - from.getTime()) / DAY_MS))
+}
+
+/**
+ * Aging bucket for a number of days past the reference date
+ */
+export function agingBucket(days: number): (typeof AGING_BUCKETS)[number] {
+  if (days <= 0) return 'Current'
+  if (days <= 30) return '1-30'
+  if (days <= 60) return '31-60'
+  if (days <= 90) return '61-90'
+  return '90+'
+}
+
+function col(
+  name: string,
+  label: string,
+  type: ReportColumn['type'],
+  extra: Partial<ReportColumn> = {}
+): ReportColumn {
+  return { name, label, type, visible: true, sortable: true, ...extra }
+}
+
+const money = (name: string, label: string) => col(name, label, 'number', { aggregatable: true, format: 'currency' })
+
+function dateRange(options: ReportQueryOptions) {
+  if (!options.from && !options.to) return undefined
+  return {
+    ...(options.from ? { gte: options.from } : {}),
+    ...(options.to ? { lte: options.to } : {}),
+  }
+}
+
+function take(options: ReportQueryOptions): number {
+  return Math.min(options.limit ?? MAX_REPORT_ROWS, MAX_REPORT_ROWS)
+}
+
+const decimal = (value: unknown): number | null => (value === null || value === undefined ? null : Number(value))
+
+export const REPORT_DATA_SOURCES: Record<ReportDataSourceKey, ReportDataSource> = {
+  users: {
+    key: 'users',
+    label: 'Users',
+    description: 'Team members and clients in the directory',
+    permission: PERMISSIONS.USERS_VIEW,
+    dateColumn: 'createdAt',
+    columns: [
+      col('id', 'User ID', 'string', { visible: false }),
+      col('name', 'Full Name', 'string'),
+      col('email', 'Email Address', 'string'),
+      col('role', 'Role', 'string', { aggregatable: true }),
+      col('availabilityStatus', 'Status', 'string', { aggregatable: true }),
+      col('department', 'Department', 'string', { aggregatable: true }),
+      col('position', 'Position', 'string', { visible: false }),
+      col('createdAt', 'Created Date', 'date'),
+    ],
+    async load(tenantId, options) {
+      return prisma.user.findMany({
+        where: { tenantId, createdAt: dateRange(options) },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          availabilityStatus: true,
+          department: true,
+          position: true,
+          createdAt: true,
+        },
+        take: take(options),
+      })
+    },
+  },
+
+  invoices: {
+    key: 'invoices',
+    label: 'Invoices',
+    description: 'Issued invoices with client, service and aging',
+    permission: PERMISSIONS.INVOICES_READ,
+    dateColumn: 'createdAt',
+    columns: [
+      col('id', 'Invoice ID', 'string', { visible: false }),
+      col('number', 'Number', 'string'),
+      col('status', 'Status', 'string', { aggregatable: true }),
+      col('clientName', 'Client', 'string', { aggregatable: true }),
+      col('serviceName', 'Service', 'string', { aggregatable: true }),
+      col('currency', 'Currency', 'string', { aggregatable: true }),
+      money('total', 'Total'),
+      col('createdAt', 'Issued', 'date'),
+      col('paidAt', 'Paid', 'date'),
+      col('daysOutstanding', 'Days Outstanding', 'number', { aggregatable: true }),
+      col('agingBucket', 'Aging', 'string', { aggregatable: true }),
+    ],
+    async load(tenantId, options) {
+      const now = options.now ?? new Date()
+      const invoices = await prisma.invoice.findMany({
+        where: { tenantId, createdAt: dateRange(options) },
+        include: {
+          client: { select: { name: true, email: true } },
+          booking: { select: { service: { select: { name: true } } } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: take(options),
+      })
+      return invoices.map((inv) => {
+        const open = inv.status !== 'PAID' && inv.status !== 'VOID'
+        const days = open ? daysBetween(inv.createdAt, now) : 0
+        return {
+          id: inv.id,
+          number: inv.number,
+          status: inv.status,
+          clientName: inv.client?.name || inv.client?.email || null,
+          serviceName: inv.booking?.service?.name || 'Unassigned',
+          currency: inv.currency,
+          total: inv.totalCents / 100,
+          createdAt: inv.createdAt,
+          paidAt: inv.paidAt,
+          daysOutstanding: days,
+          agingBucket: open ? agingBucket(days) : null,
+        }
+      })
+    },
+  },
+
+  bills: {
+    key: 'bills',
+    label: 'Bills',
+    description: 'Supplier bills with due dates and payables aging',
+    permission: PERMISSIONS.LEDGER_VIEW,
+    dateColumn: 'date',
+    columns: [
+      col('id', 'Bill ID', 'string', { visible: false }),
+      col('billNumber', 'Number', 'string'),
+      col('vendor', 'Vendor', 'string', { aggregatable: true }),
+      col('category', 'Category', 'string', { aggregatable: true }),
+      col('status', 'Status', 'string', { aggregatable: true }),
+      col('currency', 'Currency', 'string', { aggregatable: true }),
+      money('amount', 'Amount'),
+      col('date', 'Bill Date', 'date'),
+      col('dueDate', 'Due Date', 'date'),
+      col('daysOverdue', 'Days Overdue', 'number', { aggregatable: true }),
+      col('agingBucket', 'Aging', 'string', { aggregatable: true }),
+    ],
+    async load(tenantId, options) {
+      const now = options.now ?? new Date()
+      const bills = await prisma.bill.findMany({
+        where: { tenantId, date: dateRange(options) },
+        orderBy: { date: 'desc' },
+        take: take(options),
+      })
+      return bills.map((bill) => {
+        const open = bill.status !== 'PAID' && bill.status !== 'REJECTED'
+        const days = open ? daysBetween(bill.dueDate ?? bill.date, now) : 0
+        return {
+          id: bill.id,
+          billNumber: bill.billNumber,
+          vendor: bill.vendor,
+          category: bill.category,
+          status: bill.status,
+          currency: bill.currency,
+          amount: bill.amount,
+          date: bill.date,
+          dueDate: bill.dueDate,
+          daysOverdue: days,
+          agingBucket: open ? agingBucket(days) : null,
+        }
+      })
+    },
+  },
+
+  expenses: {
+    key: 'expenses',
+    label: 'Expenses',
+    description: 'Employee and card expenses with input tax',
+    permission: PERMISSIONS.LEDGER_VIEW,
+    dateColumn: 'date',
+    columns: [
+      col('id', 'Expense ID', 'string', { visible: false }),
+      col('vendor', 'Merchant', 'string', { aggregatable: true }),
+      col('category', 'Category', 'string', { aggregatable: true }),
+      col('status', 'Status', 'string', { aggregatable: true }),
+      col('currency', 'Currency', 'string', { aggregatable: true }),
+      money('amount', 'Amount'),
+      money('tax', 'Tax'),
+      col('date', 'Date', 'date'),
+      col('reviewStatus', 'Review', 'string', { aggregatable: true, visible: false }),
+    ],
+    async load(tenantId, options) {
+      const expenses = await prisma.expense.findMany({
+        where: { tenantId, date: dateRange(options) },
+        orderBy: { date: 'desc' },
+        take: take(options),
+      })
+      return expenses.map((e) => ({
+        id: e.id,
+        vendor: e.vendor,
+        category: e.category || 'general',
+        status: e.status,
+        currency: e.currency,
+        amount: e.amountCents / 100,
+        tax: e.taxCents / 100,
+        date: e.date,
+        reviewStatus: e.reviewStatus,
+      }))
+    },
+  },
+
+  bankTransactions: {
+    key: 'bankTransactions',
+    label: 'Bank Transactions',
+    description: 'Imported bank statement lines and their match status',
+    permission: PERMISSIONS.LEDGER_VIEW,
+    dateColumn: 'date',
+    columns: [
+      col('id', 'Transaction ID', 'string', { visible: false }),
+      col('date', 'Date', 'date'),
+      col('description', 'Description', 'string'),
+      col('reference', 'Reference', 'string', { visible: false }),
+      col('type', 'Type', 'string', { aggregatable: true }),
+      col('currency', 'Currency', 'string', { aggregatable: true }),
+      money('amount', 'Amount'),
+      col('matched', 'Matched', 'boolean', { aggregatable: true }),
+      col('matchedToType', 'Matched To', 'string', { aggregatable: true, visible: false }),
+    ],
+    async load(tenantId, options) {
+      const txns = await prisma.bankingTransaction.findMany({
+        where: { tenantId, date: dateRange(options) },
+        orderBy: { date: 'desc' },
+        take: take(options),
+      })
+      return txns.map((t) => ({
+        id: t.id,
+        date: t.date,
+        description: t.description,
+        reference: t.reference,
+        type: t.type,
+        currency: t.currency,
+        amount: decimal(t.amount),
+        matched: t.matched,
+        matchedToType: t.matchedToType,
+      }))
+    },
+  },
+
+  bookings: {
+    key: 'bookings',
+    label: 'Bookings',
+    description: 'Scheduled appointments by service and status',
+    permission: PERMISSIONS.BOOKINGS_READ_ALL,
+    dateColumn: 'scheduledAt',
+    columns: [
+      col('id', 'Booking ID', 'string', { visible: false }),
+      col('scheduledAt', 'Scheduled', 'date'),
+      col('serviceName', 'Service', 'string', { aggregatable: true }),
+      col('clientName', 'Client', 'string', { aggregatable: true }),
+      col('status', 'Status', 'string', { aggregatable: true }),
+      col('duration', 'Duration (min)', 'number', { aggregatable: true }),
+      money('amount', 'Amount'),
+    ],
+    async load(tenantId, options) {
+      const bookings = await prisma.booking.findMany({
+        where: { tenantId, scheduledAt: dateRange(options) },
+        include: { service: { select: { name: true } } },
+        orderBy: { scheduledAt: 'desc' },
+        take: take(options),
+      })
+      return bookings.map((b) => ({
+        id: b.id,
+        scheduledAt: b.scheduledAt,
+        serviceName: b.service?.name ?? null,
+        clientName: b.clientName,
+        status: b.status,
+        duration: b.duration,
+        amount: decimal(b.amount),
+      }))
+    },
+  },
+
+  serviceRequests: {
+    key: 'serviceRequests',
+    label: 'Service Requests',
+    description: 'Client requests with priority, status and payments',
+    permission: PERMISSIONS.SERVICE_REQUESTS_READ_ALL,
+    dateColumn: 'createdAt',
+    columns: [
+      col('id', 'Request ID', 'string', { visible: false }),
+      col('title', 'Title', 'string'),
+      col('serviceName', 'Service', 'string', { aggregatable: true }),
+      col('clientName', 'Client', 'string', { aggregatable: true }),
+      col('priority', 'Priority', 'string', { aggregatable: true }),
+      col('status', 'Status', 'string', { aggregatable: true }),
+      money('paymentAmount', 'Payment'),
+      col('createdAt', 'Created', 'date'),
+      col('completedAt', 'Completed', 'date'),
+    ],
+    async load(tenantId, options) {
+      const requests = await prisma.serviceRequest.findMany({
+        where: { tenantId, createdAt: dateRange(options) },
+        include: {
+          service: { select: { name: true } },
+          client: { select: { name: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: take(options),
+      })
+      return requests.map((r) => ({
+        id: r.id,
+        title: r.title,
+        serviceName: r.service?.name ?? null,
+        clientName: r.clientName || r.client?.name || r.client?.email || null,
+        priority: r.priority,
+        status: r.status,
+        paymentAmount: r.paymentAmountCents != null ? r.paymentAmountCents / 100 : null,
+        createdAt: r.createdAt,
+        completedAt: r.completedAt,
+      }))
+    },
+  },
+
+  taxFilings: {
+    key: 'taxFilings',
+    label: 'Tax Filings',
+    description: 'VAT, corporate tax, zakat and other returns by period',
+    permission: PERMISSIONS.LEDGER_VIEW,
+    dateColumn: 'periodEndDate',
+    columns: [
+      col('id', 'Filing ID', 'string', { visible: false }),
+      col('country', 'Country', 'string', { aggregatable: true }),
+      col('taxType', 'Tax Type', 'string', { aggregatable: true }),
+      col('periodStartDate', 'Period Start', 'date'),
+      col('periodEndDate', 'Period End', 'date'),
+      col('status', 'Status', 'string', { aggregatable: true }),
+      money('taxAmount', 'Tax Amount'),
+      col('submittedAt', 'Submitted', 'date'),
+    ],
+    async load(tenantId, options) {
+      const filings = await prisma.taxFiling.findMany({
+        where: { tenantId, periodEndDate: dateRange(options) },
+        orderBy: { periodEndDate: 'desc' },
+        take: take(options),
+      })
+      return filings.map((f) => ({
+        id: f.id,
+        country: f.country,
+        taxType: f.taxType,
+        periodStartDate: f.periodStartDate,
+        periodEndDate: f.periodEndDate,
+        status: f.status,
+        taxAmount: decimal(f.taxAmount),
+        submittedAt: f.submittedAt,
+      }))
+    },
+  },
+
+  tasks: {
+    key: 'tasks',
+    label: 'Tasks',
+    description: 'Team tasks with assignee, priority and due dates',
+    permission: PERMISSIONS.TASKS_READ_ALL,
+    dateColumn: 'createdAt',
+    columns: [
+      col('id', 'Task ID', 'string', { visible: false }),
+      col('title', 'Title', 'string'),
+      col('status', 'Status', 'string', { aggregatable: true }),
+      col('priority', 'Priority', 'string', { aggregatable: true }),
+      col('assigneeName', 'Assignee', 'string', { aggregatable: true }),
+      col('dueAt', 'Due', 'date'),
+      col('estimatedHours', 'Estimated Hours', 'number', { aggregatable: true }),
+      col('complianceRequired', 'Compliance', 'boolean', { aggregatable: true, visible: false }),
+      col('createdAt', 'Created', 'date'),
+    ],
+    async load(tenantId, options) {
+      const tasks = await prisma.task.findMany({
+        where: { tenantId, createdAt: dateRange(options) },
+        include: { assignee: { select: { name: true, email: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: take(options),
+      })
+      return tasks.map((t) => ({
+        id: t.id,
+        title: t.title,
+        status: t.status,
+        priority: t.priority,
+        assigneeName: t.assignee?.name || t.assignee?.email || null,
+        dueAt: t.dueAt,
+        estimatedHours: t.estimatedHours,
+        complianceRequired: t.complianceRequired,
+        createdAt: t.createdAt,
+      }))
+    },
+  },
+}
+
+export function getReportDataSource(key: string): ReportDataSource | undefined {
+  return Object.prototype.hasOwnProperty.call(REPORT_DATA_SOURCES, key)
+    ? REPORT_DATA_SOURCES[key as ReportDataSourceKey]
+    : undefined
+}
+
+/**
+ * Data sources the role may read, without loaders, for the builder UI
+ */
+export function listReportDataSources(role: string | null | undefined): ReportDataSourceInfo[] {
+  return Object.values(REPORT_DATA_SOURCES)
+    .filter((source) => hasPermission(role, source.permission))
+    .map(({ key, label, description, columns, dateColumn }) => ({ key, label, description, columns, dateColumn }))
+}
@@ -0,0 +1,101 @@
+/**
+ * Outbound URL guard
+ * Keeps server-side requests to user-supplied URLs off the internal
+ * network: the host, and every address it resolves to, must be public.
+ * publicDispatcher connects only to the addresses it checked, so a DNS
+ * answer that changes between the check and the connection is not followed.
+ */
+
+import type { LookupAddress } from 'node:dns'
+import { lookup } from 'node:dns/promises'
+import { isIP, type LookupFunction } from 'node:net'
+import { Agent } from 'undici'
+import { isIpAllowed } from './ip-allowlist'
+
+// Loopback, RFC 1918, link-local (cloud metadata), carrier-grade NAT, unspecified,
+// IETF protocol assignments, benchmarking, multicast and reserved IPv4; IPv6
+// unique-local, link-local, multicast and discard-only; and the IPv6 forms that
+// carry an IPv4 address: IPv4-mapped as URL parsing writes it (::ffff:7f00:1),
+// IPv4-compatible, NAT64, Teredo and 6to4
+const PRIVATE_RANGES = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+  '::/96',
+  '::ffff:0:0/96',
+  '64:ff9b::/96',
+  '64:ff9b:1::/48',
+  '100::/64',
+  '2001::/32',
+  '2002::/16',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+]
+
+export const PRIVATE_ADDRESS_ERROR = 'URL points to a private network address'
+
+export function isPrivateAddress(ip: string): boolean {
+  return isIpAllowed(ip, PRIVATE_RANGES)
+}
+
+const hostOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+
+/** True when the URL names localhost or a private address literally, without a DNS lookup */
+export function isPrivateHost(url: URL): boolean {
+  const host = hostOf(url)
+  if (host === 'localhost' || host.endsWith('.localhost')) return true
+  return isIP(host) !== 0 && isPrivateAddress(host)
+}
+
+/**
+ * Refuse a URL whose host is, or resolves to, a private or loopback address
+ */
+export async function assertPublicUrl(value: string): Promise<void> {
+  const url = new URL(value)
+  if (isPrivateHost(url)) throw new Error(PRIVATE_ADDRESS_ERROR)
+  const host = hostOf(url)
+  if (isIP(host) !== 0) return
+
+  try {
+    await resolvePublic(host)
+  } catch (error) {
+    if (error instanceof Error && error.message === PRIVATE_ADDRESS_ERROR) throw error
+    throw new Error(`Could not resolve ${host}`)
+  }
+}
+
+async function resolvePublic(host: string): Promise<LookupAddress[]> {
+  const addresses = await lookup(host, { all: true })
+  if (addresses.some((a) => isPrivateAddress(a.address))) throw new Error(PRIVATE_ADDRESS_ERROR)
+  return addresses
+}
+
+/** dns.lookup for outbound sockets that refuses hosts resolving to a private address */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  resolvePublic(hostname).then(
+    (addresses) => {
+      const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family
+      const usable = family ? addresses.filter((a) => a.family === family) : addresses
+      if (usable.length === 0) {
+        callback(Object.assign(new Error(`Could not resolve ${hostname}`), { code: 'ENOTFOUND' }), [])
+      } else if (options.all) {
+        callback(null, usable)
+      } else {
+        callback(null, usable[0].address, usable[0].family)
+      }
+    },
+    (error: NodeJS.ErrnoException) => callback(error, [])
+  )
+}
+
+/** undici dispatcher for user-supplied URLs; pass it as fetch's `dispatcher` */
+export const publicDispatcher = new Agent({ connect: { lookup: publicLookup } })
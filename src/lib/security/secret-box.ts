@@ -0,0 +1,46 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const VERSION = 'v1';
+
+/**
+ * 32-byte key from SECRETS_ENCRYPTION_KEY (base64 or hex), falling back to
+ * a key derived from NEXTAUTH_SECRET.
+ */
+function encryptionKey(): Buffer {
+  const configured = process.env.SECRETS_ENCRYPTION_KEY;
+  if (configured) {
+    const key = /^[0-9a-f]{64}$/i.test(configured) ? Buffer.from(configured, 'hex') : Buffer.from(configured, 'base64');
+    if (key.length !== 32) throw new Error('SECRETS_ENCRYPTION_KEY must be 32 bytes');
+    return key;
+  }
+  if (process.env.NEXTAUTH_SECRET) {
+    return createHash('sha256').update(`secret-box:${process.env.NEXTAUTH_SECRET}`).digest();
+  }
+  throw new Error('Secret encryption key not configured');
+}
+
+/**
+ * Encrypts a secret for storage with AES-256-GCM.
+ *
+ * @returns `v1:<iv>:<tag>:<ciphertext>`, base64 parts
+ */
+export function sealSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypts a value produced by sealSecret. Throws if it was tampered with
+ * or sealed under another key.
+ */
+export function openSecret(sealed: string): string {
+  const [version, iv, tag, ciphertext] = sealed.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Invalid sealed secret');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -5,6 +5,13 @@
 
 import prisma from "@/lib/prisma";
 import { logger } from "@/lib/logger";
+import {
+  ledgerPostingService,
+  postToLedgerSafe,
+} from "@/lib/accounting/posting-service";
+import { periodCloseService } from "@/lib/accounting/period-close";
+import { ksaWithholdingTaxService } from "@/lib/tax-workflows/wht-service";
+import type { BillLineInput } from "@/lib/tax-workflows/ksa-wht";
 import {
   BillStatus,
   OcrStatus,
@@ -143,12 +150,48 @@ export class BillsService {
             name: true,
           },
         },
+        lines: true,
       },
     });
 
     return bill;
   }
 
+  /**
+   * A tax code set on a bill must be one of the tenant's
+   */
+  private async assertTaxCode(tenantId: string, taxCodeId: string | null | undefined): Promise<void> {
+    if (!taxCodeId) return;
+    const taxCode = await prisma.taxCode.findFirst({ where: { id: taxCodeId, tenantId }, select: { id: true } });
+    if (!taxCode) throw new Error("Tax code not found");
+  }
+
+  /**
+   * Lines with the tax to withhold from the vendor's payment. Lines must
+   * add up to the bill amount.
+   */
+  private async withholding(
+    tenantId: string,
+    bill: { entityId?: string | null; partyId?: string | null; date: Date; amount: number; lines: BillLineInput[] }
+  ) {
+    const total = bill.lines.reduce((sum, line) => sum + line.amount, 0);
+    if (Math.abs(total - bill.amount) >= 0.005) {
+      throw new Error("Bill lines must add up to the bill amount");
+    }
+    const { lines, whtAmount } = await ksaWithholdingTaxService.withholdingForBill(tenantId, bill);
+    return {
+      whtAmount,
+      lines: lines.map((line) => ({
+        description: line.description,
+        amount: line.amount,
+        whtPaymentType: line.whtPaymentType ?? null,
+        whtRate: line.whtRate,
+        whtAmount: line.whtAmount,
+        whtTreatyRateId: line.whtTreatyRateId,
+      })),
+    };
+  }
+
   /**
    * Create new bill
    */
@@ -157,9 +200,24 @@ export class BillsService {
     userId: string,
     data: BillCreateInput
   ): Promise<any> {
+    await periodCloseService.assertDateOpen(tenantId, data.entityId ?? null, new Date(data.date));
+    if (data.entityId) {
+      const entity = await prisma.entity.findFirst({ where: { id: data.entityId, tenantId }, select: { id: true } });
+      if (!entity) throw new Error("Entity not found");
+    }
+    await this.assertTaxCode(tenantId, data.taxCodeId);
+    const withholding = data.lines?.length
+      ? await this.withholding(tenantId, { ...data, date: new Date(data.date), lines: data.lines })
+      : null;
+
     const bill = await prisma.bill.create({
       data: {
         tenantId,
+        entityId: data.entityId,
+        taxCodeId: data.taxCodeId,
+        partyId: data.partyId,
+        whtAmount: withholding?.whtAmount ?? 0,
+        ...(withholding && { lines: { create: withholding.lines } }),
         vendor: data.vendor,
         amount: data.amount,
         currency: data.currency || "USD",
@@ -183,6 +241,7 @@ export class BillsService {
             size: true,
           },
         },
+        lines: true,
       },
     });
 
@@ -221,6 +280,31 @@ export class BillsService {
       throw new Error("Bill not found");
     }
 
+    // Neither the current nor the new date may fall in a closed period
+    await periodCloseService.assertDatesOpen(tenantId, existingBill.entityId, [
+      existingBill.date,
+      data.date ? new Date(data.date) : undefined,
+    ]);
+    await this.assertTaxCode(tenantId, data.taxCodeId);
+
+    // Withholding is posted with the approved bill, so it is fixed from then on
+    let withholding: Awaited<ReturnType<BillsService["withholding"]>> | null = null;
+    if (data.lines !== undefined || data.partyId !== undefined) {
+      if (existingBill.status !== BillStatus.PENDING) {
+        throw new Error("Lines and vendor of an approved bill cannot be changed");
+      }
+      const lines: BillLineInput[] = data.lines ?? existingBill.lines;
+      withholding = lines.length > 0
+        ? await this.withholding(tenantId, {
+          entityId: existingBill.entityId,
+          partyId: data.partyId === undefined ? existingBill.partyId : data.partyId,
+          date: data.date ? new Date(data.date) : existingBill.date,
+          amount: data.amount ?? existingBill.amount,
+          lines,
+        })
+        : { whtAmount: 0, lines: [] };
+    }
+
     const bill = await prisma.bill.update({
       where: { id: billId },
       data: {
@@ -235,6 +319,15 @@ export class BillsService {
         notes: data.notes,
         tags: data.tags,
         billNumber: data.billNumber,
+        taxCodeId: data.taxCodeId,
+        partyId: data.partyId,
+        paidAt: data.status === undefined || data.status === existingBill.status
+          ? undefined
+          : data.status === BillStatus.PAID ? new Date() : null,
+        ...(withholding && {
+          whtAmount: withholding.whtAmount,
+          lines: { deleteMany: {}, create: withholding.lines },
+        }),
       },
       include: {
         attachment: {
@@ -246,6 +339,7 @@ export class BillsService {
             size: true,
           },
         },
+        lines: true,
       },
     });
 
@@ -282,6 +376,12 @@ export class BillsService {
       throw new Error("Bill not found");
     }
 
+    await periodCloseService.assertDateOpen(
+      tenantId,
+      existingBill.entityId,
+      existingBill.date
+    );
+
     await prisma.bill.delete({
       where: { id: billId },
     });
@@ -320,6 +420,12 @@ export class BillsService {
       throw new Error("Bill not found");
     }
 
+    await periodCloseService.assertDateOpen(
+      tenantId,
+      existingBill.entityId,
+      existingBill.date
+    );
+
     const bill = await prisma.bill.update({
       where: { id: billId },
       data: {
@@ -355,6 +461,12 @@ export class BillsService {
       },
     });
 
+    if (approved) {
+      await postToLedgerSafe("bill.approved", () =>
+        ledgerPostingService.postBillApproved(bill, { userId })
+      );
+    }
+
     logger.info(`Bill ${approved ? "approved" : "rejected"}`, {
       billId: bill.id,
       tenantId,
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_EXPENSE_POLICY,
+  evaluatePolicy,
+  mergeReceiptFields,
+  structureReceiptData,
+  weekendDaysFor,
+} from "../expense-policy";
+
+describe("expense policy", () => {
+  it("structures OCR output with per-field confidence", () => {
+    const extraction = structureReceiptData({
+      provider: "mock",
+      extractedData: { store: "Cafe Nero", totalAmount: "12.40", date: "2026-03-04", fieldConfidence: { merchant: 0.6 } },
+    });
+    expect(extraction.values).toMatchObject({ merchant: "Cafe Nero", totalCents: 1240, date: "2026-03-04" });
+    expect(extraction.confidence).toEqual({ merchant: 0.6, date: 0.85, total: 0.85, tax: 0 });
+  });
+
+  it("sends low-confidence OCR fields to review unless the user supplied them", () => {
+    const extraction = {
+      values: { merchant: "Cafe Nero", date: "2026-03-04", totalCents: 1240 },
+      confidence: { merchant: 0.6, date: 0.95, total: 0.9, tax: 0 },
+    };
+    const { values, reviewFields } = mergeReceiptFields({ taxCents: 0 }, extraction, 0.8);
+    expect(values).toMatchObject({ merchant: "Cafe Nero", totalCents: 1240, taxCents: 0 });
+    expect(reviewFields).toEqual(["merchant"]);
+  });
+
+  it("flags category limits, missing receipts and weekend spend", () => {
+    const policy = { ...DEFAULT_EXPENSE_POLICY, categoryLimits: { Meals: 5000 } };
+    const saturday = new Date("2026-03-07T00:00:00.000Z");
+    const flags = evaluatePolicy({ category: "meals", amountCents: 9000, date: saturday, hasReceipt: false }, policy);
+    expect(flags.map((f) => f.code)).toEqual(["CATEGORY_LIMIT", "MISSING_RECEIPT", "WEEKEND_SPEND"]);
+  });
+
+  it("passes a weekday expense within limits", () => {
+    const tuesday = new Date("2026-03-03T00:00:00.000Z");
+    expect(
+      evaluatePolicy({ category: "travel", amountCents: 9000, date: tuesday, hasReceipt: true }, DEFAULT_EXPENSE_POLICY)
+    ).toEqual([]);
+  });
+
+  it("takes the weekend from the entity's country", () => {
+    const friday = new Date("2026-03-06T00:00:00.000Z");
+    const sunday = new Date("2026-03-08T00:00:00.000Z");
+    const spend = (date: Date, country?: string) =>
+      evaluatePolicy({ category: "travel", amountCents: 900, date, hasReceipt: true }, DEFAULT_EXPENSE_POLICY, weekendDaysFor(country))
+        .map((f) => f.code);
+
+    expect(spend(friday, "SA")).toEqual(["WEEKEND_SPEND"]);
+    expect(spend(sunday, "sa")).toEqual([]);
+    expect(spend(sunday)).toEqual(["WEEKEND_SPEND"]);
+    expect(spend(friday, "GB")).toEqual([]);
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Expense Ingest Service
+ * Stores receipts, extracts fields with OCR and applies expense policy
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import type { Attachment, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { logAudit } from "@/lib/audit";
+import { scanBuffer } from "@/lib/clamav";
+import { putObject } from "@/lib/uploads-provider";
+import { OcrService } from "@/lib/ocr/ocr-service";
+import { ledgerPostingService, postToLedgerSafe } from "@/lib/accounting/posting-service";
+import { periodCloseService } from "@/lib/accounting/period-close";
+import {
+  evaluatePolicy,
+  mergeReceiptFields,
+  structureReceiptData,
+  toPolicyConfig,
+  weekendDaysFor,
+  type ExpensePolicyConfig,
+  type PolicyFlag,
+  type ReceiptExtraction,
+  type ReceiptField,
+  type ReceiptValues,
+} from "./expense-policy";
+
+export interface ReceiptUpload {
+  buffer: Buffer;
+  name: string;
+  contentType: string;
+}
+
+export interface ExpenseIngestInput {
+  file?: ReceiptUpload | null;
+  fields: ReceiptValues & { category?: string; notes?: string };
+  entityId?: string | null;
+}
+
+export interface ExpenseReviewInput {
+  // Reviewers confirm or reject; the submitter can only correct fields or withdraw
+  action: "confirm" | "reject" | "correct" | "withdraw";
+  merchant?: string;
+  date?: string;
+  totalCents?: number;
+  taxCents?: number;
+  category?: string;
+}
+
+const AV_POLICY = () => String(process.env.UPLOADS_AV_POLICY || "lenient").toLowerCase();
+
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const expenseInclude = {
+  attachment: { select: { id: true, url: true, name: true, avStatus: true } },
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.ExpenseInclude;
+
+export class ExpenseIngestService {
+  private ocrService: OcrService;
+
+  constructor() {
+    this.ocrService = new OcrService();
+  }
+
+  async getPolicy(tenantId: string): Promise<ExpensePolicyConfig> {
+    const row = await prisma.expensePolicy.findUnique({ where: { tenantId } });
+    return toPolicyConfig(row as Partial<ExpensePolicyConfig> | null);
+  }
+
+  async updatePolicy(
+    tenantId: string,
+    userId: string | null,
+    input: Partial<ExpensePolicyConfig>
+  ): Promise<ExpensePolicyConfig> {
+    const data = {
+      ...(input.receiptRequiredAboveCents !== undefined && { receiptRequiredAboveCents: input.receiptRequiredAboveCents }),
+      ...(input.categoryLimits !== undefined && { categoryLimits: input.categoryLimits }),
+      ...(input.flagWeekendSpend !== undefined && { flagWeekendSpend: input.flagWeekendSpend }),
+      ...(input.reviewConfidence !== undefined && { reviewConfidence: input.reviewConfidence }),
+      updatedBy: userId,
+    };
+    const row = await prisma.expensePolicy.upsert({
+      where: { tenantId },
+      create: { tenantId, ...data },
+      update: data,
+    });
+    return toPolicyConfig(row as Partial<ExpensePolicyConfig>);
+  }
+
+  /**
+   * Store an expense, with its receipt when one is uploaded
+   */
+  async ingest(tenantId: string, userId: string | null, input: ExpenseIngestInput) {
+    // Refuse before a receipt is stored: the entity must be the tenant's and the submitted date open
+    let country: string | null = null;
+    if (input.entityId) {
+      const entity = await prisma.entity.findFirst({ where: { id: input.entityId, tenantId }, select: { country: true } });
+      if (!entity) throw new Error("Entity not found or unauthorized");
+      country = entity.country;
+    }
+    const submittedDate = input.fields.date ? new Date(`${input.fields.date}T00:00:00.000Z`) : new Date();
+    await periodCloseService.assertDateOpen(tenantId, input.entityId ?? null, submittedDate);
+
+    const policy = await this.getPolicy(tenantId);
+    const flags: PolicyFlag[] = [];
+
+    let attachment: Attachment | null = null;
+    let extraction: ReceiptExtraction | null = null;
+    let ocrStatus: string | null = null;
+
+    if (input.file) {
+      attachment = await this.storeReceipt(tenantId, userId, input.entityId ?? null, input.file);
+
+      if (attachment.avStatus === "infected") {
+        flags.push({ code: "RECEIPT_INFECTED", message: "Receipt failed the antivirus scan and was quarantined" });
+      } else {
+        try {
+          extraction = structureReceiptData(await this.ocrService.processDocument(attachment));
+          ocrStatus = "COMPLETED";
+        } catch (error) {
+          ocrStatus = "FAILED";
+          logger.error("Receipt OCR failed", { tenantId, attachmentId: attachment.id, error });
+        }
+      }
+    }
+
+    const { values, reviewFields } = mergeReceiptFields(input.fields, extraction, policy.reviewConfidence);
+    if (!input.file) {
+      // Without a receipt only the submitted values exist; anything missing needs review
+      reviewFields.splice(0, reviewFields.length, ...this.missingFields(values));
+    }
+
+    const date = values.date ? new Date(`${values.date}T00:00:00.000Z`) : new Date();
+    const amountCents = values.totalCents ?? 0;
+    const vendor = values.merchant || "Unknown merchant";
+    const category = input.fields.category || "general";
+
+    // OCR may have read a different date off the receipt
+    if (date.getTime() !== submittedDate.getTime()) {
+      await periodCloseService.assertDateOpen(tenantId, input.entityId ?? null, date);
+    }
+
+    const duplicate = await this.findDuplicate(tenantId, {
+      vendor,
+      amountCents,
+      date,
+      sha256: (attachment?.metadata as Record<string, unknown> | null)?.sha256 as string | undefined,
+    });
+    if (duplicate) {
+      flags.push({
+        code: "DUPLICATE",
+        message: `Possible duplicate of ${duplicate.vendor} on ${duplicate.date.toISOString().slice(0, 10)}`,
+      });
+    }
+
+    flags.push(
+      ...evaluatePolicy({ category, amountCents, date, hasReceipt: Boolean(attachment) }, policy, weekendDaysFor(country))
+    );
+
+    const needsReview = reviewFields.length > 0 || flags.length > 0;
+
+    const expense = await prisma.expense.create({
+      data: {
+        tenantId,
+        entityId: input.entityId ?? null,
+        userId,
+        vendor,
+        category,
+        status: "PENDING",
+        amountCents,
+        taxCents: values.taxCents ?? 0,
+        currency: (values.currency || "USD").toUpperCase(),
+        date,
+        notes: input.fields.notes || null,
+        attachmentId: attachment?.id ?? null,
+        ocrStatus,
+        ocrData: extraction ? (extraction as unknown as Prisma.InputJsonValue) : undefined,
+        ocrConfidence: extraction ? this.averageConfidence(extraction) : null,
+        reviewStatus: needsReview ? "NEEDS_REVIEW" : "NONE",
+        reviewFields,
+        policyFlags: flags as unknown as Prisma.InputJsonValue,
+        duplicateOfId: duplicate?.id ?? null,
+      },
+      include: expenseInclude,
+    });
+
+    // Hold ledger posting until a reviewer has confirmed the amounts
+    if (!needsReview) {
+      await postToLedgerSafe("expense.recorded", () =>
+        ledgerPostingService.postExpenseRecorded(expense, { userId })
+      );
+    }
+
+    try {
+      await logAudit({
+        tenantId,
+        userId,
+        action: "expense.ingest",
+        resource: `expense:${expense.id}`,
+        metadata: { attachmentId: attachment?.id ?? null, reviewFields, flags: flags.map((f) => f.code) },
+      });
+    } catch {}
+
+    return expense;
+  }
+
+  /**
+   * Expenses waiting on a reviewer. Without a userId the whole tenant is listed.
+   */
+  async listReviewQueue(tenantId: string, options: { userId?: string; limit?: number; offset?: number } = {}) {
+    const where: Prisma.ExpenseWhereInput = {
+      tenantId,
+      reviewStatus: "NEEDS_REVIEW",
+      ...(options.userId ? { userId: options.userId } : {}),
+    };
+    const [expenses, total] = await Promise.all([
+      prisma.expense.findMany({
+        where,
+        include: expenseInclude,
+        orderBy: { createdAt: "asc" },
+        take: options.limit ?? 50,
+        skip: options.offset ?? 0,
+      }),
+      prisma.expense.count({ where }),
+    ]);
+    return { expenses, total };
+  }
+
+  /**
+   * Resolve a queued expense. Confirming or rejecting takes a reviewer other
+   * than the submitter, managers included; the submitter can correct fields,
+   * which keeps the expense queued, or withdraw it.
+   */
+  async resolveReview(
+    tenantId: string,
+    userId: string,
+    id: string,
+    input: ExpenseReviewInput,
+    options: { scopeUserId?: string } = {}
+  ) {
+    const existing = await prisma.expense.findFirst({
+      where: { id, tenantId, ...(options.scopeUserId ? { userId: options.scopeUserId } : {}) },
+    });
+    if (!existing) throw new Error("Expense not found");
+    if (existing.reviewStatus !== "NEEDS_REVIEW") throw new Error("Expense is not awaiting review");
+
+    const isSubmitter = existing.userId === userId;
+    if ((input.action === "confirm" || input.action === "reject") && isSubmitter) {
+      throw new Error("Submitters cannot review their own expense");
+    }
+    if (input.action === "withdraw" && !isSubmitter) {
+      throw new Error("Only the submitter can withdraw an expense");
+    }
+
+    const date = input.date ? new Date(`${input.date}T00:00:00.000Z`) : existing.date;
+    await periodCloseService.assertDateOpen(tenantId, existing.entityId, existing.date);
+    if (date.getTime() !== existing.date.getTime()) {
+      await periodCloseService.assertDateOpen(tenantId, existing.entityId, date);
+    }
+
+    const amountCents = input.totalCents ?? existing.amountCents;
+    const category = input.category ?? existing.category;
+    const policy = await this.getPolicy(tenantId);
+    const entity = existing.entityId
+      ? await prisma.entity.findUnique({ where: { id: existing.entityId }, select: { country: true } })
+      : null;
+
+    // Policy flags are re-evaluated against the corrected values; duplicate
+    // and AV flags stay on record for the audit trail
+    const kept = ((existing.policyFlags as unknown as PolicyFlag[] | null) || []).filter(
+      (f) => f.code === "DUPLICATE" || f.code === "RECEIPT_INFECTED"
+    );
+    const flags = [
+      ...kept,
+      ...evaluatePolicy(
+        { category, amountCents, date, hasReceipt: Boolean(existing.attachmentId) },
+        policy,
+        weekendDaysFor(entity?.country)
+      ),
+    ];
+
+    const corrected: Record<ReceiptField, unknown> = {
+      merchant: input.merchant,
+      date: input.date,
+      total: input.totalCents,
+      tax: input.taxCents,
+    };
+    const resolved = input.action !== "correct";
+
+    const expense = await prisma.expense.update({
+      where: { id },
+      data: {
+        vendor: input.merchant ?? existing.vendor,
+        date,
+        amountCents,
+        taxCents: input.taxCents ?? existing.taxCents,
+        category,
+        status: input.action === "reject" || input.action === "withdraw" ? "REJECTED" : existing.status,
+        reviewStatus: input.action === "withdraw" ? "WITHDRAWN" : resolved ? "REVIEWED" : "NEEDS_REVIEW",
+        // A correction clears the fields it supplied; a reviewer still has to confirm
+        reviewFields: resolved ? [] : existing.reviewFields.filter((f) => corrected[f as ReceiptField] === undefined),
+        policyFlags: flags as unknown as Prisma.InputJsonValue,
+        ...(resolved ? { reviewedAt: new Date(), reviewedBy: userId } : {}),
+      },
+      include: expenseInclude,
+    });
+
+    if (input.action === "confirm") {
+      await postToLedgerSafe("expense.recorded", () =>
+        ledgerPostingService.postExpenseRecorded(expense, { userId })
+      );
+    }
+
+    try {
+      await logAudit({
+        tenantId,
+        userId,
+        action: `expense.review.${input.action}`,
+        resource: `expense:${id}`,
+        metadata: { corrected: Object.keys(input).filter((k) => k !== "action") },
+      });
+    } catch {}
+
+    return expense;
+  }
+
+  private async storeReceipt(
+    tenantId: string,
+    userId: string | null,
+    entityId: string | null,
+    file: ReceiptUpload
+  ): Promise<Attachment> {
+    const sha256 = createHash("sha256").update(file.buffer).digest("hex");
+
+    let avData: Partial<Prisma.AttachmentUncheckedCreateInput> = {};
+    if (process.env.UPLOADS_AV_SCAN_URL) {
+      try {
+        const result = await scanBuffer(file.buffer);
+        if (!result.clean && AV_POLICY() === "strict") {
+          throw new Error("Receipt failed antivirus scan");
+        }
+        avData = {
+          avStatus: result.clean ? "clean" : "infected",
+          avDetails: result.details || {},
+          avScanAt: new Date(),
+          avThreatName: result.details?.threat_name || result.details?.threatName || null,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.message === "Receipt failed antivirus scan") throw error;
+        if (AV_POLICY() === "strict") throw new Error("Antivirus scan unavailable");
+        logger.warn("Receipt AV scan failed", { tenantId, error });
+        avData = { avStatus: "error", avDetails: { error: String(error) }, avScanAt: new Date() };
+      }
+    }
+
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_") || "receipt.bin";
+    const prefix = avData.avStatus === "infected" ? "quarantine/expenses" : "expenses";
+    const key = `${prefix}/${tenantId}/${Date.now()}-${randomUUID()}-${safeName}`;
+
+    try {
+      await putObject(key, file.buffer, { contentType: file.contentType });
+    } catch (error) {
+      logger.error("Receipt storage failed", { tenantId, key, error });
+      throw new Error("Receipt storage unavailable");
+    }
+
+    return prisma.attachment.create({
+      data: {
+        tenantId,
+        key,
+        name: safeName,
+        size: file.buffer.length,
+        contentType: file.contentType,
+        provider: process.env.UPLOADS_PROVIDER || null,
+        uploaderId: userId,
+        entityId,
+        metadata: { sha256, source: "expense-ingest" },
+        ...avData,
+      },
+    });
+  }
+
+  private async findDuplicate(
+    tenantId: string,
+    candidate: { vendor: string; amountCents: number; date: Date; sha256?: string }
+  ) {
+    const or: Prisma.ExpenseWhereInput[] = [
+      {
+        vendor: { equals: candidate.vendor, mode: "insensitive" },
+        amountCents: candidate.amountCents,
+        date: {
+          gte: new Date(candidate.date.getTime() - DUPLICATE_WINDOW_MS),
+          lte: new Date(candidate.date.getTime() + DUPLICATE_WINDOW_MS),
+        },
+      },
+    ];
+    if (candidate.sha256) {
+      or.push({ attachment: { metadata: { path: ["sha256"], equals: candidate.sha256 } } });
+    }
+    return prisma.expense.findFirst({
+      where: { tenantId, status: { not: "REJECTED" }, OR: or },
+      select: { id: true, vendor: true, date: true },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  private missingFields(values: ReceiptValues): ReceiptField[] {
+    const missing: ReceiptField[] = [];
+    if (!values.merchant) missing.push("merchant");
+    if (!values.date) missing.push("date");
+    if (values.totalCents === undefined) missing.push("total");
+    return missing;
+  }
+
+  private averageConfidence(extraction: ReceiptExtraction): number {
+    const scores = Object.values(extraction.confidence);
+    return scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+  }
+}
+
+export const expenseIngestService = new ExpenseIngestService();
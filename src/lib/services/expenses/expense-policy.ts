@@ -0,0 +1,197 @@
+/**
+ * Expense Policy
+ * Pure checks for receipt extraction confidence, duplicates and spend policy
+ */
+
+import { getCountry, type CountryCode } from "@/lib/registries/countries";
+
+export type ReceiptField = "merchant" | "date" | "total" | "tax";
+
+export const RECEIPT_FIELDS: ReceiptField[] = ["merchant", "date", "total", "tax"];
+
+export interface ReceiptValues {
+  merchant?: string;
+  date?: string; // yyyy-mm-dd
+  totalCents?: number;
+  taxCents?: number;
+  currency?: string;
+}
+
+export interface ReceiptExtraction {
+  values: ReceiptValues;
+  confidence: Record<ReceiptField, number>;
+}
+
+export interface ExpensePolicyConfig {
+  receiptRequiredAboveCents: number;
+  categoryLimits: Record<string, number>;
+  flagWeekendSpend: boolean;
+  reviewConfidence: number;
+}
+
+export type PolicyFlagCode =
+  | "DUPLICATE"
+  | "CATEGORY_LIMIT"
+  | "MISSING_RECEIPT"
+  | "WEEKEND_SPEND"
+  | "RECEIPT_INFECTED";
+
+export interface PolicyFlag {
+  code: PolicyFlagCode;
+  message: string;
+}
+
+export const DEFAULT_EXPENSE_POLICY: ExpensePolicyConfig = {
+  receiptRequiredAboveCents: 7500,
+  categoryLimits: {},
+  flagWeekendSpend: true,
+  reviewConfidence: 0.8,
+};
+
+// Confidence for a field the provider returned without its own score
+const DEFAULT_FIELD_CONFIDENCE = 0.85;
+
+function toCents(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = typeof value === "number" ? value : parseFloat(String(value).replace(/,/g, ""));
+  return Number.isFinite(n) && n >= 0 ? Math.round(n * 100) : undefined;
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (!value) return undefined;
+  const d = new Date(String(value));
+  return Number.isFinite(d.getTime()) ? d.toISOString().slice(0, 10) : undefined;
+}
+
+/**
+ * Map a raw OCR provider result onto receipt fields with a confidence per field
+ */
+export function structureReceiptData(ocrResult: any): ReceiptExtraction {
+  const data = ocrResult?.extractedData || {};
+  const scores = (data.fieldConfidence || ocrResult?.fieldConfidence || {}) as Record<string, number>;
+  const overall = typeof ocrResult?.confidence === "number" ? ocrResult.confidence : DEFAULT_FIELD_CONFIDENCE;
+
+  const merchant = typeof (data.merchant || data.store || data.vendor) === "string"
+    ? String(data.merchant || data.store || data.vendor).trim()
+    : undefined;
+
+  const values: ReceiptValues = {
+    merchant: merchant || undefined,
+    date: toIsoDate(data.date),
+    totalCents: toCents(data.totalAmount ?? data.total),
+    taxCents: toCents(data.taxAmount ?? data.tax),
+    currency: typeof data.currency === "string" ? data.currency.toUpperCase() : undefined,
+  };
+
+  const present: Record<ReceiptField, boolean> = {
+    merchant: Boolean(values.merchant),
+    date: Boolean(values.date),
+    total: values.totalCents !== undefined && values.totalCents > 0,
+    tax: values.taxCents !== undefined,
+  };
+
+  const confidence = {} as Record<ReceiptField, number>;
+  for (const field of RECEIPT_FIELDS) {
+    const score = typeof scores[field] === "number" ? scores[field] : overall;
+    confidence[field] = present[field] ? Math.max(0, Math.min(1, score)) : 0;
+  }
+
+  return { values, confidence };
+}
+
+/**
+ * Combine submitted values with OCR output. Submitted values win and count
+ * as confirmed; OCR values below the threshold are returned for review.
+ */
+export function mergeReceiptFields(
+  submitted: ReceiptValues,
+  extraction: ReceiptExtraction | null,
+  threshold: number
+): { values: ReceiptValues; reviewFields: ReceiptField[] } {
+  const ocr = extraction?.values || {};
+  const values: ReceiptValues = {
+    merchant: submitted.merchant ?? ocr.merchant,
+    date: submitted.date ?? ocr.date,
+    totalCents: submitted.totalCents ?? ocr.totalCents,
+    taxCents: submitted.taxCents ?? ocr.taxCents,
+    currency: submitted.currency ?? ocr.currency,
+  };
+
+  const submittedKeys: Record<ReceiptField, boolean> = {
+    merchant: submitted.merchant !== undefined,
+    date: submitted.date !== undefined,
+    total: submitted.totalCents !== undefined,
+    tax: submitted.taxCents !== undefined,
+  };
+
+  const reviewFields = RECEIPT_FIELDS.filter((field) => {
+    if (submittedKeys[field]) return false;
+    return (extraction?.confidence[field] ?? 0) < threshold;
+  });
+
+  return { values, reviewFields };
+}
+
+// Saturday and Sunday, for entities outside the country registry
+const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+/**
+ * Weekend days (0 = Sunday) for an entity's country
+ */
+export function weekendDaysFor(country?: string | null): number[] {
+  return (country && getCountry(country.toUpperCase() as CountryCode)?.weekendDays) || DEFAULT_WEEKEND_DAYS;
+}
+
+export function isWeekend(date: Date, weekendDays: number[] = DEFAULT_WEEKEND_DAYS): boolean {
+  return weekendDays.includes(date.getUTCDay());
+}
+
+/**
+ * Spend policy violations for a single expense
+ */
+export function evaluatePolicy(
+  expense: { category?: string | null; amountCents: number; date: Date; hasReceipt: boolean },
+  policy: ExpensePolicyConfig,
+  weekendDays: number[] = DEFAULT_WEEKEND_DAYS
+): PolicyFlag[] {
+  const flags: PolicyFlag[] = [];
+  const amount = (expense.amountCents / 100).toFixed(2);
+
+  const category = (expense.category || "general").toLowerCase();
+  const limit = Object.entries(policy.categoryLimits).find(([key]) => key.toLowerCase() === category)?.[1];
+  if (typeof limit === "number" && expense.amountCents > limit) {
+    flags.push({
+      code: "CATEGORY_LIMIT",
+      message: `${amount} exceeds the ${category} limit of ${(limit / 100).toFixed(2)}`,
+    });
+  }
+
+  if (!expense.hasReceipt && expense.amountCents > policy.receiptRequiredAboveCents) {
+    flags.push({
+      code: "MISSING_RECEIPT",
+      message: `A receipt is required above ${(policy.receiptRequiredAboveCents / 100).toFixed(2)}`,
+    });
+  }
+
+  if (policy.flagWeekendSpend && isWeekend(expense.date, weekendDays)) {
+    flags.push({ code: "WEEKEND_SPEND", message: "Spend dated on a weekend" });
+  }
+
+  return flags;
+}
+
+/**
+ * Read a stored policy row, falling back to defaults for missing settings
+ */
+export function toPolicyConfig(row: Partial<ExpensePolicyConfig> | null | undefined): ExpensePolicyConfig {
+  if (!row) return DEFAULT_EXPENSE_POLICY;
+  const limits = row.categoryLimits && typeof row.categoryLimits === "object" ? row.categoryLimits : {};
+  return {
+    receiptRequiredAboveCents: row.receiptRequiredAboveCents ?? DEFAULT_EXPENSE_POLICY.receiptRequiredAboveCents,
+    categoryLimits: Object.fromEntries(
+      Object.entries(limits).filter(([, v]) => typeof v === "number" && v >= 0)
+    ) as Record<string, number>,
+    flagWeekendSpend: row.flagWeekendSpend ?? DEFAULT_EXPENSE_POLICY.flagWeekendSpend,
+    reviewConfidence: row.reviewConfidence ?? DEFAULT_EXPENSE_POLICY.reviewConfidence,
+  };
+}
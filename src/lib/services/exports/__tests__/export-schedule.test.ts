@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { computeNextRunAt, retryDelayMs, MAX_DELIVERY_ATTEMPTS } from "../export-schedule-timing";
+import { applyFilterState, renderExport, type ExportRow } from "../export-render";
+
+const row = (overrides: Partial<ExportRow>): ExportRow => ({
+  id: "u1",
+  name: "Amal Haddad",
+  email: "amal@example.com",
+  role: "TEAM_MEMBER",
+  status: "ACTIVE",
+  department: "Audit",
+  position: "Senior",
+  createdAt: "2026-01-05T00:00:00.000Z",
+  lastLogin: "",
+  ...overrides,
+});
+
+describe("export schedule timing", () => {
+  it("runs at the schedule time in the tenant timezone", () => {
+    const after = new Date("2026-03-10T03:00:00.000Z"); // 07:00 in Dubai
+    const next = computeNextRunAt({ frequency: "daily", time: "09:00" }, after, "Asia/Dubai");
+    expect(next.toISOString()).toBe("2026-03-10T05:00:00.000Z");
+    expect(computeNextRunAt({ frequency: "daily", time: "09:00" }, next, "Asia/Dubai").toISOString()).toBe(
+      "2026-03-11T05:00:00.000Z"
+    );
+  });
+
+  it("follows daylight saving changes", () => {
+    // New York moves to EDT on 2026-03-08
+    const next = computeNextRunAt({ frequency: "daily", time: "09:00" }, new Date("2026-03-08T12:00:00.000Z"), "America/New_York");
+    expect(next.toISOString()).toBe("2026-03-08T13:00:00.000Z");
+  });
+
+  it("handles weekly, biweekly, monthly and quarterly schedules", () => {
+    const after = new Date("2026-01-31T10:00:00.000Z"); // Saturday
+    expect(computeNextRunAt({ frequency: "weekly", dayOfWeek: "monday", time: "08:30" }, after).toISOString()).toBe(
+      "2026-02-02T08:30:00.000Z"
+    );
+    expect(
+      computeNextRunAt(
+        { frequency: "biweekly", dayOfWeek: "monday", time: "08:30", lastExecutedAt: new Date("2026-01-26T08:30:00.000Z") },
+        after
+      ).toISOString()
+    ).toBe("2026-02-09T08:30:00.000Z");
+    expect(computeNextRunAt({ frequency: "monthly", dayOfMonth: 31, time: "09:00" }, after).toISOString()).toBe(
+      "2026-02-28T09:00:00.000Z"
+    );
+    expect(computeNextRunAt({ frequency: "quarterly", dayOfMonth: 1 }, after).toISOString()).toBe("2026-04-01T09:00:00.000Z");
+    expect(computeNextRunAt({ frequency: "yearly", dayOfMonth: 1 }, after).toISOString()).toBe("2027-01-01T09:00:00.000Z");
+  });
+
+  it("backs off retries and stops after the last attempt", () => {
+    expect([1, 2, 3].map((n) => retryDelayMs(n))).toEqual([300000, 600000, 1200000]);
+    expect(retryDelayMs(MAX_DELIVERY_ATTEMPTS)).toBeNull();
+  });
+});
+
+describe("export rendering", () => {
+  const rows = [
+    row({ id: "u1" }),
+    row({ id: "u2", name: "Omar Said", email: "omar@example.com", role: "ADMIN", status: "INACTIVE" }),
+    row({ id: "u3", name: "Sara (Ops)", email: "sara@example.com", department: "Ops" }),
+  ];
+
+  it("applies saved preset filters including advanced queries", () => {
+    expect(applyFilterState(rows, { roles: ["TEAM_MEMBER"], statuses: ["ACTIVE"] }).map((r) => r.id)).toEqual(["u1", "u3"]);
+    expect(applyFilterState(rows, { search: "OMAR" }).map((r) => r.id)).toEqual(["u2"]);
+    expect(
+      applyFilterState(rows, {
+        advancedQuery: { id: "g", operator: "AND", conditions: [{ id: "c", field: "department", operator: "equals", value: "ops" }] },
+      }).map((r) => r.id)
+    ).toEqual(["u3"]);
+  });
+
+  it("renders each format", () => {
+    const csv = renderExport(rows, "csv", "users").content.toString();
+    expect(csv.split("\n")[0]).toBe('"Name","Email","Role","Status","Department","Position","Created","Last Login"');
+    expect(JSON.parse(renderExport(rows, "json", "users").content.toString())).toHaveLength(3);
+    expect(renderExport(rows, "xlsx", "users").filename).toBe("users.xls");
+
+    const pdf = renderExport(rows, "pdf", "users");
+    const text = pdf.content.toString("latin1");
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text).toContain("(Sara \\(Ops\\)");
+    const xref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    expect(text.slice(xref, xref + 4)).toBe("xref");
+  });
+});
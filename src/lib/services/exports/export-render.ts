@@ -0,0 +1,199 @@
+/**
+ * Export Rendering
+ * Turns user-directory rows into the file formats an export schedule can deliver.
+ */
+
+import { toCsvCell } from "@/lib/csv-export";
+import { generateExcelXML } from "@/app/admin/users/utils/excel-exporter";
+import type { FilterState } from "@/app/admin/users/hooks/useFilterState";
+import type { FilterCondition, FilterGroup } from "@/app/admin/users/types/query-builder";
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "pdf";
+
+export interface ExportRow {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  status: string;
+  department: string;
+  position: string;
+  createdAt: string;
+  lastLogin: string;
+}
+
+export interface RenderedExport {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export const EXPORT_COLUMNS: { key: keyof ExportRow; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "email", label: "Email" },
+  { key: "role", label: "Role" },
+  { key: "status", label: "Status" },
+  { key: "department", label: "Department" },
+  { key: "position", label: "Position" },
+  { key: "createdAt", label: "Created" },
+  { key: "lastLogin", label: "Last Login" },
+];
+
+const SEARCH_FIELDS: (keyof ExportRow)[] = ["name", "email", "department", "position"];
+
+function evaluateCondition(row: ExportRow, cond: FilterCondition): boolean {
+  const fieldValue = (row as any)[cond.field];
+  const value = cond.value;
+  const text = String(fieldValue ?? "").toLowerCase();
+
+  switch (cond.operator) {
+    case "equals":
+      return text === String(value).toLowerCase();
+    case "notEquals":
+      return text !== String(value).toLowerCase();
+    case "contains":
+      return text.includes(String(value).toLowerCase());
+    case "startsWith":
+      return text.startsWith(String(value).toLowerCase());
+    case "endsWith":
+      return text.endsWith(String(value).toLowerCase());
+    case "greaterThan":
+      return compare(fieldValue, value) > 0;
+    case "lessThan":
+      return compare(fieldValue, value) < 0;
+    case "between":
+      if (!Array.isArray(value) || value.length !== 2) return true;
+      return compare(fieldValue, value[0]) >= 0 && compare(fieldValue, value[1]) <= 0;
+    case "in":
+      return Array.isArray(value) && value.some((v) => text === String(v).toLowerCase());
+    case "notIn":
+      return Array.isArray(value) && !value.some((v) => text === String(v).toLowerCase());
+    case "isEmpty":
+      return text.trim() === "";
+    case "isNotEmpty":
+      return text.trim() !== "";
+    default:
+      return true;
+  }
+}
+
+// Dates are stored as ISO strings, so compare as timestamps when both sides parse
+function compare(a: unknown, b: unknown): number {
+  const na = Number(a);
+  const nb = Number(b);
+  if (Number.isFinite(na) && Number.isFinite(nb)) return na - nb;
+  const da = Date.parse(String(a));
+  const db = Date.parse(String(b));
+  if (Number.isFinite(da) && Number.isFinite(db)) return da - db;
+  return String(a ?? "").localeCompare(String(b ?? ""));
+}
+
+function evaluateQuery(row: ExportRow, query: FilterGroup | FilterCondition): boolean {
+  if ("conditions" in query) {
+    const results = query.conditions.map((c) => evaluateQuery(row, c));
+    return query.operator === "OR" ? results.some(Boolean) : results.every(Boolean);
+  }
+  return evaluateCondition(row, query);
+}
+
+/**
+ * Apply a saved FilterState (as stored on a FilterPreset) to export rows,
+ * mirroring the admin users table filters.
+ */
+export function applyFilterState(rows: ExportRow[], filters?: Partial<FilterState> | null): ExportRow[] {
+  if (!filters) return rows;
+  const roles = filters.roles?.length ? filters.roles : filters.role ? [filters.role] : [];
+  const statuses = filters.statuses?.length ? filters.statuses : filters.status ? [filters.status] : [];
+  const search = (filters.search || "").trim().toLowerCase();
+
+  return rows.filter((row) => {
+    if (search && !SEARCH_FIELDS.some((f) => row[f].toLowerCase().includes(search))) return false;
+    if (roles.length > 0 && !roles.includes(row.role)) return false;
+    if (statuses.length > 0 && !statuses.includes(row.status)) return false;
+    if (filters.advancedQuery && !evaluateQuery(row, filters.advancedQuery)) return false;
+    return true;
+  });
+}
+
+function pdfEscape(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, "?").replace(/([\\()])/g, "\\$1");
+}
+
+/**
+ * Minimal multi-page PDF with monospaced text lines. Good enough for a
+ * tabular directory listing without pulling in a PDF library.
+ */
+export function renderTextPdf(title: string, lines: string[]): Buffer {
+  const linesPerPage = 48;
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += linesPerPage) {
+    pages.push(lines.slice(i, i + linesPerPage));
+  }
+
+  // Object 1: catalog, 2: page tree, 3: font, then a page + content stream pair per page
+  const objects: string[] = [];
+  const pageRefs = pages.map((_, i) => `${4 + i * 2} 0 R`);
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pages.length} >>`);
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>");
+
+  pages.forEach((pageLines, i) => {
+    const header = `${title} - page ${i + 1} of ${pages.length}`;
+    const body = [header, "", ...pageLines]
+      .map((line, n) => `${n === 0 ? "" : "0 -14 Td "}(${pdfEscape(line)}) Tj`)
+      .join("\n");
+    const stream = `BT /F1 8 Tf 30 800 Td\n${body}\nET`;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 842 842] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${Buffer.byteLength(stream)} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((obj, i) => {
+    offsets.push(Buffer.byteLength(pdf));
+    pdf += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+/** Render rows into the requested export format */
+export function renderExport(rows: ExportRow[], format: ExportFormat, baseName: string): RenderedExport {
+  const header = EXPORT_COLUMNS.map((c) => c.label);
+  const values = (row: ExportRow) => EXPORT_COLUMNS.map((c) => row[c.key] ?? "");
+
+  switch (format) {
+    case "json":
+      return {
+        filename: `${baseName}.json`,
+        contentType: "application/json",
+        content: Buffer.from(JSON.stringify(rows, null, 2)),
+      };
+
+    case "xlsx":
+      // SpreadsheetML 2003 workbook; Excel opens it natively under the .xls extension
+      return {
+        filename: `${baseName}.xls`,
+        contentType: "application/vnd.ms-excel",
+        content: Buffer.from(generateExcelXML([{ name: "Users", data: [header, ...rows.map(values)] }])),
+      };
+
+    case "pdf": {
+      const widths = EXPORT_COLUMNS.map((c) =>
+        Math.min(Math.max(c.label.length, ...rows.map((r) => String(r[c.key] ?? "").length)), 28)
+      );
+      const line = (cells: string[]) => cells.map((v, i) => v.slice(0, widths[i]).padEnd(widths[i])).join("  ");
+      const lines = [line(header), widths.map((w) => "-".repeat(w)).join("  "), ...rows.map((r) => line(values(r)))];
+      return { filename: `${baseName}.pdf`, contentType: "application/pdf", content: renderTextPdf(baseName, lines) };
+    }
+
+    case "csv":
+    default: {
+      const csv = [header, ...rows.map(values)].map((r) => r.map(toCsvCell).join(",")).join("\n");
+      return { filename: `${baseName}.csv`, contentType: "text/csv", content: Buffer.from(csv + "\n") };
+    }
+  }
+}
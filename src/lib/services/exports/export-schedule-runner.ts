@@ -0,0 +1,308 @@
+/**
+ * Export Schedule Runner
+ * Executes due ExportSchedule records, renders the user directory through the
+ * linked filter preset and emails the file to each recipient. Failed
+ * deliveries are retried with backoff; the owner is alerted once retries run out.
+ */
+
+import prisma from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { logAuditSafe } from "@/lib/observability-helpers";
+import { escapeHtml, sendEmail } from "@/lib/email";
+import {
+  createDefaultEmailTemplate,
+  generateEmailBody,
+  generateEmailSubject,
+  type ScheduleFrequency,
+} from "@/app/admin/users/utils/export-scheduler";
+import { applyFilterState, renderExport, type ExportFormat, type ExportRow } from "./export-render";
+import { computeNextRunAt, retryDelayMs, type ScheduleTiming } from "./export-schedule-timing";
+
+export interface ExportRunResult {
+  processed: number;
+  completed: number;
+  retrying: number;
+  failed: number;
+  retried: number;
+}
+
+type DeliveryStatus = Record<string, "sent" | "failed">;
+
+// Cap on schedules and retries handled per cron invocation
+const BATCH_SIZE = 50;
+// User directory exports are capped like report data sources
+const MAX_EXPORT_ROWS = 5000;
+
+const scheduleInclude = {
+  filterPreset: { select: { filters: true } },
+  user: { select: { email: true, name: true } },
+};
+
+type ScheduleRecord = NonNullable<Awaited<ReturnType<typeof loadSchedule>>>;
+
+function loadSchedule(id: string) {
+  return prisma.exportSchedule.findUnique({ where: { id }, include: scheduleInclude });
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "export";
+}
+
+function formatInZone(date: Date, timeZone: string, options: Intl.DateTimeFormatOptions): string {
+  try {
+    return date.toLocaleString("en-US", { ...options, timeZone });
+  } catch {
+    return date.toLocaleString("en-US", { ...options, timeZone: "UTC" });
+  }
+}
+
+export class ExportScheduleRunner {
+  /** Run every due schedule, then any deliveries whose retry has come up */
+  async runDue(now: Date = new Date()): Promise<ExportRunResult> {
+    const result: ExportRunResult = { processed: 0, completed: 0, retrying: 0, failed: 0, retried: 0 };
+
+    const due = await prisma.exportSchedule.findMany({
+      where: { isActive: true, OR: [{ nextExecutedAt: null }, { nextExecutedAt: { lte: now } }] },
+      orderBy: { nextExecutedAt: "asc" },
+      take: BATCH_SIZE,
+      select: { id: true, tenantId: true, nextExecutedAt: true },
+    });
+
+    for (const { id, tenantId, nextExecutedAt } of due) {
+      try {
+        const schedule = await loadSchedule(id);
+        if (!schedule) continue;
+        const timeZone = await this.tenantTimeZone(tenantId);
+
+        // Schedules created before the runner existed have no slot yet: plan one, don't fire
+        if (!nextExecutedAt) {
+          await prisma.exportSchedule.updateMany({
+            where: { id, nextExecutedAt: null },
+            data: { nextExecutedAt: computeNextRunAt(schedule, now, timeZone) },
+          });
+          continue;
+        }
+
+        // Claim the slot so overlapping cron invocations don't double-send
+        const claimed = await prisma.exportSchedule.updateMany({
+          where: { id, nextExecutedAt },
+          data: {
+            nextExecutedAt: computeNextRunAt({ ...schedule, lastExecutedAt: now }, now, timeZone),
+            lastExecutedAt: now,
+          },
+        });
+        if (claimed.count === 0) continue;
+
+        const execution = await prisma.exportScheduleExecution.create({
+          data: { scheduleId: id, status: "processing", executedAt: now },
+        });
+        result.processed++;
+        const status = await this.execute(schedule, execution.id, schedule.recipients, {}, 1, now, timeZone);
+        result[status]++;
+      } catch (error) {
+        logger.error("Export schedule run failed", { scheduleId: id, error });
+        result.failed++;
+      }
+    }
+
+    const retries = await prisma.exportScheduleExecution.findMany({
+      where: { status: "retrying", nextRetryAt: { lte: now } },
+      orderBy: { nextRetryAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    for (const execution of retries) {
+      try {
+        const claimed = await prisma.exportScheduleExecution.updateMany({
+          where: { id: execution.id, status: "retrying" },
+          data: { status: "processing", nextRetryAt: null },
+        });
+        if (claimed.count === 0) continue;
+
+        const schedule = await loadSchedule(execution.scheduleId);
+        if (!schedule) continue;
+        const previous = (execution.deliveryStatus || {}) as DeliveryStatus;
+        const pending = schedule.recipients.filter((r) => previous[r] !== "sent");
+        const timeZone = await this.tenantTimeZone(schedule.tenantId);
+
+        result.retried++;
+        const status = await this.execute(schedule, execution.id, pending, previous, execution.attempt + 1, now, timeZone);
+        result[status]++;
+      } catch (error) {
+        logger.error("Export delivery retry failed", { executionId: execution.id, error });
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /** First run after `now` for a new or re-timed schedule, in the tenant's timezone */
+  async planNextRun(tenantId: string, timing: ScheduleTiming, now: Date = new Date()): Promise<Date> {
+    return computeNextRunAt(timing, now, await this.tenantTimeZone(tenantId));
+  }
+
+  /** Load rows for a schedule, applying its filter preset */
+  async loadRows(schedule: ScheduleRecord): Promise<ExportRow[]> {
+    const users = await prisma.user.findMany({
+      where: { tenantId: schedule.tenantId },
+      orderBy: { createdAt: "asc" },
+      take: MAX_EXPORT_ROWS,
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        isActive: true,
+        department: true,
+        position: true,
+        createdAt: true,
+        lastLogin: true,
+      },
+    });
+
+    const rows: ExportRow[] = users.map((u) => ({
+      id: u.id,
+      name: u.name || "",
+      email: u.email,
+      role: String(u.role),
+      status: u.isActive === false ? "INACTIVE" : "ACTIVE",
+      department: u.department || "",
+      position: u.position || "",
+      createdAt: u.createdAt.toISOString(),
+      lastLogin: u.lastLogin ? u.lastLogin.toISOString() : "",
+    }));
+
+    return applyFilterState(rows, schedule.filterPreset?.filters as any);
+  }
+
+  private async tenantTimeZone(tenantId: string): Promise<string> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { tenantId },
+      select: { defaultTimezone: true },
+    });
+    return settings?.defaultTimezone || "UTC";
+  }
+
+  /**
+   * Render the export and deliver it to `recipients`, merging with earlier
+   * delivery results. Returns the execution's resulting status.
+   */
+  private async execute(
+    schedule: ScheduleRecord,
+    executionId: string,
+    recipients: string[],
+    previous: DeliveryStatus,
+    attempt: number,
+    now: Date,
+    timeZone: string
+  ): Promise<"completed" | "retrying" | "failed"> {
+    const deliveryStatus: DeliveryStatus = { ...previous };
+    let recordCount = 0;
+    let fileSizeBytes: number | null = null;
+    let fileName: string | null = null;
+    const errors: string[] = [];
+
+    try {
+      const rows = await this.loadRows(schedule);
+      recordCount = rows.length;
+      const dateLabel = formatInZone(now, timeZone, { year: "numeric", month: "2-digit", day: "2-digit" });
+      const file = renderExport(rows, schedule.format as ExportFormat, `${slug(schedule.name)}-${now.toISOString().slice(0, 10)}`);
+      fileSizeBytes = file.content.length;
+      fileName = file.filename;
+
+      const template = createDefaultEmailTemplate(schedule.frequency as ScheduleFrequency);
+      const month = formatInZone(now, timeZone, { year: "numeric", month: "long" });
+      const monthNumber = Number(formatInZone(now, timeZone, { month: "numeric" }));
+      const year = formatInZone(now, timeZone, { year: "numeric" });
+      const variables: Record<string, string> = {
+        export_date: dateLabel,
+        export_time: formatInZone(now, timeZone, { dateStyle: "medium", timeStyle: "short" }),
+        export_month: month,
+        export_quarter: `Q${Math.ceil(monthNumber / 3)} ${year}`,
+        export_year: year,
+        export_format: schedule.format.toUpperCase(),
+        record_count: String(recordCount),
+        active_count: String(rows.filter((r) => r.status === "ACTIVE").length),
+        inactive_count: String(rows.filter((r) => r.status === "INACTIVE").length),
+        suspended_count: String(rows.filter((r) => r.status === "SUSPENDED").length),
+        new_user_count: String(rows.filter((r) => r.createdAt.slice(0, 4) === year).length),
+      };
+      const subject = generateEmailSubject(schedule.emailSubject || template.subject, variables);
+      const body = generateEmailBody(schedule.emailBody || template.body, variables);
+
+      for (const recipient of recipients) {
+        try {
+          await sendEmail({
+            to: recipient,
+            subject,
+            html: `<div style="font-family: Arial, sans-serif; white-space: pre-line;">${escapeHtml(body)}</div>`,
+            text: body,
+            attachments: [{ filename: file.filename, content: file.content, type: file.contentType }],
+          });
+          deliveryStatus[recipient] = "sent";
+        } catch (error) {
+          deliveryStatus[recipient] = "failed";
+          errors.push(`${recipient}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    } catch (error) {
+      // Rendering failed, so nobody still pending received anything
+      for (const recipient of recipients) deliveryStatus[recipient] = "failed";
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    const delay = errors.length > 0 ? retryDelayMs(attempt) : null;
+    const status = errors.length === 0 ? "completed" : delay !== null ? "retrying" : "failed";
+
+    await prisma.exportScheduleExecution.update({
+      where: { id: executionId },
+      data: {
+        status,
+        attempt,
+        recordCount,
+        fileSizeBytes,
+        fileName,
+        deliveryStatus,
+        errorMessage: errors.length > 0 ? errors.join("; ").slice(0, 2000) : null,
+        nextRetryAt: status === "retrying" ? new Date(now.getTime() + delay!) : null,
+        completedAt: status === "retrying" ? null : now,
+      },
+    });
+
+    await logAuditSafe({
+      tenantId: schedule.tenantId,
+      userId: schedule.userId,
+      action: `export.schedule.${status}`,
+      resource: `ExportSchedule:${schedule.id}`,
+      metadata: { executionId, attempt, recordCount, recipients: recipients.length, errors: errors.length },
+    });
+
+    if (status === "failed") {
+      await this.alertOwner(schedule, executionId, attempt, errors);
+    }
+
+    return status;
+  }
+
+  private async alertOwner(schedule: ScheduleRecord, executionId: string, attempts: number, errors: string[]) {
+    const owner = schedule.user?.email;
+    if (!owner) return;
+    try {
+      await sendEmail({
+        to: owner,
+        subject: `Scheduled export "${schedule.name}" failed`,
+        html: `
+          <p>Hello ${escapeHtml(schedule.user?.name || "")},</p>
+          <p>The scheduled export <strong>${escapeHtml(schedule.name)}</strong> could not be delivered after ${attempts} attempt(s).</p>
+          <ul>${errors.map((e) => `<li>${escapeHtml(e)}</li>`).join("")}</ul>
+          <p>Execution reference: ${executionId}</p>
+        `,
+      });
+    } catch (error) {
+      logger.error("Export failure alert could not be sent", { scheduleId: schedule.id, error });
+    }
+  }
+}
+
+export const exportScheduleRunner = new ExportScheduleRunner();
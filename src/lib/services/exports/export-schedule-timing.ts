@@ -0,0 +1,132 @@
+/**
+ * Export Schedule Timing
+ * Computes the next run of an export schedule in the tenant's timezone and
+ * the backoff used when a delivery has to be retried.
+ */
+
+import { getOffsetMinutes, zonedTimeToUtc } from "@/lib/timezone-helper";
+
+export type ScheduleFrequency = "daily" | "weekly" | "biweekly" | "monthly" | "quarterly" | "yearly";
+
+export interface ScheduleTiming {
+  frequency: string;
+  dayOfWeek?: string | null;
+  dayOfMonth?: number | null;
+  time?: string | null;
+  lastExecutedAt?: Date | null;
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 4;
+
+const RETRY_BASE_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// Quarterly and yearly schedules run in the same months as generateCronExpression
+const QUARTER_MONTHS = [1, 4, 7, 10];
+
+function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Calendar date of an instant as seen in the given timezone */
+function localDate(date: Date, tz: string): { year: number; month: number; day: number; weekday: number } {
+  const shifted = new Date(date.getTime() + getOffsetMinutes(tz, date) * 60000);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    weekday: shifted.getUTCDay(),
+  };
+}
+
+function parseTime(time?: string | null): [number, number] {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time || "");
+  return match ? [Number(match[1]), Number(match[2])] : [9, 0];
+}
+
+/**
+ * Next time the schedule should run strictly after `after`, at the schedule's
+ * HH:mm wall-clock time in `timeZone`. Day-of-month values past the end of a
+ * month clamp to its last day.
+ */
+export function computeNextRunAt(schedule: ScheduleTiming, after: Date, timeZone = "UTC"): Date {
+  const tz = isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const [hour, minute] = parseTime(schedule.time);
+  const today = localDate(after, tz);
+  const at = (year: number, month: number, day: number) => zonedTimeToUtc(year, month, day, hour, minute, tz);
+  // Day arithmetic happens on a UTC calendar date so month/year rollover is handled by Date
+  const addDays = (n: number) => {
+    const d = new Date(Date.UTC(today.year, today.month - 1, today.day + n));
+    return at(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+  };
+  const onDay = (year: number, month: number) => {
+    const normalized = new Date(Date.UTC(year, month - 1, 1));
+    const y = normalized.getUTCFullYear();
+    const m = normalized.getUTCMonth() + 1;
+    const day = Math.min(Math.max(schedule.dayOfMonth || 1, 1), daysInMonth(y, m));
+    return at(y, m, day);
+  };
+
+  switch (schedule.frequency as ScheduleFrequency) {
+    case "weekly":
+    case "biweekly": {
+      const target = Math.max(WEEKDAYS.indexOf((schedule.dayOfWeek || "monday").toLowerCase()), 0);
+      let offset = (target - today.weekday + 7) % 7;
+      let next = addDays(offset);
+      if (next <= after) next = addDays((offset += 7));
+      if (schedule.frequency === "biweekly" && schedule.lastExecutedAt) {
+        // Skip the off week: the previous run must be at least a fortnight back
+        while (next.getTime() - schedule.lastExecutedAt.getTime() < 14 * DAY_MS - DAY_MS / 2) {
+          next = addDays((offset += 7));
+        }
+      }
+      return next;
+    }
+
+    case "monthly": {
+      let next = onDay(today.year, today.month);
+      if (next <= after) next = onDay(today.year, today.month + 1);
+      return next;
+    }
+
+    case "quarterly": {
+      for (let i = 0; i < 5; i++) {
+        const next = onDay(today.year, today.month + i);
+        const month = ((today.month + i - 1) % 12) + 1;
+        if (QUARTER_MONTHS.includes(month) && next > after) return next;
+      }
+      return onDay(today.year, today.month + 3);
+    }
+
+    case "yearly": {
+      const next = onDay(today.year, 1);
+      return next > after ? next : onDay(today.year + 1, 1);
+    }
+
+    case "daily":
+    default: {
+      const next = addDays(0);
+      return next > after ? next : addDays(1);
+    }
+  }
+}
+
+/**
+ * Delay before delivery attempt `attempt + 1`: 5, 10, 20 minutes, then give up.
+ * Returns null once MAX_DELIVERY_ATTEMPTS have been made.
+ */
+export function retryDelayMs(attempt: number): number | null {
+  if (attempt >= MAX_DELIVERY_ATTEMPTS) return null;
+  return RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0);
+}
@@ -196,6 +196,9 @@ export function sanitizeServiceData(data: Partial<ServiceFormData>): Partial<Ser
   if (data.bufferTime !== undefined) {
     out.bufferTime = data.bufferTime === null ? null : Math.max(0, Number(data.bufferTime))
   }
+  if (data.groupCapacity !== undefined) {
+    out.groupCapacity = data.groupCapacity === null ? null : Math.max(2, Number(data.groupCapacity))
+  }
   if (data.businessHours !== undefined) {
     out.businessHours = data.businessHours ?? null
   }
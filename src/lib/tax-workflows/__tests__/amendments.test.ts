@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  amendmentPackage,
+  compareVersions,
+  filingDueDate,
+  latePaymentPenalty,
+  voluntaryDisclosurePenalty,
+  type FilingVersion,
+} from '../amendments'
+
+function version(overrides: Partial<FilingVersion>): FilingVersion {
+  return {
+    id: 'filing-1',
+    version: 1,
+    status: 'SUBMITTED',
+    taxAmount: 0,
+    data: {},
+    calculations: {},
+    submittedAt: new Date('2026-04-20T00:00:00Z'),
+    createdAt: new Date('2026-04-15T00:00:00Z'),
+    amendmentReason: null,
+    ...overrides,
+  }
+}
+
+const box = (key: string, amount: number, tax: number) => ({ box: key, label: `Box ${key}`, amount, tax, lineCount: 1 })
+
+describe('filingDueDate', () => {
+  it('applies each authority\'s deadline', () => {
+    const quarterEnd = new Date('2026-03-31T00:00:00Z')
+    expect(filingDueDate('AE', 'VAT', quarterEnd).toISOString()).toBe('2026-04-28T00:00:00.000Z')
+    expect(filingDueDate('SA', 'VAT', quarterEnd).toISOString()).toBe('2026-04-30T00:00:00.000Z')
+    expect(filingDueDate('AE', 'CORPORATE_TAX', new Date('2025-12-31T00:00:00Z')).toISOString()).toBe('2026-09-30T00:00:00.000Z')
+  })
+})
+
+describe('penalties', () => {
+  it('charges UAE late payment at 2% plus 4% per full month', () => {
+    const penalty = latePaymentPenalty('AE', 1000, new Date('2026-04-28T00:00:00Z'), new Date('2026-07-01T00:00:00Z'))
+    expect(penalty).toMatchObject({ rate: 0.1, amount: 100 })
+  })
+
+  it('caps UAE late payment at 300%', () => {
+    const penalty = latePaymentPenalty('AE', 1000, new Date('2020-01-28T00:00:00Z'), new Date('2026-07-01T00:00:00Z'))
+    expect(penalty?.amount).toBe(3000)
+  })
+
+  it('charges KSA late payment per started 30 days', () => {
+    const penalty = latePaymentPenalty('SA', 1000, new Date('2026-04-30T00:00:00Z'), new Date('2026-06-15T00:00:00Z'))
+    expect(penalty).toMatchObject({ rate: 0.02, amount: 20 })
+  })
+
+  it('charges nothing before the due date or on a refund', () => {
+    expect(latePaymentPenalty('SA', 1000, new Date('2026-04-30T00:00:00Z'), new Date('2026-04-15T00:00:00Z'))?.amount).toBe(0)
+    expect(voluntaryDisclosurePenalty(-500, new Date('2026-04-28T00:00:00Z'), new Date('2026-07-01T00:00:00Z')).amount).toBe(0)
+    expect(latePaymentPenalty('EG', 1000, new Date('2026-04-30T00:00:00Z'), new Date('2026-06-15T00:00:00Z'))).toBeNull()
+  })
+
+  it('charges the UAE disclosure penalty for each started month', () => {
+    const penalty = voluntaryDisclosurePenalty(1000, new Date('2026-04-28T00:00:00Z'), new Date('2026-07-01T00:00:00Z'))
+    expect(penalty).toMatchObject({ rate: 0.03, amount: 30 })
+  })
+})
+
+describe('compareVersions', () => {
+  it('diffs data and calculations and the tax payable', () => {
+    const before = version({ taxAmount: 500, data: { outputTax: 500, inputTax: 0 }, calculations: { taxAmount: 500 } })
+    const after = version({ id: 'filing-2', version: 2, taxAmount: 650, data: { outputTax: 650, inputTax: 0 }, calculations: { taxAmount: 650 } })
+    expect(compareVersions(before, after)).toEqual({
+      taxDelta: 150,
+      data: [{ path: 'outputTax', before: 500, after: 650, type: 'changed' }],
+      calculations: [{ path: 'taxAmount', before: 500, after: 650, type: 'changed' }],
+    })
+  })
+})
+
+describe('amendmentPackage', () => {
+  const original = version({ taxAmount: 5000, data: { vatReturn: { boxes: [box('1a', 100000, 5000), box('9', 0, 0)] } } })
+  const corrected = version({
+    id: 'filing-2',
+    version: 2,
+    status: 'DRAFT',
+    submittedAt: null,
+    taxAmount: 20000,
+    amendmentReason: 'Missed sales invoices',
+    data: { vatReturn: { boxes: [box('1a', 400000, 20000), box('9', 0, 0)] } },
+  })
+  const input = {
+    country: 'AE' as const,
+    taxType: 'VAT',
+    taxpayer: { name: 'Gulf Trading LLC', taxNumber: '100000000000003' },
+    period: { start: new Date('2026-01-01T00:00:00Z'), end: new Date('2026-03-31T00:00:00Z') },
+    dueDate: new Date('2026-04-28T00:00:00Z'),
+    original,
+    corrected,
+    asOf: new Date('2026-07-01T00:00:00Z'),
+  }
+
+  it('builds a UAE voluntary disclosure with the changed boxes and penalties', () => {
+    const pkg = amendmentPackage(input)
+    expect(pkg.type).toBe('VOLUNTARY_DISCLOSURE')
+    expect(pkg.taxDelta).toBe(15000)
+    expect(pkg.correctInNextReturn).toBe(false)
+    expect(pkg.reason).toBe('Missed sales invoices')
+    expect(pkg.boxes).toEqual([
+      { box: '1a', label: 'Box 1a', original: { amount: 100000, tax: 5000 }, corrected: { amount: 400000, tax: 20000 }, difference: { amount: 300000, tax: 15000 } },
+    ])
+    expect(pkg.penalties).toMatchObject({ latePayment: { amount: 1500 }, disclosure: { amount: 450 }, total: 1950 })
+  })
+
+  it('allows small VAT errors to be corrected in the next return', () => {
+    const pkg = amendmentPackage({ ...input, country: 'SA', corrected: { ...corrected, taxAmount: 9000 } })
+    expect(pkg.type).toBe('AMENDED_RETURN')
+    expect(pkg.correctInNextReturn).toBe(true)
+    expect(pkg.penalties.disclosure).toBeNull()
+    expect(pkg.notes.some((n) => n.includes('box 14'))).toBe(true)
+  })
+
+  it('is only available for UAE and KSA filings', () => {
+    expect(() => amendmentPackage({ ...input, country: 'EG' })).toThrow('only available for UAE and KSA')
+  })
+})
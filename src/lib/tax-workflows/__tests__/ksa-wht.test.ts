@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import {
+  aggregateByVendor,
+  certificateLines,
+  computeBillWithholding,
+  resolveWhtRate,
+  whtReturnFromVendors,
+  type TreatyRate,
+  type WhtPayment,
+} from '../ksa-wht'
+import { KSAWHTWorkflow } from '../ksa-workflows'
+
+const treaty: TreatyRate = {
+  id: 'treaty-1',
+  paymentType: 'ROYALTIES',
+  rate: 5,
+  treatyCountry: 'GB',
+  validFrom: new Date('2024-01-01'),
+  validTo: new Date('2025-12-31'),
+}
+
+const context = { payerCountry: 'SA', vendorCountry: 'GB', treatyRates: [treaty], date: new Date('2025-03-15') }
+
+describe('resolveWhtRate', () => {
+  it('applies the statutory rate to non-residents', () => {
+    expect(resolveWhtRate('MANAGEMENT_FEES', context)).toEqual({ rate: 20, statutoryRate: 20, treatyRateId: null })
+    expect(resolveWhtRate('TECHNICAL_SERVICES', context).rate).toBe(5)
+  })
+
+  it('applies a lower treaty rate while it is valid', () => {
+    expect(resolveWhtRate('ROYALTIES', context)).toEqual({ rate: 5, statutoryRate: 15, treatyRateId: 'treaty-1' })
+    expect(resolveWhtRate('ROYALTIES', { ...context, date: new Date('2026-01-15') }).rate).toBe(15)
+    expect(resolveWhtRate('ROYALTIES', { ...context, vendorCountry: 'US' }).rate).toBe(15)
+  })
+
+  it('never raises the statutory rate', () => {
+    const higher = { ...treaty, paymentType: 'RENT', rate: 10 }
+    expect(resolveWhtRate('RENT', { ...context, treatyRates: [higher] })).toEqual({ rate: 5, statutoryRate: 5, treatyRateId: null })
+  })
+
+  it('withholds nothing from residents or for payers outside KSA', () => {
+    expect(resolveWhtRate('ROYALTIES', { ...context, vendorCountry: 'SA' }).rate).toBe(0)
+    expect(resolveWhtRate('ROYALTIES', { ...context, payerCountry: 'AE' }).rate).toBe(0)
+  })
+
+  it('applies the statutory rate, without treaty relief, when the vendor country is unknown', () => {
+    expect(resolveWhtRate('ROYALTIES', { ...context, vendorCountry: null })).toEqual({ rate: 15, statutoryRate: 15, treatyRateId: null })
+    expect(resolveWhtRate('ROYALTIES', { ...context, vendorCountry: '' }).rate).toBe(15)
+  })
+})
+
+describe('computeBillWithholding', () => {
+  it('withholds per line and pays the vendor net', () => {
+    const result = computeBillWithholding(
+      [
+        { description: 'Software licence', amount: 10000, whtPaymentType: 'ROYALTIES' },
+        { description: 'Group management charge', amount: 5000, whtPaymentType: 'MANAGEMENT_FEES' },
+        { description: 'Travel recharge', amount: 1000 },
+      ],
+      context
+    )
+    expect(result.lines.map((l) => [l.whtRate, l.whtAmount, l.whtTreatyRateId])).toEqual([
+      [5, 500, 'treaty-1'],
+      [20, 1000, null],
+      [0, 0, null],
+    ])
+    expect(result).toMatchObject({ gross: 16000, whtAmount: 1500, netPayable: 14500 })
+  })
+})
+
+describe('monthly WHT return', () => {
+  const payments: WhtPayment[] = [
+    {
+      billId: 'bill-1',
+      billNumber: 'INV-1',
+      paidAt: new Date('2025-03-05'),
+      partyId: 'party-uk',
+      vendorName: 'London Software Ltd',
+      vendorCountry: 'GB',
+      vendorTaxId: 'GB123',
+      lines: [{ description: 'Licence', amount: 10000, whtPaymentType: 'ROYALTIES', whtRate: 5, whtAmount: 500 }],
+    },
+    {
+      billId: 'bill-2',
+      billNumber: 'INV-2',
+      paidAt: new Date('2025-03-20'),
+      partyId: 'party-uk',
+      vendorName: 'London Software Ltd',
+      vendorCountry: 'GB',
+      vendorTaxId: 'GB123',
+      lines: [
+        { description: 'Licence', amount: 4000, whtPaymentType: 'ROYALTIES', whtRate: 5, whtAmount: 200 },
+        { description: 'Consulting', amount: 2000, whtPaymentType: 'TECHNICAL_SERVICES', whtRate: 5, whtAmount: 100 },
+      ],
+    },
+    {
+      billId: 'bill-3',
+      billNumber: null,
+      paidAt: new Date('2025-03-25'),
+      partyId: null,
+      vendorName: 'Cairo Freight',
+      vendorCountry: null,
+      vendorTaxId: null,
+      lines: [{ description: 'Freight', amount: 3000, whtPaymentType: null, whtRate: 0, whtAmount: 0 }],
+    },
+  ]
+
+  it('aggregates withholding by vendor and payment type', () => {
+    const vendors = aggregateByVendor(payments)
+    expect(vendors).toHaveLength(1)
+    expect(vendors[0]).toMatchObject({ partyId: 'party-uk', amount: 16000, whtAmount: 800, billIds: ['bill-1', 'bill-2'] })
+    expect(vendors[0].byPaymentType).toEqual([
+      { paymentType: 'ROYALTIES', whtPercentage: 5, amount: 14000, whtAmount: 700 },
+      { paymentType: 'TECHNICAL_SERVICES', whtPercentage: 5, amount: 2000, whtAmount: 100 },
+    ])
+  })
+
+  it('builds a return the WHT workflow accepts', () => {
+    const filing = whtReturnFromVendors(aggregateByVendor(payments))
+    expect(filing.totalWHT).toBe(800)
+    expect(filing.whtTransactions.map((t) => t.serviceDescription)).toEqual(['Royalties', 'Technical and consulting services'])
+
+    const workflow = new KSAWHTWorkflow()
+    expect(workflow.validateWHTFiling(filing).isValid).toBe(true)
+    expect(workflow.calculateWHT(filing).taxAmount).toBe(800)
+  })
+
+  it('lists each payment on the vendor certificate', () => {
+    const lines = certificateLines({
+      number: 'WHT-202503-202503-PARTYUK',
+      payer: { name: 'Riyadh Trading Co', taxNumber: '300000000000003', country: 'SA' },
+      vendor: { name: 'London Software Ltd', country: 'GB', taxId: 'GB123' },
+      periodStart: '2025-03-01',
+      periodEnd: '2025-03-31',
+      payments: [{ billNumber: 'INV-1', paidAt: '2025-03-05', paymentType: 'ROYALTIES', amount: 10000, whtPercentage: 5, whtAmount: 500 }],
+      totalAmount: 10000,
+      totalWHT: 500,
+      currency: 'SAR',
+    })
+    expect(lines).toContain('Beneficiary: London Software Ltd')
+    expect(lines.find((l) => l.startsWith('2025-03-05'))).toContain('SAR 500.00')
+    expect(lines).toContain('Total tax withheld: SAR 500.00')
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { buildZakatWorksheet, ledgerZakatLines, type LedgerBalance, type ZakatWorksheetInput } from '../ksa-zakat'
+import { KSAZakatWorkflow } from '../ksa-workflows'
+
+const balances: LedgerBalance[] = [
+  { accountId: 'acc-capital', code: '3000', name: 'Share capital', type: 'EQUITY', subtype: 'capital', amount: 1000000 },
+  { accountId: 'acc-retained', code: '3100', name: 'Retained earnings', type: 'EQUITY', subtype: 'retained', amount: 500000 },
+  { accountId: 'acc-eosb', code: '2600', name: 'End of service benefits', type: 'LIABILITY', subtype: 'provision', amount: 100000 },
+  { accountId: 'acc-ap', code: '2000', name: 'Accounts payable', type: 'LIABILITY', subtype: 'payable', amount: 250000 },
+  { accountId: 'acc-ppe', code: '1500', name: 'Equipment', type: 'ASSET', subtype: 'fixed', amount: 600000 },
+  { accountId: 'acc-vehicles', code: '1510', name: 'Vehicles', type: 'ASSET', subtype: 'fixed', amount: 200000 },
+  { accountId: 'acc-bank', code: '1000', name: 'Bank', type: 'ASSET', subtype: 'bank', amount: 900000 },
+]
+
+const netProfit = { entityId: 'ent-1', from: '2025-01-01', to: '2025-12-31', amount: 300000 }
+
+function input(overrides: Partial<ZakatWorksheetInput> = {}): ZakatWorksheetInput {
+  return {
+    periodStart: '2025-01-01',
+    periodEnd: '2025-12-31',
+    calendar: 'GREGORIAN',
+    saudiGccOwnershipPercent: 100,
+    lines: ledgerZakatLines(balances, netProfit),
+    ...overrides,
+  }
+}
+
+describe('ledgerZakatLines', () => {
+  it('groups balance sheet accounts into worksheet lines with their sources', () => {
+    const lines = ledgerZakatLines(balances, netProfit)
+    expect(lines.map((l) => [l.key, l.section, l.amount])).toEqual([
+      ['capital', 'ADDITION', 1000000],
+      ['retained-earnings', 'ADDITION', 500000],
+      ['provisions', 'ADDITION', 100000],
+      ['fixed-assets', 'DEDUCTION', 800000],
+      ['net-profit', 'NET_PROFIT', 300000],
+    ])
+    expect(lines[3].sources).toEqual([
+      { type: 'LEDGER_ACCOUNT', accountId: 'acc-ppe', code: '1500', name: 'Equipment', asOf: '2025-12-31', amount: 600000 },
+      { type: 'LEDGER_ACCOUNT', accountId: 'acc-vehicles', code: '1510', name: 'Vehicles', asOf: '2025-12-31', amount: 200000 },
+    ])
+    expect(lines[4].sources).toEqual([{ type: 'INCOME_STATEMENT', ...netProfit }])
+  })
+})
+
+describe('buildZakatWorksheet', () => {
+  it('splits the base between Saudi/GCC and foreign ownership', () => {
+    const worksheet = buildZakatWorksheet(input({ saudiGccOwnershipPercent: 60 }))
+    expect(worksheet.totals).toMatchObject({
+      additions: 1600000,
+      deductions: 800000,
+      adjustedNetProfit: 300000,
+      netBase: 1100000,
+      zakatBase: 1100000,
+      zakatableBase: 660000,
+      foreignShareBase: 440000,
+    })
+    expect(worksheet.warnings).toContain('40% foreign ownership is subject to income tax, not Zakat')
+  })
+
+  it('charges a full Hijri year at 2.5% and prorates a Gregorian year', () => {
+    const hijri = buildZakatWorksheet(input({ calendar: 'HIJRI', periodStart: '2025-01-01', periodEnd: '2025-12-20' }))
+    expect(hijri.totals).toMatchObject({ periodDays: 354, effectiveRate: 2.5, zakatDue: 27500 })
+
+    const gregorian = buildZakatWorksheet(input({ saudiGccOwnershipPercent: 60 }))
+    expect(gregorian.totals).toMatchObject({ periodDays: 365, effectiveRate: 2.5777, zakatDue: 17012.71 })
+  })
+
+  it('does not let the base fall below the adjusted net profit', () => {
+    const lines = input().lines.map((l) => (l.key === 'fixed-assets' ? { ...l, amount: 5000000, sources: [] } : l))
+    const worksheet = buildZakatWorksheet(input({ lines }))
+    expect(worksheet.totals.netBase).toBe(-3100000)
+    expect(worksheet.totals.zakatBase).toBe(300000)
+    expect(worksheet.warnings).toEqual([
+      'Property, plant and equipment, net: no source recorded',
+      'Deductions exceed additions; the Zakat base is the adjusted net profit',
+    ])
+  })
+
+  it('flags lines whose amount does not match their sources', () => {
+    const lines = input().lines.map((l) => (l.key === 'capital' ? { ...l, amount: 1200000 } : l))
+    expect(buildZakatWorksheet(input({ lines })).warnings).toEqual(['Paid-up capital: amount 1200000 differs from its sources (1000000)'])
+  })
+})
+
+describe('KSAZakatWorkflow with a worksheet', () => {
+  const workflow = new KSAZakatWorkflow()
+  const filing = {
+    zakat: { capitalAmount: 0, zakatBase: 0, zakatRate: 2.5, zakatAmountDue: 0 },
+    worksheet: input({ calendar: 'HIJRI', periodStart: '2025-01-01', periodEnd: '2025-12-20' }),
+  }
+
+  it('calculates from the worksheet', () => {
+    expect(workflow.calculateZakat(filing)).toEqual({
+      grossIncome: 1900000,
+      totalDeductions: 800000,
+      taxableIncome: 1100000,
+      taxRate: 2.5,
+      taxAmount: 27500,
+    })
+  })
+
+  it('validates ownership and deductions', () => {
+    expect(workflow.validateZakatFiling(filing).isValid).toBe(true)
+    const invalid = workflow.validateZakatFiling({ ...filing, worksheet: { ...filing.worksheet, saudiGccOwnershipPercent: 120 } })
+    expect(invalid.errors.map((e) => e.field)).toEqual(['worksheet.saudiGccOwnershipPercent'])
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest'
+import { computeCorporateTax, participationExempt, type CorporateTaxInput } from '../uae-corporate-tax'
+import { UAECorporateTaxWorkflow } from '../uae-workflows'
+
+function input(overrides: Partial<CorporateTaxInput>): CorporateTaxInput {
+  return {
+    periodStart: '2025-01-01',
+    periodEnd: '2025-12-31',
+    revenue: 5000000,
+    accountingIncome: 0,
+    ...overrides,
+  }
+}
+
+describe('computeCorporateTax', () => {
+  it('reconciles accounting income and applies the 0% band and loss relief', () => {
+    const schedule = computeCorporateTax(input({
+      accountingIncome: 1000000,
+      nonDeductible: { entertainment: 100000, finesAndPenalties: 20000 },
+      exemptIncome: { domesticDividends: 70000 },
+      participations: [
+        { name: 'Riyadh Holdings', ownershipPercent: 30, heldMonths: 24, subjectToTax: true, dividends: 30000 },
+        { name: 'Cayman SPV', ownershipPercent: 100, heldMonths: 24, subjectToTax: false, dividends: 10000 },
+      ],
+      losses: { broughtForward: 500000 },
+    }))
+
+    expect(schedule.adjustments).toEqual([
+      { section: 'NON_DEDUCTIBLE_EXPENDITURE', label: 'Non-deductible client entertainment expenditure', amount: 50000 },
+      { section: 'NON_DEDUCTIBLE_EXPENDITURE', label: 'Fines and penalties', amount: 20000 },
+      { section: 'EXEMPT_INCOME', label: 'Dividends from UAE resident juridical persons', amount: -70000 },
+      { section: 'EXEMPT_INCOME', label: 'Participation exemption', amount: -30000 },
+    ])
+    expect(schedule.taxableIncomeBeforeLosses).toBe(970000)
+    expect(schedule.lossRelief).toEqual({ broughtForward: 500000, utilised: 500000, incurred: 0, carriedForward: 0 })
+    expect(schedule.taxableIncome).toBe(470000)
+    expect(schedule.taxBands.map((b) => b.tax)).toEqual([0, 8550])
+    expect(schedule.taxPayable).toBe(8550)
+    expect(schedule.warnings).toEqual(['Cayman SPV: income is taxable, not subject to tax of at least 9%'])
+  })
+
+  it('limits loss relief to 75% of taxable income', () => {
+    const schedule = computeCorporateTax(input({ accountingIncome: 400000, losses: { broughtForward: 1000000 } }))
+    expect(schedule.lossRelief).toMatchObject({ utilised: 300000, carriedForward: 700000 })
+    expect(schedule.taxableIncome).toBe(100000)
+    expect(schedule.taxPayable).toBe(0)
+  })
+
+  it('forfeits losses when ownership continuity is not met', () => {
+    const schedule = computeCorporateTax(input({ accountingIncome: 400000, losses: { broughtForward: 1000000, continuityMet: false } }))
+    expect(schedule.lossRelief).toMatchObject({ utilised: 0, carriedForward: 0 })
+    expect(schedule.taxableIncome).toBe(400000)
+  })
+
+  it('disallows net interest above 30% of EBITDA and carries it forward', () => {
+    const schedule = computeCorporateTax(input({
+      accountingIncome: 10000000,
+      depreciationAndAmortisation: 5000000,
+      interest: { expense: 30000000, income: 0 },
+    }))
+    expect(schedule.interestLimitation).toMatchObject({ ebitda: 45000000, capacity: 13500000, disallowed: 16500000, carriedForward: 16500000 })
+    expect(schedule.taxableIncome).toBe(26500000)
+  })
+
+  it('treats taxable income as nil under Small Business Relief', () => {
+    const schedule = computeCorporateTax(input({
+      revenue: 2000000,
+      accountingIncome: 600000,
+      smallBusinessRelief: { elected: true },
+      losses: { broughtForward: 50000 },
+    }))
+    expect(schedule.smallBusinessRelief.eligible).toBe(true)
+    expect(schedule.taxableIncome).toBe(0)
+    expect(schedule.taxPayable).toBe(0)
+    expect(schedule.lossRelief.carriedForward).toBe(50000)
+  })
+
+  it('refuses Small Business Relief outside its periods', () => {
+    const schedule = computeCorporateTax(input({
+      periodStart: '2026-04-01',
+      periodEnd: '2027-03-31',
+      revenue: 2000000,
+      accountingIncome: 600000,
+      smallBusinessRelief: { elected: true },
+    }))
+    expect(schedule.smallBusinessRelief.eligible).toBe(false)
+    expect(schedule.taxableIncome).toBe(600000)
+    expect(schedule.warnings[0]).toContain('Small Business Relief does not apply')
+  })
+
+  it('taxes a Qualifying Free Zone Person at 0% on qualifying income only', () => {
+    const freeZone = { qualifyingIncome: 2000000, nonQualifyingRevenue: 400000, adequateSubstance: true }
+    const qualifying = computeCorporateTax(input({ revenue: 10000000, accountingIncome: 2500000, freeZone }))
+    expect(qualifying.freeZone?.qualifies).toBe(true)
+    expect(qualifying.taxPayable).toBe(45000)
+
+    const failing = computeCorporateTax(input({ revenue: 10000000, accountingIncome: 2500000, freeZone: { ...freeZone, nonQualifyingRevenue: 600000 } }))
+    expect(failing.freeZone?.qualifies).toBe(false)
+    expect(failing.taxPayable).toBe(191250)
+  })
+
+  it('consolidates a tax group and eliminates intra-group profit', () => {
+    const schedule = computeCorporateTax(input({
+      revenue: 1000000,
+      accountingIncome: 300000,
+      taxGroup: {
+        members: [{ entityId: 'sub-1', name: 'Dubai Sub', revenue: 800000, accountingIncome: 300000 }],
+        eliminations: 50000,
+      },
+    }))
+    expect(schedule.revenue).toBe(1800000)
+    expect(schedule.accountingIncome).toBe(550000)
+    expect(schedule.taxPayable).toBe(15750)
+    expect(schedule.group?.members).toEqual([{ entityId: 'sub-1', name: 'Dubai Sub', accountingIncome: 300000 }])
+  })
+
+  it('caps tax credits at the liability', () => {
+    const schedule = computeCorporateTax(input({ accountingIncome: 470000, taxCredits: { foreignTax: 20000 } }))
+    expect(schedule).toMatchObject({ taxLiability: 8550, taxCredits: 8550, taxPayable: 0 })
+  })
+})
+
+describe('participationExempt', () => {
+  it('accepts a small stake bought for at least AED 4 million', () => {
+    expect(participationExempt({ name: 'A', ownershipPercent: 2, acquisitionCost: 4000000, heldMonths: 12, subjectToTax: true }).exempt).toBe(true)
+    expect(participationExempt({ name: 'B', ownershipPercent: 50, heldMonths: 6, subjectToTax: true }).exempt).toBe(false)
+  })
+})
+
+describe('UAECorporateTaxWorkflow with a computation', () => {
+  const workflow = new UAECorporateTaxWorkflow()
+  const filing = {
+    taxableIncome: 0,
+    deductions: 0,
+    taxableProfit: 0,
+    applicableTaxRate: 9,
+    taxPayable: 0,
+    estimatedTax: 0,
+    taxDue: 0,
+    computation: input({ accountingIncome: 1375000 }),
+  }
+
+  it('computes the tax from the computation', () => {
+    expect(workflow.calculateCorporateTax(filing)).toMatchObject({ taxableIncome: 1375000, taxAmount: 90000 })
+  })
+
+  it('validates the computation instead of the summary fields', () => {
+    expect(workflow.validateCorporateTaxFiling(filing).isValid).toBe(true)
+    expect(workflow.validateCorporateTaxFiling({ ...filing, computation: { ...filing.computation, revenue: -1 } }).isValid).toBe(false)
+  })
+})
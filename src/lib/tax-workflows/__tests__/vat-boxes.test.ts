@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { buildVatReturn, vatFilingData, type VatLine, type VatTreatment } from '../vat-boxes'
+import { UAEVATWorkflow } from '../uae-workflows'
+import { KSAVATWorkflow } from '../ksa-workflows'
+
+let nextId = 1
+
+function line(direction: VatLine['direction'], treatment: VatTreatment, netAmount: number, taxAmount: number, box?: string): VatLine {
+  const id = `line-${nextId++}`
+  return {
+    source: { type: box ? 'ADJUSTMENT' : direction === 'OUTPUT' ? 'INVOICE_ITEM' : 'BILL', id, documentId: id, reference: null, date: new Date('2026-09-15'), taxCode: null },
+    direction,
+    treatment,
+    netAmount,
+    taxAmount,
+    box,
+  }
+}
+
+const boxOf = (vatReturn: ReturnType<typeof buildVatReturn>, box: string) => vatReturn.boxes.find((b) => b.box === box)!
+
+describe('buildVatReturn (UAE VAT201)', () => {
+  const lines = [
+    line('OUTPUT', 'STANDARD', 10000, 500),
+    line('OUTPUT', 'STANDARD', -1000, -50), // credit note
+    line('OUTPUT', 'EXPORT', 4000, 0),
+    line('OUTPUT', 'EXEMPT', 2000, 0),
+    line('OUTPUT', 'OUT_OF_SCOPE', 900, 0),
+    line('INPUT', 'STANDARD', 3000, 150),
+    line('INPUT', 'REVERSE_CHARGE', 1000, 50),
+    line('INPUT', 'IMPORT', 2000, 100),
+  ]
+
+  it('reports standard rated supplies under the entity emirate', () => {
+    const vatReturn = buildVatReturn('AE', lines, { emirate: 'DU' })
+    expect(boxOf(vatReturn, '1b')).toMatchObject({ amount: 9000, tax: 450, lineCount: 2 })
+    expect(boxOf(vatReturn, '1a').amount).toBe(0)
+    expect(boxOf(vatReturn, '4').amount).toBe(4000)
+    expect(boxOf(vatReturn, '5').amount).toBe(2000)
+    expect(vatReturn.warnings).toEqual([])
+  })
+
+  it('declares reverse-charge and imported supplies as due and recoverable', () => {
+    const vatReturn = buildVatReturn('AE', lines, { emirate: 'DU' })
+    expect(boxOf(vatReturn, '3')).toMatchObject({ amount: 1000, tax: 50 })
+    expect(boxOf(vatReturn, '6')).toMatchObject({ amount: 2000, tax: 100 })
+    expect(boxOf(vatReturn, '10')).toMatchObject({ amount: 3000, tax: 150 })
+    expect(boxOf(vatReturn, '12').tax).toBe(600)
+    expect(boxOf(vatReturn, '13').tax).toBe(300)
+    expect(boxOf(vatReturn, '14').tax).toBe(300)
+    expect(vatReturn.netTax).toBe(300)
+  })
+
+  it('warns when the emirate is missing', () => {
+    const vatReturn = buildVatReturn('AE', lines)
+    expect(boxOf(vatReturn, '1a').amount).toBe(9000)
+    expect(vatReturn.warnings[0]).toContain('emirate is not set')
+  })
+
+  it('keeps source lines only for the box drilled into', () => {
+    const vatReturn = buildVatReturn('AE', lines, { emirate: 'DU', includeSources: '9' })
+    expect(boxOf(vatReturn, '9').sources).toEqual([expect.objectContaining({ type: 'BILL', amount: 3000, tax: 150 })])
+    expect(boxOf(vatReturn, '1b').sources).toBeUndefined()
+  })
+
+  it('feeds the VAT workflow from the boxes', () => {
+    const vatReturn = buildVatReturn('AE', lines, { emirate: 'DU' })
+    const calculations = new UAEVATWorkflow().calculateVAT(vatFilingData(vatReturn) as any)
+    expect(calculations).toMatchObject({ taxAmount: 300, totalDeductions: 300, grossIncome: 9000 })
+  })
+})
+
+describe('buildVatReturn (ZATCA)', () => {
+  it('adds reverse-charged imports to the tax due and applies corrections and credit', () => {
+    const vatReturn = buildVatReturn('SA', [
+      line('OUTPUT', 'STANDARD', 20000, 3000),
+      line('OUTPUT', 'ZERO_RATED', 1000, 0),
+      line('OUTPUT', 'EXPORT', 5000, 0),
+      line('INPUT', 'STANDARD', 8000, 1200),
+      line('INPUT', 'IMPORT', 2000, 300),
+      line('INPUT', 'REVERSE_CHARGE', 1000, 150),
+      line('OUTPUT', 'STANDARD', 0, 100, '14'),
+      line('OUTPUT', 'STANDARD', 0, 400, '15'),
+    ])
+
+    expect(boxOf(vatReturn, '6')).toMatchObject({ amount: 26000, tax: 3000 })
+    expect(boxOf(vatReturn, '12')).toMatchObject({ amount: 11000, tax: 1650 })
+    expect(boxOf(vatReturn, '13').tax).toBe(1500)
+    expect(boxOf(vatReturn, '16').tax).toBe(1200)
+    expect(vatReturn.netTax).toBe(1200)
+
+    const calculations = new KSAVATWorkflow().calculateVAT(vatFilingData(vatReturn) as any)
+    expect(calculations.taxAmount).toBe(1200)
+  })
+
+  it('rejects adjustments to computed boxes', () => {
+    expect(() => buildVatReturn('SA', [line('OUTPUT', 'STANDARD', 0, 10, '13')])).toThrow('Box 13 cannot be adjusted')
+  })
+})
+
+describe('buildVatReturn (Egypt)', () => {
+  it('nets output and deductible tax with adjustments', () => {
+    const vatReturn = buildVatReturn('EG', [
+      line('OUTPUT', 'STANDARD', 10000, 1400),
+      line('INPUT', 'STANDARD', 5000, 700),
+      line('INPUT', 'IMPORT', 1000, 140),
+      line('INPUT', 'REVERSE_CHARGE', 500, 70),
+      line('OUTPUT', 'STANDARD', 0, -60, '10'),
+    ])
+
+    expect(boxOf(vatReturn, '8').tax).toBe(1470)
+    expect(boxOf(vatReturn, '9').tax).toBe(910)
+    expect(boxOf(vatReturn, '11').tax).toBe(500)
+    expect(vatReturn.netTax).toBe(500)
+    expect(vatReturn.taxableSupplies).toBe(10000)
+  })
+})
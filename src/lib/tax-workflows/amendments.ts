@@ -0,0 +1,227 @@
+/**
+ * Filing amendments
+ * Compares filing versions, builds the package an amendment is filed with
+ * (UAE voluntary disclosure, KSA amended return) and estimates the
+ * late-payment penalties on additional tax.
+ */
+
+import { jsonDiff, type DiffChange } from '@/lib/diff'
+import type { TaxCountry } from './types'
+
+export interface FilingVersion {
+  id: string
+  version: number
+  status: string
+  taxAmount: number
+  data: Record<string, any>
+  calculations: Record<string, any>
+  submittedAt: Date | null
+  createdAt: Date
+  amendmentReason: string | null
+}
+
+export interface VersionComparison {
+  taxDelta: number // Positive when the later version pays more tax
+  data: DiffChange[]
+  calculations: DiffChange[]
+}
+
+export interface PenaltyEstimate {
+  rate: number // Fraction of the tax the penalty is charged on
+  amount: number
+  basis: string
+}
+
+export interface AmendmentBoxChange {
+  box: string
+  label: string
+  original: { amount: number; tax: number }
+  corrected: { amount: number; tax: number }
+  difference: { amount: number; tax: number }
+}
+
+export interface AmendmentPackage {
+  type: 'VOLUNTARY_DISCLOSURE' | 'AMENDED_RETURN'
+  form: string
+  country: TaxCountry
+  taxType: string
+  taxpayer: { name: string; taxNumber: string | null }
+  period: { start: Date; end: Date }
+  dueDate: Date
+  original: { filingId: string; version: number; submittedAt: Date | null; taxAmount: number }
+  corrected: { filingId: string; version: number; taxAmount: number }
+  reason: string | null
+  taxDelta: number
+  // Small VAT errors may be corrected in the next return instead
+  correctInNextReturn: boolean
+  boxes: AmendmentBoxChange[]
+  changes: DiffChange[]
+  penalties: { latePayment: PenaltyEstimate | null; disclosure: PenaltyEstimate | null; total: number }
+  notes: string[]
+  preparedAt: Date
+}
+
+// Net VAT errors up to these amounts may be corrected in the next return
+const NEXT_RETURN_THRESHOLD: Partial<Record<TaxCountry, number>> = { AE: 10000, SA: 5000 }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/** Whole months from one date to another, counting from the day of month */
+function monthsBetween(from: Date, to: Date): number {
+  let months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth()
+  if (to.getUTCDate() < from.getUTCDate()) months--
+  return Math.max(0, months)
+}
+
+/**
+ * Statutory due date of a return for a period ending on periodEnd
+ */
+export function filingDueDate(country: TaxCountry, taxType: string, periodEnd: Date): Date {
+  const year = periodEnd.getUTCFullYear()
+  const month = periodEnd.getUTCMonth()
+  const day = periodEnd.getUTCDate()
+
+  if (country === 'AE' && taxType === 'VAT') return new Date(Date.UTC(year, month, day + 28))
+  if (country === 'AE' && taxType === 'CORPORATE_TAX') return new Date(Date.UTC(year, month + 10, 0))
+  if (country === 'SA' && taxType === 'ZAKAT') return new Date(Date.UTC(year, month, day + 120))
+  if (country === 'SA' && taxType === 'WHT') return new Date(Date.UTC(year, month + 1, 10))
+  // Last day of the following month
+  return new Date(Date.UTC(year, month + 2, 0))
+}
+
+/**
+ * Late-payment penalty on tax unpaid since dueDate. UAE: 2% the day after
+ * the due date and 4% for each further month, capped at 300%. KSA: 1% for
+ * each 30 days or part of them. Null where no estimate is available.
+ */
+export function latePaymentPenalty(country: TaxCountry, unpaidTax: number, dueDate: Date, asOf: Date): PenaltyEstimate | null {
+  if (country !== 'AE' && country !== 'SA') return null
+  const days = Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS)
+  if (unpaidTax <= 0 || days <= 0) return { rate: 0, amount: 0, basis: 'Not overdue' }
+
+  if (country === 'AE') {
+    const months = monthsBetween(dueDate, asOf)
+    const rate = Math.min(3, 0.02 + 0.04 * months)
+    return {
+      rate,
+      amount: round(unpaidTax * rate),
+      basis: `2% after the due date plus 4% for each of ${months} month(s) unpaid${rate === 3 ? ', capped at 300%' : ''}`,
+    }
+  }
+  const periods = Math.ceil(days / 30)
+  return {
+    rate: periods / 100,
+    amount: round((unpaidTax * periods) / 100),
+    basis: `1% for each of ${periods} 30-day period(s) of delay`,
+  }
+}
+
+/**
+ * UAE voluntary disclosure penalty: 1% of the additional tax for each month
+ * from the original due date to the disclosure
+ */
+export function voluntaryDisclosurePenalty(additionalTax: number, dueDate: Date, asOf: Date): PenaltyEstimate {
+  const months = asOf > dueDate ? monthsBetween(dueDate, asOf) + 1 : 0
+  if (additionalTax <= 0 || months === 0) return { rate: 0, amount: 0, basis: 'No additional tax due' }
+  return {
+    rate: months / 100,
+    amount: round((additionalTax * months) / 100),
+    basis: `1% of the difference for each of ${months} month(s) since the due date`,
+  }
+}
+
+/** What changed from one filing version to the next */
+export function compareVersions(before: FilingVersion, after: FilingVersion): VersionComparison {
+  return {
+    taxDelta: round(after.taxAmount - before.taxAmount),
+    data: jsonDiff(before.data, after.data),
+    calculations: jsonDiff(before.calculations, after.calculations),
+  }
+}
+
+type ReturnBox = { box: string; label: string; amount: number; tax: number }
+
+/** Boxes whose amount or tax differ between two generated VAT returns */
+function boxChanges(original: FilingVersion, corrected: FilingVersion): AmendmentBoxChange[] {
+  const before: ReturnBox[] = original.data.vatReturn?.boxes ?? []
+  const after: ReturnBox[] = corrected.data.vatReturn?.boxes ?? []
+  const labels = new Map([...before, ...after].map((b) => [b.box, b.label]))
+  const find = (boxes: ReturnBox[], key: string) => boxes.find((b) => b.box === key) ?? { amount: 0, tax: 0 }
+
+  return [...labels.entries()]
+    .map(([box, label]) => {
+      const was = find(before, box)
+      const now = find(after, box)
+      return {
+        box,
+        label,
+        original: { amount: was.amount, tax: was.tax },
+        corrected: { amount: now.amount, tax: now.tax },
+        difference: { amount: round(now.amount - was.amount), tax: round(now.tax - was.tax) },
+      }
+    })
+    .filter((b) => b.difference.amount !== 0 || b.difference.tax !== 0)
+}
+
+/**
+ * Package an amendment for filing: a voluntary disclosure in the UAE, an
+ * amended return in KSA
+ */
+export function amendmentPackage(input: {
+  country: TaxCountry
+  taxType: string
+  taxpayer: { name: string; taxNumber: string | null }
+  period: { start: Date; end: Date }
+  dueDate: Date
+  original: FilingVersion
+  corrected: FilingVersion
+  asOf?: Date
+}): AmendmentPackage {
+  const { country, taxType, dueDate, original, corrected } = input
+  if (country !== 'AE' && country !== 'SA') throw new Error('Amendment packages are only available for UAE and KSA filings')
+
+  const asOf = input.asOf ?? new Date()
+  const taxDelta = round(corrected.taxAmount - original.taxAmount)
+  const threshold = taxType === 'VAT' ? NEXT_RETURN_THRESHOLD[country] : undefined
+  const correctInNextReturn = threshold !== undefined && Math.abs(taxDelta) <= threshold
+  const notes: string[] = []
+
+  const latePayment = latePaymentPenalty(country, taxDelta, dueDate, asOf)
+  const disclosure = country === 'AE' ? voluntaryDisclosurePenalty(taxDelta, dueDate, asOf) : null
+
+  if (taxDelta < 0) notes.push(`The correction reduces the tax by ${-taxDelta}; the overpayment can be refunded or credited`)
+  if (correctInNextReturn) {
+    notes.push(
+      country === 'AE'
+        ? `The difference is within AED ${threshold}; it may instead be corrected in the return for the period the error was found`
+        : `The difference is within SAR ${threshold}; it may instead be reported in box 14 of the next return`
+    )
+  }
+  if (taxDelta > 0) notes.push('Penalties are estimates; the authority assesses the final amounts')
+
+  return {
+    type: country === 'AE' ? 'VOLUNTARY_DISCLOSURE' : 'AMENDED_RETURN',
+    form: country === 'AE' ? `${taxType === 'VAT' ? 'VAT' : 'CT'} Voluntary Disclosure` : `${taxType === 'ZAKAT' ? 'Zakat' : taxType} return amendment`,
+    country,
+    taxType,
+    taxpayer: input.taxpayer,
+    period: input.period,
+    dueDate,
+    original: { filingId: original.id, version: original.version, submittedAt: original.submittedAt, taxAmount: original.taxAmount },
+    corrected: { filingId: corrected.id, version: corrected.version, taxAmount: corrected.taxAmount },
+    reason: corrected.amendmentReason,
+    taxDelta,
+    correctInNextReturn,
+    boxes: boxChanges(original, corrected),
+    changes: jsonDiff(original.data, corrected.data),
+    penalties: {
+      latePayment,
+      disclosure,
+      total: round((latePayment?.amount ?? 0) + (disclosure?.amount ?? 0)),
+    },
+    notes,
+    preparedAt: asOf,
+  }
+}
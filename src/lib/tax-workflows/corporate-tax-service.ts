@@ -0,0 +1,258 @@
+/**
+ * UAE Corporate Tax returns
+ * Resolves what a computation needs from outside the period's figures:
+ * accounting income from the ledger, losses and disallowed interest carried
+ * forward by the previous return, and the members of a tax group (entities
+ * below the representative through parentEntityId, owned 95% or more as
+ * recorded in Entity.metadata.ownershipPercent).
+ */
+
+import prisma from '@/lib/prisma'
+import { financialStatementsService } from '@/lib/accounting/statements-service'
+import { UAECorporateTaxWorkflow } from './uae-workflows'
+import { saveDraftFiling } from './draft-filing'
+import {
+  CT_RATE,
+  computeCorporateTax,
+  type CorporateTaxFigures,
+  type CorporateTaxInput,
+  type CorporateTaxSchedule,
+} from './uae-corporate-tax'
+import type { UAECorporateTaxFiling } from './types'
+
+export type CorporateTaxRequest = Omit<CorporateTaxInput, 'revenue' | 'accountingIncome' | 'taxGroup'> & {
+  // Taken from the ledger's income statement when not given
+  revenue?: number
+  accountingIncome?: number
+  taxGroup?: {
+    members: Array<Omit<CorporateTaxFigures, 'revenue' | 'accountingIncome'> & { entityId: string; revenue?: number; accountingIncome?: number }>
+    eliminations?: number
+  }
+}
+
+export interface TaxGroupCandidate {
+  entityId: string
+  name: string
+  ownershipPercent: number | null // Held by the representative, directly or through other members
+  eligible: boolean
+  reasons: string[]
+}
+
+const TAX_GROUP_MIN_OWNERSHIP = 95
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+function parseJson(value: string | null): Record<string, any> {
+  if (!value) return {}
+  try {
+    return JSON.parse(value)
+  } catch {
+    return {}
+  }
+}
+
+export class UAECorporateTaxService {
+  private async uaeEntity(tenantId: string, entityId: string) {
+    const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId } })
+    if (!entity) throw new Error('Entity not found')
+    if (entity.country !== 'AE') throw new Error('Corporate Tax returns are only available for UAE entities')
+    return entity
+  }
+
+  /**
+   * Entities below the representative and whether they can join its tax
+   * group: UAE resident, not a Free Zone Person, owned 95% or more
+   */
+  async taxGroupCandidates(tenantId: string, entityId: string): Promise<TaxGroupCandidate[]> {
+    await this.uaeEntity(tenantId, entityId)
+    const candidates: TaxGroupCandidate[] = []
+    const seen = new Set([entityId])
+    let frontier: Array<{ id: string; ownership: number | null }> = [{ id: entityId, ownership: 100 }]
+
+    while (frontier.length > 0) {
+      const children = await prisma.entity.findMany({
+        where: { tenantId, parentEntityId: { in: frontier.map((f) => f.id) } },
+        select: { id: true, name: true, country: true, parentEntityId: true, metadata: true },
+      })
+      const next: typeof frontier = []
+      for (const child of children) {
+        if (seen.has(child.id)) continue
+        seen.add(child.id)
+        const metadata = (child.metadata as Record<string, any> | null) ?? {}
+        const parentOwnership = frontier.find((f) => f.id === child.parentEntityId)?.ownership ?? null
+        const own = typeof metadata.ownershipPercent === 'number' ? metadata.ownershipPercent : null
+        const ownership = own !== null && parentOwnership !== null ? round((parentOwnership * own) / 100) : null
+
+        const reasons: string[] = []
+        if (child.country !== 'AE') reasons.push('Not resident in the UAE')
+        if (metadata.qualifyingFreeZone === true) reasons.push('Qualifying Free Zone Persons cannot join a tax group')
+        if (ownership === null) reasons.push('Ownership is not recorded')
+        else if (ownership < TAX_GROUP_MIN_OWNERSHIP) reasons.push(`Owned ${ownership}%, below ${TAX_GROUP_MIN_OWNERSHIP}%`)
+
+        candidates.push({ entityId: child.id, name: child.name, ownershipPercent: ownership, eligible: reasons.length === 0, reasons })
+        next.push({ id: child.id, ownership })
+      }
+      frontier = next
+    }
+    return candidates
+  }
+
+  /** Revenue and net profit of an entity's income statement for the period */
+  private async ledgerFigures(tenantId: string, entityId: string, periodStart: string, periodEnd: string) {
+    const statement = await financialStatementsService.getStatement(tenantId, entityId, 'income-statement', {
+      from: new Date(periodStart),
+      to: new Date(periodEnd),
+    })
+    return {
+      revenue: (statement.totals.revenueCents ?? 0) / 100,
+      accountingIncome: (statement.totals.netIncomeCents ?? 0) / 100,
+      currency: statement.currency,
+    }
+  }
+
+  /** Balances carried forward by the last return filed before the period */
+  private async carriedForward(tenantId: string, entityId: string, periodStart: string) {
+    const previous = await prisma.taxFiling.findFirst({
+      where: {
+        tenantId,
+        entityId,
+        country: 'AE',
+        taxType: 'CORPORATE_TAX',
+        status: { in: ['SUBMITTED', 'ACCEPTED'] },
+        periodEndDate: { lt: new Date(periodStart) },
+      },
+      orderBy: { periodEndDate: 'desc' },
+    })
+    const schedule = parseJson(previous?.data ?? null).schedule as CorporateTaxSchedule | undefined
+    if (!previous || !schedule) return null
+    return {
+      filingId: previous.id,
+      losses: schedule.lossRelief.carriedForward,
+      interest: schedule.interestLimitation.carriedForward,
+    }
+  }
+
+  /**
+   * Resolve a request into computation inputs and compute the return
+   */
+  async compute(tenantId: string, entityId: string, request: CorporateTaxRequest) {
+    const entity = await this.uaeEntity(tenantId, entityId)
+    const warnings: string[] = []
+
+    const figuresOf = async (id: string, name: string, given: { revenue?: number; accountingIncome?: number }) => {
+      if (given.revenue !== undefined && given.accountingIncome !== undefined) {
+        return { revenue: given.revenue, accountingIncome: given.accountingIncome }
+      }
+      const ledger = await this.ledgerFigures(tenantId, id, request.periodStart, request.periodEnd)
+      if (ledger.currency !== 'AED') warnings.push(`${name}: ledger currency is ${ledger.currency}, not AED`)
+      return {
+        revenue: given.revenue ?? ledger.revenue,
+        accountingIncome: given.accountingIncome ?? ledger.accountingIncome,
+      }
+    }
+
+    let taxGroup: CorporateTaxInput['taxGroup']
+    if (request.taxGroup) {
+      const candidates = await this.taxGroupCandidates(tenantId, entityId)
+      const members = []
+      for (const member of request.taxGroup.members) {
+        const candidate = candidates.find((c) => c.entityId === member.entityId)
+        if (!candidate?.eligible) throw new Error(`Entity ${member.entityId} cannot join the tax group`)
+        members.push({ ...member, name: candidate.name, ...(await figuresOf(member.entityId, candidate.name, member)) })
+      }
+      taxGroup = { members, eliminations: request.taxGroup.eliminations }
+    }
+
+    const input: CorporateTaxInput = {
+      ...request,
+      ...(await figuresOf(entity.id, entity.name, request)),
+      taxGroup,
+    }
+
+    // Balances carried forward by a filed return take precedence over opening balances given
+    const previous = await this.carriedForward(tenantId, entityId, request.periodStart)
+    if (previous) {
+      if (request.losses?.broughtForward !== undefined && request.losses.broughtForward !== previous.losses) {
+        warnings.push(`Losses brought forward are taken from the previous return (${previous.losses})`)
+      }
+      input.losses = { broughtForward: previous.losses, continuityMet: request.losses?.continuityMet }
+      input.disallowedInterestBroughtForward = previous.interest
+    }
+
+    const schedule = computeCorporateTax(input)
+    schedule.warnings.unshift(...warnings)
+    return { input, schedule, previousFilingId: previous?.filingId ?? null }
+  }
+
+  /**
+   * Create the period's draft Corporate Tax filing, or refresh the
+   * existing draft
+   */
+  async createDraftFiling(tenantId: string, userId: string, entityId: string, request: CorporateTaxRequest) {
+    const { input, schedule, previousFilingId } = await this.compute(tenantId, entityId, request)
+    const periodStartDate = new Date(request.periodStart)
+
+    const filed = await prisma.taxFiling.findFirst({
+      where: { tenantId, entityId, taxType: 'CORPORATE_TAX', periodStartDate, status: { not: 'DRAFT' } },
+      select: { id: true },
+    })
+    if (filed) throw new Error('Corporate Tax return for this period has been submitted')
+
+    const data: UAECorporateTaxFiling = {
+      taxableIncome: schedule.revenue,
+      deductions: round(Math.max(0, schedule.revenue - schedule.taxableIncome)),
+      taxableProfit: schedule.taxableIncome,
+      applicableTaxRate: CT_RATE,
+      taxPayable: schedule.taxLiability,
+      estimatedTax: schedule.taxLiability,
+      taxDue: schedule.taxPayable,
+      computation: input,
+      schedule,
+    }
+    const workflow = new UAECorporateTaxWorkflow()
+    const validation = workflow.validateCorporateTaxFiling(data)
+    if (!validation.isValid) {
+      throw new Error(`Filing data fails validation: ${validation.errors.map((e) => e.message).join('; ')}`)
+    }
+    const calculations = workflow.calculateCorporateTax(data)
+
+    const fields = {
+      data: JSON.stringify(data),
+      calculations: JSON.stringify(calculations),
+      taxAmount: calculations.taxAmount,
+      metadata: JSON.stringify({ previousFilingId, warnings: schedule.warnings, generatedAt: new Date().toISOString() }),
+    }
+    const filing = await saveDraftFiling({
+      tenantId,
+      userId,
+      entityId,
+      country: 'AE',
+      taxType: 'CORPORATE_TAX',
+      periodStartDate,
+      periodEndDate: new Date(request.periodEnd),
+      fields,
+      auditAction: 'tax_filing.corporate_tax',
+      auditMetadata: { taxableIncome: schedule.taxableIncome, taxPayable: schedule.taxPayable, groupMembers: input.taxGroup?.members.length ?? 0 },
+    })
+    return { filing, schedule }
+  }
+}
+
+export const uaeCorporateTaxService = new UAECorporateTaxService()
+
+/**
+ * HTTP status for known Corporate Tax errors, null for unexpected ones
+ */
+export function corporateTaxErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Entity not found' || message === 'Entity not found or unauthorized') return 404
+  if (message === 'Corporate Tax return for this period has been submitted') return 409
+  if (
+    message === 'Corporate Tax returns are only available for UAE entities' ||
+    (message.startsWith('Entity ') && message.endsWith('cannot join the tax group')) ||
+    message.startsWith('Filing data fails validation') ||
+    message.startsWith('Invalid period')
+  ) return 400
+  return null
+}
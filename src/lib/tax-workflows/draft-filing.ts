@@ -0,0 +1,83 @@
+/**
+ * Draft tax filings
+ * A generated return is kept as one DRAFT filing per entity, tax type and
+ * period: generating it again refreshes that draft rather than adding
+ * another. Submitted versions are handled by the amendment service.
+ */
+
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logAudit } from '@/lib/audit'
+
+export interface DraftFilingFields {
+  data: string
+  calculations: string
+  taxAmount: number
+  metadata: string
+}
+
+export interface DraftFilingInput {
+  tenantId: string
+  userId: string
+  entityId: string
+  country: string
+  taxType: string
+  periodStartDate: Date
+  periodEndDate: Date
+  fields: DraftFilingFields
+  // Audited as `${auditAction}.generated`, or `.regenerated` when a draft is refreshed
+  auditAction: string
+  auditMetadata?: Record<string, unknown>
+}
+
+/**
+ * Create the period's draft filing, or refresh the existing draft
+ */
+export async function saveDraftFiling(input: DraftFilingInput) {
+  const { tenantId, userId, entityId, taxType, periodStartDate, fields } = input
+
+  const findDraft = () =>
+    prisma.taxFiling.findFirst({
+      where: { tenantId, entityId, taxType, periodStartDate, status: 'DRAFT' },
+      select: { id: true },
+    })
+  const refresh = (id: string) => prisma.taxFiling.update({ where: { id }, data: fields })
+
+  const draft = await findDraft()
+  let refreshed = Boolean(draft)
+  let filing
+  if (draft) {
+    filing = await refresh(draft.id)
+  } else {
+    try {
+      filing = await prisma.taxFiling.create({
+        data: {
+          tenantId,
+          entityId,
+          country: input.country,
+          taxType,
+          periodStartDate,
+          periodEndDate: input.periodEndDate,
+          status: 'DRAFT',
+          ...fields,
+        },
+      })
+    } catch (error: unknown) {
+      // A concurrent generation created the draft first (tax_filings_single_draft_key)
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error
+      const existing = await findDraft()
+      if (!existing) throw error
+      filing = await refresh(existing.id)
+      refreshed = true
+    }
+  }
+
+  await logAudit({
+    tenantId,
+    userId,
+    action: `${input.auditAction}.${refreshed ? 'regenerated' : 'generated'}`,
+    resource: `TaxFiling:${filing.id}`,
+    metadata: input.auditMetadata,
+  })
+  return filing
+}
@@ -1,10 +1,12 @@
-import { logger } from '@/lib/logger'
+import { ETA_VAT_RATE, toETADocument, type ETADocument } from '@/lib/einvoicing/eta-document'
 import {
   TaxCalculations,
   EgyptVATFiling,
   EgyptETAFiling,
+  EgyptEReceiptFiling,
   ValidationResult,
 } from './types'
+import { calculationsFromReturn } from './vat-boxes'
 
 /**
  * Egypt VAT Workflow
@@ -17,6 +19,8 @@ export class EgyptVATWorkflow {
    * Calculate Egypt VAT
    */
   calculateVAT(filing: EgyptVATFiling): TaxCalculations {
+    if (filing.vatReturn) return calculationsFromReturn(filing.vatReturn, 14)
+
     // Assuming standard 14% rate (can be adjusted per item)
     const outputTax = (filing.domesticSales * 14) / 100
     const totalInputTax = filing.inputTaxClaimable
@@ -204,59 +208,46 @@ export class EgyptETAWorkflow {
   }
 
   /**
-   * Generate ETA XML for submission
+   * Build the ETA e-invoice document (JSON v1.0) for submission; it is
+   * signed over its canonical serialization, see eta-signer.ts
    */
-  generateETAXML(filing: EgyptETAFiling): string {
+  generateETADocument(filing: EgyptETAFiling, options: { activityCode: string }): ETADocument {
+    const lineItems = filing.items.map((item, index) => ({
+      id: String(index + 1),
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount: item.discount || 0,
+      taxPercent: ETA_VAT_RATE,
+      taxAmount: item.tax || 0,
+      lineTotal: item.quantity * item.unitPrice - (item.discount || 0),
+    }))
     const totals = this.calculateTotals(filing)
 
-    const itemsXML = filing.items
-      .map(
-        (item) => `
-    <Item>
-      <Description>${this.escapeXML(item.description)}</Description>
-      <Quantity>${item.quantity}</Quantity>
-      <UnitPrice>${item.unitPrice.toFixed(2)}</UnitPrice>
-      <Discount>${(item.discount || 0).toFixed(2)}</Discount>
-      <Tax>${(item.tax || 0).toFixed(2)}</Tax>
-      <Total>${(item.totalAmount || item.quantity * item.unitPrice - (item.discount || 0) + (item.tax || 0)).toFixed(2)}</Total>
-    </Item>`
-      )
-      .join('')
-
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<Invoice>
-  <InvoiceNumber>${this.escapeXML(filing.invoiceNumber)}</InvoiceNumber>
-  <IssueDate>${filing.invoiceIssueDate.toISOString().split('T')[0]}</IssueDate>
-  <DeliveryDate>${filing.invoiceDeliveryDate.toISOString().split('T')[0]}</DeliveryDate>
-  <Seller>
-    <Name>${this.escapeXML(filing.seller.name)}</Name>
-    <VATNumber>${filing.seller.vatNumber}</VATNumber>
-    <Address>${this.escapeXML(filing.seller.address)}</Address>
-  </Seller>
-  <Buyer>
-    <Name>${this.escapeXML(filing.buyer.name)}</Name>
-    <VATNumber>${filing.buyer.vatNumber || ''}</VATNumber>
-    <Address>${this.escapeXML(filing.buyer.address)}</Address>
-  </Buyer>
-  <Items>${itemsXML}
-  </Items>
-  <Subtotal>${totals.subtotal.toFixed(2)}</Subtotal>
-  <TotalDiscount>${totals.totalDiscount.toFixed(2)}</TotalDiscount>
-  <TotalTax>${totals.totalTax.toFixed(2)}</TotalTax>
-  <Total>${totals.total.toFixed(2)}</Total>
-</Invoice>`
-  }
-
-  /**
-   * Escape XML special characters
-   */
-  private escapeXML(str: string): string {
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;')
+    return toETADocument({
+      id: filing.invoiceNumber,
+      uuid: '',
+      invoiceNumber: filing.invoiceNumber,
+      invoiceType: 'STANDARD',
+      documentType: 'INVOICE',
+      issueDate: filing.invoiceIssueDate,
+      seller: {
+        name: filing.seller.name,
+        taxNumber: filing.seller.vatNumber,
+        address: filing.seller.address,
+        activity: options.activityCode,
+      },
+      buyer: { name: filing.buyer.name, taxNumber: filing.buyer.vatNumber, address: filing.buyer.address },
+      lineItems,
+      totals: {
+        subtotal: totals.subtotal,
+        discountTotal: totals.totalDiscount,
+        taxTotal: totals.totalTax,
+        total: totals.total,
+      },
+      status: 'DRAFT',
+      createdAt: filing.invoiceIssueDate,
+    })
   }
 
   /**
@@ -277,3 +268,75 @@ Egypt ETA Invoice Filing Summary:
     `.trim()
   }
 }
+
+/**
+ * Egypt E-Receipt (B2C) Filing
+ * - Receipts are issued per POS and submitted to ETA in batches
+ * - The filing summarizes a period's receipts; rejected ones must be reissued
+ */
+export class EgyptEReceiptWorkflow {
+  /**
+   * Validate E-Receipt period filing
+   */
+  validateEReceiptFiling(filing: EgyptEReceiptFiling): ValidationResult {
+    const errors: ValidationResult['errors'] = []
+    const warnings: string[] = []
+
+    for (const field of ['receiptCount', 'returnCount', 'totalSales', 'totalReturns', 'totalTax'] as const) {
+      if (filing[field] < 0) {
+        errors.push({
+          field,
+          message: `${field} cannot be negative`,
+          severity: 'error',
+        })
+      }
+    }
+
+    if (filing.invalidCount > 0) {
+      errors.push({
+        field: 'invalidCount',
+        message: `${filing.invalidCount} receipt(s) were rejected by ETA and must be reissued`,
+        severity: 'error',
+      })
+    }
+
+    if (filing.pendingCount > 0) {
+      warnings.push(`${filing.pendingCount} receipt(s) have not been validated by ETA yet`)
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+    }
+  }
+
+  /**
+   * Calculate E-Receipt tax
+   */
+  calculateEReceipt(filing: EgyptEReceiptFiling): TaxCalculations {
+    const netSales = filing.totalSales - filing.totalReturns
+
+    return {
+      grossIncome: filing.totalSales,
+      totalDeductions: filing.totalReturns,
+      taxableIncome: netSales,
+      taxRate: ETA_VAT_RATE,
+      taxAmount: Math.max(0, filing.totalTax),
+    }
+  }
+
+  /**
+   * Generate E-Receipt summary
+   */
+  generateSummary(filing: EgyptEReceiptFiling): string {
+    return `
+Egypt E-Receipt Filing Summary:
+- Receipts: ${filing.receiptCount} (${filing.returnCount} returns)
+- Sales: EGP ${filing.totalSales.toFixed(2)}
+- Returns: EGP ${filing.totalReturns.toFixed(2)}
+- Tax: EGP ${filing.totalTax.toFixed(2)}
+- Awaiting validation: ${filing.pendingCount}
+    `.trim()
+  }
+}
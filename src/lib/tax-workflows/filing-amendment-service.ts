@@ -0,0 +1,294 @@
+/**
+ * Tax filing amendments
+ * Submitted filings are never edited: an amendment is a new filing that
+ * references the version it replaces, and submitting it marks that version
+ * AMENDED. The versions of a filing form its history; each is compared to
+ * the one before it, and an amendment can be packaged for the authority.
+ */
+
+import prisma from '@/lib/prisma'
+import { logAudit } from '@/lib/audit'
+import { calculateFiling } from './filing-calculator'
+import { vatReturnService } from './vat-return-service'
+import { vatFilingData } from './vat-boxes'
+import {
+  amendmentPackage,
+  compareVersions,
+  filingDueDate,
+  type FilingVersion,
+} from './amendments'
+import type { TaxCountry } from './types'
+
+type TaxFilingRecord = NonNullable<Awaited<ReturnType<typeof prisma.taxFiling.findFirst>>>
+
+export interface AmendmentInput {
+  reason: string
+  data?: Record<string, unknown> // Defaults to the amended version's data
+  regenerate?: boolean // Rebuild a VAT return from the current books
+}
+
+export interface SubmitFilingInput {
+  documents?: string[]
+  comments?: string
+  submittedByEmail?: string
+}
+
+// Registrations a return is filed under, in order of preference
+const REGISTRATION_TYPES: Record<string, string[]> = {
+  AE: ['TRN', 'VAT'],
+  SA: ['ZATCA', 'ZAKAT', 'WHT', 'VAT'],
+  EG: ['ETA', 'TIN', 'VAT'],
+}
+
+function parseJson(value: string | null): Record<string, any> {
+  if (!value) return {}
+  try {
+    return JSON.parse(value)
+  } catch {
+    return {}
+  }
+}
+
+function toVersion(filing: TaxFilingRecord): FilingVersion {
+  return {
+    id: filing.id,
+    version: filing.version,
+    status: filing.status,
+    taxAmount: Number(filing.taxAmount),
+    data: parseJson(filing.data),
+    calculations: parseJson(filing.calculations),
+    submittedAt: filing.submittedAt,
+    createdAt: filing.createdAt,
+    amendmentReason: filing.amendmentReason,
+  }
+}
+
+/** Calculate filing data, failing on validation errors */
+function calculate(country: string, taxType: string, data: Record<string, unknown>) {
+  const { calculations, validation } = calculateFiling(country, taxType, data)
+  if (validation && !validation.isValid) {
+    throw new Error(`Filing data fails validation: ${validation.errors.map((e) => e.message).join('; ')}`)
+  }
+  return { calculations, warnings: validation?.warnings ?? [] }
+}
+
+export class TaxFilingAmendmentService {
+  private async filing(tenantId: string, id: string) {
+    const filing = await prisma.taxFiling.findFirst({ where: { id, tenantId } })
+    if (!filing) throw new Error('Filing not found')
+    return filing
+  }
+
+  /** Every version of the filing, oldest first */
+  private async chain(tenantId: string, filing: TaxFilingRecord) {
+    const originalId = filing.originalFilingId ?? filing.id
+    return prisma.taxFiling.findMany({
+      where: { tenantId, OR: [{ id: originalId }, { originalFilingId: originalId }] },
+      orderBy: { version: 'asc' },
+    })
+  }
+
+  /**
+   * Start an amendment of a submitted filing. The new draft copies the
+   * amended version's data unless new data is given or, for VAT returns,
+   * the return is regenerated.
+   */
+  async createAmendment(tenantId: string, userId: string, filingId: string, input: AmendmentInput) {
+    const filing = await this.filing(tenantId, filingId)
+    if (filing.status === 'AMENDED') throw new Error('Filing has already been amended')
+    if (filing.status !== 'SUBMITTED' && filing.status !== 'ACCEPTED') throw new Error('Only submitted filings can be amended')
+
+    const pending = await prisma.taxFiling.findFirst({
+      where: { tenantId, amendsFilingId: filing.id, status: 'DRAFT' },
+      select: { id: true },
+    })
+    if (pending) throw new Error('An amendment of this filing is already in draft')
+
+    let data: Record<string, unknown> = input.data ?? parseJson(filing.data)
+    const metadata = parseJson(filing.metadata)
+    if (input.regenerate) {
+      if (filing.taxType !== 'VAT' || !metadata.filingPeriodId) throw new Error('Only generated VAT returns can be regenerated')
+      const generated = await vatReturnService.generate(tenantId, metadata.filingPeriodId)
+      data = vatFilingData(generated) as unknown as Record<string, unknown>
+    }
+    const { calculations, warnings } = calculate(filing.country, filing.taxType, data)
+
+    const amendment = await prisma.taxFiling.create({
+      data: {
+        tenantId,
+        entityId: filing.entityId,
+        country: filing.country,
+        taxType: filing.taxType,
+        periodStartDate: filing.periodStartDate,
+        periodEndDate: filing.periodEndDate,
+        status: 'DRAFT',
+        data: JSON.stringify(data),
+        calculations: JSON.stringify(calculations),
+        taxAmount: calculations.taxAmount || 0,
+        version: filing.version + 1,
+        originalFilingId: filing.originalFilingId ?? filing.id,
+        amendsFilingId: filing.id,
+        amendmentReason: input.reason,
+        metadata: JSON.stringify({
+          ...(metadata.filingPeriodId ? { filingPeriodId: metadata.filingPeriodId } : {}),
+          warnings,
+        }),
+      },
+    })
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'tax_filing.amendment.created',
+      resource: `TaxFiling:${amendment.id}`,
+      metadata: { amends: filing.id, version: amendment.version, taxDelta: Number(amendment.taxAmount) - Number(filing.taxAmount) },
+    })
+    return amendment
+  }
+
+  /** Replace a draft filing's data and recalculate it */
+  async updateDraft(tenantId: string, userId: string, filingId: string, data: Record<string, unknown>) {
+    const filing = await this.filing(tenantId, filingId)
+    if (filing.status !== 'DRAFT') throw new Error('Only draft filings can be edited')
+
+    const { calculations, warnings } = calculate(filing.country, filing.taxType, data)
+    const updated = await prisma.taxFiling.update({
+      where: { id: filing.id },
+      data: {
+        data: JSON.stringify(data),
+        calculations: JSON.stringify(calculations),
+        taxAmount: calculations.taxAmount || 0,
+        metadata: JSON.stringify({ ...parseJson(filing.metadata), warnings }),
+      },
+    })
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'tax_filing.draft.updated',
+      resource: `TaxFiling:${filing.id}`,
+      metadata: { taxAmount: calculations.taxAmount || 0 },
+    })
+    return updated
+  }
+
+  /**
+   * Submit a draft filing. Submitting an amendment marks the version it
+   * replaces as AMENDED.
+   */
+  async submit(tenantId: string, userId: string, filingId: string, input: SubmitFilingInput) {
+    const filing = await this.filing(tenantId, filingId)
+    if (filing.status !== 'DRAFT') throw new Error(`Cannot submit filing with status: ${filing.status}`)
+
+    const submittedAt = new Date()
+    const submit = prisma.taxFiling.update({
+      where: { id: filing.id },
+      data: {
+        status: 'SUBMITTED',
+        submittedAt,
+        submittedBy: userId,
+        attachmentIds: input.documents || [],
+        metadata: JSON.stringify({
+          ...parseJson(filing.metadata),
+          submissionComments: input.comments,
+          submissionTime: submittedAt.toISOString(),
+          submittedByEmail: input.submittedByEmail,
+        }),
+      },
+      select: {
+        id: true,
+        country: true,
+        taxType: true,
+        status: true,
+        taxAmount: true,
+        submittedAt: true,
+        version: true,
+      },
+    })
+    const [submitted] = filing.amendsFilingId
+      ? await prisma.$transaction([
+        submit,
+        prisma.taxFiling.update({ where: { id: filing.amendsFilingId }, data: { status: 'AMENDED' } }),
+      ])
+      : [await submit]
+
+    return submitted
+  }
+
+  /**
+   * The filing's versions, oldest first, each compared with the one before
+   */
+  async versions(tenantId: string, filingId: string) {
+    const filing = await this.filing(tenantId, filingId)
+    const versions = (await this.chain(tenantId, filing)).map(toVersion)
+
+    return versions.map((version, index) => ({
+      id: version.id,
+      version: version.version,
+      status: version.status,
+      taxAmount: version.taxAmount,
+      submittedAt: version.submittedAt,
+      createdAt: version.createdAt,
+      amendmentReason: version.amendmentReason,
+      changes: index > 0 ? compareVersions(versions[index - 1], version) : null,
+    }))
+  }
+
+  /**
+   * Voluntary disclosure (UAE) or amended return (KSA) for an amendment,
+   * against the version it replaces
+   */
+  async amendmentPackage(tenantId: string, filingId: string, asOf?: Date) {
+    const filing = await prisma.taxFiling.findFirst({
+      where: { id: filingId, tenantId },
+      include: { amends: true, entity: { include: { registrations: true } } },
+    })
+    if (!filing) throw new Error('Filing not found')
+    if (!filing.amends) throw new Error('Filing is not an amendment')
+
+    const country = filing.country as TaxCountry
+    const { filingPeriodId } = parseJson(filing.metadata)
+    const period = filingPeriodId
+      ? await prisma.filingPeriod.findUnique({ where: { id: filingPeriodId }, select: { dueAt: true } })
+      : null
+    const registration = (REGISTRATION_TYPES[country] ?? [])
+      .map((type) => filing.entity.registrations.find((r) => r.type === type))
+      .find(Boolean)
+
+    return amendmentPackage({
+      country,
+      taxType: filing.taxType,
+      taxpayer: { name: filing.entity.name, taxNumber: registration?.value ?? null },
+      period: { start: filing.periodStartDate, end: filing.periodEndDate },
+      dueDate: period?.dueAt ?? filingDueDate(country, filing.taxType, filing.periodEndDate),
+      original: toVersion(filing.amends),
+      corrected: toVersion(filing),
+      asOf,
+    })
+  }
+}
+
+export const taxFilingAmendmentService = new TaxFilingAmendmentService()
+
+/**
+ * HTTP status for known amendment errors, null for unexpected ones
+ */
+export function filingAmendmentErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Filing not found' || message === 'Filing period not found') return 404
+  if (
+    message === 'Filing has already been amended' ||
+    message === 'An amendment of this filing is already in draft' ||
+    message === 'Only draft filings can be edited'
+  ) return 409
+  if (
+    message === 'Only submitted filings can be amended' ||
+    message === 'Only generated VAT returns can be regenerated' ||
+    message === 'Filing is not an amendment' ||
+    message.startsWith('Filing data fails validation') ||
+    message.startsWith('Cannot submit filing with status') ||
+    message.startsWith('Amendment packages are only available')
+  ) return 400
+  return null
+}
@@ -0,0 +1,61 @@
+/**
+ * Filing calculator
+ * Validates filing data and computes its tax with the workflow of the
+ * filing's country and tax type.
+ */
+
+import { UAEVATWorkflow, UAEESRWorkflow, UAECorporateTaxWorkflow } from './uae-workflows'
+import { KSAVATWorkflow, KSAZakatWorkflow, KSAWHTWorkflow } from './ksa-workflows'
+import { EgyptVATWorkflow, EgyptETAWorkflow, EgyptEReceiptWorkflow } from './egypt-workflows'
+import type { ValidationResult } from './types'
+
+export interface FilingCalculation {
+  calculations: Record<string, any>
+  validation: ValidationResult | null // Null when no workflow covers the tax type
+}
+
+export function calculateFiling(country: string, taxType: string, data: Record<string, unknown>): FilingCalculation {
+  const input = data as any
+
+  if (country === 'AE') {
+    if (taxType === 'VAT') {
+      const workflow = new UAEVATWorkflow()
+      return { validation: workflow.validateFiling(input), calculations: workflow.calculateVAT(input) }
+    }
+    if (taxType === 'ESR') {
+      // ESR doesn't have tax amount
+      return { validation: new UAEESRWorkflow().validateESRFiling(input), calculations: { taxAmount: 0 } }
+    }
+    if (taxType === 'CORPORATE_TAX') {
+      const workflow = new UAECorporateTaxWorkflow()
+      return { validation: workflow.validateCorporateTaxFiling(input), calculations: workflow.calculateCorporateTax(input) }
+    }
+  } else if (country === 'SA') {
+    if (taxType === 'VAT') {
+      const workflow = new KSAVATWorkflow()
+      return { validation: workflow.validateFiling(input), calculations: workflow.calculateVAT(input) }
+    }
+    if (taxType === 'ZAKAT') {
+      const workflow = new KSAZakatWorkflow()
+      return { validation: workflow.validateZakatFiling(input), calculations: workflow.calculateZakat(input) }
+    }
+    if (taxType === 'WHT') {
+      const workflow = new KSAWHTWorkflow()
+      return { validation: workflow.validateWHTFiling(input), calculations: workflow.calculateWHT(input) }
+    }
+  } else if (country === 'EG') {
+    if (taxType === 'VAT') {
+      const workflow = new EgyptVATWorkflow()
+      return { validation: workflow.validateVATFiling(input), calculations: workflow.calculateVAT(input) }
+    }
+    if (taxType === 'ETA') {
+      return { validation: new EgyptETAWorkflow().validateETAInvoice(input), calculations: { taxAmount: 0 } }
+    }
+    if (taxType === 'E_RECEIPT') {
+      const workflow = new EgyptEReceiptWorkflow()
+      return { validation: workflow.validateEReceiptFiling(input), calculations: workflow.calculateEReceipt(input) }
+    }
+  }
+
+  return { validation: null, calculations: {} }
+}
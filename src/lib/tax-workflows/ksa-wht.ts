@@ -0,0 +1,254 @@
+/**
+ * KSA withholding tax on payments to non-residents
+ * Statutory rates by payment type (Income Tax Law, Article 68), replaced by
+ * a treaty rate recorded for the vendor when lower. Withholding is computed
+ * per bill line, the vendor is paid the net amount, and the tax withheld in
+ * a month is reported and remitted by the 10th of the following month.
+ */
+
+import type { KSAWHTFiling } from './types'
+
+export const WHT_PAYMENT_TYPES = [
+  'MANAGEMENT_FEES',
+  'ROYALTIES',
+  'RELATED_PARTY_SERVICES',
+  'TECHNICAL_SERVICES',
+  'RENT',
+  'AIR_TICKETS_AND_FREIGHT',
+  'INTERNATIONAL_TELECOM',
+  'DIVIDENDS',
+  'LOAN_RETURNS',
+  'INSURANCE_PREMIUMS',
+  'OTHER',
+] as const
+
+export type WhtPaymentType = (typeof WHT_PAYMENT_TYPES)[number]
+
+export const KSA_WHT_RATES: Record<WhtPaymentType, number> = {
+  MANAGEMENT_FEES: 20,
+  ROYALTIES: 15,
+  RELATED_PARTY_SERVICES: 15,
+  TECHNICAL_SERVICES: 5,
+  RENT: 5,
+  AIR_TICKETS_AND_FREIGHT: 5,
+  INTERNATIONAL_TELECOM: 5,
+  DIVIDENDS: 5,
+  LOAN_RETURNS: 5,
+  INSURANCE_PREMIUMS: 5,
+  OTHER: 15,
+}
+
+export const WHT_PAYMENT_TYPE_LABELS: Record<WhtPaymentType, string> = {
+  MANAGEMENT_FEES: 'Management fees',
+  ROYALTIES: 'Royalties',
+  RELATED_PARTY_SERVICES: 'Services paid to the head office or a related company',
+  TECHNICAL_SERVICES: 'Technical and consulting services',
+  RENT: 'Rent',
+  AIR_TICKETS_AND_FREIGHT: 'Air tickets, air and sea freight',
+  INTERNATIONAL_TELECOM: 'International telecommunication services',
+  DIVIDENDS: 'Dividends',
+  LOAN_RETURNS: 'Loan returns',
+  INSURANCE_PREMIUMS: 'Insurance and reinsurance premiums',
+  OTHER: 'Other payments',
+}
+
+export interface TreatyRate {
+  id: string
+  paymentType: string
+  rate: number
+  treatyCountry: string
+  validFrom: Date
+  validTo: Date | null
+}
+
+export interface WhtContext {
+  payerCountry: string
+  vendorCountry: string | null
+  treatyRates: TreatyRate[]
+  date: Date
+}
+
+export interface WhtRate {
+  rate: number
+  statutoryRate: number
+  treatyRateId: string | null
+}
+
+export interface BillLineInput {
+  description: string
+  amount: number
+  whtPaymentType?: WhtPaymentType | null
+}
+
+export interface WithheldLine extends BillLineInput {
+  whtRate: number
+  whtAmount: number
+  whtTreatyRateId: string | null
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Rate to withhold on a payment type. Nothing is withheld for KSA
+ * residents or payments by non-KSA payers. A vendor whose country is
+ * unknown has no residency to claim a treaty with, so the statutory rate
+ * applies.
+ */
+export function resolveWhtRate(paymentType: WhtPaymentType, context: WhtContext): WhtRate {
+  if (context.payerCountry !== 'SA' || context.vendorCountry === 'SA') {
+    return { rate: 0, statutoryRate: 0, treatyRateId: null }
+  }
+  const statutoryRate = KSA_WHT_RATES[paymentType]
+  if (!context.vendorCountry) return { rate: statutoryRate, statutoryRate, treatyRateId: null }
+  const treaty = context.treatyRates
+    .filter((t) =>
+      t.paymentType === paymentType &&
+      t.treatyCountry === context.vendorCountry &&
+      t.validFrom <= context.date &&
+      (!t.validTo || t.validTo >= context.date)
+    )
+    .sort((a, b) => a.rate - b.rate)[0]
+  // A treaty only ever reduces the statutory rate
+  if (treaty && treaty.rate < statutoryRate) {
+    return { rate: treaty.rate, statutoryRate, treatyRateId: treaty.id }
+  }
+  return { rate: statutoryRate, statutoryRate, treatyRateId: null }
+}
+
+/** Withholding on each line of a bill, and the net amount paid to the vendor */
+export function computeBillWithholding(lines: BillLineInput[], context: WhtContext) {
+  const withheld: WithheldLine[] = lines.map((line) => {
+    if (!line.whtPaymentType) return { ...line, whtRate: 0, whtAmount: 0, whtTreatyRateId: null }
+    const rate = resolveWhtRate(line.whtPaymentType, context)
+    return {
+      ...line,
+      whtRate: rate.rate,
+      whtAmount: round((line.amount * rate.rate) / 100),
+      whtTreatyRateId: rate.treatyRateId,
+    }
+  })
+  const gross = round(withheld.reduce((sum, l) => sum + l.amount, 0))
+  const whtAmount = round(withheld.reduce((sum, l) => sum + l.whtAmount, 0))
+  return { lines: withheld, gross, whtAmount, netPayable: round(gross - whtAmount) }
+}
+
+export interface WhtPayment {
+  billId: string
+  billNumber: string | null
+  paidAt: Date
+  partyId: string | null
+  vendorName: string
+  vendorCountry: string | null
+  vendorTaxId: string | null
+  lines: Array<{ description: string; amount: number; whtPaymentType: string | null; whtRate: number; whtAmount: number }>
+}
+
+export interface VendorWithholding {
+  partyId: string | null
+  vendorName: string
+  vendorCountry: string | null
+  vendorTaxId: string | null
+  amount: number
+  whtAmount: number
+  byPaymentType: Array<{ paymentType: string; whtPercentage: number; amount: number; whtAmount: number }>
+  billIds: string[]
+}
+
+const vendorKey = (payment: WhtPayment) => payment.partyId ?? `name:${payment.vendorName.trim().toLowerCase()}`
+
+/** Tax withheld on paid bills, by vendor and then payment type and rate */
+export function aggregateByVendor(payments: WhtPayment[]): VendorWithholding[] {
+  const vendors = new Map<string, VendorWithholding>()
+  for (const payment of payments) {
+    const key = vendorKey(payment)
+    const vendor = vendors.get(key) ?? {
+      partyId: payment.partyId,
+      vendorName: payment.vendorName,
+      vendorCountry: payment.vendorCountry,
+      vendorTaxId: payment.vendorTaxId,
+      amount: 0,
+      whtAmount: 0,
+      byPaymentType: [],
+      billIds: [],
+    }
+    vendors.set(key, vendor)
+    let withheld = false
+    for (const line of payment.lines) {
+      if (!line.whtPaymentType || line.whtAmount === 0) continue
+      withheld = true
+      let group = vendor.byPaymentType.find((g) => g.paymentType === line.whtPaymentType && g.whtPercentage === line.whtRate)
+      if (!group) {
+        group = { paymentType: line.whtPaymentType, whtPercentage: line.whtRate, amount: 0, whtAmount: 0 }
+        vendor.byPaymentType.push(group)
+      }
+      group.amount = round(group.amount + line.amount)
+      group.whtAmount = round(group.whtAmount + line.whtAmount)
+      vendor.amount = round(vendor.amount + line.amount)
+      vendor.whtAmount = round(vendor.whtAmount + line.whtAmount)
+    }
+    if (withheld) vendor.billIds.push(payment.billId)
+  }
+  return Array.from(vendors.values())
+    .filter((v) => v.whtAmount > 0)
+    .sort((a, b) => a.vendorName.localeCompare(b.vendorName))
+}
+
+/** The monthly WHT return for the tax withheld from vendors */
+export function whtReturnFromVendors(vendors: VendorWithholding[]): KSAWHTFiling {
+  const whtTransactions = vendors.flatMap((vendor) =>
+    vendor.byPaymentType.map((group) => ({
+      vendorName: vendor.vendorName,
+      serviceDescription: WHT_PAYMENT_TYPE_LABELS[group.paymentType as WhtPaymentType] ?? group.paymentType,
+      amount: group.amount,
+      whtPercentage: group.whtPercentage,
+      whtAmount: group.whtAmount,
+      partyId: vendor.partyId,
+      vendorCountry: vendor.vendorCountry,
+      paymentType: group.paymentType,
+    }))
+  )
+  return {
+    whtTransactions,
+    totalAmount: round(whtTransactions.reduce((sum, t) => sum + t.amount, 0)),
+    totalWHT: round(whtTransactions.reduce((sum, t) => sum + t.whtAmount, 0)),
+    vendors,
+  }
+}
+
+export interface WhtCertificate {
+  number: string
+  payer: { name: string; taxNumber: string | null; country: string }
+  vendor: { name: string; country: string | null; taxId: string | null }
+  periodStart: string
+  periodEnd: string
+  payments: Array<{ billNumber: string | null; paidAt: string; paymentType: string; amount: number; whtPercentage: number; whtAmount: number }>
+  totalAmount: number
+  totalWHT: number
+  currency: string
+}
+
+/** Text lines of a WHT certificate, for the PDF rendering */
+export function certificateLines(certificate: WhtCertificate): string[] {
+  const money = (value: number) => `${certificate.currency} ${value.toFixed(2)}`
+  return [
+    `Certificate number: ${certificate.number}`,
+    `Period: ${certificate.periodStart} to ${certificate.periodEnd}`,
+    '',
+    `Withholding agent: ${certificate.payer.name}`,
+    `Tax number: ${certificate.payer.taxNumber ?? '-'}  Country: ${certificate.payer.country}`,
+    '',
+    `Beneficiary: ${certificate.vendor.name}`,
+    `Tax ID: ${certificate.vendor.taxId ?? '-'}  Country of residence: ${certificate.vendor.country ?? '-'}`,
+    '',
+    'Payments',
+    ...certificate.payments.map((p) =>
+      `${p.paidAt}  ${(p.billNumber ?? '-').padEnd(16)} ${(WHT_PAYMENT_TYPE_LABELS[p.paymentType as WhtPaymentType] ?? p.paymentType).slice(0, 40).padEnd(40)} ${money(p.amount).padStart(18)} ${`${p.whtPercentage}%`.padStart(5)} ${money(p.whtAmount).padStart(16)}`
+    ),
+    '',
+    `Total paid: ${money(certificate.totalAmount)}`,
+    `Total tax withheld: ${money(certificate.totalWHT)}`,
+    '',
+    'The tax withheld has been or will be remitted to the Zakat, Tax and Customs Authority',
+    'by the 10th day of the month following payment.',
+  ]
+}
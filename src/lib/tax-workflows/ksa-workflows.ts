@@ -6,6 +6,8 @@ import {
   KSAWHTFiling,
   ValidationResult,
 } from './types'
+import { calculationsFromReturn } from './vat-boxes'
+import { buildZakatWorksheet, calculationsFromWorksheet, type ZakatWorksheetInput } from './ksa-zakat'
 
 /**
  * KSA VAT Workflow
@@ -18,6 +20,8 @@ export class KSAVATWorkflow {
    * Calculate KSA VAT
    */
   calculateVAT(filing: KSAVATFiling): TaxCalculations {
+    if (filing.vatReturn) return calculationsFromReturn(filing.vatReturn, 15)
+
     const {
       taxableSalesValueDomestic,
       taxableSalesValueExport,
@@ -106,6 +110,8 @@ export class KSAZakatWorkflow {
    * Calculate Zakat
    */
   calculateZakat(filing: KSAZakatFiling): TaxCalculations {
+    if (filing.worksheet) return calculationsFromWorksheet(buildZakatWorksheet(filing.worksheet))
+
     const { zakat } = filing
     const zakatAmountDue = zakat.zakatAmountDue
 
@@ -125,6 +131,8 @@ export class KSAZakatWorkflow {
     const errors: ValidationResult['errors'] = []
     const warnings: string[] = []
 
+    if (filing.worksheet) return this.validateWorksheet(filing.worksheet)
+
     const { zakat } = filing
 
     if (zakat.capitalAmount < 0) {
@@ -156,6 +164,30 @@ export class KSAZakatWorkflow {
     }
   }
 
+  private validateWorksheet(input: ZakatWorksheetInput): ValidationResult {
+    const errors: ValidationResult['errors'] = []
+
+    if (!(input.periodStart < input.periodEnd)) {
+      errors.push({ field: 'worksheet.periodEnd', message: 'Period end must be after period start', severity: 'error' })
+    }
+    if (input.saudiGccOwnershipPercent < 0 || input.saudiGccOwnershipPercent > 100) {
+      errors.push({ field: 'worksheet.saudiGccOwnershipPercent', message: 'Ownership must be between 0 and 100%', severity: 'error' })
+    }
+    input.lines.forEach((line, i) => {
+      if (line.section === 'DEDUCTION' && line.amount < 0) {
+        errors.push({ field: `worksheet.lines.${i}.amount`, message: `${line.label}: deductions cannot be negative`, severity: 'error' })
+      }
+    })
+    if (errors.length > 0) return { isValid: false, errors, warnings: [] }
+
+    const worksheet = buildZakatWorksheet(input)
+    const warnings = [...worksheet.warnings]
+    if (worksheet.totals.zakatableBase > 0 && worksheet.totals.zakatableBase < 85000) {
+      warnings.push('Zakat base is below the Nisab threshold (approximately SAR 85,000 in gold value)')
+    }
+    return { isValid: true, errors, warnings }
+  }
+
   /**
    * Generate Zakat certificate
    */
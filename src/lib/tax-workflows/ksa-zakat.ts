@@ -0,0 +1,182 @@
+/**
+ * KSA Zakat base worksheet
+ * The Zakat base is the sources of funds (equity, provisions, long-term
+ * liabilities) plus the year's adjusted net profit, less the assets they
+ * finance that are deductible (fixed assets, intangibles, investments), and
+ * never less than the adjusted net profit. Zakat is 2.5% of the share of the base owned by Saudi and GCC
+ * shareholders, per Hijri year of 354 days. Each worksheet line keeps the
+ * ledger accounts or documents it was taken from.
+ */
+
+import type { TaxCalculations } from './types'
+
+export const ZAKAT_RATE = 2.5
+export const HIJRI_YEAR_DAYS = 354
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ZakatSection = 'ADDITION' | 'DEDUCTION' | 'NET_PROFIT'
+
+export type ZakatLineSource =
+  | { type: 'LEDGER_ACCOUNT'; accountId: string; code: string; name: string; asOf: string; amount: number }
+  | { type: 'INCOME_STATEMENT'; entityId: string; from: string; to: string; amount: number }
+  | { type: 'MANUAL'; reference?: string; documentId?: string; note?: string; createdBy?: string; amount: number }
+
+export interface ZakatLine {
+  key: string
+  section: ZakatSection
+  label: string
+  amount: number
+  sources: ZakatLineSource[]
+}
+
+export interface ZakatWorksheetInput {
+  periodStart: string
+  periodEnd: string
+  calendar: 'HIJRI' | 'GREGORIAN'
+  // Share of the entity owned by Saudi and GCC shareholders; the rest is subject to income tax
+  saudiGccOwnershipPercent: number
+  lines: ZakatLine[]
+}
+
+export interface ZakatWorksheet extends ZakatWorksheetInput {
+  totals: {
+    additions: number
+    deductions: number
+    netBase: number // Additions and adjusted net profit less deductions
+    adjustedNetProfit: number
+    zakatBase: number
+    zakatableBase: number // Saudi/GCC share of the base
+    foreignShareBase: number
+    periodDays: number
+    effectiveRate: number // Percent, after proration to the period
+    zakatDue: number
+  }
+  warnings: string[]
+}
+
+// Where balance sheet accounts go on the worksheet, by account type and subtype
+const LEDGER_LINES: Array<{ type: string; subtypes: string[]; key: string; section: ZakatSection; label: string }> = [
+  { type: 'EQUITY', subtypes: ['capital'], key: 'capital', section: 'ADDITION', label: 'Paid-up capital' },
+  { type: 'EQUITY', subtypes: ['reserve', 'reserves'], key: 'reserves', section: 'ADDITION', label: 'Statutory and other reserves' },
+  { type: 'EQUITY', subtypes: ['retained'], key: 'retained-earnings', section: 'ADDITION', label: 'Retained earnings (accumulated losses)' },
+  { type: 'LIABILITY', subtypes: ['provision', 'provisions'], key: 'provisions', section: 'ADDITION', label: 'Provisions' },
+  { type: 'LIABILITY', subtypes: ['non-current'], key: 'long-term-liabilities', section: 'ADDITION', label: 'Long-term liabilities' },
+  { type: 'ASSET', subtypes: ['fixed'], key: 'fixed-assets', section: 'DEDUCTION', label: 'Property, plant and equipment, net' },
+  { type: 'ASSET', subtypes: ['intangible'], key: 'intangibles', section: 'DEDUCTION', label: 'Intangible assets, net' },
+  { type: 'ASSET', subtypes: ['investment', 'investments'], key: 'investments', section: 'DEDUCTION', label: 'Investments in entities subject to Zakat' },
+]
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export interface LedgerBalance {
+  accountId: string
+  code: string
+  name: string
+  type: string
+  subtype: string | null
+  amount: number // Natural balance: debit for assets, credit for liabilities and equity
+}
+
+/**
+ * Worksheet lines from balance sheet balances at the period end and the
+ * period's net profit
+ */
+export function ledgerZakatLines(
+  balances: LedgerBalance[],
+  netProfit: { entityId: string; from: string; to: string; amount: number }
+): ZakatLine[] {
+  const lines: ZakatLine[] = []
+  for (const definition of LEDGER_LINES) {
+    const accounts = balances
+      .filter((b) => b.type === definition.type && definition.subtypes.includes(b.subtype ?? '') && b.amount !== 0)
+      .sort((a, b) => a.code.localeCompare(b.code))
+    if (accounts.length === 0) continue
+    lines.push({
+      key: definition.key,
+      section: definition.section,
+      label: definition.label,
+      amount: round(accounts.reduce((total, a) => total + a.amount, 0)),
+      sources: accounts.map((a) => ({
+        type: 'LEDGER_ACCOUNT' as const,
+        accountId: a.accountId,
+        code: a.code,
+        name: a.name,
+        asOf: netProfit.to,
+        amount: round(a.amount),
+      })),
+    })
+  }
+  lines.push({
+    key: 'net-profit',
+    section: 'NET_PROFIT',
+    label: 'Net profit for the year',
+    amount: round(netProfit.amount),
+    sources: [{ type: 'INCOME_STATEMENT', ...netProfit, amount: round(netProfit.amount) }],
+  })
+  return lines
+}
+
+/** Days in a period, counting both its first and last day */
+export function periodDays(periodStart: string, periodEnd: string): number {
+  return Math.round((Date.parse(periodEnd.slice(0, 10)) - Date.parse(periodStart.slice(0, 10))) / DAY_MS) + 1
+}
+
+/**
+ * Compute the worksheet's totals. Gregorian and short periods are prorated
+ * to the Hijri year; a Hijri year is charged the full rate.
+ */
+export function buildZakatWorksheet(input: ZakatWorksheetInput): ZakatWorksheet {
+  const warnings: string[] = []
+  const total = (section: ZakatSection) => round(input.lines.filter((l) => l.section === section).reduce((sum, l) => sum + l.amount, 0))
+
+  for (const line of input.lines) {
+    const sourced = round(line.sources.reduce((sum, s) => sum + s.amount, 0))
+    if (line.sources.length === 0) warnings.push(`${line.label}: no source recorded`)
+    else if (sourced !== round(line.amount)) warnings.push(`${line.label}: amount ${line.amount} differs from its sources (${sourced})`)
+  }
+
+  const additions = total('ADDITION')
+  const deductions = total('DEDUCTION')
+  const adjustedNetProfit = total('NET_PROFIT')
+  const netBase = round(additions + adjustedNetProfit - deductions)
+  // The base is never less than the adjusted net profit
+  const zakatBase = round(Math.max(netBase, adjustedNetProfit, 0))
+  if (netBase < adjustedNetProfit) warnings.push('Deductions exceed additions; the Zakat base is the adjusted net profit')
+
+  const share = input.saudiGccOwnershipPercent / 100
+  const zakatableBase = round(zakatBase * share)
+  const days = periodDays(input.periodStart, input.periodEnd)
+  const proration = input.calendar === 'HIJRI' && days >= HIJRI_YEAR_DAYS ? 1 : days / HIJRI_YEAR_DAYS
+  const effectiveRate = Math.round(ZAKAT_RATE * proration * 10000) / 10000
+  if (input.calendar === 'HIJRI' && days > HIJRI_YEAR_DAYS + 1) warnings.push(`A Hijri year has ${HIJRI_YEAR_DAYS} or ${HIJRI_YEAR_DAYS + 1} days; the period has ${days}`)
+  if (share < 1) warnings.push(`${round(100 - input.saudiGccOwnershipPercent)}% foreign ownership is subject to income tax, not Zakat`)
+
+  return {
+    ...input,
+    totals: {
+      additions,
+      deductions,
+      netBase,
+      adjustedNetProfit,
+      zakatBase,
+      zakatableBase,
+      foreignShareBase: round(zakatBase - zakatableBase),
+      periodDays: days,
+      effectiveRate,
+      zakatDue: round((zakatableBase * ZAKAT_RATE * proration) / 100),
+    },
+    warnings,
+  }
+}
+
+/** A worksheet's totals as filing calculations */
+export function calculationsFromWorksheet(worksheet: ZakatWorksheet): TaxCalculations {
+  return {
+    grossIncome: round(worksheet.totals.additions + worksheet.totals.adjustedNetProfit),
+    totalDeductions: worksheet.totals.deductions,
+    taxableIncome: worksheet.totals.zakatableBase,
+    taxRate: worksheet.totals.effectiveRate,
+    taxAmount: worksheet.totals.zakatDue,
+  }
+}
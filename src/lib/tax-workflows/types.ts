@@ -3,6 +3,10 @@
  * Comprehensive types for multi-country tax filing management
  */
 
+import type { CorporateTaxInput, CorporateTaxSchedule } from './uae-corporate-tax'
+import type { ZakatWorksheetInput } from './ksa-zakat'
+import type { VendorWithholding } from './ksa-wht'
+
 export type TaxCountry = 'AE' | 'SA' | 'EG'
 export type TaxType =
   | 'VAT'
@@ -52,6 +56,18 @@ export interface TaxCalculations {
   refund?: number
 }
 
+/**
+ * Totals and boxes of a VAT return generated from tax-coded documents.
+ * When a VAT filing carries one, its tax is taken from the return.
+ */
+export interface VatReturnSummary {
+  outputTax: number
+  inputTax: number
+  netTax: number
+  taxableSupplies: number
+  boxes: Array<{ box: string; label: string; amount: number; tax: number; lineCount: number }>
+}
+
 /**
  * UAE-Specific Types
  */
@@ -73,6 +89,7 @@ export interface UAEVATFiling {
   netTax: number
   recoveryOfInputTax: number
   adjustments: number
+  vatReturn?: VatReturnSummary
 }
 
 export interface UAEESRFiling {
@@ -95,6 +112,9 @@ export interface UAECorporateTaxFiling {
   taxPayable: number
   estimatedTax: number
   taxDue: number
+  // Inputs of a full computation; when present the tax is computed from them
+  computation?: CorporateTaxInput
+  schedule?: CorporateTaxSchedule
 }
 
 /**
@@ -107,6 +127,7 @@ export interface KSAVATFiling {
   inputTaxImport: number
   netVATPayable: number
   adjustments: number
+  vatReturn?: VatReturnSummary
 }
 
 export interface KSAZakatFiling {
@@ -119,6 +140,8 @@ export interface KSAZakatFiling {
   agriculturalProduction?: number
   otherQualifyingAssets?: number
   exemptedAssets?: number
+  // Base worksheet; when present the summary figures are derived from it
+  worksheet?: ZakatWorksheetInput
 }
 
 export interface KSAWHTFiling {
@@ -128,9 +151,14 @@ export interface KSAWHTFiling {
     amount: number
     whtPercentage: number
     whtAmount: number
+    partyId?: string | null
+    vendorCountry?: string | null
+    paymentType?: string
   }>
   totalAmount: number
   totalWHT: number
+  // Withholding by vendor, with the bills it was taken from
+  vendors?: VendorWithholding[]
 }
 
 /**
@@ -142,6 +170,7 @@ export interface EgyptVATFiling {
   inputTaxClaimable: number
   outputTax: number
   netVATPayable: number
+  vatReturn?: VatReturnSummary
 }
 
 export interface EgyptETAFiling {
@@ -170,6 +199,18 @@ export interface EgyptETAFiling {
   totalAmount: number
 }
 
+/** E-receipt (B2C) totals for a period, as summarized from the issued receipts */
+export interface EgyptEReceiptFiling {
+  posSerial?: string
+  receiptCount: number
+  returnCount: number
+  totalSales: number
+  totalReturns: number
+  totalTax: number
+  pendingCount: number // Not yet validated by ETA
+  invalidCount: number // Rejected by ETA
+}
+
 /**
  * Filing Request/Response Types
  */
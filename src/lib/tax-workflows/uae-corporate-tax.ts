@@ -0,0 +1,298 @@
+/**
+ * UAE Corporate Tax computation
+ * Reconciles accounting income to taxable income (Federal Decree-Law 47 of
+ * 2022), applies interest limitation, tax loss relief, Small Business
+ * Relief and Qualifying Free Zone Person rates, and lays the result out as
+ * the schedule of the FTA Corporate Tax return.
+ */
+
+import type { TaxCalculations } from './types'
+
+export const CT_RATE = 9
+export const ZERO_RATE_BAND = 375000
+export const SBR_REVENUE_LIMIT = 3000000
+const SBR_FIRST_PERIOD_START = '2023-06-01'
+const SBR_LAST_PERIOD_END = '2026-12-31'
+const INTEREST_DE_MINIMIS = 12000000
+const INTEREST_EBITDA_SHARE = 0.3
+const LOSS_OFFSET_SHARE = 0.75
+const QFZP_DE_MINIMIS_SHARE = 0.05
+const QFZP_DE_MINIMIS_AMOUNT = 5000000
+const PARTICIPATION_MIN_OWNERSHIP = 5
+const PARTICIPATION_MIN_COST = 4000000
+const PARTICIPATION_MIN_MONTHS = 12
+// Only half of client entertainment expenditure is deductible
+const ENTERTAINMENT_DEDUCTIBLE_SHARE = 0.5
+
+export interface Participation {
+  name: string
+  ownershipPercent: number
+  acquisitionCost?: number
+  heldMonths: number
+  // Subject to corporate tax of at least 9% where it is resident
+  subjectToTax: boolean
+  dividends?: number
+  gains?: number
+}
+
+/** Financial figures of one taxable person for the period */
+export interface CorporateTaxFigures {
+  revenue: number
+  accountingIncome: number // Net profit before tax per the financial statements
+  depreciationAndAmortisation?: number
+  nonDeductible?: {
+    entertainment?: number // Client entertainment expenditure, gross
+    finesAndPenalties?: number
+    donations?: number // To bodies that are not Qualifying Public Benefit Entities
+    corporateTax?: number
+    other?: number
+  }
+  exemptIncome?: {
+    domesticDividends?: number
+    other?: number
+  }
+  participations?: Participation[]
+  interest?: { expense: number; income: number }
+  taxCredits?: { foreignTax?: number; withholdingTax?: number }
+}
+
+export interface CorporateTaxInput extends CorporateTaxFigures {
+  periodStart: string
+  periodEnd: string
+  smallBusinessRelief?: { elected: boolean; revenueExceededInPriorPeriod?: boolean }
+  mneGroupMember?: boolean
+  freeZone?: { qualifyingIncome: number; nonQualifyingRevenue: number; adequateSubstance: boolean }
+  losses?: { broughtForward: number; continuityMet?: boolean }
+  disallowedInterestBroughtForward?: number
+  // Members other than the representative (the filer), whose figures are added to its own
+  taxGroup?: { members: Array<CorporateTaxFigures & { entityId: string; name: string }>; eliminations?: number }
+}
+
+// Sections of the return's accounting income adjustments
+export type AdjustmentSection = 'EXEMPT_INCOME' | 'NON_DEDUCTIBLE_EXPENDITURE' | 'INTEREST_LIMITATION'
+
+export interface ScheduleLine {
+  section: AdjustmentSection
+  label: string
+  amount: number // Added to accounting income; negative amounts reduce it
+}
+
+export interface CorporateTaxSchedule {
+  period: { start: string; end: string }
+  revenue: number
+  accountingIncome: number
+  adjustments: ScheduleLine[]
+  taxableIncomeBeforeLosses: number
+  interestLimitation: {
+    netInterest: number
+    ebitda: number
+    capacity: number
+    disallowed: number
+    broughtForwardUsed: number
+    carriedForward: number
+  }
+  lossRelief: {
+    broughtForward: number
+    utilised: number
+    incurred: number
+    carriedForward: number
+  }
+  taxableIncome: number
+  smallBusinessRelief: { elected: boolean; eligible: boolean; reasons: string[] }
+  freeZone: { qualifies: boolean; qualifyingIncome: number; reasons: string[] } | null
+  taxBands: Array<{ label: string; income: number; rate: number; tax: number }>
+  taxLiability: number
+  taxCredits: number
+  taxPayable: number
+  group: { members: Array<{ entityId: string; name: string; accountingIncome: number }>; eliminations: number } | null
+  warnings: string[]
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const sum = (...values: Array<number | undefined>) => values.reduce<number>((total, v) => total + (v ?? 0), 0)
+
+/** Figures of a tax group as one taxable person */
+export function consolidateFigures(members: CorporateTaxFigures[], eliminations = 0): CorporateTaxFigures {
+  const add = <K extends string>(key: (f: CorporateTaxFigures) => Partial<Record<K, number>> | undefined, fields: K[]) =>
+    Object.fromEntries(fields.map((field) => [field, sum(...members.map((m) => key(m)?.[field]))])) as Record<K, number>
+
+  return {
+    revenue: sum(...members.map((m) => m.revenue)),
+    accountingIncome: sum(...members.map((m) => m.accountingIncome)) - eliminations,
+    depreciationAndAmortisation: sum(...members.map((m) => m.depreciationAndAmortisation)),
+    nonDeductible: add((m) => m.nonDeductible, ['entertainment', 'finesAndPenalties', 'donations', 'corporateTax', 'other']),
+    exemptIncome: add((m) => m.exemptIncome, ['domesticDividends', 'other']),
+    participations: members.flatMap((m) => m.participations ?? []),
+    interest: add((m) => m.interest, ['expense', 'income']),
+    taxCredits: add((m) => m.taxCredits, ['foreignTax', 'withholdingTax']),
+  }
+}
+
+/** Whether a participation's dividends and gains are exempt, and why not */
+export function participationExempt(participation: Participation): { exempt: boolean; reason?: string } {
+  if (participation.ownershipPercent < PARTICIPATION_MIN_OWNERSHIP && (participation.acquisitionCost ?? 0) < PARTICIPATION_MIN_COST) {
+    return { exempt: false, reason: `ownership below ${PARTICIPATION_MIN_OWNERSHIP}% and cost below AED ${PARTICIPATION_MIN_COST}` }
+  }
+  if (participation.heldMonths < PARTICIPATION_MIN_MONTHS) {
+    return { exempt: false, reason: `held for less than ${PARTICIPATION_MIN_MONTHS} months` }
+  }
+  if (!participation.subjectToTax) return { exempt: false, reason: `not subject to tax of at least ${CT_RATE}%` }
+  return { exempt: true }
+}
+
+function smallBusinessRelief(input: CorporateTaxInput, figures: CorporateTaxFigures): CorporateTaxSchedule['smallBusinessRelief'] {
+  const elected = input.smallBusinessRelief?.elected === true
+  const reasons: string[] = []
+  if (figures.revenue > SBR_REVENUE_LIMIT) reasons.push(`Revenue exceeds AED ${SBR_REVENUE_LIMIT}`)
+  if (input.smallBusinessRelief?.revenueExceededInPriorPeriod) reasons.push(`Revenue exceeded AED ${SBR_REVENUE_LIMIT} in a previous period`)
+  if (input.mneGroupMember) reasons.push('Members of multinational enterprise groups cannot elect the relief')
+  if (input.freeZone) reasons.push('Qualifying Free Zone Persons cannot elect the relief')
+  if (input.periodStart.slice(0, 10) < SBR_FIRST_PERIOD_START || input.periodEnd.slice(0, 10) > SBR_LAST_PERIOD_END) {
+    reasons.push(`Relief covers periods starting from ${SBR_FIRST_PERIOD_START} and ending by ${SBR_LAST_PERIOD_END}`)
+  }
+  return { elected, eligible: reasons.length === 0, reasons }
+}
+
+function freeZone(input: CorporateTaxInput, figures: CorporateTaxFigures): CorporateTaxSchedule['freeZone'] {
+  if (!input.freeZone) return null
+  const reasons: string[] = []
+  const deMinimis = Math.min(figures.revenue * QFZP_DE_MINIMIS_SHARE, QFZP_DE_MINIMIS_AMOUNT)
+  if (input.freeZone.nonQualifyingRevenue > deMinimis) {
+    reasons.push(`Non-qualifying revenue exceeds the de minimis of AED ${round(deMinimis)}`)
+  }
+  if (!input.freeZone.adequateSubstance) reasons.push('Adequate substance is not maintained in the Free Zone')
+  if (input.taxGroup) reasons.push('Qualifying Free Zone Persons cannot join a tax group')
+  return { qualifies: reasons.length === 0, qualifyingIncome: input.freeZone.qualifyingIncome, reasons }
+}
+
+/**
+ * Compute Corporate Tax for a period. Group members' figures are added to
+ * the filer's before any adjustment.
+ */
+export function computeCorporateTax(input: CorporateTaxInput): CorporateTaxSchedule {
+  const warnings: string[] = []
+  const members = input.taxGroup?.members ?? []
+  const figures = input.taxGroup ? consolidateFigures([input, ...members], input.taxGroup.eliminations) : input
+
+  const sbr = smallBusinessRelief(input, figures)
+  const qfzp = freeZone(input, figures)
+  const reliefApplies = sbr.elected && sbr.eligible
+  if (sbr.elected && !sbr.eligible) warnings.push(`Small Business Relief does not apply: ${sbr.reasons.join('; ')}`)
+  if (qfzp && !qfzp.qualifies) warnings.push(`Taxed as a regular taxable person, not a Qualifying Free Zone Person: ${qfzp.reasons.join('; ')}`)
+
+  // Accounting income to taxable income
+  const adjustments: ScheduleLine[] = []
+  const adjust = (section: AdjustmentSection, label: string, amount: number) => {
+    if (amount !== 0) adjustments.push({ section, label, amount: round(amount) })
+  }
+  const nd = figures.nonDeductible ?? {}
+  adjust('NON_DEDUCTIBLE_EXPENDITURE', 'Non-deductible client entertainment expenditure', (nd.entertainment ?? 0) * (1 - ENTERTAINMENT_DEDUCTIBLE_SHARE))
+  adjust('NON_DEDUCTIBLE_EXPENDITURE', 'Fines and penalties', nd.finesAndPenalties ?? 0)
+  adjust('NON_DEDUCTIBLE_EXPENDITURE', 'Donations to non-qualifying bodies', nd.donations ?? 0)
+  adjust('NON_DEDUCTIBLE_EXPENDITURE', 'Corporate Tax expense', nd.corporateTax ?? 0)
+  adjust('NON_DEDUCTIBLE_EXPENDITURE', 'Other non-deductible expenditure', nd.other ?? 0)
+  adjust('EXEMPT_INCOME', 'Dividends from UAE resident juridical persons', -(figures.exemptIncome?.domesticDividends ?? 0))
+  adjust('EXEMPT_INCOME', 'Other exempt income', -(figures.exemptIncome?.other ?? 0))
+
+  let participationIncome = 0
+  for (const participation of figures.participations ?? []) {
+    const { exempt, reason } = participationExempt(participation)
+    if (exempt) participationIncome += sum(participation.dividends, participation.gains)
+    else if (sum(participation.dividends, participation.gains) !== 0) warnings.push(`${participation.name}: income is taxable, ${reason}`)
+  }
+  adjust('EXEMPT_INCOME', 'Participation exemption', -participationIncome)
+
+  const beforeInterest = figures.accountingIncome + adjustments.reduce((total, a) => total + a.amount, 0)
+
+  // Net interest above the greater of 30% of EBITDA and AED 12 million is
+  // disallowed and carried forward
+  const netInterest = Math.max(0, (figures.interest?.expense ?? 0) - (figures.interest?.income ?? 0))
+  const ebitda = Math.max(0, beforeInterest + netInterest + (figures.depreciationAndAmortisation ?? 0))
+  const capacity = Math.max(INTEREST_DE_MINIMIS, ebitda * INTEREST_EBITDA_SHARE)
+  const disallowed = Math.max(0, netInterest - capacity)
+  const interestBroughtForward = input.disallowedInterestBroughtForward ?? 0
+  const broughtForwardUsed = reliefApplies ? 0 : Math.min(interestBroughtForward, Math.max(0, capacity - netInterest))
+  adjust('INTEREST_LIMITATION', 'Disallowed net interest expenditure', disallowed)
+  adjust('INTEREST_LIMITATION', 'Net interest expenditure carried forward and deducted', -broughtForwardUsed)
+
+  const taxableIncomeBeforeLosses = round(beforeInterest + disallowed - broughtForwardUsed)
+
+  // Losses offset at most 75% of taxable income. Losses of periods under
+  // Small Business Relief are not carried forward.
+  const lossesBroughtForward = input.losses?.broughtForward ?? 0
+  const continuityMet = input.losses?.continuityMet !== false
+  if (lossesBroughtForward > 0 && !continuityMet) warnings.push('Ownership continuity and same business conditions are not met; losses brought forward cannot be used')
+  const utilised = !reliefApplies && continuityMet && taxableIncomeBeforeLosses > 0
+    ? round(Math.min(lossesBroughtForward, taxableIncomeBeforeLosses * LOSS_OFFSET_SHARE))
+    : 0
+  const incurred = !reliefApplies && taxableIncomeBeforeLosses < 0 ? -taxableIncomeBeforeLosses : 0
+
+  const taxableIncome = reliefApplies ? 0 : Math.max(0, round(taxableIncomeBeforeLosses - utilised))
+
+  const taxBands: CorporateTaxSchedule['taxBands'] = []
+  if (qfzp?.qualifies) {
+    const qualifying = Math.min(taxableIncome, qfzp.qualifyingIncome)
+    taxBands.push({ label: 'Qualifying income', income: round(qualifying), rate: 0, tax: 0 })
+    const other = round(taxableIncome - qualifying)
+    taxBands.push({ label: 'Taxable income other than qualifying income', income: other, rate: CT_RATE, tax: round((other * CT_RATE) / 100) })
+  } else {
+    const zeroBand = Math.min(taxableIncome, ZERO_RATE_BAND)
+    taxBands.push({ label: `Taxable income up to AED ${ZERO_RATE_BAND}`, income: round(zeroBand), rate: 0, tax: 0 })
+    const above = round(taxableIncome - zeroBand)
+    taxBands.push({ label: `Taxable income above AED ${ZERO_RATE_BAND}`, income: above, rate: CT_RATE, tax: round((above * CT_RATE) / 100) })
+  }
+
+  const taxLiability = round(taxBands.reduce((total, b) => total + b.tax, 0))
+  const credits = sum(figures.taxCredits?.foreignTax, figures.taxCredits?.withholdingTax)
+  const taxCredits = round(Math.min(credits, taxLiability))
+  if (credits > taxLiability) warnings.push('Tax credits exceed the Corporate Tax liability; the excess is not refunded')
+
+  return {
+    period: { start: input.periodStart, end: input.periodEnd },
+    revenue: round(figures.revenue),
+    accountingIncome: round(figures.accountingIncome),
+    adjustments,
+    taxableIncomeBeforeLosses,
+    interestLimitation: {
+      netInterest: round(netInterest),
+      ebitda: round(ebitda),
+      capacity: round(capacity),
+      disallowed: round(disallowed),
+      broughtForwardUsed: round(broughtForwardUsed),
+      // Interest disallowed under Small Business Relief is not carried forward
+      carriedForward: round(interestBroughtForward - broughtForwardUsed + (reliefApplies ? 0 : disallowed)),
+    },
+    lossRelief: {
+      broughtForward: round(lossesBroughtForward),
+      utilised,
+      incurred: round(incurred),
+      carriedForward: continuityMet ? round(lossesBroughtForward - utilised + incurred) : round(incurred),
+    },
+    taxableIncome,
+    smallBusinessRelief: sbr,
+    freeZone: qfzp,
+    taxBands,
+    taxLiability,
+    taxCredits,
+    taxPayable: round(taxLiability - taxCredits),
+    group: input.taxGroup
+      ? {
+        members: members.map((m) => ({ entityId: m.entityId, name: m.name, accountingIncome: round(m.accountingIncome) })),
+        eliminations: round(input.taxGroup.eliminations ?? 0),
+      }
+      : null,
+    warnings,
+  }
+}
+
+/** A computed schedule as filing calculations */
+export function calculationsFromSchedule(schedule: CorporateTaxSchedule): TaxCalculations {
+  return {
+    grossIncome: schedule.revenue,
+    totalDeductions: round(Math.max(0, schedule.revenue - schedule.taxableIncome)),
+    taxableIncome: schedule.taxableIncome,
+    taxRate: CT_RATE,
+    taxAmount: schedule.taxPayable,
+  }
+}
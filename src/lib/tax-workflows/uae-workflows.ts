@@ -6,6 +6,8 @@ import {
   UAECorporateTaxFiling,
   ValidationResult,
 } from './types'
+import { calculationsFromReturn } from './vat-boxes'
+import { calculationsFromSchedule, computeCorporateTax, type CorporateTaxInput } from './uae-corporate-tax'
 
 /**
  * UAE VAT Workflow
@@ -18,6 +20,8 @@ export class UAEVATWorkflow {
    * Calculate VAT filing
    */
   calculateVAT(filing: UAEVATFiling): TaxCalculations {
+    if (filing.vatReturn) return calculationsFromReturn(filing.vatReturn, 5)
+
     const { inwardSupplies, outwardSupplies } = filing
 
     // Calculate output tax (tax on supplies made)
@@ -179,13 +183,17 @@ Findings: ${filing.findings}
 }
 
 /**
- * UAE Corporate Tax Workflow (Phase 1 implementation - 9% tax for profits > AED 375,000)
+ * UAE Corporate Tax Workflow
+ * - 9% tax for profits > AED 375,000
+ * - Filings carrying a computation are computed in full (uae-corporate-tax.ts)
  */
 export class UAECorporateTaxWorkflow {
   /**
    * Calculate Corporate Tax
    */
   calculateCorporateTax(filing: UAECorporateTaxFiling): TaxCalculations {
+    if (filing.computation) return calculationsFromSchedule(computeCorporateTax(filing.computation))
+
     const { taxableIncome, taxableProfit } = filing
 
     // 9% corporate tax on profits exceeding AED 375,000
@@ -209,6 +217,8 @@ export class UAECorporateTaxWorkflow {
     const errors: ValidationResult['errors'] = []
     const warnings: string[] = []
 
+    if (filing.computation) return this.validateComputation(filing.computation)
+
     if (filing.taxableIncome < 0) {
       errors.push({
         field: 'taxableIncome',
@@ -236,6 +246,34 @@ export class UAECorporateTaxWorkflow {
     }
   }
 
+  private validateComputation(input: CorporateTaxInput): ValidationResult {
+    const errors: ValidationResult['errors'] = []
+
+    if (input.revenue < 0) {
+      errors.push({ field: 'computation.revenue', message: 'Revenue cannot be negative', severity: 'error' })
+    }
+    if (!(input.periodStart < input.periodEnd)) {
+      errors.push({ field: 'computation.periodEnd', message: 'Period end must be after period start', severity: 'error' })
+    }
+    if ((input.losses?.broughtForward ?? 0) < 0) {
+      errors.push({ field: 'computation.losses.broughtForward', message: 'Losses brought forward cannot be negative', severity: 'error' })
+    }
+    if (input.freeZone && input.freeZone.qualifyingIncome < 0) {
+      errors.push({ field: 'computation.freeZone.qualifyingIncome', message: 'Qualifying income cannot be negative', severity: 'error' })
+    }
+    input.participations?.forEach((p, i) => {
+      if (p.ownershipPercent < 0 || p.ownershipPercent > 100) {
+        errors.push({ field: `computation.participations.${i}.ownershipPercent`, message: 'Ownership must be between 0 and 100%', severity: 'error' })
+      }
+    })
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: errors.length === 0 ? computeCorporateTax(input).warnings : [],
+    }
+  }
+
   /**
    * Generate Corporate Tax summary
    */
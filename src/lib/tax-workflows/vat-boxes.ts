@@ -0,0 +1,414 @@
+/**
+ * VAT return boxes
+ * Routes tax-coded lines (sales, purchases and explicit adjustments) into
+ * the boxes of the FTA VAT201, the ZATCA VAT return and the Egyptian VAT
+ * return (Form 10), keeping each box's source lines for drill-down.
+ */
+
+import type { EgyptVATFiling, KSAVATFiling, TaxCalculations, TaxCountry, UAEVATFiling, VatReturnSummary } from './types'
+
+export type VatTreatment =
+  | 'STANDARD'
+  | 'ZERO_RATED'
+  | 'EXPORT'
+  | 'EXEMPT'
+  | 'OUT_OF_SCOPE'
+  | 'REVERSE_CHARGE'
+  | 'IMPORT'
+
+export const VAT_TREATMENTS: VatTreatment[] = [
+  'STANDARD',
+  'ZERO_RATED',
+  'EXPORT',
+  'EXEMPT',
+  'OUT_OF_SCOPE',
+  'REVERSE_CHARGE',
+  'IMPORT',
+]
+
+export type VatSourceType = 'INVOICE_ITEM' | 'CREDIT_NOTE' | 'BILL' | 'EXPENSE' | 'ADJUSTMENT'
+
+export interface VatLineSource {
+  type: VatSourceType
+  id: string
+  documentId: string // Invoice of an item; the bill, expense or adjustment itself otherwise
+  reference: string | null
+  date: Date
+  taxCode: string | null
+}
+
+export interface VatLine {
+  source: VatLineSource
+  direction: 'OUTPUT' | 'INPUT' // Sale or purchase
+  treatment: VatTreatment
+  netAmount: number
+  taxAmount: number
+  box?: string // Explicit adjustments name their box
+}
+
+// A box's own lines count towards tax due, tax recoverable, both (reverse
+// charge in one box) or neither; TOTAL boxes are computed from the others
+type BoxSide = 'due' | 'recoverable' | 'both' | 'none'
+
+interface BoxDefinition {
+  box: string
+  label: string
+  side: BoxSide | 'TOTAL'
+  // Only explicit adjustments post here
+  adjustmentOnly?: boolean
+}
+
+export interface VatReturnBox {
+  box: string
+  label: string
+  amount: number
+  tax: number
+  lineCount: number
+  sources?: Array<VatLineSource & { amount: number; tax: number }>
+}
+
+export interface VatReturn {
+  country: TaxCountry
+  boxes: VatReturnBox[]
+  outputTax: number // Tax due
+  inputTax: number // Tax recoverable
+  netTax: number // Payable when positive, refundable when negative
+  taxableSupplies: number
+  warnings: string[]
+}
+
+const UAE_EMIRATES: Record<string, { box: string; name: string }> = {
+  AZ: { box: '1a', name: 'Abu Dhabi' },
+  DU: { box: '1b', name: 'Dubai' },
+  SH: { box: '1c', name: 'Sharjah' },
+  AJ: { box: '1d', name: 'Ajman' },
+  UQ: { box: '1e', name: 'Umm Al Quwain' },
+  RK: { box: '1f', name: 'Ras Al Khaimah' },
+  FU: { box: '1g', name: 'Fujairah' },
+}
+
+const BOXES: Record<TaxCountry, BoxDefinition[]> = {
+  AE: [
+    ...Object.values(UAE_EMIRATES).map(({ box, name }) => ({ box, label: `Standard rated supplies in ${name}`, side: 'due' as const })),
+    { box: '2', label: 'Tax refunds provided to tourists', side: 'due', adjustmentOnly: true },
+    { box: '3', label: 'Supplies subject to the reverse charge provisions', side: 'due' },
+    { box: '4', label: 'Zero rated supplies', side: 'none' },
+    { box: '5', label: 'Exempt supplies', side: 'none' },
+    { box: '6', label: 'Goods imported into the UAE', side: 'due' },
+    { box: '7', label: 'Adjustments to goods imported into the UAE', side: 'due', adjustmentOnly: true },
+    { box: '8', label: 'Total outputs', side: 'TOTAL' },
+    { box: '9', label: 'Standard rated expenses', side: 'recoverable' },
+    { box: '10', label: 'Supplies subject to the reverse charge provisions', side: 'recoverable' },
+    { box: '11', label: 'Total inputs', side: 'TOTAL' },
+    { box: '12', label: 'Total value of due tax for the period', side: 'TOTAL' },
+    { box: '13', label: 'Total value of recoverable tax for the period', side: 'TOTAL' },
+    { box: '14', label: 'Payable tax for the period', side: 'TOTAL' },
+  ],
+  SA: [
+    { box: '1', label: 'Standard rated sales', side: 'due' },
+    { box: '2', label: 'Private healthcare and education sales to citizens', side: 'none', adjustmentOnly: true },
+    { box: '3', label: 'Zero rated domestic sales', side: 'none' },
+    { box: '4', label: 'Exports', side: 'none' },
+    { box: '5', label: 'Exempt sales', side: 'none' },
+    { box: '6', label: 'Total sales', side: 'TOTAL' },
+    { box: '7', label: 'Standard rated domestic purchases', side: 'recoverable' },
+    { box: '8', label: 'Imports subject to VAT paid at customs', side: 'recoverable' },
+    { box: '9', label: 'Imports subject to VAT accounted for through the reverse charge mechanism', side: 'both' },
+    { box: '10', label: 'Zero rated purchases', side: 'none' },
+    { box: '11', label: 'Exempt purchases', side: 'none' },
+    { box: '12', label: 'Total purchases', side: 'TOTAL' },
+    { box: '13', label: 'Total VAT due for the current period', side: 'TOTAL' },
+    { box: '14', label: 'Corrections from previous periods', side: 'due', adjustmentOnly: true },
+    { box: '15', label: 'VAT credit carried forward from previous periods', side: 'recoverable', adjustmentOnly: true },
+    { box: '16', label: 'Net VAT due (or claimed)', side: 'TOTAL' },
+  ],
+  EG: [
+    { box: '1', label: 'Taxable local sales', side: 'due' },
+    { box: '2', label: 'Exports and zero rated sales', side: 'none' },
+    { box: '3', label: 'Exempt sales', side: 'none' },
+    { box: '4', label: 'Taxable local purchases', side: 'recoverable' },
+    { box: '5', label: 'Imports', side: 'recoverable' },
+    { box: '6', label: 'Services received from non-residents', side: 'both' },
+    { box: '7', label: 'Exempt and zero rated purchases', side: 'none' },
+    { box: '8', label: 'Output tax', side: 'TOTAL' },
+    { box: '9', label: 'Deductible input tax', side: 'TOTAL' },
+    { box: '10', label: 'Adjustments', side: 'due', adjustmentOnly: true },
+    { box: '11', label: 'Net tax due', side: 'TOTAL' },
+  ],
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/** Box definitions of a country's return, and which ones adjustments may post to */
+export function vatBoxes(country: TaxCountry): Array<{ box: string; label: string; adjustable: boolean; adjustmentOnly: boolean }> {
+  return BOXES[country].map(({ box, label, side, adjustmentOnly }) => ({
+    box,
+    label,
+    adjustable: side !== 'TOTAL',
+    adjustmentOnly: Boolean(adjustmentOnly),
+  }))
+}
+
+/**
+ * Boxes a line posts to. Reverse-charge purchases are declared both as tax
+ * due and as recoverable tax; out-of-scope lines are not reported.
+ */
+export function boxesForLine(country: TaxCountry, line: VatLine, options: { emirate?: string } = {}): string[] {
+  if (line.box) return [line.box]
+  const sale = line.direction === 'OUTPUT'
+
+  switch (country) {
+    case 'AE':
+      if (sale) {
+        switch (line.treatment) {
+          case 'STANDARD':
+            return [UAE_EMIRATES[options.emirate ?? '']?.box ?? '1a']
+          case 'ZERO_RATED':
+          case 'EXPORT':
+            return ['4']
+          case 'EXEMPT':
+            return ['5']
+          default:
+            return []
+        }
+      }
+      switch (line.treatment) {
+        case 'STANDARD':
+          return ['9']
+        case 'REVERSE_CHARGE':
+          return ['3', '10']
+        case 'IMPORT':
+          return ['6', '10']
+        default:
+          return []
+      }
+    case 'SA':
+      if (sale) {
+        switch (line.treatment) {
+          case 'STANDARD':
+            return ['1']
+          case 'ZERO_RATED':
+            return ['3']
+          case 'EXPORT':
+            return ['4']
+          case 'EXEMPT':
+            return ['5']
+          default:
+            return []
+        }
+      }
+      switch (line.treatment) {
+        case 'STANDARD':
+          return ['7']
+        case 'IMPORT':
+          return ['8']
+        case 'REVERSE_CHARGE':
+          return ['9']
+        case 'ZERO_RATED':
+        case 'EXPORT':
+          return ['10']
+        case 'EXEMPT':
+          return ['11']
+        default:
+          return []
+      }
+    case 'EG':
+      if (sale) {
+        switch (line.treatment) {
+          case 'STANDARD':
+            return ['1']
+          case 'ZERO_RATED':
+          case 'EXPORT':
+            return ['2']
+          case 'EXEMPT':
+            return ['3']
+          default:
+            return []
+        }
+      }
+      switch (line.treatment) {
+        case 'STANDARD':
+          return ['4']
+        case 'IMPORT':
+          return ['5']
+        case 'REVERSE_CHARGE':
+          return ['6']
+        case 'ZERO_RATED':
+        case 'EXPORT':
+        case 'EXEMPT':
+          return ['7']
+        default:
+          return []
+      }
+  }
+}
+
+/**
+ * Build a country's VAT return from its lines. Sources are kept per box
+ * when includeSources is set, or only for the requested box.
+ */
+export function buildVatReturn(
+  country: TaxCountry,
+  lines: VatLine[],
+  options: { emirate?: string; includeSources?: boolean | string } = {}
+): VatReturn {
+  const definitions = BOXES[country]
+  const byBox = new Map(definitions.map((d) => [d.box, { ...d, amount: 0, tax: 0, lineCount: 0, sources: [] as NonNullable<VatReturnBox['sources']> }]))
+  const warnings: string[] = []
+  let outputTax = 0
+  let inputTax = 0
+
+  if (country === 'AE' && options.emirate && !UAE_EMIRATES[options.emirate]) {
+    warnings.push(`Unknown emirate ${options.emirate}; standard rated supplies are reported under Abu Dhabi`)
+  }
+  if (country === 'AE' && !options.emirate && lines.some((l) => l.direction === 'OUTPUT' && l.treatment === 'STANDARD' && !l.box)) {
+    warnings.push('Entity emirate is not set; standard rated supplies are reported under Abu Dhabi')
+  }
+
+  for (const line of lines) {
+    const targets = boxesForLine(country, line, options)
+    if (line.box) {
+      const target = byBox.get(line.box)
+      if (!target || target.side === 'TOTAL') throw new Error(`Box ${line.box} cannot be adjusted`)
+    }
+    for (const box of targets) {
+      const target = byBox.get(box)!
+      target.amount += line.netAmount
+      target.tax += line.taxAmount
+      target.lineCount++
+      if (options.includeSources === true || options.includeSources === box) {
+        target.sources.push({ ...line.source, amount: round(line.netAmount), tax: round(line.taxAmount) })
+      }
+      if (target.side === 'due' || target.side === 'both') outputTax += line.taxAmount
+      if (target.side === 'recoverable' || target.side === 'both') inputTax += line.taxAmount
+    }
+  }
+
+  const sum = (boxes: string[]) => boxes.reduce(
+    (total, box) => ({ amount: total.amount + byBox.get(box)!.amount, tax: total.tax + byBox.get(box)!.tax }),
+    { amount: 0, tax: 0 }
+  )
+  const setTotal = (box: string, amount: number, tax: number) => Object.assign(byBox.get(box)!, { amount, tax })
+
+  let taxableSupplies = 0
+  if (country === 'AE') {
+    const outputs = sum(['1a', '1b', '1c', '1d', '1e', '1f', '1g', '2', '3', '4', '5', '6', '7'])
+    const inputs = sum(['9', '10'])
+    setTotal('8', outputs.amount, outputs.tax)
+    setTotal('11', inputs.amount, inputs.tax)
+    setTotal('12', 0, outputTax)
+    setTotal('13', 0, inputTax)
+    setTotal('14', 0, outputTax - inputTax)
+    taxableSupplies = sum(['1a', '1b', '1c', '1d', '1e', '1f', '1g']).amount
+  } else if (country === 'SA') {
+    const sales = sum(['1', '2', '3', '4', '5'])
+    const purchases = sum(['7', '8', '9', '10', '11'])
+    setTotal('6', sales.amount, sales.tax)
+    setTotal('12', purchases.amount, purchases.tax)
+    // Reverse-charged imports (box 9) are due as well as recoverable
+    const due = sales.tax + byBox.get('9')!.tax - purchases.tax
+    setTotal('13', 0, due)
+    setTotal('16', 0, due + byBox.get('14')!.tax - byBox.get('15')!.tax)
+    taxableSupplies = byBox.get('1')!.amount
+  } else {
+    const output = byBox.get('1')!.tax + byBox.get('6')!.tax
+    const input = sum(['4', '5', '6']).tax
+    setTotal('8', 0, output)
+    setTotal('9', 0, input)
+    setTotal('11', 0, output - input + byBox.get('10')!.tax)
+    taxableSupplies = byBox.get('1')!.amount
+  }
+
+  const includeSources = options.includeSources
+  const boxes = definitions.map(({ box }) => {
+    const { label, amount, tax, lineCount, sources } = byBox.get(box)!
+    return {
+      box,
+      label,
+      amount: round(amount),
+      tax: round(tax),
+      lineCount,
+      ...(includeSources === true || includeSources === box ? { sources } : {}),
+    }
+  })
+
+  return {
+    country,
+    boxes,
+    outputTax: round(outputTax),
+    inputTax: round(inputTax),
+    netTax: round(outputTax - inputTax),
+    taxableSupplies: round(taxableSupplies),
+    warnings,
+  }
+}
+
+/** Net tax, input tax and turnover of a generated return as filing calculations */
+export function calculationsFromReturn(vatReturn: Pick<VatReturn, 'outputTax' | 'inputTax' | 'netTax' | 'taxableSupplies'>, taxRate: number): TaxCalculations {
+  return {
+    grossIncome: vatReturn.taxableSupplies,
+    totalDeductions: vatReturn.inputTax,
+    taxableIncome: vatReturn.taxableSupplies,
+    taxRate,
+    taxAmount: Math.max(0, vatReturn.netTax),
+    refund: vatReturn.netTax < 0 ? -vatReturn.netTax : undefined,
+  }
+}
+
+const box = (vatReturn: VatReturn, key: string) => vatReturn.boxes.find((b) => b.box === key)!
+
+/**
+ * Filing data for a generated return: the country's VAT filing fields,
+ * derived from the boxes, with the return itself attached
+ */
+export function vatFilingData(vatReturn: VatReturn): UAEVATFiling | KSAVATFiling | EgyptVATFiling {
+  const summary: VatReturnSummary = {
+    outputTax: vatReturn.outputTax,
+    inputTax: vatReturn.inputTax,
+    netTax: vatReturn.netTax,
+    taxableSupplies: vatReturn.taxableSupplies,
+    boxes: vatReturn.boxes.map(({ box, label, amount, tax, lineCount }) => ({ box, label, amount, tax, lineCount })),
+  }
+
+  if (vatReturn.country === 'AE') {
+    return {
+      outwardSupplies: {
+        taxedSupplies: vatReturn.taxableSupplies,
+        zeroRatedSupplies: box(vatReturn, '4').amount,
+        exemptedSupplies: box(vatReturn, '5').amount,
+        outOfScopeSupplies: 0,
+      },
+      inwardSupplies: {
+        taxedSupplies: round(box(vatReturn, '9').amount + box(vatReturn, '10').amount),
+        zeroRatedSupplies: 0,
+        exemptedSupplies: 0,
+        outOfScopeSupplies: 0,
+      },
+      inputTax: vatReturn.inputTax,
+      outputTax: vatReturn.outputTax,
+      netTax: vatReturn.netTax,
+      recoveryOfInputTax: 0,
+      adjustments: round(box(vatReturn, '2').tax + box(vatReturn, '7').tax),
+      vatReturn: summary,
+    }
+  }
+  if (vatReturn.country === 'SA') {
+    return {
+      taxableSalesValueDomestic: round(box(vatReturn, '1').amount + box(vatReturn, '3').amount),
+      taxableSalesValueExport: box(vatReturn, '4').amount,
+      inputTaxDomestic: box(vatReturn, '7').tax,
+      inputTaxImport: round(box(vatReturn, '8').tax + box(vatReturn, '9').tax),
+      netVATPayable: vatReturn.netTax,
+      adjustments: round(box(vatReturn, '14').tax - box(vatReturn, '15').tax),
+      vatReturn: summary,
+    }
+  }
+  return {
+    domesticSales: box(vatReturn, '1').amount,
+    exportSales: box(vatReturn, '2').amount,
+    inputTaxClaimable: vatReturn.inputTax,
+    outputTax: vatReturn.outputTax,
+    netVATPayable: vatReturn.netTax,
+    vatReturn: summary,
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * VAT return generation
+ * Collects the tax-coded invoice items, credit notes, bills and expenses of
+ * a VAT filing period, plus its explicit adjustment lines, and builds the
+ * country's return boxes. A generated return becomes (or refreshes) the
+ * period's draft VAT filing.
+ */
+
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logAudit } from '@/lib/audit'
+import { UAEVATWorkflow } from './uae-workflows'
+import { KSAVATWorkflow } from './ksa-workflows'
+import { EgyptVATWorkflow } from './egypt-workflows'
+import { saveDraftFiling } from './draft-filing'
+import type { TaxCountry, ValidationResult } from './types'
+import {
+  buildVatReturn,
+  vatBoxes,
+  vatFilingData,
+  type VatLine,
+  type VatTreatment,
+} from './vat-boxes'
+
+export interface VatAdjustmentInput {
+  kind: 'ADJUSTMENT' | 'REVERSE_CHARGE' | 'IMPORT'
+  box?: string
+  description: string
+  reference?: string
+  date: Date
+  netAmount: number
+  taxAmount: number
+}
+
+export interface TaxCodeAssignment {
+  invoiceItemIds?: string[]
+  billIds?: string[]
+  expenseIds?: string[]
+}
+
+// Amounts in other currencies need a rate before they can be reported
+const FUNCTIONAL_CURRENCY: Record<TaxCountry, string> = { AE: 'AED', SA: 'SAR', EG: 'EGP' }
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+type CodedTax = { taxCodeValue: string; taxRate: Prisma.Decimal; vatTreatment: string | null } | null
+
+function treatmentOf(taxCode: CodedTax): VatTreatment | null {
+  return (taxCode?.vatTreatment as VatTreatment | null) ?? null
+}
+
+/** Split a tax-inclusive amount into net and tax */
+function fromGross(gross: number, treatment: VatTreatment, rate: number): { net: number; tax: number } {
+  if (treatment === 'STANDARD') {
+    const tax = round((gross * rate) / (100 + rate))
+    return { net: round(gross - tax), tax }
+  }
+  // Reverse-charge and import tax is self-assessed on the amount paid
+  if (treatment === 'REVERSE_CHARGE' || treatment === 'IMPORT') return { net: gross, tax: round((gross * rate) / 100) }
+  return { net: gross, tax: 0 }
+}
+
+// Documents dated any time on the period's last day belong to it
+function periodRange(period: { periodStart: Date; periodEnd: Date }) {
+  const end = period.periodEnd
+  return { gte: period.periodStart, lt: new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate() + 1)) }
+}
+
+export class VatReturnService {
+  private async vatPeriod(tenantId: string, filingPeriodId: string) {
+    const period = await prisma.filingPeriod.findFirst({
+      where: { id: filingPeriodId, obligation: { entity: { tenantId } } },
+      include: { obligation: { include: { entity: true } } },
+    })
+    if (!period) throw new Error('Filing period not found')
+    if (period.obligation.type !== 'VAT') throw new Error('Filing period is not a VAT period')
+    const country = period.obligation.country as TaxCountry
+    if (!(country in FUNCTIONAL_CURRENCY)) throw new Error(`VAT returns are not supported for ${country}`)
+    return { period, entity: period.obligation.entity, country }
+  }
+
+  private async assertOpen(tenantId: string, entityId: string, periodStart: Date) {
+    const filed = await prisma.taxFiling.findFirst({
+      where: { tenantId, entityId, taxType: 'VAT', periodStartDate: periodStart, status: { not: 'DRAFT' } },
+      select: { id: true },
+    })
+    if (filed) throw new Error('VAT return for this period has been submitted')
+  }
+
+  /**
+   * Tax-coded lines of a period. Lines without a tax code or in a foreign
+   * currency are left out and reported as warnings.
+   */
+  private async collectLines(
+    tenantId: string,
+    entityId: string,
+    country: TaxCountry,
+    period: { id: string; periodStart: Date; periodEnd: Date }
+  ): Promise<{ lines: VatLine[]; warnings: string[] }> {
+    const range = periodRange(period)
+    const currency = FUNCTIONAL_CURRENCY[country]
+    const lines: VatLine[] = []
+    const uncoded = { invoiceItems: 0, bills: 0, expenses: 0 }
+    const foreign = new Set<string>()
+    const taxCode = { select: { taxCodeValue: true, taxRate: true, vatTreatment: true } }
+
+    const invoices = await prisma.invoice.findMany({
+      where: { tenantId, entityId, createdAt: range, status: { notIn: ['DRAFT', 'VOID'] } },
+      include: { items: { include: { taxCode } } },
+    })
+    for (const invoice of invoices) {
+      if (invoice.currency !== currency) {
+        foreign.add(invoice.currency)
+        continue
+      }
+      for (const item of invoice.items) {
+        const treatment = treatmentOf(item.taxCode)
+        if (!treatment) {
+          uncoded.invoiceItems++
+          continue
+        }
+        const net = item.totalCents / 100
+        lines.push({
+          source: { type: 'INVOICE_ITEM', id: item.id, documentId: invoice.id, reference: invoice.number, date: invoice.createdAt, taxCode: item.taxCode!.taxCodeValue },
+          direction: 'OUTPUT',
+          treatment,
+          netAmount: net,
+          taxAmount: treatment === 'STANDARD' ? round((net * Number(item.taxCode!.taxRate)) / 100) : 0,
+        })
+      }
+    }
+
+    // Credit notes reduce the boxes of the invoice they were raised against, pro rata to its lines
+    const creditNotes = await prisma.creditNote.findMany({
+      where: { tenantId, entityId, issuedAt: range, status: 'ISSUED' },
+      include: { invoice: { include: { items: { include: { taxCode } } } } },
+    })
+    let unlinkedCredits = 0
+    for (const credit of creditNotes) {
+      const invoice = credit.invoice
+      if (!invoice || invoice.totalCents <= 0) {
+        unlinkedCredits++
+        continue
+      }
+      if (credit.currency !== currency) {
+        foreign.add(credit.currency)
+        continue
+      }
+      for (const item of invoice.items) {
+        const treatment = treatmentOf(item.taxCode)
+        if (!treatment) continue
+        const net = -round((credit.totalCents / 100) * (item.totalCents / invoice.totalCents))
+        lines.push({
+          source: { type: 'CREDIT_NOTE', id: credit.id, documentId: credit.id, reference: credit.number, date: credit.issuedAt, taxCode: item.taxCode!.taxCodeValue },
+          direction: 'OUTPUT',
+          treatment,
+          netAmount: net,
+          taxAmount: treatment === 'STANDARD' ? round((net * Number(item.taxCode!.taxRate)) / 100) : 0,
+        })
+      }
+    }
+
+    const bills = await prisma.bill.findMany({
+      where: { tenantId, entityId, date: range, status: { in: ['APPROVED', 'PAID'] } },
+      include: { taxCode },
+    })
+    for (const bill of bills) {
+      const treatment = treatmentOf(bill.taxCode)
+      if (!treatment) {
+        uncoded.bills++
+        continue
+      }
+      if (bill.currency !== currency) {
+        foreign.add(bill.currency)
+        continue
+      }
+      const { net, tax } = fromGross(bill.amount, treatment, Number(bill.taxCode!.taxRate))
+      lines.push({
+        source: { type: 'BILL', id: bill.id, documentId: bill.id, reference: bill.billNumber ?? bill.vendor, date: bill.date, taxCode: bill.taxCode!.taxCodeValue },
+        direction: 'INPUT',
+        treatment,
+        netAmount: net,
+        taxAmount: tax,
+      })
+    }
+
+    const expenses = await prisma.expense.findMany({
+      where: { tenantId, entityId, date: range, status: { not: 'REJECTED' }, reviewStatus: { not: 'NEEDS_REVIEW' } },
+      include: { taxCode },
+    })
+    for (const expense of expenses) {
+      const treatment = treatmentOf(expense.taxCode)
+      if (!treatment) {
+        uncoded.expenses++
+        continue
+      }
+      if (expense.currency !== currency) {
+        foreign.add(expense.currency)
+        continue
+      }
+      const gross = expense.amountCents / 100
+      // The tax printed on the receipt wins over the one implied by the rate
+      const split = treatment === 'STANDARD' && expense.taxCents > 0
+        ? { net: round(gross - expense.taxCents / 100), tax: expense.taxCents / 100 }
+        : fromGross(gross, treatment, Number(expense.taxCode!.taxRate))
+      lines.push({
+        source: { type: 'EXPENSE', id: expense.id, documentId: expense.id, reference: expense.vendor, date: expense.date, taxCode: expense.taxCode!.taxCodeValue },
+        direction: 'INPUT',
+        treatment,
+        netAmount: split.net,
+        taxAmount: split.tax,
+      })
+    }
+
+    const adjustments = await prisma.vatReturnAdjustment.findMany({
+      where: { tenantId, filingPeriodId: period.id },
+      orderBy: { date: 'asc' },
+    })
+    for (const adjustment of adjustments) {
+      lines.push({
+        source: { type: 'ADJUSTMENT', id: adjustment.id, documentId: adjustment.id, reference: adjustment.reference ?? adjustment.description, date: adjustment.date, taxCode: null },
+        direction: adjustment.kind === 'ADJUSTMENT' ? 'OUTPUT' : 'INPUT',
+        treatment: adjustment.kind === 'ADJUSTMENT' ? 'STANDARD' : (adjustment.kind as VatTreatment),
+        netAmount: Number(adjustment.netAmount),
+        taxAmount: Number(adjustment.taxAmount),
+        box: adjustment.box ?? undefined,
+      })
+    }
+
+    const warnings: string[] = []
+    if (uncoded.invoiceItems) warnings.push(`${uncoded.invoiceItems} invoice line(s) have no VAT tax code and are not reported`)
+    if (uncoded.bills) warnings.push(`${uncoded.bills} bill(s) have no VAT tax code and are not reported`)
+    if (uncoded.expenses) warnings.push(`${uncoded.expenses} expense(s) have no VAT tax code and are not reported`)
+    if (unlinkedCredits) warnings.push(`${unlinkedCredits} credit note(s) are not linked to an invoice and are not reported`)
+    if (foreign.size) warnings.push(`Documents in ${[...foreign].join(', ')} are not reported; only ${currency} amounts are included`)
+    return { lines, warnings }
+  }
+
+  /**
+   * The period's return. `box` limits the drill-down to one box's source
+   * lines; `includeSources` returns them for every box.
+   */
+  async generate(tenantId: string, filingPeriodId: string, options: { box?: string; includeSources?: boolean } = {}) {
+    const { period, entity, country } = await this.vatPeriod(tenantId, filingPeriodId)
+    if (options.box && !vatBoxes(country).some((b) => b.box === options.box)) throw new Error(`Unknown box ${options.box}`)
+
+    const { lines, warnings } = await this.collectLines(tenantId, entity.id, country, period)
+    const emirate = country === 'AE' ? ((entity.metadata as Record<string, any> | null)?.emirate as string | undefined) : undefined
+    const vatReturn = buildVatReturn(country, lines, { emirate, includeSources: options.includeSources || options.box })
+    vatReturn.warnings.unshift(...warnings)
+    return {
+      filingPeriodId,
+      entityId: entity.id,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      currency: FUNCTIONAL_CURRENCY[country],
+      ...vatReturn,
+    }
+  }
+
+  /**
+   * Create the period's draft VAT filing from the generated return, or
+   * refresh the existing draft
+   */
+  async createDraftFiling(tenantId: string, userId: string, filingPeriodId: string) {
+    const generated = await this.generate(tenantId, filingPeriodId)
+    await this.assertOpen(tenantId, generated.entityId, generated.periodStart)
+
+    const data = vatFilingData(generated)
+    let validation: ValidationResult
+    let calculations
+    if (generated.country === 'AE') {
+      const workflow = new UAEVATWorkflow()
+      validation = workflow.validateFiling(data as any)
+      calculations = workflow.calculateVAT(data as any)
+    } else if (generated.country === 'SA') {
+      const workflow = new KSAVATWorkflow()
+      validation = workflow.validateFiling(data as any)
+      calculations = workflow.calculateVAT(data as any)
+    } else {
+      const workflow = new EgyptVATWorkflow()
+      validation = workflow.validateVATFiling(data as any)
+      calculations = workflow.calculateVAT(data as any)
+    }
+
+    const fields = {
+      data: JSON.stringify(data),
+      calculations: JSON.stringify(calculations),
+      taxAmount: calculations.taxAmount,
+      metadata: JSON.stringify({
+        filingPeriodId,
+        generatedAt: new Date().toISOString(),
+        warnings: [...generated.warnings, ...validation.warnings],
+        validationErrors: validation.errors,
+      }),
+    }
+    const filing = await saveDraftFiling({
+      tenantId,
+      userId,
+      entityId: generated.entityId,
+      country: generated.country,
+      taxType: 'VAT',
+      periodStartDate: generated.periodStart,
+      periodEndDate: generated.periodEnd,
+      fields,
+      auditAction: 'tax_filing.vat_return',
+      auditMetadata: { filingPeriodId, netTax: generated.netTax },
+    })
+    return { filing, vatReturn: generated, validation }
+  }
+
+  async listAdjustments(tenantId: string, filingPeriodId: string) {
+    await this.vatPeriod(tenantId, filingPeriodId)
+    return prisma.vatReturnAdjustment.findMany({
+      where: { tenantId, filingPeriodId },
+      orderBy: { date: 'asc' },
+    })
+  }
+
+  async addAdjustment(tenantId: string, userId: string, filingPeriodId: string, input: VatAdjustmentInput) {
+    const { period, entity, country } = await this.vatPeriod(tenantId, filingPeriodId)
+    await this.assertOpen(tenantId, entity.id, period.periodStart)
+
+    if (input.kind === 'ADJUSTMENT') {
+      if (!input.box) throw new Error('Adjustments need a box')
+      const box = vatBoxes(country).find((b) => b.box === input.box)
+      if (!box?.adjustable) throw new Error(`Box ${input.box} cannot be adjusted`)
+    }
+
+    const adjustment = await prisma.vatReturnAdjustment.create({
+      data: {
+        tenantId,
+        filingPeriodId,
+        kind: input.kind,
+        // Reverse-charge and import lines are routed by their kind
+        box: input.kind === 'ADJUSTMENT' ? input.box : null,
+        description: input.description,
+        reference: input.reference ?? null,
+        date: input.date,
+        netAmount: input.netAmount,
+        taxAmount: input.taxAmount,
+        createdBy: userId,
+      },
+    })
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'tax_filing.vat_adjustment.created',
+      resource: `VatReturnAdjustment:${adjustment.id}`,
+      metadata: { filingPeriodId, kind: input.kind, box: adjustment.box, taxAmount: input.taxAmount },
+    })
+    return adjustment
+  }
+
+  async removeAdjustment(tenantId: string, userId: string, id: string) {
+    const adjustment = await prisma.vatReturnAdjustment.findFirst({ where: { id, tenantId } })
+    if (!adjustment) throw new Error('Adjustment not found')
+    const { period, entity } = await this.vatPeriod(tenantId, adjustment.filingPeriodId)
+    await this.assertOpen(tenantId, entity.id, period.periodStart)
+
+    await prisma.vatReturnAdjustment.delete({ where: { id } })
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'tax_filing.vat_adjustment.deleted',
+      resource: `VatReturnAdjustment:${id}`,
+      metadata: { filingPeriodId: adjustment.filingPeriodId },
+    })
+  }
+
+  /**
+   * Attach a VAT tax code to invoice lines, bills and expenses
+   */
+  async assignTaxCode(tenantId: string, userId: string, taxCodeId: string, assignment: TaxCodeAssignment) {
+    const taxCode = await prisma.taxCode.findFirst({ where: { id: taxCodeId, tenantId } })
+    if (!taxCode) throw new Error('Tax code not found')
+    if (taxCode.taxType !== 'VAT' || !taxCode.vatTreatment) throw new Error('Tax code has no VAT treatment')
+    if (taxCode.status !== 'ACTIVE') throw new Error('Tax code is not active')
+
+    const [invoiceItems, bills, expenses] = await prisma.$transaction([
+      prisma.invoiceItem.updateMany({
+        where: { id: { in: assignment.invoiceItemIds ?? [] }, invoice: { tenantId } },
+        data: { taxCodeId },
+      }),
+      prisma.bill.updateMany({ where: { id: { in: assignment.billIds ?? [] }, tenantId }, data: { taxCodeId } }),
+      prisma.expense.updateMany({ where: { id: { in: assignment.expenseIds ?? [] }, tenantId }, data: { taxCodeId } }),
+    ])
+    const result = { invoiceItems: invoiceItems.count, bills: bills.count, expenses: expenses.count }
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'mdm.tax_code.assigned',
+      resource: `TaxCode:${taxCodeId}`,
+      metadata: result,
+    })
+    return result
+  }
+}
+
+export const vatReturnService = new VatReturnService()
+
+/**
+ * HTTP status for known VAT return errors, null for unexpected ones
+ */
+export function vatReturnErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Filing period not found' || message === 'Adjustment not found' || message === 'Tax code not found') return 404
+  if (message === 'VAT return for this period has been submitted') return 409
+  if (
+    message === 'Filing period is not a VAT period' ||
+    message.startsWith('VAT returns are not supported') ||
+    message.startsWith('Unknown box') ||
+    message === 'Adjustments need a box' ||
+    (message.startsWith('Box ') && message.endsWith('cannot be adjusted')) ||
+    message === 'Tax code has no VAT treatment' ||
+    message === 'Tax code is not active'
+  ) return 400
+  return null
+}
@@ -0,0 +1,391 @@
+/**
+ * KSA withholding tax
+ * Applies withholding to the lines of bills from non-resident vendors, with
+ * treaty rates kept per Party in MDM. Paid bills feed the monthly WHT
+ * return; the remittance of each return is recorded on its filing, and
+ * vendors get a certificate of the tax withheld from them.
+ */
+
+import prisma from '@/lib/prisma'
+import { logAudit } from '@/lib/audit'
+import { renderTextPdf } from '@/lib/services/exports/export-render'
+import { KSAWHTWorkflow } from './ksa-workflows'
+import { filingDueDate } from './amendments'
+import { saveDraftFiling } from './draft-filing'
+import {
+  aggregateByVendor,
+  certificateLines,
+  computeBillWithholding,
+  whtReturnFromVendors,
+  type BillLineInput,
+  type WhtCertificate,
+  type WhtPayment,
+  type WhtPaymentType,
+} from './ksa-wht'
+
+export interface TreatyRateInput {
+  paymentType: WhtPaymentType
+  rate: number
+  treatyCountry?: string // Defaults to the party's country
+  residencyCertificate?: string
+  validFrom: string
+  validTo?: string
+}
+
+export interface RemittanceInput {
+  paidAt: string
+  reference: string
+  amount: number
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+function parseJson(value: string | null): Record<string, any> {
+  if (!value) return {}
+  try {
+    return JSON.parse(value)
+  } catch {
+    return {}
+  }
+}
+
+/** First and last instant of a YYYY-MM month, in UTC */
+export function monthRange(month: string) {
+  const match = /^(\d{4})-(\d{2})$/.exec(month)
+  const index = match ? Number(match[2]) - 1 : -1
+  if (!match || index < 0 || index > 11) throw new Error('Invalid period: expected YYYY-MM')
+  const year = Number(match[1])
+  return {
+    start: new Date(Date.UTC(year, index, 1)),
+    end: new Date(Date.UTC(year, index + 1, 1) - 1),
+  }
+}
+
+const monthOf = (date: Date) => date.toISOString().slice(0, 7)
+
+export class KSAWithholdingTaxService {
+  private async saudiEntity(tenantId: string, entityId: string) {
+    const entity = await prisma.entity.findFirst({
+      where: { id: entityId, tenantId },
+      include: { registrations: { where: { type: { in: ['WHT', 'ZATCA', 'VAT'] } } } },
+    })
+    if (!entity) throw new Error('Entity not found')
+    if (entity.country !== 'SA') throw new Error('Withholding tax returns are only available for KSA entities')
+    return entity
+  }
+
+  private async party(tenantId: string, partyId: string) {
+    const party = await prisma.party.findFirst({ where: { id: partyId, tenantId } })
+    if (!party) throw new Error('Party not found')
+    return party
+  }
+
+  async treatyRates(tenantId: string, partyId: string) {
+    await this.party(tenantId, partyId)
+    return prisma.partyWhtTreatyRate.findMany({
+      where: { tenantId, partyId, country: 'SA' },
+      orderBy: [{ paymentType: 'asc' }, { validFrom: 'asc' }],
+    })
+  }
+
+  /**
+   * Replace a party's KSA treaty rates. Bills keep the rate they were
+   * computed with until their lines are changed.
+   */
+  async setTreatyRates(tenantId: string, userId: string, partyId: string, rates: TreatyRateInput[]) {
+    const party = await this.party(tenantId, partyId)
+    if (rates.some((r) => !r.treatyCountry) && !party.country) {
+      throw new Error('Party country is required for treaty rates')
+    }
+    if (rates.some((r) => (r.treatyCountry ?? party.country) === 'SA')) {
+      throw new Error('Treaty rates apply to non-resident parties only')
+    }
+
+    await prisma.$transaction([
+      prisma.partyWhtTreatyRate.deleteMany({ where: { tenantId, partyId, country: 'SA' } }),
+      prisma.partyWhtTreatyRate.createMany({
+        data: rates.map((rate) => ({
+          tenantId,
+          partyId,
+          country: 'SA',
+          paymentType: rate.paymentType,
+          rate: rate.rate,
+          treatyCountry: (rate.treatyCountry ?? party.country)!,
+          residencyCertificate: rate.residencyCertificate,
+          validFrom: new Date(rate.validFrom),
+          validTo: rate.validTo ? new Date(rate.validTo) : null,
+          createdBy: userId,
+        })),
+      }),
+    ])
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'mdm.party.wht_treaty_rates.updated',
+      resource: `Party:${partyId}`,
+      metadata: { rates: rates.map((r) => ({ paymentType: r.paymentType, rate: r.rate })) },
+    })
+    return this.treatyRates(tenantId, partyId)
+  }
+
+  /**
+   * Withholding on a bill's lines for the paying entity and the vendor's
+   * master record
+   */
+  async withholdingForBill(
+    tenantId: string,
+    bill: { entityId?: string | null; partyId?: string | null; date: Date; lines: BillLineInput[] }
+  ) {
+    const [entity, party] = await Promise.all([
+      bill.entityId ? prisma.entity.findFirst({ where: { id: bill.entityId, tenantId }, select: { country: true } }) : null,
+      bill.partyId ? this.party(tenantId, bill.partyId) : null,
+    ])
+    const treatyRates = party
+      ? await prisma.partyWhtTreatyRate.findMany({ where: { tenantId, partyId: party.id, country: 'SA' } })
+      : []
+    return computeBillWithholding(bill.lines, {
+      payerCountry: entity?.country ?? '',
+      vendorCountry: party?.country ?? null,
+      treatyRates,
+      date: bill.date,
+    })
+  }
+
+  /** Bills paid in a date range that had tax withheld */
+  private async payments(tenantId: string, entityId: string, from: Date, to: Date, partyId?: string): Promise<WhtPayment[]> {
+    const bills = await prisma.bill.findMany({
+      where: { tenantId, entityId, status: 'PAID', paidAt: { gte: from, lte: to }, whtAmount: { gt: 0 }, ...(partyId && { partyId }) },
+      include: { lines: true, party: { select: { id: true, name: true, legalName: true, country: true, taxId: true } } },
+      orderBy: { paidAt: 'asc' },
+    })
+    return bills.map((bill) => ({
+      billId: bill.id,
+      billNumber: bill.billNumber,
+      paidAt: bill.paidAt!,
+      partyId: bill.partyId,
+      vendorName: bill.party?.legalName ?? bill.party?.name ?? bill.vendor,
+      vendorCountry: bill.party?.country ?? null,
+      vendorTaxId: bill.party?.taxId ?? null,
+      lines: bill.lines.map((line) => ({
+        description: line.description,
+        amount: line.amount,
+        whtPaymentType: line.whtPaymentType,
+        whtRate: line.whtRate,
+        whtAmount: line.whtAmount,
+      })),
+    }))
+  }
+
+  /**
+   * Create the month's draft WHT return from the bills paid in it, or
+   * refresh the existing draft
+   */
+  async createMonthlyReturn(tenantId: string, userId: string, entityId: string, month: string) {
+    await this.saudiEntity(tenantId, entityId)
+    const { start, end } = monthRange(month)
+
+    const filed = await prisma.taxFiling.findFirst({
+      where: { tenantId, entityId, taxType: 'WHT', periodStartDate: start, status: { not: 'DRAFT' } },
+      select: { id: true },
+    })
+    if (filed) throw new Error('Withholding tax return for this period has been submitted')
+
+    const data = whtReturnFromVendors(aggregateByVendor(await this.payments(tenantId, entityId, start, end)))
+    const workflow = new KSAWHTWorkflow()
+    const validation = workflow.validateWHTFiling(data)
+    if (!validation.isValid) {
+      throw new Error(`Filing data fails validation: ${validation.errors.map((e) => e.message).join('; ')}`)
+    }
+    const calculations = workflow.calculateWHT(data)
+
+    const fields = {
+      data: JSON.stringify(data),
+      calculations: JSON.stringify(calculations),
+      taxAmount: calculations.taxAmount,
+      metadata: JSON.stringify({
+        warnings: validation.warnings,
+        dueDate: filingDueDate('SA', 'WHT', end).toISOString(),
+        generatedAt: new Date().toISOString(),
+      }),
+    }
+    const filing = await saveDraftFiling({
+      tenantId,
+      userId,
+      entityId,
+      country: 'SA',
+      taxType: 'WHT',
+      periodStartDate: start,
+      periodEndDate: end,
+      fields,
+      auditAction: 'tax_filing.wht',
+      auditMetadata: { month, vendors: data.vendors?.length ?? 0, totalWHT: data.totalWHT },
+    })
+    return { filing, data, warnings: validation.warnings }
+  }
+
+  /**
+   * Record the payment of a submitted WHT return to the authority
+   */
+  async recordRemittance(tenantId: string, userId: string, filingId: string, input: RemittanceInput) {
+    const filing = await prisma.taxFiling.findFirst({ where: { id: filingId, tenantId } })
+    if (!filing || filing.taxType !== 'WHT' || filing.country !== 'SA') throw new Error('Filing not found')
+    if (!['SUBMITTED', 'ACCEPTED'].includes(filing.status)) {
+      throw new Error('Only submitted withholding tax returns can be remitted')
+    }
+
+    const metadata = parseJson(filing.metadata)
+    const remittance = { paidAt: input.paidAt, reference: input.reference, amount: round(input.amount), recordedBy: userId }
+    const updated = await prisma.taxFiling.update({
+      where: { id: filing.id },
+      data: { metadata: JSON.stringify({ ...metadata, remittance }) },
+    })
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'tax_filing.wht.remitted',
+      resource: `TaxFiling:${filing.id}`,
+      metadata: { ...remittance, taxAmount: Number(filing.taxAmount) },
+    })
+    return { filing: updated, remittance }
+  }
+
+  /**
+   * Tax withheld per month against what was filed and remitted, with the
+   * remittance due date
+   */
+  async remittances(tenantId: string, entityId: string, fromMonth: string, toMonth: string, now = new Date()) {
+    await this.saudiEntity(tenantId, entityId)
+    const from = monthRange(fromMonth).start
+    const to = monthRange(toMonth).end
+    if (from > to) throw new Error('Invalid period: start is after end')
+
+    const [bills, filings] = await Promise.all([
+      prisma.bill.findMany({
+        where: { tenantId, entityId, status: 'PAID', paidAt: { gte: from, lte: to }, whtAmount: { gt: 0 } },
+        select: { paidAt: true, whtAmount: true },
+      }),
+      prisma.taxFiling.findMany({
+        where: { tenantId, entityId, taxType: 'WHT', status: { not: 'AMENDED' }, periodStartDate: { gte: from, lte: to } },
+        orderBy: { version: 'desc' },
+      }),
+    ])
+
+    const months: string[] = []
+    for (let cursor = from; cursor <= to; cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1))) {
+      months.push(monthOf(cursor))
+    }
+
+    return months.map((month) => {
+      const { end } = monthRange(month)
+      const withheld = round(bills.filter((b) => monthOf(b.paidAt!) === month).reduce((sum, b) => sum + b.whtAmount, 0))
+      const filing = filings.find((f) => monthOf(f.periodStartDate) === month) ?? null
+      const remittance = filing ? parseJson(filing.metadata).remittance ?? null : null
+      const dueDate = filingDueDate('SA', 'WHT', end)
+      const filed = filing && filing.status !== 'DRAFT' ? round(Number(filing.taxAmount)) : 0
+      const remitted = remittance ? Number(remittance.amount) : 0
+
+      let status: 'NOTHING_WITHHELD' | 'NOT_FILED' | 'FILED' | 'REMITTED'
+      if (withheld === 0 && !filing) status = 'NOTHING_WITHHELD'
+      else if (!filing || filing.status === 'DRAFT') status = 'NOT_FILED'
+      else if (!remittance) status = 'FILED'
+      else status = 'REMITTED'
+
+      return {
+        month,
+        withheld,
+        filed,
+        remitted,
+        outstanding: round(Math.max(withheld, filed) - remitted),
+        status,
+        filingId: filing?.id ?? null,
+        filingStatus: filing?.status ?? null,
+        remittance,
+        dueDate,
+        overdue: status !== 'REMITTED' && status !== 'NOTHING_WITHHELD' && now > dueDate,
+      }
+    })
+  }
+
+  /**
+   * Certificate of the tax withheld from a vendor over a period, as a PDF
+   */
+  async certificate(tenantId: string, userId: string, entityId: string, partyId: string, fromMonth: string, toMonth: string) {
+    const entity = await this.saudiEntity(tenantId, entityId)
+    const party = await this.party(tenantId, partyId)
+    const from = monthRange(fromMonth).start
+    const to = monthRange(toMonth).end
+    if (from > to) throw new Error('Invalid period: start is after end')
+
+    const payments = await this.payments(tenantId, entityId, from, to, partyId)
+    if (payments.length === 0) throw new Error('No tax was withheld from this vendor in the period')
+    const bills = await prisma.bill.findMany({ where: { id: { in: payments.map((p) => p.billId) } }, select: { currency: true } })
+    const currencies = Array.from(new Set(bills.map((b) => b.currency)))
+
+    const rows = payments.flatMap((payment) =>
+      payment.lines
+        .filter((line) => line.whtPaymentType && line.whtAmount > 0)
+        .map((line) => ({
+          billNumber: payment.billNumber,
+          paidAt: payment.paidAt.toISOString().slice(0, 10),
+          paymentType: line.whtPaymentType!,
+          amount: line.amount,
+          whtPercentage: line.whtRate,
+          whtAmount: line.whtAmount,
+        }))
+    )
+    const registration = ['WHT', 'ZATCA', 'VAT'].map((type) => entity.registrations.find((r) => r.type === type)).find(Boolean)
+    const certificate: WhtCertificate = {
+      number: `WHT-${fromMonth.replace('-', '')}-${toMonth.replace('-', '')}-${party.id.slice(-8).toUpperCase()}`,
+      payer: { name: entity.name, taxNumber: registration?.value ?? null, country: entity.country },
+      vendor: { name: party.legalName ?? party.name, country: party.country, taxId: party.taxId },
+      periodStart: from.toISOString().slice(0, 10),
+      periodEnd: to.toISOString().slice(0, 10),
+      payments: rows,
+      totalAmount: round(rows.reduce((sum, r) => sum + r.amount, 0)),
+      totalWHT: round(rows.reduce((sum, r) => sum + r.whtAmount, 0)),
+      currency: currencies.length === 1 ? currencies[0] : 'SAR',
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      action: 'tax_filing.wht.certificate_issued',
+      resource: `Party:${party.id}`,
+      metadata: { entityId, number: certificate.number, totalWHT: certificate.totalWHT },
+    })
+    return {
+      certificate,
+      pdf: renderTextPdf('Withholding Tax Certificate', certificateLines(certificate)),
+    }
+  }
+}
+
+export const ksaWithholdingTaxService = new KSAWithholdingTaxService()
+
+/**
+ * HTTP status for known withholding tax errors, null for unexpected ones
+ */
+export function withholdingTaxErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (
+    message === 'Entity not found' ||
+    message === 'Party not found' ||
+    message === 'Filing not found' ||
+    message === 'No tax was withheld from this vendor in the period'
+  ) return 404
+  if (
+    message === 'Withholding tax return for this period has been submitted' ||
+    message === 'Only submitted withholding tax returns can be remitted'
+  ) return 409
+  if (
+    message === 'Withholding tax returns are only available for KSA entities' ||
+    message === 'Party country is required for treaty rates' ||
+    message === 'Treaty rates apply to non-resident parties only' ||
+    message.startsWith('Filing data fails validation') ||
+    message.startsWith('Invalid period')
+  ) return 400
+  return null
+}
@@ -0,0 +1,220 @@
+/**
+ * KSA Zakat returns
+ * Builds the Zakat base worksheet from an entity's ledger: balance sheet
+ * balances at the period end by account subtype, and the period's net
+ * profit from the income statement. Manual adjustments are added with their
+ * supporting references, and the Saudi/GCC ownership share defaults to
+ * Entity.metadata.saudiGccOwnershipPercent.
+ */
+
+import prisma from '@/lib/prisma'
+import { financialStatementsService } from '@/lib/accounting/statements-service'
+import { naturalBalance } from '@/lib/accounting/ledger'
+import type { LedgerAccountType } from '@/lib/accounting/types'
+import { KSAZakatWorkflow } from './ksa-workflows'
+import { saveDraftFiling } from './draft-filing'
+import {
+  ZAKAT_RATE,
+  buildZakatWorksheet,
+  ledgerZakatLines,
+  type LedgerBalance,
+  type ZakatLine,
+  type ZakatSection,
+  type ZakatWorksheet,
+  type ZakatWorksheetInput,
+} from './ksa-zakat'
+import type { KSAZakatFiling } from './types'
+
+export interface ZakatAdjustment {
+  key?: string // Adds to the worksheet line with this key, or starts a new line
+  section: ZakatSection
+  label: string
+  amount: number
+  reference?: string
+  documentId?: string
+  note?: string
+}
+
+export interface ZakatRequest {
+  periodStart: string
+  periodEnd: string
+  calendar?: 'HIJRI' | 'GREGORIAN'
+  saudiGccOwnershipPercent?: number
+  adjustments?: ZakatAdjustment[]
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export class ZakatService {
+  private async saudiEntity(tenantId: string, entityId: string) {
+    const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId } })
+    if (!entity) throw new Error('Entity not found')
+    if (entity.country !== 'SA') throw new Error('Zakat returns are only available for KSA entities')
+    return entity
+  }
+
+  /** Natural balances of the entity's balance sheet accounts at a date */
+  private async balancesAt(tenantId: string, entityId: string, asOf: Date): Promise<LedgerBalance[]> {
+    const grouped = await prisma.journalLine.groupBy({
+      by: ['accountId'],
+      where: { journalEntry: { tenantId, entityId, date: { lte: asOf } } },
+      _sum: { debitCents: true, creditCents: true },
+    })
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { tenantId, entityId, id: { in: grouped.map((g) => g.accountId) }, type: { in: ['ASSET', 'LIABILITY', 'EQUITY'] } },
+      select: { id: true, code: true, name: true, type: true, subtype: true },
+    })
+    const accountsById = new Map(accounts.map((a) => [a.id, a]))
+
+    const balances: LedgerBalance[] = []
+    for (const row of grouped) {
+      const account = accountsById.get(row.accountId)
+      if (!account) continue
+      const cents = naturalBalance(account.type as LedgerAccountType, {
+        debitCents: row._sum.debitCents || 0,
+        creditCents: row._sum.creditCents || 0,
+      })
+      balances.push({ accountId: account.id, code: account.code, name: account.name, type: account.type, subtype: account.subtype, amount: cents / 100 })
+    }
+    return balances
+  }
+
+  /**
+   * Build the period's worksheet from the ledger and the adjustments given
+   */
+  async worksheet(tenantId: string, entityId: string, request: ZakatRequest, userId?: string): Promise<ZakatWorksheet> {
+    const entity = await this.saudiEntity(tenantId, entityId)
+    const warnings: string[] = []
+    const periodEnd = new Date(request.periodEnd)
+
+    const statement = await financialStatementsService.getStatement(tenantId, entityId, 'income-statement', {
+      from: new Date(request.periodStart),
+      to: periodEnd,
+    })
+    if (statement.currency !== 'SAR') warnings.push(`Ledger currency is ${statement.currency}, not SAR`)
+
+    const lines: ZakatLine[] = ledgerZakatLines(await this.balancesAt(tenantId, entityId, periodEnd), {
+      entityId,
+      from: request.periodStart,
+      to: request.periodEnd,
+      amount: (statement.totals.netIncomeCents ?? 0) / 100,
+    })
+    for (const adjustment of request.adjustments ?? []) {
+      const source = {
+        type: 'MANUAL' as const,
+        reference: adjustment.reference,
+        documentId: adjustment.documentId,
+        note: adjustment.note ?? adjustment.label,
+        createdBy: userId,
+        amount: adjustment.amount,
+      }
+      const line = adjustment.key ? lines.find((l) => l.key === adjustment.key) : undefined
+      if (line) {
+        if (line.section !== adjustment.section) throw new Error(`Adjustment to ${line.key} must be in the ${line.section} section`)
+        line.amount = round(line.amount + adjustment.amount)
+        line.sources.push(source)
+      } else {
+        lines.push({
+          key: adjustment.key ?? `manual-${lines.length + 1}`,
+          section: adjustment.section,
+          label: adjustment.label,
+          amount: round(adjustment.amount),
+          sources: [source],
+        })
+      }
+    }
+
+    const metadata = (entity.metadata as Record<string, any> | null) ?? {}
+    let ownership = request.saudiGccOwnershipPercent
+    if (ownership === undefined) {
+      if (typeof metadata.saudiGccOwnershipPercent === 'number') {
+        ownership = metadata.saudiGccOwnershipPercent as number
+      } else {
+        ownership = 100
+        warnings.push('Saudi/GCC ownership is not recorded; the whole base is treated as subject to Zakat')
+      }
+    }
+
+    const input: ZakatWorksheetInput = {
+      periodStart: request.periodStart,
+      periodEnd: request.periodEnd,
+      calendar: request.calendar ?? 'GREGORIAN',
+      saudiGccOwnershipPercent: ownership,
+      lines,
+    }
+    const worksheet = buildZakatWorksheet(input)
+    worksheet.warnings.unshift(...warnings)
+    return worksheet
+  }
+
+  /**
+   * Create the period's draft ZAKAT filing from its worksheet, or refresh
+   * the existing draft
+   */
+  async createDraftFiling(tenantId: string, userId: string, entityId: string, request: ZakatRequest) {
+    const worksheet = await this.worksheet(tenantId, entityId, request, userId)
+    const periodStartDate = new Date(request.periodStart)
+
+    const filed = await prisma.taxFiling.findFirst({
+      where: { tenantId, entityId, taxType: 'ZAKAT', periodStartDate, status: { not: 'DRAFT' } },
+      select: { id: true },
+    })
+    if (filed) throw new Error('Zakat return for this period has been submitted')
+
+    const { totals, warnings, ...input } = worksheet
+    const data: KSAZakatFiling = {
+      zakat: {
+        capitalAmount: totals.additions,
+        zakatBase: totals.zakatableBase,
+        zakatRate: ZAKAT_RATE,
+        zakatAmountDue: totals.zakatDue,
+      },
+      worksheet: input,
+    }
+    const workflow = new KSAZakatWorkflow()
+    const validation = workflow.validateZakatFiling(data)
+    if (!validation.isValid) {
+      throw new Error(`Filing data fails validation: ${validation.errors.map((e) => e.message).join('; ')}`)
+    }
+    const calculations = workflow.calculateZakat(data)
+
+    const fields = {
+      data: JSON.stringify(data),
+      calculations: JSON.stringify(calculations),
+      taxAmount: calculations.taxAmount,
+      metadata: JSON.stringify({ warnings: validation.warnings, generatedAt: new Date().toISOString() }),
+    }
+    const filing = await saveDraftFiling({
+      tenantId,
+      userId,
+      entityId,
+      country: 'SA',
+      taxType: 'ZAKAT',
+      periodStartDate,
+      periodEndDate: new Date(request.periodEnd),
+      fields,
+      auditAction: 'tax_filing.zakat',
+      auditMetadata: { zakatBase: totals.zakatBase, saudiGccOwnershipPercent: input.saudiGccOwnershipPercent, zakatDue: totals.zakatDue },
+    })
+    return { filing, worksheet, warnings: validation.warnings }
+  }
+}
+
+export const zakatService = new ZakatService()
+
+/**
+ * HTTP status for known Zakat errors, null for unexpected ones
+ */
+export function zakatErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null
+  const message = error.message
+  if (message === 'Entity not found' || message === 'Entity not found or unauthorized') return 404
+  if (message === 'Zakat return for this period has been submitted') return 409
+  if (
+    message === 'Zakat returns are only available for KSA entities' ||
+    (message.startsWith('Adjustment to ') && message.endsWith('section')) ||
+    message.startsWith('Filing data fails validation') ||
+    message.startsWith('Invalid period')
+  ) return 400
+  return null
+}
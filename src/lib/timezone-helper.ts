@@ -30,7 +30,7 @@ function pad(n: number): string { return n < 10 ? `0${n}` : `${n}` }
  * Get timezone offset in minutes using a more reliable approach.
  * Uses Date.getTimezoneOffset concept but applies it to a specific timezone.
  */
-function getOffsetMinutes(tz: string, date = new Date()): number {
+export function getOffsetMinutes(tz: string, date = new Date()): number {
   try {
     // Format the date in the target timezone
     const formatter = new Intl.DateTimeFormat('en-US', {
@@ -57,7 +57,7 @@ function getOffsetMinutes(tz: string, date = new Date()): number {
     const tzYear = values.year
     const tzMonth = values.month - 1 // JS months are 0-indexed
     const tzDay = values.day
-    const tzHours = values.hour
+    const tzHours = values.hour % 24 // some engines render midnight as 24
     const tzMinutes = values.minute
     const tzSeconds = values.second
 
@@ -77,6 +77,17 @@ function getOffsetMinutes(tz: string, date = new Date()): number {
   }
 }
 
+/**
+ * Convert a wall-clock time in the given timezone to a UTC instant.
+ * Re-checks the offset at the resulting instant so DST transitions resolve correctly.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, tz: string): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute)
+  const first = wall - getOffsetMinutes(tz, new Date(wall)) * 60000
+  const second = wall - getOffsetMinutes(tz, new Date(first)) * 60000
+  return new Date(second)
+}
+
 function formatOffset(mins: number): string {
   if (!isFinite(mins) || mins === 0) return 'UTC'
 
@@ -0,0 +1,31 @@
+import { z } from 'zod'
+
+export const BankRuleConditionSchema = z.object({
+  field: z.enum(['description', 'reference']).default('description'),
+  operator: z.enum(['contains', 'equals', 'startsWith', 'endsWith', 'regex']).default('contains'),
+  value: z.string().min(1).max(200),
+}).refine((c) => {
+  if (c.operator !== 'regex') return true
+  try {
+    new RegExp(c.value!)
+    return true
+  } catch {
+    return false
+  }
+}, { message: 'Invalid regular expression' })
+
+export const BankRuleSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  connectionId: z.string().nullable().optional(),
+  priority: z.number().int().min(0).max(10000).optional(),
+  direction: z.enum(['credit', 'debit']).nullable().optional(),
+  conditions: z.array(BankRuleConditionSchema).min(1).max(10),
+  minAmount: z.number().min(0).nullable().optional(),
+  maxAmount: z.number().min(0).nullable().optional(),
+  category: z.string().max(100).nullable().optional(),
+  accountId: z.string().nullable().optional(),
+  autoConfirm: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+})
+
+export const BankRuleUpdateSchema = BankRuleSchema.partial()
@@ -0,0 +1,9 @@
+import { z } from 'zod'
+import { WHT_PAYMENT_TYPES } from '@/lib/tax-workflows/ksa-wht'
+
+// A bill line; the payment type decides withholding tax for non-resident vendors
+export const BillLineSchema = z.object({
+  description: z.string().min(1).max(500),
+  amount: z.number().positive(),
+  whtPaymentType: z.enum(WHT_PAYMENT_TYPES).nullable().optional(),
+})
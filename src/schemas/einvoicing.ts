@@ -0,0 +1,107 @@
+import { z } from 'zod'
+
+export const ZATCADeviceSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  serialNumber: z.string().trim().regex(/^1-[^|]+\|2-[^|]+\|3-[^|]+$/, 'Serial number must look like 1-<solution>|2-<model>|3-<serial>').optional(),
+  environment: z.enum(['sandbox', 'simulation', 'production']).optional(),
+  invoiceTypes: z.string().regex(/^(1[01]|01)00$/, 'Invoice types must be 1100, 1000 or 0100').optional(),
+  vatNumber: z.string().trim().regex(/^3\d{13}3$/, 'VAT number must be 15 digits starting and ending with 3'),
+  sellerName: z.string().trim().min(1).max(200),
+  crNumber: z.string().trim().max(50).nullable().optional(),
+  entityId: z.string().nullable().optional(),
+  address: z.object({
+    streetName: z.string().max(200).optional(),
+    buildingNumber: z.string().regex(/^\d{4}$/).optional(),
+    additionalNumber: z.string().max(10).optional(),
+    district: z.string().max(120).optional(),
+    cityName: z.string().max(120).optional(),
+    postalCode: z.string().regex(/^\d{5}$/).optional(),
+    province: z.string().max(120).optional(),
+  }).nullable().optional(),
+})
+
+export const ZATCACSRSchema = z.object({
+  commonName: z.string().trim().min(1).max(64).optional(),
+  organizationUnitName: z.string().trim().min(1).max(64).optional(),
+  location: z.string().trim().min(1).max(120).optional(),
+  industry: z.string().trim().min(1).max(120).optional(),
+})
+
+export const ZATCAOTPSchema = z.object({
+  otp: z.string().trim().regex(/^\d{6}$/, 'OTP must be 6 digits'),
+})
+
+export const SubmitEInvoiceSchema = z.object({
+  invoiceId: z.string().min(1),
+  country: z.enum(['SA', 'EG']),
+  // ZATCA: the device whose CSID signs the invoice; defaults to the invoice entity's device
+  deviceId: z.string().optional(),
+  // ZATCA: a buyer VAT number makes the invoice standard (B2B, cleared) rather than simplified (reported).
+  // ETA: the buyer's 9-digit TIN, required since B2C sales go through e-receipts
+  buyerTaxId: z.string().trim().optional(),
+}).superRefine((value, ctx) => {
+  if (!value.buyerTaxId) return
+  if (value.country === 'SA' && !/^3\d{13}3$/.test(value.buyerTaxId)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buyerTaxId'], message: 'Buyer VAT number must be 15 digits starting and ending with 3' })
+  }
+  if (value.country === 'EG' && !/^\d{9}$/.test(value.buyerTaxId)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buyerTaxId'], message: 'Buyer TIN must be 9 digits' })
+  }
+})
+
+export const EInvoiceSubmissionQuerySchema = z.object({
+  status: z.enum(['QUEUED', 'SUBMITTING', 'RETRYING', 'CLEARED', 'REPORTED', 'ACCEPTED', 'REJECTED', 'FAILED', 'SUPERSEDED']).optional(),
+  standard: z.enum(['ZATCA', 'ETA']).optional(),
+  invoiceId: z.string().optional(),
+  attention: z.enum(['true', 'false']).optional(),
+  overdue: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+const ETAReceiptItemSchema = z.object({
+  internalCode: z.string().trim().min(1).max(50),
+  description: z.string().trim().min(1).max(500),
+  itemType: z.enum(['GS1', 'EGS']).optional(),
+  itemCode: z.string().trim().min(1).max(100),
+  unitType: z.string().trim().min(1).max(10).optional(),
+  quantity: z.number().positive(),
+  unitPrice: z.number().nonnegative(),
+  taxRate: z.number().min(0).max(100).optional(),
+})
+
+export const ETAReceiptSchema = z.object({
+  entityId: z.string().min(1),
+  posSerial: z.string().trim().min(1).max(100),
+  branchCode: z.string().trim().max(20).optional(),
+  receiptNumber: z.string().trim().min(1).max(100),
+  dateTimeIssued: z.coerce.date().optional(),
+  receiptType: z.enum(['S', 'R']).optional(),
+  // Returns reference the original sale receipt
+  referenceUuid: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+  currency: z.string().length(3).optional(),
+  buyer: z.object({
+    type: z.enum(['P', 'B', 'F']),
+    id: z.string().trim().max(30).optional(),
+    name: z.string().trim().max(200).optional(),
+    mobileNumber: z.string().trim().max(20).optional(),
+  }).optional(),
+  paymentMethod: z.enum(['C', 'V', 'CC', 'O']).optional(),
+  items: z.array(ETAReceiptItemSchema).min(1).max(500),
+}).refine((value) => value.receiptType !== 'R' || Boolean(value.referenceUuid), {
+  message: 'Returns must reference the original receipt',
+  path: ['referenceUuid'],
+})
+
+export const ETAReceiptQuerySchema = z.object({
+  status: z.enum(['PENDING', 'SUBMITTED', 'VALID', 'INVALID']).optional(),
+  posSerial: z.string().optional(),
+  batchId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+export const ETAReceiptSummaryQuerySchema = z.object({
+  entityId: z.string().min(1),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  posSerial: z.string().optional(),
+})
@@ -0,0 +1,44 @@
+import { z } from 'zod'
+
+export const AllocationSchema = z.object({
+  invoiceId: z.string().min(1),
+  amountCents: z.number().int().positive(),
+})
+
+export const AllocationListSchema = z.object({
+  allocations: z.array(AllocationSchema).max(100).optional(),
+})
+
+export const PaymentSchema = z.object({
+  clientId: z.string().nullable().optional(),
+  entityId: z.string().nullable().optional(),
+  currency: z.string().trim().length(3),
+  amountCents: z.number().int().positive(),
+  method: z.enum(['card', 'bank_transfer', 'cash', 'cheque', 'other']).default('bank_transfer'),
+  reference: z.string().max(200).nullable().optional(),
+  receivedAt: z.coerce.date().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  allocations: z.array(AllocationSchema).max(100).optional(),
+  autoAllocate: z.boolean().optional(),
+})
+
+export const CreditNoteSchema = z.object({
+  invoiceId: z.string().nullable().optional(),
+  clientId: z.string().nullable().optional(),
+  entityId: z.string().nullable().optional(),
+  currency: z.string().trim().length(3).optional(),
+  amountCents: z.number().int().positive(),
+  reason: z.string().max(1000).nullable().optional(),
+  apply: z.boolean().optional(),
+}).refine((c) => !!c.invoiceId || (!!c.clientId && !!c.currency), {
+  message: 'Provide an invoice, or a client and currency',
+})
+
+export const RefundSchema = z.object({
+  amountCents: z.number().int().positive(),
+  reason: z.string().max(500).nullable().optional(),
+})
+
+export const CreditNoteRefundSchema = RefundSchema.extend({
+  paymentId: z.string().nullable().optional(),
+})
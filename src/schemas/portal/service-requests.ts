@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { RecurringPatternSchema } from '@/schemas/shared/booking'
 
 // Shared base schema for creating a portal Service Request (request or booking)
 export const PortalCreateBaseSchema = z.object({
@@ -35,13 +36,7 @@ export const PortalCreateBookingSchema = PortalCreateBaseSchema.extend({
   scheduledAt: z.string().datetime(),
   duration: z.number().int().positive().optional(),
   bookingType: z.enum(['STANDARD','RECURRING','EMERGENCY','CONSULTATION']).optional(),
-  recurringPattern: z.object({
-    frequency: z.enum(['DAILY','WEEKLY','MONTHLY']),
-    interval: z.number().int().positive().optional(),
-    count: z.number().int().positive().optional(),
-    until: z.string().datetime().optional(),
-    byWeekday: z.array(z.number().int().min(0).max(6)).optional(),
-  }).optional(),
+  recurringPattern: RecurringPatternSchema.optional(),
 })
 
 export const PortalCreateSchema = z.union([PortalCreateRequestSchema, PortalCreateBookingSchema])
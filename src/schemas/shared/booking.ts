@@ -5,6 +5,7 @@
 
 import { z } from 'zod';
 import { BookingStatus } from '@/types/shared';
+import { parseRecurrenceRule } from '@/lib/calendar/rrule';
 
 /**
  * Base booking schema
@@ -105,6 +106,119 @@ export const BookingBulkActionSchema = z.object({
   value: z.union([z.string(), z.number()]).optional(),
 });
 
+/**
+ * Recurrence pattern of a booking series: structured fields or a full RRULE
+ */
+export const RecurringPatternSchema = z.object({
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']).optional(),
+  interval: z.number().int().positive().optional(),
+  count: z.number().int().positive().max(366).optional(),
+  until: z.string().datetime().optional(),
+  byWeekday: z.array(z.number().int().min(0).max(6)).optional(),
+  byDay: z.array(z.string().regex(/^([+-]?([1-9]|[1-4]\d|5[0-3]))?(MO|TU|WE|TH|FR|SA|SU)$/i, 'Invalid BYDAY entry')).optional(),
+  byMonthDay: z.array(z.number().int().min(-31).max(31).refine((n) => n !== 0, 'Month day cannot be 0')).optional(),
+  byMonth: z.array(z.number().int().min(1).max(12)).optional(),
+  bySetPos: z.array(z.number().int().min(-366).max(366).refine((n) => n !== 0, 'Set position cannot be 0')).optional(),
+  rrule: z.string().max(500).refine((v) => parseRecurrenceRule(v, 'UTC', { strict: true }) !== null, 'Unsupported RRULE').optional(),
+  timeZone: z.string().max(64).optional(),
+  exdates: z.array(z.string().datetime()).max(366).optional(),
+  rdates: z.array(z.string().datetime()).max(366).optional(),
+}).refine((p) => !!p.frequency || !!p.rrule, { message: 'Either frequency or rrule is required', path: ['frequency'] });
+
+/**
+ * Edit of a booking series from one occurrence: just it, it and the ones after, or all
+ */
+export const BookingSeriesEditSchema = z.object({
+  scope: z.enum(['THIS', 'FOLLOWING', 'ALL']),
+  scheduledAt: z.string().datetime().optional(),
+  duration: z.number().int().positive().optional(),
+  assignedTeamMemberId: z.string().nullable().optional(),
+  recurringPattern: RecurringPatternSchema.optional(),
+  cancel: z.boolean().optional(),
+  skipConflicts: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+/**
+ * Per-service cancellation and rescheduling policy
+ */
+export const BookingPolicySchema = z.object({
+  rescheduleNoticeHours: z.number().int().min(0).max(8760).nullable().optional(),
+  maxReschedules: z.number().int().min(0).max(100).nullable().optional(),
+  cancellationNoticeHours: z.number().int().min(0).max(8760).nullable().optional(),
+  lateCancelFees: z.array(
+    z.object({
+      hoursBefore: z.number().min(0).max(8760),
+      percent: z.number().min(0).max(100).optional(),
+      amountCents: z.number().int().min(0).optional(),
+    }).refine((t) => (t.percent == null) !== (t.amountCents == null), { message: 'Set either percent or amountCents' })
+  ).max(10).nullable().optional(),
+  noShowFeePercent: z.number().int().min(0).max(100).nullable().optional(),
+  noShowFeeCents: z.number().int().min(0).nullable().optional(),
+  currency: z.string().length(3).optional(),
+  chargeSavedMethod: z.boolean().optional(),
+  policyText: z.string().max(2000).nullable().optional(),
+});
+
+/**
+ * Client joining the waitlist for a service
+ */
+export const BookingWaitlistJoinSchema = z.object({
+  serviceId: z.string().min(1),
+  earliestAt: z.string().datetime(),
+  latestAt: z.string().datetime(),
+  notes: z.string().max(500).optional(),
+});
+
+/**
+ * Bookable resource (room, equipment) shared by services
+ */
+export const BookingResourceSchema = z.object({
+  name: z.string().min(1).max(120),
+  type: z.enum(['ROOM', 'EQUIPMENT', 'VIRTUAL', 'OTHER']),
+  capacity: z.number().int().min(1).max(1000).optional(),
+  location: z.string().max(200).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+export const BookingResourceUpdateSchema = BookingResourceSchema.partial();
+
+/**
+ * Resources and staff each booking of a service needs
+ */
+export const ServiceResourceRequirementsSchema = z.object({
+  requirements: z.array(
+    z.object({
+      kind: z.enum(['RESOURCE', 'RESOURCE_TYPE', 'STAFF']),
+      resourceId: z.string().min(1).nullable().optional(),
+      resourceType: z.enum(['ROOM', 'EQUIPMENT', 'VIRTUAL', 'OTHER']).nullable().optional(),
+      skills: z.array(z.string().min(1).max(60)).max(10).optional(),
+      quantity: z.number().int().min(1).max(1000).optional(),
+    })
+  ).max(20),
+});
+
+/**
+ * Staff scheduling a group session
+ */
+export const GroupSessionCreateSchema = z.object({
+  serviceId: z.string().min(1),
+  scheduledAt: z.string().datetime(),
+  durationMinutes: z.number().int().min(15).max(8 * 60).optional(),
+  capacity: z.number().int().min(1).max(1000).optional(),
+  teamMemberId: z.string().min(1).nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+/**
+ * Client registering for seats in a group session
+ */
+export const GroupSessionRegisterSchema = z.object({
+  seats: z.number().int().min(1).max(50).default(1),
+  successUrl: z.string().url().optional(),
+  cancelUrl: z.string().url().optional(),
+});
+
 /**
  * Infer TypeScript types from schemas
  */
@@ -117,6 +231,14 @@ export type BookingCancellation = z.infer<typeof BookingCancellationSchema>;
 export type BookingConfirmation = z.infer<typeof BookingConfirmationSchema>;
 export type AvailabilitySlot = z.infer<typeof AvailabilitySlotSchema>;
 export type BookingBulkAction = z.infer<typeof BookingBulkActionSchema>;
+export type RecurringPatternInput = z.infer<typeof RecurringPatternSchema>;
+export type BookingSeriesEdit = z.infer<typeof BookingSeriesEditSchema>;
+export type BookingPolicyInput = z.infer<typeof BookingPolicySchema>;
+export type BookingWaitlistJoin = z.infer<typeof BookingWaitlistJoinSchema>;
+export type BookingResourceInput = z.infer<typeof BookingResourceSchema>;
+export type ServiceResourceRequirements = z.infer<typeof ServiceResourceRequirementsSchema>;
+export type GroupSessionCreate = z.infer<typeof GroupSessionCreateSchema>;
+export type GroupSessionRegister = z.infer<typeof GroupSessionRegisterSchema>;
 
 /**
  * Helper validation functions
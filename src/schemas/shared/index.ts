@@ -30,6 +30,15 @@ export {
   BookingConfirmationSchema,
   AvailabilitySlotSchema,
   BookingBulkActionSchema,
+  RecurringPatternSchema,
+  BookingSeriesEditSchema,
+  BookingPolicySchema,
+  BookingWaitlistJoinSchema,
+  BookingResourceSchema,
+  BookingResourceUpdateSchema,
+  ServiceResourceRequirementsSchema,
+  GroupSessionCreateSchema,
+  GroupSessionRegisterSchema,
   validateBookingCreate,
   safeParseBookingCreate,
   validateBookingReschedule,
@@ -41,6 +50,14 @@ export {
   type BookingConfirmation,
   type AvailabilitySlot,
   type BookingBulkAction,
+  type RecurringPatternInput,
+  type BookingSeriesEdit,
+  type BookingPolicyInput,
+  type BookingWaitlistJoin,
+  type BookingResourceInput,
+  type ServiceResourceRequirements,
+  type GroupSessionCreate,
+  type GroupSessionRegister,
 } from './booking';
 
 // Task schemas and types
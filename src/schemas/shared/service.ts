@@ -39,6 +39,7 @@ export const ServiceCreateSchema = ServiceBaseSchema.extend({
   minAdvanceHours: z.number().int().min(0).default(24),
   maxDailyBookings: z.number().int().positive().optional().nullable(),
   bufferTime: z.number().int().min(0).default(0),
+  groupCapacity: z.number().int().min(2).max(1000).optional().nullable(),
   businessHours: z.record(z.any()).optional().nullable(),
   blackoutDates: z.array(z.string()).optional(),
   serviceSettings: z.record(z.any()).optional().nullable(),
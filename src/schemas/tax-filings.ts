@@ -0,0 +1,109 @@
+import { z } from 'zod'
+
+const amount = z.number().finite()
+const nonNegative = z.number().finite().min(0)
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+
+const CorporateTaxFiguresSchema = z.object({
+  revenue: nonNegative.optional(),
+  accountingIncome: amount.optional(),
+  depreciationAndAmortisation: nonNegative.optional(),
+  nonDeductible: z.object({
+    entertainment: nonNegative.optional(),
+    finesAndPenalties: nonNegative.optional(),
+    donations: nonNegative.optional(),
+    corporateTax: nonNegative.optional(),
+    other: amount.optional(),
+  }).optional(),
+  exemptIncome: z.object({
+    domesticDividends: nonNegative.optional(),
+    other: nonNegative.optional(),
+  }).optional(),
+  participations: z.array(z.object({
+    name: z.string().trim().min(1).max(200),
+    ownershipPercent: z.number().min(0).max(100),
+    acquisitionCost: nonNegative.optional(),
+    heldMonths: z.number().int().min(0),
+    subjectToTax: z.boolean(),
+    dividends: nonNegative.optional(),
+    gains: amount.optional(),
+  })).max(100).optional(),
+  interest: z.object({ expense: nonNegative, income: nonNegative }).optional(),
+  taxCredits: z.object({
+    foreignTax: nonNegative.optional(),
+    withholdingTax: nonNegative.optional(),
+  }).optional(),
+})
+
+export const CorporateTaxRequestSchema = CorporateTaxFiguresSchema.extend({
+  entityId: z.string().min(1),
+  periodStart: isoDate,
+  periodEnd: isoDate,
+  smallBusinessRelief: z.object({
+    elected: z.boolean(),
+    revenueExceededInPriorPeriod: z.boolean().optional(),
+  }).optional(),
+  mneGroupMember: z.boolean().optional(),
+  freeZone: z.object({
+    qualifyingIncome: nonNegative,
+    nonQualifyingRevenue: nonNegative,
+    adequateSubstance: z.boolean(),
+  }).optional(),
+  // Opening balances, used until a previous return carries them forward
+  losses: z.object({
+    broughtForward: nonNegative,
+    continuityMet: z.boolean().optional(),
+  }).optional(),
+  disallowedInterestBroughtForward: nonNegative.optional(),
+  taxGroup: z.object({
+    members: z.array(CorporateTaxFiguresSchema.extend({ entityId: z.string().min(1) })).min(1).max(100),
+    eliminations: amount.optional(),
+  }).optional(),
+}).refine((v) => v.periodStart < v.periodEnd, { message: 'Period end must be after period start', path: ['periodEnd'] })
+
+export const TaxGroupQuerySchema = z.object({
+  entityId: z.string().min(1),
+})
+
+export const ZakatRequestSchema = z.object({
+  entityId: z.string().min(1),
+  periodStart: isoDate,
+  periodEnd: isoDate,
+  calendar: z.enum(['HIJRI', 'GREGORIAN']).optional(),
+  saudiGccOwnershipPercent: z.number().min(0).max(100).optional(),
+  adjustments: z.array(z.object({
+    key: z.string().trim().min(1).max(100).optional(),
+    section: z.enum(['ADDITION', 'DEDUCTION', 'NET_PROFIT']),
+    label: z.string().trim().min(1).max(200),
+    amount,
+    reference: z.string().trim().max(200).optional(),
+    documentId: z.string().min(1).optional(),
+    note: z.string().trim().max(1000).optional(),
+  })).max(200).optional(),
+}).refine((v) => v.periodStart < v.periodEnd, { message: 'Period end must be after period start', path: ['periodEnd'] })
+
+const yearMonth = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Periods must be YYYY-MM')
+
+export const WhtReturnRequestSchema = z.object({
+  entityId: z.string().min(1),
+  period: yearMonth,
+})
+
+export const WhtRemittanceQuerySchema = z.object({
+  entityId: z.string().min(1),
+  from: yearMonth,
+  to: yearMonth,
+}).refine((v) => v.from <= v.to, { message: 'Period end must not be before period start', path: ['to'] })
+
+export const WhtCertificateQuerySchema = z.object({
+  entityId: z.string().min(1),
+  partyId: z.string().min(1),
+  from: yearMonth,
+  to: yearMonth,
+}).refine((v) => v.from <= v.to, { message: 'Period end must not be before period start', path: ['to'] })
+
+export const WhtRemittanceSchema = z.object({
+  paidAt: isoDate,
+  reference: z.string().trim().min(1).max(100),
+  amount: nonNegative,
+})
@@ -280,6 +280,11 @@ export class BookingSettingsService {
       warnings.push({ field: 'advanceBookingDays', message: 'Advance booking period exceeds 730 days (2 years).', suggestion: 'Reduce to improve performance.' })
     }
 
+    const cs = updates.customerSettings
+    if (typeof cs?.waitlistHoldMinutes === 'number' && (cs.waitlistHoldMinutes < 5 || cs.waitlistHoldMinutes > 10080)) {
+      errors.push({ field: 'waitlistHoldMinutes', code: 'INVALID_RANGE', message: 'Waitlist hold must be between 5 minutes and 7 days.' })
+    }
+
     const steps = updates.stepSettings
     if (steps) {
       const required = ['enableServiceSelection', 'enableDateTimeSelection', 'enableCustomerDetails'] as const
@@ -11,6 +11,7 @@ export enum ApprovalItemType {
   SERVICE_REQUEST = "SERVICE_REQUEST",
   ENTITY = "ENTITY",
   USER = "USER",
+  ACCOUNTING_PERIOD = "ACCOUNTING_PERIOD",
   OTHER = "OTHER",
 }
 
@@ -3,6 +3,8 @@
  * Production-ready type definitions for Bills management
  */
 
+import type { BillLineInput } from "@/lib/tax-workflows/ksa-wht";
+
 export enum BillStatus {
   PENDING = "PENDING",
   APPROVED = "APPROVED",
@@ -56,11 +58,27 @@ export interface Bill {
   notes?: string;
   tags?: string[];
   
+  // Vendor master record and withholding tax
+  partyId?: string;
+  whtAmount?: number;
+  paidAt?: Date | string;
+  lines?: BillLine[];
+  
   // Timestamps
   createdAt: Date | string;
   updatedAt: Date | string;
 }
 
+export interface BillLine {
+  id: string;
+  description: string;
+  amount: number;
+  whtPaymentType?: string;
+  whtRate: number;
+  whtAmount: number;
+  whtTreatyRateId?: string;
+}
+
 export interface OcrExtractedData {
   vendor?: string;
   amount?: number;
@@ -92,6 +110,11 @@ export interface BillCreateInput {
   notes?: string;
   tags?: string[];
   attachmentId?: string;
+  entityId?: string;
+  taxCodeId?: string;
+  partyId?: string;
+  // Must add up to the amount; withholding is computed per line
+  lines?: BillLineInput[];
 }
 
 export interface BillUpdateInput {
@@ -106,6 +129,9 @@ export interface BillUpdateInput {
   notes?: string;
   tags?: string[];
   billNumber?: string;
+  taxCodeId?: string | null;
+  partyId?: string | null;
+  lines?: BillLineInput[];
 }
 
 export interface BillFilters {
@@ -44,6 +44,7 @@ export interface BookingSettings {
   showTeamMemberSelection: boolean;
   allowRecurringBookings: boolean;
   enableWaitlist: boolean;
+  waitlistHoldMinutes: number;
   enableAutoAssignment: boolean;
   assignmentStrategy: AssignmentStrategy;
   considerWorkload: boolean;
@@ -151,7 +152,7 @@ export interface BookingSettingsUpdateRequest {
 
   customerSettings?: Partial<Pick<BookingSettings,
     'requireLogin' | 'allowGuestBooking' | 'showPricing' | 'showTeamMemberSelection' |
-    'allowRecurringBookings' | 'enableWaitlist'>>;
+    'allowRecurringBookings' | 'enableWaitlist' | 'waitlistHoldMinutes'>>;
 
   assignmentSettings?: Partial<Pick<BookingSettings,
     'enableAutoAssignment' | 'assignmentStrategy' | 'considerWorkload' | 'considerSpecialization'>>;
@@ -7,6 +7,8 @@ export type NotificationType =
   | 'booking_confirmed'
   | 'booking_cancelled'
   | 'booking_rescheduled'
+  | 'waitlist_offer'
+  | 'waitlist_offer_expired'
   | 'task_assigned'
   | 'task_status_changed'
   | 'task_due_soon'
@@ -20,6 +20,7 @@ export interface ServiceSchedulingSettings {
   minAdvanceHours?: number;
   maxDailyBookings?: number | null;
   bufferTime?: number;
+  groupCapacity?: number | null;
   businessHours?: Record<string, unknown> | null;
   blackoutDates?: string[];
 }
@@ -91,6 +92,7 @@ export interface ServiceFormData {
   minAdvanceHours?: number | null;
   maxDailyBookings?: number | null;
   bufferTime?: number | null;
+  groupCapacity?: number | null;
   requiredSkills?: string[];
   serviceSettings?: Record<string, unknown> | null;
   blackoutDates?: string[];
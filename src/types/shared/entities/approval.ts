@@ -17,6 +17,7 @@ export enum ApprovalItemType {
   SERVICE_REQUEST = 'SERVICE_REQUEST',
   ENTITY = 'ENTITY',
   USER = 'USER',
+  ACCOUNTING_PERIOD = 'ACCOUNTING_PERIOD',
   OTHER = 'OTHER',
 }
 
@@ -60,6 +60,7 @@ export interface Service {
   minAdvanceHours?: number; // [ADMIN] - Minimum hours before booking is allowed
   maxDailyBookings?: number | null; // [ADMIN] - Limit bookings per day
   bufferTime?: number; // [ADMIN] - Minutes between bookings
+  groupCapacity?: number | null; // [PORTAL] [ADMIN] - Seats per group session; unset for one-to-one bookings
   
   // Advanced admin settings
   businessHours?: Record<string, unknown> | null; // [ADMIN]
@@ -122,6 +123,7 @@ export interface ServiceFormData {
   minAdvanceHours?: number | null;
   maxDailyBookings?: number | null;
   bufferTime?: number | null;
+  groupCapacity?: number | null;
   requiredSkills?: string[];
   serviceSettings?: Record<string, unknown> | null;
   blackoutDates?: string[];
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { describePolicy, evaluateCancellation, evaluateReschedule, noShowFee, resolvePolicy } from '@/lib/booking/policy'
+
+const now = new Date('2025-06-02T09:00:00Z')
+const hoursAhead = (h: number) => new Date(now.getTime() + h * 60 * 60 * 1000)
+
+const policy = {
+  rescheduleNoticeHours: 12,
+  maxReschedules: 2,
+  cancellationNoticeHours: 48,
+  lateCancelFees: [
+    { hoursBefore: 24, percent: 50 },
+    { hoursBefore: 48, amountCents: 1500 },
+  ],
+  noShowFeePercent: 100,
+  noShowFeeCents: null,
+  currency: 'USD',
+  chargeSavedMethod: true,
+  policyText: null,
+}
+
+describe('resolvePolicy', () => {
+  it('falls back to the tenant booking settings', () => {
+    const rules = resolvePolicy(null, { allowCancellation: true, allowRescheduling: false, cancellationDeadlineHours: 24, rescheduleDeadlineHours: 6 })
+    expect(rules.allowRescheduling).toBe(false)
+    expect(rules.cancellationNoticeHours).toBe(24)
+    expect(rules.lateCancelFees).toEqual([])
+    expect(evaluateCancellation(rules, { scheduledAt: hoursAhead(2) }, 10000, now)).toMatchObject({ allowed: false })
+  })
+})
+
+describe('evaluateReschedule', () => {
+  const rules = resolvePolicy(policy, null)
+
+  it('enforces the notice and the reschedule count', () => {
+    expect(evaluateReschedule(rules, { scheduledAt: hoursAhead(24), rescheduleCount: 1 }, now).allowed).toBe(true)
+    expect(evaluateReschedule(rules, { scheduledAt: hoursAhead(6), rescheduleCount: 0 }, now)).toMatchObject({
+      allowed: false,
+      reason: 'Bookings can be rescheduled up to 12 hours before the start',
+    })
+    expect(evaluateReschedule(rules, { scheduledAt: hoursAhead(24), rescheduleCount: 2 }, now)).toMatchObject({ allowed: false })
+    expect(evaluateReschedule(rules, { scheduledAt: hoursAhead(-1), rescheduleCount: 0 }, now)).toMatchObject({ allowed: false })
+  })
+})
+
+describe('evaluateCancellation', () => {
+  const rules = resolvePolicy(policy, null)
+
+  it('charges the tier matching the notice given', () => {
+    expect(evaluateCancellation(rules, { scheduledAt: hoursAhead(72) }, 10000, now)).toMatchObject({ allowed: true, feeCents: 0 })
+    expect(evaluateCancellation(rules, { scheduledAt: hoursAhead(30) }, 10000, now)).toMatchObject({ allowed: true, feeCents: 1500 })
+    expect(evaluateCancellation(rules, { scheduledAt: hoursAhead(3) }, 10000, now)).toMatchObject({ allowed: true, feeCents: 5000 })
+    expect(evaluateCancellation(rules, { scheduledAt: hoursAhead(-1) }, 10000, now)).toMatchObject({ allowed: false })
+  })
+
+  it('prices no-shows and describes the policy', () => {
+    expect(noShowFee(rules, 12345)).toBe(12345)
+    expect(describePolicy(rules)).toBe(
+      'You can reschedule up to 12 hours before your appointment, at most 2 times. ' +
+        'Cancellation is free up to 48 hours before your appointment. ' +
+        'Cancelling less than 24 hours before costs 50% of the booking price. ' +
+        'Cancelling between 24 and 48 hours before costs USD 15.00. ' +
+        'Missed appointments are charged 100% of the booking price.'
+    )
+    expect(describePolicy(resolvePolicy({ ...policy, policyText: ' Our own words. ' }, null))).toBe('Our own words.')
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { peakUsage, planResources } from '@/lib/booking/resource-planner'
+
+const at = (hhmm: string) => new Date(`2025-06-05T${hhmm}:00Z`)
+const start = at('10:00')
+const end = at('11:00')
+
+const resources = [
+  { id: 'board', type: 'ROOM', capacity: 1 },
+  { id: 'small', type: 'ROOM', capacity: 1 },
+  { id: 'training', type: 'ROOM', capacity: 12 },
+]
+const staff = [
+  { id: 'amal', skills: ['VAT', 'Zakat'] },
+  { id: 'omar', skills: ['vat'] },
+  { id: 'sara', skills: ['Payroll'] },
+]
+
+describe('peakUsage', () => {
+  it('counts units held at the same moment, not everything that overlaps', () => {
+    const usage = [
+      { resourceId: 'training', units: 4, start: at('09:30'), end: at('10:15') },
+      { resourceId: 'training', units: 5, start: at('10:30'), end: at('11:30') },
+      { resourceId: 'training', units: 2, start: at('10:45'), end: at('11:00') },
+    ]
+    expect(peakUsage(usage, start, end)).toBe(7)
+  })
+})
+
+describe('planResources', () => {
+  it('books a meeting room plus two advisors with the skill', () => {
+    const plan = planResources(
+      [
+        { id: 'advisors', kind: 'STAFF', skills: ['VAT'], quantity: 2 },
+        { id: 'room', kind: 'RESOURCE_TYPE', resourceType: 'ROOM', quantity: 1 },
+      ],
+      { resources, staff, usage: [], start, end, preferredStaffId: 'omar' }
+    )
+    expect(plan.ok).toBe(true)
+    expect(plan.allocations).toEqual([
+      // Best fit keeps the training room free
+      { requirementId: 'room', resourceId: 'board', units: 1 },
+      { requirementId: 'advisors', teamMemberId: 'omar', units: 1 },
+      { requirementId: 'advisors', teamMemberId: 'amal', units: 1 },
+    ])
+  })
+
+  it('fails on the first requirement that cannot be met', () => {
+    const usage = [{ teamMemberId: 'amal', units: 1, start: at('10:30'), end: at('12:00') }]
+    const plan = planResources([{ id: 'advisors', kind: 'STAFF', skills: ['VAT'], quantity: 2 }], { resources, staff, usage, start, end })
+    expect(plan).toEqual({ ok: false, allocations: [], unmet: { requirementId: 'advisors', kind: 'STAFF', needed: 2, free: 1 } })
+  })
+
+  it('shares a resource up to its capacity', () => {
+    const requirements = [{ id: 'seats', kind: 'RESOURCE' as const, resourceId: 'training', quantity: 5 }]
+    const usage = [{ resourceId: 'training', units: 7, start, end }]
+    expect(planResources(requirements, { resources, staff, usage, start, end }).ok).toBe(true)
+
+    usage.push({ resourceId: 'training', units: 1, start: at('10:30'), end })
+    expect(planResources(requirements, { resources, staff, usage, start, end }).unmet).toMatchObject({ needed: 5, free: 4 })
+  })
+})
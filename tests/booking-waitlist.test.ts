@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db: any = { entries: [] as any[], offers: [] as any[] }
+
+const matches = (row: any, where: any = {}): boolean =>
+  Object.entries(where).every(([k, cond]: [string, any]) => {
+    if (k === 'offers') return !db.offers.some((o: any) => o.entryId === row.id && o.start.getTime() === cond.none.start.getTime())
+    if (cond && typeof cond === 'object' && !(cond instanceof Date)) {
+      if ('in' in cond) return cond.in.includes(row[k])
+      if ('lte' in cond && !(row[k] <= cond.lte)) return false
+      if ('gte' in cond && !(row[k] >= cond.gte)) return false
+      if ('lt' in cond && !(row[k] < cond.lt)) return false
+      if ('gt' in cond && !(row[k] > cond.gt)) return false
+      return true
+    }
+    return cond instanceof Date ? row[k]?.getTime() === cond.getTime() : row[k] === cond
+  })
+
+// Plain functions: the shared setup resets vi.fn implementations before every test
+const table = (rows: () => any[], prefix: string) => ({
+  findFirst: async ({ where }: any) => rows().filter((r) => matches(r, where)).sort((a, b) => a.createdAt - b.createdAt)[0] ?? null,
+  findMany: async ({ where }: any) => rows().filter((r) => matches(r, where)).map((r) => ({ ...r, service: { name: 'Tax review' } })),
+  count: async ({ where }: any) => rows().filter((r) => matches(r, where)).length,
+  create: async ({ data }: any) => {
+    const row = { id: `${prefix}${rows().length + 1}`, status: 'OFFERED', createdAt: new Date(), ...data }
+    rows().push(row)
+    return row
+  },
+  update: async ({ where, data }: any) => Object.assign(rows().find((r) => r.id === where.id), data),
+  updateMany: async ({ where, data }: any) => {
+    const hit = rows().filter((r) => matches(r, where))
+    hit.forEach((r) => Object.assign(r, data))
+    return { count: hit.length }
+  },
+})
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    bookingWaitlistEntry: table(() => db.entries, 'e'),
+    bookingWaitlistOffer: table(() => db.offers, 'o'),
+    service: { findFirst: async () => ({ name: 'Tax review', duration: 60, bookingEnabled: true }) },
+    bookingSettings: { findUnique: async () => ({ waitlistHoldMinutes: 30 }) },
+  },
+}))
+vi.mock('@/lib/booking/conflict-detection', () => ({ checkBookingConflict: async () => ({ conflict: false }) }))
+vi.mock('@/lib/notifications/hub', () => ({ NotificationHub: { send: vi.fn(async () => ({})) } }))
+vi.mock('@/lib/realtime-enhanced', () => ({ realtimeService: { broadcastToUser: vi.fn(), emitAvailabilityUpdate: vi.fn() } }))
+vi.mock('@/lib/calendar/calendar-sync-service', () => ({ calendarSyncService: { syncBookingSafe: vi.fn() } }))
+
+const now = new Date('2025-06-02T09:00:00Z')
+const slot = new Date('2025-06-05T10:00:00Z')
+const entry = (id: string, clientId: string, createdAt: string) => ({
+  id,
+  tenantId: 't1',
+  serviceId: 's1',
+  clientId,
+  status: 'WAITING',
+  earliestAt: new Date('2025-06-03T00:00:00Z'),
+  latestAt: new Date('2025-06-10T00:00:00Z'),
+  createdAt: new Date(createdAt),
+})
+
+describe('BookingWaitlistService', () => {
+  let bookingWaitlistService: typeof import('@/lib/booking/waitlist').bookingWaitlistService
+  let NotificationHub: typeof import('@/lib/notifications/hub').NotificationHub
+
+  beforeEach(async () => {
+    ;({ bookingWaitlistService } = await import('@/lib/booking/waitlist'))
+    ;({ NotificationHub } = await import('@/lib/notifications/hub'))
+    db.entries = [entry('e1', 'u1', '2025-05-01T00:00:00Z'), entry('e2', 'u2', '2025-05-02T00:00:00Z')]
+    db.offers = []
+    vi.mocked(NotificationHub.send).mockClear()
+  })
+
+  it('holds a freed slot for the longest waiting client and cascades it when the hold expires', async () => {
+    const offer = await bookingWaitlistService.offerFreedSlot('t1', 's1', slot, now)
+    expect(offer).toMatchObject({ clientId: 'u1', source: 'CANCELLATION', expiresAt: new Date('2025-06-02T09:30:00Z') })
+    expect(db.entries[0].status).toBe('OFFERED')
+    expect(NotificationHub.send).toHaveBeenCalledWith(expect.objectContaining({ userId: 'u1', type: 'waitlist_offer', channels: ['in_app', 'email'] }))
+
+    // The same slot is not offered twice while held
+    expect(await bookingWaitlistService.offerFreedSlot('t1', 's1', slot, now)).toBeNull()
+
+    const result = await bookingWaitlistService.expireHolds(new Date('2025-06-02T09:31:00Z'))
+    expect(result).toEqual({ expired: 1, cascaded: 1, closed: 0 })
+    expect(db.offers.map((o: any) => [o.clientId, o.status, o.source])).toEqual([
+      ['u1', 'EXPIRED', 'CANCELLATION'],
+      ['u2', 'OFFERED', 'CASCADE'],
+    ])
+    // u1 keeps waiting but is not offered the slot they let lapse again
+    expect(db.entries[0].status).toBe('WAITING')
+  })
+
+  it('reports demand per service and day', async () => {
+    db.offers.push({ id: 'o1', tenantId: 't1', serviceId: 's1', status: 'ACCEPTED', createdAt: new Date('2025-06-03T00:00:00Z') })
+    const [row] = await bookingWaitlistService.demand('t1', { from: new Date('2025-06-01T00:00:00Z'), to: new Date('2025-06-05T00:00:00Z') })
+    expect(row).toMatchObject({ serviceId: 's1', waiting: 2, offered: 1, accepted: 1, conversionRate: 1 })
+    expect(row.byDay).toEqual({ '2025-06-03': 2, '2025-06-04': 2, '2025-06-05': 2 })
+    await expect(bookingWaitlistService.demand('t1', { from: now, to: new Date('2026-06-01T00:00:00Z') })).rejects.toThrow('The demand window')
+  })
+})
@@ -1,16 +1,12 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { generateOccurrences, planRecurringBookings } from '@/lib/booking/recurring'
+import { checkBookingConflict } from '@/lib/booking/conflict-detection'
 
 vi.mock('@/lib/booking/conflict-detection', async (orig) => {
   return {
     // @ts-ignore
     ...(await (orig as any)()),
-    checkBookingConflict: vi.fn(async ({ start }: any) => {
-      // Mark every other occurrence as conflict to validate mapping
-      const minute = new Date(start).getMinutes()
-      const conflict = minute % 2 === 0
-      return { conflict, details: conflict ? { reason: 'OVERLAP' } : undefined }
-    })
+    checkBookingConflict: vi.fn(),
   }
 })
 
@@ -38,9 +34,43 @@ describe('generateOccurrences', () => {
     expect(list.length).toBeGreaterThan(0)
     expect(list[list.length - 1] <= until).toBe(true)
   })
+
+  it('expands an RRULE in the series time zone with exceptions', () => {
+    const start = new Date('2025-10-30T09:00:00-04:00') // Last Thursday of October, New York
+    const list = generateOccurrences(start, 60, {
+      rrule: 'FREQ=MONTHLY;BYDAY=-1TH;COUNT=4',
+      timeZone: 'America/New_York',
+      exdates: [new Date('2025-12-25T14:00:00Z')],
+      rdates: [new Date('2026-01-02T14:00:00Z')],
+    })
+    expect(list.map(d => d.toISOString())).toEqual([
+      '2025-10-30T13:00:00.000Z',
+      '2025-11-27T14:00:00.000Z',
+      '2026-01-02T14:00:00.000Z',
+      '2026-01-29T14:00:00.000Z',
+    ])
+  })
+
+  it('stops open-ended series a year ahead', () => {
+    const start = new Date(Date.UTC(2025, 0, 1, 9))
+    const list = generateOccurrences(start, 60, { frequency: 'WEEKLY', byWeekday: [1, 3] })
+    expect(list.length).toBe(105) // 52 Mondays and 53 Wednesdays in 2025
+    expect(list[list.length - 1].toISOString()).toBe('2025-12-31T09:00:00.000Z')
+    expect(() => generateOccurrences(start, 60, { rrule: 'FREQ=HOURLY' })).toThrow('Unsupported recurrence rule')
+  })
 })
 
 describe('planRecurringBookings', () => {
+  // vitest.setup.ts resets every mock before each test, so the implementation is set here
+  beforeEach(() => {
+    vi.mocked(checkBookingConflict).mockImplementation(async ({ start }: any) => {
+      // Mark every other occurrence as conflict to validate mapping
+      const minute = new Date(start).getMinutes()
+      const conflict = minute % 2 === 0
+      return { conflict, details: conflict ? { reason: 'OVERLAP' } : undefined } as any
+    })
+  })
+
   it('maps conflicts into plan items', async () => {
     const start = new Date(Date.UTC(2025, 0, 6, 9, 2))
     const plan = await planRecurringBookings({ serviceId: 'svc', clientId: 'u1', durationMinutes: 60, start, pattern: { frequency: 'DAILY', count: 3 } })